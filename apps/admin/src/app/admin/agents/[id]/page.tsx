@@ -79,7 +79,8 @@ import {
   Building,
   Sparkles,
   Lock,
-  FileCheck
+  FileCheck,
+  FlaskConical
 } from 'lucide-react'
 import type {
   AgentWithRelations,
@@ -102,6 +103,8 @@ import type {
 import { validateToolSchemas, getValidationSummary, getProductionTestSummary, getMCPTestSummary } from '@/lib/tool-schema-validator'
 import { SCHEDULE_PRESETS, EXECUTION_STATUS_LABELS } from '@/types/agents'
 import { describeCron } from '@/lib/cron-utils'
+import { AgentMCPIntegrationsCard } from '@/components/admin/agent-mcp-integrations-card'
+import { AgentEvalSuitesCard } from '@/components/admin/agent-eval-suites-card'
 
 const PROVIDER_OPTIONS: { value: AIProvider; label: string }[] = [
   { value: 'anthropic', label: 'Anthropic (Claude)' },
@@ -251,6 +254,7 @@ export default function AgentBuilderPage() {
   const [userDescription, setUserDescription] = useState('')
   const [provider, setProvider] = useState<AIProvider>('anthropic')
   const [model, setModel] = useState<AgentModel>('sonnet')
+  const [fallbackModels, setFallbackModels] = useState('')
   const [permissionMode, setPermissionMode] = useState<PermissionMode>('default')
   const [maxTurns, setMaxTurns] = useState(10)
   const [isHead, setIsHead] = useState(false)
@@ -340,6 +344,7 @@ export default function AgentBuilderPage() {
       setUserDescription(data.agent.user_description || '')
       setProvider(data.agent.provider || 'anthropic')
       setModel(data.agent.model)
+      setFallbackModels(((data.agent.provider_config?.fallback_models as string[] | undefined) || []).join(', '))
       setPermissionMode(data.agent.permission_mode)
       setMaxTurns(data.agent.max_turns)
       setIsHead(data.agent.is_head)
@@ -539,6 +544,10 @@ export default function AgentBuilderPage() {
           user_description: userDescription || null,
           provider,
           model,
+          provider_config: {
+            ...agent?.provider_config,
+            fallback_models: fallbackModels.split(',').map(m => m.trim()).filter(Boolean),
+          },
           permission_mode: permissionMode,
           max_turns: maxTurns,
           is_head: isHead,
@@ -749,7 +758,11 @@ export default function AgentBuilderPage() {
         body: JSON.stringify({ version })
       })
 
-      if (!res.ok) throw new Error('Failed to publish version')
+      if (!res.ok) {
+        // Blocked publishes explain which eval suites still need to pass
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to publish version')
+      }
       await fetchAgent()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to publish version')
@@ -1047,6 +1060,10 @@ export default function AgentBuilderPage() {
                 Schedules
                 <Badge variant="secondary" className="ml-1">{schedules.length}</Badge>
               </TabsTrigger>
+              <TabsTrigger value="evals" className="flex items-center gap-1 flex-shrink-0">
+                <FlaskConical className="h-4 w-4" />
+                Evals
+              </TabsTrigger>
             </TabsList>
 
             {/* Identity Tab */}
@@ -1163,6 +1180,19 @@ export default function AgentBuilderPage() {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="fallbackModels">Fallback Models</Label>
+                    <Input
+                      id="fallbackModels"
+                      value={fallbackModels}
+                      onChange={e => setFallbackModels(e.target.value)}
+                      placeholder="e.g. grok-4-fast, openai-compatible/llama3.1"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Comma-separated, up to 3. If the model errors or is rate-limited, the request is retried on each of these in order.
+                    </p>
+                  </div>
+
                   <div className="flex items-center gap-4">
                     <div className="flex items-center gap-2">
                       <Checkbox id="is-head" checked={isHead} onCheckedChange={(v) => setIsHead(!!v)} />
@@ -1790,6 +1820,8 @@ export default function AgentBuilderPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <AgentMCPIntegrationsCard agentId={id} />
             </TabsContent>
 
             {/* Skills Tab */}
@@ -2590,6 +2622,16 @@ export default function AgentBuilderPage() {
               </Card>
             </TabsContent>
 
+            {/* Evals Tab */}
+            <TabsContent value="evals">
+              <AgentEvalSuitesCard
+                agentId={id}
+                versions={versions}
+                publishedVersion={agent.published_version}
+                onPublish={publishVersion}
+              />
+            </TabsContent>
+
           </Tabs>
         </div>
 
@@ -17,9 +17,12 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { format } from 'date-fns'
-import { ScrollText } from 'lucide-react'
+import { ScrollText, Wrench } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
+import { ToolCallStatsTable } from '@/components/admin/testing'
+import type { ToolCallLogEntry, ToolCallOutcome, ToolCallStats } from '@/types/testing'
 
 interface AuditLog {
   id: string
@@ -45,6 +48,21 @@ const targetTypes = [
   { value: 'api_key', label: 'API Key' },
 ]
 
+const toolCallOutcomes = [
+  { value: 'all', label: 'All Outcomes' },
+  { value: 'success', label: 'Success' },
+  { value: 'error', label: 'Error' },
+  { value: 'denied', label: 'Denied' },
+  { value: 'invalid', label: 'Invalid' },
+]
+
+const outcomeVariants: Record<ToolCallOutcome, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  success: 'secondary',
+  error: 'destructive',
+  denied: 'outline',
+  invalid: 'outline',
+}
+
 export default function AuditLogsPage() {
   const [logs, setLogs] = useState<AuditLog[]>([])
   const [loading, setLoading] = useState(true)
@@ -84,19 +102,144 @@ export default function AuditLogsPage() {
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-3xl font-bold">Audit Logs</h1>
-          <p className="text-muted-foreground">Track all admin actions on the platform</p>
-        </div>
-        <Select value={targetType} onValueChange={setTargetType}>
+      <div>
+        <h1 className="text-3xl font-bold">Audit Logs</h1>
+        <p className="text-muted-foreground">Track admin actions and MCP tool calls on the platform</p>
+      </div>
+
+      <Tabs defaultValue="admin">
+        <TabsList>
+          <TabsTrigger value="admin">Admin Actions</TabsTrigger>
+          <TabsTrigger value="tool-calls">Tool Calls</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="admin" className="space-y-4">
+          <div className="flex justify-end">
+            <Select value={targetType} onValueChange={setTargetType}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Filter by type" />
+              </SelectTrigger>
+              <SelectContent>
+                {targetTypes.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Timestamp</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 10 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-20" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-28" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : logs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      <ScrollText className="mx-auto h-12 w-12 mb-4 opacity-50" />
+                      <p>No audit logs found</p>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  logs.map((log) => (
+                    <TableRow key={log.id}>
+                      <TableCell>
+                        <Badge variant={getActionColor(log.action)}>
+                          {formatAction(log.action)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {log.admin ? (
+                          <div>
+                            <p className="text-sm font-medium">{log.admin.name || 'No name'}</p>
+                            <p className="text-xs text-muted-foreground">{log.admin.email}</p>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">Unknown</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{log.target_type}</Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground font-mono text-sm">
+                        {log.ip_address || 'N/A'}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(log.created_at), 'MMM d, yyyy HH:mm:ss')}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="tool-calls">
+          <ToolCallsTab />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+function ToolCallsTab() {
+  const [calls, setCalls] = useState<ToolCallLogEntry[]>([])
+  const [stats, setStats] = useState<ToolCallStats[]>([])
+  const [loading, setLoading] = useState(true)
+  const [outcome, setOutcome] = useState('all')
+
+  const fetchCalls = useCallback(async () => {
+    setLoading(true)
+    const params = new URLSearchParams()
+    if (outcome !== 'all') params.set('outcome', outcome)
+
+    const [callsRes, statsRes] = await Promise.all([
+      fetch(`/api/admin/tool-calls?${params}`),
+      fetch('/api/admin/tool-calls/stats?hours=24'),
+    ])
+    const callsData = await callsRes.json()
+    const statsData = await statsRes.json()
+    setCalls(callsData.calls || [])
+    setStats(statsData.stats || [])
+    setLoading(false)
+  }, [outcome])
+
+  useEffect(() => {
+    fetchCalls()
+  }, [fetchCalls])
+
+  return (
+    <div className="space-y-4">
+      <ToolCallStatsTable stats={stats} hours={24} loading={loading} limit={10} />
+
+      <div className="flex justify-end">
+        <Select value={outcome} onValueChange={setOutcome}>
           <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Filter by type" />
+            <SelectValue placeholder="Filter by outcome" />
           </SelectTrigger>
           <SelectContent>
-            {targetTypes.map((type) => (
-              <SelectItem key={type.value} value={type.value}>
-                {type.label}
+            {toolCallOutcomes.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
               </SelectItem>
             ))}
           </SelectContent>
@@ -107,10 +250,11 @@ export default function AuditLogsPage() {
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Action</TableHead>
-              <TableHead>Admin</TableHead>
-              <TableHead>Target</TableHead>
-              <TableHead>IP Address</TableHead>
+              <TableHead>Tool</TableHead>
+              <TableHead>Outcome</TableHead>
+              <TableHead>Caller</TableHead>
+              <TableHead>Latency</TableHead>
+              <TableHead>Rows</TableHead>
               <TableHead>Timestamp</TableHead>
             </TableRow>
           </TableHeader>
@@ -118,46 +262,43 @@ export default function AuditLogsPage() {
             {loading ? (
               Array.from({ length: 10 }).map((_, i) => (
                 <TableRow key={i}>
-                  <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                  <TableCell><Skeleton className="h-5 w-16" /></TableCell>
                   <TableCell><Skeleton className="h-4 w-40" /></TableCell>
-                  <TableCell><Skeleton className="h-4 w-20" /></TableCell>
-                  <TableCell><Skeleton className="h-4 w-28" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-12" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-8" /></TableCell>
                   <TableCell><Skeleton className="h-4 w-32" /></TableCell>
                 </TableRow>
               ))
-            ) : logs.length === 0 ? (
+            ) : calls.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
-                  <ScrollText className="mx-auto h-12 w-12 mb-4 opacity-50" />
-                  <p>No audit logs found</p>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  <Wrench className="mx-auto h-12 w-12 mb-4 opacity-50" />
+                  <p>No tool calls found</p>
                 </TableCell>
               </TableRow>
             ) : (
-              logs.map((log) => (
-                <TableRow key={log.id}>
-                  <TableCell>
-                    <Badge variant={getActionColor(log.action)}>
-                      {formatAction(log.action)}
-                    </Badge>
-                  </TableCell>
+              calls.map((call) => (
+                <TableRow key={call.id}>
                   <TableCell>
-                    {log.admin ? (
-                      <div>
-                        <p className="text-sm font-medium">{log.admin.name || 'No name'}</p>
-                        <p className="text-xs text-muted-foreground">{log.admin.email}</p>
-                      </div>
-                    ) : (
-                      <span className="text-muted-foreground">Unknown</span>
+                    <p className="font-mono text-sm">{call.tool_name}</p>
+                    {call.error_message && (
+                      <p className="text-xs text-muted-foreground max-w-md truncate" title={call.error_message}>
+                        {call.error_message}
+                      </p>
                     )}
                   </TableCell>
                   <TableCell>
-                    <Badge variant="outline">{log.target_type}</Badge>
+                    <Badge variant={outcomeVariants[call.outcome]}>{call.outcome}</Badge>
                   </TableCell>
-                  <TableCell className="text-muted-foreground font-mono text-sm">
-                    {log.ip_address || 'N/A'}
+                  <TableCell className="text-xs text-muted-foreground font-mono">
+                    <p>{call.agent_id ? `agent ${call.agent_id.slice(0, 8)}` : call.user_id ? `user ${call.user_id.slice(0, 8)}` : 'unknown'}</p>
+                    <p>{call.workspace_id ? `workspace ${call.workspace_id.slice(0, 8)}` : 'no workspace'} · {call.transport}</p>
                   </TableCell>
+                  <TableCell className="text-sm">{call.latency_ms}ms</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{call.rows_affected ?? '-'}</TableCell>
                   <TableCell className="text-muted-foreground">
-                    {format(new Date(log.created_at), 'MMM d, yyyy HH:mm:ss')}
+                    {format(new Date(call.created_at), 'MMM d, yyyy HH:mm:ss')}
                   </TableCell>
                 </TableRow>
               ))
@@ -40,7 +40,7 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import { Textarea } from '@/components/ui/textarea'
-import { Plus, Plug, Trash2, ExternalLink, Terminal, Radio, Globe } from 'lucide-react'
+import { Plus, Plug, Trash2, ExternalLink, Terminal, Radio, Globe, RefreshCw } from 'lucide-react'
 
 interface MCPIntegration {
   id: string
@@ -50,6 +50,10 @@ interface MCPIntegration {
   config: Record<string, unknown>
   auth_type: string
   is_enabled: boolean
+  health_status: 'unknown' | 'healthy' | 'unhealthy'
+  last_health_check_at: string | null
+  last_health_error: string | null
+  tool_count: number | null
   created_at: string
 }
 
@@ -65,6 +69,42 @@ const typeLabels = {
   http: 'HTTP/REST'
 }
 
+const healthColors = {
+  unknown: 'bg-gray-100 text-gray-800',
+  healthy: 'bg-green-100 text-green-800',
+  unhealthy: 'bg-red-100 text-red-800'
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  type: 'http' as 'stdio' | 'sse' | 'http',
+  config: '{}',
+  auth_type: 'none',
+  secret: '',
+  username: '',
+  header_name: '',
+  env_var: ''
+}
+
+// Build auth_config from the form - the secret field depends on the auth type
+function buildAuthConfig(form: typeof emptyForm): Record<string, string> {
+  switch (form.auth_type) {
+    case 'api_key':
+      return {
+        api_key: form.secret,
+        ...(form.header_name && { header_name: form.header_name }),
+        ...(form.env_var && { env_var: form.env_var })
+      }
+    case 'basic':
+      return { username: form.username, password: form.secret }
+    case 'oauth':
+      return { access_token: form.secret }
+    default:
+      return {}
+  }
+}
+
 export default function MCPIntegrationsPage() {
   const [integrations, setIntegrations] = useState<MCPIntegration[]>([])
   const [loading, setLoading] = useState(true)
@@ -73,14 +113,9 @@ export default function MCPIntegrationsPage() {
     open: false,
     integration: null
   })
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    type: 'http' as 'stdio' | 'sse' | 'http',
-    config: '{}',
-    auth_type: 'none'
-  })
+  const [formData, setFormData] = useState(emptyForm)
   const [actionLoading, setActionLoading] = useState(false)
+  const [checkingId, setCheckingId] = useState<string | null>(null)
   const [formError, setFormError] = useState('')
 
   const fetchIntegrations = useCallback(async () => {
@@ -118,14 +153,15 @@ export default function MCPIntegrationsPage() {
         description: formData.description || null,
         type: formData.type,
         config: configJson,
-        auth_type: formData.auth_type
+        auth_type: formData.auth_type,
+        auth_config: buildAuthConfig(formData)
       })
     })
 
     if (res.ok) {
       fetchIntegrations()
       setCreateDialog(false)
-      setFormData({ name: '', description: '', type: 'http', config: '{}', auth_type: 'none' })
+      setFormData(emptyForm)
     } else {
       const data = await res.json()
       setFormError(data.error || 'Failed to create integration')
@@ -160,6 +196,14 @@ export default function MCPIntegrationsPage() {
     }
   }
 
+  async function handleCheckHealth(integration: MCPIntegration) {
+    setCheckingId(integration.id)
+    await fetch(`/api/admin/mcp-integrations/${integration.id}/health`, { method: 'POST' })
+    // The agent server records the result on the integration either way
+    await fetchIntegrations()
+    setCheckingId(null)
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -218,6 +262,7 @@ export default function MCPIntegrationsPage() {
               <TableHead>Type</TableHead>
               <TableHead>Auth</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Health</TableHead>
               <TableHead>Created</TableHead>
               <TableHead className="w-[100px]">Actions</TableHead>
             </TableRow>
@@ -230,13 +275,14 @@ export default function MCPIntegrationsPage() {
                   <TableCell><Skeleton className="h-4 w-20" /></TableCell>
                   <TableCell><Skeleton className="h-4 w-16" /></TableCell>
                   <TableCell><Skeleton className="h-4 w-16" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-20" /></TableCell>
                   <TableCell><Skeleton className="h-4 w-24" /></TableCell>
                   <TableCell><Skeleton className="h-8 w-20" /></TableCell>
                 </TableRow>
               ))
             ) : integrations.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                   No integrations yet. Add your first MCP integration.
                 </TableCell>
               </TableRow>
@@ -268,6 +314,34 @@ export default function MCPIntegrationsPage() {
                         onCheckedChange={() => handleToggleEnabled(integration)}
                       />
                     </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant="secondary"
+                          className={healthColors[integration.health_status || 'unknown']}
+                          title={integration.last_health_error || undefined}
+                        >
+                          {integration.health_status || 'unknown'}
+                          {integration.health_status === 'healthy' && integration.tool_count !== null && (
+                            <> · {integration.tool_count} tools</>
+                          )}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCheckHealth(integration)}
+                          disabled={checkingId === integration.id}
+                          title="Check connection"
+                        >
+                          <RefreshCw className={`h-4 w-4 ${checkingId === integration.id ? 'animate-spin' : ''}`} />
+                        </Button>
+                      </div>
+                      {integration.last_health_check_at && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Checked {formatDistanceToNow(new Date(integration.last_health_check_at), { addSuffix: true })}
+                        </p>
+                      )}
+                    </TableCell>
                     <TableCell className="text-muted-foreground">
                       {formatDistanceToNow(new Date(integration.created_at), { addSuffix: true })}
                     </TableCell>
@@ -365,6 +439,57 @@ export default function MCPIntegrationsPage() {
                 </Select>
               </div>
             </div>
+            {formData.auth_type === 'basic' && (
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  value={formData.username}
+                  onChange={e => setFormData(prev => ({ ...prev, username: e.target.value }))}
+                  required
+                />
+              </div>
+            )}
+            {formData.auth_type !== 'none' && (
+              <div className="space-y-2">
+                <Label htmlFor="secret">
+                  {formData.auth_type === 'api_key' ? 'API Key' : formData.auth_type === 'basic' ? 'Password' : 'Access Token'}
+                </Label>
+                <Input
+                  id="secret"
+                  type="password"
+                  autoComplete="off"
+                  value={formData.secret}
+                  onChange={e => setFormData(prev => ({ ...prev, secret: e.target.value }))}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Stored encrypted and only decrypted by the agent server when it connects.
+                </p>
+              </div>
+            )}
+            {formData.auth_type === 'api_key' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="header_name">Header</Label>
+                  <Input
+                    id="header_name"
+                    placeholder="Authorization"
+                    value={formData.header_name}
+                    onChange={e => setFormData(prev => ({ ...prev, header_name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="env_var">Env Variable (stdio)</Label>
+                  <Input
+                    id="env_var"
+                    placeholder="API_KEY"
+                    value={formData.env_var}
+                    onChange={e => setFormData(prev => ({ ...prev, env_var: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="config">Configuration (JSON)</Label>
               <Textarea
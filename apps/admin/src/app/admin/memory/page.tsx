@@ -67,9 +67,13 @@ import {
   Clock,
   TrendingDown,
   Plus,
-  Loader2
+  Loader2,
+  GitMerge,
+  ArrowRight
 } from 'lucide-react'
 import type {
+  ConflictResolution,
+  MemoryConflictWithFacts,
   MemoryFact,
   MemorySummary,
   MemoryEpisode,
@@ -77,6 +81,7 @@ import type {
   MemoryScope,
   SummaryCategory
 } from '@/types/memory'
+import { MemoryEmbeddingCard } from '@/components/admin/memory-embedding-card'
 
 interface Workspace {
   id: string
@@ -89,6 +94,8 @@ interface MemoryStats {
   unprocessedEpisodes: number
   totalFacts: number
   activeFacts: number
+  supersededFacts: number
+  pendingConflicts: number
   totalSummaries: number
   factsByType: Record<FactType, number>
   factsByScope: Record<MemoryScope, number>
@@ -118,6 +125,7 @@ export default function MemoryPage() {
   const [factsTotal, setFactsTotal] = useState(0)
   const [factTypeFilter, setFactTypeFilter] = useState<string>('all')
   const [factScopeFilter, setFactScopeFilter] = useState<string>('all')
+  const [factStatusFilter, setFactStatusFilter] = useState<string>('active')
 
   // Summaries state
   const [summaries, setSummaries] = useState<MemorySummary[]>([])
@@ -128,6 +136,11 @@ export default function MemoryPage() {
   const [episodesTotal, setEpisodesTotal] = useState(0)
   const [episodeProcessedFilter, setEpisodeProcessedFilter] = useState<string>('all')
 
+  // Conflicts state
+  const [conflicts, setConflicts] = useState<MemoryConflictWithFacts[]>([])
+  const [conflictsTotal, setConflictsTotal] = useState(0)
+  const [resolvingConflict, setResolvingConflict] = useState<string | null>(null)
+
   // Search state
   const [searchQuery, setSearchQuery] = useState('')
   const [searchResults, setSearchResults] = useState<MemoryFact[]>([])
@@ -182,6 +195,7 @@ export default function MemoryPage() {
     const params = new URLSearchParams({ workspace_id: selectedWorkspace })
     if (factTypeFilter !== 'all') params.set('fact_type', factTypeFilter)
     if (factScopeFilter !== 'all') params.set('scope', factScopeFilter)
+    params.set('is_active', factStatusFilter === 'active' ? 'true' : 'false')
 
     const res = await fetch(`/api/admin/memory/facts?${params}`)
     if (res.ok) {
@@ -189,7 +203,7 @@ export default function MemoryPage() {
       setFacts(data.facts || [])
       setFactsTotal(data.total || 0)
     }
-  }, [selectedWorkspace, factTypeFilter, factScopeFilter])
+  }, [selectedWorkspace, factTypeFilter, factScopeFilter, factStatusFilter])
 
   // Fetch summaries
   const fetchSummaries = useCallback(async () => {
@@ -218,16 +232,28 @@ export default function MemoryPage() {
     }
   }, [selectedWorkspace, episodeProcessedFilter])
 
+  // Fetch conflicts awaiting review
+  const fetchConflicts = useCallback(async () => {
+    if (!selectedWorkspace) return
+    const res = await fetch(`/api/admin/memory/conflicts?workspace_id=${selectedWorkspace}`)
+    if (res.ok) {
+      const data = await res.json()
+      setConflicts(data.conflicts || [])
+      setConflictsTotal(data.total || 0)
+    }
+  }, [selectedWorkspace])
+
   useEffect(() => {
     if (selectedWorkspace) {
       fetchStats()
       fetchFacts()
       fetchSummaries()
       fetchEpisodes()
+      fetchConflicts()
     }
-  }, [selectedWorkspace, fetchStats, fetchFacts, fetchSummaries, fetchEpisodes])
+  }, [selectedWorkspace, fetchStats, fetchFacts, fetchSummaries, fetchEpisodes, fetchConflicts])
 
-  // Semantic search
+  // Hybrid keyword + semantic search
   async function handleSearch() {
     if (!searchQuery.trim() || !selectedWorkspace) return
 
@@ -274,6 +300,7 @@ export default function MemoryPage() {
         setShowAddFact(false)
         setNewFactContent('')
         fetchFacts()
+        fetchConflicts()
         fetchStats()
       }
     } finally {
@@ -295,6 +322,35 @@ export default function MemoryPage() {
     }
   }
 
+  // Resolve a conflict
+  async function handleResolveConflict(conflictId: string, resolution: ConflictResolution) {
+    setResolvingConflict(conflictId)
+    try {
+      const res = await fetch(`/api/admin/memory/conflicts/${conflictId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution })
+      })
+
+      if (res.ok) {
+        fetchConflicts()
+        fetchFacts()
+        fetchStats()
+      }
+    } finally {
+      setResolvingConflict(null)
+    }
+  }
+
+  // Open the fact that replaced the selected one
+  async function handleViewSupersedingFact(factId: string) {
+    const res = await fetch(`/api/admin/memory/facts/${factId}`)
+    if (res.ok) {
+      const data = await res.json()
+      setSelectedFact(data.fact)
+    }
+  }
+
   // Process episodes
   async function handleProcessEpisodes() {
     if (!selectedWorkspace) return
@@ -310,6 +366,7 @@ export default function MemoryPage() {
       if (res.ok) {
         fetchEpisodes()
         fetchFacts()
+        fetchConflicts()
         fetchStats()
       }
     } finally {
@@ -398,7 +455,7 @@ export default function MemoryPage() {
             <CardContent>
               <div className="text-2xl font-bold">{stats.activeFacts}</div>
               <p className="text-xs text-muted-foreground">
-                {stats.totalFacts - stats.activeFacts} inactive
+                {stats.totalFacts - stats.activeFacts} inactive, {stats.supersededFacts} superseded
               </p>
             </CardContent>
           </Card>
@@ -429,12 +486,12 @@ export default function MemoryPage() {
       {/* Search */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-base">Semantic Search</CardTitle>
+          <CardTitle className="text-base">Search</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="flex gap-2">
             <Input
-              placeholder="Search memories semantically..."
+              placeholder="Search memories by meaning or exact words, names and IDs..."
               value={searchQuery}
               onChange={e => setSearchQuery(e.target.value)}
               onKeyDown={e => e.key === 'Enter' && handleSearch()}
@@ -482,6 +539,8 @@ export default function MemoryPage() {
           <TabsTrigger value="facts">Facts ({factsTotal})</TabsTrigger>
           <TabsTrigger value="summaries">Summaries ({summariesTotal})</TabsTrigger>
           <TabsTrigger value="episodes">Episodes ({episodesTotal})</TabsTrigger>
+          <TabsTrigger value="conflicts">Conflicts ({conflictsTotal})</TabsTrigger>
+          <TabsTrigger value="embeddings">Embeddings</TabsTrigger>
         </TabsList>
 
         {/* Facts Tab */}
@@ -519,6 +578,15 @@ export default function MemoryPage() {
                       <SelectItem value="agent">Agent</SelectItem>
                     </SelectContent>
                   </Select>
+                  <Select value={factStatusFilter} onValueChange={setFactStatusFilter}>
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue placeholder="Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="inactive">Inactive</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <Button onClick={() => setShowAddFact(true)}>
                     <Plus className="h-4 w-4 mr-2" />
                     Add Fact
@@ -561,6 +629,9 @@ export default function MemoryPage() {
                           </TableCell>
                           <TableCell className="max-w-[400px]">
                             <p className="truncate text-sm">{fact.content}</p>
+                            {fact.superseded_by && (
+                              <p className="text-xs text-muted-foreground">Superseded</p>
+                            )}
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center gap-1">
@@ -740,6 +811,87 @@ export default function MemoryPage() {
             </CardContent>
           </Card>
         </TabsContent>
+        {/* Conflicts Tab */}
+        <TabsContent value="conflicts">
+          <Card>
+            <CardHeader>
+              <CardTitle>Fact Conflicts</CardTitle>
+              <CardDescription>
+                Similar facts that may contradict each other. Clear replacements are superseded
+                automatically; these need a decision. Both facts stay active until resolved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {conflicts.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  No conflicts to review.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {conflicts.map(conflict => (
+                    <div key={conflict.id} className="border rounded-md p-4 space-y-3">
+                      <div className="grid gap-3 md:grid-cols-[1fr_auto_1fr] md:items-center">
+                        <div className="p-3 bg-muted rounded-md">
+                          <p className="text-xs text-muted-foreground mb-1">
+                            Existing • {new Date(conflict.existing_fact.created_at).toLocaleDateString()}
+                          </p>
+                          <p className="text-sm">{conflict.existing_fact.content}</p>
+                        </div>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground mx-auto hidden md:block" />
+                        <div className="p-3 bg-muted rounded-md">
+                          <p className="text-xs text-muted-foreground mb-1">
+                            New • {new Date(conflict.new_fact.created_at).toLocaleDateString()}
+                          </p>
+                          <p className="text-sm">{conflict.new_fact.content}</p>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground">
+                          {conflict.reason && <>{conflict.reason} • </>}
+                          {Math.round(conflict.similarity * 100)}% similar
+                        </p>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={resolvingConflict === conflict.id}
+                            onClick={() => handleResolveConflict(conflict.id, 'keep_both')}
+                          >
+                            Keep both
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={resolvingConflict === conflict.id}
+                            onClick={() => handleResolveConflict(conflict.id, 'keep_existing')}
+                          >
+                            Keep existing
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={resolvingConflict === conflict.id}
+                            onClick={() => handleResolveConflict(conflict.id, 'keep_new')}
+                          >
+                            {resolvingConflict === conflict.id ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <GitMerge className="h-4 w-4 mr-2" />
+                            )}
+                            Keep new
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+        {/* Embeddings Tab */}
+        <TabsContent value="embeddings">
+          {selectedWorkspace && <MemoryEmbeddingCard workspaceId={selectedWorkspace} />}
+        </TabsContent>
       </Tabs>
 
       {/* Fact Detail Modal */}
@@ -756,11 +908,31 @@ export default function MemoryPage() {
                   {selectedFact.fact_type}
                 </Badge>
                 <Badge variant="outline">{selectedFact.scope}</Badge>
-                {!selectedFact.is_active && (
+                {selectedFact.superseded_by ? (
+                  <Badge variant="secondary">Superseded</Badge>
+                ) : !selectedFact.is_active && (
                   <Badge variant="destructive">Inactive</Badge>
                 )}
               </div>
 
+              {selectedFact.superseded_by && (
+                <div className="p-3 border rounded-md text-sm space-y-1">
+                  <p className="text-muted-foreground">
+                    Superseded
+                    {selectedFact.superseded_at && ` on ${new Date(selectedFact.superseded_at).toLocaleDateString()}`}
+                    {selectedFact.supersession_reason && `: ${selectedFact.supersession_reason}`}
+                  </p>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => handleViewSupersedingFact(selectedFact.superseded_by!)}
+                  >
+                    View replacing fact
+                  </Button>
+                </div>
+              )}
+
               <div>
                 <Label>Content</Label>
                 <p className="mt-1 p-3 bg-muted rounded-md text-sm">
@@ -5,22 +5,25 @@ import {
   TestingStatsOverview,
   SystemHealthCard,
   QuickTestPanel,
-  TestHistoryTable
+  TestHistoryTable,
+  ToolCallStatsTable
 } from '@/components/admin/testing'
-import type { TestingStats, TestHistoryEntry } from '@/types/testing'
+import type { TestingStats, TestHistoryEntry, ToolCallStats } from '@/types/testing'
 import { FlaskConical } from 'lucide-react'
 
 export default function TestingHubPage() {
   const [stats, setStats] = useState<TestingStats | null>(null)
   const [history, setHistory] = useState<TestHistoryEntry[]>([])
+  const [toolCallStats, setToolCallStats] = useState<ToolCallStats[]>([])
   const [loading, setLoading] = useState(true)
 
   const fetchData = useCallback(async () => {
     setLoading(true)
     try {
-      const [statsRes, historyRes] = await Promise.all([
+      const [statsRes, historyRes, toolCallsRes] = await Promise.all([
         fetch('/api/admin/testing/stats'),
-        fetch('/api/admin/testing/history?limit=10')
+        fetch('/api/admin/testing/history?limit=10'),
+        fetch('/api/admin/tool-calls/stats?hours=24')
       ])
 
       if (statsRes.ok) {
@@ -32,6 +35,11 @@ export default function TestingHubPage() {
         const data = await historyRes.json()
         setHistory(data.tests || [])
       }
+
+      if (toolCallsRes.ok) {
+        const data = await toolCallsRes.json()
+        setToolCallStats(data.stats || [])
+      }
     } catch (err) {
       console.error('Failed to fetch testing data:', err)
     } finally {
@@ -63,6 +71,8 @@ export default function TestingHubPage() {
         <TestHistoryTable entries={history} loading={loading} limit={10} />
         <SystemHealthCard stats={stats} loading={loading} />
       </div>
+
+      <ToolCallStatsTable stats={toolCallStats} hours={24} loading={loading} />
     </div>
   )
 }
@@ -6,6 +6,13 @@ import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Card,
   CardContent,
@@ -40,9 +47,20 @@ interface Tool {
   input_schema: Record<string, unknown>
   is_builtin: boolean
   is_enabled: boolean
+  approval_policy: ApprovalPolicy
+  approval_threshold_field: string | null
+  approval_threshold: number | null
   created_at: string
 }
 
+type ApprovalPolicy = 'never' | 'always' | 'threshold'
+
+const approvalPolicyLabels: Record<ApprovalPolicy, string> = {
+  never: 'No approval',
+  always: 'Always ask',
+  threshold: 'Above threshold',
+}
+
 interface DepartmentConfig {
   key: string
   label: string
@@ -93,6 +111,24 @@ export default function ToolsPage() {
     }
   }
 
+  // Approval policies pause the tool in live chat until the user confirms the call
+  async function handleUpdateApproval(tool: Tool, updates: Partial<Pick<Tool, 'approval_policy' | 'approval_threshold_field' | 'approval_threshold'>>) {
+    const next = { ...tool, ...updates }
+    const res = await fetch(`/api/admin/agent-tools/${tool.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        approval_policy: next.approval_policy,
+        approval_threshold_field: next.approval_policy === 'threshold' ? (next.approval_threshold_field || 'amount') : next.approval_threshold_field,
+        approval_threshold: next.approval_policy === 'threshold' ? (next.approval_threshold ?? 1000) : next.approval_threshold,
+      })
+    })
+
+    if (res.ok) {
+      fetchTools()
+    }
+  }
+
   const filteredTools = useMemo(() => {
     if (!searchQuery) return tools
     const query = searchQuery.toLowerCase()
@@ -328,6 +364,39 @@ export default function ToolsPage() {
                                 </p>
                               </div>
                               <div className="flex items-center gap-4 ml-4">
+                                {tool.approval_policy === 'threshold' && (
+                                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                                    <span className="font-mono">{tool.approval_threshold_field}</span>
+                                    <span>&gt;</span>
+                                    <Input
+                                      type="number"
+                                      min={0}
+                                      defaultValue={tool.approval_threshold ?? ''}
+                                      onBlur={(e) => {
+                                        const threshold = Number(e.target.value)
+                                        if (e.target.value !== '' && threshold !== tool.approval_threshold) {
+                                          handleUpdateApproval(tool, { approval_threshold: threshold })
+                                        }
+                                      }}
+                                      className="h-8 w-24"
+                                    />
+                                  </div>
+                                )}
+                                <Select
+                                  value={tool.approval_policy}
+                                  onValueChange={(value) => handleUpdateApproval(tool, { approval_policy: value as ApprovalPolicy })}
+                                >
+                                  <SelectTrigger className="h-8 w-[150px]">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {(Object.keys(approvalPolicyLabels) as ApprovalPolicy[]).map(policy => (
+                                      <SelectItem key={policy} value={policy}>
+                                        {approvalPolicyLabels[policy]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
                                 <Badge variant={tool.is_enabled ? 'default' : 'secondary'}>
                                   {tool.is_enabled ? 'Enabled' : 'Disabled'}
                                 </Badge>
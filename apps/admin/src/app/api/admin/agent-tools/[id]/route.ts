@@ -50,10 +50,11 @@ export async function PATCH(
     return NextResponse.json({ error: 'Tool not found' }, { status: 404 })
   }
 
-  // Built-in tools can only have is_enabled toggled
+  // Built-in tools can only have is_enabled toggled and their approval policy set
+  const approvalFields = ['approval_policy', 'approval_threshold_field', 'approval_threshold']
   const allowedFields = existingTool.is_builtin
-    ? ['is_enabled']
-    : ['name', 'description', 'category', 'input_schema', 'is_enabled']
+    ? ['is_enabled', ...approvalFields]
+    : ['name', 'description', 'category', 'input_schema', 'is_enabled', ...approvalFields]
 
   const updates: Record<string, unknown> = {}
 
@@ -71,6 +72,25 @@ export async function PATCH(
     )
   }
 
+  const validApprovalPolicies = ['never', 'always', 'threshold']
+  if (updates.approval_policy && !validApprovalPolicies.includes(updates.approval_policy as string)) {
+    return NextResponse.json(
+      { error: `Invalid approval policy. Must be one of: ${validApprovalPolicies.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (updates.approval_policy === 'threshold') {
+    const threshold = Number(updates.approval_threshold)
+    if (!updates.approval_threshold_field || updates.approval_threshold === undefined || !Number.isFinite(threshold) || threshold < 0) {
+      return NextResponse.json(
+        { error: 'A threshold policy needs an input field and a non-negative threshold' },
+        { status: 400 }
+      )
+    }
+    updates.approval_threshold = threshold
+  }
+
   const { data, error: dbError } = await supabase
     .from('agent_tools')
     .update(updates)
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { validateEvalCases } from '@/lib/agent-evals'
+
+// PATCH /api/admin/agents/[id]/evals/[suiteId] - Update an eval suite
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; suiteId: string }> }
+) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const { id, suiteId } = await params
+  const body = await request.json()
+
+  const allowedFields = ['name', 'description', 'cases', 'is_required']
+  const updates: Record<string, unknown> = {}
+
+  for (const field of allowedFields) {
+    if (body[field] !== undefined) {
+      updates[field] = body[field]
+    }
+  }
+
+  if (updates.name !== undefined && (typeof updates.name !== 'string' || updates.name.trim() === '')) {
+    return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 })
+  }
+
+  if (updates.cases !== undefined) {
+    const casesError = validateEvalCases(updates.cases)
+    if (casesError) {
+      return NextResponse.json({ error: casesError }, { status: 400 })
+    }
+  }
+
+  // Bumping updated_at means runs made against the old cases no longer count towards publishing
+  updates.updated_at = new Date().toISOString()
+
+  const supabase = createAdminClient()
+
+  const { data, error: dbError } = await supabase
+    .from('agent_eval_suites')
+    .update(updates)
+    .eq('id', suiteId)
+    .eq('agent_id', id)
+    .select()
+    .single()
+
+  if (dbError) {
+    console.error('Update eval suite error:', dbError)
+    return NextResponse.json({ error: 'Failed to update eval suite' }, { status: 500 })
+  }
+
+  if (!data) {
+    return NextResponse.json({ error: 'Eval suite not found' }, { status: 404 })
+  }
+
+  await logAdminAction(
+    user!.id,
+    'agent_eval_suite_updated',
+    'agent_eval_suite',
+    suiteId,
+    {
+      agent_id: id,
+      fields: Object.keys(updates).filter(field => field !== 'updated_at'),
+      ...(Array.isArray(updates.cases) && { case_count: updates.cases.length })
+    },
+    request
+  )
+
+  return NextResponse.json({ suite: data })
+}
+
+// DELETE /api/admin/agents/[id]/evals/[suiteId] - Delete an eval suite and its runs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; suiteId: string }> }
+) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const { id, suiteId } = await params
+  const supabase = createAdminClient()
+
+  const { data: suite } = await supabase
+    .from('agent_eval_suites')
+    .select('id, name')
+    .eq('id', suiteId)
+    .eq('agent_id', id)
+    .single()
+
+  if (!suite) {
+    return NextResponse.json({ error: 'Eval suite not found' }, { status: 404 })
+  }
+
+  const { error: dbError } = await supabase
+    .from('agent_eval_suites')
+    .delete()
+    .eq('id', suiteId)
+
+  if (dbError) {
+    console.error('Delete eval suite error:', dbError)
+    return NextResponse.json({ error: 'Failed to delete eval suite' }, { status: 500 })
+  }
+
+  await logAdminAction(
+    user!.id,
+    'agent_eval_suite_deleted',
+    'agent_eval_suite',
+    suiteId,
+    { agent_id: id, name: suite.name },
+    request
+  )
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getEvalGate, validateEvalCases } from '@/lib/agent-evals'
+
+// GET /api/admin/agents/[id]/evals - Get agent's eval suites, and the publish gate for ?version=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error } = await requireSuperadmin()
+  if (error) return error
+
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+  const version = searchParams.get('version')
+
+  const supabase = createAdminClient()
+
+  const { data, error: dbError } = await supabase
+    .from('agent_eval_suites')
+    .select('*')
+    .eq('agent_id', id)
+    .order('created_at', { ascending: true })
+
+  if (dbError) {
+    console.error('Fetch eval suites error:', dbError)
+    return NextResponse.json({ error: 'Failed to fetch eval suites' }, { status: 500 })
+  }
+
+  if (!version) {
+    return NextResponse.json({ suites: data || [] })
+  }
+
+  try {
+    const gate = await getEvalGate(supabase, id, parseInt(version, 10))
+    return NextResponse.json({ suites: data || [], gate })
+  } catch (err) {
+    console.error('Fetch eval runs error:', err)
+    return NextResponse.json({ error: 'Failed to fetch eval runs' }, { status: 500 })
+  }
+}
+
+// POST /api/admin/agents/[id]/evals - Create an eval suite
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const { id } = await params
+  const body = await request.json()
+  const { name, description, cases = [], is_required = true } = body
+
+  if (!name || typeof name !== 'string' || name.trim() === '') {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 })
+  }
+
+  const casesError = validateEvalCases(cases)
+  if (casesError) {
+    return NextResponse.json({ error: casesError }, { status: 400 })
+  }
+
+  const supabase = createAdminClient()
+
+  // Verify agent exists
+  const { data: agent } = await supabase
+    .from('ai_agents')
+    .select('id, name')
+    .eq('id', id)
+    .single()
+
+  if (!agent) {
+    return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+  }
+
+  const { data, error: dbError } = await supabase
+    .from('agent_eval_suites')
+    .insert({
+      agent_id: id,
+      name: name.trim(),
+      description: description || null,
+      cases,
+      is_required: is_required !== false,
+      created_by: user!.id
+    })
+    .select()
+    .single()
+
+  if (dbError) {
+    console.error('Create eval suite error:', dbError)
+    return NextResponse.json({ error: 'Failed to create eval suite' }, { status: 500 })
+  }
+
+  await logAdminAction(
+    user!.id,
+    'agent_eval_suite_created',
+    'agent_eval_suite',
+    data.id,
+    { agent_id: id, name: data.name, case_count: cases.length },
+    request
+  )
+
+  return NextResponse.json({ suite: data }, { status: 201 })
+}
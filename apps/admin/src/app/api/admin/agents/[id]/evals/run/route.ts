@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkEvalResults, getEvalGate } from '@/lib/agent-evals'
+import type { AgentEvalSuite, EvalCaseResult } from '@/types/agents'
+
+const AGENT_SERVER_URL = process.env.AGENT_SERVER_URL || 'http://localhost:3002'
+
+// Each suite is a series of real model calls
+export const maxDuration = 300
+
+// Suites share one time budget, leaving the rest of maxDuration to save runs and load the gate.
+// Suites that don't get at least MIN_SUITE_TIME_MS aren't started and are reported as not run
+const RUN_BUDGET_MS = 270000
+const SUITE_TIMEOUT_MS = 240000
+const MIN_SUITE_TIME_MS = 30000
+
+// POST /api/admin/agents/[id]/evals/run - Run eval suites against a version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const { id } = await params
+  const body = await request.json()
+  const { version, suite_ids } = body as { version?: number; suite_ids?: string[] }
+
+  if (version === undefined || typeof version !== 'number') {
+    return NextResponse.json({ error: 'version number is required' }, { status: 400 })
+  }
+
+  const supabase = createAdminClient()
+
+  const { data: versionData } = await supabase
+    .from('agent_versions')
+    .select('id, version, config_snapshot')
+    .eq('agent_id', id)
+    .eq('version', version)
+    .single()
+
+  if (!versionData) {
+    return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+  }
+
+  let suitesQuery = supabase
+    .from('agent_eval_suites')
+    .select('*')
+    .eq('agent_id', id)
+  if (Array.isArray(suite_ids) && suite_ids.length > 0) {
+    suitesQuery = suitesQuery.in('id', suite_ids)
+  }
+  const { data: suites, error: suitesError } = await suitesQuery
+
+  if (suitesError) {
+    console.error('Fetch eval suites error:', suitesError)
+    return NextResponse.json({ error: 'Failed to fetch eval suites' }, { status: 500 })
+  }
+
+  const runnable = ((suites || []) as AgentEvalSuite[]).filter(suite => suite.cases.length > 0)
+  if (runnable.length === 0) {
+    return NextResponse.json({ error: 'No eval suites with cases to run' }, { status: 400 })
+  }
+
+  const deadline = Date.now() + RUN_BUDGET_MS
+  const notRun: { suite_id: string; suite_name: string }[] = []
+
+  // Suites run one at a time so a large run doesn't hit provider rate limits
+  for (const suite of runnable) {
+    const remaining = deadline - Date.now()
+    if (remaining < MIN_SUITE_TIME_MS) {
+      // Not saved, so an earlier run of this suite still counts
+      notRun.push({ suite_id: suite.id, suite_name: suite.name })
+      continue
+    }
+
+    let results: EvalCaseResult[] = []
+    let runError: string | null = null
+
+    // The agent server stops the suite at the same deadline, so it doesn't keep spending after we give up
+    const timeoutMs = Math.min(SUITE_TIMEOUT_MS, remaining)
+
+    try {
+      const response = await fetch(`${AGENT_SERVER_URL}/agent-evals/run`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`
+        },
+        body: JSON.stringify({ config: versionData.config_snapshot, cases: suite.cases, timeoutMs }),
+        signal: AbortSignal.timeout(timeoutMs)
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (response.ok) {
+        results = data.results || []
+        runError = checkEvalResults(suite, results)
+      } else {
+        runError = data.error || `Agent server error ${response.status}`
+      }
+    } catch (err) {
+      console.error('Eval run error:', err)
+      runError = err instanceof Error && err.name === 'TimeoutError' ? 'Eval run timed out' : 'Agent server unreachable'
+    }
+
+    const passedCases = results.filter(result => result.passed).length
+    const { error: insertError } = await supabase
+      .from('agent_eval_runs')
+      .insert({
+        suite_id: suite.id,
+        agent_id: id,
+        version,
+        status: runError ? 'error' : passedCases === results.length ? 'passed' : 'failed',
+        suite_updated_at: suite.updated_at,
+        results,
+        passed_cases: passedCases,
+        failed_cases: results.length - passedCases,
+        cost_usd: results.reduce((sum, result) => sum + (result.cost_usd || 0), 0),
+        error: runError,
+        run_by: user!.id
+      })
+
+    if (insertError) {
+      console.error('Save eval run error:', insertError)
+      return NextResponse.json({ error: 'Failed to save eval run' }, { status: 500 })
+    }
+  }
+
+  try {
+    const gate = await getEvalGate(supabase, id, version)
+
+    await logAdminAction(
+      user!.id,
+      'agent_evals_run',
+      'agent_version',
+      versionData.id,
+      {
+        agent_id: id,
+        version,
+        suite_ids: runnable.map(suite => suite.id),
+        not_run: notRun.map(suite => suite.suite_id),
+        blocking: gate.blocking.length
+      },
+      request
+    )
+
+    return NextResponse.json({ gate, not_run: notRun })
+  } catch (err) {
+    console.error('Fetch eval runs error:', err)
+    return NextResponse.json({ error: 'Failed to fetch eval runs' }, { status: 500 })
+  }
+}
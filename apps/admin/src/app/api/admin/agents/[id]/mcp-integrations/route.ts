@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+const ASSIGNMENT_SELECT = `
+  mcp_integration_id,
+  integration:mcp_integrations(id, name, description, type, is_enabled, health_status, tool_count)
+`
+
+// GET /api/admin/agents/[id]/mcp-integrations - Get agent's MCP integration assignments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error } = await requireSuperadmin()
+  if (error) return error
+
+  const { id } = await params
+  const supabase = createAdminClient()
+
+  const { data, error: dbError } = await supabase
+    .from('ai_agent_mcp_integrations')
+    .select(ASSIGNMENT_SELECT)
+    .eq('agent_id', id)
+
+  if (dbError) {
+    console.error('Fetch agent MCP integrations error:', dbError)
+    return NextResponse.json({ error: 'Failed to fetch integrations' }, { status: 500 })
+  }
+
+  return NextResponse.json({ integrations: data || [] })
+}
+
+// PUT /api/admin/agents/[id]/mcp-integrations - Replace agent's MCP integration assignments
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const { id } = await params
+  const body = await request.json()
+  const { integration_ids } = body as { integration_ids: string[] }
+
+  if (!Array.isArray(integration_ids)) {
+    return NextResponse.json({ error: 'integration_ids must be an array' }, { status: 400 })
+  }
+
+  const supabase = createAdminClient()
+
+  // Verify agent exists
+  const { data: agent } = await supabase
+    .from('ai_agents')
+    .select('id, name')
+    .eq('id', id)
+    .single()
+
+  if (!agent) {
+    return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+  }
+
+  // Delete existing assignments
+  await supabase
+    .from('ai_agent_mcp_integrations')
+    .delete()
+    .eq('agent_id', id)
+
+  // Insert new assignments
+  if (integration_ids.length > 0) {
+    const { error: insertError } = await supabase
+      .from('ai_agent_mcp_integrations')
+      .insert(integration_ids.map(mcp_integration_id => ({ agent_id: id, mcp_integration_id })))
+
+    if (insertError) {
+      console.error('Insert agent MCP integrations error:', insertError)
+      return NextResponse.json({ error: 'Failed to assign integrations' }, { status: 500 })
+    }
+  }
+
+  await logAdminAction(
+    user!.id,
+    'agent_mcp_integrations_updated',
+    'ai_agent',
+    id,
+    { integration_ids, integration_count: integration_ids.length },
+    request
+  )
+
+  // Fetch updated assignments
+  const { data: updated } = await supabase
+    .from('ai_agent_mcp_integrations')
+    .select(ASSIGNMENT_SELECT)
+    .eq('agent_id', id)
+
+  return NextResponse.json({ integrations: updated || [] })
+}
@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { getEvalGate } from '@/lib/agent-evals'
+import type { EvalGate } from '@/types/agents'
+
+const BLOCKING_REASONS = {
+  not_run: 'not run',
+  outdated: 'edited since last run',
+  failed: 'failing'
+}
 
 // POST /api/admin/agents/[id]/publish - Publish a version
 export async function POST(
@@ -43,6 +51,23 @@ export async function POST(
     return NextResponse.json({ error: 'Version not found' }, { status: 404 })
   }
 
+  // Required eval suites must have passed against this version
+  let gate: EvalGate
+  try {
+    gate = await getEvalGate(supabase, id, version)
+  } catch (err) {
+    console.error('Fetch eval runs error:', err)
+    return NextResponse.json({ error: 'Failed to check eval suites' }, { status: 500 })
+  }
+
+  if (gate.blocking.length > 0) {
+    const suites = gate.blocking.map(b => `${b.suite_name} (${BLOCKING_REASONS[b.reason]})`).join(', ')
+    return NextResponse.json(
+      { error: `Eval suites must pass before publishing: ${suites}`, code: 'evals_required', gate },
+      { status: 409 }
+    )
+  }
+
   // Unpublish any currently published version
   await supabase
     .from('agent_versions')
@@ -78,9 +103,14 @@ export async function POST(
     'agent_version_published',
     'agent_version',
     publishedVersion.id,
-    { agent_id: id, version },
+    {
+      agent_id: id,
+      version,
+      previous_version: gate.published_version,
+      eval_regressions: gate.diff.filter(d => d.change === 'regressed').length
+    },
     request
   )
 
-  return NextResponse.json({ version: publishedVersion })
+  return NextResponse.json({ version: publishedVersion, evals: { diff: gate.diff } })
 }
@@ -261,6 +261,19 @@ export async function PATCH(
     }
   }
 
+  // Fallback models are tried in order by agent-server when the primary model fails
+  const fallbackModels = (updates.provider_config as { fallback_models?: unknown } | undefined)?.fallback_models
+  if (fallbackModels !== undefined && (
+    !Array.isArray(fallbackModels) ||
+    fallbackModels.length > 3 ||
+    !fallbackModels.every(m => typeof m === 'string' && m.trim().length > 0)
+  )) {
+    return NextResponse.json(
+      { error: 'provider_config.fallback_models must be a list of up to 3 model names' },
+      { status: 400 }
+    )
+  }
+
   if (updates.permission_mode && !['default', 'acceptEdits', 'bypassPermissions'].includes(updates.permission_mode as string)) {
     return NextResponse.json(
       { error: 'Invalid permission_mode' },
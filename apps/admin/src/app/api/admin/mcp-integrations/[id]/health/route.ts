@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin } from '@/lib/admin-auth'
+
+const AGENT_SERVER_URL = process.env.AGENT_SERVER_URL || 'http://localhost:3002'
+
+// POST /api/admin/mcp-integrations/[id]/health - Connect to the integration from agent-server and list its tools
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error } = await requireSuperadmin()
+  if (error) return error
+
+  const { id } = await params
+
+  try {
+    // agent-server holds the decryption key and makes the real connection
+    const response = await fetch(`${AGENT_SERVER_URL}/mcp-integrations/${id}/health`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`
+      },
+      signal: AbortSignal.timeout(30000)
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.error || `Agent server error ${response.status}` },
+        { status: response.status === 404 ? 404 : 502 }
+      )
+    }
+
+    return NextResponse.json({ health: data })
+  } catch (err) {
+    console.error('MCP integration health check error:', err)
+    return NextResponse.json({ error: 'Agent server unreachable' }, { status: 502 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { encryptAuthConfig, maskIntegration } from '@/lib/mcp-integration-auth'
 
 // GET /api/admin/mcp-integrations/[id] - Get single integration
 export async function GET(
@@ -23,7 +24,7 @@ export async function GET(
     return NextResponse.json({ error: 'Integration not found' }, { status: 404 })
   }
 
-  return NextResponse.json({ integration: data })
+  return NextResponse.json({ integration: maskIntegration(data) })
 }
 
 // PATCH /api/admin/mcp-integrations/[id] - Update integration
@@ -55,6 +56,20 @@ export async function PATCH(
 
   const supabase = createAdminClient()
 
+  if (updates.auth_config) {
+    // Keep stored secrets the client sent back masked
+    const { data: existing } = await supabase
+      .from('mcp_integrations')
+      .select('auth_config')
+      .eq('id', id)
+      .single()
+
+    updates.auth_config = encryptAuthConfig(
+      updates.auth_config as Record<string, unknown>,
+      (existing?.auth_config as Record<string, unknown>) || {}
+    )
+  }
+
   const { data, error: dbError } = await supabase
     .from('mcp_integrations')
     .update(updates)
@@ -76,11 +91,11 @@ export async function PATCH(
     'mcp_integration_updated',
     'mcp_integration',
     id,
-    updates,
+    { ...updates, auth_config: updates.auth_config ? '[updated]' : undefined },
     request
   )
 
-  return NextResponse.json({ integration: data })
+  return NextResponse.json({ integration: maskIntegration(data) })
 }
 
 // DELETE /api/admin/mcp-integrations/[id] - Delete integration
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { encryptAuthConfig, maskIntegration } from '@/lib/mcp-integration-auth'
 
 // GET /api/admin/mcp-integrations - List all MCP integrations
 export async function GET(request: NextRequest) {
@@ -33,7 +34,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to fetch integrations' }, { status: 500 })
   }
 
-  return NextResponse.json({ integrations: data || [] })
+  return NextResponse.json({ integrations: (data || []).map(maskIntegration) })
 }
 
 // POST /api/admin/mcp-integrations - Create new MCP integration
@@ -68,7 +69,7 @@ export async function POST(request: NextRequest) {
       type,
       config: config || {},
       auth_type: auth_type || 'none',
-      auth_config: auth_config || {},
+      auth_config: encryptAuthConfig(auth_config || {}),
       is_enabled: is_enabled !== false
     })
     .select()
@@ -88,5 +89,5 @@ export async function POST(request: NextRequest) {
     request
   )
 
-  return NextResponse.json({ integration: data }, { status: 201 })
+  return NextResponse.json({ integration: maskIntegration(data) }, { status: 201 })
 }
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
+import { resolveConflict } from '@/lib/memory-conflicts'
+import type { ConflictResolution } from '@/types/memory'
+
+const RESOLUTIONS: ConflictResolution[] = ['keep_new', 'keep_existing', 'keep_both']
+
+// PATCH /api/admin/memory/conflicts/[id] - Resolve a fact conflict
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const { id } = await params
+  const body = await request.json()
+  const resolution = body.resolution as ConflictResolution
+
+  if (!RESOLUTIONS.includes(resolution)) {
+    return NextResponse.json(
+      { error: `resolution must be one of: ${RESOLUTIONS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await resolveConflict(id, resolution, user!.id)
+
+    await logAdminAction(
+      user!.id,
+      'memory_conflict_resolved',
+      'agent_memory_conflict',
+      id,
+      { resolution },
+      request
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    if (err instanceof Error && err.message === 'Conflict not found') {
+      return NextResponse.json({ error: 'Conflict not found' }, { status: 404 })
+    }
+    console.error('Failed to resolve conflict:', err)
+    return NextResponse.json({ error: 'Failed to resolve conflict' }, { status: 500 })
+  }
+}
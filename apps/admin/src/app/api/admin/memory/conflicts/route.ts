@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin } from '@/lib/admin-auth'
+import { listConflicts } from '@/lib/memory-conflicts'
+import type { ConflictStatus } from '@/types/memory'
+
+// GET /api/admin/memory/conflicts - List fact conflicts awaiting review
+export async function GET(request: NextRequest) {
+  const { error } = await requireSuperadmin()
+  if (error) return error
+
+  const { searchParams } = new URL(request.url)
+  const workspaceId = searchParams.get('workspace_id')
+  const status = (searchParams.get('status') || 'pending') as ConflictStatus
+  const limit = parseInt(searchParams.get('limit') || '50')
+  const offset = parseInt(searchParams.get('offset') || '0')
+
+  if (!workspaceId) {
+    return NextResponse.json({ error: 'workspace_id is required' }, { status: 400 })
+  }
+
+  try {
+    const result = await listConflicts(workspaceId, { status, limit, offset })
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error('Failed to list conflicts:', err)
+    return NextResponse.json({ error: 'Failed to list conflicts' }, { status: 500 })
+  }
+}
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
+import { encryptApiKey, decryptApiKey } from '@/lib/encryption'
+import { createEmbeddingProvider, getDefaultEmbeddingProvider } from '@/lib/embeddings'
+import type { EmbeddingProviderType, WorkspaceEmbeddingConfig } from '@/types/memory'
+
+const PROVIDERS: EmbeddingProviderType[] = ['openai', 'openai_compatible', 'local']
+
+function toResponse(row: {
+  workspace_id: string
+  provider: EmbeddingProviderType
+  model: string | null
+  base_url: string | null
+  api_key_encrypted: string | null
+  updated_at: string
+}): WorkspaceEmbeddingConfig {
+  return {
+    workspace_id: row.workspace_id,
+    provider: row.provider,
+    model: row.model,
+    base_url: row.base_url,
+    has_api_key: !!row.api_key_encrypted,
+    updated_at: row.updated_at
+  }
+}
+
+function defaultModel(): string | null {
+  try {
+    return getDefaultEmbeddingProvider().model
+  } catch {
+    return null
+  }
+}
+
+// GET /api/admin/memory/embedding-config - Get a workspace's embedding provider
+export async function GET(request: NextRequest) {
+  const { error } = await requireSuperadmin()
+  if (error) return error
+
+  const { searchParams } = new URL(request.url)
+  const workspaceId = searchParams.get('workspace_id')
+
+  if (!workspaceId) {
+    return NextResponse.json({ error: 'workspace_id is required' }, { status: 400 })
+  }
+
+  const supabase = createAdminClient()
+  const { data, error: dbError } = await supabase
+    .from('workspace_embedding_configs')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle()
+
+  if (dbError) {
+    return NextResponse.json({ error: dbError.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    config: data ? toResponse(data) : null,
+    default_model: defaultModel()
+  })
+}
+
+// PUT /api/admin/memory/embedding-config - Set a workspace's embedding provider
+// The provider is tested with a sample embedding before it's saved
+export async function PUT(request: NextRequest) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const body = await request.json()
+  const { workspace_id, provider, model, base_url, api_key } = body as {
+    workspace_id?: string
+    provider?: EmbeddingProviderType
+    model?: string | null
+    base_url?: string | null
+    api_key?: string | null
+  }
+
+  if (!workspace_id) {
+    return NextResponse.json({ error: 'workspace_id is required' }, { status: 400 })
+  }
+
+  if (!provider || !PROVIDERS.includes(provider)) {
+    return NextResponse.json(
+      { error: `provider must be one of: ${PROVIDERS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const supabase = createAdminClient()
+
+  // Keep the stored key unless a new one is given ('' clears it)
+  let apiKeyEncrypted: string | null = null
+  if (api_key) {
+    apiKeyEncrypted = encryptApiKey(api_key)
+  } else if (api_key === undefined) {
+    const { data: existing } = await supabase
+      .from('workspace_embedding_configs')
+      .select('api_key_encrypted')
+      .eq('workspace_id', workspace_id)
+      .maybeSingle()
+    apiKeyEncrypted = existing?.api_key_encrypted || null
+  }
+
+  try {
+    const embeddingProvider = createEmbeddingProvider({
+      provider,
+      model: model || null,
+      baseUrl: base_url || null,
+      apiKey: apiKeyEncrypted ? decryptApiKey(apiKeyEncrypted) : null
+    })
+    await embeddingProvider.embed(['Embedding provider check'])
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Embedding provider check failed' },
+      { status: 400 }
+    )
+  }
+
+  const { data, error: dbError } = await supabase
+    .from('workspace_embedding_configs')
+    .upsert({
+      workspace_id,
+      provider,
+      model: model || null,
+      base_url: base_url || null,
+      api_key_encrypted: apiKeyEncrypted,
+      updated_by: user!.id,
+      updated_at: new Date().toISOString()
+    })
+    .select('*')
+    .single()
+
+  if (dbError) {
+    return NextResponse.json({ error: dbError.message }, { status: 500 })
+  }
+
+  // Log the action (don't include the API key in logs)
+  await logAdminAction(
+    user!.id,
+    'memory_embedding_config_updated',
+    'workspace',
+    workspace_id,
+    {
+      provider,
+      model: model || null,
+      base_url: base_url || null,
+      api_key_updated: api_key !== undefined
+    },
+    request
+  )
+
+  return NextResponse.json({ config: toResponse(data) })
+}
+
+// DELETE /api/admin/memory/embedding-config - Revert a workspace to the default provider
+export async function DELETE(request: NextRequest) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const { searchParams } = new URL(request.url)
+  const workspaceId = searchParams.get('workspace_id')
+
+  if (!workspaceId) {
+    return NextResponse.json({ error: 'workspace_id is required' }, { status: 400 })
+  }
+
+  const supabase = createAdminClient()
+  const { error: dbError } = await supabase
+    .from('workspace_embedding_configs')
+    .delete()
+    .eq('workspace_id', workspaceId)
+
+  if (dbError) {
+    return NextResponse.json({ error: dbError.message }, { status: 500 })
+  }
+
+  await logAdminAction(
+    user!.id,
+    'memory_embedding_config_deleted',
+    'workspace',
+    workspaceId,
+    {},
+    request
+  )
+
+  return NextResponse.json({ success: true })
+}
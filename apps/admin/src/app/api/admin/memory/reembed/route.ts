@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperadmin, logAdminAction } from '@/lib/admin-auth'
+import { reembedMemories } from '@/lib/memory-service'
+
+// POST /api/admin/memory/reembed - Re-embed memories with the workspace's current provider
+export async function POST(request: NextRequest) {
+  const { error, user } = await requireSuperadmin()
+  if (error) return error
+
+  const body = await request.json()
+  const { workspace_id, limit = 100 } = body
+
+  if (!workspace_id) {
+    return NextResponse.json({ error: 'workspace_id is required' }, { status: 400 })
+  }
+
+  try {
+    const result = await reembedMemories(workspace_id, limit)
+
+    await logAdminAction(
+      user!.id,
+      'memory_reembedded',
+      'workspace',
+      workspace_id,
+      result,
+      request
+    )
+
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error('Failed to re-embed memories:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to re-embed memories' },
+      { status: 500 }
+    )
+  }
+}
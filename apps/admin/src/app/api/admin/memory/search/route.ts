@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireSuperadmin } from '@/lib/admin-auth'
 import { recallMemories } from '@/lib/memory-service'
 
-// POST /api/admin/memory/search - Semantic search
+// POST /api/admin/memory/search - Hybrid keyword + semantic search
 export async function POST(request: NextRequest) {
   const { error } = await requireSuperadmin()
   if (error) return error
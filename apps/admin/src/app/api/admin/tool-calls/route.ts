@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { requireSuperadmin } from '@/lib/admin-auth'
+
+// GET /api/admin/tool-calls - List MCP tool calls from the audit trail
+export async function GET(request: NextRequest) {
+  const { error } = await requireSuperadmin()
+  if (error) return error
+
+  const supabase = createAdminClient()
+  const searchParams = request.nextUrl.searchParams
+  const page = parseInt(searchParams.get('page') || '1')
+  const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500)
+  const toolName = searchParams.get('tool_name')
+  const outcome = searchParams.get('outcome')
+  const workspaceId = searchParams.get('workspace_id')
+
+  let query = supabase
+    .from('mcp_tool_calls')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range((page - 1) * limit, page * limit - 1)
+
+  if (toolName) {
+    query = query.eq('tool_name', toolName)
+  }
+  if (outcome) {
+    query = query.eq('outcome', outcome)
+  }
+  if (workspaceId) {
+    query = query.eq('workspace_id', workspaceId)
+  }
+
+  const { data: calls, count, error: dbError } = await query
+
+  if (dbError) {
+    return NextResponse.json({ error: dbError.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    calls,
+    pagination: { page, limit, total: count },
+  })
+}
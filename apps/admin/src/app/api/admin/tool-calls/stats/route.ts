@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { requireSuperadmin } from '@/lib/admin-auth'
+import type { ToolCallStats } from '@/types/testing'
+
+// GET /api/admin/tool-calls/stats - Per-tool error rates and latency percentiles from real traffic
+export async function GET(request: NextRequest) {
+  const { error } = await requireSuperadmin()
+  if (error) return error
+
+  const supabase = createAdminClient()
+  const searchParams = request.nextUrl.searchParams
+  const hours = Math.min(Math.max(parseInt(searchParams.get('hours') || '24') || 24, 1), 24 * 30)
+  const workspaceId = searchParams.get('workspace_id')
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
+
+  const { data, error: dbError } = await supabase.rpc('get_mcp_tool_call_stats', {
+    p_since: since,
+    p_workspace_id: workspaceId || null,
+  })
+
+  if (dbError) {
+    return NextResponse.json({ error: dbError.message }, { status: 500 })
+  }
+
+  // numeric columns arrive as strings from PostgREST
+  const stats: ToolCallStats[] = ((data || []) as Array<Record<string, unknown>>).map((row) => ({
+    tool_name: row.tool_name as string,
+    total_calls: Number(row.total_calls),
+    error_calls: Number(row.error_calls),
+    denied_calls: Number(row.denied_calls),
+    error_rate: Number(row.error_rate),
+    p50_latency_ms: Number(row.p50_latency_ms),
+    p95_latency_ms: Number(row.p95_latency_ms),
+    p99_latency_ms: Number(row.p99_latency_ms),
+    last_called_at: row.last_called_at as string,
+  }))
+
+  return NextResponse.json({ stats, hours })
+}
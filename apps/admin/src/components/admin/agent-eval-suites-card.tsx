@@ -0,0 +1,727 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  FlaskConical,
+  Play,
+  Plus,
+  Pencil,
+  Trash2,
+  Upload,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react'
+import type {
+  AgentEvalRun,
+  AgentEvalSuite,
+  AgentVersion,
+  EvalAssertion,
+  EvalAssertionType,
+  EvalCase,
+  EvalCaseChange,
+  EvalGate
+} from '@/types/agents'
+
+interface AgentEvalSuitesCardProps {
+  agentId: string
+  versions: AgentVersion[]
+  publishedVersion: number | null
+  onPublish: (version: number) => Promise<void>
+}
+
+const ASSERTION_LABELS: Record<EvalAssertionType, string> = {
+  tool_called: 'Must call tool',
+  tool_not_called: 'Must not call tool',
+  response_mentions: 'Response mentions',
+  response_omits: 'Response omits',
+  no_hallucination: 'No hallucination flagged',
+  max_cost_usd: 'Cost under ($)',
+  max_tokens: 'Tokens under'
+}
+
+const BLOCKING_LABELS = {
+  not_run: 'not run yet',
+  outdated: 'edited since the last run',
+  failed: 'failing'
+}
+
+const CHANGE_STYLES: Record<EvalCaseChange, string> = {
+  fixed: 'bg-green-100 text-green-800',
+  regressed: 'bg-red-100 text-red-800',
+  unchanged: 'bg-gray-100 text-gray-800',
+  new: 'bg-blue-100 text-blue-800'
+}
+
+// Editable form of a case - turns, mocks and args are edited as text and parsed on save
+interface DraftAssertion {
+  type: EvalAssertionType
+  tool: string
+  argsText: string
+  text: string
+  value: string
+}
+
+interface DraftCase {
+  id: string
+  name: string
+  turnsText: string
+  mocksText: string
+  assertions: DraftAssertion[]
+}
+
+function emptyAssertion(): DraftAssertion {
+  return { type: 'tool_called', tool: '', argsText: '', text: '', value: '' }
+}
+
+function emptyCase(): DraftCase {
+  return { id: crypto.randomUUID(), name: '', turnsText: '', mocksText: '', assertions: [emptyAssertion()] }
+}
+
+function toDraft(evalCase: EvalCase): DraftCase {
+  return {
+    id: evalCase.id,
+    name: evalCase.name,
+    turnsText: evalCase.turns.join('\n'),
+    mocksText: evalCase.mock_responses && Object.keys(evalCase.mock_responses).length > 0
+      ? JSON.stringify(evalCase.mock_responses, null, 2)
+      : '',
+    assertions: evalCase.assertions.map(a => ({
+      ...emptyAssertion(),
+      type: a.type,
+      tool: 'tool' in a ? a.tool : '',
+      argsText: a.type === 'tool_called' && a.args ? JSON.stringify(a.args) : '',
+      text: 'text' in a ? a.text : '',
+      value: 'value' in a ? String(a.value) : ''
+    }))
+  }
+}
+
+function fromDraft(draft: DraftCase, index: number): EvalCase {
+  const label = draft.name || `Case ${index + 1}`
+
+  let mockResponses: Record<string, unknown> | undefined
+  if (draft.mocksText.trim()) {
+    try {
+      mockResponses = JSON.parse(draft.mocksText)
+    } catch {
+      throw new Error(`${label}: invalid JSON in mock responses`)
+    }
+  }
+
+  const assertions = draft.assertions.map((a): EvalAssertion => {
+    switch (a.type) {
+      case 'tool_called': {
+        if (!a.argsText.trim()) return { type: a.type, tool: a.tool.trim() }
+        try {
+          return { type: a.type, tool: a.tool.trim(), args: JSON.parse(a.argsText) }
+        } catch {
+          throw new Error(`${label}: invalid JSON in args for ${a.tool || 'tool'}`)
+        }
+      }
+      case 'tool_not_called':
+        return { type: a.type, tool: a.tool.trim() }
+      case 'response_mentions':
+      case 'response_omits':
+        return { type: a.type, text: a.text }
+      case 'max_cost_usd':
+      case 'max_tokens':
+        return { type: a.type, value: parseFloat(a.value) }
+      default:
+        return { type: 'no_hallucination' }
+    }
+  })
+
+  return {
+    id: draft.id,
+    name: draft.name.trim(),
+    turns: draft.turnsText.split('\n').map(t => t.trim()).filter(Boolean),
+    ...(mockResponses && { mock_responses: mockResponses }),
+    assertions
+  }
+}
+
+function describeAssertion(assertion: EvalAssertion): string {
+  const label = ASSERTION_LABELS[assertion.type]
+  switch (assertion.type) {
+    case 'tool_called':
+      return `${label} ${assertion.tool}${assertion.args ? ` with ${JSON.stringify(assertion.args)}` : ''}`
+    case 'tool_not_called':
+      return `${label} ${assertion.tool}`
+    case 'response_mentions':
+    case 'response_omits':
+      return `${label} "${assertion.text}"`
+    case 'max_cost_usd':
+    case 'max_tokens':
+      return `${label} ${assertion.value}`
+    default:
+      return label
+  }
+}
+
+function RunStatusBadge({ run, outdated }: { run?: AgentEvalRun; outdated: boolean }) {
+  if (!run) return <Badge variant="outline">Not run</Badge>
+  if (run.status === 'error') return <Badge variant="destructive">Error</Badge>
+
+  const total = run.passed_cases + run.failed_cases
+  return (
+    <div className="flex items-center gap-1">
+      <Badge variant={run.status === 'passed' ? 'default' : 'destructive'}>
+        {run.passed_cases}/{total} passed
+      </Badge>
+      {outdated && <Badge variant="outline">Outdated</Badge>}
+    </div>
+  )
+}
+
+export function AgentEvalSuitesCard({ agentId, versions, publishedVersion, onPublish }: AgentEvalSuitesCardProps) {
+  const [suites, setSuites] = useState<AgentEvalSuite[]>([])
+  const [gate, setGate] = useState<EvalGate | null>(null)
+  const [pickedVersion, setPickedVersion] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState<string | null>(null)
+  const [publishing, setPublishing] = useState(false)
+  const [error, setError] = useState('')
+  const [expandedSuites, setExpandedSuites] = useState<Set<string>>(new Set())
+
+  // Suite editor
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingSuiteId, setEditingSuiteId] = useState<string | null>(null)
+  const [suiteName, setSuiteName] = useState('')
+  const [suiteDescription, setSuiteDescription] = useState('')
+  const [suiteRequired, setSuiteRequired] = useState(true)
+  const [draftCases, setDraftCases] = useState<DraftCase[]>([])
+  const [editorError, setEditorError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  // Default to the newest version until one is picked
+  const selectedVersion = pickedVersion ?? versions[0]?.version ?? null
+
+  const fetchSuites = useCallback(async () => {
+    const query = selectedVersion !== null ? `?version=${selectedVersion}` : ''
+    const res = await fetch(`/api/admin/agents/${agentId}/evals${query}`)
+    if (res.ok) {
+      const data = await res.json()
+      setSuites(data.suites || [])
+      setGate(data.gate || null)
+    } else {
+      const data = await res.json().catch(() => ({}))
+      setError(data.error || 'Failed to load eval suites')
+    }
+    setLoading(false)
+  }, [agentId, selectedVersion])
+
+  useEffect(() => {
+    fetchSuites()
+  }, [fetchSuites])
+
+  async function runSuites(suiteIds?: string[]) {
+    if (selectedVersion === null) return
+    setRunning(suiteIds?.[0] ?? 'all')
+    setError('')
+
+    const res = await fetch(`/api/admin/agents/${agentId}/evals/run`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ version: selectedVersion, suite_ids: suiteIds })
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (res.ok) {
+      setGate(data.gate)
+      setExpandedSuites(new Set(suiteIds ?? suites.map(s => s.id)))
+      const notRun = (data.not_run || []) as { suite_name: string }[]
+      if (notRun.length > 0) {
+        setError(`Ran out of time before ${notRun.map(s => `"${s.suite_name}"`).join(', ')}. Run them on their own.`)
+      }
+    } else {
+      setError(data.error || 'Failed to run eval suites')
+    }
+    setRunning(null)
+  }
+
+  async function handlePublish() {
+    if (selectedVersion === null) return
+    setPublishing(true)
+    await onPublish(selectedVersion)
+    // The diff now compares against the newly published version
+    await fetchSuites()
+    setPublishing(false)
+  }
+
+  async function deleteSuite(suite: AgentEvalSuite) {
+    if (!confirm(`Delete the "${suite.name}" eval suite and its run history?`)) return
+
+    const res = await fetch(`/api/admin/agents/${agentId}/evals/${suite.id}`, { method: 'DELETE' })
+    if (res.ok) {
+      await fetchSuites()
+    } else {
+      const data = await res.json().catch(() => ({}))
+      setError(data.error || 'Failed to delete eval suite')
+    }
+  }
+
+  function openEditor(suite?: AgentEvalSuite) {
+    setEditingSuiteId(suite?.id ?? null)
+    setSuiteName(suite?.name ?? '')
+    setSuiteDescription(suite?.description ?? '')
+    setSuiteRequired(suite?.is_required ?? true)
+    setDraftCases(suite ? suite.cases.map(toDraft) : [emptyCase()])
+    setEditorError('')
+    setEditorOpen(true)
+  }
+
+  function updateCase(index: number, changes: Partial<DraftCase>) {
+    setDraftCases(prev => prev.map((c, i) => (i === index ? { ...c, ...changes } : c)))
+  }
+
+  function updateAssertion(caseIndex: number, assertionIndex: number, changes: Partial<DraftAssertion>) {
+    setDraftCases(prev => prev.map((c, i) => (
+      i === caseIndex
+        ? { ...c, assertions: c.assertions.map((a, j) => (j === assertionIndex ? { ...a, ...changes } : a)) }
+        : c
+    )))
+  }
+
+  async function saveSuite() {
+    setEditorError('')
+
+    let cases: EvalCase[]
+    try {
+      cases = draftCases.map(fromDraft)
+    } catch (err) {
+      setEditorError(err instanceof Error ? err.message : 'Invalid case')
+      return
+    }
+
+    setSaving(true)
+    const res = await fetch(
+      editingSuiteId ? `/api/admin/agents/${agentId}/evals/${editingSuiteId}` : `/api/admin/agents/${agentId}/evals`,
+      {
+        method: editingSuiteId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: suiteName,
+          description: suiteDescription || null,
+          is_required: suiteRequired,
+          cases
+        })
+      }
+    )
+
+    if (res.ok) {
+      setEditorOpen(false)
+      await fetchSuites()
+    } else {
+      const data = await res.json().catch(() => ({}))
+      setEditorError(data.error || 'Failed to save eval suite')
+    }
+    setSaving(false)
+  }
+
+  function toggleExpanded(suiteId: string) {
+    setExpandedSuites(prev => {
+      const next = new Set(prev)
+      if (next.has(suiteId)) next.delete(suiteId)
+      else next.add(suiteId)
+      return next
+    })
+  }
+
+  const runsBySuite = new Map((gate?.runs || []).map(run => [run.suite_id, run]))
+  const regressions = (gate?.diff || []).filter(d => d.change === 'regressed')
+  const canPublish =
+    selectedVersion !== null && selectedVersion !== publishedVersion && gate !== null && gate.blocking.length === 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Eval Suites
+            </CardTitle>
+            <CardDescription>
+              Scripted conversations run against a version with mocked tools.
+              Required suites must pass before the version can be published.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openEditor()}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Suite
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+        )}
+
+        {versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Create a version to run eval suites against it.
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={selectedVersion !== null ? String(selectedVersion) : undefined}
+              onValueChange={value => setPickedVersion(parseInt(value, 10))}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.id} value={String(version.version)}>
+                    v{version.version}{version.is_published ? ' (published)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runSuites()}
+              disabled={running !== null || suites.length === 0}
+            >
+              {running === 'all' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+              Run All
+            </Button>
+            <Button size="sm" onClick={handlePublish} disabled={!canPublish || publishing}>
+              {publishing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Publish v{selectedVersion}
+            </Button>
+          </div>
+        )}
+
+        {gate && suites.length > 0 && (
+          gate.blocking.length > 0 ? (
+            <div className="flex items-start gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-900">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              <div>
+                v{gate.version} can&apos;t be published yet:{' '}
+                {gate.blocking.map(b => `${b.suite_name} is ${BLOCKING_LABELS[b.reason]}`).join(', ')}.
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-900">
+              <CheckCircle className="h-4 w-4 shrink-0" />
+              All required suites pass on v{gate.version}.
+            </div>
+          )
+        )}
+
+        {gate && gate.published_version !== null && gate.diff.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Compared with published v{gate.published_version}:{' '}
+            {gate.diff.filter(d => d.change === 'fixed').length} fixed,{' '}
+            <span className={regressions.length > 0 ? 'font-medium text-destructive' : ''}>
+              {regressions.length} regressed
+            </span>
+            , {gate.diff.filter(d => d.change === 'new').length} new
+          </p>
+        )}
+
+        {loading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </div>
+        ) : suites.length === 0 ? (
+          <div className="py-8 text-center">
+            <FlaskConical className="mx-auto mb-4 h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              No eval suites yet. Versions can be published without them.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {suites.map(suite => {
+              const run = runsBySuite.get(suite.id)
+              const outdated = !!run && new Date(run.suite_updated_at) < new Date(suite.updated_at)
+              const expanded = expandedSuites.has(suite.id)
+
+              return (
+                <div key={suite.id} className="rounded-md border">
+                  <div className="flex items-center justify-between gap-2 p-3">
+                    <button
+                      type="button"
+                      className="flex flex-1 items-center gap-2 text-left"
+                      onClick={() => toggleExpanded(suite.id)}
+                    >
+                      {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{suite.name}</span>
+                          {suite.is_required ? <Badge variant="secondary">Required</Badge> : <Badge variant="outline">Optional</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {suite.cases.length} case{suite.cases.length === 1 ? '' : 's'}
+                          {suite.description ? ` · ${suite.description}` : ''}
+                        </p>
+                      </div>
+                    </button>
+                    <RunStatusBadge run={run} outdated={outdated} />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => runSuites([suite.id])}
+                      disabled={running !== null || suite.cases.length === 0 || selectedVersion === null}
+                    >
+                      {running === suite.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openEditor(suite)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => deleteSuite(suite)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {expanded && (
+                    <div className="space-y-3 border-t p-3">
+                      {run?.error && (
+                        <div className="rounded-md bg-destructive/10 p-2 text-sm text-destructive">{run.error}</div>
+                      )}
+                      {suite.cases.map(evalCase => {
+                        const result = run?.results.find(r => r.case_id === evalCase.id)
+                        const diff = gate?.diff.find(d => d.case_id === evalCase.id)
+
+                        return (
+                          <div key={evalCase.id} className="space-y-1 text-sm">
+                            <div className="flex items-center gap-2">
+                              {!result ? (
+                                <AlertCircle className="h-4 w-4 text-muted-foreground" />
+                              ) : result.passed ? (
+                                <CheckCircle className="h-4 w-4 text-green-600" />
+                              ) : (
+                                <XCircle className="h-4 w-4 text-destructive" />
+                              )}
+                              <span className="font-medium">{evalCase.name}</span>
+                              {diff && gate?.published_version !== null && (
+                                <Badge variant="outline" className={CHANGE_STYLES[diff.change]}>
+                                  {diff.change} vs v{gate?.published_version}
+                                </Badge>
+                              )}
+                              {result && (
+                                <span className="text-xs text-muted-foreground">
+                                  ${result.cost_usd.toFixed(4)} · {result.tokens} tokens
+                                </span>
+                              )}
+                            </div>
+                            {result?.error && (
+                              <p className="pl-6 text-destructive">{result.error}</p>
+                            )}
+                            <ul className="space-y-0.5 pl-6">
+                              {(result?.assertions || evalCase.assertions.map(assertion => ({ assertion, passed: null, detail: '' }))).map((a, i) => (
+                                <li key={i} className="flex items-start gap-2">
+                                  <span className={a.passed === null ? 'text-muted-foreground' : a.passed ? 'text-green-600' : 'text-destructive'}>
+                                    {a.passed === null ? '•' : a.passed ? '✓' : '✗'}
+                                  </span>
+                                  <span>
+                                    {describeAssertion(a.assertion)}
+                                    {a.detail && a.passed === false && (
+                                      <span className="text-muted-foreground"> — {a.detail}</span>
+                                    )}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                            {result && !result.passed && result.response && (
+                              <p className="whitespace-pre-wrap rounded bg-muted p-2 pl-3 text-xs">{result.response}</p>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-h-[85vh] max-w-3xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSuiteId ? 'Edit Eval Suite' : 'New Eval Suite'}</DialogTitle>
+            <DialogDescription>
+              Each case sends its user turns in one conversation. Tools return the mocked
+              responses instead of touching real data.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="suite-name">Name</Label>
+                <Input id="suite-name" value={suiteName} onChange={e => setSuiteName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="suite-description">Description</Label>
+                <Input id="suite-description" value={suiteDescription} onChange={e => setSuiteDescription(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="suite-required" checked={suiteRequired} onCheckedChange={setSuiteRequired} />
+              <Label htmlFor="suite-required">Required to pass before publishing</Label>
+            </div>
+
+            {draftCases.map((draft, caseIndex) => (
+              <div key={draft.id} className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder={`Case ${caseIndex + 1} name`}
+                    value={draft.name}
+                    onChange={e => updateCase(caseIndex, { name: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraftCases(prev => prev.filter((_, i) => i !== caseIndex))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="space-y-1">
+                  <Label>User turns (one per line)</Label>
+                  <Textarea
+                    rows={3}
+                    placeholder="Show me overdue invoices"
+                    value={draft.turnsText}
+                    onChange={e => updateCase(caseIndex, { turnsText: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Mocked tool responses (JSON, tool name to response)</Label>
+                  <Textarea
+                    rows={3}
+                    className="font-mono text-sm"
+                    placeholder='{"invoice_list": {"invoices": [{"number": "INV-104", "amount": 1250}]}}'
+                    value={draft.mocksText}
+                    onChange={e => updateCase(caseIndex, { mocksText: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Assertions</Label>
+                  {draft.assertions.map((assertion, assertionIndex) => (
+                    <div key={assertionIndex} className="flex items-center gap-2">
+                      <Select
+                        value={assertion.type}
+                        onValueChange={value => updateAssertion(caseIndex, assertionIndex, { type: value as EvalAssertionType })}
+                      >
+                        <SelectTrigger className="w-56 shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ASSERTION_LABELS) as EvalAssertionType[]).map(type => (
+                            <SelectItem key={type} value={type}>{ASSERTION_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {(assertion.type === 'tool_called' || assertion.type === 'tool_not_called') && (
+                        <Input
+                          placeholder="Tool name"
+                          value={assertion.tool}
+                          onChange={e => updateAssertion(caseIndex, assertionIndex, { tool: e.target.value })}
+                        />
+                      )}
+                      {assertion.type === 'tool_called' && (
+                        <Input
+                          className="font-mono text-sm"
+                          placeholder='Args, e.g. {"status": "/overdue/i"}'
+                          value={assertion.argsText}
+                          onChange={e => updateAssertion(caseIndex, assertionIndex, { argsText: e.target.value })}
+                        />
+                      )}
+                      {(assertion.type === 'response_mentions' || assertion.type === 'response_omits') && (
+                        <Input
+                          placeholder="Text"
+                          value={assertion.text}
+                          onChange={e => updateAssertion(caseIndex, assertionIndex, { text: e.target.value })}
+                        />
+                      )}
+                      {(assertion.type === 'max_cost_usd' || assertion.type === 'max_tokens') && (
+                        <Input
+                          type="number"
+                          min="0"
+                          step={assertion.type === 'max_cost_usd' ? '0.001' : '1'}
+                          value={assertion.value}
+                          onChange={e => updateAssertion(caseIndex, assertionIndex, { value: e.target.value })}
+                        />
+                      )}
+                      {assertion.type === 'no_hallucination' && <div className="flex-1" />}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="shrink-0"
+                        onClick={() => updateCase(caseIndex, {
+                          assertions: draft.assertions.filter((_, j) => j !== assertionIndex)
+                        })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateCase(caseIndex, { assertions: [...draft.assertions, emptyAssertion()] })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Assertion
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" onClick={() => setDraftCases(prev => [...prev, emptyCase()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Case
+            </Button>
+
+            {editorError && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{editorError}</div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>Cancel</Button>
+            <Button onClick={saveSuite} disabled={saving || !suiteName.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Suite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
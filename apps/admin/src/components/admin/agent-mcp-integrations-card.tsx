@@ -0,0 +1,155 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Plug, Save, Loader2 } from 'lucide-react'
+
+interface MCPIntegrationSummary {
+  id: string
+  name: string
+  description: string | null
+  type: 'stdio' | 'sse' | 'http'
+  is_enabled: boolean
+  health_status: 'unknown' | 'healthy' | 'unhealthy'
+  tool_count: number | null
+}
+
+interface AgentMCPIntegrationsCardProps {
+  agentId: string
+}
+
+const healthColors = {
+  unknown: 'bg-gray-100 text-gray-800',
+  healthy: 'bg-green-100 text-green-800',
+  unhealthy: 'bg-red-100 text-red-800'
+}
+
+export function AgentMCPIntegrationsCard({ agentId }: AgentMCPIntegrationsCardProps) {
+  const [integrations, setIntegrations] = useState<MCPIntegrationSummary[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchIntegrations = useCallback(async () => {
+    const [allRes, assignedRes] = await Promise.all([
+      fetch('/api/admin/mcp-integrations?enabled=true'),
+      fetch(`/api/admin/agents/${agentId}/mcp-integrations`)
+    ])
+
+    if (allRes.ok) {
+      const data = await allRes.json()
+      setIntegrations(data.integrations || [])
+    }
+    if (assignedRes.ok) {
+      const data = await assignedRes.json()
+      const ids = new Set<string>(
+        (data.integrations || []).map((a: { mcp_integration_id: string }) => a.mcp_integration_id)
+      )
+      setSelectedIds(ids)
+      setSavedIds(ids)
+    }
+    setLoading(false)
+  }, [agentId])
+
+  useEffect(() => {
+    fetchIntegrations()
+  }, [fetchIntegrations])
+
+  function toggleIntegration(id: string) {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setError('')
+
+    const res = await fetch(`/api/admin/agents/${agentId}/mcp-integrations`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ integration_ids: Array.from(selectedIds) })
+    })
+
+    if (res.ok) {
+      setSavedIds(new Set(selectedIds))
+    } else {
+      const data = await res.json()
+      setError(data.error || 'Failed to save integrations')
+    }
+    setSaving(false)
+  }
+
+  const hasChanges =
+    selectedIds.size !== savedIds.size || Array.from(selectedIds).some(id => !savedIds.has(id))
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Plug className="h-5 w-5" />
+              External MCP Integrations
+            </CardTitle>
+            <CardDescription>
+              Tools from these servers are added to the agent as &lt;integration&gt;__&lt;tool&gt;.
+              Changes apply to deployed teams on the next deploy.
+            </CardDescription>
+          </div>
+          <Button onClick={handleSave} disabled={saving || !hasChanges} size="sm">
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+        )}
+        {loading ? (
+          Array.from({ length: 2 }).map((_, i) => <Skeleton key={i} className="h-12 w-full" />)
+        ) : integrations.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            No enabled integrations. <Link href="/admin/mcp" className="underline">Add one</Link> first.
+          </p>
+        ) : (
+          integrations.map(integration => (
+            <label
+              key={integration.id}
+              className="flex items-center gap-3 rounded-md border p-3 cursor-pointer hover:bg-muted/50"
+            >
+              <Checkbox
+                checked={selectedIds.has(integration.id)}
+                onCheckedChange={() => toggleIntegration(integration.id)}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{integration.name}</p>
+                {integration.description && (
+                  <p className="text-sm text-muted-foreground truncate">{integration.description}</p>
+                )}
+              </div>
+              <Badge variant="outline" className="uppercase">{integration.type}</Badge>
+              <Badge variant="secondary" className={healthColors[integration.health_status || 'unknown']}>
+                {integration.health_status || 'unknown'}
+                {integration.health_status === 'healthy' && integration.tool_count !== null && (
+                  <> · {integration.tool_count} tools</>
+                )}
+              </Badge>
+            </label>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -20,10 +20,12 @@ import {
   DollarSign,
   Zap,
   Copy,
-  Check
+  Check,
+  ShieldCheck,
+  AlertTriangle
 } from 'lucide-react'
 import { format } from 'date-fns'
-import { AgentScheduleExecution } from '@/types/agents'
+import { AgentScheduleExecution, GroundingCheckResult } from '@/types/agents'
 
 interface ExecutionDetailsProps {
   execution: AgentScheduleExecution & {
@@ -110,6 +112,7 @@ export function ExecutionDetails({ execution, rawApiResponse }: ExecutionDetails
   // Try to extract message and todos from result
   const message = result?.message as string | undefined
   const todos = result?.todos as Array<{ id: string; content: string; completed: boolean }> | undefined
+  const grounding = result?.grounding as GroundingCheckResult | undefined
 
   const copyToClipboard = async (data: unknown) => {
     await navigator.clipboard.writeText(JSON.stringify(data, null, 2))
@@ -344,7 +347,7 @@ export function ExecutionDetails({ execution, rawApiResponse }: ExecutionDetails
             </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="response" className="mt-3">
+          <TabsContent value="response" className="mt-3 space-y-3">
             {message ? (
               <ScrollArea className="h-[200px]">
                 <div className="p-3 bg-muted rounded-md text-sm whitespace-pre-wrap">
@@ -357,6 +360,31 @@ export function ExecutionDetails({ execution, rawApiResponse }: ExecutionDetails
                 <p>No response message available</p>
               </div>
             )}
+            {grounding && grounding.status !== 'no_claims' && (
+              <div className="space-y-1.5 rounded-md border p-3 text-sm">
+                {grounding.status === 'grounded' ? (
+                  <p className="flex items-center gap-1.5 text-green-700">
+                    <ShieldCheck className="h-4 w-4" />
+                    All {grounding.checkedClaims} facts found in tool results
+                  </p>
+                ) : (
+                  <>
+                    <p className="flex items-center gap-1.5 text-amber-700">
+                      <AlertTriangle className="h-4 w-4" />
+                      {grounding.checkedClaims - grounding.groundedClaims} of {grounding.checkedClaims} facts not found in tool results
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {grounding.ungroundedClaims.map((claim, i) => (
+                        <Badge key={`${claim.type}-${i}`} variant="outline" className="font-normal">
+                          <span className="mr-1 text-muted-foreground">{claim.type}</span>
+                          {claim.text}
+                        </Badge>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </TabsContent>
 
           <TabsContent value="tools" className="mt-3">
@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, RefreshCw, Save } from 'lucide-react'
+import type { EmbeddingProviderType, WorkspaceEmbeddingConfig } from '@/types/memory'
+
+interface MemoryEmbeddingCardProps {
+  workspaceId: string
+}
+
+type ProviderChoice = EmbeddingProviderType | 'default'
+
+const PROVIDER_LABELS: Record<ProviderChoice, string> = {
+  default: 'Server default',
+  openai: 'OpenAI',
+  openai_compatible: 'OpenAI-compatible',
+  local: 'Local (hashed, for testing)'
+}
+
+/**
+ * Pick the embedding provider for a workspace's memory and re-embed
+ * memories made by a previous provider
+ */
+export function MemoryEmbeddingCard({ workspaceId }: MemoryEmbeddingCardProps) {
+  const [config, setConfig] = useState<WorkspaceEmbeddingConfig | null>(null)
+  const [defaultModel, setDefaultModel] = useState<string | null>(null)
+  const [provider, setProvider] = useState<ProviderChoice>('default')
+  const [model, setModel] = useState('')
+  const [baseUrl, setBaseUrl] = useState('')
+  const [apiKey, setApiKey] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [reembedding, setReembedding] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchConfig = useCallback(async () => {
+    const res = await fetch(`/api/admin/memory/embedding-config?workspace_id=${workspaceId}`)
+    if (res.ok) {
+      const data = await res.json()
+      const current = data.config as WorkspaceEmbeddingConfig | null
+      setConfig(current)
+      setDefaultModel(data.default_model || null)
+      setProvider(current?.provider || 'default')
+      setModel(current?.model || '')
+      setBaseUrl(current?.base_url || '')
+      setApiKey('')
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    fetchConfig()
+  }, [fetchConfig])
+
+  async function handleSave() {
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const res = provider === 'default'
+        ? await fetch(`/api/admin/memory/embedding-config?workspace_id=${workspaceId}`, { method: 'DELETE' })
+        : await fetch('/api/admin/memory/embedding-config', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            workspace_id: workspaceId,
+            provider,
+            model: model || null,
+            base_url: provider === 'openai_compatible' ? baseUrl || null : null,
+            ...(apiKey ? { api_key: apiKey } : {})
+          })
+        })
+
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Failed to save embedding provider')
+        return
+      }
+      setMessage('Saved. Re-embed so existing memories can be found by meaning again.')
+      fetchConfig()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleReembed() {
+    setReembedding(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/admin/memory/reembed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspace_id: workspaceId })
+      })
+
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Failed to re-embed memories')
+        return
+      }
+      setMessage(
+        `Re-embedded ${data.facts} facts and ${data.summaries} summaries` +
+        (data.remaining > 0 ? `. ${data.remaining} left, run again to continue.` : '.')
+      )
+    } finally {
+      setReembedding(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Embeddings</CardTitle>
+        <CardDescription>
+          Provider used to embed this workspace&apos;s memories. Memories embedded by a different
+          model are still found by keyword, but not by meaning, until they&apos;re re-embedded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={v => setProvider(v as ProviderChoice)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROVIDER_LABELS) as ProviderChoice[]).map(choice => (
+                  <SelectItem key={choice} value={choice}>
+                    {PROVIDER_LABELS[choice]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {provider === 'default' && defaultModel && (
+              <p className="text-xs text-muted-foreground">Currently {defaultModel}</p>
+            )}
+          </div>
+
+          {(provider === 'openai' || provider === 'openai_compatible') && (
+            <div className="space-y-2">
+              <Label>Model</Label>
+              <Input
+                placeholder={provider === 'openai' ? 'text-embedding-3-small' : 'nomic-embed-text'}
+                value={model}
+                onChange={e => setModel(e.target.value)}
+              />
+            </div>
+          )}
+
+          {provider === 'openai_compatible' && (
+            <div className="space-y-2">
+              <Label>Base URL</Label>
+              <Input
+                placeholder="http://localhost:11434/v1"
+                value={baseUrl}
+                onChange={e => setBaseUrl(e.target.value)}
+              />
+            </div>
+          )}
+
+          {(provider === 'openai' || provider === 'openai_compatible') && (
+            <div className="space-y-2">
+              <Label>API Key</Label>
+              <Input
+                type="password"
+                placeholder={
+                  config?.has_api_key ? 'Saved - enter a new key to replace' :
+                  provider === 'openai' ? 'Uses OPENAI_API_KEY if empty' : 'Optional'
+                }
+                value={apiKey}
+                onChange={e => setApiKey(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Models must return 1536-dimension vectors. The provider is tested before it&apos;s saved.
+        </p>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+          <Button variant="outline" onClick={handleReembed} disabled={reembedding}>
+            {reembedding ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Re-embed memories
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
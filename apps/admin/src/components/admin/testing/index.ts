@@ -4,3 +4,4 @@ export { TestHistoryTable } from './test-history-table'
 export { AgentTestSandbox } from './agent-test-sandbox'
 export { ToolTestRunner } from './tool-test-runner'
 export { ProviderTestCards } from './provider-test-card'
+export { ToolCallStatsTable } from './tool-call-stats-table'
@@ -0,0 +1,110 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Activity } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import type { ToolCallStats } from '@/types/testing'
+
+interface ToolCallStatsTableProps {
+  stats: ToolCallStats[]
+  hours?: number
+  loading?: boolean
+  limit?: number
+}
+
+function errorRateClass(rate: number): string {
+  if (rate >= 10) return 'bg-red-50 text-red-700 border-red-200'
+  if (rate >= 2) return 'bg-yellow-50 text-yellow-700 border-yellow-200'
+  return 'bg-green-50 text-green-700 border-green-200'
+}
+
+export function ToolCallStatsTable({ stats, hours = 24, loading, limit = 20 }: ToolCallStatsTableProps) {
+  const title = (
+    <>
+      <CardTitle className="text-lg flex items-center gap-2">
+        <Activity className="h-5 w-5" />
+        Tool Calls in Production
+      </CardTitle>
+      <CardDescription>
+        Error rates and latency per MCP tool over the last {hours} hours
+      </CardDescription>
+    </>
+  )
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>{title}</CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-6 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const displayedStats = stats.slice(0, limit)
+
+  return (
+    <Card>
+      <CardHeader>{title}</CardHeader>
+      <CardContent>
+        {displayedStats.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Activity className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No tool calls recorded</p>
+            <p className="text-sm">Calls made through the MCP server will appear here</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tool</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Error Rate</TableHead>
+                <TableHead className="text-right">Denied</TableHead>
+                <TableHead className="text-right">p50</TableHead>
+                <TableHead className="text-right">p95</TableHead>
+                <TableHead className="text-right">p99</TableHead>
+                <TableHead className="text-right">Last Call</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {displayedStats.map((row) => (
+                <TableRow key={row.tool_name}>
+                  <TableCell className="font-mono text-sm">{row.tool_name}</TableCell>
+                  <TableCell className="text-right">{row.total_calls.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant="outline" className={errorRateClass(row.error_rate)}>
+                      {row.error_rate.toFixed(1)}%
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">{row.denied_calls}</TableCell>
+                  <TableCell className="text-right text-sm">{row.p50_latency_ms}ms</TableCell>
+                  <TableCell className="text-right text-sm">{row.p95_latency_ms}ms</TableCell>
+                  <TableCell className="text-right text-sm">{row.p99_latency_ms}ms</TableCell>
+                  <TableCell className="text-right text-sm text-muted-foreground">
+                    {formatDistanceToNow(new Date(row.last_called_at), { addSuffix: true })}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
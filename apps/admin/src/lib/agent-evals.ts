@@ -0,0 +1,209 @@
+// Agent eval suites: validation, the publish gate and the diff against the published version
+// agent-server runs the cases; the admin panel stores the runs and decides whether a version may be published.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  AgentEvalRun,
+  AgentEvalSuite,
+  EvalAssertionType,
+  EvalCaseChange,
+  EvalCaseDiff,
+  EvalCaseResult,
+  EvalGate,
+} from '@/types/agents'
+
+export const EVAL_ASSERTION_TYPES: EvalAssertionType[] = [
+  'tool_called',
+  'tool_not_called',
+  'response_mentions',
+  'response_omits',
+  'no_hallucination',
+  'max_cost_usd',
+  'max_tokens'
+]
+
+/**
+ * Validate eval cases before saving a suite
+ * Returns an error message, or null when the cases are valid
+ */
+export function validateEvalCases(cases: unknown): string | null {
+  if (!Array.isArray(cases)) return 'cases must be an array'
+
+  const ids = new Set<string>()
+  for (const [index, evalCase] of cases.entries()) {
+    const label = `Case ${index + 1}`
+    if (!evalCase || typeof evalCase !== 'object') return `${label} must be an object`
+
+    const { id, name, turns, mock_responses, assertions } = evalCase as Record<string, unknown>
+    if (typeof id !== 'string' || !id) return `${label} needs an id`
+    if (ids.has(id)) return `${label} has a duplicate id`
+    ids.add(id)
+    if (typeof name !== 'string' || !name.trim()) return `${label} needs a name`
+    if (!Array.isArray(turns) || turns.length === 0 || turns.some(t => typeof t !== 'string' || !t.trim())) {
+      return `${label} needs at least one user turn`
+    }
+    if (mock_responses !== undefined && (mock_responses === null || typeof mock_responses !== 'object' || Array.isArray(mock_responses))) {
+      return `${label}: mock_responses must map tool names to responses`
+    }
+    if (!Array.isArray(assertions) || assertions.length === 0) return `${label} needs at least one assertion`
+
+    for (const assertion of assertions as Record<string, unknown>[]) {
+      if (!EVAL_ASSERTION_TYPES.includes(assertion?.type as EvalAssertionType)) {
+        return `${label} has an unknown assertion type: ${assertion?.type}`
+      }
+      switch (assertion.type) {
+        case 'tool_called':
+        case 'tool_not_called':
+          if (typeof assertion.tool !== 'string' || !assertion.tool) return `${label}: ${assertion.type} needs a tool name`
+          if (assertion.args !== undefined && (typeof assertion.args !== 'object' || assertion.args === null || Array.isArray(assertion.args))) {
+            return `${label}: tool_called args must be an object`
+          }
+          break
+        case 'response_mentions':
+        case 'response_omits':
+          if (typeof assertion.text !== 'string' || !assertion.text.trim()) return `${label}: ${assertion.type} needs text`
+          break
+        case 'max_cost_usd':
+        case 'max_tokens':
+          if (typeof assertion.value !== 'number' || !(assertion.value > 0)) return `${label}: ${assertion.type} needs a positive value`
+          break
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check that agent-server returned a result for every case in a suite
+ * Returns an error message, or null when every case has a result. A suite with missing
+ * results must not count as passed, or an empty response would unlock publishing
+ */
+export function checkEvalResults(suite: Pick<AgentEvalSuite, 'cases'>, results: EvalCaseResult[]): string | null {
+  const returned = new Set(results.map(result => result.case_id))
+  const missing = suite.cases.filter(evalCase => !returned.has(evalCase.id)).length
+  if (missing === 0) return null
+
+  return `Agent server returned no result for ${missing} of ${suite.cases.length} cases`
+}
+
+function latestRunBySuite(runs: AgentEvalRun[], version: number): Map<string, AgentEvalRun> {
+  const latest = new Map<string, AgentEvalRun>()
+  for (const run of runs) {
+    if (run.version !== version) continue
+    const current = latest.get(run.suite_id)
+    if (!current || new Date(run.created_at) > new Date(current.created_at)) {
+      latest.set(run.suite_id, run)
+    }
+  }
+  return latest
+}
+
+function caseChange(previous: boolean | null, current: boolean): EvalCaseChange {
+  if (previous === null) return 'new'
+  if (previous === current) return 'unchanged'
+  return current ? 'fixed' : 'regressed'
+}
+
+/**
+ * Work out whether a version may be published from its eval runs,
+ * and compare each case's result with the published version's
+ */
+export function computeEvalGate(
+  version: number,
+  publishedVersion: number | null,
+  suites: AgentEvalSuite[],
+  runs: AgentEvalRun[]
+): EvalGate {
+  const currentRuns = latestRunBySuite(runs, version)
+  const previousRuns = publishedVersion !== null && publishedVersion !== version
+    ? latestRunBySuite(runs, publishedVersion)
+    : new Map<string, AgentEvalRun>()
+
+  const blocking: EvalGate['blocking'] = []
+  const diff: EvalCaseDiff[] = []
+
+  for (const suite of suites) {
+    if (suite.cases.length === 0) continue
+    const run = currentRuns.get(suite.id)
+
+    if (suite.is_required) {
+      if (!run) {
+        blocking.push({ suite_id: suite.id, suite_name: suite.name, reason: 'not_run' })
+      } else if (new Date(run.suite_updated_at) < new Date(suite.updated_at)) {
+        blocking.push({ suite_id: suite.id, suite_name: suite.name, reason: 'outdated' })
+      } else if (run.status !== 'passed') {
+        blocking.push({ suite_id: suite.id, suite_name: suite.name, reason: 'failed' })
+      }
+    }
+
+    if (!run) continue
+    const previousRun = previousRuns.get(suite.id)
+
+    for (const evalCase of suite.cases) {
+      const current = run.results.find(r => r.case_id === evalCase.id)
+      if (!current) continue
+      const previous = previousRun?.results.find(r => r.case_id === evalCase.id)?.passed ?? null
+
+      diff.push({
+        suite_id: suite.id,
+        suite_name: suite.name,
+        case_id: evalCase.id,
+        case_name: evalCase.name,
+        previous,
+        current: current.passed,
+        change: caseChange(previous, current.passed)
+      })
+    }
+  }
+
+  return {
+    version,
+    published_version: publishedVersion,
+    runs: Array.from(currentRuns.values()),
+    blocking,
+    diff
+  }
+}
+
+/**
+ * Load an agent's suites and runs and compute the publish gate for a version
+ */
+export async function getEvalGate(
+  supabase: SupabaseClient,
+  agentId: string,
+  version: number
+): Promise<EvalGate> {
+  const { data: agent } = await supabase
+    .from('ai_agents')
+    .select('published_version')
+    .eq('id', agentId)
+    .single()
+
+  const publishedVersion: number | null = agent?.published_version ?? null
+  const versions = publishedVersion !== null ? [version, publishedVersion] : [version]
+
+  const [{ data: suites, error: suitesError }, { data: runs, error: runsError }] = await Promise.all([
+    supabase
+      .from('agent_eval_suites')
+      .select('*')
+      .eq('agent_id', agentId),
+    supabase
+      .from('agent_eval_runs')
+      .select('*')
+      .eq('agent_id', agentId)
+      .in('version', versions)
+      .order('created_at', { ascending: false })
+  ])
+
+  if (suitesError || runsError) {
+    throw new Error((suitesError || runsError)!.message)
+  }
+
+  return computeEvalGate(
+    version,
+    publishedVersion,
+    (suites || []) as AgentEvalSuite[],
+    (runs || []) as AgentEvalRun[]
+  )
+}
@@ -7,6 +7,7 @@ import type {
   DeployedDelegation,
   DeployedMind,
   DeployedTool,
+  DeployedMCPIntegration,
   DeployedSkill,
   DeployedRule,
   Customizations,
@@ -48,7 +49,8 @@ export async function buildConfigSnapshot(teamId: string): Promise<DeployedTeamC
         avatar_url,
         system_prompt,
         model,
-        provider
+        provider,
+        provider_config
       )
     `)
     .eq('team_id', teamId)
@@ -71,6 +73,7 @@ export async function buildConfigSnapshot(teamId: string): Promise<DeployedTeamC
         system_prompt: string
         model: string
         provider: string | null
+        provider_config: { fallback_models?: string[] } | null
       } | null
 
       if (!agentData) {
@@ -109,6 +112,28 @@ export async function buildConfigSnapshot(teamId: string): Promise<DeployedTeamC
         console.warn(`[deployment] Agent "${agent.name}" (${agent.id}) has no tools assigned`)
       }
 
+      // Get agent MCP integrations (enabled only)
+      const { data: agentIntegrations } = await supabase
+        .from('ai_agent_mcp_integrations')
+        .select(`
+          integration:mcp_integrations(
+            id,
+            name,
+            type,
+            is_enabled
+          )
+        `)
+        .eq('agent_id', agent.id)
+
+      const mcpIntegrations: DeployedMCPIntegration[] = (agentIntegrations || [])
+        .map((ai) => ai.integration as unknown as { id: string; name: string; type: DeployedMCPIntegration['type']; is_enabled: boolean } | null)
+        .filter((integration) => integration?.is_enabled)
+        .map((integration) => ({
+          id: integration!.id,
+          name: integration!.name,
+          type: integration!.type,
+        }))
+
       // Get agent skills
       const { data: agentSkills } = await supabase
         .from('ai_agent_skills')
@@ -172,11 +197,13 @@ export async function buildConfigSnapshot(teamId: string): Promise<DeployedTeamC
         system_prompt: agent.system_prompt,
         model: agent.model || 'sonnet',
         provider: agent.provider || 'anthropic',
+        fallback_models: agent.provider_config?.fallback_models || [],
         is_enabled: true,
         tools,
         skills,
         mind,
         rules,
+        mcp_integrations: mcpIntegrations,
       }
     })
   )
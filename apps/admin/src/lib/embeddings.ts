@@ -1,67 +1,218 @@
-// Embeddings Service - OpenAI text-embedding-3-small
-// Generates vector embeddings for semantic search in the memory system
+// Embeddings Service - Pluggable embedding providers
+// Generates vector embeddings for semantic search in the memory system.
+// Workspaces can pick a provider; vectors are only compared within the same model
 
 import OpenAI from 'openai'
+import { createAdminClient } from './supabase/admin'
+import { decryptApiKey } from './encryption'
+import type { EmbeddingProviderType } from '@/types/memory'
 
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null
+// Storage constants - agent_memory_facts.embedding is vector(1536)
+const EMBEDDING_DIMENSION = 1536
+const MAX_INPUT_LENGTH = 8191 // text-embedding-3-small supports 8191 tokens
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small'
+const LOCAL_MODEL = 'hash-v1'
+
+export interface EmbeddingProvider {
+  type: EmbeddingProviderType
+  // Provider-qualified model, stored with each vector, e.g. openai:text-embedding-3-small
+  model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderType
+  model?: string | null
+  baseUrl?: string | null
+  apiKey?: string | null
+}
+
+// OpenAI clients keyed by endpoint and key
+const openaiClients = new Map<string, OpenAI>()
+
+function getOpenAIClient(apiKey: string, baseURL?: string): OpenAI {
+  const key = `${baseURL || ''}|${apiKey}`
+  let client = openaiClients.get(key)
+  if (!client) {
+    client = new OpenAI({ apiKey, baseURL })
+    openaiClients.set(key, client)
+  }
+  return client
+}
+
+function assertDimension(embeddings: number[][], model: string): number[][] {
+  const wrong = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSION)
+  if (wrong) {
+    throw new Error(
+      `Embedding model ${model} returned ${wrong.length} dimensions; memory storage requires ${EMBEDDING_DIMENSION}`
+    )
+  }
+  return embeddings
+}
 
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required for embeddings')
+/**
+ * Create an embedding provider from a config
+ *   openai            - OpenAI embeddings API (OPENAI_API_KEY unless a key is given)
+ *   openai_compatible - any endpoint implementing POST /embeddings, e.g. Ollama or vLLM
+ *   local             - deterministic hashed embeddings for tests and offline development
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'local':
+      return {
+        type: 'local',
+        model: `local:${LOCAL_MODEL}`,
+        embed: async (texts) => texts.map(hashEmbedding)
+      }
+
+    case 'openai':
+    case 'openai_compatible': {
+      const isOpenAI = config.provider === 'openai'
+      const modelName = config.model || (isOpenAI ? DEFAULT_OPENAI_MODEL : '')
+      if (!modelName) {
+        throw new Error('An embedding model is required for OpenAI-compatible providers')
+      }
+      if (!isOpenAI && !config.baseUrl) {
+        throw new Error('A base URL is required for OpenAI-compatible providers')
+      }
+
+      const model = `${config.provider}:${modelName}`
+
+      return {
+        type: config.provider,
+        model,
+        embed: async (texts) => {
+          if (texts.length === 0) return []
+
+          const apiKey = config.apiKey || (isOpenAI ? process.env.OPENAI_API_KEY : 'not-needed')
+          if (!apiKey) {
+            throw new Error('OPENAI_API_KEY environment variable is required for embeddings')
+          }
+
+          const response = await getOpenAIClient(apiKey, config.baseUrl || undefined).embeddings.create({
+            model: modelName,
+            // Truncate each text to model limit
+            input: texts.map(t => t.slice(0, MAX_INPUT_LENGTH)),
+            // text-embedding-3 models can shorten their output to fit storage
+            ...(isOpenAI && modelName.startsWith('text-embedding-3') ? { dimensions: EMBEDDING_DIMENSION } : {})
+          })
+
+          // Return embeddings in the same order as input
+          const embeddings = response.data
+            .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+            .map((d: { embedding: number[] }) => d.embedding)
+
+          return assertDimension(embeddings, model)
+        }
+      }
     }
-    openaiClient = new OpenAI({ apiKey })
+
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`)
   }
-  return openaiClient
 }
 
-// Model constants
-const EMBEDDING_MODEL = 'text-embedding-3-small'
-const EMBEDDING_DIMENSION = 1536
-const MAX_INPUT_LENGTH = 8191 // text-embedding-3-small supports 8191 tokens
+/**
+ * The server-wide provider, used when a workspace hasn't configured one
+ * MEMORY_EMBEDDING_PROVIDER=local switches to hashed embeddings without an API key
+ */
+export function getDefaultEmbeddingProvider(): EmbeddingProvider {
+  const provider = (process.env.MEMORY_EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderType
+  return createEmbeddingProvider({
+    provider,
+    model: process.env.MEMORY_EMBEDDING_MODEL,
+    baseUrl: process.env.MEMORY_EMBEDDING_BASE_URL
+  })
+}
 
 /**
- * Generate an embedding vector for a single text input
+ * Get the embedding provider configured for a workspace, falling back to the default
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const openai = getOpenAIClient()
+export async function getEmbeddingProvider(workspaceId: string): Promise<EmbeddingProvider> {
+  const supabase = createAdminClient()
 
-  // Truncate to model limit
-  const truncatedText = text.slice(0, MAX_INPUT_LENGTH)
+  const { data: config } = await supabase
+    .from('workspace_embedding_configs')
+    .select('provider, model, base_url, api_key_encrypted')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle()
 
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: truncatedText,
+  if (!config) {
+    return getDefaultEmbeddingProvider()
+  }
+
+  return createEmbeddingProvider({
+    provider: config.provider,
+    model: config.model,
+    baseUrl: config.base_url,
+    apiKey: config.api_key_encrypted ? decryptApiKey(config.api_key_encrypted) : null
   })
+}
 
-  return response.data[0].embedding
+/**
+ * Generate an embedding vector for a single text input
+ */
+export async function generateEmbedding(
+  text: string,
+  provider: EmbeddingProvider = getDefaultEmbeddingProvider()
+): Promise<number[]> {
+  const [embedding] = await provider.embed([text])
+  return embedding
 }
 
 /**
  * Generate embedding vectors for multiple text inputs (batch)
  * More efficient than calling generateEmbedding multiple times
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+export async function generateEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider = getDefaultEmbeddingProvider()
+): Promise<number[][]> {
   if (texts.length === 0) {
     return []
   }
+  return provider.embed(texts)
+}
 
-  const openai = getOpenAIClient()
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
 
-  // Truncate each text to model limit
-  const truncatedTexts = texts.map(t => t.slice(0, MAX_INPUT_LENGTH))
+/**
+ * Deterministic embedding from hashed words and character trigrams
+ * Texts sharing words or word fragments score as similar. Not semantic, but stable
+ * across runs and machines, which is what tests and offline development need
+ */
+export function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSION).fill(0)
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) || []
 
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: truncatedTexts,
-  })
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashFeature(feature)
+    vector[hash % EMBEDDING_DIMENSION] += hash & 0x80000000 ? -weight : weight
+  }
+
+  for (const word of words) {
+    addFeature(`w:${word}`, 1)
+    const padded = `#${word}#`
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`t:${padded.slice(i, i + 3)}`, 0.5)
+    }
+  }
 
-  // Return embeddings in the same order as input
-  return response.data
-    .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
-    .map((d: { embedding: number[] }) => d.embedding)
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  if (norm === 0) {
+    // A zero vector has no cosine distance; give empty text a fixed direction instead
+    vector[0] = 1
+    return vector
+  }
+  return vector.map(value => value / norm)
 }
 
 /**
@@ -103,10 +254,3 @@ export function formatEmbeddingForStorage(embedding: number[]): string {
 export function getEmbeddingDimension(): number {
   return EMBEDDING_DIMENSION
 }
-
-/**
- * Get the model name being used for embeddings
- */
-export function getEmbeddingModel(): string {
-  return EMBEDDING_MODEL
-}
@@ -0,0 +1,56 @@
+// Auth config handling for external MCP integrations
+// Secret values are encrypted at rest and never sent back to the browser;
+// agent-server decrypts them when it connects to the integration.
+
+import { encryptApiKey } from '@/lib/encryption'
+
+// auth_config fields that hold secrets
+export const SECRET_AUTH_FIELDS = ['api_key', 'password', 'access_token', 'refresh_token', 'client_secret']
+
+// Placeholder returned for stored secrets - sending it back keeps the stored value
+export const MASKED_SECRET = '********'
+
+type AuthConfig = Record<string, unknown>
+
+/**
+ * Encrypt secret fields before saving an integration's auth_config
+ * Masked values keep the existing encrypted secret, empty values clear it
+ */
+export function encryptAuthConfig(authConfig: AuthConfig, existing: AuthConfig = {}): AuthConfig {
+  const result: AuthConfig = {}
+
+  for (const [key, value] of Object.entries(authConfig)) {
+    if (!SECRET_AUTH_FIELDS.includes(key) || typeof value !== 'string') {
+      result[key] = value
+      continue
+    }
+
+    if (value === MASKED_SECRET) {
+      if (existing[key] !== undefined) result[key] = existing[key]
+    } else if (value !== '') {
+      result[key] = encryptApiKey(value)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Replace stored secrets with a placeholder for API responses
+ */
+export function maskAuthConfig(authConfig: AuthConfig | null | undefined): AuthConfig {
+  const result: AuthConfig = {}
+
+  for (const [key, value] of Object.entries(authConfig || {})) {
+    result[key] = SECRET_AUTH_FIELDS.includes(key) && value ? MASKED_SECRET : value
+  }
+
+  return result
+}
+
+/**
+ * Mask the auth_config of an integration row
+ */
+export function maskIntegration<T extends { auth_config?: AuthConfig | null }>(integration: T): T {
+  return { ...integration, auth_config: maskAuthConfig(integration.auth_config) }
+}
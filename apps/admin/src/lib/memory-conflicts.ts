@@ -0,0 +1,268 @@
+// Memory Conflicts Service - Detect contradictions between facts
+// Compares new facts against similar existing ones. Clear replacements supersede the
+// older fact; ambiguous disagreements are queued for admin review
+
+import { createAdminClient } from './supabase/admin'
+import { generateText } from 'ai'
+import { anthropic } from './ai-sdk-provider'
+import type {
+  ConflictResolution,
+  ConflictStatus,
+  FactRelation,
+  FactRelationJudgment,
+  MemoryConflictWithFacts,
+  MemoryFact,
+} from '@/types/memory'
+
+// Similar enough to be about the same subject, below the deduplication threshold
+const CONFLICT_SIMILARITY_THRESHOLD = 0.75
+const MAX_CANDIDATES = 5
+
+const FACT_RELATIONS: FactRelation[] = ['unrelated', 'duplicate', 'supersedes', 'conflicts']
+
+const CONFLICT_DETECTION_PROMPT = `You maintain an agent's long-term memory. A new fact has just been stored. Decide how it relates to each existing fact.
+
+Relations:
+- unrelated: different subjects, or both can be true at the same time
+- duplicate: states the same thing as the existing fact
+- supersedes: the new fact replaces the existing one - a correction, or a change over time ("we moved it to January", "now uses", "no longer")
+- conflicts: they disagree, but it's unclear which is right or current
+
+Prefer "unrelated" when facts merely overlap. Only use "supersedes" when the new fact clearly makes the existing one outdated or wrong.
+
+Output a JSON array with one entry per existing fact:
+[
+  { "fact": 1, "relation": "unrelated|duplicate|supersedes|conflicts", "reason": "One short sentence" }
+]
+`
+
+/**
+ * Parse the model's judgments, mapping numbered facts back to their IDs
+ * Entries with an unknown fact number or relation are dropped
+ */
+export function parseFactRelations(text: string, candidateIds: string[]): FactRelationJudgment[] {
+  const jsonMatch = text.match(/\[[\s\S]*\]/)
+  if (!jsonMatch) return []
+
+  let entries: unknown
+  try {
+    entries = JSON.parse(jsonMatch[0])
+  } catch {
+    return []
+  }
+  if (!Array.isArray(entries)) return []
+
+  const judgments: FactRelationJudgment[] = []
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue
+    const { fact, relation, reason } = entry as { fact?: unknown; relation?: unknown; reason?: unknown }
+
+    const factId = typeof fact === 'number' ? candidateIds[fact - 1] : undefined
+    if (!factId || !FACT_RELATIONS.includes(relation as FactRelation)) continue
+    if (judgments.some(j => j.factId === factId)) continue
+
+    judgments.push({
+      factId,
+      relation: relation as FactRelation,
+      reason: typeof reason === 'string' ? reason : ''
+    })
+  }
+
+  return judgments
+}
+
+/**
+ * Compare a newly stored fact against similar active facts in the same scope
+ * Duplicates and replaced facts are superseded; unclear contradictions are queued
+ */
+export async function detectFactConflicts(
+  fact: MemoryFact,
+  embedding: number[],
+  embeddingModel: string
+): Promise<{ superseded: string[]; conflicts: string[] }> {
+  const supabase = createAdminClient()
+
+  const { data: similar } = await supabase.rpc('match_memory_facts', {
+    query_embedding: embedding,
+    p_workspace_id: fact.workspace_id,
+    p_user_id: fact.user_id,
+    p_scope: fact.scope,
+    match_count: MAX_CANDIDATES + 1,
+    similarity_threshold: CONFLICT_SIMILARITY_THRESHOLD,
+    p_embedding_model: embeddingModel
+  })
+
+  const matches = ((similar || []) as Array<{ id: string; similarity: number }>)
+    .filter(match => match.id !== fact.id)
+  if (matches.length === 0) {
+    return { superseded: [], conflicts: [] }
+  }
+
+  const { data: candidateRows } = await supabase
+    .from('agent_memory_facts')
+    .select('*')
+    .in('id', matches.map(match => match.id))
+
+  // match_memory_facts doesn't filter agent-scoped facts by agent
+  const candidates = ((candidateRows || []) as MemoryFact[])
+    .filter(candidate => candidate.scope !== 'agent' || candidate.agent_id === fact.agent_id)
+    .slice(0, MAX_CANDIDATES)
+  if (candidates.length === 0) {
+    return { superseded: [], conflicts: [] }
+  }
+
+  const result = await generateText({
+    model: anthropic('claude-haiku-4-5-20251001'),
+    system: CONFLICT_DETECTION_PROMPT,
+    prompt: [
+      'Existing facts:',
+      ...candidates.map((candidate, i) =>
+        `${i + 1}. (stored ${candidate.created_at.slice(0, 10)}) ${candidate.content}`
+      ),
+      '',
+      `New fact (stored ${fact.created_at.slice(0, 10)}): ${fact.content}`
+    ].join('\n'),
+    maxTokens: 1000
+  })
+
+  const judgments = parseFactRelations(result.text, candidates.map(candidate => candidate.id))
+  const superseded: string[] = []
+  const conflicts: string[] = []
+
+  for (const judgment of judgments) {
+    if (judgment.relation === 'duplicate' || judgment.relation === 'supersedes') {
+      const reason = judgment.relation === 'duplicate'
+        ? `Duplicate of a newer fact${judgment.reason ? `: ${judgment.reason}` : ''}`
+        : judgment.reason || 'Replaced by a newer fact'
+      await supersedeFact(judgment.factId, fact.id, reason)
+      superseded.push(judgment.factId)
+    } else if (judgment.relation === 'conflicts') {
+      const { data: conflict, error } = await supabase
+        .from('agent_memory_conflicts')
+        .upsert({
+          workspace_id: fact.workspace_id,
+          new_fact_id: fact.id,
+          existing_fact_id: judgment.factId,
+          similarity: matches.find(match => match.id === judgment.factId)?.similarity || 0,
+          reason: judgment.reason || null
+        }, { onConflict: 'new_fact_id,existing_fact_id', ignoreDuplicates: true })
+        .select('id')
+        .maybeSingle()
+
+      if (error) {
+        console.error('Failed to queue memory conflict:', error)
+      } else if (conflict) {
+        conflicts.push(conflict.id)
+      }
+    }
+  }
+
+  return { superseded, conflicts }
+}
+
+/**
+ * Mark a fact as replaced by another, keeping the lineage link
+ * Pending conflicts involving the replaced fact are closed, since it's no longer recalled
+ */
+export async function supersedeFact(
+  factId: string,
+  supersededById: string,
+  reason: string
+): Promise<void> {
+  const supabase = createAdminClient()
+  const now = new Date().toISOString()
+
+  const { error } = await supabase
+    .from('agent_memory_facts')
+    .update({
+      is_active: false,
+      superseded_by: supersededById,
+      superseded_at: now,
+      supersession_reason: reason,
+      updated_at: now
+    })
+    .eq('id', factId)
+
+  if (error) {
+    throw new Error(`Failed to supersede fact: ${error.message}`)
+  }
+
+  await supabase
+    .from('agent_memory_conflicts')
+    .update({ status: 'resolved', resolved_at: now })
+    .eq('status', 'pending')
+    .or(`new_fact_id.eq.${factId},existing_fact_id.eq.${factId}`)
+}
+
+/**
+ * List conflicts for a workspace with both facts attached
+ */
+export async function listConflicts(
+  workspaceId: string,
+  options: { status?: ConflictStatus; limit?: number; offset?: number } = {}
+): Promise<{ conflicts: MemoryConflictWithFacts[]; total: number }> {
+  const { status = 'pending', limit = 50, offset = 0 } = options
+  const supabase = createAdminClient()
+
+  const { data, error, count } = await supabase
+    .from('agent_memory_conflicts')
+    .select(`
+      *,
+      new_fact:agent_memory_facts!new_fact_id(*),
+      existing_fact:agent_memory_facts!existing_fact_id(*)
+    `, { count: 'exact' })
+    .eq('workspace_id', workspaceId)
+    .eq('status', status)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (error) {
+    throw new Error(`Failed to list conflicts: ${error.message}`)
+  }
+
+  return { conflicts: (data || []) as MemoryConflictWithFacts[], total: count || 0 }
+}
+
+/**
+ * Resolve a queued conflict
+ *   keep_new      - the existing fact is superseded by the new one
+ *   keep_existing - the new fact is superseded by the existing one
+ *   keep_both     - both stay active
+ */
+export async function resolveConflict(
+  conflictId: string,
+  resolution: ConflictResolution,
+  resolvedBy: string
+): Promise<void> {
+  const supabase = createAdminClient()
+
+  const { data: conflict, error: fetchError } = await supabase
+    .from('agent_memory_conflicts')
+    .select('*')
+    .eq('id', conflictId)
+    .single()
+
+  if (fetchError || !conflict) {
+    throw new Error('Conflict not found')
+  }
+
+  if (resolution === 'keep_new') {
+    await supersedeFact(conflict.existing_fact_id, conflict.new_fact_id, 'Replaced by a newer fact during conflict review')
+  } else if (resolution === 'keep_existing') {
+    await supersedeFact(conflict.new_fact_id, conflict.existing_fact_id, 'Rejected in favor of an existing fact during conflict review')
+  }
+
+  const { error } = await supabase
+    .from('agent_memory_conflicts')
+    .update({
+      status: 'resolved',
+      resolution,
+      resolved_by: resolvedBy,
+      resolved_at: new Date().toISOString()
+    })
+    .eq('id', conflictId)
+
+  if (error) {
+    throw new Error(`Failed to resolve conflict: ${error.message}`)
+  }
+}
@@ -4,7 +4,7 @@
 import { createAdminClient } from './supabase/admin'
 import { generateText } from 'ai'
 import { anthropic } from './ai-sdk-provider'
-import { generateEmbedding } from './embeddings'
+import { generateEmbedding, getEmbeddingProvider } from './embeddings'
 import type { MemoryFact, SummaryCategory, GeneratedSummary } from '@/types/memory'
 
 const SUMMARY_GENERATION_PROMPT = `You are a memory consolidation assistant. Given a collection of individual facts, create a coherent summary that captures the essential information.
@@ -56,6 +56,7 @@ export async function consolidateMemories(workspaceId: string): Promise<{
   // Group facts by category (fact_type + scope + user_id)
   const groups = groupFactsByCategory(facts)
 
+  const provider = await getEmbeddingProvider(workspaceId)
   let summariesCreated = 0
   let summariesUpdated = 0
 
@@ -72,7 +73,7 @@ export async function consolidateMemories(workspaceId: string): Promise<{
       if (!summary) continue
 
       // Generate embedding for the summary
-      const embedding = await generateEmbedding(summary.content)
+      const embedding = await generateEmbedding(summary.content, provider)
 
       // Check if summary already exists for this scope/category/user
       const { data: existingSummary } = await supabase
@@ -96,6 +97,7 @@ export async function consolidateMemories(workspaceId: string): Promise<{
             title: summary.title,
             content: summary.content,
             embedding,
+            embedding_model: provider.model,
             source_fact_ids: newSourceIds,
             fact_count: newSourceIds.length,
             last_consolidated_at: new Date().toISOString(),
@@ -117,6 +119,7 @@ export async function consolidateMemories(workspaceId: string): Promise<{
             title: summary.title,
             content: summary.content,
             embedding,
+            embedding_model: provider.model,
             source_fact_ids: factIds,
             fact_count: factIds.length,
             last_consolidated_at: new Date().toISOString(),
@@ -301,6 +304,7 @@ export async function consolidateUserMemories(
   // Group by fact type
   const groups = groupFactsByCategory(facts)
 
+  const provider = await getEmbeddingProvider(workspaceId)
   let summariesCreated = 0
   let summariesUpdated = 0
 
@@ -314,7 +318,7 @@ export async function consolidateUserMemories(
       const summary = await generateSummary(groupFacts, category)
       if (!summary) continue
 
-      const embedding = await generateEmbedding(summary.content)
+      const embedding = await generateEmbedding(summary.content, provider)
       const factIds = groupFacts.map(f => f.id)
 
       const { data: existingSummary } = await supabase
@@ -335,6 +339,7 @@ export async function consolidateUserMemories(
             title: summary.title,
             content: summary.content,
             embedding,
+            embedding_model: provider.model,
             source_fact_ids: newSourceIds,
             fact_count: newSourceIds.length,
             last_consolidated_at: new Date().toISOString(),
@@ -355,6 +360,7 @@ export async function consolidateUserMemories(
             title: summary.title,
             content: summary.content,
             embedding,
+            embedding_model: provider.model,
             source_fact_ids: factIds,
             fact_count: factIds.length
           })
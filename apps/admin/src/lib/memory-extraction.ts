@@ -4,7 +4,8 @@
 import { createAdminClient } from './supabase/admin'
 import { generateText } from 'ai'
 import { anthropic } from './ai-sdk-provider'
-import { generateEmbedding } from './embeddings'
+import { generateEmbedding, getEmbeddingProvider } from './embeddings'
+import { detectFactConflicts } from './memory-conflicts'
 import type { ExtractedFact, MemoryEpisode } from '@/types/memory'
 
 const EXTRACTION_PROMPT = `Analyze this interaction and extract key facts worth remembering for future conversations.
@@ -89,18 +90,22 @@ export async function extractFactsFromEpisode(episodeId: string): Promise<void>
     facts = facts.filter(isValidFact)
 
     // Store each extracted fact
+    const provider = await getEmbeddingProvider(episode.workspace_id)
     for (const fact of facts) {
       try {
-        const embedding = await generateEmbedding(fact.content)
+        const embedding = await generateEmbedding(fact.content, provider)
 
-        // Check for similar existing facts to avoid duplicates
+        // Check for near-identical existing facts to avoid duplicates. Anything less
+        // similar is stored and goes through conflict detection, so a changed value
+        // ("moved to January") supersedes the old one instead of being dropped
         const { data: similar } = await supabase.rpc('match_memory_facts', {
           query_embedding: embedding,
           p_workspace_id: episode.workspace_id,
           p_user_id: episode.user_id,
           p_scope: fact.scope,
           match_count: 1,
-          similarity_threshold: 0.9
+          similarity_threshold: 0.95,
+          p_embedding_model: provider.model
         })
 
         if (similar && similar.length > 0) {
@@ -119,7 +124,7 @@ export async function extractFactsFromEpisode(episodeId: string): Promise<void>
         }
 
         // Insert new fact
-        await supabase
+        const { data: inserted } = await supabase
           .from('agent_memory_facts')
           .insert({
             workspace_id: episode.workspace_id,
@@ -129,10 +134,19 @@ export async function extractFactsFromEpisode(episodeId: string): Promise<void>
             fact_type: fact.type,
             content: fact.content,
             embedding,
+            embedding_model: provider.model,
             importance: fact.importance,
             confidence: 0.8, // Auto-extracted facts have lower confidence
             source_episode_id: episodeId
           })
+          .select()
+          .single()
+
+        if (inserted) {
+          await detectFactConflicts(inserted, embedding, provider.model).catch(conflictError =>
+            console.error('Memory conflict detection failed:', conflictError)
+          )
+        }
       } catch (factError) {
         console.error('Failed to store extracted fact:', factError)
         // Continue with other facts
@@ -0,0 +1,93 @@
+// Memory Retrieval - Hybrid ranking of memory candidates
+// Fuses vector similarity and full-text rank with reciprocal rank fusion,
+// then weights by importance, decay and recency
+
+import type { MemoryCandidate } from '@/types/memory'
+
+export interface RetrievalWeights {
+  vector: number
+  keyword: number
+  // Share of the score that depends on importance and recency (0-1)
+  importance: number
+  recency: number
+  recencyHalfLifeDays: number
+  // Reciprocal rank fusion constant; lower values favour top-ranked matches more
+  rrfK: number
+}
+
+export const DEFAULT_RETRIEVAL_WEIGHTS: RetrievalWeights = {
+  vector: 1,
+  keyword: 1,
+  importance: 0.3,
+  recency: 0.2,
+  recencyHalfLifeDays: 90,
+  rrfK: 20
+}
+
+export interface RankedCandidate extends MemoryCandidate {
+  score: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function rankBy(candidates: MemoryCandidate[], value: (c: MemoryCandidate) => number): Map<string, number> {
+  return new Map(
+    [...candidates]
+      .sort((a, b) => value(b) - value(a))
+      .map((candidate, i) => [candidate.id, i + 1])
+  )
+}
+
+/**
+ * Rank candidates from search_memory_candidates, best first
+ * Facts found only by vector search must meet the similarity threshold;
+ * keyword matches always qualify, since exact tokens like invoice numbers
+ * are what embeddings miss
+ */
+export function rankMemoryCandidates(
+  candidates: MemoryCandidate[],
+  options: {
+    similarityThreshold: number
+    weights?: Partial<RetrievalWeights>
+    now?: Date
+  }
+): RankedCandidate[] {
+  const weights = { ...DEFAULT_RETRIEVAL_WEIGHTS, ...options.weights }
+  const now = (options.now || new Date()).getTime()
+  const ranked: RankedCandidate[] = []
+
+  for (const sourceType of ['fact', 'summary'] as const) {
+    const pool = candidates.filter(c => c.source_type === sourceType)
+    const threshold = sourceType === 'fact' ? options.similarityThreshold : -1
+
+    const vectorMatches = pool.filter(c => c.similarity !== null && c.similarity >= threshold)
+    const keywordMatches = pool.filter(c => c.keyword_rank !== null && c.keyword_rank > 0)
+    const vectorRanks = rankBy(vectorMatches, c => c.similarity!)
+    const keywordRanks = rankBy(keywordMatches, c => c.keyword_rank!)
+    const maxFused = (weights.vector + weights.keyword) / (weights.rrfK + 1)
+
+    for (const candidate of pool) {
+      const vectorRank = vectorRanks.get(candidate.id)
+      const keywordRank = keywordRanks.get(candidate.id)
+      if (!vectorRank && !keywordRank) continue
+
+      const fused =
+        (vectorRank ? weights.vector / (weights.rrfK + vectorRank) : 0) +
+        (keywordRank ? weights.keyword / (weights.rrfK + keywordRank) : 0)
+
+      const importance = candidate.importance ?? 1
+      const ageDays = Math.max(0, (now - new Date(candidate.created_at).getTime()) / DAY_MS)
+      const freshness = Math.pow(0.5, ageDays / weights.recencyHalfLifeDays)
+
+      const score =
+        (fused / maxFused) *
+        (1 - weights.importance + weights.importance * importance) *
+        (1 - weights.recency + weights.recency * freshness) *
+        (candidate.decay_factor ?? 1)
+
+      ranked.push({ ...candidate, score })
+    }
+  }
+
+  return ranked.sort((a, b) => b.score - a.score)
+}
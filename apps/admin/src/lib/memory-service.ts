@@ -2,13 +2,17 @@
 // Handles storing, retrieving, and managing agent memories
 
 import { createAdminClient } from './supabase/admin'
-import { generateEmbedding } from './embeddings'
+import { generateEmbedding, generateEmbeddings, getEmbeddingProvider } from './embeddings'
 import { extractFactsFromEpisode } from './memory-extraction'
+import { detectFactConflicts } from './memory-conflicts'
+import { rankMemoryCandidates } from './memory-retrieval'
 import type {
+  MemoryCandidate,
   MemoryContext,
   RecallResult,
   MemorizeResult,
   MemoryFact,
+  MemorySummary,
   MemoryEpisode,
   FactType,
   EpisodeType,
@@ -19,7 +23,8 @@ import type {
 
 /**
  * Recall relevant memories for a given query
- * Uses semantic search to find facts and summaries related to the query
+ * Hybrid search: keyword matches are fused with semantic matches, then weighted
+ * by importance and recency. Falls back to keyword-only if embedding fails
  */
 export async function recallMemories(
   query: string,
@@ -35,14 +40,22 @@ export async function recallMemories(
 
   try {
     // Generate embedding for the query
-    const embedding = await generateEmbedding(query)
+    const provider = await getEmbeddingProvider(context.workspaceId)
+    let embedding: number[] | null = null
+    try {
+      embedding = await generateEmbedding(query, provider)
+    } catch (embeddingError) {
+      console.error('Memory recall embedding failed, using keyword search only:', embeddingError)
+    }
 
-    // Call retrieval function
-    const { data, error } = await supabase.rpc('recall_memories', {
+    // Fetch vector and keyword candidates
+    const { data, error } = await supabase.rpc('search_memory_candidates', {
+      query_text: query,
       query_embedding: embedding,
       p_workspace_id: context.workspaceId,
       p_user_id: context.userId || null,
-      match_count: maxResults
+      p_embedding_model: provider.model,
+      candidate_count: maxResults * 3
     })
 
     if (error) {
@@ -54,18 +67,24 @@ export async function recallMemories(
       return { facts: [], summaries: [] }
     }
 
-    // Separate facts and summaries
-    const factResults = data
-      .filter((r: { source_type: string; similarity: number }) =>
-        r.source_type === 'fact' && r.similarity >= similarityThreshold
-      )
-    const summaryResults = data
-      .filter((r: { source_type: string }) => r.source_type === 'summary')
+    // Rank and separate facts and summaries
+    const ranked = rankMemoryCandidates(data as MemoryCandidate[], { similarityThreshold })
+    const factResults = ranked
+      .filter(r => r.source_type === 'fact')
+      .slice(0, maxResults)
+    const summaryResults = ranked
+      .filter(r => r.source_type === 'summary')
+      .slice(0, Math.max(1, Math.floor(maxResults / 2)))
+
+    const scoresFor = (id: string, results: typeof ranked) => {
+      const result = results.find(r => r.id === id)!
+      return { similarity: result.similarity, keywordRank: result.keyword_rank, score: result.score }
+    }
 
     // Fetch full fact details
-    const facts: Array<MemoryFact & { similarity: number }> = []
+    const facts: RecallResult['facts'] = []
     if (factResults.length > 0) {
-      const factIds = factResults.map((f: { id: string }) => f.id)
+      const factIds = factResults.map(f => f.id)
 
       const { data: fullFacts } = await supabase
         .from('agent_memory_facts')
@@ -73,10 +92,8 @@ export async function recallMemories(
         .in('id', factIds)
 
       if (fullFacts) {
-        facts.push(...fullFacts.map((f: MemoryFact) => ({
-          ...f,
-          similarity: factResults.find((fr: { id: string }) => fr.id === f.id)?.similarity || 0
-        })))
+        facts.push(...fullFacts.map((f: MemoryFact) => ({ ...f, ...scoresFor(f.id, factResults) })))
+        facts.sort((a, b) => b.score - a.score)
       }
 
       // Update access timestamps for retrieved facts (async, don't block)
@@ -84,9 +101,9 @@ export async function recallMemories(
     }
 
     // Fetch full summary details
-    const summaries = []
+    const summaries: RecallResult['summaries'] = []
     if (summaryResults.length > 0) {
-      const summaryIds = summaryResults.map((s: { id: string }) => s.id)
+      const summaryIds = summaryResults.map(s => s.id)
 
       const { data: fullSummaries } = await supabase
         .from('agent_memory_summaries')
@@ -94,10 +111,8 @@ export async function recallMemories(
         .in('id', summaryIds)
 
       if (fullSummaries) {
-        summaries.push(...fullSummaries.map((s) => ({
-          ...s,
-          similarity: summaryResults.find((sr: { id: string }) => sr.id === s.id)?.similarity || 0
-        })))
+        summaries.push(...fullSummaries.map((s: MemorySummary) => ({ ...s, ...scoresFor(s.id, summaryResults) })))
+        summaries.sort((a, b) => b.score - a.score)
       }
     }
 
@@ -152,7 +167,8 @@ export async function memorize(
 
 /**
  * Explicitly remember a fact (agent-initiated or manual)
- * Performs deduplication check before storing
+ * Performs deduplication check before storing, then supersedes
+ * any older facts the new one contradicts
  */
 export async function rememberFact(
   content: string,
@@ -170,7 +186,8 @@ export async function rememberFact(
   const supabase = createAdminClient()
 
   // Generate embedding
-  const embedding = await generateEmbedding(content)
+  const provider = await getEmbeddingProvider(context.workspaceId)
+  const embedding = await generateEmbedding(content, provider)
 
   // Check for similar existing facts (deduplication)
   const { data: similar } = await supabase.rpc('match_memory_facts', {
@@ -179,7 +196,8 @@ export async function rememberFact(
     p_user_id: context.userId || null,
     p_scope: scope,
     match_count: 1,
-    similarity_threshold: 0.95 // High threshold for deduplication
+    similarity_threshold: 0.95, // High threshold for deduplication
+    p_embedding_model: provider.model
   })
 
   if (similar && similar.length > 0) {
@@ -214,6 +232,7 @@ export async function rememberFact(
       fact_type: factType,
       content,
       embedding,
+      embedding_model: provider.model,
       importance,
       confidence,
       source_episode_id: sourceEpisodeId || null
@@ -225,6 +244,13 @@ export async function rememberFact(
     throw new Error(`Failed to store fact: ${error.message}`)
   }
 
+  // A failed check leaves both facts active, which is no worse than before
+  try {
+    await detectFactConflicts(fact, embedding, provider.model)
+  } catch (conflictError) {
+    console.error('Memory conflict detection failed:', conflictError)
+  }
+
   return fact
 }
 
@@ -292,16 +318,28 @@ export async function updateFact(
   const supabase = createAdminClient()
 
   // If content is being updated, regenerate embedding
-  let embedding: number[] | undefined
+  let embedding: { embedding: number[]; embedding_model: string } | undefined
   if (updates.content) {
-    embedding = await generateEmbedding(updates.content)
+    const { data: existing } = await supabase
+      .from('agent_memory_facts')
+      .select('workspace_id')
+      .eq('id', factId)
+      .single()
+
+    if (existing) {
+      const provider = await getEmbeddingProvider(existing.workspace_id)
+      embedding = {
+        embedding: await generateEmbedding(updates.content, provider),
+        embedding_model: provider.model
+      }
+    }
   }
 
   const { data, error } = await supabase
     .from('agent_memory_facts')
     .update({
       ...updates,
-      ...(embedding ? { embedding } : {}),
+      ...embedding,
       updated_at: new Date().toISOString()
     })
     .eq('id', factId)
@@ -440,6 +478,18 @@ export async function getMemoryStats(workspaceId: string) {
     .eq('workspace_id', workspaceId)
     .eq('is_active', true)
 
+  const { count: supersededFacts } = await supabase
+    .from('agent_memory_facts')
+    .select('*', { count: 'exact', head: true })
+    .eq('workspace_id', workspaceId)
+    .not('superseded_by', 'is', null)
+
+  const { count: pendingConflicts } = await supabase
+    .from('agent_memory_conflicts')
+    .select('*', { count: 'exact', head: true })
+    .eq('workspace_id', workspaceId)
+    .eq('status', 'pending')
+
   // Get summary count
   const { count: totalSummaries } = await supabase
     .from('agent_memory_summaries')
@@ -485,8 +535,70 @@ export async function getMemoryStats(workspaceId: string) {
     unprocessedEpisodes: (totalEpisodes || 0) - (processedEpisodes || 0),
     totalFacts: totalFacts || 0,
     activeFacts: activeFacts || 0,
+    supersededFacts: supersededFacts || 0,
+    pendingConflicts: pendingConflicts || 0,
     totalSummaries: totalSummaries || 0,
     factsByType,
     factsByScope
   }
 }
+
+/**
+ * Re-embed facts and summaries made by a different model than the workspace's
+ * current provider. Until then they're only found by keyword search
+ * Runs in batches; call again while remaining > 0
+ */
+export async function reembedMemories(
+  workspaceId: string,
+  batchSize: number = 100
+): Promise<{ facts: number; summaries: number; remaining: number }> {
+  const supabase = createAdminClient()
+  const provider = await getEmbeddingProvider(workspaceId)
+  const stale = `embedding_model.is.null,embedding_model.neq.${provider.model}`
+
+  const counts = { facts: 0, summaries: 0 }
+
+  for (const [table, key] of [
+    ['agent_memory_facts', 'facts'],
+    ['agent_memory_summaries', 'summaries']
+  ] as const) {
+    const { data: rows, error } = await supabase
+      .from(table)
+      .select('id, content')
+      .eq('workspace_id', workspaceId)
+      .or(stale)
+      .limit(batchSize)
+
+    if (error) {
+      throw new Error(`Failed to list ${key} to re-embed: ${error.message}`)
+    }
+    if (!rows || rows.length === 0) continue
+
+    const embeddings = await generateEmbeddings(rows.map(row => row.content), provider)
+    for (let i = 0; i < rows.length; i++) {
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ embedding: embeddings[i], embedding_model: provider.model })
+        .eq('id', rows[i].id)
+
+      if (updateError) {
+        throw new Error(`Failed to re-embed ${key}: ${updateError.message}`)
+      }
+      counts[key]++
+    }
+  }
+
+  const { count: remainingFacts } = await supabase
+    .from('agent_memory_facts')
+    .select('*', { count: 'exact', head: true })
+    .eq('workspace_id', workspaceId)
+    .or(stale)
+
+  const { count: remainingSummaries } = await supabase
+    .from('agent_memory_summaries')
+    .select('*', { count: 'exact', head: true })
+    .eq('workspace_id', workspaceId)
+    .or(stale)
+
+  return { ...counts, remaining: (remainingFacts || 0) + (remainingSummaries || 0) }
+}
@@ -67,7 +67,7 @@ Guidelines:
 - Checking if you already know something relevant to the current task
 - Personalizing your response based on what you know
 
-The search uses semantic similarity, so describe what you're looking for naturally.`,
+The search matches both meaning and exact words, so describe what you're looking for naturally and include specific names, numbers or IDs.`,
       parameters: z.object({
         query: z.string().describe('What to search for in memory - describe naturally what information you need'),
         limit: z.number().optional().describe('Maximum number of results to return (default: 5, max: 20)')
@@ -95,7 +95,7 @@ The search uses semantic similarity, so describe what you're looking for natural
               id: f.id,
               content: f.content,
               type: f.fact_type,
-              relevance: Math.round(f.similarity * 100) / 100
+              relevance: Math.round(f.score * 100) / 100
             })),
             summaries: memories.summaries.map(s => ({
               id: s.id,
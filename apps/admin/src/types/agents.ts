@@ -327,6 +327,102 @@ export interface AgentTestMessage {
   created_at: string
 }
 
+// ============================================
+// EVAL SUITE TYPES
+// ============================================
+
+export type EvalAssertion =
+  | { type: 'tool_called'; tool: string; args?: Record<string, unknown> }
+  | { type: 'tool_not_called'; tool: string }
+  | { type: 'response_mentions'; text: string }
+  | { type: 'response_omits'; text: string }
+  | { type: 'no_hallucination' }
+  | { type: 'max_cost_usd'; value: number }
+  | { type: 'max_tokens'; value: number }
+
+export type EvalAssertionType = EvalAssertion['type']
+
+export interface EvalCase {
+  id: string
+  name: string
+  turns: string[]
+  mock_responses?: Record<string, unknown>
+  assertions: EvalAssertion[]
+}
+
+export interface AgentEvalSuite {
+  id: string
+  agent_id: string
+  name: string
+  description: string | null
+  cases: EvalCase[]
+  is_required: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface EvalAssertionResult {
+  assertion: EvalAssertion
+  passed: boolean
+  detail: string
+}
+
+export interface EvalCaseResult {
+  case_id: string
+  case_name: string
+  passed: boolean
+  response: string
+  tool_calls: { name: string; input: unknown }[]
+  assertions: EvalAssertionResult[]
+  cost_usd: number
+  tokens: number
+  error?: string
+}
+
+export type EvalRunStatus = 'passed' | 'failed' | 'error'
+
+export interface AgentEvalRun {
+  id: string
+  suite_id: string
+  agent_id: string
+  version: number
+  status: EvalRunStatus
+  suite_updated_at: string
+  results: EvalCaseResult[]
+  passed_cases: number
+  failed_cases: number
+  cost_usd: number
+  error: string | null
+  run_by: string | null
+  created_at: string
+}
+
+export type EvalCaseChange = 'fixed' | 'regressed' | 'unchanged' | 'new'
+
+export interface EvalCaseDiff {
+  suite_id: string
+  suite_name: string
+  case_id: string
+  case_name: string
+  /** Result on the published version, null if the case wasn't run there */
+  previous: boolean | null
+  current: boolean | null
+  change: EvalCaseChange
+}
+
+export type EvalGateReason = 'not_run' | 'outdated' | 'failed'
+
+export interface EvalGate {
+  version: number
+  published_version: number | null
+  /** Latest run of each suite against this version */
+  runs: AgentEvalRun[]
+  /** Required suites stopping this version from being published */
+  blocking: { suite_id: string; suite_name: string; reason: EvalGateReason }[]
+  diff: EvalCaseDiff[]
+}
+
 // ============================================
 // PROMPT TEMPLATE TYPES
 // ============================================
@@ -531,6 +627,25 @@ export interface PublishAgentVersionRequest {
   version: number
 }
 
+export interface CreateEvalSuiteRequest {
+  name: string
+  description?: string
+  cases?: EvalCase[]
+  is_required?: boolean
+}
+
+export interface UpdateEvalSuiteRequest {
+  name?: string
+  description?: string | null
+  cases?: EvalCase[]
+  is_required?: boolean
+}
+
+export interface RunEvalSuitesRequest {
+  version: number
+  suite_ids?: string[]
+}
+
 export interface CreateTestSessionRequest {
   tool_mode?: TestToolMode
   mock_responses?: Record<string, unknown>
@@ -742,6 +857,19 @@ export interface AgentScheduleExecution {
   created_at: string
 }
 
+// Facts in an agent's response checked against the tool results from the same run
+export interface GroundingCheckResult {
+  status: 'grounded' | 'partially_grounded' | 'ungrounded' | 'no_claims'
+  checkedClaims: number
+  groundedClaims: number
+  ungroundedClaims: Array<{
+    type: 'amount' | 'percentage' | 'number' | 'date' | 'id' | 'email' | 'name'
+    text: string
+    grounded: boolean
+  }>
+  summary: string
+}
+
 export interface AgentScheduleExecutionWithDetails extends AgentScheduleExecution {
   schedule?: AgentSchedule
   agent?: {
@@ -3,6 +3,7 @@
 export type MemoryScope = 'user' | 'workspace' | 'agent'
 export type FactType = 'preference' | 'context' | 'knowledge' | 'relationship'
 export type EpisodeType = 'conversation' | 'scheduled_task' | 'tool_execution'
+export type EmbeddingProviderType = 'openai' | 'openai_compatible' | 'local'
 export type SummaryCategory = 'user_profile' | 'project_context' | 'domain_knowledge' | 'communication_style' | 'workflow'
 
 // Database row types
@@ -30,6 +31,7 @@ export interface MemoryFact {
   fact_type: FactType
   content: string
   embedding?: number[] | null
+  embedding_model: string | null
   source_episode_id: string | null
   confidence: number
   importance: number
@@ -38,6 +40,8 @@ export interface MemoryFact {
   decay_factor: number
   is_active: boolean
   superseded_by: string | null
+  superseded_at: string | null
+  supersession_reason: string | null
   created_at: string
   updated_at: string
 }
@@ -52,6 +56,7 @@ export interface MemorySummary {
   title: string
   content: string
   embedding?: number[] | null
+  embedding_model: string | null
   source_fact_ids: string[]
   fact_count: number
   last_consolidated_at: string
@@ -60,6 +65,24 @@ export interface MemorySummary {
   updated_at: string
 }
 
+export type ConflictStatus = 'pending' | 'resolved'
+export type ConflictResolution = 'keep_new' | 'keep_existing' | 'keep_both'
+
+// Two similar facts that may contradict each other, awaiting admin review
+export interface MemoryConflict {
+  id: string
+  workspace_id: string
+  new_fact_id: string
+  existing_fact_id: string
+  similarity: number
+  reason: string | null
+  status: ConflictStatus
+  resolution: ConflictResolution | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+}
+
 // Context for memory operations
 export interface MemoryContext {
   workspaceId: string
@@ -67,10 +90,29 @@ export interface MemoryContext {
   agentId?: string
 }
 
-// Results from recall operations
+// Scores from hybrid retrieval. similarity is null when the memory had no comparable
+// embedding and was found by keyword only
+export interface RecallScores {
+  similarity: number | null
+  keywordRank: number | null
+  score: number
+}
+
+// Results from recall operations, best match first
 export interface RecallResult {
-  facts: Array<MemoryFact & { similarity: number }>
-  summaries: Array<MemorySummary & { similarity: number }>
+  facts: Array<MemoryFact & RecallScores>
+  summaries: Array<MemorySummary & RecallScores>
+}
+
+// Row returned by the search_memory_candidates RPC
+export interface MemoryCandidate {
+  source_type: 'fact' | 'summary'
+  id: string
+  similarity: number | null
+  keyword_rank: number | null
+  importance: number | null
+  decay_factor: number | null
+  created_at: string
 }
 
 // Result from memorize operation
@@ -79,6 +121,16 @@ export interface MemorizeResult {
   extractedFacts: MemoryFact[]
 }
 
+// Embedding provider for a workspace's memory (API key never leaves the server)
+export interface WorkspaceEmbeddingConfig {
+  workspace_id: string
+  provider: EmbeddingProviderType
+  model: string | null
+  base_url: string | null
+  has_api_key: boolean
+  updated_at: string
+}
+
 // Options for recall operations
 export interface RecallOptions {
   maxResults?: number
@@ -95,6 +147,17 @@ export interface RememberOptions {
   confidence?: number
 }
 
+// How a new fact relates to a similar existing one
+//   supersedes - the new fact replaces it (a correction or a change over time)
+//   conflicts  - they disagree but it's unclear which is right
+export type FactRelation = 'unrelated' | 'duplicate' | 'supersedes' | 'conflicts'
+
+export interface FactRelationJudgment {
+  factId: string
+  relation: FactRelation
+  reason: string
+}
+
 // LLM extraction result types
 export interface ExtractedFact {
   content: string
@@ -122,6 +185,8 @@ export interface MemoryStatsResponse {
   unprocessedEpisodes: number
   totalFacts: number
   activeFacts: number
+  supersededFacts: number
+  pendingConflicts: number
   totalSummaries: number
   factsByType: Record<FactType, number>
   factsByScope: Record<MemoryScope, number>
@@ -146,6 +211,12 @@ export interface MemoryFactWithMeta extends MemoryFact {
   source_episode?: MemoryEpisode
 }
 
+// Conflict with both facts for the review queue
+export interface MemoryConflictWithFacts extends MemoryConflict {
+  new_fact: MemoryFact
+  existing_fact: MemoryFact
+}
+
 // Summary with enriched data for admin UI
 export interface MemorySummaryWithMeta extends MemorySummary {
   workspace?: { id: string; name: string }
@@ -42,6 +42,38 @@ export interface ProviderTestResult {
   tested_at: string
 }
 
+// MCP tool calls recorded by the MCP server (mcp_tool_calls)
+export type ToolCallOutcome = 'success' | 'error' | 'denied' | 'invalid'
+
+export interface ToolCallLogEntry {
+  id: string
+  tool_name: string
+  workspace_id: string | null
+  user_id: string | null
+  agent_id: string | null
+  api_key_id: string | null
+  transport: 'stdio' | 'http'
+  arguments: Record<string, unknown>
+  outcome: ToolCallOutcome
+  error_message: string | null
+  error_category: string | null
+  latency_ms: number
+  rows_affected: number | null
+  created_at: string
+}
+
+export interface ToolCallStats {
+  tool_name: string
+  total_calls: number
+  error_calls: number
+  denied_calls: number
+  error_rate: number
+  p50_latency_ms: number
+  p95_latency_ms: number
+  p99_latency_ms: number
+  last_called_at: string
+}
+
 export interface TestRunConfig {
   workspace_id?: string
   tool_mode?: 'mock' | 'simulate' | 'live'
@@ -78,6 +110,11 @@ export interface TestingStatsResponse {
   stats: TestingStats
 }
 
+export interface ToolCallStatsResponse {
+  stats: ToolCallStats[]
+  hours: number
+}
+
 export interface TestingHistoryResponse {
   tests: TestHistoryEntry[]
   total: number
@@ -0,0 +1,88 @@
+-- 120_mcp_tool_calls.sql
+-- Audit trail for MCP tool calls, written by the MCP server's call handler
+
+-- ============================================
+-- 1. TOOL CALL LOG
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS mcp_tool_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_name TEXT NOT NULL,
+  -- No foreign keys: calls for unknown workspaces are logged too, and the log outlives deleted users, agents and keys
+  workspace_id UUID,
+  user_id UUID,
+  agent_id UUID,
+  api_key_id UUID,
+  transport TEXT NOT NULL DEFAULT 'stdio' CHECK (transport IN ('stdio', 'http')),
+  arguments JSONB NOT NULL DEFAULT '{}',
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error', 'denied', 'invalid')),
+  error_message TEXT,
+  error_category TEXT,
+  latency_ms INTEGER NOT NULL,
+  rows_affected INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE mcp_tool_calls IS 'One row per MCP tool call: who called which tool, redacted arguments, outcome and latency';
+COMMENT ON COLUMN mcp_tool_calls.arguments IS 'Tool arguments with secrets redacted and large values truncated';
+COMMENT ON COLUMN mcp_tool_calls.outcome IS 'success, error (tool failed), denied (permission check) or invalid (arguments failed validation)';
+
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_calls_created ON mcp_tool_calls(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_calls_tool ON mcp_tool_calls(tool_name, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_calls_workspace ON mcp_tool_calls(workspace_id, created_at DESC);
+
+-- RLS: written by the MCP server with the service role, readable by superadmins
+ALTER TABLE mcp_tool_calls ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'mcp_tool_calls' AND policyname = 'Superadmins can view MCP tool calls'
+  ) THEN
+    CREATE POLICY "Superadmins can view MCP tool calls"
+    ON mcp_tool_calls FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND is_superadmin = true
+      )
+    );
+  END IF;
+END $$;
+
+-- ============================================
+-- 2. FUNCTION: Per-tool error rates and latency percentiles
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_mcp_tool_call_stats(
+  p_since timestamptz,
+  p_workspace_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  tool_name text,
+  total_calls bigint,
+  error_calls bigint,
+  denied_calls bigint,
+  error_rate numeric,
+  p50_latency_ms integer,
+  p95_latency_ms integer,
+  p99_latency_ms integer,
+  last_called_at timestamptz
+) AS $$
+  SELECT
+    c.tool_name,
+    COUNT(*) AS total_calls,
+    COUNT(*) FILTER (WHERE c.outcome IN ('error', 'invalid')) AS error_calls,
+    COUNT(*) FILTER (WHERE c.outcome = 'denied') AS denied_calls,
+    ROUND(COUNT(*) FILTER (WHERE c.outcome IN ('error', 'invalid'))::numeric / COUNT(*) * 100, 2) AS error_rate,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY c.latency_ms)::integer AS p50_latency_ms,
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY c.latency_ms)::integer AS p95_latency_ms,
+    percentile_cont(0.99) WITHIN GROUP (ORDER BY c.latency_ms)::integer AS p99_latency_ms,
+    MAX(c.created_at) AS last_called_at
+  FROM mcp_tool_calls c
+  WHERE c.created_at >= p_since
+    AND (p_workspace_id IS NULL OR c.workspace_id = p_workspace_id)
+  GROUP BY c.tool_name
+  ORDER BY total_calls DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,24 @@
+-- 121_mcp_integration_health.sql
+-- Connection health for external MCP integrations used by agents
+
+-- ============================================
+-- 1. HEALTH COLUMNS
+-- ============================================
+
+ALTER TABLE mcp_integrations
+  ADD COLUMN IF NOT EXISTS health_status TEXT NOT NULL DEFAULT 'unknown'
+    CHECK (health_status IN ('unknown', 'healthy', 'unhealthy')),
+  ADD COLUMN IF NOT EXISTS last_health_check_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_health_error TEXT,
+  ADD COLUMN IF NOT EXISTS tool_count INTEGER;
+
+COMMENT ON COLUMN mcp_integrations.health_status IS 'Result of the last connection by agent-server (health check or agent run)';
+COMMENT ON COLUMN mcp_integrations.tool_count IS 'Number of tools the server listed on its last successful connection';
+COMMENT ON COLUMN mcp_integrations.auth_config IS 'Auth settings - secret values (api_key, password, access_token, ...) are encrypted with ENCRYPTION_KEY';
+
+-- ============================================
+-- 2. AGENT ASSIGNMENT LOOKUP
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_ai_agent_mcp_integrations_integration
+  ON ai_agent_mcp_integrations(mcp_integration_id);
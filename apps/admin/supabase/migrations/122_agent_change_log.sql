@@ -0,0 +1,229 @@
+-- 122_agent_change_log.sql
+-- Before/after snapshots of rows changed by agents' MCP tool calls, so an agent run can be undone
+
+-- ============================================
+-- 1. CHANGE LOG
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS agent_change_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The run the change belongs to: a chat conversation or a scheduled execution
+  conversation_id UUID,
+  execution_id UUID,
+  workspace_id UUID,
+  agent_id UUID,
+  tool_name TEXT NOT NULL,
+  tool_call_id TEXT,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  before JSONB,
+  after JSONB,
+  reverted_at TIMESTAMPTZ,
+  reverted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  CHECK (conversation_id IS NOT NULL OR execution_id IS NOT NULL)
+);
+
+COMMENT ON TABLE agent_change_log IS 'One row per row inserted, updated or deleted by an agent tool call, written by record_agent_change()';
+COMMENT ON COLUMN agent_change_log.tool_call_id IS 'The model''s tool call ID, matching the tool call shown in the conversation';
+COMMENT ON COLUMN agent_change_log.before IS 'Row before the change (NULL for inserts)';
+COMMENT ON COLUMN agent_change_log.after IS 'Row after the change (NULL for deletes)';
+
+CREATE INDEX IF NOT EXISTS idx_agent_change_log_conversation ON agent_change_log(conversation_id, created_at DESC) WHERE conversation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_agent_change_log_execution ON agent_change_log(execution_id, created_at DESC) WHERE execution_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_agent_change_log_record ON agent_change_log(table_name, record_id);
+
+-- RLS: written by triggers and reverted through the API with the service role
+ALTER TABLE agent_change_log ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'agent_change_log' AND policyname = 'Workspace members can view agent changes'
+  ) THEN
+    CREATE POLICY "Workspace members can view agent changes"
+    ON agent_change_log FOR SELECT
+    TO authenticated
+    USING (
+      workspace_id IN (
+        SELECT workspace_id FROM workspace_members WHERE profile_id = auth.uid()
+      )
+    );
+  END IF;
+END $$;
+
+-- ============================================
+-- 2. TRIGGER: Record changes made during an agent run
+-- ============================================
+
+-- The MCP server tags database requests made by write tools during an agent run with
+-- x-agent-* headers, which PostgREST exposes as request.headers. Other writes are ignored.
+CREATE OR REPLACE FUNCTION record_agent_change()
+RETURNS trigger AS $$
+DECLARE
+  v_headers jsonb;
+  v_conversation_id text;
+  v_execution_id text;
+  v_workspace_id text;
+  v_agent_id text;
+  v_before jsonb;
+  v_after jsonb;
+  v_uuid_pattern constant text := '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
+BEGIN
+  v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  v_conversation_id := v_headers ->> 'x-agent-conversation-id';
+  v_execution_id := v_headers ->> 'x-agent-execution-id';
+
+  IF v_conversation_id !~ v_uuid_pattern THEN v_conversation_id := NULL; END IF;
+  IF v_execution_id !~ v_uuid_pattern THEN v_execution_id := NULL; END IF;
+  IF v_conversation_id IS NULL AND v_execution_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_before := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_after := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+
+  -- Updates that didn't change anything have nothing to undo
+  IF TG_OP = 'UPDATE' AND v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  v_workspace_id := COALESCE(v_headers ->> 'x-agent-workspace-id', COALESCE(v_after, v_before) ->> 'workspace_id');
+  v_agent_id := v_headers ->> 'x-agent-id';
+
+  INSERT INTO agent_change_log (
+    conversation_id, execution_id, workspace_id, agent_id, tool_name, tool_call_id,
+    table_name, record_id, operation, before, after
+  ) VALUES (
+    v_conversation_id::uuid,
+    v_execution_id::uuid,
+    CASE WHEN v_workspace_id ~ v_uuid_pattern THEN v_workspace_id::uuid END,
+    CASE WHEN v_agent_id ~ v_uuid_pattern THEN v_agent_id::uuid END,
+    COALESCE(v_headers ->> 'x-agent-tool-name', 'unknown'),
+    v_headers ->> 'x-agent-tool-call-id',
+    TG_TABLE_NAME,
+    (COALESCE(v_after, v_before) ->> 'id')::uuid,
+    TG_OP,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tables agents can change through MCP tools (skipped if a table doesn't exist)
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'accounts', 'transactions', 'categories', 'budgets', 'subscriptions', 'recurring_rules',
+    'leads', 'contacts', 'lead_opportunities', 'lead_tasks', 'activities',
+    'projects', 'tasks', 'milestones',
+    'knowledge_pages', 'knowledge_whiteboards',
+    'goals', 'kpi_inputs'
+  ]
+  LOOP
+    IF to_regclass('public.' || v_table) IS NOT NULL THEN
+      EXECUTE format('DROP TRIGGER IF EXISTS record_agent_change ON %I', v_table);
+      EXECUTE format(
+        'CREATE TRIGGER record_agent_change AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_agent_change()',
+        v_table
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- ============================================
+-- 3. FUNCTION: Revert one change
+-- ============================================
+
+-- Restores the row to its state before the change:
+--   INSERT -> delete the row, UPDATE -> restore the changed columns, DELETE -> re-insert the row
+-- Returns status 'reverted', 'conflict' (the row changed again since - pass p_force to revert anyway),
+-- 'already_reverted', 'not_found' or 'failed' with the error.
+-- Revert a run's changes newest first so each change sees the state the next one left.
+CREATE OR REPLACE FUNCTION revert_agent_change(
+  p_change_id uuid,
+  p_reverted_by uuid,
+  p_force boolean DEFAULT false
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_change agent_change_log%ROWTYPE;
+  v_current jsonb;
+  v_columns text[];
+  v_set text;
+BEGIN
+  SELECT * INTO v_change FROM agent_change_log WHERE id = p_change_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+  IF v_change.reverted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'already_reverted');
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = $1', v_change.table_name)
+    INTO v_current
+    USING v_change.record_id;
+
+  BEGIN
+    IF v_change.operation = 'INSERT' THEN
+      -- Already gone is as good as reverted
+      IF v_current IS NOT NULL THEN
+        IF NOT p_force AND (v_current - 'updated_at') <> (v_change.after - 'updated_at') THEN
+          RETURN jsonb_build_object('status', 'conflict');
+        END IF;
+        EXECUTE format('DELETE FROM %I WHERE id = $1', v_change.table_name) USING v_change.record_id;
+      END IF;
+
+    ELSIF v_change.operation = 'UPDATE' THEN
+      IF v_current IS NULL THEN
+        RETURN jsonb_build_object('status', 'conflict', 'error', 'Record has been deleted');
+      END IF;
+
+      -- Only the columns this change touched are restored
+      SELECT array_agg(a.key) INTO v_columns
+      FROM jsonb_each(v_change.after) a
+      WHERE a.key NOT IN ('id', 'updated_at')
+        AND a.value IS DISTINCT FROM v_change.before -> a.key;
+
+      IF v_columns IS NOT NULL THEN
+        IF NOT p_force AND EXISTS (
+          SELECT 1 FROM unnest(v_columns) c WHERE v_current -> c IS DISTINCT FROM v_change.after -> c
+        ) THEN
+          RETURN jsonb_build_object('status', 'conflict');
+        END IF;
+
+        SELECT string_agg(format('%I = r.%I', c, c), ', ') INTO v_set FROM unnest(v_columns) c;
+        EXECUTE format(
+          'UPDATE %I t SET %s FROM jsonb_populate_record(NULL::%I, $1) r WHERE t.id = $2',
+          v_change.table_name, v_set, v_change.table_name
+        ) USING v_change.before, v_change.record_id;
+      END IF;
+
+    ELSE
+      IF v_current IS NOT NULL THEN
+        RETURN jsonb_build_object('status', 'conflict', 'error', 'Record already exists');
+      END IF;
+      EXECUTE format(
+        'INSERT INTO %I SELECT * FROM jsonb_populate_record(NULL::%I, $1)',
+        v_change.table_name, v_change.table_name
+      ) USING v_change.before;
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    RETURN jsonb_build_object('status', 'failed', 'error', SQLERRM);
+  END;
+
+  UPDATE agent_change_log
+  SET reverted_at = NOW(), reverted_by = p_reverted_by
+  WHERE id = p_change_id;
+
+  RETURN jsonb_build_object('status', 'reverted');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role may revert - the API checks the caller owns the run first
+REVOKE EXECUTE ON FUNCTION revert_agent_change(uuid, uuid, boolean) FROM PUBLIC, anon, authenticated;
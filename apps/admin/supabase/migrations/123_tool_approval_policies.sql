@@ -0,0 +1,57 @@
+-- 123_tool_approval_policies.sql
+-- Per-tool approval policies: in live chat, agent-server pauses matching tool calls until the user approves them
+
+-- ============================================
+-- 1. POLICY COLUMNS
+-- ============================================
+
+ALTER TABLE agent_tools
+  ADD COLUMN IF NOT EXISTS approval_policy TEXT NOT NULL DEFAULT 'never'
+    CHECK (approval_policy IN ('never', 'always', 'threshold')),
+  ADD COLUMN IF NOT EXISTS approval_threshold_field TEXT,
+  ADD COLUMN IF NOT EXISTS approval_threshold NUMERIC;
+
+ALTER TABLE agent_tools
+  DROP CONSTRAINT IF EXISTS agent_tools_approval_threshold_check;
+
+ALTER TABLE agent_tools
+  ADD CONSTRAINT agent_tools_approval_threshold_check CHECK (
+    approval_policy <> 'threshold'
+    OR (approval_threshold_field IS NOT NULL AND approval_threshold IS NOT NULL)
+  );
+
+COMMENT ON COLUMN agent_tools.approval_policy IS 'never: run without asking; always: ask the user first; threshold: ask when |input[approval_threshold_field]| > approval_threshold';
+COMMENT ON COLUMN agent_tools.approval_threshold_field IS 'Numeric tool input compared against approval_threshold (e.g. amount)';
+
+-- ============================================
+-- 2. DEFAULT POLICIES FOR SENSITIVE TOOLS
+-- ============================================
+
+-- Contacting people outside the app and managing workspace membership
+UPDATE agent_tools
+SET approval_policy = 'always'
+WHERE name IN (
+  'sms_send',
+  'call_initiate',
+  'workspace_member_invite',
+  'workspace_member_remove'
+)
+AND approval_policy = 'never';
+
+-- Deleting records
+UPDATE agent_tools
+SET approval_policy = 'always'
+WHERE name LIKE '%\_delete' ESCAPE '\'
+AND approval_policy = 'never';
+
+-- Large money movements
+UPDATE agent_tools
+SET approval_policy = 'threshold',
+    approval_threshold_field = 'amount',
+    approval_threshold = 1000
+WHERE name IN (
+  'transaction_create',
+  'transaction_update',
+  'transaction_create_transfer'
+)
+AND approval_policy = 'never';
@@ -0,0 +1,65 @@
+-- 124_agent_eval_suites.sql
+-- Saved evaluation suites per agent. Required suites must pass against a version before it can be published
+
+-- ============================================
+-- 1. EVAL SUITES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS agent_eval_suites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES ai_agents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- [{ id, name, turns: string[], mock_responses: { tool: response }, assertions: [{ type, ... }] }]
+  cases JSONB NOT NULL DEFAULT '[]',
+  is_required BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE agent_eval_suites IS 'Scripted conversations with mocked tool responses and assertions, run by agent-server against an agent version';
+COMMENT ON COLUMN agent_eval_suites.is_required IS 'Required suites must have a passing run for a version before it can be published';
+COMMENT ON COLUMN agent_eval_suites.updated_at IS 'Runs made before the suite was last edited no longer count towards publishing';
+
+CREATE INDEX IF NOT EXISTS idx_agent_eval_suites_agent ON agent_eval_suites(agent_id);
+
+-- ============================================
+-- 2. EVAL RUNS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS agent_eval_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  suite_id UUID NOT NULL REFERENCES agent_eval_suites(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES ai_agents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('passed', 'failed', 'error')),
+  -- The suite definition this run tested
+  suite_updated_at TIMESTAMPTZ NOT NULL,
+  -- [{ case_id, case_name, passed, response, tool_calls, assertions: [{ assertion, passed, detail }], cost_usd, tokens, error }]
+  results JSONB NOT NULL DEFAULT '[]',
+  passed_cases INTEGER NOT NULL DEFAULT 0,
+  failed_cases INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  error TEXT,
+  run_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_eval_runs_suite_version ON agent_eval_runs(suite_id, version, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_eval_runs_agent_version ON agent_eval_runs(agent_id, version);
+
+-- ============================================
+-- 3. RLS
+-- ============================================
+
+ALTER TABLE agent_eval_suites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_eval_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Superadmins can manage agent_eval_suites" ON agent_eval_suites;
+CREATE POLICY "Superadmins can manage agent_eval_suites" ON agent_eval_suites FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_superadmin = true));
+
+DROP POLICY IF EXISTS "Superadmins can manage agent_eval_runs" ON agent_eval_runs;
+CREATE POLICY "Superadmins can manage agent_eval_runs" ON agent_eval_runs FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_superadmin = true));
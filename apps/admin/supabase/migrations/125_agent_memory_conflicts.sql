@@ -0,0 +1,57 @@
+-- 125_agent_memory_conflicts.sql
+-- Contradiction detection for agent memory. A new fact that clearly replaces an older one
+-- supersedes it; conflicts the model can't settle are queued for admin review
+
+-- ============================================
+-- 1. SUPERSESSION LINEAGE
+-- ============================================
+
+ALTER TABLE agent_memory_facts
+  ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS supersession_reason TEXT;
+
+COMMENT ON COLUMN agent_memory_facts.superseded_by IS 'The fact that replaced this one. Superseded facts are inactive and never recalled';
+COMMENT ON COLUMN agent_memory_facts.supersession_reason IS 'Why this fact was replaced, from conflict detection or an admin resolution';
+
+-- Deleting the newer fact shouldn't be blocked by the lineage link
+ALTER TABLE agent_memory_facts DROP CONSTRAINT IF EXISTS agent_memory_facts_superseded_by_fkey;
+ALTER TABLE agent_memory_facts
+  ADD CONSTRAINT agent_memory_facts_superseded_by_fkey
+  FOREIGN KEY (superseded_by) REFERENCES agent_memory_facts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_facts_superseded_by ON agent_memory_facts(superseded_by) WHERE superseded_by IS NOT NULL;
+
+-- ============================================
+-- 2. CONFLICT REVIEW QUEUE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS agent_memory_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  new_fact_id UUID NOT NULL REFERENCES agent_memory_facts(id) ON DELETE CASCADE,
+  existing_fact_id UUID NOT NULL REFERENCES agent_memory_facts(id) ON DELETE CASCADE,
+  similarity FLOAT NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved')),
+  resolution TEXT CHECK (resolution IN ('keep_new', 'keep_existing', 'keep_both')),
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(new_fact_id, existing_fact_id)
+);
+
+COMMENT ON TABLE agent_memory_conflicts IS 'Pairs of similar facts that may contradict each other. Both stay active until an admin resolves the conflict';
+
+CREATE INDEX IF NOT EXISTS idx_memory_conflicts_pending ON agent_memory_conflicts(workspace_id, created_at DESC)
+  WHERE status = 'pending';
+
+-- ============================================
+-- 3. RLS
+-- ============================================
+
+ALTER TABLE agent_memory_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Superadmins can manage memory conflicts" ON agent_memory_conflicts;
+CREATE POLICY "Superadmins can manage memory conflicts" ON agent_memory_conflicts FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_superadmin = true));
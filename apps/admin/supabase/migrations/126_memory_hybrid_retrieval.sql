@@ -0,0 +1,219 @@
+-- 126_memory_hybrid_retrieval.sql
+-- Hybrid memory retrieval: full-text search alongside vector similarity, and
+-- per-workspace embedding providers. Vectors are only compared with vectors from
+-- the same embedding model, so each fact and summary records the model that made it
+
+-- ============================================
+-- 1. EMBEDDING MODEL + FULL-TEXT COLUMNS
+-- ============================================
+
+ALTER TABLE agent_memory_facts
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  -- 'simple' keeps invoice numbers, SKUs and names as-is instead of stemming them
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+ALTER TABLE agent_memory_summaries
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', title || ' ' || content)) STORED;
+
+COMMENT ON COLUMN agent_memory_facts.embedding_model IS 'Provider and model that produced the embedding, e.g. openai:text-embedding-3-small';
+COMMENT ON COLUMN agent_memory_summaries.embedding_model IS 'Provider and model that produced the embedding, e.g. openai:text-embedding-3-small';
+
+-- Everything embedded so far came from the hard-coded OpenAI model
+UPDATE agent_memory_facts SET embedding_model = 'openai:text-embedding-3-small'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+UPDATE agent_memory_summaries SET embedding_model = 'openai:text-embedding-3-small'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_facts_search_vector ON agent_memory_facts USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_summaries_search_vector ON agent_memory_summaries USING GIN (search_vector);
+
+-- ============================================
+-- 2. WORKSPACE EMBEDDING CONFIG
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS workspace_embedding_configs (
+  workspace_id UUID PRIMARY KEY REFERENCES workspaces(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('openai', 'openai_compatible', 'local')),
+  model TEXT,
+  base_url TEXT,
+  api_key_encrypted TEXT,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE workspace_embedding_configs IS 'Embedding provider for a workspace''s memory. Workspaces without a row use the server default';
+
+ALTER TABLE workspace_embedding_configs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Superadmins can manage workspace embedding configs" ON workspace_embedding_configs;
+CREATE POLICY "Superadmins can manage workspace embedding configs" ON workspace_embedding_configs FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_superadmin = true));
+
+-- ============================================
+-- 3. MODEL-AWARE FACT MATCHING
+-- ============================================
+
+DROP FUNCTION IF EXISTS match_memory_facts(vector, UUID, UUID, TEXT, INT, FLOAT);
+
+CREATE OR REPLACE FUNCTION match_memory_facts(
+  query_embedding vector(1536),
+  p_workspace_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_scope TEXT DEFAULT NULL,
+  match_count INT DEFAULT 10,
+  similarity_threshold FLOAT DEFAULT 0.7,
+  p_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  fact_type TEXT,
+  scope TEXT,
+  importance FLOAT,
+  similarity FLOAT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.content,
+    f.fact_type,
+    f.scope,
+    f.importance,
+    1 - (f.embedding <=> query_embedding) as similarity
+  FROM agent_memory_facts f
+  WHERE f.workspace_id = p_workspace_id
+    AND f.is_active = TRUE
+    AND f.embedding IS NOT NULL
+    AND (p_embedding_model IS NULL OR f.embedding_model = p_embedding_model)
+    AND (p_scope IS NULL OR f.scope = p_scope)
+    AND (
+      f.scope = 'workspace'
+      OR (f.scope = 'user' AND (p_user_id IS NULL OR f.user_id = p_user_id))
+      OR (f.scope = 'agent')
+    )
+    AND 1 - (f.embedding <=> query_embedding) > similarity_threshold
+  ORDER BY
+    (1 - (f.embedding <=> query_embedding)) * f.importance * f.decay_factor DESC
+  LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 4. HYBRID CANDIDATE SEARCH
+-- ============================================
+
+-- Returns the top vector matches and the top keyword matches for facts and summaries,
+-- each with both scores. Ranking and fusion happen in the app (lib/memory-retrieval.ts).
+-- query_embedding may be NULL, e.g. when the embedding provider is unavailable
+CREATE OR REPLACE FUNCTION search_memory_candidates(
+  query_text TEXT,
+  query_embedding vector(1536),
+  p_workspace_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL,
+  candidate_count INT DEFAULT 30
+)
+RETURNS TABLE (
+  source_type TEXT,
+  id UUID,
+  similarity FLOAT,
+  keyword_rank FLOAT,
+  importance FLOAT,
+  decay_factor FLOAT,
+  created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  -- Match any query term rather than all of them; ranking rewards documents matching more
+  keyword_query tsquery := NULLIF(replace(plainto_tsquery('simple', query_text)::TEXT, ' & ', ' | '), '')::tsquery;
+BEGIN
+  RETURN QUERY
+  WITH fact_pool AS (
+    SELECT f.*
+    FROM agent_memory_facts f
+    WHERE f.workspace_id = p_workspace_id
+      AND f.is_active = TRUE
+      AND (f.scope = 'workspace' OR f.user_id = p_user_id)
+  ),
+  summary_pool AS (
+    SELECT s.*
+    FROM agent_memory_summaries s
+    WHERE s.workspace_id = p_workspace_id
+      AND (s.scope = 'workspace' OR s.user_id = p_user_id)
+  ),
+  fact_ids AS (
+    (
+      SELECT f.id FROM fact_pool f
+      WHERE query_embedding IS NOT NULL
+        AND f.embedding IS NOT NULL
+        AND (p_embedding_model IS NULL OR f.embedding_model = p_embedding_model)
+      ORDER BY f.embedding <=> query_embedding
+      LIMIT candidate_count
+    )
+    UNION
+    (
+      SELECT f.id FROM fact_pool f
+      WHERE keyword_query IS NOT NULL AND f.search_vector @@ keyword_query
+      ORDER BY ts_rank_cd(f.search_vector, keyword_query) DESC
+      LIMIT candidate_count
+    )
+  ),
+  summary_ids AS (
+    (
+      SELECT s.id FROM summary_pool s
+      WHERE query_embedding IS NOT NULL
+        AND s.embedding IS NOT NULL
+        AND (p_embedding_model IS NULL OR s.embedding_model = p_embedding_model)
+      ORDER BY s.embedding <=> query_embedding
+      LIMIT candidate_count / 2
+    )
+    UNION
+    (
+      SELECT s.id FROM summary_pool s
+      WHERE keyword_query IS NOT NULL AND s.search_vector @@ keyword_query
+      ORDER BY ts_rank_cd(s.search_vector, keyword_query) DESC
+      LIMIT candidate_count / 2
+    )
+  )
+  SELECT
+    'fact'::TEXT,
+    f.id,
+    CASE
+      WHEN query_embedding IS NOT NULL AND f.embedding IS NOT NULL
+        AND (p_embedding_model IS NULL OR f.embedding_model = p_embedding_model)
+      THEN 1 - (f.embedding <=> query_embedding)
+    END,
+    CASE
+      WHEN keyword_query IS NOT NULL AND f.search_vector @@ keyword_query
+      THEN ts_rank_cd(f.search_vector, keyword_query)::FLOAT
+    END,
+    f.importance,
+    f.decay_factor,
+    f.created_at
+  FROM agent_memory_facts f
+  WHERE f.id IN (SELECT fact_ids.id FROM fact_ids)
+  UNION ALL
+  SELECT
+    'summary'::TEXT,
+    s.id,
+    CASE
+      WHEN query_embedding IS NOT NULL AND s.embedding IS NOT NULL
+        AND (p_embedding_model IS NULL OR s.embedding_model = p_embedding_model)
+      THEN 1 - (s.embedding <=> query_embedding)
+    END,
+    CASE
+      WHEN keyword_query IS NOT NULL AND s.search_vector @@ keyword_query
+      THEN ts_rank_cd(s.search_vector, keyword_query)::FLOAT
+    END,
+    NULL::FLOAT,
+    NULL::FLOAT,
+    s.last_consolidated_at
+  FROM agent_memory_summaries s
+  WHERE s.id IN (SELECT summary_ids.id FROM summary_ids);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,29 @@
+-- 127_agent_tool_approvals.sql
+-- Pending tool call approvals from live agent chat. The user's answer can reach any
+-- agent-server instance, so approvals are stored here instead of in the streaming process
+
+-- ============================================
+-- 1. APPROVALS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS agent_tool_approvals (
+  id UUID PRIMARY KEY,
+  -- The chat's user - the only one who may answer
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  tool_name TEXT NOT NULL,
+  tool_call_id TEXT,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'declined', 'timeout', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE agent_tool_approvals IS 'Tool calls paused for approval in live chat. agent-server inserts a pending row, POST /agent-chat/approvals/:id answers it, and the streaming instance polls for the answer';
+COMMENT ON COLUMN agent_tool_approvals.status IS 'pending until the user answers (approved/declined), the wait times out (timeout) or the chat disconnects (cancelled)';
+
+CREATE INDEX IF NOT EXISTS idx_agent_tool_approvals_pending ON agent_tool_approvals(expires_at) WHERE status = 'pending';
+
+-- RLS: only agent-server reads and writes approvals, with the service role
+ALTER TABLE agent_tool_approvals ENABLE ROW LEVEL SECURITY;
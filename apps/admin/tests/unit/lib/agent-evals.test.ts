@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import { checkEvalResults, computeEvalGate, validateEvalCases } from '@/lib/agent-evals'
+import type { AgentEvalRun, AgentEvalSuite, EvalCase } from '@/types/agents'
+
+const evalCase = (id: string): EvalCase => ({
+  id,
+  name: `Case ${id}`,
+  turns: ['Show me overdue invoices'],
+  assertions: [{ type: 'tool_called', tool: 'invoice_list' }]
+})
+
+function suite(overrides: Partial<AgentEvalSuite> = {}): AgentEvalSuite {
+  return {
+    id: 'suite-1',
+    agent_id: 'agent-1',
+    name: 'Invoices',
+    description: null,
+    cases: [evalCase('a'), evalCase('b')],
+    is_required: true,
+    created_by: null,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+function run(version: number, passed: Record<string, boolean>, overrides: Partial<AgentEvalRun> = {}): AgentEvalRun {
+  const results = Object.entries(passed).map(([caseId, casePassed]) => ({
+    case_id: caseId,
+    case_name: `Case ${caseId}`,
+    passed: casePassed,
+    response: '',
+    tool_calls: [],
+    assertions: [],
+    cost_usd: 0.01,
+    tokens: 1000
+  }))
+  const passedCases = results.filter(r => r.passed).length
+
+  return {
+    id: `run-${version}`,
+    suite_id: 'suite-1',
+    agent_id: 'agent-1',
+    version,
+    status: passedCases === results.length ? 'passed' : 'failed',
+    suite_updated_at: '2026-10-01T00:00:00Z',
+    results,
+    passed_cases: passedCases,
+    failed_cases: results.length - passedCases,
+    cost_usd: 0.02,
+    error: null,
+    run_by: null,
+    created_at: '2026-10-02T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('agent-evals', () => {
+  describe('validateEvalCases', () => {
+    it('accepts valid cases', () => {
+      expect(validateEvalCases([
+        {
+          ...evalCase('a'),
+          mock_responses: { invoice_list: { invoices: [] } },
+          assertions: [
+            { type: 'tool_called', tool: 'invoice_list', args: { status: '/overdue/i' } },
+            { type: 'response_omits', text: 'Acme' },
+            { type: 'no_hallucination' },
+            { type: 'max_cost_usd', value: 0.05 }
+          ]
+        }
+      ])).toBeNull()
+    })
+
+    it('rejects cases without turns or assertions', () => {
+      expect(validateEvalCases([{ ...evalCase('a'), turns: [] }])).toBe('Case 1 needs at least one user turn')
+      expect(validateEvalCases([{ ...evalCase('a'), assertions: [] }])).toBe('Case 1 needs at least one assertion')
+    })
+
+    it('rejects duplicate ids and malformed assertions', () => {
+      expect(validateEvalCases([evalCase('a'), evalCase('a')])).toBe('Case 2 has a duplicate id')
+      expect(validateEvalCases([{ ...evalCase('a'), assertions: [{ type: 'tool_called' }] }]))
+        .toBe('Case 1: tool_called needs a tool name')
+      expect(validateEvalCases([{ ...evalCase('a'), assertions: [{ type: 'max_tokens', value: 0 }] }]))
+        .toBe('Case 1: max_tokens needs a positive value')
+      expect(validateEvalCases([{ ...evalCase('a'), assertions: [{ type: 'sounds_friendly' }] }]))
+        .toBe('Case 1 has an unknown assertion type: sounds_friendly')
+    })
+  })
+
+  describe('checkEvalResults', () => {
+    it('accepts a result for every case', () => {
+      expect(checkEvalResults(suite(), run(1, { a: true, b: false }).results)).toBeNull()
+    })
+
+    it('treats missing results as an error, including an empty response', () => {
+      expect(checkEvalResults(suite(), [])).toBe('Agent server returned no result for 2 of 2 cases')
+      expect(checkEvalResults(suite(), run(1, { a: true }).results)).toBe('Agent server returned no result for 1 of 2 cases')
+    })
+  })
+
+  describe('computeEvalGate', () => {
+    it('blocks publishing until required suites have a passing run', () => {
+      expect(computeEvalGate(3, null, [suite()], []).blocking).toEqual([
+        { suite_id: 'suite-1', suite_name: 'Invoices', reason: 'not_run' }
+      ])
+      expect(computeEvalGate(3, null, [suite()], [run(3, { a: true, b: false })]).blocking).toEqual([
+        { suite_id: 'suite-1', suite_name: 'Invoices', reason: 'failed' }
+      ])
+      expect(computeEvalGate(3, null, [suite()], [run(3, { a: true, b: true })]).blocking).toEqual([])
+    })
+
+    it('uses the latest run for the version', () => {
+      const runs = [
+        run(3, { a: true, b: true }, { id: 'older', created_at: '2026-10-02T00:00:00Z' }),
+        run(3, { a: false, b: true }, { id: 'newer', created_at: '2026-10-03T00:00:00Z' })
+      ]
+      const gate = computeEvalGate(3, null, [suite()], runs)
+
+      expect(gate.runs.map(r => r.id)).toEqual(['newer'])
+      expect(gate.blocking[0].reason).toBe('failed')
+    })
+
+    it('ignores runs made before the suite was edited', () => {
+      const gate = computeEvalGate(
+        3,
+        null,
+        [suite({ updated_at: '2026-10-05T00:00:00Z' })],
+        [run(3, { a: true, b: true })]
+      )
+      expect(gate.blocking).toEqual([{ suite_id: 'suite-1', suite_name: 'Invoices', reason: 'outdated' }])
+    })
+
+    it("doesn't block on optional or empty suites", () => {
+      const gate = computeEvalGate(3, null, [suite({ is_required: false }), suite({ id: 'suite-2', cases: [] })], [])
+      expect(gate.blocking).toEqual([])
+    })
+
+    it('diffs each case against the published version', () => {
+      const gate = computeEvalGate(
+        3,
+        2,
+        [suite({ cases: [evalCase('a'), evalCase('b'), evalCase('c'), evalCase('d')] })],
+        [
+          run(2, { a: true, b: false, c: true }),
+          run(3, { a: false, b: true, c: true, d: true })
+        ]
+      )
+
+      expect(gate.diff.map(d => [d.case_id, d.previous, d.current, d.change])).toEqual([
+        ['a', true, false, 'regressed'],
+        ['b', false, true, 'fixed'],
+        ['c', true, true, 'unchanged'],
+        ['d', null, true, 'new']
+      ])
+    })
+  })
+})
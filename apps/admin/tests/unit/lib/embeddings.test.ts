@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { cosineSimilarity, createEmbeddingProvider, hashEmbedding } from '@/lib/embeddings'
+
+describe('embeddings', () => {
+  describe('hashEmbedding', () => {
+    it('is deterministic and normalized', () => {
+      const embedding = hashEmbedding('Invoice INV-104 for Northwind Traders')
+
+      expect(embedding).toHaveLength(1536)
+      expect(hashEmbedding('Invoice INV-104 for Northwind Traders')).toEqual(embedding)
+      expect(cosineSimilarity(embedding, embedding)).toBeCloseTo(1)
+    })
+
+    it('scores texts sharing words as more similar', () => {
+      const query = hashEmbedding('fiscal year start')
+      const related = hashEmbedding('Our fiscal year starts in April')
+      const unrelated = hashEmbedding('Priya prefers Slack over email')
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated))
+    })
+
+    it('gives empty text a usable vector', () => {
+      expect(cosineSimilarity(hashEmbedding(''), hashEmbedding(''))).toBe(1)
+    })
+  })
+
+  describe('createEmbeddingProvider', () => {
+    it('embeds locally without an API key', async () => {
+      const provider = createEmbeddingProvider({ provider: 'local' })
+
+      expect(provider.model).toBe('local:hash-v1')
+      expect(await provider.embed(['a', 'b'])).toEqual([hashEmbedding('a'), hashEmbedding('b')])
+    })
+
+    it('qualifies model names by provider', () => {
+      expect(createEmbeddingProvider({ provider: 'openai' }).model).toBe('openai:text-embedding-3-small')
+      expect(createEmbeddingProvider({
+        provider: 'openai_compatible',
+        model: 'nomic-embed-text',
+        baseUrl: 'http://localhost:11434/v1'
+      }).model).toBe('openai_compatible:nomic-embed-text')
+    })
+
+    it('requires a model and base URL for OpenAI-compatible providers', () => {
+      expect(() => createEmbeddingProvider({ provider: 'openai_compatible', baseUrl: 'http://localhost:11434/v1' }))
+        .toThrow('An embedding model is required for OpenAI-compatible providers')
+      expect(() => createEmbeddingProvider({ provider: 'openai_compatible', model: 'nomic-embed-text' }))
+        .toThrow('A base URL is required for OpenAI-compatible providers')
+    })
+  })
+})
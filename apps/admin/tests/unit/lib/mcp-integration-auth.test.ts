@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { encryptAuthConfig, maskAuthConfig, maskIntegration, MASKED_SECRET } from '@/lib/mcp-integration-auth'
+import { decryptApiKey } from '@/lib/encryption'
+
+describe('mcp-integration-auth', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      ENCRYPTION_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+    }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe('encryptAuthConfig', () => {
+    it('encrypts secret fields and leaves the rest as-is', () => {
+      const result = encryptAuthConfig({ api_key: 'sk-test', header_name: 'X-API-Key' })
+
+      expect(result.header_name).toBe('X-API-Key')
+      expect(result.api_key).not.toBe('sk-test')
+      expect(decryptApiKey(result.api_key as string)).toBe('sk-test')
+    })
+
+    it('keeps the existing secret when the masked placeholder is sent back', () => {
+      const existing = encryptAuthConfig({ username: 'bot', password: 'hunter2' })
+      const result = encryptAuthConfig({ username: 'bot2', password: MASKED_SECRET }, existing)
+
+      expect(result.username).toBe('bot2')
+      expect(result.password).toBe(existing.password)
+    })
+
+    it('drops secrets that are cleared', () => {
+      const existing = encryptAuthConfig({ access_token: 'token' })
+      const result = encryptAuthConfig({ access_token: '' }, existing)
+
+      expect(result).not.toHaveProperty('access_token')
+    })
+  })
+
+  describe('maskAuthConfig', () => {
+    it('replaces stored secrets with the placeholder', () => {
+      expect(maskAuthConfig({ api_key: 'encrypted', env_var: 'API_KEY', password: '' })).toEqual({
+        api_key: MASKED_SECRET,
+        env_var: 'API_KEY',
+        password: '',
+      })
+    })
+
+    it('handles integrations without auth_config', () => {
+      expect(maskIntegration({ id: '1', auth_config: null })).toEqual({ id: '1', auth_config: {} })
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { parseFactRelations } from '@/lib/memory-conflicts'
+
+const candidateIds = ['fact-a', 'fact-b', 'fact-c']
+
+describe('memory-conflicts', () => {
+  describe('parseFactRelations', () => {
+    it('maps numbered facts back to their ids', () => {
+      const text = `Here is my analysis:
+[
+  { "fact": 1, "relation": "supersedes", "reason": "Fiscal year start moved from April to January" },
+  { "fact": 2, "relation": "unrelated", "reason": "Different subject" },
+  { "fact": 3, "relation": "conflicts", "reason": "Different owners for the same account" }
+]`
+
+      expect(parseFactRelations(text, candidateIds)).toEqual([
+        { factId: 'fact-a', relation: 'supersedes', reason: 'Fiscal year start moved from April to January' },
+        { factId: 'fact-b', relation: 'unrelated', reason: 'Different subject' },
+        { factId: 'fact-c', relation: 'conflicts', reason: 'Different owners for the same account' }
+      ])
+    })
+
+    it('drops unknown fact numbers, unknown relations and repeats', () => {
+      const text = JSON.stringify([
+        { fact: 0, relation: 'duplicate' },
+        { fact: 4, relation: 'duplicate' },
+        { fact: '1', relation: 'duplicate' },
+        { fact: 2, relation: 'contradicts' },
+        { fact: 3, relation: 'duplicate' },
+        { fact: 3, relation: 'supersedes' }
+      ])
+
+      expect(parseFactRelations(text, candidateIds)).toEqual([
+        { factId: 'fact-c', relation: 'duplicate', reason: '' }
+      ])
+    })
+
+    it('returns nothing for malformed output', () => {
+      expect(parseFactRelations('No existing facts are related.', candidateIds)).toEqual([])
+      expect(parseFactRelations('[{ "fact": 1, "relation": ', candidateIds)).toEqual([])
+    })
+  })
+})
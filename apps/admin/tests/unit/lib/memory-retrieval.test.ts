@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { rankMemoryCandidates } from '@/lib/memory-retrieval'
+import type { MemoryCandidate } from '@/types/memory'
+
+const now = new Date('2026-10-18T12:00:00Z')
+
+function candidate(id: string, overrides: Partial<MemoryCandidate> = {}): MemoryCandidate {
+  return {
+    source_type: 'fact',
+    id,
+    similarity: null,
+    keyword_rank: null,
+    importance: 0.5,
+    decay_factor: 1,
+    created_at: '2026-10-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('memory-retrieval', () => {
+  describe('rankMemoryCandidates', () => {
+    it('ranks an exact keyword match above closer semantic matches', () => {
+      const ranked = rankMemoryCandidates([
+        candidate('semantic-1', { similarity: 0.86 }),
+        candidate('semantic-2', { similarity: 0.84 }),
+        candidate('invoice', { similarity: 0.74, keyword_rank: 0.4 })
+      ], { similarityThreshold: 0.7, now })
+
+      expect(ranked.map(r => r.id)).toEqual(['invoice', 'semantic-1', 'semantic-2'])
+    })
+
+    it('keeps keyword matches below the similarity threshold and drops weak semantic ones', () => {
+      const ranked = rankMemoryCandidates([
+        candidate('weak', { similarity: 0.55 }),
+        candidate('sku', { similarity: 0.4, keyword_rank: 0.1 }),
+        candidate('unembedded', { keyword_rank: 0.2 })
+      ], { similarityThreshold: 0.7, now })
+
+      expect(ranked.map(r => r.id).sort()).toEqual(['sku', 'unembedded'])
+    })
+
+    it('breaks ties with importance and recency', () => {
+      const ranked = rankMemoryCandidates([
+        candidate('old', { keyword_rank: 0.3, created_at: '2025-10-18T00:00:00Z' }),
+        candidate('important', { keyword_rank: 0.3, importance: 0.9 }),
+        candidate('recent', { keyword_rank: 0.3, created_at: '2026-10-17T00:00:00Z' })
+      ], { similarityThreshold: 0.7, now, weights: { keyword: 1 } })
+
+      expect(ranked.map(r => r.id)).toEqual(['important', 'recent', 'old'])
+    })
+
+    it('ranks summaries separately without a similarity threshold', () => {
+      const ranked = rankMemoryCandidates([
+        candidate('fact', { similarity: 0.9 }),
+        candidate('summary', { source_type: 'summary', similarity: 0.3, importance: null, decay_factor: null })
+      ], { similarityThreshold: 0.7, now })
+
+      expect(ranked.find(r => r.id === 'summary')?.source_type).toBe('summary')
+      expect(ranked).toHaveLength(2)
+      expect(ranked.every(r => r.score > 0 && r.score <= 1)).toBe(true)
+    })
+  })
+})
@@ -40,6 +40,11 @@ vi.mock("../lib/supabase.js", () => ({
   authenticateRequest: vi.fn(),
 }))
 
+vi.mock("../lib/spend-budgets.js", () => ({
+  checkSpendBudget: vi.fn(async () => ({ allowed: true })),
+  recordAgentSpend: vi.fn(async () => 0),
+}))
+
 vi.mock("../lib/agent-session.js", () => ({
   loadSession: vi.fn(),
   updateSessionUsage: vi.fn(),
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for agent eval assertions
+ *
+ * Tests cover:
+ * - Matching tool call args, including nested objects and regex strings
+ * - Each assertion type passing and failing
+ * - Stopping a suite run once it's aborted
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import { generateText } from "ai"
+import { evaluateAssertions, matchesArgs, runEvalSuite, type EvalCase, type EvalTranscript } from "../lib/agent-evals"
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateText: vi.fn(),
+}))
+
+vi.mock("../lib/ai-providers.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/ai-providers")>()),
+  getModel: vi.fn(() => ({})),
+}))
+
+function transcript(overrides: Partial<EvalTranscript> = {}): EvalTranscript {
+  return {
+    turns: ["Show me what we spent on software last month"],
+    response: "You spent $1,284.50 on software last month, mostly on Figma and GitHub.",
+    toolCalls: [{ name: "transaction_list", input: { category: "Software", limit: 20, filters: { month: "2026-09" } } }],
+    toolCount: 5,
+    costUsd: 0.012,
+    tokens: 4200,
+    ...overrides,
+  }
+}
+
+describe("matchesArgs", () => {
+  const input = { category: "Software", limit: 20, filters: { month: "2026-09" } }
+
+  it("only compares the expected keys", () => {
+    expect(matchesArgs({ category: "Software" }, input)).toBe(true)
+    expect(matchesArgs({ category: "Travel" }, input)).toBe(false)
+    expect(matchesArgs({ limit: 50 }, input)).toBe(false)
+  })
+
+  it("matches nested objects recursively", () => {
+    expect(matchesArgs({ filters: { month: "2026-09" } }, input)).toBe(true)
+    expect(matchesArgs({ filters: { month: "2026-08" } }, input)).toBe(false)
+  })
+
+  it("treats /pattern/flags strings as regular expressions", () => {
+    expect(matchesArgs({ category: "/^soft/i" }, input)).toBe(true)
+    expect(matchesArgs({ limit: "/^\\d+$/" }, input)).toBe(true)
+    expect(matchesArgs({ missing: "/.*/" }, input)).toBe(false)
+  })
+})
+
+describe("evaluateAssertions", () => {
+  it("checks that a tool was called with matching args", () => {
+    const [matched, wrongArgs, notCalled] = evaluateAssertions(
+      [
+        { type: "tool_called", tool: "transaction_list", args: { category: "Software" } },
+        { type: "tool_called", tool: "transaction_list", args: { category: "Travel" } },
+        { type: "tool_called", tool: "budget_list" },
+      ],
+      transcript()
+    )
+
+    expect(matched.passed).toBe(true)
+    expect(wrongArgs.passed).toBe(false)
+    expect(wrongArgs.detail).toContain('"category":"Software"')
+    expect(notCalled).toMatchObject({ passed: false, detail: "Called transaction_list instead" })
+  })
+
+  it("checks that a tool was not called", () => {
+    const [notCalled, called] = evaluateAssertions(
+      [
+        { type: "tool_not_called", tool: "transaction_delete" },
+        { type: "tool_not_called", tool: "transaction_list" },
+      ],
+      transcript()
+    )
+
+    expect(notCalled.passed).toBe(true)
+    expect(called).toMatchObject({ passed: false, detail: "Called 1 time(s)" })
+  })
+
+  it("checks what the response mentions and omits, ignoring case", () => {
+    const results = evaluateAssertions(
+      [
+        { type: "response_mentions", text: "figma" },
+        { type: "response_mentions", text: "Slack" },
+        { type: "response_omits", text: "I don't have access" },
+        { type: "response_omits", text: "GITHUB" },
+      ],
+      transcript()
+    )
+
+    expect(results.map((result) => result.passed)).toEqual([true, false, true, false])
+  })
+
+  it("fails when the hallucination detector flags the response", () => {
+    const assertion = { type: "no_hallucination" } as const
+
+    expect(evaluateAssertions([assertion], transcript())[0].passed).toBe(true)
+    expect(evaluateAssertions([assertion], transcript({ toolCalls: [] }))[0].passed).toBe(false)
+  })
+
+  it("checks cost and token limits", () => {
+    const results = evaluateAssertions(
+      [
+        { type: "max_cost_usd", value: 0.05 },
+        { type: "max_cost_usd", value: 0.01 },
+        { type: "max_tokens", value: 5000 },
+        { type: "max_tokens", value: 4000 },
+      ],
+      transcript()
+    )
+
+    expect(results.map((result) => result.passed)).toEqual([true, false, true, false])
+    expect(results[1].detail).toBe("Cost $0.0120 (limit $0.01)")
+  })
+})
+
+describe("runEvalSuite", () => {
+  const evalCase = (id: string): EvalCase => ({ id, name: id, turns: ["Hi"], assertions: [] })
+  const config = { name: "Finance Agent", model: "sonnet", systemPrompt: "", tools: [] }
+
+  it("passes the abort signal to the model and doesn't start cases after an abort", async () => {
+    const controller = new AbortController()
+    vi.mocked(generateText).mockImplementationOnce((async () => {
+      controller.abort()
+      return { text: "Hello", response: { messages: [] }, totalUsage: { inputTokens: 10, outputTokens: 5 } }
+    }) as unknown as typeof generateText)
+
+    await expect(runEvalSuite(config, [evalCase("1"), evalCase("2")], controller.signal)).rejects.toThrow()
+    expect(generateText).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(generateText).mock.calls[0][0].abortSignal).toBe(controller.signal)
+  })
+})
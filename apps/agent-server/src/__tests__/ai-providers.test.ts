@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the AI provider registry
+ *
+ * Tests cover:
+ * - Provider-prefixed model names and provider inference
+ * - OpenAI-compatible providers, including self-hosted servers
+ * - Fallback chains: retrying on the next model, recording which model served each
+ *   request and giving up on aborts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import {
+  createFallbackModel,
+  getModel,
+  getServedModels,
+  inferProviderFromModel,
+  isProviderConfigured,
+  parseProviderPrefix,
+} from "../lib/ai-providers"
+
+type FallbackChain = Parameters<typeof createFallbackModel>[0]
+type Model = FallbackChain[number]["model"]
+type CallOptions = Parameters<Model["doGenerate"]>[0]
+
+function createFakeModel(modelId: string, doGenerate: () => Promise<unknown>): Model {
+  return {
+    specificationVersion: "v3",
+    provider: "fake",
+    modelId,
+    supportedUrls: {},
+    doGenerate: vi.fn(doGenerate),
+    doStream: vi.fn(doGenerate),
+  } as unknown as Model
+}
+
+const callOptions = { prompt: [] } as unknown as CallOptions
+
+describe("provider inference", () => {
+  it("honours an explicit provider prefix", () => {
+    expect(parseProviderPrefix("openai-compatible/qwen2.5:14b")).toEqual({
+      provider: "openai-compatible",
+      model: "qwen2.5:14b",
+    })
+    expect(parseProviderPrefix("meta-llama/Llama-3.3-70B-Instruct-Turbo")).toBeNull()
+    expect(inferProviderFromModel("openai-compatible/llama3.1")).toBe("openai-compatible")
+    expect(inferProviderFromModel("together/meta-llama/Llama-3.3-70B-Instruct-Turbo")).toBe("together")
+  })
+
+  it("infers the newly registered providers from model names", () => {
+    expect(inferProviderFromModel("mistral-large-latest")).toBe("mistral")
+    expect(inferProviderFromModel("deepseek-chat")).toBe("deepseek")
+    expect(inferProviderFromModel("sonar-pro")).toBe("perplexity")
+    expect(inferProviderFromModel("grok-4-fast")).toBe("xai")
+  })
+})
+
+describe("OpenAI-compatible providers", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL
+    delete process.env.GROQ_API_KEY
+  })
+
+  it("creates models for every declared provider", () => {
+    for (const provider of ["groq", "mistral", "together", "fireworks", "deepseek", "perplexity", "openai-compatible"]) {
+      expect(() => getModel(provider, "")).not.toThrow()
+    }
+  })
+
+  it("strips the provider prefix from the model name", () => {
+    const model = getModel("openai-compatible", "openai-compatible/qwen2.5:14b")
+    expect(model).toMatchObject({ modelId: "qwen2.5:14b" })
+  })
+
+  it("treats a self-hosted server as configured once its base URL is set", () => {
+    expect(isProviderConfigured("openai-compatible")).toBe(false)
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1"
+    expect(isProviderConfigured("openai-compatible")).toBe(true)
+  })
+
+  it("skips fallbacks whose provider isn't configured", () => {
+    getModel("anthropic", "sonnet", ["llama-3.3-70b-versatile"])
+    expect(console.warn).toHaveBeenCalledWith(
+      "[AI Providers] Skipping fallback llama-3.3-70b-versatile: groq is not configured"
+    )
+
+    vi.mocked(console.warn).mockClear()
+    process.env.GROQ_API_KEY = "test-groq-key"
+    const model = getModel("anthropic", "sonnet", ["llama-3.3-70b-versatile"])
+    expect(console.warn).not.toHaveBeenCalled()
+    expect(model).toMatchObject({ specificationVersion: "v3", modelId: "claude-sonnet-4-20250514" })
+  })
+})
+
+describe("createFallbackModel", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("uses the primary model when it succeeds", async () => {
+    const primary = createFakeModel("primary", () => Promise.resolve("primary result"))
+    const fallback = createFakeModel("fallback", () => Promise.resolve("fallback result"))
+    const model = createFallbackModel([
+      { provider: "anthropic", model: primary },
+      { provider: "xai", model: fallback },
+    ])
+
+    await expect(model.doGenerate(callOptions)).resolves.toBe("primary result")
+    expect(fallback.doGenerate).not.toHaveBeenCalled()
+    expect(model.modelId).toBe("primary")
+  })
+
+  it("retries on the next model when the primary fails and logs which one served it", async () => {
+    const primary = createFakeModel("primary", () => Promise.reject(new Error("429 Too Many Requests")))
+    const broken = createFakeModel("broken", () => Promise.reject(new Error("503 Service Unavailable")))
+    const fallback = createFakeModel("fallback", () => Promise.resolve("fallback result"))
+    const model = createFallbackModel([
+      { provider: "anthropic", model: primary },
+      { provider: "xai", model: broken },
+      { provider: "openai-compatible", model: fallback },
+    ])
+
+    await expect(model.doStream(callOptions)).resolves.toBe("fallback result")
+    expect(console.log).toHaveBeenCalledWith(
+      "[AI Providers] Request served by openai-compatible/fallback (fallback 2 of 2)"
+    )
+  })
+
+  it("records which model served each request", async () => {
+    let primaryUp = true
+    const primary = createFakeModel("primary", () =>
+      primaryUp ? Promise.resolve("primary result") : Promise.reject(new Error("529 Overloaded"))
+    )
+    const fallback = createFakeModel("fallback", () => Promise.resolve("fallback result"))
+    const model = createFallbackModel([
+      { provider: "anthropic", model: primary },
+      { provider: "xai", model: fallback },
+    ])
+
+    await model.doGenerate(callOptions)
+    primaryUp = false
+    await model.doGenerate(callOptions)
+
+    expect(getServedModels(model)).toEqual([
+      { provider: "anthropic", model: "primary" },
+      { provider: "xai", model: "fallback" },
+    ])
+    expect(getServedModels(primary)).toBeUndefined()
+  })
+
+  it("throws the last error when every model fails", async () => {
+    const model = createFallbackModel([
+      { provider: "anthropic", model: createFakeModel("primary", () => Promise.reject(new Error("first"))) },
+      { provider: "xai", model: createFakeModel("fallback", () => Promise.reject(new Error("last"))) },
+    ])
+
+    await expect(model.doGenerate(callOptions)).rejects.toThrow("last")
+  })
+
+  it("doesn't fall back once the request is aborted", async () => {
+    const controller = new AbortController()
+    const primary = createFakeModel("primary", () => {
+      controller.abort()
+      return Promise.reject(new Error("aborted"))
+    })
+    const fallback = createFakeModel("fallback", () => Promise.resolve("fallback result"))
+    const model = createFallbackModel([
+      { provider: "anthropic", model: primary },
+      { provider: "xai", model: fallback },
+    ])
+
+    await expect(model.doGenerate({ ...callOptions, abortSignal: controller.signal })).rejects.toThrow("aborted")
+    expect(fallback.doGenerate).not.toHaveBeenCalled()
+  })
+})
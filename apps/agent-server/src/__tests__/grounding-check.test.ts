@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the grounding check
+ *
+ * Tests cover:
+ * - Finding amounts, dates, names and IDs from the response in tool outputs
+ * - Derived values: list counts and totals
+ * - Flagging claims that no tool returned
+ */
+
+import { describe, it, expect } from "vitest"
+import { checkGrounding } from "../lib/grounding-check"
+
+const invoiceOutput = {
+  invoices: [
+    { number: "INV-104", customer: "Northwind Traders", amount: 1250.5, due_date: "2026-10-02" },
+    { number: "INV-117", customer: "Globex Corporation", amount: 3400, due_date: "2026-10-09" },
+  ],
+  contact: { first_name: "Priya", last_name: "Raman", email: "priya@northwind.example" },
+}
+
+describe("checkGrounding", () => {
+  it("grounds facts that appear in tool outputs", () => {
+    const result = checkGrounding(
+      "You have 2 overdue invoices totalling $4,650.50. INV-104 from Northwind Traders for $1,250.50 " +
+        "was due October 2, and INV-117 from Globex Corporation was due on 2026-10-09. " +
+        "Priya Raman (priya@northwind.example) is the contact.",
+      [invoiceOutput]
+    )
+
+    expect(result.ungroundedClaims).toEqual([])
+    expect(result.status).toBe("grounded")
+    expect(result.checkedClaims).toBeGreaterThanOrEqual(8)
+  })
+
+  it("flags facts no tool returned", () => {
+    const result = checkGrounding(
+      "INV-104 for $1,250.50 is overdue. Marcus Webb also owes $8,900 on INV-230, due November 14.",
+      [invoiceOutput]
+    )
+
+    expect(result.status).toBe("partially_grounded")
+    expect(result.ungroundedClaims.map((claim) => [claim.type, claim.text])).toEqual([
+      ["id", "INV-230"],
+      ["date", "November 14"],
+      ["amount", "$8,900"],
+      ["name", "Marcus Webb"],
+    ])
+    expect(result.summary).toMatch(/^4 of 6 facts not found in tool results: INV-230, November 14, \$8,900/)
+  })
+
+  it("accepts rounded figures and percentages stored as fractions", () => {
+    const result = checkGrounding("Revenue was about $1.2M, with 42% of it recurring.", [
+      { revenue: 1_234_567, recurring_share: 0.4187 },
+    ])
+    expect(result.status).toBe("grounded")
+  })
+
+  it("parses JSON returned as text by MCP tools", () => {
+    const result = checkGrounding("Globex Corporation owes $3,400.", [
+      { content: [{ type: "text", text: JSON.stringify(invoiceOutput) }] },
+    ])
+    expect(result.status).toBe("grounded")
+  })
+
+  it("treats values from the prompt and today's date as grounded", () => {
+    const result = checkGrounding(
+      "Here are invoices over $1,000 as of October 18, 2026: INV-117.",
+      [invoiceOutput],
+      { prompt: "Which invoices are over $1,000?", now: new Date(2026, 9, 18, 12) }
+    )
+    expect(result.status).toBe("grounded")
+  })
+
+  it("marks everything ungrounded when no tools were called", () => {
+    const result = checkGrounding("Sarah Chen closed 14 deals worth $52,000 this quarter.", [])
+    expect(result.status).toBe("ungrounded")
+    expect(result.groundedClaims).toBe(0)
+  })
+
+  it("ignores headings, list numbering and small counts", () => {
+    const result = checkGrounding("## Weekly Summary\n\n1. All tasks are on track.\n2. Next Steps: none.", [])
+    expect(result).toMatchObject({ status: "no_claims", checkedClaims: 0 })
+  })
+})
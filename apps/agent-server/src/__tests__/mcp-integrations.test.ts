@@ -0,0 +1,131 @@
+/**
+ * Unit tests for external MCP integrations
+ *
+ * Tests cover:
+ * - Namespacing external tool names
+ * - Stable prefixes for integrations sharing a name, and skipping colliding tools
+ * - Building connection auth from encrypted and legacy plaintext auth_config
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { createCipheriv, randomBytes } from "crypto"
+import {
+  assignToolNamespaces,
+  mergeIntegrationTools,
+  namespacedToolName,
+  resolveIntegrationAuth,
+  toolNamespace,
+  type MCPIntegration,
+} from "../lib/mcp-integrations"
+
+const ENCRYPTION_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef"
+
+// Same format as the admin panel's encryptApiKey
+function encrypt(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", Buffer.from(ENCRYPTION_KEY, "hex"), iv)
+  let encrypted = cipher.update(plaintext, "utf8", "base64")
+  encrypted += cipher.final("base64")
+  return `${iv.toString("base64")}:${cipher.getAuthTag().toString("base64")}:${encrypted}`
+}
+
+function createIntegration(overrides: Partial<MCPIntegration> = {}): MCPIntegration {
+  return {
+    id: "integration-1",
+    name: "GitHub",
+    type: "http",
+    config: { url: "https://mcp.example.com" },
+    auth_type: "none",
+    auth_config: {},
+    is_enabled: true,
+    ...overrides,
+  }
+}
+
+describe("tool namespacing", () => {
+  it("derives a prefix from the integration name", () => {
+    expect(toolNamespace("GitHub Enterprise")).toBe("github_enterprise")
+    expect(toolNamespace("  Linear (prod) ")).toBe("linear_prod")
+    expect(toolNamespace("!!!")).toBe("mcp")
+  })
+
+  it("prefixes tool names and keeps them within provider limits", () => {
+    expect(namespacedToolName("github", "create_issue")).toBe("github__create_issue")
+    expect(namespacedToolName("github", "repos.list")).toBe("github__repos_list")
+    expect(namespacedToolName("github", "x".repeat(100))).toHaveLength(64)
+  })
+
+  it("suffixes integrations that share a name in id order, whatever order they load in", () => {
+    const integrations = [
+      createIntegration({ id: "c", name: "GitHub" }),
+      createIntegration({ id: "a", name: "GitHub" }),
+      createIntegration({ id: "b", name: "github_2" }),
+    ]
+
+    const expected = new Map([["a", "github"], ["b", "github_2"], ["c", "github_3"]])
+    expect(assignToolNamespaces(integrations)).toEqual(expected)
+    expect(assignToolNamespaces([...integrations].reverse())).toEqual(expected)
+  })
+
+  it("keeps the first tool when names collide instead of overwriting it", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const first = { description: "first" }
+    const tools: Record<string, unknown> = { github__search: first }
+
+    const added = mergeIntegrationTools(
+      tools as never,
+      { github__search: { description: "second" }, github__list: { description: "list" } } as never,
+      "GitHub"
+    )
+
+    expect(added).toBe(1)
+    expect(tools.github__search).toBe(first)
+    expect(Object.keys(tools)).toEqual(["github__search", "github__list"])
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("github__search"))
+    warn.mockRestore()
+  })
+})
+
+describe("resolveIntegrationAuth", () => {
+  const originalKey = process.env.ENCRYPTION_KEY
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_KEY = ENCRYPTION_KEY
+  })
+
+  afterEach(() => {
+    process.env.ENCRYPTION_KEY = originalKey
+  })
+
+  it("decrypts API keys into a bearer header and env var", () => {
+    const auth = resolveIntegrationAuth(createIntegration({
+      auth_type: "api_key",
+      auth_config: { api_key: encrypt("sk-test"), env_var: "GITHUB_TOKEN" },
+    }))
+
+    expect(auth.headers).toEqual({ Authorization: "Bearer sk-test" })
+    expect(auth.env).toEqual({ GITHUB_TOKEN: "sk-test" })
+  })
+
+  it("sends API keys in a custom header as-is", () => {
+    const auth = resolveIntegrationAuth(createIntegration({
+      auth_type: "api_key",
+      auth_config: { api_key: encrypt("sk-test"), header_name: "X-API-Key" },
+    }))
+
+    expect(auth.headers).toEqual({ "X-API-Key": "sk-test" })
+  })
+
+  it("builds basic auth and accepts legacy plaintext secrets", () => {
+    const auth = resolveIntegrationAuth(createIntegration({
+      auth_type: "basic",
+      auth_config: { username: "bot", password: "hunter2" },
+    }))
+
+    expect(auth.headers.Authorization).toBe(`Basic ${Buffer.from("bot:hunter2").toString("base64")}`)
+  })
+
+  it("fails when a required secret is missing", () => {
+    expect(() => resolveIntegrationAuth(createIntegration({ auth_type: "oauth" }))).toThrow("access token")
+  })
+})
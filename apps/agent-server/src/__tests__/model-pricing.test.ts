@@ -0,0 +1,75 @@
+/**
+ * Unit tests for model pricing
+ *
+ * Tests cover:
+ * - Resolving aliases, provider prefixes and dated snapshots to a price
+ * - Billing cache reads and writes at their own rates
+ * - Falling back to the provider's default price for unlisted models
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { calculateCost, getModelPrice } from "../lib/model-pricing"
+
+describe("getModelPrice", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("prices aliases as the model they resolve to", () => {
+    expect(getModelPrice("anthropic", "opus")).toMatchObject({ input: 15, output: 75 })
+    expect(getModelPrice(undefined, "haiku")).toMatchObject({ input: 1, output: 5 })
+    expect(getModelPrice("xai", "grok-4.1-fast-reasoning")).toEqual(getModelPrice("xai", "grok-4-1-fast"))
+  })
+
+  it("uses the longest matching prefix for dated snapshots", () => {
+    expect(getModelPrice("openai", "gpt-4o-mini-2024-07-18")).toMatchObject({ input: 0.15 })
+    expect(getModelPrice("openai", "gpt-4o-2024-08-06")).toMatchObject({ input: 2.5 })
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+
+  it("prices every provider's default model without warning", () => {
+    for (const provider of ["anthropic", "openai", "xai", "google", "groq", "mistral", "together", "fireworks", "deepseek", "perplexity"]) {
+      expect(getModelPrice(provider, "").input).toBeGreaterThan(0)
+    }
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+
+  it("treats self-hosted models as free", () => {
+    expect(getModelPrice(undefined, "openai-compatible/qwen2.5:14b")).toEqual({ input: 0, output: 0 })
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+
+  it("falls back to the provider's default price for unlisted models and warns once", () => {
+    expect(getModelPrice("mistral", "open-mixtral-8x22b")).toEqual(getModelPrice("mistral", ""))
+    getModelPrice("mistral", "open-mixtral-8x22b")
+    expect(console.warn).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("calculateCost", () => {
+  it("bills input and output tokens per million", () => {
+    expect(calculateCost("anthropic", "sonnet", { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(4.5)
+  })
+
+  it("bills cache reads and writes at their own rates", () => {
+    const cost = calculateCost("anthropic", "sonnet", {
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      inputTokenDetails: { cacheReadTokens: 800_000, cacheWriteTokens: 100_000 },
+    })
+    // 100k uncached at $3 + 800k cache reads at $0.30 + 100k cache writes at $3.75
+    expect(cost).toBeCloseTo(0.3 + 0.24 + 0.375)
+  })
+
+  it("bills cached tokens as input when the provider has no cache price", () => {
+    const cost = calculateCost("groq", "llama", {
+      inputTokens: 1_000_000,
+      inputTokenDetails: { cacheReadTokens: 500_000 },
+    })
+    expect(cost).toBeCloseTo(0.59)
+  })
+})
@@ -40,12 +40,18 @@ vi.mock("../lib/ai-providers.js", () => ({
     }
     return envVars[provider] || `${provider.toUpperCase()}_API_KEY`
   }),
+  isProviderConfigured: vi.fn((provider: string) => !!process.env[`${provider.toUpperCase()}_API_KEY`]),
 }))
 
 vi.mock("../lib/supabase.js", () => ({
   createAdminClient: vi.fn(),
 }))
 
+vi.mock("../lib/spend-budgets.js", () => ({
+  checkSpendBudget: vi.fn(async () => ({ allowed: true })),
+  recordAgentSpend: vi.fn(async () => 0),
+}))
+
 vi.mock("../lib/agent-rules.js", () => ({
   applyRulesToPrompt: vi.fn((prompt: string, rules: any[]) => {
     if (rules && rules.length > 0) {
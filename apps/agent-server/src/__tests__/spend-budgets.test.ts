@@ -0,0 +1,250 @@
+/**
+ * Unit tests for spend budgets
+ *
+ * Tests cover:
+ * - Refusing new runs at a hard limit, for workspace and agent budgets
+ * - Recording priced usage in ai_usage_log, per model when fallbacks served the run
+ * - Posting soft-limit and limit-reached notices once per month
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  checkSpendBudget,
+  getBudgetPeriod,
+  recordAgentSpend,
+  type SpendBudget,
+} from "../lib/spend-budgets"
+
+function budget(overrides: Partial<SpendBudget> = {}): SpendBudget {
+  return {
+    id: "budget-1",
+    workspace_id: "ws-1",
+    agent_id: null,
+    monthly_limit_usd: 100,
+    soft_limit_percent: 80,
+    hard_limit: true,
+    warned_period: null,
+    exceeded_period: null,
+    ...overrides,
+  }
+}
+
+function createSupabaseMock(options: {
+  budgets: SpendBudget[]
+  spend: { agent_id: string | null; cost_usd: number }[]
+}) {
+  const inserts: { table: string; values: Record<string, unknown> | Record<string, unknown>[] }[] = []
+  const updates: { table: string; values: Record<string, unknown> }[] = []
+
+  const from = vi.fn((table: string) => {
+    let isUpdate = false
+    const result = () => {
+      switch (table) {
+        case "ai_spend_budgets":
+          return isUpdate ? { data: [{ id: "budget-1" }], error: null } : { data: options.budgets, error: null }
+        case "channels":
+          return { data: { id: "channel-general" }, error: null }
+        case "profiles":
+          return { data: { id: "agent-profile-1" }, error: null }
+        default:
+          return { data: null, error: null }
+      }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const builder: any = {}
+    for (const method of ["select", "eq", "or", "is", "limit", "order"]) {
+      builder[method] = vi.fn(() => builder)
+    }
+    builder.update = vi.fn((values: Record<string, unknown>) => {
+      isUpdate = true
+      updates.push({ table, values })
+      return builder
+    })
+    builder.insert = vi.fn((values: Record<string, unknown> | Record<string, unknown>[]) => {
+      inserts.push({ table, values })
+      return Promise.resolve({ error: null })
+    })
+    builder.maybeSingle = vi.fn(() => Promise.resolve(result()))
+    builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(result()).then(resolve, reject)
+    return builder
+  })
+
+  const client = {
+    from,
+    rpc: vi.fn(async () => ({ data: options.spend, error: null })),
+  } as unknown as SupabaseClient
+
+  return { client, inserts, updates }
+}
+
+const usage = { inputTokens: 1_000_000, outputTokens: 100_000 } // $4.50 on Sonnet
+
+describe("checkSpendBudget", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("allows runs when the workspace has no budgets", async () => {
+    const { client } = createSupabaseMock({ budgets: [], spend: [] })
+    await expect(checkSpendBudget(client, { workspaceId: "ws-1" })).resolves.toEqual({ allowed: true })
+    expect(client.rpc).not.toHaveBeenCalled()
+  })
+
+  it("refuses runs once the workspace reaches a hard limit", async () => {
+    const { client } = createSupabaseMock({
+      budgets: [budget()],
+      spend: [{ agent_id: "agent-1", cost_usd: 60 }, { agent_id: null, cost_usd: 45 }],
+    })
+
+    const check = await checkSpendBudget(client, { workspaceId: "ws-1", now: new Date("2026-03-14T12:00:00Z") })
+    expect(check.allowed).toBe(false)
+    expect(check.message).toBe(
+      "This workspace has reached its monthly AI spend limit of $100.00 ($105.00 spent this month). " +
+        "New agent runs are paused until April 1 or until a workspace admin raises the limit."
+    )
+  })
+
+  it("only counts an agent's own spend against its budget", async () => {
+    const agentBudget = budget({ agent_id: "agent-1", monthly_limit_usd: 50 })
+    const spend = [{ agent_id: "agent-1", cost_usd: 20 }, { agent_id: "agent-2", cost_usd: 70 }]
+
+    const { client } = createSupabaseMock({ budgets: [agentBudget], spend })
+    await expect(checkSpendBudget(client, { workspaceId: "ws-1", agentId: "agent-1" })).resolves.toEqual({ allowed: true })
+
+    spend[0].cost_usd = 50
+    const check = await checkSpendBudget(client, { workspaceId: "ws-1", agentId: "agent-1", agentName: "Finance Agent" })
+    expect(check.allowed).toBe(false)
+    expect(check.message).toMatch(/^Finance Agent has reached its monthly AI spend limit of \$50\.00/)
+  })
+
+  it("keeps running over a budget without a hard limit", async () => {
+    const { client } = createSupabaseMock({
+      budgets: [budget({ hard_limit: false })],
+      spend: [{ agent_id: null, cost_usd: 150 }],
+    })
+    await expect(checkSpendBudget(client, { workspaceId: "ws-1" })).resolves.toEqual({ allowed: true })
+    expect(client.rpc).not.toHaveBeenCalled()
+  })
+
+  it("refuses runs under a hard limit when spend can't be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    const { client } = createSupabaseMock({ budgets: [budget()], spend: [] })
+    vi.mocked(client.rpc).mockResolvedValueOnce({ data: null, error: { message: "timeout" } } as never)
+
+    const check = await checkSpendBudget(client, { workspaceId: "ws-1" })
+    expect(check.allowed).toBe(false)
+    expect(check.message).toMatch(/^Couldn't check this workspace's AI spend budget/)
+  })
+})
+
+describe("recordAgentSpend", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("records the priced run in ai_usage_log", async () => {
+    const { client, inserts } = createSupabaseMock({ budgets: [], spend: [] })
+
+    const cost = await recordAgentSpend(client, {
+      workspaceId: "ws-1",
+      agentId: "agent-1",
+      source: "chat",
+      sourceId: "conv-1",
+      provider: "anthropic",
+      model: "sonnet",
+      usage,
+    })
+
+    expect(cost).toBeCloseTo(4.5)
+    expect(inserts).toEqual([
+      {
+        table: "ai_usage_log",
+        values: [
+          expect.objectContaining({
+            workspace_id: "ws-1",
+            agent_id: "agent-1",
+            source: "chat",
+            source_id: "conv-1",
+            tokens_input: 1_000_000,
+            tokens_output: 100_000,
+            cost_usd: cost,
+          }),
+        ],
+      },
+    ])
+  })
+
+  it("prices steps served by a fallback model against that model", async () => {
+    const { client, inserts } = createSupabaseMock({ budgets: [], spend: [] })
+
+    const cost = await recordAgentSpend(client, {
+      workspaceId: "ws-1",
+      source: "scheduled",
+      provider: "anthropic",
+      model: "sonnet",
+      usage: { inputTokens: 2_000_000, outputTokens: 200_000 },
+      servedBy: [
+        { provider: "anthropic", model: "claude-sonnet-4-20250514" },
+        { provider: "xai", model: "grok-4-fast" },
+      ],
+      steps: [{ usage }, { usage }],
+    })
+
+    expect(cost).toBeCloseTo(4.5 + 0.25)
+    expect(inserts[0].values).toEqual([
+      expect.objectContaining({ provider: "anthropic", model: "claude-sonnet-4-20250514", tokens_input: 1_000_000 }),
+      expect.objectContaining({ provider: "xai", model: "grok-4-fast", tokens_input: 1_000_000, cost_usd: 0.25 }),
+    ])
+  })
+
+  it("posts a warning to #general when spend crosses the soft limit", async () => {
+    const { client, inserts, updates } = createSupabaseMock({
+      budgets: [budget()],
+      spend: [{ agent_id: "agent-1", cost_usd: 82 }],
+    })
+
+    await recordAgentSpend(client, { workspaceId: "ws-1", agentId: "agent-1", source: "chat", provider: "anthropic", model: "sonnet", usage })
+
+    expect(updates).toEqual([{ table: "ai_spend_budgets", values: { warned_period: getBudgetPeriod() } }])
+    expect(inserts[1]).toEqual({
+      table: "messages",
+      values: {
+        workspace_id: "ws-1",
+        channel_id: "channel-general",
+        sender_id: "agent-profile-1",
+        content: expect.stringContaining("This workspace has used 82% of its monthly AI budget ($82.00 of $100.00)"),
+      },
+    })
+  })
+
+  it("doesn't repeat a warning already posted this month", async () => {
+    const { client, inserts, updates } = createSupabaseMock({
+      budgets: [budget({ warned_period: getBudgetPeriod() })],
+      spend: [{ agent_id: null, cost_usd: 90 }],
+    })
+
+    await recordAgentSpend(client, { workspaceId: "ws-1", source: "scheduled", provider: "anthropic", model: "sonnet", usage })
+
+    expect(updates).toHaveLength(0)
+    expect(inserts.map((i) => i.table)).toEqual(["ai_usage_log"])
+  })
+
+  it("announces when a hard limit is reached", async () => {
+    const { client, inserts, updates } = createSupabaseMock({
+      budgets: [budget({ warned_period: getBudgetPeriod() })],
+      spend: [{ agent_id: null, cost_usd: 101 }],
+    })
+
+    await recordAgentSpend(client, { workspaceId: "ws-1", source: "delegation", provider: "anthropic", model: "sonnet", usage })
+
+    expect(updates).toEqual([{ table: "ai_spend_budgets", values: { exceeded_period: getBudgetPeriod() } }])
+    expect(inserts[1].values.content).toMatch(/New agent runs are paused until/)
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Unit tests for tool approval
+ *
+ * Tests cover:
+ * - Deciding which calls need approval under always/never/threshold policies
+ * - Running, declining, timing out and cancelling paused tool calls
+ * - Only the chat's user may answer an approval, and unknown, answered or expired ids say so
+ * - Picking up answers given through another agent-server instance
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import {
+  getApprovalReason,
+  resolveApproval,
+  withToolApproval,
+  type ToolApprovalOptions,
+} from "../lib/tool-approval"
+import type { ApprovalRequestMessage } from "../lib/agent-ws-types"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+type ApprovalRow = Record<string, unknown>
+
+/**
+ * In-memory agent_tool_approvals table, shared like the database between instances
+ */
+function createApprovalStore() {
+  const rows = new Map<string, ApprovalRow>()
+
+  const from = vi.fn(() => {
+    const filters: Array<(row: ApprovalRow) => boolean> = []
+    let changes: ApprovalRow | null = null
+    const matching = () => [...rows.values()].filter((row) => filters.every((filter) => filter(row)))
+
+    const builder = {
+      insert: vi.fn(async (row: ApprovalRow) => {
+        rows.set(row.id as string, { status: "pending", ...row })
+        return { error: null }
+      }),
+      update: vi.fn((values: ApprovalRow) => {
+        changes = values
+        return builder
+      }),
+      select: vi.fn(() => builder),
+      eq: vi.fn((column: string, value: unknown) => {
+        filters.push((row) => row[column] === value)
+        return builder
+      }),
+      gt: vi.fn((column: string, value: string) => {
+        filters.push((row) => String(row[column]) > value)
+        return builder
+      }),
+      maybeSingle: vi.fn(async () => ({ data: matching()[0] ?? null, error: null })),
+      then: (resolve: (result: unknown) => unknown, reject?: (error: unknown) => unknown) => {
+        const found = matching()
+        if (changes) found.forEach((row) => Object.assign(row, changes))
+        return Promise.resolve({ data: found.map((row) => ({ ...row })), error: null }).then(resolve, reject)
+      },
+    }
+    return builder
+  })
+
+  return { supabase: { from } as unknown as SupabaseClient, rows }
+}
+
+const thresholdPolicy = { mode: "threshold" as const, thresholdField: "amount", threshold: 1000 }
+
+describe("getApprovalReason", () => {
+  it("follows always and never policies", () => {
+    expect(getApprovalReason({ mode: "always" }, {})).toBeTruthy()
+    expect(getApprovalReason({ mode: "never" }, {})).toBeNull()
+    expect(getApprovalReason(undefined, {})).toBeNull()
+  })
+
+  it("asks only when the field is over the threshold, either sign", () => {
+    expect(getApprovalReason(thresholdPolicy, { amount: 999 })).toBeNull()
+    expect(getApprovalReason(thresholdPolicy, { amount: 1000 })).toBeNull()
+    expect(getApprovalReason(thresholdPolicy, { amount: -2500 })).toContain("2,500")
+    expect(getApprovalReason(thresholdPolicy, { amount: "1500" })).toBeTruthy()
+    expect(getApprovalReason(thresholdPolicy, { description: "no amount" })).toBeNull()
+  })
+})
+
+describe("withToolApproval", () => {
+  const execute = vi.fn()
+  const tools = {
+    sms_send: { description: "Send an SMS", execute },
+    transaction_list: { description: "List transactions", execute },
+  }
+  let requests: ApprovalRequestMessage[]
+  let options: ToolApprovalOptions
+  let store: ReturnType<typeof createApprovalStore>
+
+  beforeEach(() => {
+    execute.mockReset().mockResolvedValue({ success: true })
+    requests = []
+    store = createApprovalStore()
+    options = {
+      supabase: store.supabase,
+      userId: "user-1",
+      onRequest: (request) => requests.push(request),
+      onResolved: vi.fn(),
+    }
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("leaves tools without a policy untouched", () => {
+    const wrapped = withToolApproval(tools, { sms_send: { mode: "always" } }, options)
+    expect(wrapped.transaction_list).toBe(tools.transaction_list)
+    expect(wrapped.sms_send).not.toBe(tools.sms_send)
+  })
+
+  it("runs the tool once the user approves", async () => {
+    const wrapped = withToolApproval(tools, { sms_send: { mode: "always" } }, options)
+    const call = wrapped.sms_send.execute({ to: "+15551234567" }, { toolCallId: "call_1" })
+
+    await vi.waitFor(() => expect(requests).toHaveLength(1))
+    expect(requests[0]).toMatchObject({ type: "approval_request", toolCallId: "call_1", toolName: "sms_send" })
+    expect(execute).not.toHaveBeenCalled()
+
+    expect(store.rows.get(requests[0].approvalId)).toMatchObject({ status: "pending", tool_name: "sms_send" })
+    await expect(resolveApproval(store.supabase, requests[0].approvalId, "user-1", true)).resolves.toBe("resolved")
+    await expect(call).resolves.toEqual({ success: true })
+    expect(execute).toHaveBeenCalledWith({ to: "+15551234567" }, { toolCallId: "call_1" })
+    expect(options.onResolved).toHaveBeenCalledWith(expect.objectContaining({ approved: true, outcome: "approved" }))
+  })
+
+  it("skips the tool when the user declines", async () => {
+    const wrapped = withToolApproval(tools, { sms_send: { mode: "always" } }, options)
+    const call = wrapped.sms_send.execute({}, { toolCallId: "call_1" })
+
+    await vi.waitFor(() => expect(requests).toHaveLength(1))
+    await resolveApproval(store.supabase, requests[0].approvalId, "user-1", false)
+
+    await expect(call).resolves.toMatchObject({ success: false, declined: true })
+    expect(execute).not.toHaveBeenCalled()
+    await expect(resolveApproval(store.supabase, requests[0].approvalId, "user-1", true)).resolves.toBe(
+      "already_answered"
+    )
+  })
+
+  it("only lets the chat's user answer", async () => {
+    const wrapped = withToolApproval(tools, { sms_send: { mode: "always" } }, options)
+    const call = wrapped.sms_send.execute({}, { toolCallId: "call_1" })
+
+    await vi.waitFor(() => expect(requests).toHaveLength(1))
+    await expect(resolveApproval(store.supabase, requests[0].approvalId, "user-2", true)).resolves.toBe("forbidden")
+
+    await resolveApproval(store.supabase, requests[0].approvalId, "user-1", false)
+    await call
+  })
+
+  it("says when an approval id is unknown or expired", async () => {
+    await expect(resolveApproval(store.supabase, "not-a-uuid", "user-1", true)).resolves.toBe("not_found")
+    await expect(
+      resolveApproval(store.supabase, "6f1c2a9e-4b7d-4e3a-9c1f-2d8e5a7b3c40", "user-1", true)
+    ).resolves.toBe("not_found")
+
+    store.rows.set("6f1c2a9e-4b7d-4e3a-9c1f-2d8e5a7b3c40", {
+      id: "6f1c2a9e-4b7d-4e3a-9c1f-2d8e5a7b3c40",
+      user_id: "user-1",
+      status: "pending",
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    })
+    await expect(
+      resolveApproval(store.supabase, "6f1c2a9e-4b7d-4e3a-9c1f-2d8e5a7b3c40", "user-1", true)
+    ).resolves.toBe("expired")
+  })
+
+  it("picks up an answer given through another instance", async () => {
+    vi.useFakeTimers()
+    const wrapped = withToolApproval(tools, { sms_send: { mode: "always" } }, { ...options, pollIntervalMs: 500 })
+    const call = wrapped.sms_send.execute({}, { toolCallId: "call_1" })
+
+    await vi.waitFor(() => expect(requests).toHaveLength(1))
+    store.rows.get(requests[0].approvalId)!.status = "approved"
+    await vi.advanceTimersByTimeAsync(500)
+
+    await expect(call).resolves.toEqual({ success: true })
+    expect(execute).toHaveBeenCalled()
+  })
+
+  it("doesn't run the tool when the approval can't be stored", async () => {
+    vi.mocked(store.supabase.from).mockReturnValueOnce({
+      insert: vi.fn().mockResolvedValue({ error: { message: "connection refused" } }),
+    } as never)
+    const wrapped = withToolApproval(tools, { sms_send: { mode: "always" } }, options)
+
+    await expect(wrapped.sms_send.execute({}, { toolCallId: "call_1" })).resolves.toMatchObject({ declined: true })
+    expect(requests).toHaveLength(0)
+    expect(execute).not.toHaveBeenCalled()
+  })
+
+  it("declines when the approval times out or the client disconnects", async () => {
+    vi.useFakeTimers()
+    const wrapped = withToolApproval(tools, { sms_send: { mode: "always" } }, { ...options, timeoutMs: 1000 })
+    const timedOut = wrapped.sms_send.execute({}, { toolCallId: "call_1" })
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(timedOut).resolves.toMatchObject({ declined: true })
+    expect([...store.rows.values()][0]).toMatchObject({ status: "timeout" })
+
+    const controller = new AbortController()
+    const cancellable = withToolApproval(tools, { sms_send: { mode: "always" } }, { ...options, signal: controller.signal })
+    const cancelled = cancellable.sms_send.execute({}, { toolCallId: "call_2" })
+    controller.abort()
+    await expect(cancelled).resolves.toMatchObject({ declined: true })
+
+    expect(execute).not.toHaveBeenCalled()
+    expect(options.onResolved).toHaveBeenCalledWith(expect.objectContaining({ outcome: "timeout" }))
+    expect(options.onResolved).toHaveBeenCalledWith(expect.objectContaining({ outcome: "cancelled" }))
+  })
+
+  it("runs calls under the threshold without asking", async () => {
+    const wrapped = withToolApproval(
+      { transaction_create: { execute } },
+      { transaction_create: thresholdPolicy },
+      options
+    )
+    await wrapped.transaction_create.execute({ amount: -45 }, { toolCallId: "call_1" })
+    expect(requests).toHaveLength(0)
+    expect(execute).toHaveBeenCalled()
+  })
+})
@@ -22,7 +22,8 @@ import { getAgentProfile } from "./lib/agent-profile.js"
 import { applyRulesToPrompt, type AgentRule } from "./lib/agent-rules.js"
 import { formatTimeContext } from "./lib/time-context.js"
 import { createMCPClient, type MCPClientInstance } from "./lib/mcp-client.js"
-import { getModel, getApiKeyEnvVar, inferProviderFromModel } from "./lib/ai-providers.js"
+import { getModel, getApiKeyEnvVar, getServedModels, inferProviderFromModel, isProviderConfigured } from "./lib/ai-providers.js"
+import { checkSpendBudget, recordAgentSpend } from "./lib/spend-budgets.js"
 import type { DeployedAgent, DeployedMind } from "./types/team.js"
 import { sendAgentServerErrorEmail } from "./lib/error-email.js"
 
@@ -138,9 +139,8 @@ async function runSpecialistQuery(
   const provider = inferProviderFromModel(model)
 
   // Check API key
-  const apiKeyEnvVar = getApiKeyEnvVar(provider)
-  if (!process.env[apiKeyEnvVar]) {
-    throw new Error(`API key not configured: ${apiKeyEnvVar}`)
+  if (!isProviderConfigured(provider)) {
+    throw new Error(`API key not configured: ${getApiKeyEnvVar(provider)}`)
   }
 
   console.log(`[Agent Channel Handler] Running specialist with ${provider}/${agent.model}`)
@@ -155,6 +155,7 @@ async function runSpecialistQuery(
         mcpClient = await createMCPClient({
           workspaceId,
           userId: "agent",
+          agentId: agent.id,
           enabledTools: toolNames,
         })
         aiTools = mcpClient.tools
@@ -166,14 +167,27 @@ async function runSpecialistQuery(
     }
 
     // Run the query
+    const aiModel = getModel(provider, agent.model, agent.fallback_models)
     const result = await generateText({
-      model: getModel(provider, agent.model),
+      model: aiModel,
       system: systemPrompt,
       messages: [{ role: "user", content: message }],
       tools: Object.keys(aiTools).length > 0 ? aiTools : undefined,
       stopWhen: stepCountIs(5), // AI SDK 6: lower for specialist queries
     })
 
+    await recordAgentSpend(createAdminClient(), {
+      workspaceId,
+      agentId: agent.id,
+      agentName: agent.name,
+      source: "delegation",
+      provider,
+      model,
+      usage: result.totalUsage,
+      servedBy: getServedModels(aiModel),
+      steps: result.steps,
+    })
+
     return {
       text: result.text,
       inputTokens: result.usage?.inputTokens || 0,
@@ -258,6 +272,29 @@ export async function agentChannelMessageHandler(
       return
     }
 
+    // Refuse the request once a hard spend limit is reached, answering in the channel
+    // so the delegating agent isn't left waiting for a response
+    const budgetCheck = await checkSpendBudget(supabase, {
+      workspaceId: channel.workspace_id,
+      agentId: specialist.id,
+      agentName: specialist.name,
+    })
+    if (!budgetCheck.allowed) {
+      const specialistProfileId = await getAgentProfile(channel.workspace_id, specialist.slug)
+      if (specialistProfileId) {
+        await supabase.from("messages").insert({
+          channel_id: record.channel_id,
+          profile_id: specialistProfileId,
+          content: budgetCheck.message,
+          is_agent_request: false,
+          agent_request_id: record.agent_request_id,
+          agent_response_status: "failed",
+        })
+      }
+      res.status(402).json({ error: budgetCheck.message, code: "budget_exceeded" })
+      return
+    }
+
     console.log(
       `[Agent Channel Handler] Running specialist: ${specialist.name}`
     )
@@ -14,8 +14,14 @@ import { streamText, stepCountIs } from "ai"
 // AI SDK 6 message type
 type CoreMessage = { role: "user" | "assistant" | "system"; content: string }
 import { z } from "zod"
-import { createMCPClient, type MCPClientInstance } from "./lib/mcp-client.js"
-import { getModel, inferProviderFromModel } from "./lib/ai-providers.js"
+import { createMCPClient, type AgentRunContext, type MCPClientInstance } from "./lib/mcp-client.js"
+import {
+  connectMCPIntegrations,
+  loadAgentMCPIntegrations,
+  loadMCPIntegrations,
+  type MCPIntegration,
+} from "./lib/mcp-integrations.js"
+import { getApiKeyEnvVar, getModel, getServedModels, inferProviderFromModel, isProviderConfigured } from "./lib/ai-providers.js"
 import {
   createAdminClient,
   authenticateRequest,
@@ -42,6 +48,9 @@ import type { DeployedTeamConfig } from "./types/team.js"
 import { loadDeployedTeamConfig, getHeadAgent } from "./lib/team-config.js"
 import { buildDelegationTool, type DelegationTool } from "./lib/delegation-tool.js"
 import { sendAgentServerErrorEmail } from "./lib/error-email.js"
+import { loadToolApprovalPolicies, withToolApproval } from "./lib/tool-approval.js"
+import { checkSpendBudget, recordAgentSpend } from "./lib/spend-budgets.js"
+import { checkGrounding, formatGroundingResult } from "./lib/grounding-check.js"
 // Note: handleDelegation is available for future MCP integration
 // import { handleDelegation } from "./lib/delegation-handler.js"
 
@@ -154,10 +163,13 @@ export async function agentChatHandler(req: Request, res: Response) {
 
     let systemPrompt: string
     let toolNames: string[] = []
+    let mcpIntegrations: MCPIntegration[] = []
     let delegationTool: DelegationTool | null = null
     let deployedConfig: DeployedTeamConfig | null = null
     let headAgentSlug: string | null = null
     let effectiveAgentId: string | undefined = agentId
+    // ai_agents id the run's spend counts against (per-agent budgets)
+    let budgetAgentId: string | null = null
     // Debug tracking for token analysis
     let debugInfo = {
       agentName: '',
@@ -219,6 +231,7 @@ export async function agentChatHandler(req: Request, res: Response) {
 
       headAgentSlug = targetAgent.slug
       effectiveAgentId = targetAgent.id
+      budgetAgentId = targetAgent.id
 
       // Build system prompt from target agent
       systemPrompt = targetAgent.system_prompt || getDefaultSystemPrompt()
@@ -273,6 +286,9 @@ ${skillsContent}`
       toolNames = targetAgent.tools?.map((t) => t.name) || []
       console.log(`[Token Debug] Agent "${targetAgent.name}" has ${toolNames.length} tools assigned:`, toolNames)
 
+      // Load external MCP integrations assigned to the agent
+      mcpIntegrations = await loadMCPIntegrations(supabase, (targetAgent.mcp_integrations || []).map((i) => i.id))
+
       // Populate debug info for token analysis
       debugInfo = {
         agentName: targetAgent.name,
@@ -311,6 +327,8 @@ ${skillsContent}`
         return res.status(404).json({ error: "Agent not found" })
       }
 
+      budgetAgentId = agent.ai_agent_id || null
+
       // Load system prompt - start with local agent config
       systemPrompt = agent.system_prompt || getDefaultSystemPrompt()
 
@@ -338,6 +356,9 @@ ${skillsContent}`
             .filter(Boolean)
         }
 
+        // Load external MCP integrations assigned to the agent
+        mcpIntegrations = await loadAgentMCPIntegrations(supabase, agent.ai_agent_id)
+
         // Load rules from agent_rules and apply to system prompt
         const { data: rules } = await supabase
           .from("agent_rules")
@@ -451,6 +472,16 @@ ${skillsContent}`
       return res.status(400).json({ error: "No agent or team configured for this workspace" })
     }
 
+    // Refuse new runs once a hard spend limit is reached
+    const budgetCheck = await checkSpendBudget(supabase, {
+      workspaceId,
+      agentId: budgetAgentId,
+      agentName: debugInfo.agentName,
+    })
+    if (!budgetCheck.allowed) {
+      return res.status(402).json({ error: budgetCheck.message, code: "budget_exceeded" })
+    }
+
     // Create or get conversation
     let conversationId = existingConversationId
 
@@ -512,6 +543,10 @@ ${skillsContent}`
       res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
     }
 
+    // Cancels tool calls still waiting for the user's approval
+    const clientDisconnected = new AbortController()
+    res.on("close", () => clientDisconnected.abort())
+
     try {
       // Debug: Log session context
       console.log("[Agent Chat DEBUG] Team mode:", !!deployedConfig)
@@ -680,14 +715,8 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
         console.log(`[Agent Chat] xAI tools enabled: ${toolNames.length > 0 ? toolNames.join(', ') : 'none'}`)
 
         // Check API key for the provider
-        const apiKeyEnvVars: Record<string, string> = {
-          xai: "XAI_API_KEY",
-          openai: "OPENAI_API_KEY",
-          google: "GOOGLE_GENERATIVE_AI_API_KEY",
-          groq: "GROQ_API_KEY",
-        };
-        const apiKeyEnvVar = apiKeyEnvVars[provider] || `${provider.toUpperCase()}_API_KEY`;
-        const hasApiKey = !!process.env[apiKeyEnvVar];
+        const apiKeyEnvVar = getApiKeyEnvVar(provider);
+        const hasApiKey = isProviderConfigured(provider);
         console.log(`[Agent Chat] ${apiKeyEnvVar} present: ${hasApiKey}, length: ${process.env[apiKeyEnvVar]?.length || 0}`);
 
         if (!hasApiKey) {
@@ -702,6 +731,7 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
         }
 
         let mcpClient: MCPClientInstance | null = null
+        let integrationsClient: MCPClientInstance | null = null
 
         // NOTE: Conversation creation, user message saving, and SSE headers are already
         // set up before this point (lines 489-522), so we don't duplicate them here.
@@ -722,6 +752,7 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
               mcpClient = await createMCPClient({
                 workspaceId,
                 userId: session.id,
+                agentId: effectiveAgentId,
                 enabledTools: toolNames,
               })
               aiTools = mcpClient.tools
@@ -732,6 +763,29 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
             }
           }
 
+          // Merge in tools from the agent's external MCP integrations (namespaced <integration>__<tool>)
+          if (mcpIntegrations.length > 0) {
+            integrationsClient = await connectMCPIntegrations(supabase, mcpIntegrations)
+            aiTools = { ...aiTools, ...integrationsClient.tools }
+            console.log(`[Agent Chat] ${Object.keys(integrationsClient.tools).length} tools from ${mcpIntegrations.length} external MCP integration(s)`)
+          }
+
+          // Pause sensitive tool calls until the user approves them in the chat.
+          // External tools are looked up by their namespaced name (<integration>__<tool>)
+          const approvalPolicies = await loadToolApprovalPolicies(supabase, [
+            ...toolNames,
+            ...Object.keys(integrationsClient?.tools || {}),
+          ])
+          if (Object.keys(approvalPolicies).length > 0) {
+            aiTools = withToolApproval(aiTools, approvalPolicies, {
+              supabase,
+              userId: session.id,
+              onRequest: (request) => sendEvent("approval_request", request),
+              onResolved: (resolved) => sendEvent("approval_resolved", resolved),
+              signal: clientDisconnected.signal,
+            })
+          }
+
           // Build messages array for Vercel AI SDK
           const aiMessages: CoreMessage[] = [
             ...conversationHistory.map(m => ({
@@ -743,12 +797,14 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
 
           // Use Vercel AI SDK streamText with the configured provider
           console.log(`[Agent Chat] Starting streamText with ${Object.keys(aiTools).length} tools`);
+          const aiModel = getModel(provider, model, targetAgentForProvider?.fallback_models)
           const result = streamText({
-            model: getModel(provider, model),
+            model: aiModel,
             system: enhancedSystemPrompt,
             messages: aiMessages,
             tools: Object.keys(aiTools).length > 0 ? aiTools : undefined,
             stopWhen: stepCountIs(5), // AI SDK 6: stop after 5 steps (allows tool call rounds)
+            experimental_context: { conversationId } satisfies AgentRunContext, // Lets the user undo this run's changes
           })
 
           let assistantContent = ""
@@ -800,7 +856,7 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
                   toolCallId: toolResult.toolCallId,
                   toolName: toolResult.toolName,
                   result: toolResult.output,
-                  success: true,
+                  success: !(toolResult.output as { declined?: boolean } | undefined)?.declined,
                   durationMs: 0,
                 } as ToolResultMessage)
                 break
@@ -857,17 +913,41 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
             isComplete: true,
           } as TextMessage)
 
+          // Check the response's facts against what the tools returned in this run
+          const grounding = checkGrounding(
+            assistantContent,
+            steps.flatMap((step) => step.toolResults.map((toolResult) => toolResult.output)),
+            {
+              prompt: [...conversationHistory.map((m) => m.content), message].join("\n"),
+              now: new Date(),
+            }
+          )
+          console.log(`[Agent Chat] ${formatGroundingResult(grounding)}`)
+
           // Save assistant message
           if (assistantContent) {
             await supabase.from("agent_messages").insert({
               conversation_id: conversationId,
               role: "assistant",
               content: assistantContent,
+              metadata: { grounding },
             })
           }
 
-          // Update session usage (estimate cost for xAI - similar to Anthropic pricing)
-          const costUsd = (totalInputTokens * 0.003 + totalOutputTokens * 0.015) / 1000
+          // Price the run against the workspace's spend budgets
+          const costUsd = await recordAgentSpend(supabase, {
+            workspaceId,
+            agentId: budgetAgentId,
+            agentName: debugInfo.agentName,
+            source: "chat",
+            sourceId: conversationId,
+            provider,
+            model,
+            // Every step of the run, not just the last one
+            usage: await result.totalUsage,
+            servedBy: getServedModels(aiModel),
+            steps: await result.steps,
+          })
           await updateSessionUsage(supabase, conversationId!, {
             inputTokens: totalInputTokens,
             outputTokens: totalOutputTokens,
@@ -883,6 +963,7 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
               costUsd,
             },
             turnCount,
+            grounding,
           } as DoneMessage)
 
         } catch (error) {
@@ -901,6 +982,9 @@ IMPORTANT: Do NOT claim technical/system errors (e.g., API failures, UUID parsin
               console.error("[Agent Chat] Failed to close MCP client:", closeError)
             }
           }
+          if (integrationsClient) {
+            await integrationsClient.close()
+          }
           res.end()
         }
         return // Vercel AI SDK path complete
@@ -16,6 +16,10 @@ import { agentChannelMessageHandler } from "./agent-channel-handler.js"
 import { scheduledExecutionHandler } from "./scheduled-execution.js"
 import { testTool, type ToolTestRequest } from "./tools-test.js"
 import { sendAgentServerErrorEmail } from "./lib/error-email.js"
+import { checkMCPIntegrationHealth } from "./lib/mcp-integrations.js"
+import { runEvalSuite, type EvalAgentConfig, type EvalCase } from "./lib/agent-evals.js"
+import { authenticateRequest, createAdminClient } from "./lib/supabase.js"
+import { resolveApproval } from "./lib/tool-approval.js"
 
 const app = express()
 
@@ -43,6 +47,40 @@ app.get("/health", (_req, res) => {
 // Main agent chat endpoint
 app.post("/agent-chat", agentChatHandler)
 
+// Answer a tool call paused for approval during an agent chat stream
+app.post("/agent-chat/approvals/:approvalId", async (req, res) => {
+  try {
+    const session = await authenticateRequest(req)
+    if (!session) {
+      return res.status(401).json({ error: "Unauthorized" })
+    }
+
+    const { approved } = req.body as { approved?: unknown }
+    if (typeof approved !== "boolean") {
+      return res.status(400).json({ error: "approved (boolean) required" })
+    }
+
+    const result = await resolveApproval(createAdminClient(), req.params.approvalId, session.id, approved)
+    if (result === "not_found") {
+      return res.status(404).json({ error: "Approval not found" })
+    }
+    if (result === "forbidden") {
+      return res.status(403).json({ error: "Forbidden" })
+    }
+    if (result === "already_answered") {
+      return res.status(409).json({ error: "Approval was already answered" })
+    }
+    if (result === "expired") {
+      return res.status(410).json({ error: "Approval has expired" })
+    }
+
+    res.json({ success: true })
+  } catch (err) {
+    console.error("[Tool Approval] Error answering approval:", err)
+    res.status(500).json({ error: "Failed to answer approval" })
+  }
+})
+
 // Agent channel webhook endpoint (triggered by Supabase)
 app.post("/agent-channel-message", agentChannelMessageHandler)
 
@@ -90,11 +128,82 @@ app.post("/tools/test", async (req, res) => {
   }
 })
 
+// MCP integration health check - connects to an external MCP server and lists its tools (called by admin)
+app.post("/mcp-integrations/:id/health", async (req, res) => {
+  // Only the admin panel (holding the service role key) may make connections with stored credentials
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey || req.headers.authorization !== `Bearer ${serviceRoleKey}`) {
+    return res.status(401).json({ error: "Unauthorized" })
+  }
+
+  try {
+    const health = await checkMCPIntegrationHealth(createAdminClient(), req.params.id)
+    if (!health) {
+      return res.status(404).json({ error: "Integration not found" })
+    }
+
+    console.log(`[MCP Integrations] Health check for ${req.params.id}: ${health.status} (${health.tool_count} tools)`)
+    res.json(health)
+  } catch (err) {
+    console.error("[MCP Integrations] Health check error:", err)
+    res.status(500).json({ error: "Health check failed" })
+  }
+})
+
+// Agent eval runner - runs a version's config against eval cases with mocked tools (called by admin)
+// Runs longer than the admin route waits for a suite are stopped, whatever timeout it asks for
+const EVAL_RUN_TIMEOUT_MS = 240000
+
+// Agent eval runner - runs a version's config against eval cases with mocked tools (called by admin)
+app.post("/agent-evals/run", async (req, res) => {
+  // Evals spend platform API credits, so only the admin panel may start them
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey || req.headers.authorization !== `Bearer ${serviceRoleKey}`) {
+    return res.status(401).json({ error: "Unauthorized" })
+  }
+
+  const { config, cases, timeoutMs } = req.body as { config?: EvalAgentConfig; cases?: EvalCase[]; timeoutMs?: number }
+  if (!config?.model || !Array.isArray(config.tools) || !Array.isArray(cases)) {
+    return res.status(400).json({ error: "config and cases required" })
+  }
+
+  // Stop spending on the suite once the caller gives up: at its deadline or when it disconnects
+  const timeout = Math.min(typeof timeoutMs === "number" && timeoutMs > 0 ? timeoutMs : EVAL_RUN_TIMEOUT_MS, EVAL_RUN_TIMEOUT_MS)
+  const stopRun = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    stopRun.abort()
+  }, timeout)
+  res.on("close", () => stopRun.abort())
+
+  try {
+    const results = await runEvalSuite(config, cases, stopRun.signal)
+    const passed = results.filter((result) => result.passed).length
+    console.log(`[Agent Evals] ${config.name}: ${passed}/${results.length} cases passed`)
+    res.json({ results })
+  } catch (err) {
+    if (stopRun.signal.aborted) {
+      console.warn(`[Agent Evals] ${config.name}: run stopped - ${timedOut ? `timed out after ${timeout}ms` : "caller disconnected"}`)
+      if (!res.headersSent) res.status(504).json({ error: "Eval run timed out" })
+      return
+    }
+    console.error("[Agent Evals] Run error:", err)
+    res.status(500).json({ error: "Eval run failed" })
+  } finally {
+    clearTimeout(timer)
+  }
+})
+
 // Handle OPTIONS preflight requests
 app.options("/agent-chat", (_req, res) => {
   res.status(204).end()
 })
 
+app.options("/agent-chat/approvals/:approvalId", (_req, res) => {
+  res.status(204).end()
+})
+
 app.options("/agent-channel-message", (_req, res) => {
   res.status(204).end()
 })
@@ -0,0 +1,293 @@
+/**
+ * Agent Evaluation Runner
+ *
+ * Runs an agent version's config against saved eval cases: scripted user turns,
+ * mocked tool responses and assertions about what the agent did and said.
+ * Tools never touch real data - every call returns the case's mocked response.
+ *
+ * Called by the admin panel, which stores the results and requires passing
+ * runs before a version can be published.
+ */
+
+import { generateText, jsonSchema, stepCountIs, tool, type ModelMessage, type ToolSet } from "ai"
+import { getModel, inferProviderFromModel } from "./ai-providers.js"
+import { detectHallucination } from "./hallucination-detection.js"
+import { calculateCost } from "./model-pricing.js"
+
+export type EvalAssertion =
+  | { type: "tool_called"; tool: string; args?: Record<string, unknown> }
+  | { type: "tool_not_called"; tool: string }
+  | { type: "response_mentions"; text: string }
+  | { type: "response_omits"; text: string }
+  | { type: "no_hallucination" }
+  | { type: "max_cost_usd"; value: number }
+  | { type: "max_tokens"; value: number }
+
+export interface EvalCase {
+  id: string
+  name: string
+  /** User messages, sent one after another in the same conversation */
+  turns: string[]
+  /** Tool name -> response returned when the agent calls it */
+  mock_responses?: Record<string, unknown>
+  assertions: EvalAssertion[]
+}
+
+/** The subset of an agent version's config snapshot needed to run it */
+export interface EvalAgentConfig {
+  name: string
+  model: string
+  systemPrompt: string
+  maxTurns?: number
+  tools: { name: string; description: string; input_schema: Record<string, unknown> }[]
+}
+
+export interface EvalToolCall {
+  name: string
+  input: unknown
+}
+
+export interface EvalTranscript {
+  turns: string[]
+  /** The agent's reply to the last turn */
+  response: string
+  toolCalls: EvalToolCall[]
+  toolCount: number
+  costUsd: number
+  tokens: number
+}
+
+export interface EvalAssertionResult {
+  assertion: EvalAssertion
+  passed: boolean
+  detail: string
+}
+
+export interface EvalCaseResult {
+  case_id: string
+  case_name: string
+  passed: boolean
+  response: string
+  tool_calls: EvalToolCall[]
+  assertions: EvalAssertionResult[]
+  cost_usd: number
+  tokens: number
+  error?: string
+}
+
+const MAX_STEPS_PER_TURN = 10
+
+/**
+ * Check a tool call's input against the expected args.
+ * Only the keys in `expected` are compared, objects are matched recursively
+ * and a string written as "/pattern/flags" is treated as a regular expression.
+ */
+export function matchesArgs(expected: Record<string, unknown>, actual: unknown): boolean {
+  if (!actual || typeof actual !== "object") {
+    return Object.keys(expected).length === 0
+  }
+
+  return Object.entries(expected).every(([key, value]) => {
+    const actualValue = (actual as Record<string, unknown>)[key]
+
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return matchesArgs(value as Record<string, unknown>, actualValue)
+    }
+
+    if (typeof value === "string") {
+      const regex = value.match(/^\/(.+)\/([a-z]*)$/)
+      if (regex) {
+        return actualValue !== undefined && new RegExp(regex[1], regex[2]).test(String(actualValue))
+      }
+    }
+
+    return JSON.stringify(value) === JSON.stringify(actualValue)
+  })
+}
+
+function describeCalls(toolCalls: EvalToolCall[], name: string): string {
+  const calls = toolCalls.filter((call) => call.name === name)
+  if (calls.length === 0) {
+    const called = [...new Set(toolCalls.map((call) => call.name))]
+    return called.length > 0 ? `Called ${called.join(", ")} instead` : "No tools were called"
+  }
+  return `Called with ${calls.map((call) => JSON.stringify(call.input)).join("; ")}`
+}
+
+/**
+ * Evaluate a case's assertions against what the agent did.
+ * Response assertions check the reply to the last turn, case-insensitively.
+ */
+export function evaluateAssertions(assertions: EvalAssertion[], transcript: EvalTranscript): EvalAssertionResult[] {
+  const response = transcript.response.toLowerCase()
+
+  return assertions.map((assertion): EvalAssertionResult => {
+    switch (assertion.type) {
+      case "tool_called": {
+        const passed = transcript.toolCalls.some(
+          (call) => call.name === assertion.tool && (!assertion.args || matchesArgs(assertion.args, call.input))
+        )
+        return { assertion, passed, detail: describeCalls(transcript.toolCalls, assertion.tool) }
+      }
+
+      case "tool_not_called": {
+        const count = transcript.toolCalls.filter((call) => call.name === assertion.tool).length
+        return { assertion, passed: count === 0, detail: count === 0 ? "Not called" : `Called ${count} time(s)` }
+      }
+
+      case "response_mentions": {
+        const passed = response.includes(assertion.text.toLowerCase())
+        return { assertion, passed, detail: passed ? "Mentioned" : `Response doesn't mention "${assertion.text}"` }
+      }
+
+      case "response_omits": {
+        const passed = !response.includes(assertion.text.toLowerCase())
+        return { assertion, passed, detail: passed ? "Not mentioned" : `Response mentions "${assertion.text}"` }
+      }
+
+      case "no_hallucination": {
+        const check = detectHallucination(
+          transcript.response,
+          transcript.toolCalls,
+          transcript.turns.join("\n"),
+          transcript.toolCount
+        )
+        return { assertion, passed: !check.isLikelyHallucination, detail: check.summary }
+      }
+
+      case "max_cost_usd":
+        return {
+          assertion,
+          passed: transcript.costUsd <= assertion.value,
+          detail: `Cost $${transcript.costUsd.toFixed(4)} (limit $${assertion.value})`,
+        }
+
+      case "max_tokens":
+        return {
+          assertion,
+          passed: transcript.tokens <= assertion.value,
+          detail: `Used ${transcript.tokens} tokens (limit ${assertion.value})`,
+        }
+
+      default:
+        return {
+          assertion,
+          passed: false,
+          detail: `Unknown assertion type: ${(assertion as { type: string }).type}`,
+        }
+    }
+  })
+}
+
+/**
+ * Build the version's tools with their real schemas but mocked execution
+ */
+function buildMockTools(config: EvalAgentConfig, evalCase: EvalCase, toolCalls: EvalToolCall[]): ToolSet {
+  const tools: ToolSet = {}
+
+  for (const definition of config.tools) {
+    tools[definition.name] = tool({
+      description: definition.description,
+      inputSchema: jsonSchema(definition.input_schema),
+      execute: async (input: unknown) => {
+        toolCalls.push({ name: definition.name, input })
+        return evalCase.mock_responses?.[definition.name] ?? { success: true, message: "Mock response" }
+      },
+    })
+  }
+
+  return tools
+}
+
+/**
+ * Run one eval case: send each turn, then check the assertions
+ * An aborted run stops at the next turn, and the model call in flight is cancelled.
+ */
+export async function runEvalCase(
+  config: EvalAgentConfig,
+  evalCase: EvalCase,
+  abortSignal?: AbortSignal
+): Promise<EvalCaseResult> {
+  const provider = inferProviderFromModel(config.model)
+  const toolCalls: EvalToolCall[] = []
+  const tools = buildMockTools(config, evalCase, toolCalls)
+  const messages: ModelMessage[] = []
+  let response = ""
+  let costUsd = 0
+  let tokens = 0
+
+  try {
+    const model = getModel(provider, config.model)
+
+    for (const turn of evalCase.turns) {
+      abortSignal?.throwIfAborted()
+      messages.push({ role: "user", content: turn })
+
+      const result = await generateText({
+        model,
+        system: config.systemPrompt,
+        messages,
+        tools: config.tools.length > 0 ? tools : undefined,
+        stopWhen: stepCountIs(Math.min(config.maxTurns || MAX_STEPS_PER_TURN, MAX_STEPS_PER_TURN)),
+        abortSignal,
+      })
+
+      messages.push(...result.response.messages)
+      response = result.text
+      costUsd += calculateCost(provider, config.model, result.totalUsage)
+      tokens += (result.totalUsage.inputTokens || 0) + (result.totalUsage.outputTokens || 0)
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[Agent Evals] Case "${evalCase.name}" failed to run:`, error)
+    return {
+      case_id: evalCase.id,
+      case_name: evalCase.name,
+      passed: false,
+      response,
+      tool_calls: toolCalls,
+      assertions: [],
+      cost_usd: costUsd,
+      tokens,
+      error: message,
+    }
+  }
+
+  const assertions = evaluateAssertions(evalCase.assertions, {
+    turns: evalCase.turns,
+    response,
+    toolCalls,
+    toolCount: config.tools.length,
+    costUsd,
+    tokens,
+  })
+
+  return {
+    case_id: evalCase.id,
+    case_name: evalCase.name,
+    passed: assertions.every((result) => result.passed),
+    response,
+    tool_calls: toolCalls,
+    assertions,
+    cost_usd: costUsd,
+    tokens,
+  }
+}
+
+/**
+ * Run a suite's cases one at a time
+ * Throws the signal's reason once it aborts, without starting the remaining cases.
+ */
+export async function runEvalSuite(
+  config: EvalAgentConfig,
+  cases: EvalCase[],
+  abortSignal?: AbortSignal
+): Promise<EvalCaseResult[]> {
+  const results: EvalCaseResult[] = []
+  for (const evalCase of cases) {
+    abortSignal?.throwIfAborted()
+    results.push(await runEvalCase(config, evalCase, abortSignal))
+  }
+  abortSignal?.throwIfAborted()
+  return results
+}
@@ -188,29 +188,3 @@ export async function createConversation(
 
   return data.id
 }
-
-/**
- * Calculate estimated cost from token usage
- */
-export function calculateCost(
-  model: string,
-  inputTokens: number,
-  outputTokens: number
-): number {
-  // Claude pricing per 1M tokens
-  const pricing: Record<string, { input: number; output: number }> = {
-    "claude-sonnet-4-20250514": { input: 3.0, output: 15.0 },
-    "claude-opus-4-20250514": { input: 15.0, output: 75.0 },
-    "claude-haiku-4-20250514": { input: 0.25, output: 1.25 },
-    // Fallback
-    sonnet: { input: 3.0, output: 15.0 },
-    opus: { input: 15.0, output: 75.0 },
-    haiku: { input: 0.25, output: 1.25 },
-  }
-
-  const modelPricing = pricing[model] || pricing.sonnet
-  const inputCost = (inputTokens / 1_000_000) * modelPricing.input
-  const outputCost = (outputTokens / 1_000_000) * modelPricing.output
-
-  return inputCost + outputCost
-}
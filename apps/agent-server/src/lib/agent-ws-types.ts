@@ -5,6 +5,8 @@
  * for real-time agent communication.
  */
 
+import type { GroundingCheckResult } from "./grounding-check.js"
+
 // ============================================================================
 // SERVER → CLIENT MESSAGES
 // ============================================================================
@@ -60,6 +62,31 @@ export interface ToolResultMessage {
   durationMs: number
 }
 
+/**
+ * Tool call paused until the user approves it (see tool-approval.ts)
+ * The client answers with POST /agent-chat/approvals/:approvalId { approved }
+ */
+export interface ApprovalRequestMessage {
+  type: "approval_request"
+  approvalId: string
+  toolCallId: string
+  toolName: string
+  args: unknown
+  reason: string
+  expiresAt: string
+}
+
+/**
+ * Paused tool call approved, declined, timed out or cancelled
+ */
+export interface ApprovalResolvedMessage {
+  type: "approval_resolved"
+  approvalId: string
+  toolCallId: string
+  approved: boolean
+  outcome: "approved" | "declined" | "timeout" | "cancelled"
+}
+
 /**
  * Delegation to another agent started (team mode)
  */
@@ -101,6 +128,8 @@ export interface DoneMessage {
     costUsd: number
   }
   turnCount: number
+  // Facts in the response checked against this run's tool results
+  grounding?: GroundingCheckResult
 }
 
 /**
@@ -118,6 +147,8 @@ export type ServerMessage =
   | ReasoningMessage
   | ToolStartMessage
   | ToolResultMessage
+  | ApprovalRequestMessage
+  | ApprovalResolvedMessage
   | DelegationStartMessage
   | DelegationCompleteMessage
   | AcknowledgmentMessage
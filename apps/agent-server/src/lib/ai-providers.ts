@@ -3,14 +3,18 @@
  *
  * Unified interface for multiple AI providers using Vercel AI SDK.
  * Supports: Anthropic, OpenAI, xAI (Grok), Google (Gemini), Groq, Mistral, etc.
+ * Providers without their own SDK package - and self-hosted models behind an
+ * OpenAI-compatible server such as Ollama or vLLM - go through the OpenAI chat API.
  */
 
 import { anthropic } from "@ai-sdk/anthropic"
-import { openai } from "@ai-sdk/openai"
+import { createOpenAI, openai } from "@ai-sdk/openai"
 import { xai } from "@ai-sdk/xai"
 import { google } from "@ai-sdk/google"
 import type { LanguageModel } from "ai"
 
+type LanguageModelV3 = Extract<LanguageModel, { specificationVersion: "v3" }>
+
 /**
  * Supported AI providers
  */
@@ -25,16 +29,36 @@ export type AIProvider =
   | "fireworks"
   | "deepseek"
   | "perplexity"
+  | "openai-compatible" // Self-hosted (Ollama, vLLM, ...) at OPENAI_COMPATIBLE_BASE_URL
 
 /**
  * Provider configuration with model aliases
  */
 interface ProviderConfig {
-  provider: (model: string) => LanguageModel
+  provider: (model: string) => LanguageModelV3
   modelAliases?: Record<string, string>
   defaultModel: string
 }
 
+/**
+ * Create models for a provider that speaks the OpenAI chat completions API
+ * Settings are read per call so keys and base URLs can change without a restart.
+ */
+function openAICompatibleProvider(
+  name: string,
+  getBaseURL: () => string | undefined,
+  apiKeyEnvVar: string,
+  // Self-hosted servers usually don't check keys, but the SDK always sends one
+  defaultApiKey?: string
+): (model: string) => LanguageModelV3 {
+  return (model) =>
+    createOpenAI({
+      name,
+      baseURL: getBaseURL(),
+      apiKey: process.env[apiKeyEnvVar] || defaultApiKey || "",
+    }).chat(model)
+}
+
 /**
  * Provider registry - maps provider names to their SDK implementations
  */
@@ -97,28 +121,191 @@ const providerRegistry: Record<string, ProviderConfig> = {
     },
     defaultModel: "gemini-2.0-flash",
   },
+  groq: {
+    provider: openAICompatibleProvider("groq", () => "https://api.groq.com/openai/v1", "GROQ_API_KEY"),
+    modelAliases: {
+      llama: "llama-3.3-70b-versatile",
+      "llama-fast": "llama-3.1-8b-instant",
+    },
+    defaultModel: "llama-3.3-70b-versatile",
+  },
+  mistral: {
+    provider: openAICompatibleProvider("mistral", () => "https://api.mistral.ai/v1", "MISTRAL_API_KEY"),
+    modelAliases: {
+      mistral: "mistral-large-latest",
+      "mistral-large": "mistral-large-latest",
+      "mistral-small": "mistral-small-latest",
+      codestral: "codestral-latest",
+    },
+    defaultModel: "mistral-large-latest",
+  },
+  together: {
+    provider: openAICompatibleProvider("together", () => "https://api.together.xyz/v1", "TOGETHER_AI_API_KEY"),
+    defaultModel: "meta-llama/Llama-3.3-70B-Instruct-Turbo",
+  },
+  fireworks: {
+    provider: openAICompatibleProvider("fireworks", () => "https://api.fireworks.ai/inference/v1", "FIREWORKS_API_KEY"),
+    defaultModel: "accounts/fireworks/models/llama-v3p3-70b-instruct",
+  },
+  deepseek: {
+    provider: openAICompatibleProvider("deepseek", () => "https://api.deepseek.com/v1", "DEEPSEEK_API_KEY"),
+    modelAliases: {
+      deepseek: "deepseek-chat",
+      "deepseek-r1": "deepseek-reasoner",
+    },
+    defaultModel: "deepseek-chat",
+  },
+  perplexity: {
+    provider: openAICompatibleProvider("perplexity", () => "https://api.perplexity.ai", "PERPLEXITY_API_KEY"),
+    defaultModel: "sonar",
+  },
+  "openai-compatible": {
+    provider: openAICompatibleProvider(
+      "openai-compatible",
+      () => process.env.OPENAI_COMPATIBLE_BASE_URL,
+      "OPENAI_COMPATIBLE_API_KEY",
+      "not-needed"
+    ),
+    defaultModel: "llama3.1",
+  },
+}
+
+/**
+ * Split a provider-prefixed model name, e.g. "openai-compatible/qwen2.5:14b" or "groq/llama-3.3-70b-versatile"
+ * Returns null when the prefix isn't a registered provider (e.g. together's "meta-llama/...").
+ */
+export function parseProviderPrefix(model: string): { provider: string; model: string } | null {
+  const slash = model.indexOf("/")
+  if (slash <= 0) return null
+  const provider = model.slice(0, slash)
+  return provider in providerRegistry ? { provider, model: model.slice(slash + 1) } : null
+}
+
+/**
+ * Resolve the model ID a provider is called with, e.g. ("anthropic", "sonnet") -> "claude-sonnet-4-20250514"
+ * Strips a matching provider prefix, resolves aliases and falls back to the provider's default model.
+ */
+export function resolveModelName(provider: string, model: string): string {
+  const config = providerRegistry[provider]
+
+  if (!config) {
+    throw new Error(`Unknown AI provider: ${provider}. Supported: ${Object.keys(providerRegistry).join(", ")}`)
+  }
+
+  const prefixed = model ? parseProviderPrefix(model) : null
+  const name = prefixed?.provider === provider ? prefixed.model : model
+
+  return config.modelAliases?.[name] || name || config.defaultModel
+}
+
+/**
+ * Create a model from the registry, resolving aliases and provider prefixes
+ */
+function createModel(provider: string, model: string): LanguageModelV3 {
+  const resolvedModel = resolveModelName(provider, model)
+
+  console.log(`[AI Providers] Creating model: ${provider}/${resolvedModel}`)
+
+  return providerRegistry[provider].provider(resolvedModel)
 }
 
 /**
  * Get a language model instance for the given provider and model
  *
+ * With fallbackModels, a request that fails on the primary model (an error response,
+ * rate limit or connection failure) is retried on each fallback in turn. Fallbacks are
+ * model names like the primary one - their provider is inferred the same way - and
+ * fallbacks whose provider isn't configured are skipped.
+ *
  * @param provider - The AI provider name (e.g., 'anthropic', 'openai', 'xai')
  * @param model - The model name or alias (e.g., 'sonnet', 'gpt-4o', 'grok-3')
+ * @param fallbackModels - Models to try in order if the primary one fails (e.g., ['grok-4-fast', 'sonnet'])
  * @returns LanguageModel instance ready for use with Vercel AI SDK
  */
-export function getModel(provider: string, model: string): LanguageModel {
-  const config = providerRegistry[provider]
+export function getModel(provider: string, model: string, fallbackModels: string[] = []): LanguageModel {
+  const primary = createModel(provider, model)
 
-  if (!config) {
-    throw new Error(`Unknown AI provider: ${provider}. Supported: ${Object.keys(providerRegistry).join(", ")}`)
+  const chain = [{ provider, model: primary }]
+  for (const fallback of fallbackModels) {
+    const fallbackProvider = inferProviderFromModel(fallback)
+    if (!isProviderConfigured(fallbackProvider)) {
+      console.warn(`[AI Providers] Skipping fallback ${fallback}: ${fallbackProvider} is not configured`)
+      continue
+    }
+    const fallbackModel = createModel(fallbackProvider, fallback)
+    chain.push({ provider: fallbackProvider, model: fallbackModel })
   }
 
-  // Resolve model alias if it exists
-  const resolvedModel = config.modelAliases?.[model] || model || config.defaultModel
+  return chain.length > 1 ? createFallbackModel(chain) : primary
+}
 
-  console.log(`[AI Providers] Creating model: ${provider}/${resolvedModel}`)
+/**
+ * The provider and model that answered one request to a fallback model
+ */
+export interface ServedModel {
+  provider: string
+  model: string // Resolved model ID
+}
 
-  return config.provider(resolvedModel)
+// Models that answered each request to a fallback model, in request order
+const servedModels = new WeakMap<LanguageModelV3, ServedModel[]>()
+
+/**
+ * Get the models that answered each request made with a model from getModel, in order
+ * Each step of a generateText/streamText run is one request, so entry i served step i.
+ *
+ * @returns undefined for a model without fallbacks - the primary model served every request
+ */
+export function getServedModels(model: LanguageModel): ServedModel[] | undefined {
+  return typeof model === "string" ? undefined : servedModels.get(model as LanguageModelV3)
+}
+
+/**
+ * Wrap a chain of models into one that tries each in order until one accepts the request
+ * For streams, only failures before streaming starts fall back - once text has been sent
+ * to the user, switching models would repeat or contradict it.
+ */
+export function createFallbackModel(chain: { provider: string; model: LanguageModelV3 }[]): LanguageModelV3 {
+  const [primary] = chain
+  const served: ServedModel[] = []
+  const label = (entry: (typeof chain)[number]) => `${entry.provider}/${entry.model.modelId}`
+
+  async function tryInOrder<T>(
+    call: (model: LanguageModelV3) => PromiseLike<T>,
+    abortSignal: AbortSignal | undefined
+  ): Promise<T> {
+    let lastError: unknown
+    for (const [index, entry] of chain.entries()) {
+      try {
+        const result = await call(entry.model)
+        served.push({ provider: entry.provider, model: entry.model.modelId })
+        console.log(
+          `[AI Providers] Request served by ${label(entry)}${index > 0 ? ` (fallback ${index} of ${chain.length - 1})` : ""}`
+        )
+        return result
+      } catch (error) {
+        // The caller gave up - don't spend the request on the next provider
+        if (abortSignal?.aborted) throw error
+        lastError = error
+        console.warn(
+          `[AI Providers] ${label(entry)} failed: ${error instanceof Error ? error.message : String(error)}` +
+            (index < chain.length - 1 ? ` - falling back to ${label(chain[index + 1])}` : "")
+        )
+      }
+    }
+    throw lastError
+  }
+
+  const fallbackModel: LanguageModelV3 = {
+    specificationVersion: "v3",
+    provider: primary.model.provider,
+    modelId: primary.model.modelId,
+    supportedUrls: primary.model.supportedUrls,
+    doGenerate: (options) => tryInOrder((model) => model.doGenerate(options), options.abortSignal),
+    doStream: (options) => tryInOrder((model) => model.doStream(options), options.abortSignal),
+  }
+  servedModels.set(fallbackModel, served)
+  return fallbackModel
 }
 
 /**
@@ -150,6 +337,7 @@ export function getApiKeyEnvVar(provider: string): string {
     fireworks: "FIREWORKS_API_KEY",
     deepseek: "DEEPSEEK_API_KEY",
     perplexity: "PERPLEXITY_API_KEY",
+    "openai-compatible": "OPENAI_COMPATIBLE_API_KEY",
   }
   return envVars[provider] || `${provider.toUpperCase()}_API_KEY`
 }
@@ -158,6 +346,10 @@ export function getApiKeyEnvVar(provider: string): string {
  * Check if API key is configured for a provider
  */
 export function isProviderConfigured(provider: string): boolean {
+  // Self-hosted servers need a base URL; the key is optional
+  if (provider === "openai-compatible") {
+    return !!process.env.OPENAI_COMPATIBLE_BASE_URL
+  }
   const envVar = getApiKeyEnvVar(provider)
   return !!process.env[envVar]
 }
@@ -176,6 +368,12 @@ export function shouldUseVercelAI(provider: string | undefined): boolean {
  * Used when provider is not explicitly set in the config
  */
 export function inferProviderFromModel(model: string): string {
+  // An explicit prefix wins, e.g. "openai-compatible/llama3.1" or "groq/llama-3.3-70b-versatile"
+  const prefixed = parseProviderPrefix(model)
+  if (prefixed) {
+    return prefixed.provider
+  }
+
   const modelLower = model.toLowerCase()
   
   // xAI Grok models
@@ -202,6 +400,21 @@ export function inferProviderFromModel(model: string): string {
   if (modelLower.includes("llama") || modelLower.includes("mixtral")) {
     return "groq"
   }
+
+  // Mistral models
+  if (modelLower.includes("mistral") || modelLower.includes("codestral")) {
+    return "mistral"
+  }
+
+  // DeepSeek models
+  if (modelLower.includes("deepseek")) {
+    return "deepseek"
+  }
+
+  // Perplexity models
+  if (modelLower.startsWith("sonar")) {
+    return "perplexity"
+  }
   
   // Default to anthropic if we can't infer
   return "anthropic"
@@ -29,8 +29,9 @@ import {
 } from "./agent-channel.js"
 import { getAgentProfile } from "./agent-profile.js"
 import { waitForAgentResponse } from "./channel-subscription.js"
-import { createMCPClient, type MCPClientInstance } from "./mcp-client.js"
-import { getModel, getApiKeyEnvVar, inferProviderFromModel } from "./ai-providers.js"
+import { createMCPClient, type AgentRunContext, type MCPClientInstance } from "./mcp-client.js"
+import { getModel, getApiKeyEnvVar, getServedModels, inferProviderFromModel, isProviderConfigured } from "./ai-providers.js"
+import { checkSpendBudget, recordAgentSpend } from "./spend-budgets.js"
 
 /**
  * Result of a delegation execution
@@ -244,14 +245,30 @@ export async function handleDelegation(
   const provider = inferProviderFromModel(model)
 
   // Check API key
-  const apiKeyEnvVar = getApiKeyEnvVar(provider)
-  if (!process.env[apiKeyEnvVar]) {
+  if (!isProviderConfigured(provider)) {
     return {
       success: false,
       agentName: targetAgent.name,
       agentSlug: targetAgent.slug,
       response: "",
-      error: `API key not configured: ${apiKeyEnvVar}`,
+      error: `API key not configured: ${getApiKeyEnvVar(provider)}`,
+    }
+  }
+
+  // Refuse the delegation once a hard spend limit is reached
+  const supabase = createAdminClient()
+  const budgetCheck = await checkSpendBudget(supabase, {
+    workspaceId,
+    agentId: targetAgent.id,
+    agentName: targetAgent.name,
+  })
+  if (!budgetCheck.allowed) {
+    return {
+      success: false,
+      agentName: targetAgent.name,
+      agentSlug: targetAgent.slug,
+      response: "",
+      error: budgetCheck.message,
     }
   }
 
@@ -267,6 +284,7 @@ export async function handleDelegation(
         mcpClient = await createMCPClient({
           workspaceId,
           userId,
+          agentId: targetAgent.id,
           enabledTools: toolNames,
         })
         aiTools = mcpClient.tools
@@ -278,12 +296,15 @@ export async function handleDelegation(
     }
 
     // Run the delegated agent query
+    const aiModel = getModel(provider, targetAgent.model, targetAgent.fallback_models)
     const result = await generateText({
-      model: getModel(provider, targetAgent.model),
+      model: aiModel,
       system: systemPrompt,
       messages: [{ role: "user", content: message }],
       tools: Object.keys(aiTools).length > 0 ? aiTools : undefined,
       stopWhen: stepCountIs(5), // AI SDK 6: lower for delegated queries
+      // Changes made for a delegated task are undone with the head agent's conversation
+      experimental_context: { conversationId: options.conversationId || undefined } satisfies AgentRunContext,
     })
 
     const inputTokens = result.usage?.inputTokens || 0
@@ -296,6 +317,20 @@ export async function handleDelegation(
       `[Delegation] Usage: ${inputTokens} input, ${outputTokens} output tokens`
     )
 
+    await recordAgentSpend(supabase, {
+      workspaceId,
+      agentId: targetAgent.id,
+      agentName: targetAgent.name,
+      source: "delegation",
+      sourceId: options.conversationId || null,
+      provider,
+      model,
+      usage: result.totalUsage,
+      servedBy: getServedModels(aiModel),
+      steps: result.steps,
+      metadata: { headAgentSlug },
+    })
+
     return {
       success: true,
       agentName: targetAgent.name,
@@ -0,0 +1,42 @@
+/**
+ * Secret decryption
+ *
+ * Must match the format written by the admin panel's src/lib/encryption.ts:
+ * AES-256-GCM with ENCRYPTION_KEY, stored as iv:authTag:ciphertext (all base64)
+ */
+
+import { createDecipheriv } from "crypto"
+
+const ALGORITHM = "aes-256-gcm"
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+
+/**
+ * Check whether a value looks like an encrypted secret
+ */
+export function isEncrypted(value: string): boolean {
+  const parts = value.split(":")
+  return (
+    parts.length === 3 &&
+    Buffer.from(parts[0], "base64").length === IV_LENGTH &&
+    Buffer.from(parts[1], "base64").length === AUTH_TAG_LENGTH
+  )
+}
+
+/**
+ * Decrypt a secret encrypted by the admin panel
+ */
+export function decryptSecret(encrypted: string): string {
+  const key = process.env.ENCRYPTION_KEY
+  if (!key || key.length !== 64) {
+    throw new Error("ENCRYPTION_KEY must be set to a 64 character hex string")
+  }
+
+  const [ivBase64, authTagBase64, ciphertext] = encrypted.split(":")
+  const decipher = createDecipheriv(ALGORITHM, Buffer.from(key, "hex"), Buffer.from(ivBase64, "base64"))
+  decipher.setAuthTag(Buffer.from(authTagBase64, "base64"))
+
+  let decrypted = decipher.update(ciphertext, "base64", "utf8")
+  decrypted += decipher.final("utf8")
+  return decrypted
+}
@@ -0,0 +1,342 @@
+/**
+ * Grounding Check Module
+ *
+ * Cross-references the facts an agent states in its final response - amounts,
+ * numbers, dates, names and IDs - against the tool results captured in the same
+ * run, and flags claims that don't appear in any tool output.
+ *
+ * Complements detectHallucination, which only looks at the response itself.
+ */
+
+export type GroundingClaimType = "amount" | "percentage" | "number" | "date" | "id" | "email" | "name"
+
+export interface GroundingClaim {
+  type: GroundingClaimType
+  text: string
+  grounded: boolean
+}
+
+export type GroundingStatus = "grounded" | "partially_grounded" | "ungrounded" | "no_claims"
+
+export interface GroundingCheckResult {
+  status: GroundingStatus
+  checkedClaims: number
+  groundedClaims: number
+  /** Claims not found in any tool output */
+  ungroundedClaims: GroundingClaim[]
+  summary: string
+}
+
+export interface GroundingContext {
+  /** The user's message or task prompt (and earlier turns) - values the user supplied count as grounded */
+  prompt?: string
+  /** The current date counts as grounded ("today, October 18") */
+  now?: Date
+}
+
+// Keep stored results small
+const MAX_REPORTED_CLAIMS = 10
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const MONTH_PATTERN =
+  "(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)"
+
+// Capitalized words that start headings and sentences rather than names
+const NON_NAME_WORDS = new Set([
+  "the", "this", "that", "these", "here", "there", "your", "our", "my", "all", "no", "not", "and", "or",
+  "total", "totals", "summary", "overview", "report", "status", "update", "updates", "weekly", "monthly",
+  "daily", "quarterly", "annual", "key", "highlights", "next", "steps", "action", "actions", "items", "notes",
+  "recommendations", "recommendation", "tasks", "task", "projects", "project", "overdue", "upcoming",
+  "completed", "pending", "in", "progress", "open", "closed", "high", "medium", "low", "priority", "team",
+  "revenue", "expenses", "income", "budget", "budgets", "cash", "flow", "balance", "net", "profit", "loss",
+  "today", "tomorrow", "yesterday", "week", "month", "year", "q1", "q2", "q3", "q4", "i", "you", "we",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  "january", "february", "march", "april", "may", "june", "july", "august", "september", "october",
+  "november", "december", "let", "please", "note", "if", "for", "from", "to", "of", "with", "by", "on", "at",
+])
+
+interface Evidence {
+  /** Every string in the tool outputs, lowercased and joined */
+  text: string
+  words: Set<string>
+  numbers: number[]
+  /** "YYYY-MM-DD" and "MM-DD" for every ISO date */
+  dates: Set<string>
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0")
+}
+
+function addDate(dates: Set<string>, year: number | null, month: number, day: number): void {
+  dates.add(`${pad(month)}-${pad(day)}`)
+  if (year) dates.add(`${year}-${pad(month)}-${pad(day)}`)
+}
+
+function parseNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ""))
+}
+
+/**
+ * Gather everything the tools returned: strings, numbers, dates,
+ * and derived values - list lengths and totals of numeric fields in lists
+ */
+function collectEvidence(outputs: unknown[], context: GroundingContext): Evidence {
+  const strings: string[] = []
+  const numbers: number[] = []
+  const dates = new Set<string>()
+
+  const visit = (value: unknown, depth: number): void => {
+    if (value === null || value === undefined || depth > 20) return
+
+    if (typeof value === "number") {
+      numbers.push(value)
+      return
+    }
+
+    if (typeof value === "string") {
+      // MCP tools often return JSON as text
+      const trimmed = value.trim()
+      if ((trimmed.startsWith("{") || trimmed.startsWith("[")) && trimmed.length < 500_000) {
+        try {
+          visit(JSON.parse(trimmed), depth + 1)
+          return
+        } catch {
+          // Not JSON - treat as text
+        }
+      }
+      strings.push(value)
+      for (const match of value.matchAll(/\d[\d,]*(?:\.\d+)?/g)) numbers.push(parseNumber(match[0]))
+      for (const match of value.matchAll(/\b(\d{4})-(\d{2})-(\d{2})/g)) {
+        addDate(dates, Number(match[1]), Number(match[2]), Number(match[3]))
+      }
+      return
+    }
+
+    if (Array.isArray(value)) {
+      numbers.push(value.length)
+
+      // Agents report totals of what they listed, e.g. "3 invoices totalling $4,200"
+      const totals = new Map<string, number>()
+      for (const item of value) {
+        if (item && typeof item === "object" && !Array.isArray(item)) {
+          for (const [key, field] of Object.entries(item)) {
+            const amount = typeof field === "number" ? field : typeof field === "string" && /^-?\d+(\.\d+)?$/.test(field) ? Number(field) : null
+            if (amount !== null) totals.set(key, (totals.get(key) || 0) + amount)
+          }
+        }
+        visit(item, depth + 1)
+      }
+      numbers.push(...totals.values())
+      return
+    }
+
+    if (typeof value === "object") {
+      for (const field of Object.values(value)) visit(field, depth + 1)
+    }
+  }
+
+  for (const output of outputs) visit(output, 0)
+
+  if (context.now) {
+    addDate(dates, context.now.getFullYear(), context.now.getMonth() + 1, context.now.getDate())
+    numbers.push(context.now.getFullYear())
+  }
+
+  const text = strings.join("\n").toLowerCase()
+  return {
+    text,
+    words: new Set(text.match(/[a-z0-9'’-]+/g) || []),
+    numbers,
+    dates,
+  }
+}
+
+interface ExtractedClaim {
+  type: GroundingClaimType
+  text: string
+  check: (evidence: Evidence, prompt: string) => boolean
+}
+
+/**
+ * A number matches if it's within rounding distance of a value the tools returned:
+ * half a unit of its last digit, or 1% for rounded figures like "about $1,200"
+ */
+function numberCheck(value: number, decimals: number, multiplier: number, isPercentage = false) {
+  const tolerance = Math.max((Math.pow(10, -decimals) * multiplier) / 2, Math.abs(value) * 0.01) + 1e-9
+
+  return (evidence: Evidence) =>
+    evidence.numbers.some((n) => {
+      const actual = Math.abs(n)
+      if (Math.abs(actual - value) <= tolerance) return true
+      // Percentages are often stored as fractions (0.42 -> 42%)
+      return isPercentage && actual <= 1 && Math.abs(actual * 100 - value) <= tolerance
+    })
+}
+
+function textCheck(text: string) {
+  const needle = text.toLowerCase()
+  return (evidence: Evidence, prompt: string) => evidence.text.includes(needle) || prompt.includes(needle)
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1
+}
+
+function dateCheck(year: number | null, month: number, day: number) {
+  const key = year ? `${year}-${pad(month)}-${pad(day)}` : `${pad(month)}-${pad(day)}`
+  return (evidence: Evidence) => evidence.dates.has(key)
+}
+
+/**
+ * Pull checkable claims out of the response. Each match is blanked out
+ * so a date isn't also checked as three numbers.
+ */
+function extractClaims(response: string): ExtractedClaim[] {
+  const claims: ExtractedClaim[] = []
+  let remaining = response
+
+  const take = (pattern: RegExp, toClaim: (match: RegExpMatchArray) => ExtractedClaim | null) => {
+    remaining = remaining.replace(pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpMatchArray
+      const claim = toClaim(match)
+      if (claim) claims.push(claim)
+      return " ".repeat(String(args[0]).length)
+    })
+  }
+
+  take(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, (m) => ({ type: "email", text: m[0], check: textCheck(m[0]) }))
+
+  take(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, (m) => ({
+    type: "id",
+    text: m[0],
+    check: textCheck(m[0]),
+  }))
+
+  take(/\b[A-Z]{2,}-\d+\b/g, (m) => ({ type: "id", text: m[0], check: textCheck(m[0]) }))
+
+  take(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (m) => ({
+    type: "date",
+    text: m[0],
+    check: dateCheck(Number(m[1]), Number(m[2]), Number(m[3])),
+  }))
+
+  take(new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`, "g"), (m) => ({
+    type: "date",
+    text: m[0],
+    check: dateCheck(m[3] ? Number(m[3]) : null, monthIndex(m[1]), Number(m[2])),
+  }))
+
+  take(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}\\b(?:,?\\s+(\\d{4}))?`, "g"), (m) => ({
+    type: "date",
+    text: m[0],
+    check: dateCheck(m[3] ? Number(m[3]) : null, monthIndex(m[2]), Number(m[1])),
+  }))
+
+  take(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g, (m) => ({
+    type: "date",
+    text: m[0],
+    check: dateCheck(Number(m[3]), Number(m[1]), Number(m[2])),
+  }))
+
+  take(/[$€£]\s?(\d[\d,]*)(?:\.(\d+))?(?:\s?([kKmMbB])\b)?/g, (m) => {
+    const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[m[3]?.toLowerCase() as "k" | "m" | "b"] || 1
+    const value = parseNumber(`${m[1]}${m[2] ? `.${m[2]}` : ""}`) * multiplier
+    return { type: "amount", text: m[0].trim(), check: numberCheck(value, m[2]?.length || 0, multiplier) }
+  })
+
+  take(/(\d+)(?:\.(\d+))?\s?%/g, (m) => ({
+    type: "percentage",
+    text: m[0],
+    check: numberCheck(parseNumber(`${m[1]}${m[2] ? `.${m[2]}` : ""}`), m[2]?.length || 0, 1, true),
+  }))
+
+  take(/(?:#|\b)(\d[\d,]*)(?:\.(\d+))?\b/g, (m) => {
+    const value = parseNumber(`${m[1]}${m[2] ? `.${m[2]}` : ""}`)
+    // Single digits are list numbering and small counts far more often than facts
+    if (!m[2] && value < 10) return null
+    return { type: "number", text: m[0], check: numberCheck(value, m[2]?.length || 0, 1) }
+  })
+
+  // Names: runs of capitalized words, skipping headings and common title words
+  const body = remaining
+    .split("\n")
+    .filter((line) => !/^\s*#/.test(line))
+    .join("\n")
+  for (const match of body.matchAll(/\b[A-Z][a-z]+(?:['’-][A-Z]?[a-z]+)?(?:\s+[A-Z][a-z]+(?:['’-][A-Z]?[a-z]+)?)+\b/g)) {
+    const words = match[0].split(/\s+/)
+    while (words.length > 0 && NON_NAME_WORDS.has(words[0].toLowerCase())) words.shift()
+    while (words.length > 0 && NON_NAME_WORDS.has(words[words.length - 1].toLowerCase())) words.pop()
+    if (words.length < 2) continue
+
+    const name = words.join(" ")
+    claims.push({
+      type: "name",
+      text: name,
+      check: (evidence, prompt) =>
+        textCheck(name)(evidence, prompt) ||
+        // Stored as separate first/last name fields
+        words.every((word) => evidence.words.has(word.toLowerCase())),
+    })
+  }
+
+  // Check each distinct claim once
+  const seen = new Set<string>()
+  return claims.filter((claim) => {
+    const key = `${claim.type}:${claim.text.toLowerCase()}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Check the facts in an agent's response against the outputs of the tools it called
+ */
+export function checkGrounding(
+  response: string,
+  toolOutputs: unknown[],
+  context: GroundingContext = {}
+): GroundingCheckResult {
+  const claims = extractClaims(response)
+  const evidence = collectEvidence(toolOutputs, context)
+  const prompt = (context.prompt || "").toLowerCase()
+
+  const checked: GroundingClaim[] = claims.map((claim) => ({
+    type: claim.type,
+    text: claim.text,
+    grounded: claim.check(evidence, prompt) || prompt.includes(claim.text.toLowerCase()),
+  }))
+
+  const ungrounded = checked.filter((claim) => !claim.grounded)
+  const groundedCount = checked.length - ungrounded.length
+
+  let status: GroundingStatus
+  let summary: string
+  if (checked.length === 0) {
+    status = "no_claims"
+    summary = "No facts to check"
+  } else if (ungrounded.length === 0) {
+    status = "grounded"
+    summary = `All ${checked.length} facts found in tool results`
+  } else {
+    status = groundedCount === 0 ? "ungrounded" : "partially_grounded"
+    const examples = ungrounded.slice(0, 3).map((claim) => claim.text).join(", ")
+    summary = `${ungrounded.length} of ${checked.length} facts not found in tool results: ${examples}${ungrounded.length > 3 ? ", …" : ""}`
+  }
+
+  return {
+    status,
+    checkedClaims: checked.length,
+    groundedClaims: groundedCount,
+    ungroundedClaims: ungrounded.slice(0, MAX_REPORTED_CLAIMS),
+    summary,
+  }
+}
+
+/**
+ * Format a grounding check result for logging
+ */
+export function formatGroundingResult(result: GroundingCheckResult): string {
+  return `Grounding check: ${result.status} - ${result.summary}`
+}
@@ -1,16 +1,18 @@
 /**
  * MCP Client for Vercel AI SDK
  *
- * Connects to our MCP server via stdio and provides tools
- * in Vercel AI SDK format for use with non-Anthropic providers (xAI, etc.)
+ * Connects to our MCP server via stdio (or over HTTP when MCP_SERVER_URL is set)
+ * and provides tools in Vercel AI SDK format for use with non-Anthropic providers (xAI, etc.)
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
 import { tool } from "ai"
 import { z } from "zod"
 import path from "path"
 import { fileURLToPath } from "url"
+import { signMCPSessionToken } from "./mcp-token.js"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -18,9 +20,19 @@ const __dirname = path.dirname(__filename)
 export interface MCPClientConfig {
   workspaceId: string
   userId: string
+  agentId?: string // Recorded with each tool call in the MCP server's audit trail
   enabledTools: string[]
 }
 
+/**
+ * The agent run tool calls belong to - pass as experimental_context to generateText/streamText
+ * Our MCP server records the changes write tools make against it so the run can be undone
+ */
+export interface AgentRunContext {
+  conversationId?: string
+  executionId?: string
+}
+
 export interface MCPClientInstance {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   tools: Record<string, any>
@@ -71,15 +83,30 @@ function jsonSchemaToZod(schema: Record<string, unknown>): z.ZodTypeAny {
 }
 
 /**
- * Create an MCP client that connects to our MCP server
- * and provides tools in Vercel AI SDK format
+ * Connect to a shared MCP server over HTTP when MCP_SERVER_URL and MCP_TOKEN_SECRET are set,
+ * otherwise spawn a dedicated MCP server process for this workspace/user
  */
-export async function createMCPClient(config: MCPClientConfig): Promise<MCPClientInstance> {
+function createTransport(config: MCPClientConfig): StdioClientTransport | StreamableHTTPClientTransport {
+  const serverUrl = process.env.MCP_SERVER_URL
+  const tokenSecret = process.env.MCP_TOKEN_SECRET
+
+  if (serverUrl && tokenSecret) {
+    // Sign a fresh short-lived token per request so pooled clients never hold an expired one
+    return new StreamableHTTPClientTransport(new URL(serverUrl), {
+      fetch: (url, init) => {
+        const headers = new Headers(init?.headers)
+        const token = signMCPSessionToken(config, tokenSecret)
+        headers.set("Authorization", `Bearer ${token}`)
+        return fetch(url, { ...init, headers })
+      },
+    })
+  }
+
   // Path to MCP server
   const mcpServerPath = path.resolve(__dirname, "../../../../packages/mcp-server/dist/index.js")
 
   // Create stdio transport to spawn and connect to MCP server
-  const transport = new StdioClientTransport({
+  return new StdioClientTransport({
     command: "node",
     args: [mcpServerPath],
     env: {
@@ -88,9 +115,18 @@ export async function createMCPClient(config: MCPClientConfig): Promise<MCPClien
       SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY || "",
       WORKSPACE_ID: config.workspaceId,
       USER_ID: config.userId,
+      AGENT_ID: config.agentId || "",
       ENABLED_TOOLS: config.enabledTools.join(","),
     },
   })
+}
+
+/**
+ * Create an MCP client that connects to our MCP server
+ * and provides tools in Vercel AI SDK format
+ */
+export async function createMCPClient(config: MCPClientConfig): Promise<MCPClientInstance> {
+  const transport = createTransport(config)
 
   // Create MCP client
   const client = new Client(
@@ -107,32 +143,64 @@ export async function createMCPClient(config: MCPClientConfig): Promise<MCPClien
   await client.connect(transport)
 
   // List available tools from server
-  const toolsResponse = await client.listTools()
-  const mcpTools = toolsResponse.tools
+  const aiTools = await listAITools(client, { forwardAgentRun: true })
 
-  console.log(`[MCP Client] Connected, found ${mcpTools.length} tools`)
+  console.log(`[MCP Client] Connected, found ${Object.keys(aiTools).length} tools`)
 
-  // Convert MCP tools to Vercel AI SDK format
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const aiTools: Record<string, any> = {}
+  return {
+    tools: aiTools,
+    close: async () => {
+      await client.close()
+    },
+  }
+}
+
+/**
+ * List a connected MCP client's tools in Vercel AI SDK format
+ * toolName maps each MCP tool name to the name the model sees (e.g. to namespace external tools)
+ * forwardAgentRun sends the run and tool call ID with each call (only to our own MCP server)
+ */
+export async function listAITools(
+  client: Client,
+  options: {
+    toolName?: (mcpToolName: string) => string
+    forwardAgentRun?: boolean
+  } = {}
+): Promise<MCPClientInstance["tools"]> {
+  const { toolName = (name: string) => name, forwardAgentRun = false } = options
+  const toolsResponse = await client.listTools()
 
-  for (const mcpTool of mcpTools) {
-    const toolName = mcpTool.name
+  const aiTools: MCPClientInstance["tools"] = {}
+
+  for (const mcpTool of toolsResponse.tools) {
+    const mcpToolName = mcpTool.name
     const inputSchema = mcpTool.inputSchema as Record<string, unknown>
 
+    // Renamed tools (e.g. namespaced and cut to a length limit) can collide; keep the first
+    const name = toolName(mcpToolName)
+    if (name in aiTools) {
+      console.warn(`[MCP] Skipping tool ${mcpToolName}: its name ${name} is already taken`)
+      continue
+    }
+
     // Convert JSON Schema to Zod
     const zodSchema = jsonSchemaToZod(inputSchema) as z.ZodObject<Record<string, z.ZodTypeAny>>
 
     // Create Vercel AI SDK tool (AI SDK 6 syntax)
-    aiTools[toolName] = tool({
+    aiTools[name] = tool({
       description: mcpTool.description || "",
       inputSchema: zodSchema,
-      execute: async (args: z.infer<typeof zodSchema>) => {
+      execute: async (args: z.infer<typeof zodSchema>, { toolCallId, experimental_context }) => {
         try {
+          const run = experimental_context as AgentRunContext | undefined
+
           // Call the MCP tool
           const result = await client.callTool({
-            name: toolName,
+            name: mcpToolName,
             arguments: args as Record<string, unknown>,
+            ...(forwardAgentRun && run && {
+              _meta: { agentRun: { conversationId: run.conversationId, executionId: run.executionId, toolCallId } },
+            }),
           })
 
           // Extract text content from MCP response
@@ -149,7 +217,7 @@ export async function createMCPClient(config: MCPClientConfig): Promise<MCPClien
             return textContent
           }
         } catch (error) {
-          console.error(`[MCP Client] Tool ${toolName} error:`, error)
+          console.error(`[MCP Client] Tool ${mcpToolName} error:`, error)
           return {
             error: error instanceof Error ? error.message : "Tool execution failed",
           }
@@ -158,10 +226,5 @@ export async function createMCPClient(config: MCPClientConfig): Promise<MCPClien
     })
   }
 
-  return {
-    tools: aiTools,
-    close: async () => {
-      await client.close()
-    },
-  }
+  return aiTools
 }
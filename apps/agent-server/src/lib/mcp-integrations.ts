@@ -0,0 +1,376 @@
+/**
+ * External MCP Integrations
+ *
+ * Connects agents to the external MCP servers superadmins register in the admin panel
+ * (mcp_integrations) and assign per agent (ai_agent_mcp_integrations). Their tools are
+ * namespaced as <integration>__<tool> so they can't collide with our built-in tools or
+ * with each other. Secrets in auth_config are decrypted only at connect time.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import { listAITools, type MCPClientInstance } from "./mcp-client.js"
+import { decryptSecret, isEncrypted } from "./encryption.js"
+
+export interface MCPIntegration {
+  id: string
+  name: string
+  type: "stdio" | "sse" | "http"
+  config: {
+    url?: string                       // sse / http
+    headers?: Record<string, string>   // sse / http
+    command?: string                   // stdio
+    args?: string[]                    // stdio
+    env?: Record<string, string>       // stdio
+    timeout?: number                   // connect timeout in ms
+  }
+  auth_type: "none" | "api_key" | "oauth" | "basic"
+  auth_config: {
+    api_key?: string
+    header_name?: string  // api_key: header to send the key in (default Authorization: Bearer <key>)
+    env_var?: string      // api_key over stdio: env var to pass the key in (default API_KEY)
+    username?: string
+    password?: string
+    access_token?: string
+  }
+  is_enabled: boolean
+}
+
+export interface MCPIntegrationHealth {
+  integration_id: string
+  status: "healthy" | "unhealthy"
+  tool_count: number
+  tools: string[]
+  latency_ms: number
+  error?: string
+}
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 15000
+const MAX_TOOL_NAME_LENGTH = 64 // Model providers reject longer tool names
+
+/**
+ * Turn an integration name into a tool name prefix, e.g. "GitHub Enterprise" -> "github_enterprise"
+ */
+export function toolNamespace(integrationName: string): string {
+  const namespace = integrationName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 24)
+  return namespace || "mcp"
+}
+
+/**
+ * Name an external tool as the model sees it, e.g. github__create_issue
+ */
+export function namespacedToolName(namespace: string, toolName: string): string {
+  return `${namespace}__${toolName.replace(/[^a-zA-Z0-9_-]/g, "_")}`.slice(0, MAX_TOOL_NAME_LENGTH)
+}
+
+/**
+ * Give each integration a distinct tool name prefix
+ * Integrations are taken in id order, so a name shared by several integrations gets
+ * the same suffix (github, github_2, ...) on every run whatever order they were loaded in
+ */
+export function assignToolNamespaces(integrations: MCPIntegration[]): Map<string, string> {
+  const namespaces = new Map<string, string>()
+  const taken = new Set<string>()
+
+  for (const integration of [...integrations].sort((a, b) => a.id.localeCompare(b.id))) {
+    const base = toolNamespace(integration.name)
+    let namespace = base
+    for (let n = 2; taken.has(namespace); n++) {
+      namespace = `${base}_${n}`
+    }
+    taken.add(namespace)
+    namespaces.set(integration.id, namespace)
+  }
+
+  return namespaces
+}
+
+/**
+ * Add an integration's tools to the agent's tool set
+ * Names cut to MAX_TOOL_NAME_LENGTH can still collide; the tool already there is kept
+ * and the newcomer is skipped rather than silently replacing it
+ *
+ * @returns The number of tools added
+ */
+export function mergeIntegrationTools(
+  tools: MCPClientInstance["tools"],
+  integrationTools: MCPClientInstance["tools"],
+  integrationName: string
+): number {
+  let added = 0
+  for (const [name, tool] of Object.entries(integrationTools)) {
+    if (name in tools) {
+      console.warn(`[MCP Integrations] Skipping "${integrationName}" tool ${name}: another integration already uses that name`)
+      continue
+    }
+    tools[name] = tool
+    added++
+  }
+  return added
+}
+
+/**
+ * Decrypt a secret from auth_config
+ * Rows saved before secrets were encrypted still hold plaintext
+ */
+function readSecret(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  return isEncrypted(value) ? decryptSecret(value) : value
+}
+
+/**
+ * Build the headers (sse/http) or environment variables (stdio) that authenticate a connection
+ */
+export function resolveIntegrationAuth(integration: MCPIntegration): {
+  headers: Record<string, string>
+  env: Record<string, string>
+} {
+  const auth = integration.auth_config || {}
+
+  switch (integration.auth_type) {
+    case "api_key": {
+      const apiKey = readSecret(auth.api_key)
+      if (!apiKey) throw new Error("API key is not configured")
+      const headerName = auth.header_name || "Authorization"
+      return {
+        headers: { [headerName]: headerName.toLowerCase() === "authorization" ? `Bearer ${apiKey}` : apiKey },
+        env: { [auth.env_var || "API_KEY"]: apiKey },
+      }
+    }
+    case "basic": {
+      const password = readSecret(auth.password)
+      if (!auth.username || !password) throw new Error("Username and password are not configured")
+      return {
+        headers: { Authorization: `Basic ${Buffer.from(`${auth.username}:${password}`).toString("base64")}` },
+        env: {},
+      }
+    }
+    case "oauth": {
+      const accessToken = readSecret(auth.access_token)
+      if (!accessToken) throw new Error("OAuth access token is not configured")
+      return { headers: { Authorization: `Bearer ${accessToken}` }, env: {} }
+    }
+    default:
+      return { headers: {}, env: {} }
+  }
+}
+
+function createIntegrationTransport(integration: MCPIntegration): Transport {
+  const config = integration.config || {}
+  const { headers, env } = resolveIntegrationAuth(integration)
+
+  if (integration.type === "stdio") {
+    if (!config.command) throw new Error("No command configured")
+    return new StdioClientTransport({
+      command: config.command,
+      args: config.args || [],
+      env: { PATH: process.env.PATH || "", ...config.env, ...env },
+    })
+  }
+
+  if (!config.url) throw new Error("No URL configured")
+  const requestInit = { headers: { ...config.headers, ...headers } }
+  return integration.type === "sse"
+    ? new SSEClientTransport(new URL(config.url), { requestInit })
+    : new StreamableHTTPClientTransport(new URL(config.url), { requestInit })
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms)
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Connect to one integration and list its tools
+ */
+async function connectIntegration(integration: MCPIntegration, namespace: string) {
+  const client = new Client({ name: "agent-server-client", version: "1.0.0" }, { capabilities: {} })
+  const timeout = integration.config?.timeout || DEFAULT_CONNECT_TIMEOUT_MS
+
+  try {
+    await withTimeout(
+      client.connect(createIntegrationTransport(integration)),
+      timeout,
+      `Connection timed out after ${timeout}ms`
+    )
+    const tools = await withTimeout(
+      listAITools(client, { toolName: (name) => namespacedToolName(namespace, name) }),
+      timeout,
+      `Listing tools timed out after ${timeout}ms`
+    )
+    return { client, tools }
+  } catch (error) {
+    await client.close().catch(() => {})
+    throw error
+  }
+}
+
+/**
+ * Save the outcome of the latest connection so admins can see broken integrations
+ */
+async function recordIntegrationHealth(
+  supabase: SupabaseClient,
+  integrationId: string,
+  result: { toolCount: number } | { error: string }
+): Promise<void> {
+  const { error } = await supabase
+    .from("mcp_integrations")
+    .update(
+      "error" in result
+        ? { health_status: "unhealthy", last_health_error: result.error, last_health_check_at: new Date().toISOString() }
+        : { health_status: "healthy", last_health_error: null, tool_count: result.toolCount, last_health_check_at: new Date().toISOString() }
+    )
+    .eq("id", integrationId)
+
+  if (error) {
+    console.error(`[MCP Integrations] Failed to record health for ${integrationId}:`, error.message)
+  }
+}
+
+/**
+ * Load enabled integrations by ID (from a deployed agent config)
+ */
+export async function loadMCPIntegrations(
+  supabase: SupabaseClient,
+  integrationIds: string[]
+): Promise<MCPIntegration[]> {
+  if (integrationIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from("mcp_integrations")
+    .select("*")
+    .in("id", integrationIds)
+    .eq("is_enabled", true)
+
+  if (error) {
+    console.error("[MCP Integrations] Failed to load integrations:", error.message)
+    return []
+  }
+  return (data || []) as MCPIntegration[]
+}
+
+/**
+ * Load the enabled integrations assigned to an agent (ai_agents.id)
+ */
+export async function loadAgentMCPIntegrations(
+  supabase: SupabaseClient,
+  aiAgentId: string
+): Promise<MCPIntegration[]> {
+  const { data, error } = await supabase
+    .from("ai_agent_mcp_integrations")
+    .select("mcp_integration_id")
+    .eq("agent_id", aiAgentId)
+
+  if (error) {
+    console.error("[MCP Integrations] Failed to load agent integrations:", error.message)
+    return []
+  }
+  return loadMCPIntegrations(supabase, (data || []).map((row) => row.mcp_integration_id as string))
+}
+
+/**
+ * Connect to an agent's external integrations and merge their tools
+ * An integration that fails to connect is skipped (and marked unhealthy) so it can't take the agent down
+ */
+export async function connectMCPIntegrations(
+  supabase: SupabaseClient,
+  integrations: MCPIntegration[]
+): Promise<MCPClientInstance> {
+  // Id order keeps prefixes and collision winners stable between runs
+  const ordered = [...integrations].sort((a, b) => a.id.localeCompare(b.id))
+  const namespaces = assignToolNamespaces(ordered)
+
+  const results = await Promise.allSettled(
+    ordered.map((integration) => connectIntegration(integration, namespaces.get(integration.id)!))
+  )
+
+  const clients: Client[] = []
+  const tools: MCPClientInstance["tools"] = {}
+
+  await Promise.all(
+    results.map((result, i) => {
+      const integration = ordered[i]
+      if (result.status === "rejected") {
+        const message = result.reason instanceof Error ? result.reason.message : String(result.reason)
+        console.error(`[MCP Integrations] Failed to connect to "${integration.name}":`, message)
+        return recordIntegrationHealth(supabase, integration.id, { error: message })
+      }
+
+      clients.push(result.value.client)
+      const added = mergeIntegrationTools(tools, result.value.tools, integration.name)
+      console.log(`[MCP Integrations] Connected to "${integration.name}" with ${added} tools`)
+      return recordIntegrationHealth(supabase, integration.id, { toolCount: Object.keys(result.value.tools).length })
+    })
+  )
+
+  return {
+    tools,
+    close: async () => {
+      await Promise.allSettled(clients.map((client) => client.close()))
+    },
+  }
+}
+
+/**
+ * Connect to an integration, list its tools and record the result
+ * Used by the admin panel's health check - runs whether or not the integration is enabled
+ */
+export async function checkMCPIntegrationHealth(
+  supabase: SupabaseClient,
+  integrationId: string
+): Promise<MCPIntegrationHealth | null> {
+  const { data: integration } = await supabase
+    .from("mcp_integrations")
+    .select("*")
+    .eq("id", integrationId)
+    .single()
+
+  if (!integration) return null
+
+  const startTime = Date.now()
+  try {
+    const { client, tools } = await connectIntegration(
+      integration as MCPIntegration,
+      toolNamespace((integration as MCPIntegration).name)
+    )
+    await client.close()
+
+    const toolNames = Object.keys(tools)
+    await recordIntegrationHealth(supabase, integrationId, { toolCount: toolNames.length })
+    return {
+      integration_id: integrationId,
+      status: "healthy",
+      tool_count: toolNames.length,
+      tools: toolNames,
+      latency_ms: Date.now() - startTime,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await recordIntegrationHealth(supabase, integrationId, { error: message })
+    return {
+      integration_id: integrationId,
+      status: "unhealthy",
+      tool_count: 0,
+      tools: [],
+      latency_ms: Date.now() - startTime,
+      error: message,
+    }
+  }
+}
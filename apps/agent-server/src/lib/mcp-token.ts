@@ -0,0 +1,34 @@
+/**
+ * Session tokens for the MCP server's HTTP transport.
+ *
+ * Must match the format verified by packages/mcp-server/src/lib/session-token.ts:
+ * mcp_<base64url(JSON claims)>.<base64url(HMAC-SHA256 of the claims part)>
+ */
+
+import { createHmac } from "crypto"
+
+const TOKEN_TTL_SECONDS = 5 * 60
+
+export interface MCPTokenClaims {
+  workspaceId: string
+  userId?: string
+  agentId?: string
+  enabledTools?: string[]
+}
+
+/**
+ * Sign a short-lived token that lets an MCP session act for a workspace/user
+ */
+export function signMCPSessionToken(claims: MCPTokenClaims, secret: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      wid: claims.workspaceId,
+      ...(claims.userId ? { uid: claims.userId } : {}),
+      ...(claims.agentId ? { aid: claims.agentId } : {}),
+      ...(claims.enabledTools ? { tools: claims.enabledTools } : {}),
+      exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+    })
+  ).toString("base64url")
+  const signature = createHmac("sha256", secret).update(payload).digest("base64url")
+  return `mcp_${payload}.${signature}`
+}
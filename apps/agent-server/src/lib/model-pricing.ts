@@ -0,0 +1,45 @@
+/**
+ * Model Pricing
+ *
+ * Prices agent runs for spend budgets (see spend-budgets.ts). The price table lives in
+ * @dreamteam/ai-pricing, shared with user-web; this module resolves the provider and model
+ * as configured on an agent (aliases, provider prefixes) to the model ID the table is keyed by.
+ *
+ * When adding a model or alias to ai-providers.ts, add its price to @dreamteam/ai-pricing too -
+ * unknown models are billed at their provider's default model price and logged.
+ */
+
+import {
+  calculateCost as calculateModelCost,
+  getModelPrice as getResolvedModelPrice,
+  type ModelPrice,
+  type TokenUsage,
+} from "@dreamteam/ai-pricing"
+import { inferProviderFromModel, parseProviderPrefix, resolveModelName } from "./ai-providers.js"
+
+export type { ModelPrice, TokenUsage }
+
+function resolvePricedModel(provider: string | undefined, model: string): { provider: string; modelId: string } {
+  const prefixed = parseProviderPrefix(model)
+  const resolvedProvider = prefixed?.provider || provider || inferProviderFromModel(model)
+  return { provider: resolvedProvider, modelId: resolveModelName(resolvedProvider, model) }
+}
+
+/**
+ * Get the price of a model
+ *
+ * @param provider - The AI provider name, or undefined to infer it from the model
+ * @param model - The model name or alias as configured on the agent (e.g. "sonnet")
+ */
+export function getModelPrice(provider: string | undefined, model: string): ModelPrice {
+  const resolved = resolvePricedModel(provider, model)
+  return getResolvedModelPrice(resolved.provider, resolved.modelId)
+}
+
+/**
+ * Calculate the cost in USD of a model call from its token usage
+ */
+export function calculateCost(provider: string | undefined, model: string, usage: TokenUsage): number {
+  const resolved = resolvePricedModel(provider, model)
+  return calculateModelCost(resolved.provider, resolved.modelId, usage)
+}
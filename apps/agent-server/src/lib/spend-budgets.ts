@@ -0,0 +1,381 @@
+/**
+ * Spend Budgets
+ *
+ * Monthly AI spend budgets per workspace and per agent (ai_spend_budgets). Every agent
+ * run - live chat, delegation and scheduled tasks - is priced with model-pricing.ts and
+ * recorded in ai_usage_log. Workflow "Ask AI Agent" steps run in user-web, which prices
+ * and checks them the same way (user-web/src/lib/ai-usage.ts). Budgets reset on the
+ * first of each month (UTC):
+ * - At soft_limit_percent of the limit, a warning is posted to the workspace's #general channel
+ * - At the limit, a hard_limit budget makes new runs refuse to start until the next month
+ *
+ * A run that has already started is never cut off, so spend can overshoot the limit by
+ * the cost of the runs in flight.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { calculateCost, type TokenUsage } from "./model-pricing.js"
+import type { ServedModel } from "./ai-providers.js"
+
+export type AgentSpendSource = "chat" | "delegation" | "scheduled"
+
+export interface SpendBudget {
+  id: string
+  workspace_id: string
+  agent_id: string | null
+  monthly_limit_usd: number
+  soft_limit_percent: number
+  hard_limit: boolean
+  warned_period: string | null
+  exceeded_period: string | null
+}
+
+export interface BudgetStatus {
+  budget: SpendBudget
+  spentUsd: number
+}
+
+export interface SpendBudgetCheck {
+  allowed: boolean
+  // Why the run was refused - shown to the user as is
+  message?: string
+}
+
+export interface RecordAgentSpendOptions {
+  workspaceId: string
+  agentId?: string | null  // ai_agents id
+  agentName?: string
+  source: AgentSpendSource
+  sourceId?: string | null // e.g. the conversation or schedule execution id
+  provider: string
+  model: string
+  usage: TokenUsage
+  // For a model with fallbacks: the model that served each step (getServedModels) and each
+  // step's usage, so steps a fallback answered are priced and logged against that model
+  servedBy?: ServedModel[]
+  steps?: { usage: TokenUsage }[]
+  metadata?: Record<string, unknown>
+}
+
+interface ModelUsage {
+  provider: string
+  model: string
+  usage: TokenUsage
+}
+
+/**
+ * First day of the budget month containing `now`, as a YYYY-MM-DD date
+ */
+export function getBudgetPeriod(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10)
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+function formatResetDate(now: Date): string {
+  const reset = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  return reset.toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" })
+}
+
+function describeBudget(budget: SpendBudget, agentName?: string): string {
+  if (!budget.agent_id) return "This workspace"
+  return agentName || "An agent in this workspace"
+}
+
+/**
+ * Load the budgets that apply to a run
+ * A run counts against the workspace budget and, when it has one, its agent's budget.
+ */
+async function loadBudgets(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  agentId?: string | null
+): Promise<SpendBudget[]> {
+  let query = supabase
+    .from("ai_spend_budgets")
+    .select("id, workspace_id, agent_id, monthly_limit_usd, soft_limit_percent, hard_limit, warned_period, exceeded_period")
+    .eq("workspace_id", workspaceId)
+  query = agentId ? query.or(`agent_id.is.null,agent_id.eq.${agentId}`) : query.is("agent_id", null)
+
+  const { data: budgets, error } = await query
+  if (error) {
+    throw new Error(`Failed to load spend budgets: ${error.message}`)
+  }
+
+  return ((budgets || []) as SpendBudget[]).map((budget) => ({
+    ...budget,
+    monthly_limit_usd: Number(budget.monthly_limit_usd),
+  }))
+}
+
+/**
+ * Add this month's spend to each budget
+ */
+async function addSpend(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  budgets: SpendBudget[],
+  now: Date
+): Promise<BudgetStatus[]> {
+  const { data: spend, error: spendError } = await supabase.rpc("get_ai_spend", {
+    p_workspace_id: workspaceId,
+    p_since: `${getBudgetPeriod(now)}T00:00:00Z`,
+  })
+  if (spendError) {
+    throw new Error(`Failed to load AI spend: ${spendError.message}`)
+  }
+
+  const rows = (spend || []) as { agent_id: string | null; cost_usd: number | string }[]
+  const workspaceSpend = rows.reduce((sum, row) => sum + Number(row.cost_usd), 0)
+
+  return budgets.map((budget) => ({
+    budget,
+    spentUsd: budget.agent_id
+      ? rows.filter((row) => row.agent_id === budget.agent_id).reduce((sum, row) => sum + Number(row.cost_usd), 0)
+      : workspaceSpend,
+  }))
+}
+
+/**
+ * Load the budgets that apply to a run, with this month's spend against each
+ */
+export async function loadBudgetStatuses(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  agentId?: string | null,
+  now: Date = new Date()
+): Promise<BudgetStatus[]> {
+  const budgets = await loadBudgets(supabase, workspaceId, agentId)
+  if (budgets.length === 0) return []
+  return addSpend(supabase, workspaceId, budgets, now)
+}
+
+/**
+ * Check whether a new agent run may start under the workspace's spend budgets
+ *
+ * Fails closed: if the budgets or this month's spend can't be loaded, the run is refused,
+ * since a hard limit that a database error can bypass doesn't limit anything. Workspaces
+ * whose budgets load and have no hard limit never need the spend and always run.
+ */
+export async function checkSpendBudget(
+  supabase: SupabaseClient,
+  options: { workspaceId: string; agentId?: string | null; agentName?: string; now?: Date }
+): Promise<SpendBudgetCheck> {
+  const now = options.now || new Date()
+
+  let statuses: BudgetStatus[]
+  try {
+    const hardLimits = (await loadBudgets(supabase, options.workspaceId, options.agentId)).filter(
+      (budget) => budget.hard_limit
+    )
+    if (hardLimits.length === 0) return { allowed: true }
+    statuses = await addSpend(supabase, options.workspaceId, hardLimits, now)
+  } catch (error) {
+    console.error("[Spend Budgets] Failed to check budgets, refusing run:", error)
+    return {
+      allowed: false,
+      message: "Couldn't check this workspace's AI spend budget, so the run wasn't started. Please try again in a moment.",
+    }
+  }
+
+  const exceeded = statuses.find(({ budget, spentUsd }) => spentUsd >= budget.monthly_limit_usd)
+  if (!exceeded) return { allowed: true }
+
+  const { budget, spentUsd } = exceeded
+  console.log(
+    `[Spend Budgets] Refusing run in workspace ${options.workspaceId}: ${budget.agent_id ? `agent ${budget.agent_id}` : "workspace"} budget exceeded (${formatUsd(spentUsd)} of ${formatUsd(budget.monthly_limit_usd)})`
+  )
+
+  return {
+    allowed: false,
+    message:
+      `${describeBudget(budget, options.agentName)} has reached its monthly AI spend limit of ` +
+      `${formatUsd(budget.monthly_limit_usd)} (${formatUsd(spentUsd)} spent this month). ` +
+      `New agent runs are paused until ${formatResetDate(now)} or until a workspace admin raises the limit.`,
+  }
+}
+
+/**
+ * Split a run's usage by the model that served each step
+ * Without a record of served models, the whole run is billed to the configured model.
+ */
+function usageByServedModel(options: RecordAgentSpendOptions): ModelUsage[] {
+  const { servedBy, steps } = options
+  if (!servedBy?.length || !steps?.length) {
+    return [{ provider: options.provider, model: options.model, usage: options.usage }]
+  }
+
+  const byModel = new Map<string, ModelUsage>()
+  steps.forEach((step, index) => {
+    const served = servedBy[Math.min(index, servedBy.length - 1)]
+    const key = `${served.provider}/${served.model}`
+    const entry = byModel.get(key) || { ...served, usage: {} }
+    entry.usage = {
+      inputTokens: (entry.usage.inputTokens ?? 0) + (step.usage.inputTokens ?? 0),
+      outputTokens: (entry.usage.outputTokens ?? 0) + (step.usage.outputTokens ?? 0),
+      inputTokenDetails: {
+        cacheReadTokens:
+          (entry.usage.inputTokenDetails?.cacheReadTokens ?? 0) + (step.usage.inputTokenDetails?.cacheReadTokens ?? 0),
+        cacheWriteTokens:
+          (entry.usage.inputTokenDetails?.cacheWriteTokens ?? 0) + (step.usage.inputTokenDetails?.cacheWriteTokens ?? 0),
+      },
+    }
+    byModel.set(key, entry)
+  })
+  return [...byModel.values()]
+}
+
+/**
+ * Price an agent run, record it in ai_usage_log and post any budget warnings it triggers
+ * A run partly served by fallback models gets one row per model that answered.
+ * Never throws - the AI call already happened.
+ *
+ * @returns The cost of the run in USD
+ */
+export async function recordAgentSpend(
+  supabase: SupabaseClient,
+  options: RecordAgentSpendOptions
+): Promise<number> {
+  const rows = usageByServedModel(options).map(({ provider, model, usage }) => ({
+    workspace_id: options.workspaceId,
+    source: options.source,
+    source_id: options.sourceId || null,
+    agent_id: options.agentId || null,
+    provider,
+    model,
+    tokens_input: usage.inputTokens ?? 0,
+    tokens_output: usage.outputTokens ?? 0,
+    tokens_cache_read: usage.inputTokenDetails?.cacheReadTokens ?? 0,
+    tokens_cache_write: usage.inputTokenDetails?.cacheWriteTokens ?? 0,
+    cost_usd: calculateCost(provider, model, usage),
+    metadata: options.metadata || {},
+  }))
+  const costUsd = rows.reduce((sum, row) => sum + row.cost_usd, 0)
+
+  try {
+    const { error } = await supabase.from("ai_usage_log").insert(rows)
+
+    if (error) {
+      console.error("[Spend Budgets] Failed to record usage:", error)
+      return costUsd
+    }
+
+    await notifyBudgetThresholds(supabase, options)
+  } catch (error) {
+    console.error("[Spend Budgets] Exception recording usage:", error)
+  }
+
+  return costUsd
+}
+
+/**
+ * Post a warning to the workspace the first time each month a budget crosses its
+ * soft limit, and again when it reaches the limit itself
+ */
+async function notifyBudgetThresholds(
+  supabase: SupabaseClient,
+  options: Pick<RecordAgentSpendOptions, "workspaceId" | "agentId" | "agentName">,
+  now: Date = new Date()
+): Promise<void> {
+  const period = getBudgetPeriod(now)
+  const statuses = await loadBudgetStatuses(supabase, options.workspaceId, options.agentId, now)
+
+  for (const { budget, spentUsd } of statuses) {
+    const limit = budget.monthly_limit_usd
+    const subject = describeBudget(budget, options.agentName)
+    let column: "warned_period" | "exceeded_period"
+    let message: string
+
+    if (spentUsd >= limit) {
+      if (budget.exceeded_period === period) continue
+      column = "exceeded_period"
+      message = budget.hard_limit
+        ? `${subject} has reached its monthly AI spend limit of ${formatUsd(limit)} (${formatUsd(spentUsd)} spent). ` +
+          `New agent runs are paused until ${formatResetDate(now)} unless a workspace admin raises the limit.`
+        : `${subject} has gone over its monthly AI budget of ${formatUsd(limit)} (${formatUsd(spentUsd)} spent). ` +
+          `Agents will keep running because this budget has no hard limit.`
+    } else if (spentUsd >= (limit * budget.soft_limit_percent) / 100) {
+      if (budget.warned_period === period) continue
+      column = "warned_period"
+      message =
+        `Heads up: ${subject} has used ${Math.floor((spentUsd / limit) * 100)}% of its monthly AI budget ` +
+        `(${formatUsd(spentUsd)} of ${formatUsd(limit)}).` +
+        (budget.hard_limit ? ` Agents will stop taking new work once the limit is reached.` : "")
+    } else {
+      continue
+    }
+
+    // Claim the warning so concurrent runs don't post it twice
+    const { data: claimed } = await supabase
+      .from("ai_spend_budgets")
+      .update({ [column]: period })
+      .eq("id", budget.id)
+      .or(`${column}.is.null,${column}.neq.${period}`)
+      .select("id")
+
+    if (claimed && claimed.length > 0) {
+      await postWorkspaceNotice(supabase, options.workspaceId, budget.agent_id, message)
+    }
+  }
+}
+
+/**
+ * Post a message to the workspace's #general channel as one of its agents
+ */
+async function postWorkspaceNotice(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  agentId: string | null,
+  content: string
+): Promise<void> {
+  const { data: channel } = await supabase
+    .from("channels")
+    .select("id")
+    .eq("workspace_id", workspaceId)
+    .eq("name", "general")
+    .limit(1)
+    .maybeSingle()
+
+  const sender = await findAgentProfile(supabase, workspaceId, agentId)
+
+  if (!channel?.id || !sender?.id) {
+    console.warn(`[Spend Budgets] Can't post budget notice to workspace ${workspaceId}: no #general channel or agent profile`)
+    return
+  }
+
+  const { error } = await supabase.from("messages").insert({
+    workspace_id: workspaceId,
+    channel_id: channel.id,
+    sender_id: sender.id,
+    content,
+  })
+  if (error) {
+    console.error("[Spend Budgets] Failed to post budget notice:", error)
+  }
+}
+
+/**
+ * Find an agent profile to post as, preferring the given agent's own profile
+ */
+async function findAgentProfile(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  agentId: string | null
+): Promise<{ id: string } | null> {
+  const query = () =>
+    supabase
+      .from("profiles")
+      .select("id")
+      .eq("agent_workspace_id", workspaceId)
+      .eq("is_agent", true)
+
+  if (agentId) {
+    const { data } = await query().eq("linked_agent_id", agentId).limit(1).maybeSingle()
+    if (data) return data
+  }
+
+  const { data } = await query().limit(1).maybeSingle()
+  return data
+}
@@ -0,0 +1,324 @@
+/**
+ * Tool Approval
+ *
+ * Human-in-the-loop approval for sensitive tool calls in live chat. Superadmins set an
+ * approval policy per tool in the admin panel (agent_tools.approval_policy):
+ * - never: the tool runs without asking
+ * - always: every call waits for the user
+ * - threshold: calls wait when |input[approval_threshold_field]| > approval_threshold
+ * Tools from external MCP integrations get a policy from an agent_tools row named after
+ * the tool as the agent sees it (<integration>__<tool>, see mcp-integrations.ts).
+ *
+ * A paused call streams an approval_request event to the client and waits until the user
+ * answers through POST /agent-chat/approvals/:approvalId, the wait times out, or the
+ * client disconnects. Pending approvals are stored in agent_tool_approvals, so the answer
+ * can reach any agent-server instance: the instance streaming the chat settles at once when
+ * the answer reaches it, and otherwise picks the answer up by polling the row.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { randomUUID } from "crypto"
+import type { ApprovalRequestMessage, ApprovalResolvedMessage } from "./agent-ws-types.js"
+
+export type ApprovalPolicyMode = "never" | "always" | "threshold"
+
+export interface ToolApprovalPolicy {
+  mode: ApprovalPolicyMode
+  thresholdField?: string | null
+  threshold?: number | null
+}
+
+export type ApprovalOutcome = "approved" | "declined" | "timeout" | "cancelled"
+
+export type ResolveApprovalResult = "resolved" | "not_found" | "forbidden" | "already_answered" | "expired"
+
+export interface ToolApprovalOptions {
+  supabase: SupabaseClient
+  userId: string
+  // Stream approval_request / approval_resolved events to the client
+  onRequest: (message: ApprovalRequestMessage) => void
+  onResolved: (message: ApprovalResolvedMessage) => void
+  // Aborted when the client disconnects - pending approvals are cancelled
+  signal?: AbortSignal
+  timeoutMs?: number
+  pollIntervalMs?: number
+}
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000
+const DEFAULT_POLL_INTERVAL_MS = 1000
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Approvals this instance is waiting on, so an answer that reaches it doesn't wait for the next poll
+const localWaiters = new Map<string, (outcome: ApprovalOutcome) => void>()
+
+/**
+ * Load approval policies for the given tools, leaving out tools that never need approval
+ */
+export async function loadToolApprovalPolicies(
+  supabase: SupabaseClient,
+  toolNames: string[]
+): Promise<Record<string, ToolApprovalPolicy>> {
+  if (toolNames.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from("agent_tools")
+    .select("name, approval_policy, approval_threshold_field, approval_threshold")
+    .in("name", toolNames)
+    .neq("approval_policy", "never")
+
+  if (error) {
+    // Fail closed: without policies we can't tell which tools are safe to run unattended
+    throw new Error(`Failed to load tool approval policies: ${error.message}`)
+  }
+
+  const policies: Record<string, ToolApprovalPolicy> = {}
+  for (const row of data || []) {
+    policies[row.name] = {
+      mode: row.approval_policy,
+      thresholdField: row.approval_threshold_field,
+      threshold: row.approval_threshold === null ? null : Number(row.approval_threshold),
+    }
+  }
+  return policies
+}
+
+/**
+ * Why a call needs the user's approval, or null when it can run right away
+ */
+export function getApprovalReason(
+  policy: ToolApprovalPolicy | undefined,
+  args: unknown
+): string | null {
+  if (!policy || policy.mode === "never") return null
+  if (policy.mode === "always") return "This action requires your approval"
+
+  const field = policy.thresholdField
+  if (!field || policy.threshold === null || policy.threshold === undefined) return null
+
+  const raw = args && typeof args === "object" ? (args as Record<string, unknown>)[field] : undefined
+  const value = typeof raw === "string" ? Number(raw) : raw
+  if (typeof value !== "number" || !Number.isFinite(value)) return null
+
+  return Math.abs(value) > policy.threshold
+    ? `${field} of ${Math.abs(value).toLocaleString("en-US")} is over the approval threshold of ${policy.threshold.toLocaleString("en-US")}`
+    : null
+}
+
+/**
+ * Record the user's answer to a pending approval
+ * Only the user the chat belongs to may answer it, and only while it's pending and unexpired.
+ */
+export async function resolveApproval(
+  supabase: SupabaseClient,
+  approvalId: string,
+  userId: string,
+  approved: boolean
+): Promise<ResolveApprovalResult> {
+  if (!UUID_PATTERN.test(approvalId)) return "not_found"
+
+  const now = new Date().toISOString()
+  const outcome: ApprovalOutcome = approved ? "approved" : "declined"
+  const { data: answered, error } = await supabase
+    .from("agent_tool_approvals")
+    .update({ status: outcome, decided_at: now })
+    .eq("id", approvalId)
+    .eq("user_id", userId)
+    .eq("status", "pending")
+    .gt("expires_at", now)
+    .select("id")
+
+  if (error) {
+    throw new Error(`Failed to answer approval: ${error.message}`)
+  }
+  if (answered && answered.length > 0) {
+    localWaiters.get(approvalId)?.(outcome)
+    return "resolved"
+  }
+
+  // Nothing pending matched - work out why
+  const { data: approval, error: readError } = await supabase
+    .from("agent_tool_approvals")
+    .select("user_id, status")
+    .eq("id", approvalId)
+    .maybeSingle()
+
+  if (readError) {
+    throw new Error(`Failed to load approval: ${readError.message}`)
+  }
+  if (!approval) return "not_found"
+  if (approval.user_id !== userId) return "forbidden"
+  return approval.status === "pending" ? "expired" : "already_answered"
+}
+
+function isAnswered(status: unknown): status is ApprovalOutcome {
+  return status === "approved" || status === "declined" || status === "timeout" || status === "cancelled"
+}
+
+/**
+ * Close a pending approval as timed out or cancelled
+ * If the user answered first, their answer wins.
+ */
+async function closeApproval(
+  supabase: SupabaseClient,
+  approvalId: string,
+  outcome: "timeout" | "cancelled"
+): Promise<ApprovalOutcome> {
+  const { data: closed, error } = await supabase
+    .from("agent_tool_approvals")
+    .update({ status: outcome, decided_at: new Date().toISOString() })
+    .eq("id", approvalId)
+    .eq("status", "pending")
+    .select("id")
+
+  if (error) {
+    console.error(`[Tool Approval] Failed to close approval ${approvalId}:`, error.message)
+    return outcome
+  }
+  if (closed && closed.length > 0) return outcome
+
+  const { data: approval } = await supabase
+    .from("agent_tool_approvals")
+    .select("status")
+    .eq("id", approvalId)
+    .maybeSingle()
+  return isAnswered(approval?.status) ? approval.status : outcome
+}
+
+/**
+ * Wait until a stored approval is answered, times out or the client disconnects
+ */
+function waitForAnswer(approvalId: string, timeoutMs: number, options: ToolApprovalOptions): Promise<ApprovalOutcome> {
+  return new Promise((resolve) => {
+    let settled = false
+    let polling = false
+
+    const finish = (outcome: ApprovalOutcome) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      clearInterval(poll)
+      localWaiters.delete(approvalId)
+      options.signal?.removeEventListener("abort", onAbort)
+      resolve(outcome)
+    }
+    const close = (outcome: "timeout" | "cancelled") => {
+      if (settled) return
+      closeApproval(options.supabase, approvalId, outcome).then(finish)
+    }
+    const onAbort = () => close("cancelled")
+    const timer = setTimeout(() => close("timeout"), timeoutMs)
+
+    // Answers given through another instance only show up in the database
+    const poll = setInterval(async () => {
+      if (polling || settled) return
+      polling = true
+      try {
+        const { data: approval, error } = await options.supabase
+          .from("agent_tool_approvals")
+          .select("status")
+          .eq("id", approvalId)
+          .maybeSingle()
+        if (error) {
+          console.error(`[Tool Approval] Failed to check approval ${approvalId}:`, error.message)
+        } else if (isAnswered(approval?.status)) {
+          finish(approval.status)
+        }
+      } finally {
+        polling = false
+      }
+    }, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS)
+
+    localWaiters.set(approvalId, finish)
+    options.signal?.addEventListener("abort", onAbort)
+    // The client may have gone while the approval was being stored
+    if (options.signal?.aborted) onAbort()
+  })
+}
+
+/**
+ * Store an approval request, stream it to the client and wait for the user's answer
+ */
+async function requestApproval(
+  request: Omit<ApprovalRequestMessage, "type" | "approvalId" | "expiresAt">,
+  options: ToolApprovalOptions
+): Promise<ApprovalOutcome> {
+  if (options.signal?.aborted) return "cancelled"
+
+  const approvalId = randomUUID()
+  const timeoutMs = options.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS
+  const expiresAt = new Date(Date.now() + timeoutMs).toISOString()
+
+  const { error } = await options.supabase.from("agent_tool_approvals").insert({
+    id: approvalId,
+    user_id: options.userId,
+    tool_name: request.toolName,
+    tool_call_id: request.toolCallId || null,
+    reason: request.reason,
+    expires_at: expiresAt,
+  })
+  if (error) {
+    // The user's answer would have nowhere to go, so the call doesn't run
+    console.error(`[Tool Approval] Failed to store approval for ${request.toolName}:`, error.message)
+    return "cancelled"
+  }
+
+  options.onRequest({ type: "approval_request", approvalId, ...request, expiresAt })
+
+  const outcome = await waitForAnswer(approvalId, timeoutMs, options)
+  options.onResolved({
+    type: "approval_resolved",
+    approvalId,
+    toolCallId: request.toolCallId,
+    approved: outcome === "approved",
+    outcome,
+  })
+  return outcome
+}
+
+const declinedMessages: Record<Exclude<ApprovalOutcome, "approved">, string> = {
+  declined: "The user declined this action. Do not retry it - ask the user how they would like to proceed.",
+  timeout: "The user did not approve this action in time. Do not retry it - ask the user whether they still want it.",
+  cancelled: "This action was cancelled before the user approved it.",
+}
+
+/**
+ * Wrap tools so calls matching their approval policy wait for the user before running
+ * Tools without a policy are returned unchanged.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function withToolApproval<T extends Record<string, any>>(
+  tools: T,
+  policies: Record<string, ToolApprovalPolicy>,
+  options: ToolApprovalOptions
+): T {
+  const wrapped: Record<string, unknown> = { ...tools }
+
+  for (const [name, policy] of Object.entries(policies)) {
+    const original = tools[name]
+    if (!original?.execute || policy.mode === "never") continue
+
+    wrapped[name] = {
+      ...original,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      execute: async (args: unknown, executeOptions: any) => {
+        const reason = getApprovalReason(policy, args)
+        if (!reason) {
+          return original.execute(args, executeOptions)
+        }
+
+        const outcome = await requestApproval(
+          { toolCallId: executeOptions?.toolCallId, toolName: name, args, reason },
+          options
+        )
+        console.log(`[Tool Approval] ${name} (${executeOptions?.toolCallId}): ${outcome}`)
+
+        if (outcome !== "approved") {
+          return { success: false, declined: true, error: declinedMessages[outcome] }
+        }
+        return original.execute(args, executeOptions)
+      },
+    }
+  }
+
+  return wrapped as T
+}
@@ -9,17 +9,20 @@
  */
 
 import type { Request, Response } from "express"
-import { generateText, stepCountIs } from "ai"
+import { generateText, stepCountIs, type LanguageModelUsage } from "ai"
 
 // AI SDK 6 message type
 type CoreMessage = { role: "user" | "assistant" | "system"; content: string }
 import { z } from "zod"
-import { type MCPClientInstance } from "./lib/mcp-client.js"
+import { type AgentRunContext, type MCPClientInstance } from "./lib/mcp-client.js"
 import { mcpClientPool } from "./lib/mcp-client-pool.js"
-import { getModel, getApiKeyEnvVar, inferProviderFromModel } from "./lib/ai-providers.js"
+import { connectMCPIntegrations, loadAgentMCPIntegrations, type MCPIntegration } from "./lib/mcp-integrations.js"
+import { getModel, getApiKeyEnvVar, getServedModels, inferProviderFromModel, isProviderConfigured, type ServedModel } from "./lib/ai-providers.js"
+import { checkSpendBudget, recordAgentSpend } from "./lib/spend-budgets.js"
 import { createAdminClient } from "./lib/supabase.js"
 import { applyRulesToPrompt, type AgentRule } from "./lib/agent-rules.js"
 import { detectHallucination, formatHallucinationResult, type HallucinationCheckResult } from "./lib/hallucination-detection.js"
+import { checkGrounding, formatGroundingResult, type GroundingCheckResult } from "./lib/grounding-check.js"
 import { formatTimeContext } from "./lib/time-context.js"
 import { sendAgentServerErrorEmail } from "./lib/error-email.js"
 
@@ -631,6 +634,21 @@ export async function scheduledExecutionHandler(req: Request, res: Response) {
       return res.status(404).json({ error: agentError || "Agent not found" })
     }
 
+    // Refuse to run once a hard spend limit is reached
+    const budgetWorkspaceId = scheduleContext.scheduleWorkspaceId || workspaceId || null
+    if (budgetWorkspaceId) {
+      const budgetCheck = await checkSpendBudget(supabase, {
+        workspaceId: budgetWorkspaceId,
+        agentId,
+        agentName: agent.name,
+      })
+      if (!budgetCheck.allowed) {
+        console.log(`[Scheduled Execution] Skipping execution ${executionId}: ${budgetCheck.message}`)
+        await updateExecutionFailed(supabase, executionId, budgetCheck.message!, startTime)
+        return res.status(402).json({ error: budgetCheck.message, code: "budget_exceeded" })
+      }
+    }
+
     // Get schedule timezone for time context
     const scheduleTimezone = scheduleContext.scheduleTimezone
 
@@ -646,6 +664,7 @@ export async function scheduledExecutionHandler(req: Request, res: Response) {
     // Build system prompt with rules and skills
     const systemPrompt = buildSystemPrompt(agent)
     const toolNames = getToolNames(agent)
+    const mcpIntegrations = await loadAgentMCPIntegrations(supabase, agentId)
     const model = agent.model || "sonnet"
     // ALWAYS infer provider from model name to ensure consistency
     const provider = inferProviderFromModel(model)
@@ -721,15 +740,34 @@ ${outputInstructions}`
     const result = await executeWithVercelAI({
       provider,
       model: agent.model,
+      fallbackModels: agent.provider_config?.fallback_models,
       systemPrompt,
       taskPrompt: finalTaskPrompt,
       toolNames,
+      mcpIntegrations,
       workspaceId: workspaceId || "",
       agentProfileId: agentProfileId || undefined,
+      executionId,
     })
 
     const duration = Date.now() - startTime
 
+    if (budgetWorkspaceId) {
+      await recordAgentSpend(supabase, {
+        workspaceId: budgetWorkspaceId,
+        agentId,
+        agentName: agent.name,
+        source: "scheduled",
+        sourceId: executionId,
+        provider,
+        model,
+        usage: result.usage,
+        servedBy: result.servedBy,
+        steps: result.steps,
+        metadata: { schedule_id: scheduleContext.scheduleId },
+      })
+    }
+
     // Determine if this was a hallucinated response
     const wasHallucination = result.hallucinationCheck?.isLikelyHallucination || false
     const hallucinationConfidence = result.hallucinationCheck?.confidence || null
@@ -744,6 +782,7 @@ ${outputInstructions}`
           message: result.content,
           hallucination_warning: wasHallucination ? result.hallucinationCheck?.summary : undefined,
           hallucination_indicators: wasHallucination ? result.hallucinationCheck?.indicators : undefined,
+          grounding: result.groundingCheck || undefined,
         },
         tool_calls: result.toolCalls,
         tokens_input: result.inputTokens,
@@ -766,6 +805,7 @@ ${outputInstructions}`
         tool_calls: result.toolCalls?.length || 0,
         hallucination: wasHallucination,
         hallucination_confidence: hallucinationConfidence,
+        grounding_status: result.groundingCheck?.status || null,
         actor_type: "cron",
       },
       context: auditContext,
@@ -958,20 +998,28 @@ async function updateExecutionFailed(
 async function executeWithVercelAI(options: {
   provider: string
   model: string
+  fallbackModels?: string[]
   systemPrompt: string
   taskPrompt: string
   toolNames: string[]
+  mcpIntegrations: MCPIntegration[]
   workspaceId: string
   agentProfileId?: string
+  executionId: string
 }): Promise<{
   success: boolean
   content: string
   inputTokens: number
   outputTokens: number
+  // Every step of the run, for pricing
+  usage: LanguageModelUsage
+  servedBy?: ServedModel[]
+  steps: { usage: LanguageModelUsage }[]
   toolCalls: any[]
   hallucinationCheck: HallucinationCheckResult | null
+  groundingCheck: GroundingCheckResult | null
 }> {
-  const { provider, model, systemPrompt, taskPrompt, toolNames, workspaceId, agentProfileId } = options
+  const { provider, model, fallbackModels, systemPrompt, taskPrompt, toolNames, mcpIntegrations, workspaceId, agentProfileId, executionId } = options
 
   // #region agent log - DEBUG executeWithVercelAI
   console.log(`[Scheduled Execution] ====== EXECUTE WITH VERCEL AI ======`)
@@ -984,11 +1032,12 @@ async function executeWithVercelAI(options: {
   console.log(`[Scheduled Execution] API key env var for "${provider}": ${apiKeyEnvVar}`)
   console.log(`[Scheduled Execution] API key present: ${!!process.env[apiKeyEnvVar]}`)
   
-  if (!process.env[apiKeyEnvVar]) {
+  if (!isProviderConfigured(provider)) {
     throw new Error(`API key not configured: ${apiKeyEnvVar}`)
   }
 
   let mcpClient: MCPClientInstance | null = null
+  let integrationsClient: MCPClientInstance | null = null
   const toolCallRecords: any[] = []
 
   // Use pooled MCP client
@@ -1020,6 +1069,13 @@ async function executeWithVercelAI(options: {
       }
     }
 
+    // Merge in tools from the agent's external MCP integrations (namespaced <integration>__<tool>)
+    if (mcpIntegrations.length > 0) {
+      integrationsClient = await connectMCPIntegrations(createAdminClient(), mcpIntegrations)
+      aiTools = { ...aiTools, ...integrationsClient.tools }
+      console.log(`[Scheduled Execution] ${Object.keys(integrationsClient.tools).length} tools from ${mcpIntegrations.length} external MCP integration(s)`)
+    }
+
     // Final check: Log what tools will be available to the AI
     console.log(`[Scheduled Execution] AI will have access to ${Object.keys(aiTools).length} tools`)
 
@@ -1029,7 +1085,7 @@ async function executeWithVercelAI(options: {
     console.log(`[Scheduled Execution] About to call getModel("${provider}", "${model}")`)
     let aiModel;
     try {
-      aiModel = getModel(provider, model)
+      aiModel = getModel(provider, model, fallbackModels)
       console.log(`[Scheduled Execution] getModel succeeded, model object created`)
     } catch (modelError) {
       console.error(`[Scheduled Execution] getModel FAILED:`, modelError)
@@ -1044,6 +1100,7 @@ async function executeWithVercelAI(options: {
       messages,
       tools: Object.keys(aiTools).length > 0 ? aiTools : undefined,
       stopWhen: stepCountIs(10), // AI SDK 6: stop after 10 steps
+      experimental_context: { executionId } satisfies AgentRunContext, // Lets the user undo this run's changes
       onStepFinish: async (step) => {
         // Track tool calls
         if (step.toolCalls && step.toolCalls.length > 0) {
@@ -1068,8 +1125,16 @@ async function executeWithVercelAI(options: {
       Object.keys(aiTools).length
     )
 
+    // Check the response's facts against what the tools actually returned
+    const groundingCheck = checkGrounding(
+      result.text,
+      result.steps.flatMap((step) => step.toolResults.map((toolResult) => toolResult.output)),
+      { prompt: taskPrompt, now: new Date() }
+    )
+
     // Log hallucination check result
     console.log(`[Scheduled Execution] ${formatHallucinationResult(hallucinationCheck)}`)
+    console.log(`[Scheduled Execution] ${formatGroundingResult(groundingCheck)}`)
 
     if (hallucinationCheck.isLikelyHallucination) {
       console.warn(`[Scheduled Execution] ⚠️ HALLUCINATION WARNING: ${hallucinationCheck.summary}`)
@@ -1083,12 +1148,20 @@ async function executeWithVercelAI(options: {
       content: result.text,
       inputTokens: result.usage?.inputTokens || 0,
       outputTokens: result.usage?.outputTokens || 0,
+      usage: result.totalUsage,
+      servedBy: getServedModels(aiModel),
+      steps: result.steps,
       toolCalls: toolCallRecords,
       hallucinationCheck,
+      groundingCheck,
     }
   } finally {
     // Client is returned to pool, no need to close here
     // The pool handles lifecycle management (cleanup, eviction, TTL)
+    // External integration clients aren't pooled - they hold per-integration connections
+    if (integrationsClient) {
+      await integrationsClient.close()
+    }
   }
 }
 
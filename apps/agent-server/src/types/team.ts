@@ -20,11 +20,13 @@ export interface DeployedAgent {
   system_prompt: string
   model: string  // Model name or alias (e.g., 'sonnet', 'gpt-4o', 'grok-3', 'gemini-flash')
   provider?: string  // AI provider (e.g., 'anthropic', 'openai', 'xai', 'google')
+  fallback_models?: string[] // Tried in order when the model fails - absent in configs deployed before fallbacks existed
   is_enabled: boolean // Can be toggled per-workspace
   tools: DeployedTool[]
   skills: DeployedSkill[]
   mind: DeployedMind[]
   rules: DeployedRule[]
+  mcp_integrations?: DeployedMCPIntegration[] // External MCP servers - absent in configs deployed before they existed
 }
 
 export interface DeployedTool {
@@ -34,6 +36,13 @@ export interface DeployedTool {
   input_schema: Record<string, unknown>
 }
 
+// Auth stays in mcp_integrations and is decrypted by agent-server at connect time
+export interface DeployedMCPIntegration {
+  id: string
+  name: string
+  type: 'stdio' | 'sse' | 'http'
+}
+
 export interface DeployedSkill {
   id: string
   name: string
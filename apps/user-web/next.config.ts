@@ -39,6 +39,10 @@ const nextConfig: NextConfig = {
           source: "/api/agent-chat",
           destination: `${agentServerUrl}/agent-chat`,
         },
+        {
+          source: "/api/agent-chat/approvals/:approvalId",
+          destination: `${agentServerUrl}/agent-chat/approvals/:approvalId`,
+        },
         {
           source: "/ai-info.md",
           destination: "/ai-info",
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for the agent change log helpers
+ *
+ * Tests cover:
+ * - Listing a conversation's or execution's changes
+ * - Reverting a whole run newest first, skipping changes already reverted
+ * - Reverting selected changes and reporting conflicts and failures
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { listAgentChanges, revertAgentChanges, type AgentChange } from '@/lib/agent-changes'
+
+function createChange(id: string, overrides: Partial<AgentChange> = {}): AgentChange {
+  return {
+    id,
+    conversation_id: 'conversation-1',
+    execution_id: null,
+    tool_name: 'transaction_update',
+    tool_call_id: 'call_1',
+    table_name: 'transactions',
+    record_id: `record-${id}`,
+    operation: 'UPDATE',
+    before: { id: `record-${id}`, category_id: 'old' },
+    after: { id: `record-${id}`, category_id: 'new' },
+    reverted_at: null,
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+// Changes come back newest first, as ordered by the query
+const changes = [
+  createChange('change-3'),
+  createChange('change-2', { reverted_at: '2026-01-02T00:00:00Z' }),
+  createChange('change-1'),
+]
+
+const query = {
+  select: vi.fn().mockReturnThis(),
+  eq: vi.fn().mockReturnThis(),
+  order: vi.fn(),
+}
+
+const supabase = {
+  from: vi.fn(() => query),
+  rpc: vi.fn(),
+} as unknown as SupabaseClient & { rpc: ReturnType<typeof vi.fn> }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  query.select.mockReturnThis()
+  query.eq.mockReturnThis()
+  query.order.mockResolvedValue({ data: changes, error: null })
+  supabase.rpc.mockResolvedValue({ data: { status: 'reverted' }, error: null })
+})
+
+describe('listAgentChanges', () => {
+  it('filters by conversation or execution', async () => {
+    await listAgentChanges(supabase, { conversationId: 'conversation-1' })
+    expect(query.eq).toHaveBeenCalledWith('conversation_id', 'conversation-1')
+
+    await listAgentChanges(supabase, { executionId: 'execution-1' })
+    expect(query.eq).toHaveBeenCalledWith('execution_id', 'execution-1')
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false })
+  })
+
+  it('throws when the query fails', async () => {
+    query.order.mockResolvedValue({ data: null, error: { message: 'boom' } })
+    await expect(listAgentChanges(supabase, { conversationId: 'conversation-1' })).rejects.toThrow('boom')
+  })
+})
+
+describe('revertAgentChanges', () => {
+  it('undoes a whole run newest first, skipping reverted changes', async () => {
+    const results = await revertAgentChanges(supabase, { conversationId: 'conversation-1' }, { userId: 'user-1' })
+
+    expect(supabase.rpc.mock.calls.map((call) => call[1].p_change_id)).toEqual(['change-3', 'change-1'])
+    expect(supabase.rpc).toHaveBeenCalledWith('revert_agent_change', {
+      p_change_id: 'change-3',
+      p_reverted_by: 'user-1',
+      p_force: false,
+    })
+    expect(results).toEqual([
+      { changeId: 'change-3', status: 'reverted', error: undefined },
+      { changeId: 'change-1', status: 'reverted', error: undefined },
+    ])
+  })
+
+  it('reverts only the selected changes and reports conflicts and failures', async () => {
+    supabase.rpc
+      .mockResolvedValueOnce({ data: { status: 'conflict' }, error: null })
+      .mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } })
+
+    const results = await revertAgentChanges(supabase, { conversationId: 'conversation-1' }, {
+      userId: 'user-1',
+      changeIds: ['change-1', 'change-3'],
+      force: true,
+    })
+
+    expect(supabase.rpc.mock.calls.every((call) => call[1].p_force === true)).toBe(true)
+    expect(results).toEqual([
+      { changeId: 'change-3', status: 'conflict', error: undefined },
+      { changeId: 'change-1', status: 'failed', error: 'permission denied' },
+    ])
+  })
+})
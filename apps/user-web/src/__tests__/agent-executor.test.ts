@@ -104,6 +104,26 @@ describe('Agent Executor', () => {
       expect(result.durationMs).toBeGreaterThanOrEqual(0)
     })
 
+    it('should report total usage across all steps', async () => {
+      vi.mocked(generateText).mockResolvedValue({
+        text: 'Done',
+        steps: [],
+        usage: { inputTokens: 40, outputTokens: 10 },
+        totalUsage: { inputTokens: 120, outputTokens: 30 },
+      } as unknown as Awaited<ReturnType<typeof generateText>>)
+
+      const result = await executeAgentTask({
+        taskPrompt: 'Test',
+        systemPrompt: 'Test',
+        tools: [],
+        workspaceId: 'ws-123',
+        supabase: mockSupabase as unknown as ExecuteParams['supabase'],
+      })
+
+      expect(result.usage).toEqual({ promptTokens: 120, completionTokens: 30 })
+      expect(result.output).toBeUndefined()
+    })
+
     it('should use Anthropic provider by default', async () => {
       vi.mocked(generateText).mockResolvedValue({
         text: 'Done',
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+
+let memberRole: "owner" | "admin" | "member" = "member"
+let storedFact: Record<string, unknown> | null = null
+let updatedPayload: Record<string, unknown> | null = null
+let deletedFrom: string[] = []
+let auditEntries: Record<string, unknown>[] = []
+
+const createAdminMock = () => {
+  let currentTable = ""
+  let deleting = false
+
+  const chain = {
+    from: vi.fn((table: string) => {
+      currentTable = table
+      deleting = false
+      return chain
+    }),
+    select: vi.fn(() => chain),
+    eq: vi.fn(() => chain),
+    in: vi.fn(() => chain),
+    overlaps: vi.fn(() => chain),
+    delete: vi.fn(() => {
+      deleting = true
+      deletedFrom.push(currentTable)
+      return chain
+    }),
+    update: vi.fn((payload: Record<string, unknown>) => {
+      updatedPayload = payload
+      return chain
+    }),
+    insert: vi.fn(async (payload: Record<string, unknown>) => {
+      if (currentTable === "audit_logs") auditEntries.push(payload)
+      return { error: null }
+    }),
+    maybeSingle: vi.fn(async () => ({ data: storedFact, error: null })),
+    single: vi.fn(async () => ({ data: { ...storedFact, ...updatedPayload }, error: null })),
+    then: (resolve: (value: unknown) => void) => {
+      if (currentTable === "agent_memory_episodes" && !deleting) {
+        return resolve({ data: [{ id: "episode-1" }], error: null })
+      }
+      return resolve({ data: [], count: 1, error: null })
+    },
+  }
+
+  return chain
+}
+
+const mockAdminClient = createAdminMock()
+
+vi.mock("@dreamteam/database/server", () => ({
+  createAdminClient: vi.fn(() => mockAdminClient),
+}))
+
+vi.mock("@dreamteam/auth/session", () => ({
+  getSession: vi.fn(async () => ({ id: "user-1", email: "member@example.com" })),
+}))
+
+vi.mock("@/lib/workspace-auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/workspace-auth")>()),
+  getWorkspaceContext: vi.fn(async () => ({ isValid: true, role: memberRole, workspaceId: "workspace-1" })),
+}))
+
+import { PATCH, DELETE } from "@/app/api/account/memory/facts/[id]/route"
+import { POST as forget } from "@/app/api/account/memory/forget/route"
+
+function fact(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "fact-1",
+    workspace_id: "workspace-1",
+    scope: "user",
+    user_id: "user-1",
+    agent_id: null,
+    content: "Prefers email over Slack",
+    ...overrides,
+  }
+}
+
+function factRequest(method: string, body?: Record<string, unknown>) {
+  return new NextRequest("http://localhost/api/account/memory/facts/fact-1", {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+}
+
+const params = { params: Promise.resolve({ id: "fact-1" }) }
+
+describe("/api/account/memory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memberRole = "member"
+    storedFact = fact()
+    updatedPayload = null
+    deletedFrom = []
+    auditEntries = []
+  })
+
+  it("lets users correct their own facts and clears the stale embedding", async () => {
+    const response = await PATCH(factRequest("PATCH", { content: "  Prefers Slack  " }), params)
+
+    expect(response.status).toBe(200)
+    expect(updatedPayload).toMatchObject({ content: "Prefers Slack", embedding: null, embedding_model: null })
+    expect(auditEntries).toEqual([
+      expect.objectContaining({
+        action: "memory_fact_updated",
+        resource_type: "agent_memory_fact",
+        resource_id: "fact-1",
+        actor_id: "user-1",
+        metadata: { scope: "user", fields: ["content"] },
+      }),
+    ])
+  })
+
+  it("keeps members away from shared and other people's facts", async () => {
+    storedFact = fact({ scope: "workspace", user_id: null })
+    expect((await DELETE(factRequest("DELETE"), params)).status).toBe(403)
+
+    storedFact = fact({ user_id: "user-2" })
+    memberRole = "owner"
+    expect((await DELETE(factRequest("DELETE"), params)).status).toBe(403)
+
+    expect(deletedFrom).toEqual([])
+    expect(auditEntries).toEqual([])
+  })
+
+  it("lets admins delete shared facts", async () => {
+    storedFact = fact({ scope: "workspace", user_id: null })
+    memberRole = "admin"
+
+    const response = await DELETE(factRequest("DELETE"), params)
+
+    expect(response.status).toBe(200)
+    expect(deletedFrom).toEqual(["agent_memory_facts"])
+    expect(auditEntries[0]).toMatchObject({ action: "memory_fact_deleted", metadata: { scope: "workspace" } })
+  })
+
+  it("hides facts from other workspaces", async () => {
+    storedFact = fact({ workspace_id: "workspace-2" })
+
+    expect((await PATCH(factRequest("PATCH", { content: "x" }), params)).status).toBe(404)
+  })
+
+  it("forgets a user's own memory but keeps shared facts learned from them", async () => {
+    const response = await forget(new NextRequest("http://localhost/api/account/memory/forget", { method: "POST" }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    // Facts before episodes so facts learned from those episodes can still be found
+    expect(deletedFrom).toEqual([
+      "agent_memory_facts",
+      "agent_memory_facts",
+      "agent_memory_summaries",
+      "agent_memory_episodes",
+    ])
+    expect(mockAdminClient.eq).toHaveBeenCalledWith("scope", "user")
+    expect(updatedPayload).toEqual({ source_episode_id: null })
+    expect(mockAdminClient.overlaps).not.toHaveBeenCalled()
+    expect(data.removed).toEqual({ facts: 2, summaries: 1, episodes: 1, detached: 1 })
+    expect(auditEntries).toEqual([
+      expect.objectContaining({
+        action: "memory_forgotten",
+        resource_type: "user",
+        resource_id: "user-1",
+        workspace_id: "workspace-1",
+        metadata: { facts: 2, summaries: 1, episodes: 1, detached: 1 },
+      }),
+    ])
+  })
+})
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+
+let memberRole: string | null = "owner"
+let existingBudget: { id: string } | null = null
+let insertedPayload: Record<string, unknown> | null = null
+let updatedPayload: Record<string, unknown> | null = null
+
+const createAdminMock = () => {
+  let currentTable = ""
+
+  const chain = {
+    from: vi.fn((table: string) => {
+      currentTable = table
+      return chain
+    }),
+    select: vi.fn(() => chain),
+    eq: vi.fn(() => chain),
+    is: vi.fn(() => chain),
+    maybeSingle: vi.fn(async () => {
+      if (currentTable === "ai_spend_budgets") {
+        return { data: existingBudget, error: null }
+      }
+      return { data: null, error: null }
+    }),
+    single: vi.fn(async () => {
+      if (currentTable === "workspace_members") {
+        return { data: memberRole ? { role: memberRole } : null, error: null }
+      }
+      if (currentTable === "ai_spend_budgets") {
+        return { data: { id: existingBudget?.id || "budget-1", ...(updatedPayload || insertedPayload) }, error: null }
+      }
+      return { data: null, error: null }
+    }),
+    insert: vi.fn((payload: Record<string, unknown>) => {
+      insertedPayload = payload
+      return chain
+    }),
+    update: vi.fn((payload: Record<string, unknown>) => {
+      updatedPayload = payload
+      return chain
+    }),
+  }
+
+  return chain
+}
+
+const mockAdminClient = createAdminMock()
+
+vi.mock("@dreamteam/database/server", () => ({
+  createAdminClient: vi.fn(() => mockAdminClient),
+}))
+
+vi.mock("@dreamteam/auth/session", () => ({
+  getSession: vi.fn(async () => ({ id: "user-1", email: "owner@example.com" })),
+}))
+
+import { PUT } from "@/app/api/team/ai-budgets/route"
+
+function putRequest(body: Record<string, unknown>) {
+  return new NextRequest("http://localhost/api/team/ai-budgets", {
+    method: "PUT",
+    body: JSON.stringify({ workspaceId: "workspace-1", ...body }),
+  })
+}
+
+describe("PUT /api/team/ai-budgets", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    memberRole = "owner"
+    existingBudget = null
+    insertedPayload = null
+    updatedPayload = null
+  })
+
+  it("creates a workspace budget", async () => {
+    const response = await PUT(putRequest({ monthlyLimitUsd: 250.005, softLimitPercent: 75, hardLimit: true }))
+
+    expect(response.status).toBe(201)
+    expect(insertedPayload).toEqual({
+      workspace_id: "workspace-1",
+      agent_id: null,
+      monthly_limit_usd: 250.01,
+      soft_limit_percent: 75,
+      hard_limit: true,
+    })
+  })
+
+  it("updates the existing budget for an agent", async () => {
+    existingBudget = { id: "budget-7" }
+
+    const response = await PUT(putRequest({ agentId: "agent-1", monthlyLimitUsd: 40 }))
+
+    expect(response.status).toBe(200)
+    expect(insertedPayload).toBeNull()
+    expect(updatedPayload).toEqual({ monthly_limit_usd: 40 })
+    expect(mockAdminClient.eq).toHaveBeenCalledWith("agent_id", "agent-1")
+  })
+
+  it("rejects invalid limits", async () => {
+    expect((await PUT(putRequest({ monthlyLimitUsd: 0 }))).status).toBe(400)
+    expect((await PUT(putRequest({ monthlyLimitUsd: "100" }))).status).toBe(400)
+    expect((await PUT(putRequest({ monthlyLimitUsd: 100, softLimitPercent: 120 }))).status).toBe(400)
+    expect(insertedPayload).toBeNull()
+  })
+
+  it("only lets owners and admins manage budgets", async () => {
+    memberRole = "member"
+
+    const response = await PUT(putRequest({ monthlyLimitUsd: 100 }))
+
+    expect(response.status).toBe(403)
+    expect(insertedPayload).toBeNull()
+  })
+})
@@ -1907,6 +1907,117 @@ describe('Workflow Condition Evaluator', () => {
       expect(evaluateCondition(condition, sampleContext, [])).toBe(true)
     })
   })
+
+})
+
+// ============================================================================
+// SECTION: Time-Based Workflow Trigger Tests (src/lib/time-trigger-processor.ts)
+// ============================================================================
+
+import { getNextScheduledRun } from '@/lib/time-trigger-processor'
+
+describe('Time-Based Workflow Triggers', () => {
+  describe('getNextScheduledRun', () => {
+    it('should return the next cron occurrence after the given time', () => {
+      const next = getNextScheduledRun(
+        { cron_expression: '0 9 * * 1', record_type: 'lead' },
+        new Date('2024-06-12T10:00:00Z') // Wednesday
+      )
+      expect(next?.toISOString()).toBe('2024-06-17T09:00:00.000Z')
+    })
+
+    it('should respect the configured timezone', () => {
+      const next = getNextScheduledRun(
+        { cron_expression: '0 9 * * *', timezone: 'America/New_York', record_type: 'deal' },
+        new Date('2024-06-12T10:00:00Z')
+      )
+      expect(next?.toISOString()).toBe('2024-06-12T13:00:00.000Z')
+    })
+
+    it('should return null for invalid cron expressions', () => {
+      expect(getNextScheduledRun(
+        { cron_expression: 'not a cron', record_type: 'lead' },
+        new Date()
+      )).toBeNull()
+    })
+  })
+})
+
+// ============================================================================
+// SECTION: Workflow Trigger Filter Tests (src/lib/workflow-trigger-filters.ts)
+// ============================================================================
+
+import { matchesKeywords, matchesTriggerFilters } from '@/lib/workflow-trigger-filters'
+import type { TriggerContext } from '@/lib/workflow-trigger-service'
+
+describe('Workflow Trigger Filters', () => {
+  const smsContext: TriggerContext = {
+    userId: 'user-1',
+    message: { id: 'SM1', channel: 'sms', from: '+15550001111', to: '+15550100000', body: 'Can I get pricing?' },
+  }
+
+  describe('matchesKeywords', () => {
+    it('should match any keyword case-insensitively', () => {
+      expect(matchesKeywords('Can I get PRICING?', 'demo, pricing')).toBe(true)
+      expect(matchesKeywords('Thanks!', 'demo, pricing')).toBe(false)
+    })
+
+    it('should require the whole message to equal a keyword in exact mode', () => {
+      expect(matchesKeywords(' yes ', 'YES, Y', 'exact')).toBe(true)
+      expect(matchesKeywords('yes please', 'YES, Y', 'exact')).toBe(false)
+    })
+
+    it('should match every message when no keywords are set', () => {
+      expect(matchesKeywords('anything', undefined)).toBe(true)
+      expect(matchesKeywords('anything', ' , ')).toBe(true)
+    })
+  })
+
+  describe('matchesTriggerFilters', () => {
+    it('should match sms_received by receiving number regardless of formatting', () => {
+      expect(matchesTriggerFilters('sms_received', { to_number: '+1 (555) 010-0000' }, smsContext)).toBe(true)
+      expect(matchesTriggerFilters('sms_received', { to_number: '+15559999999' }, smsContext)).toBe(false)
+    })
+
+    it('should apply keywords to sms_received', () => {
+      expect(matchesTriggerFilters('sms_received', { keywords: 'pricing' }, smsContext)).toBe(true)
+      expect(matchesTriggerFilters('sms_received', { keywords: 'stop', keyword_match: 'exact' }, smsContext)).toBe(false)
+    })
+
+    it('should match email_received by mailbox and subject', () => {
+      const emailContext: TriggerContext = {
+        userId: 'user-1',
+        message: {
+          id: 'msg-1',
+          channel: 'email',
+          from: 'jane@example.com',
+          to: 'sales@example.com',
+          subject: 'Re: Proposal',
+          body: 'Looks good, let us talk',
+          grant_id: 'grant-1',
+        },
+      }
+      expect(matchesTriggerFilters('email_received', { grant_id: 'grant-1', keywords: 'proposal' }, emailContext)).toBe(true)
+      expect(matchesTriggerFilters('email_received', { grant_id: 'grant-2' }, emailContext)).toBe(false)
+      expect(matchesTriggerFilters('email_received', { keywords: 'talk' }, emailContext)).toBe(true)
+      expect(matchesTriggerFilters('email_received', { keywords: 'talk', keyword_match: 'exact' }, emailContext)).toBe(false)
+    })
+
+    it('should not match message triggers without a message', () => {
+      expect(matchesTriggerFilters('sms_received', {}, { userId: 'user-1' })).toBe(false)
+    })
+
+    it('should match tag_added by tag', () => {
+      const tagContext: TriggerContext = { userId: 'user-1', tag: { id: 'tag-1', name: 'Hot' } }
+      expect(matchesTriggerFilters('tag_added', { tag_id: 'tag-1' }, tagContext)).toBe(true)
+      expect(matchesTriggerFilters('tag_added', { tag_id: 'tag-2' }, tagContext)).toBe(false)
+      expect(matchesTriggerFilters('tag_added', {}, tagContext)).toBe(true)
+    })
+
+    it('should match triggers without filters', () => {
+      expect(matchesTriggerFilters('contact_created', null, { userId: 'user-1' })).toBe(true)
+    })
+  })
 })
 
 // ============================================================================
@@ -17,11 +17,13 @@ export const mockAdminClient = {
   like: vi.fn(() => mockAdminClient),
   ilike: vi.fn(() => mockAdminClient),
   is: vi.fn(() => mockAdminClient),
+  or: vi.fn(() => mockAdminClient),
   order: vi.fn(() => mockAdminClient),
   limit: vi.fn(() => mockAdminClient),
   range: vi.fn(() => mockAdminClient),
   single: vi.fn(() => Promise.resolve({ data: null, error: null })),
   maybeSingle: vi.fn(() => Promise.resolve({ data: null, error: null })),
+  rpc: vi.fn(() => Promise.resolve({ data: [], error: null })),
   then: vi.fn((resolve: (value: { data: unknown; error: null }) => void) =>
     resolve({ data: [], error: null })
   ),
@@ -144,6 +144,7 @@ describe('Schedule Processor', () => {
         text: 'Report generated successfully',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1500,
       })
 
@@ -224,6 +225,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -283,6 +285,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -348,6 +351,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -387,6 +391,7 @@ describe('Schedule Processor', () => {
         text: 'Execution complete',
         toolCalls: [{ toolName: 'search', args: {}, result: {} }],
         usage: { promptTokens: 200, completionTokens: 100 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 2500,
       })
 
@@ -432,6 +437,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -528,6 +534,7 @@ describe('Schedule Processor', () => {
         text: 'Report complete',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -574,6 +581,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -618,6 +626,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -708,6 +717,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -757,6 +767,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -807,6 +818,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -855,6 +867,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1000,
       })
 
@@ -901,6 +914,7 @@ describe('Schedule Processor', () => {
         text: 'Done with tools',
         toolCalls,
         usage: { promptTokens: 100, completionTokens: 50 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 1500,
       })
 
@@ -944,6 +958,7 @@ describe('Schedule Processor', () => {
         text: 'Done',
         toolCalls: [],
         usage: { promptTokens: 250, completionTokens: 150 },
+        model: 'claude-sonnet-4-20250514',
         durationMs: 2000,
       })
 
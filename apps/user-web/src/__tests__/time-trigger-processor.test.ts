@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the time-based workflow trigger processor
+ *
+ * Covers how candidates are picked each cron tick:
+ * - Records already enrolled don't use up the per-tick cap
+ * - Scheduled runs larger than one tick continue on the next tick
+ * - A tick that loses the next_run_at race enrolls nothing
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/workflow-trigger-service', () => ({
+  runWorkflowForTrigger: vi.fn(() => Promise.resolve()),
+  fetchLeadPrimaryContact: vi.fn(() => Promise.resolve(null)),
+  fetchContact: vi.fn(() => Promise.resolve(null)),
+}))
+
+interface Query {
+  table: string
+  op: 'select' | 'insert' | 'update'
+  payload?: Record<string, unknown>
+  afterId?: string
+  recordIds?: string[]
+  limit?: number
+  returning?: boolean
+}
+
+let workflowRow: Record<string, unknown>
+let leads: Array<Record<string, unknown>>
+let enrollments: Array<{ record_id: string; enrollment_key: string }>
+let scheduleLockWon: boolean
+let scheduleUpdates: Array<Record<string, unknown>>
+
+function resolveQuery(query: Query) {
+  if (query.table === 'workflows' && query.op === 'select') {
+    return { data: [workflowRow], error: null }
+  }
+  if (query.table === 'workflows' && query.op === 'update') {
+    scheduleUpdates.push(query.payload!)
+    return { data: query.returning && scheduleLockWon ? [{ id: workflowRow.id }] : [], error: null }
+  }
+  if (query.table === 'leads') {
+    const rows = leads.filter((lead) => !query.afterId || (lead.id as string) > query.afterId)
+    return { data: rows.slice(0, query.limit), error: null }
+  }
+  if (query.table === 'workflow_trigger_enrollments' && query.op === 'select') {
+    return { data: enrollments.filter((e) => query.recordIds!.includes(e.record_id)), error: null }
+  }
+  if (query.table === 'workflow_trigger_enrollments' && query.op === 'insert') {
+    const { record_id, enrollment_key } = query.payload as { record_id: string; enrollment_key: string }
+    if (enrollments.some((e) => e.record_id === record_id && e.enrollment_key === enrollment_key)) {
+      return { data: null, error: { code: '23505', message: 'duplicate key' } }
+    }
+    enrollments.push({ record_id, enrollment_key })
+    return { data: null, error: null }
+  }
+  return { data: [], error: null }
+}
+
+// Query builder that records the filters the processor relies on
+function createQuery(table: string) {
+  const query: Query = { table, op: 'select' }
+  const builder: Record<string, unknown> = {
+    select: vi.fn(() => {
+      if (query.op === 'update') query.returning = true
+      return builder
+    }),
+    insert: vi.fn((payload: Record<string, unknown>) => {
+      query.op = 'insert'
+      query.payload = payload
+      return builder
+    }),
+    update: vi.fn((payload: Record<string, unknown>) => {
+      query.op = 'update'
+      query.payload = payload
+      return builder
+    }),
+    eq: vi.fn(() => builder),
+    or: vi.fn(() => builder),
+    lt: vi.fn(() => builder),
+    order: vi.fn(() => builder),
+    gt: vi.fn((column: string, value: string) => {
+      if (column === 'id') query.afterId = value
+      return builder
+    }),
+    in: vi.fn((column: string, values: string[]) => {
+      if (column === 'record_id') query.recordIds = values
+      return builder
+    }),
+    limit: vi.fn((count: number) => {
+      query.limit = count
+      return builder
+    }),
+    then: (resolve: (value: unknown) => void) => resolve(resolveQuery(query)),
+  }
+  return builder
+}
+
+vi.mock('@/lib/supabase-server', () => ({
+  createAdminClient: vi.fn(() => ({ from: vi.fn((table: string) => createQuery(table)) })),
+}))
+
+import { processTimeBasedTriggers } from '@/lib/time-trigger-processor'
+import { runWorkflowForTrigger } from '@/lib/workflow-trigger-service'
+
+const NOW = new Date('2024-06-12T10:00:00Z')
+
+function makeLeads(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `lead-${String(i).padStart(3, '0')}`,
+    name: `Lead ${i}`,
+    user_id: 'user-1',
+    workspace_id: 'ws-1',
+    created_at: '2024-01-01T00:00:00Z',
+    last_activity_at: '2024-05-01T00:00:00Z',
+  }))
+}
+
+describe('processTimeBasedTriggers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    leads = makeLeads(150)
+    enrollments = []
+    scheduleLockWon = true
+    scheduleUpdates = []
+  })
+
+  describe('lead_inactive', () => {
+    beforeEach(() => {
+      workflowRow = {
+        id: 'wf-1',
+        user_id: 'user-1',
+        workspace_id: 'ws-1',
+        is_active: true,
+        trigger_type: 'lead_inactive',
+        trigger_config: { inactive_days: 7 },
+        actions: [],
+      }
+    })
+
+    it('should reach records past the first page once those are enrolled', async () => {
+      const first = await processTimeBasedTriggers(NOW)
+      expect(first.enrolled).toBe(100)
+
+      const second = await processTimeBasedTriggers(NOW)
+      expect(second.enrolled).toBe(50)
+      expect(second.skipped).toBe(0)
+      expect(enrollments.map((e) => e.record_id)).toEqual(leads.map((lead) => lead.id))
+
+      const third = await processTimeBasedTriggers(NOW)
+      expect(third.enrolled).toBe(0)
+      expect(runWorkflowForTrigger).toHaveBeenCalledTimes(150)
+    })
+  })
+
+  describe('scheduled', () => {
+    beforeEach(() => {
+      workflowRow = {
+        id: 'wf-2',
+        user_id: 'user-1',
+        workspace_id: 'ws-1',
+        is_active: true,
+        trigger_type: 'scheduled',
+        trigger_config: { cron_expression: '0 9 * * *', record_type: 'lead' },
+        actions: [],
+        next_run_at: '2024-06-12T09:00:00.000Z',
+      }
+    })
+
+    it('should keep the run open until every matching record is enrolled', async () => {
+      const first = await processTimeBasedTriggers(NOW)
+      expect(first.enrolled).toBe(100)
+      expect(scheduleUpdates).toEqual([])
+
+      const second = await processTimeBasedTriggers(NOW)
+      expect(second.enrolled).toBe(50)
+      expect(scheduleUpdates).toEqual([{ next_run_at: '2024-06-13T09:00:00.000Z' }])
+      expect(enrollments.every((e) => e.enrollment_key === 'scheduled:2024-06-12T09:00:00.000Z')).toBe(true)
+    })
+
+    it('should enroll nothing when another tick already advanced the schedule', async () => {
+      leads = makeLeads(3)
+      scheduleLockWon = false
+
+      const result = await processTimeBasedTriggers(NOW)
+
+      expect(result.enrolled).toBe(0)
+      expect(scheduleUpdates).toHaveLength(1)
+      expect(runWorkflowForTrigger).not.toHaveBeenCalled()
+    })
+  })
+})
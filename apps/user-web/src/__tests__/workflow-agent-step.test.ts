@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the Ask AI Agent workflow step
+ *
+ * Tests cover:
+ * - Structured answer schemas built from the configured output fields
+ * - Rendering the prompt with the trigger record and call transcript
+ * - Pricing usage and refusing steps over a hard spend limit
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { buildAgentOutputSchema, buildAskAgentPrompt, executeAskAgent } from '@/lib/workflow-agent-step'
+import { checkAISpendBudget } from '@/lib/ai-usage'
+import { calculateCost } from '@dreamteam/ai-pricing'
+import { resolveModelName } from '@/lib/agent-executor'
+import { mockAdminClient } from './mocks/database-server'
+
+describe('Workflow Ask Agent Step', () => {
+  describe('buildAgentOutputSchema', () => {
+    it('should return null when no fields are configured', () => {
+      expect(buildAgentOutputSchema(undefined)).toBeNull()
+      expect(buildAgentOutputSchema([{ key: ' ', type: 'text' }])).toBeNull()
+    })
+
+    it('should validate answers against the configured field types', () => {
+      const schema = buildAgentOutputSchema([
+        { key: 'intent', type: 'choice', options: ['high', 'medium', 'low', ''] },
+        { key: 'score', type: 'number' },
+        { key: 'follow_up', type: 'boolean' },
+      ])!
+
+      expect(schema.safeParse({ intent: 'high', score: 80, follow_up: true }).success).toBe(true)
+      expect(schema.safeParse({ intent: 'urgent', score: 80, follow_up: true }).success).toBe(false)
+      expect(schema.safeParse({ intent: 'low', score: '80', follow_up: true }).success).toBe(false)
+    })
+  })
+
+  describe('buildAskAgentPrompt', () => {
+    const context = {
+      userId: 'u',
+      lead: { id: 'l1', name: 'Acme' },
+      deal: { id: 'd1', name: 'Renewal', status: 'open' },
+    }
+
+    it('should render variables and attach the trigger record', () => {
+      const prompt = buildAskAgentPrompt({ agent_id: 'a1', prompt: 'Classify {{lead.name}}' }, context)
+
+      expect(prompt.startsWith('Classify Acme')).toBe(true)
+      expect(prompt).toContain('"name": "Renewal"')
+      expect(prompt).not.toContain('Call Transcript')
+      expect(prompt).not.toContain('requested field')
+    })
+
+    it('should add the transcript and answer instructions when configured', () => {
+      const prompt = buildAskAgentPrompt(
+        { agent_id: 'a1', prompt: 'Classify', output_fields: [{ key: 'intent', type: 'text' }] },
+        context,
+        [],
+        'Caller: I want to upgrade.'
+      )
+
+      expect(prompt).toContain('## Call Transcript\n\nCaller: I want to upgrade.')
+      expect(prompt).toContain('requested field')
+    })
+  })
+
+  describe('spend budgets', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    // A $10 hard limit on the workspace with $11 spent this month
+    function mockExceededBudget() {
+      mockAdminClient.then.mockImplementationOnce((resolve) =>
+        resolve({ data: [{ agent_id: null, monthly_limit_usd: '10' }], error: null })
+      )
+      mockAdminClient.rpc.mockResolvedValueOnce({
+        data: [{ agent_id: 'a1', cost_usd: '7' }, { agent_id: null, cost_usd: '4' }],
+        error: null,
+      } as never)
+    }
+
+    it('should price usage with the resolved model', () => {
+      const model = resolveModelName('anthropic', 'sonnet')
+
+      expect(model).toBe('claude-sonnet-4-20250514')
+      expect(calculateCost('anthropic', model, { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(4.5)
+      expect(calculateCost('xai', 'grok-4-fast', { inputTokens: 1_000_000 })).toBeCloseTo(0.2)
+    })
+
+    it('should refuse once a hard limit is reached', async () => {
+      mockExceededBudget()
+
+      const check = await checkAISpendBudget('ws-1', 'a1')
+
+      expect(check.allowed).toBe(false)
+      expect(check.message).toContain('$10.00 ($11.00 spent this month)')
+      expect(mockAdminClient.eq).toHaveBeenCalledWith('hard_limit', true)
+    })
+
+    it('should allow runs when there is no hard-limit budget', async () => {
+      expect(await checkAISpendBudget('ws-1', 'a1')).toEqual({ allowed: true })
+    })
+
+    it('should refuse runs when spend under a hard limit can\'t be loaded', async () => {
+      vi.spyOn(console, 'error').mockImplementationOnce(() => {})
+      mockAdminClient.then.mockImplementationOnce((resolve) =>
+        resolve({ data: [{ agent_id: null, monthly_limit_usd: '10' }], error: null })
+      )
+      mockAdminClient.rpc.mockResolvedValueOnce({ data: null, error: { message: 'timeout' } } as never)
+
+      const check = await checkAISpendBudget('ws-1', 'a1')
+
+      expect(check.allowed).toBe(false)
+      expect(check.message).toContain("Couldn't check this workspace's AI spend budget")
+    })
+
+    it('should not run the agent step over the limit', async () => {
+      mockExceededBudget()
+
+      const outcome = await executeAskAgent(
+        { agent_id: 'a1', prompt: 'Classify' },
+        { userId: 'u', workspaceId: 'ws-1' },
+        'wf-1'
+      )
+
+      expect(outcome.success).toBe(false)
+      expect(outcome.error).toContain('monthly AI spend limit')
+      expect(mockAdminClient.from).not.toHaveBeenCalledWith('ai_usage_log')
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for workflow conditions
+ *
+ * Tests cover:
+ * - Case sensitivity, regex, list, range and date operators
+ * - Refusing regexes that can backtrack exponentially
+ * - AND/OR groups, negation and nesting
+ * - The legacy single-condition shape
+ * - Configuration checks and summaries of condition trees
+ */
+
+import { describe, it, expect } from 'vitest'
+import { applyOperator, evaluateConditionNode, isConditionNodeConfigured } from '@/lib/workflow-condition-evaluator'
+import type { WorkflowContext } from '@/lib/workflow-executor'
+import type { WorkflowCondition, WorkflowConditionGroup } from '@/types/workflow'
+import { summarizeConditionNode, toConditionGroup } from '@/types/workflow'
+
+const sampleContext: WorkflowContext = {
+  userId: 'user-123',
+  leadId: 'lead-456',
+  contactId: 'contact-789',
+  lead: {
+    id: 'lead-456',
+    name: 'Test Company',
+    status: 'hot',
+  },
+  contact: {
+    id: 'contact-789',
+    first_name: 'John',
+    last_name: 'Doe',
+    email: 'john@test.com',
+    phone: '+1234567890',
+  },
+  customFieldValues: {
+    'cf-2': '100',
+  },
+}
+
+describe('applyOperator', () => {
+  it('should handle ends_with and case-sensitive comparisons', () => {
+    expect(applyOperator('john@TEST.com', 'ends_with', 'test.com')).toBe(true)
+    expect(applyOperator('john@TEST.com', 'ends_with', 'test.com', { caseSensitive: true })).toBe(false)
+    expect(applyOperator('Hot', 'equals', 'hot', { caseSensitive: true })).toBe(false)
+    expect(applyOperator('Hot', 'equals', 'Hot', { caseSensitive: true })).toBe(true)
+  })
+
+  it('should handle matches_regex operator', () => {
+    expect(applyOperator('+14155550100', 'matches_regex', '^\\+1415')).toBe(true)
+    expect(applyOperator('INV-2024-001', 'matches_regex', '^inv-\\d{4}')).toBe(true)
+    expect(applyOperator('INV-2024-001', 'matches_regex', '^inv-\\d{4}', { caseSensitive: true })).toBe(false)
+    expect(applyOperator('anything', 'matches_regex', '([unclosed')).toBe(false)
+  })
+
+  it('should refuse regexes that can backtrack exponentially', () => {
+    const input = 'a'.repeat(40) + '!'
+    expect(applyOperator(input, 'matches_regex', '^(a+)+$')).toBe(false)
+    expect(applyOperator(input, 'matches_regex', '^(a|aa)*$')).toBe(false)
+    expect(applyOperator(input, 'matches_regex', '^((a)+b)*$')).toBe(false)
+    // Quantifiers inside a group that isn't repeated, or inside a class, are fine
+    expect(applyOperator('ab-12', 'matches_regex', '^(a+b)-\\d+$')).toBe(true)
+    expect(applyOperator('ab+', 'matches_regex', '^([ab+]+)$')).toBe(true)
+    expect(applyOperator('abab', 'matches_regex', '^(ab)+$')).toBe(true)
+  })
+
+  it('should not test regexes against very long values', () => {
+    expect(applyOperator('x'.repeat(1001), 'matches_regex', '^x')).toBe(false)
+    expect(applyOperator('x'.repeat(1000), 'matches_regex', '^x')).toBe(true)
+  })
+
+  it('should handle in_list and not_in_list operators', () => {
+    expect(applyOperator('warm', 'in_list', 'hot, warm, cold')).toBe(true)
+    expect(applyOperator('lost', 'in_list', 'hot, warm, cold')).toBe(false)
+    expect(applyOperator('lost', 'not_in_list', 'hot, warm, cold')).toBe(true)
+    expect(applyOperator(['new', 'vip'], 'in_list', 'VIP')).toBe(true)
+  })
+
+  it('should handle between operator for numbers and dates', () => {
+    expect(applyOperator(60, 'between', '30', { valueTo: '120' })).toBe(true)
+    expect(applyOperator(130, 'between', '30', { valueTo: '120' })).toBe(false)
+    expect(applyOperator('2024-03-15', 'between', '2024-03-01', { valueTo: '2024-03-31' })).toBe(true)
+    expect(applyOperator(60, 'between', '30')).toBe(false)
+  })
+
+  it('should handle is_before and is_after operators', () => {
+    expect(applyOperator('2024-01-10T00:00:00Z', 'is_before', '2024-02-01')).toBe(true)
+    expect(applyOperator('2024-01-10T00:00:00Z', 'is_after', '2024-02-01')).toBe(false)
+    expect(applyOperator('not a date', 'is_after', '2024-02-01')).toBe(false)
+  })
+
+  it('should handle relative day operators', () => {
+    const now = new Date('2024-06-15T12:00:00Z')
+    expect(applyOperator('2024-06-10T12:00:00Z', 'within_last_days', '7', { now })).toBe(true)
+    expect(applyOperator('2024-06-01T12:00:00Z', 'within_last_days', '7', { now })).toBe(false)
+    expect(applyOperator('2024-06-01T12:00:00Z', 'more_than_days_ago', '7', { now })).toBe(true)
+    expect(applyOperator('2024-06-10T12:00:00Z', 'more_than_days_ago', '7', { now })).toBe(false)
+  })
+})
+
+describe('evaluateConditionNode', () => {
+  const statusHot: WorkflowCondition = {
+    field_source: 'trigger',
+    field_path: 'lead.status',
+    operator: 'equals',
+    value: 'hot',
+  }
+  const statusCold: WorkflowCondition = { ...statusHot, value: 'cold' }
+  const emailContainsTest: WorkflowCondition = {
+    field_source: 'trigger',
+    field_path: 'contact.email',
+    operator: 'contains',
+    value: 'test.com',
+  }
+
+  it('should accept the legacy single-condition shape', () => {
+    expect(evaluateConditionNode(statusHot, sampleContext, [])).toBe(true)
+    expect(evaluateConditionNode(statusCold, sampleContext, [])).toBe(false)
+  })
+
+  it('should require every member for "all" groups', () => {
+    const group: WorkflowConditionGroup = { match: 'all', conditions: [statusHot, emailContainsTest] }
+    expect(evaluateConditionNode(group, sampleContext, [])).toBe(true)
+
+    const failing: WorkflowConditionGroup = { match: 'all', conditions: [statusHot, statusCold] }
+    expect(evaluateConditionNode(failing, sampleContext, [])).toBe(false)
+  })
+
+  it('should require one member for "any" groups', () => {
+    const group: WorkflowConditionGroup = { match: 'any', conditions: [statusCold, emailContainsTest] }
+    expect(evaluateConditionNode(group, sampleContext, [])).toBe(true)
+
+    const failing: WorkflowConditionGroup = { match: 'any', conditions: [statusCold] }
+    expect(evaluateConditionNode(failing, sampleContext, [])).toBe(false)
+  })
+
+  it('should invert negated groups', () => {
+    const group: WorkflowConditionGroup = { match: 'all', negate: true, conditions: [statusCold] }
+    expect(evaluateConditionNode(group, sampleContext, [])).toBe(true)
+  })
+
+  it('should evaluate nested groups', () => {
+    // (status is cold AND email contains test.com) OR custom field cf-2 > 50
+    const group: WorkflowConditionGroup = {
+      match: 'any',
+      conditions: [
+        { match: 'all', conditions: [statusCold, emailContainsTest] },
+        { field_source: 'custom_field', field_path: 'cf', field_id: 'cf-2', operator: 'greater_than', value: '50' },
+      ],
+    }
+    expect(evaluateConditionNode(group, sampleContext, [])).toBe(true)
+  })
+
+  it('should return false for empty groups', () => {
+    expect(evaluateConditionNode({ match: 'all', conditions: [] }, sampleContext, [])).toBe(false)
+  })
+
+  it('should report configuration state of nested groups', () => {
+    expect(isConditionNodeConfigured(statusHot)).toBe(true)
+    expect(isConditionNodeConfigured({ match: 'all', conditions: [] })).toBe(false)
+    expect(isConditionNodeConfigured({
+      match: 'all',
+      conditions: [statusHot, { match: 'any', conditions: [{ ...statusHot, field_path: '' }] }],
+    })).toBe(false)
+  })
+
+  it('should summarize and normalize condition trees', () => {
+    expect(toConditionGroup(statusHot)).toEqual({ match: 'all', conditions: [statusHot] })
+    expect(summarizeConditionNode({
+      match: 'any',
+      conditions: [{ match: 'all', conditions: [statusHot, emailContainsTest] }, statusCold],
+    })).toBe('(status equals "hot" and email contains "test.com") or status equals "cold"')
+    expect(summarizeConditionNode({ match: 'all', negate: true, conditions: [statusCold] }))
+      .toBe('not (status equals "cold")')
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for workflow enrollment
+ *
+ * Tests cover:
+ * - Re-entry rules for records that already ran through a workflow
+ * - Picking the record a run is enrolled on
+ * - Goal and exit condition groups, including a goal met by an earlier step in the same run
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { isReEntryAllowed, getEnrollmentRecord, getActiveConditionGroup } from '@/lib/workflow-enrollment'
+import { executeWorkflow } from '@/lib/workflow-executor'
+import { mockAdminClient } from './mocks/database-server'
+
+describe('Workflow Enrollment', () => {
+  const now = new Date('2024-06-15T12:00:00Z')
+
+  describe('isReEntryAllowed', () => {
+    it('should always allow re-entry by default', () => {
+      expect(isReEntryAllowed(undefined, '2024-06-15T11:00:00Z', now)).toBe(true)
+      expect(isReEntryAllowed({ re_entry: 'always' }, '2024-06-15T11:00:00Z', now)).toBe(true)
+    })
+
+    it('should block any record that already ran when re-entry is never allowed', () => {
+      expect(isReEntryAllowed({ re_entry: 'never' }, '2023-01-01T00:00:00Z', now)).toBe(false)
+      expect(isReEntryAllowed({ re_entry: 'never' }, null, now)).toBe(true)
+    })
+
+    it('should allow re-entry once the configured number of days has passed', () => {
+      const settings = { re_entry: 'after_days' as const, re_entry_days: 7 }
+      expect(isReEntryAllowed(settings, '2024-06-10T12:00:00Z', now)).toBe(false)
+      expect(isReEntryAllowed(settings, '2024-06-08T12:00:00Z', now)).toBe(true)
+    })
+  })
+
+  describe('getEnrollmentRecord', () => {
+    it('should prefer the deal, then the lead, then the contact', () => {
+      expect(getEnrollmentRecord({ userId: 'u', dealId: 'd1', leadId: 'l1' })).toEqual({ key: 'dealId', id: 'd1' })
+      expect(getEnrollmentRecord({ userId: 'u', leadId: 'l1', contactId: 'c1' })).toEqual({ key: 'leadId', id: 'l1' })
+      expect(getEnrollmentRecord({ userId: 'u', contactId: 'c1' })).toEqual({ key: 'contactId', id: 'c1' })
+      expect(getEnrollmentRecord({ userId: 'u' })).toBeNull()
+    })
+  })
+
+  describe('getActiveConditionGroup', () => {
+    it('should ignore empty or incomplete goal groups', () => {
+      expect(getActiveConditionGroup(undefined)).toBeUndefined()
+      expect(getActiveConditionGroup({ match: 'all', conditions: [] })).toBeUndefined()
+      expect(getActiveConditionGroup({
+        match: 'all',
+        conditions: [{ field_source: 'trigger', field_path: '', operator: 'equals', value: '' }],
+      })).toBeUndefined()
+    })
+
+    it('should return configured groups', () => {
+      const goal = {
+        match: 'all' as const,
+        conditions: [{ field_source: 'trigger' as const, field_path: 'deal.status', operator: 'equals' as const, value: 'won' }],
+      }
+      expect(getActiveConditionGroup(goal)).toBe(goal)
+    })
+  })
+
+  describe('goal during a run', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    afterEach(() => {
+      mockAdminClient.single.mockReset()
+      mockAdminClient.single.mockImplementation(() => Promise.resolve({ data: null, error: null }))
+    })
+
+    it('should stop once an earlier step in the same run meets the goal', async () => {
+      // The deal as reloaded after the first step - that step won it
+      mockAdminClient.single.mockImplementation(() =>
+        Promise.resolve({ data: { id: 'd1', name: 'Renewal', status: 'won', stage_id: null }, error: null }) as never
+      )
+
+      const results = await executeWorkflow(
+        'wf1',
+        [
+          { id: 'first', type: 'add_note', order: 0, config: { note: 'Closing' } },
+          { id: 'second', type: 'add_note', order: 1, config: { note: 'Follow up' } },
+        ],
+        { userId: 'u', dealId: 'd1', deal: { id: 'd1', name: 'Renewal', status: 'open' } },
+        'deal_stage_changed',
+        {
+          goal: {
+            match: 'all',
+            conditions: [{ field_source: 'trigger', field_path: 'deal.status', operator: 'equals', value: 'won' }],
+          },
+        }
+      )
+
+      expect(results.map((result) => result.actionId)).toEqual(['first'])
+      expect(mockAdminClient.from).toHaveBeenCalledWith('deals')
+    })
+  })
+})
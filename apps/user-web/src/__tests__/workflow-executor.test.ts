@@ -0,0 +1,84 @@
+/**
+ * Unit tests for workflow test runs
+ *
+ * Tests cover:
+ * - Dry runs walk every step and branch without sending anything
+ * - Previewing a single step reports what a real run would fail on
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { executeWorkflow, previewWorkflowAction } from '@/lib/workflow-executor'
+
+describe('Workflow Test Run', () => {
+  const context = {
+    userId: 'u',
+    leadId: 'l1',
+    contactId: 'c1',
+    lead: { id: 'l1', name: 'Acme', status: 'new' },
+    contact: { id: 'c1', first_name: 'Jane', last_name: 'Doe', email: 'jane@acme.com' },
+  }
+
+  const mockFetch = vi.fn()
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should walk every step, record the branch taken and send nothing', async () => {
+    const actions = [
+      { id: 'notify', type: 'send_notification' as const, order: 0, config: { title: 'New lead', message: '{{lead_name}} signed up' } },
+      {
+        id: 'cond',
+        type: 'condition' as const,
+        order: 1,
+        config: {
+          condition: { field_source: 'trigger', field_path: 'lead.status', operator: 'equals', value: 'new' },
+          if_branch: [{ id: 'email', type: 'send_email' as const, order: 0, config: { subject: 'Welcome {{lead_name}}', body: 'Hello' } }],
+          else_branch: [{ id: 'note', type: 'add_note' as const, order: 0, config: { note: 'Not new' } }],
+        },
+      },
+      { id: 'wait', type: 'wait' as const, order: 2, config: { wait_duration: 2, wait_unit: 'days' } },
+      {
+        id: 'http',
+        type: 'http_request' as const,
+        order: 3,
+        config: {
+          http_method: 'POST',
+          http_url: 'https://api.example.com/leads',
+          http_headers: [{ key: 'Authorization', secret: true, value: 'Bearer secret' }],
+          http_body: '{"name": "{{lead.name}}"}',
+        },
+      },
+    ]
+
+    const results = await executeWorkflow('wf1', actions, context, 'lead_created', undefined, { dryRun: true })
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(results.map(r => r.actionId)).toEqual(['notify', 'cond', 'email', 'wait', 'http'])
+    expect(results.every(r => r.data?.dry_run)).toBe(true)
+    expect(results[0].data).toMatchObject({ title: 'New lead', message: 'Acme signed up' })
+    expect(results[1].data).toMatchObject({ conditionMet: true, branch: 'if' })
+    expect(results[2].data).toMatchObject({ to: 'jane@acme.com', subject: 'Welcome Acme' })
+    expect(results[4].data).toMatchObject({
+      url: 'https://api.example.com/leads',
+      headers: { Authorization: '********', 'Content-Type': 'application/json' },
+      body: '{"name": "Acme"}',
+    })
+  })
+
+  it('should report the steps a real run would fail on', async () => {
+    const result = await previewWorkflowAction(
+      { id: 'sms', type: 'send_sms', order: 0, config: { message: 'Hi' } },
+      { userId: 'u', lead: { id: 'l1', name: 'Acme' } }
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('No phone number available for SMS')
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the workflow graph view
+ *
+ * Tests cover:
+ * - Building nodes and edges from actions, including collapsed branches and last-run errors
+ * - Moving, connecting, adding and removing steps across branches
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildWorkflowGraph,
+  moveWorkflowAction,
+  canConnectWorkflowActions,
+  removeWorkflowAction,
+  replaceWorkflowAction,
+  addToWorkflowBranch,
+  findWorkflowAction,
+  getLastRunErrors,
+  TRIGGER_NODE_ID,
+} from '@/lib/workflow-graph'
+import type { WorkflowAction } from '@/types/workflow'
+
+describe('Workflow Graph', () => {
+  const step = (id: string, order: number): WorkflowAction => ({ id, type: 'add_note', order, config: { note: id } })
+  const condition = (id: string, order: number, ifBranch: WorkflowAction[], elseBranch: WorkflowAction[]): WorkflowAction => ({
+    id,
+    type: 'condition',
+    order,
+    config: { condition: { field_source: 'trigger', field_path: 'lead.status', operator: 'equals', value: 'new' }, if_branch: ifBranch, else_branch: elseBranch },
+  })
+  const branchIds = (action: WorkflowAction | null, branch: 'if_branch' | 'else_branch') =>
+    ((action?.config[branch] as WorkflowAction[]) || []).map(a => a.id)
+
+  // a -> cond1 (if: b -> cond2 (if: c, else: d), else: e) -> f
+  const actions: WorkflowAction[] = [
+    step('a', 0),
+    condition('cond1', 1, [step('b', 0), condition('cond2', 1, [step('c', 0)], [step('d', 0)])], [step('e', 0)]),
+    step('f', 2),
+  ]
+
+  it('should lay out every step with edges for next, if and else', () => {
+    const { nodes, edges } = buildWorkflowGraph(actions)
+
+    expect(nodes.map(n => n.id)).toEqual([TRIGGER_NODE_ID, 'a', 'cond1', 'b', 'cond2', 'c', 'd', 'e', 'f'])
+    expect(edges.map(e => e.id)).toEqual([
+      'trigger:next->a',
+      'a:next->cond1',
+      'cond1:if->b',
+      'b:next->cond2',
+      'cond2:if->c',
+      'cond2:else->d',
+      'cond1:else->e',
+      'cond1:next->f',
+    ])
+
+    const position = (id: string) => nodes.find(n => n.id === id)!.position
+    // Main line stays on the first row and continues after the widest branch
+    expect(position('f').y).toBe(position('a').y)
+    expect(position('f').x).toBeGreaterThan(position('c').x)
+    // Else branches sit below everything in the If True branch
+    expect(position('e').y).toBeGreaterThan(position('d').y)
+    expect(position('d').y).toBeGreaterThan(position('c').y)
+  })
+
+  it('should hide collapsed branches and badge hidden failures', () => {
+    const { nodes, edges } = buildWorkflowGraph(actions, {
+      collapsed: new Set(['cond1']),
+      errors: getLastRunErrors([
+        { success: false, actionType: 'add_note', actionId: 'd', error: 'Lead not found', executedAt: '' },
+        { success: true, actionType: 'add_note', actionId: 'a', executedAt: '' },
+      ]),
+    })
+
+    expect(nodes.map(n => n.id)).toEqual([TRIGGER_NODE_ID, 'a', 'cond1', 'f'])
+    expect(edges.map(e => e.id)).toEqual(['trigger:next->a', 'a:next->cond1', 'cond1:next->f'])
+    expect(nodes.find(n => n.id === 'cond1')!.data).toMatchObject({ collapsed: true, hiddenCount: 5, hiddenErrorCount: 1 })
+  })
+
+  it('should put last-run errors on the failed step', () => {
+    const errors = getLastRunErrors([{ success: false, actionType: 'add_note', actionId: 'c', error: 'Lead not found', executedAt: '' }])
+    const { nodes } = buildWorkflowGraph(actions, { errors })
+
+    expect(nodes.find(n => n.id === 'c')!.data.error).toBe('Lead not found')
+    expect(nodes.find(n => n.id === 'b')!.data.error).toBeUndefined()
+  })
+
+  it('should move a step into a nested branch and keep orders contiguous', () => {
+    const moved = moveWorkflowAction(actions, 'a', { afterId: 'cond2', handle: 'else' })
+
+    expect(moved.map(a => a.id)).toEqual(['cond1', 'f'])
+    expect(moved.map(a => a.order)).toEqual([0, 1])
+    const cond2 = findWorkflowAction(moved, 'cond2')
+    expect(branchIds(cond2, 'else_branch')).toEqual(['a', 'd'])
+    expect((cond2!.config.else_branch as WorkflowAction[]).map(a => a.order)).toEqual([0, 1])
+  })
+
+  it('should move a branch step back to the main line', () => {
+    const moved = moveWorkflowAction(actions, 'c', { afterId: TRIGGER_NODE_ID, handle: 'next' })
+
+    expect(moved.map(a => a.id)).toEqual(['c', 'a', 'cond1', 'f'])
+    expect(branchIds(findWorkflowAction(moved, 'cond2'), 'if_branch')).toEqual([])
+  })
+
+  it('should reject moves that would put a condition inside itself', () => {
+    expect(canConnectWorkflowActions(actions, 'c', 'cond1', 'next')).toBe(false)
+    expect(canConnectWorkflowActions(actions, 'f', TRIGGER_NODE_ID, 'next')).toBe(false)
+    expect(canConnectWorkflowActions(actions, 'a', 'f', 'if')).toBe(false)
+    expect(canConnectWorkflowActions(actions, 'cond2', 'a', 'if')).toBe(true)
+    expect(moveWorkflowAction(actions, 'cond1', { afterId: 'b', handle: 'next' })).toBe(actions)
+  })
+
+  it('should edit, add and remove steps at any depth', () => {
+    const edited = replaceWorkflowAction(actions, { ...step('d', 0), config: { note: 'edited' } })
+    expect(findWorkflowAction(edited, 'd')!.config.note).toBe('edited')
+    expect(edited[0]).toBe(actions[0])
+
+    const added = addToWorkflowBranch(actions, 'cond2', 'if', step('g', 0))
+    expect(branchIds(findWorkflowAction(added, 'cond2'), 'if_branch')).toEqual(['c', 'g'])
+    expect((findWorkflowAction(added, 'g')!).order).toBe(1)
+
+    const removed = removeWorkflowAction(actions, 'b')
+    expect(branchIds(findWorkflowAction(removed, 'cond1'), 'if_branch')).toEqual(['cond2'])
+    expect(findWorkflowAction(removed, 'cond2')!.order).toBe(0)
+  })
+})
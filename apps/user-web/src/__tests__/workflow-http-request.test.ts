@@ -0,0 +1,255 @@
+/**
+ * Unit tests for the workflow HTTP request action
+ *
+ * Tests cover:
+ * - Rendering templates into the URL, headers and body
+ * - Refusing private and local addresses, including after DNS and on redirects
+ * - Retries, response mapping and encrypted secret headers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { lookup as dnsLookup } from 'dns'
+import { fetch as undiciFetch } from 'undici'
+import { renderWorkflowTemplate } from '@/lib/workflow-template'
+import {
+  isBlockedRequestHost,
+  lookupPublicAddress,
+  applyResponseMapping,
+  executeHttpRequest,
+  encryptActionSecrets,
+} from '@/lib/workflow-http-request'
+import { decryptCRMToken } from '@/lib/crm-encryption'
+
+vi.mock('undici', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('undici')>()),
+  fetch: vi.fn(),
+}))
+
+vi.mock('dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('dns')>()
+  const lookup = vi.fn()
+  return { ...dns, default: { ...dns, lookup }, lookup }
+})
+
+describe('Workflow HTTP Request', () => {
+  const context = {
+    userId: 'u',
+    lead: { id: 'l1', name: 'Acme "Corp"', status: 'new' },
+    contact: { id: 'c1', first_name: 'Jane', last_name: 'Doe', email: 'jane+test@acme.com' },
+  }
+
+  describe('renderWorkflowTemplate', () => {
+    it('should escape values inside JSON strings', () => {
+      const body = renderWorkflowTemplate('{"name": "{{lead.name}}", "who": "{{contact_name}}"}', context, 'json')
+      expect(JSON.parse(body)).toEqual({ name: 'Acme "Corp"', who: 'Jane Doe' })
+    })
+
+    it('should URL-encode values in the URL', () => {
+      expect(renderWorkflowTemplate('https://api.example.com/?email={{contact.email}}', context, 'url'))
+        .toBe('https://api.example.com/?email=jane%2Btest%40acme.com')
+    })
+
+    it('should read earlier action results and leave unknown variables empty', () => {
+      const results = [{ success: true, actionType: 'http_request' as const, actionId: 'a1', data: { score: 42 }, executedAt: '' }]
+      expect(renderWorkflowTemplate('{{action.a1.data.score}}-{{deal.name}}', context, 'header', results)).toBe('42-')
+    })
+  })
+
+  describe('isBlockedRequestHost', () => {
+    it('should block loopback, private and link-local hosts', () => {
+      for (const host of ['localhost', '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '[::1]', 'db.internal']) {
+        expect(isBlockedRequestHost(host)).toBe(true)
+      }
+    })
+
+    it('should allow public hosts', () => {
+      for (const host of ['api.example.com', '8.8.8.8', '172.32.0.1', 'fdexample.com']) {
+        expect(isBlockedRequestHost(host)).toBe(false)
+      }
+    })
+  })
+
+  describe('lookupPublicAddress', () => {
+    function resolveTo(...addresses: string[]) {
+      vi.mocked(dnsLookup).mockImplementationOnce(((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+        callback(null, addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })))) as never)
+    }
+
+    function lookup(hostname: string, options: { all?: boolean } = {}) {
+      return new Promise<{ error: Error | null; address: unknown; family?: number }>((resolve) =>
+        lookupPublicAddress(hostname, options, (error, address, family) => resolve({ error, address, family })))
+    }
+
+    it('should refuse names that resolve to a private address', async () => {
+      resolveTo('93.184.216.34', '169.254.169.254')
+
+      const { error } = await lookup('metadata.example.com', { all: true })
+
+      expect(error?.message).toBe('Requests to private or local addresses are not allowed (metadata.example.com resolves to 169.254.169.254)')
+    })
+
+    it('should return the checked addresses for public names', async () => {
+      resolveTo('93.184.216.34')
+      expect(await lookup('api.example.com')).toEqual({ error: null, address: '93.184.216.34', family: 4 })
+
+      resolveTo('93.184.216.34', '2606:2800:220:1::1')
+      expect((await lookup('api.example.com', { all: true })).address).toHaveLength(2)
+    })
+  })
+
+  describe('applyResponseMapping', () => {
+    it('should copy values from nested response paths', () => {
+      const response = { result: { score: 87, tags: ['hot'] } }
+      expect(applyResponseMapping(response, [
+        { key: 'score', path: 'result.score' },
+        { key: 'missing', path: 'result.nope' },
+      ])).toEqual({ score: 87, missing: undefined })
+    })
+  })
+
+  describe('executeHttpRequest', () => {
+    const mockFetch = vi.mocked(undiciFetch) as unknown as ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      mockFetch.mockReset()
+    })
+
+    it('should send the rendered body and map the JSON response', async () => {
+      mockFetch.mockResolvedValue(new Response(JSON.stringify({ id: 'ext-1' }), { status: 201 }))
+
+      const outcome = await executeHttpRequest({
+        http_method: 'POST',
+        http_url: 'https://api.example.com/leads',
+        http_body: '{"name": "{{lead.name}}"}',
+        http_response_mapping: [{ key: 'external_id', path: 'id' }],
+      }, context)
+
+      expect(outcome).toEqual({ success: true, data: { status: 201, attempts: 1, external_id: 'ext-1' } })
+      const [, init] = mockFetch.mock.calls[0]
+      expect(JSON.parse(init.body)).toEqual({ name: 'Acme "Corp"' })
+      expect(init.headers['Content-Type']).toBe('application/json')
+    })
+
+    it('should not retry client errors', async () => {
+      mockFetch.mockResolvedValue(new Response('bad', { status: 400 }))
+
+      const outcome = await executeHttpRequest({
+        http_method: 'GET',
+        http_url: 'https://api.example.com/leads',
+        http_retries: 3,
+      }, context)
+
+      expect(outcome.success).toBe(false)
+      expect(outcome.data).toEqual({ status: 400, attempts: 1 })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refuse private addresses without sending a request', async () => {
+      const outcome = await executeHttpRequest({ http_method: 'GET', http_url: 'http://169.254.169.254/latest' }, context)
+      expect(outcome.success).toBe(false)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should refuse redirects to private addresses', async () => {
+      mockFetch.mockResolvedValue(new Response(null, {
+        status: 302,
+        headers: { Location: 'http://169.254.169.254/latest/meta-data' },
+      }))
+
+      const outcome = await executeHttpRequest({
+        http_method: 'GET',
+        http_url: 'https://api.example.com/leads',
+        http_retries: 2,
+      }, context)
+
+      expect(outcome.success).toBe(false)
+      expect(outcome.error).toBe('Redirect refused: Requests to private or local addresses are not allowed')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch.mock.calls[0][1].redirect).toBe('manual')
+    })
+
+    it('should not retry hosts that resolve to private addresses', async () => {
+      vi.mocked(dnsLookup).mockImplementation(((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+        callback(null, [{ address: '10.0.0.5', family: 4 }])) as never)
+      // Stand in for undici calling the dispatcher's lookup while connecting
+      mockFetch.mockImplementation((url: string) => new Promise((_resolve, reject) =>
+        lookupPublicAddress(new URL(url).hostname, {}, (error) => reject(new TypeError('fetch failed', { cause: error })))))
+
+      const outcome = await executeHttpRequest({
+        http_method: 'GET',
+        http_url: 'https://internal.example.com/admin',
+        http_retries: 3,
+      }, context)
+
+      expect(outcome).toEqual({
+        success: false,
+        error: 'Requests to private or local addresses are not allowed (internal.example.com resolves to 10.0.0.5)',
+        data: { attempts: 1 },
+      })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch.mock.calls[0][1].dispatcher).toBeDefined()
+    })
+
+    it('should follow safe redirects without leaking headers to another host', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 303, headers: { Location: 'https://cdn.example.net/result' } }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true }), { status: 200 }))
+
+      const outcome = await executeHttpRequest({
+        http_method: 'POST',
+        http_url: 'https://api.example.com/leads',
+        http_headers: [{ key: 'Authorization', value: 'Bearer token' }],
+        http_body: '{}',
+      }, context)
+
+      expect(outcome.success).toBe(true)
+      const [url, init] = mockFetch.mock.calls[1]
+      expect(url).toBe('https://cdn.example.net/result')
+      expect(init.method).toBe('GET')
+      expect(init.body).toBeUndefined()
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json' })
+    })
+  })
+
+  describe('encryptActionSecrets', () => {
+    const originalKey = process.env.CRM_TOKEN_ENCRYPTION_KEY
+
+    beforeEach(() => {
+      process.env.CRM_TOKEN_ENCRYPTION_KEY = 'a'.repeat(64)
+    })
+
+    afterEach(() => {
+      process.env.CRM_TOKEN_ENCRYPTION_KEY = originalKey
+    })
+
+    it('should encrypt secret header values, including inside condition branches', () => {
+      const httpAction = {
+        id: 'h1',
+        type: 'http_request' as const,
+        order: 0,
+        config: { http_headers: [{ key: 'Authorization', value: 'Bearer sk_live', secret: true }, { key: 'X-Source', value: 'crm' }] },
+      }
+      const [condition] = encryptActionSecrets([{
+        id: 'c1',
+        type: 'condition',
+        order: 0,
+        config: { condition: {}, if_branch: [httpAction], else_branch: [] },
+      }])
+
+      const [secret, plain] = (condition.config.if_branch as typeof httpAction[])[0].config.http_headers as Array<{ key: string; value?: string; encrypted_value?: string }>
+      expect(secret.value).toBeUndefined()
+      expect(decryptCRMToken(secret.encrypted_value!)).toBe('Bearer sk_live')
+      expect(plain).toEqual({ key: 'X-Source', value: 'crm' })
+    })
+
+    it('should keep the stored ciphertext when no new value is entered', () => {
+      const [action] = encryptActionSecrets([{
+        id: 'h1',
+        type: 'http_request',
+        order: 0,
+        config: { http_headers: [{ key: 'Authorization', secret: true, encrypted_value: 'iv:tag:cipher' }] },
+      }])
+      expect(action.config.http_headers).toEqual([{ key: 'Authorization', secret: true, encrypted_value: 'iv:tag:cipher' }])
+    })
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for workflow versions
+ *
+ * Tests cover:
+ * - Comparing and diffing version snapshots, including branch steps
+ * - Running workflows on their published version and trigger type
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffWorkflowVersions, isSameSnapshot } from '@/lib/workflow-version-diff'
+import { liveTriggerTypeFilter, withPublishedVersion } from '@/lib/workflow-versions'
+import type { Workflow, WorkflowVersion } from '@/types/workflow'
+
+describe('Workflow Versions', () => {
+  const base = {
+    name: 'Welcome',
+    trigger_type: 'lead_created' as const,
+    trigger_config: {},
+    enrollment_settings: {},
+    actions: [
+      { id: 'sms', type: 'send_sms' as const, order: 0, config: { message: 'Hi' } },
+      {
+        id: 'cond',
+        type: 'condition' as const,
+        order: 1,
+        config: {
+          condition: { field_source: 'trigger', field_path: 'lead.status', operator: 'equals', value: 'new' },
+          if_branch: [{ id: 'task', type: 'create_task' as const, order: 0, config: { title: 'Call' } }],
+          else_branch: [],
+        },
+      },
+    ],
+  }
+
+  describe('isSameSnapshot', () => {
+    it('should ignore key order from JSONB round trips', () => {
+      const reordered = {
+        ...base,
+        actions: base.actions.map(a => ({ config: a.config, order: a.order, type: a.type, id: a.id })),
+      }
+      expect(isSameSnapshot(base, reordered)).toBe(true)
+    })
+  })
+
+  describe('diffWorkflowVersions', () => {
+    it('should report added, removed and changed steps including branch steps', () => {
+      const next = {
+        ...base,
+        enrollment_settings: { re_entry: 'never' as const },
+        actions: [
+          { id: 'sms', type: 'send_sms' as const, order: 0, config: { message: 'Hello' } },
+          {
+            ...base.actions[1],
+            config: {
+              ...base.actions[1].config,
+              if_branch: [{ id: 'tag', type: 'add_tag' as const, order: 0, config: { tags: [] } }],
+            },
+          },
+        ],
+      }
+
+      expect(diffWorkflowVersions(base, next)).toEqual([
+        { kind: 'changed', area: 'enrollment', fields: ['re_entry'] },
+        { kind: 'removed', area: 'action', actionId: 'task', actionType: 'create_task', path: 'cond.if_branch' },
+        { kind: 'changed', area: 'action', actionId: 'sms', actionType: 'send_sms', path: undefined, fields: ['message'] },
+        { kind: 'added', area: 'action', actionId: 'tag', actionType: 'add_tag', path: 'cond.if_branch' },
+      ])
+    })
+
+    it('should report nothing for identical versions', () => {
+      expect(diffWorkflowVersions(base, structuredClone(base))).toEqual([])
+    })
+  })
+
+  describe('withPublishedVersion', () => {
+    const workflow = {
+      id: 'wf1',
+      user_id: 'u',
+      is_active: true,
+      created_at: '',
+      updated_at: '',
+      ...base,
+      actions: [],
+      published_version_id: 'v2',
+    } as Workflow
+
+    it('should run the published actions instead of the draft', () => {
+      const version = { ...base, id: 'v2', version_number: 2 } as unknown as WorkflowVersion
+      const live = withPublishedVersion({ ...workflow, published_version: version })
+
+      expect(live.actions).toEqual(base.actions)
+      expect(live).not.toHaveProperty('published_version')
+    })
+
+    it('should fall back to the saved workflow before its first publish', () => {
+      expect(withPublishedVersion({ ...workflow, published_version: null }).actions).toEqual([])
+    })
+
+    it('should fire on the published trigger while a new trigger is only drafted', () => {
+      const version = { ...base, id: 'v2', version_number: 2 } as unknown as WorkflowVersion
+      const draft = { ...workflow, trigger_type: 'deal_won' as const, trigger_config: { stage: 'won' } }
+      const live = withPublishedVersion({ ...draft, published_version: version })
+
+      expect(live.trigger_type).toBe('lead_created')
+      expect(live.trigger_config).toEqual(base.trigger_config)
+    })
+  })
+
+  describe('liveTriggerTypeFilter', () => {
+    it('should fetch unversioned workflows by trigger type and every versioned workflow', () => {
+      expect(liveTriggerTypeFilter(['lead_inactive', 'task_due_soon'])).toBe(
+        'trigger_type.in.(lead_inactive,task_due_soon),published_version_id.not.is.null'
+      )
+    })
+  })
+})
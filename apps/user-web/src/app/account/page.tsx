@@ -41,6 +41,7 @@ import {
   type ProductId,
 } from "@/components/team"
 import { NotificationsContent } from "@/components/notifications/notifications-content"
+import { MemoryInspector } from "@/components/agent-memory/memory-inspector"
 import { TimezoneSelect } from "@/components/team/settings/timezone-select"
 
 // Section Header Component
@@ -433,6 +434,7 @@ function AccountPageContent() {
     { id: "details", label: "My details" },
     { id: "team", label: "Team" },
     { id: "notifications", label: "Notifications" },
+    { id: "memory", label: "Agent memory" },
     { id: "billing", label: "Billing" },
   ]
 
@@ -799,6 +801,17 @@ function AccountPageContent() {
             <NotificationsContent />
           </TabsContent>
 
+          {/* Agent Memory Tab */}
+          <TabsContent value="memory" className="mt-6">
+            {workspaceId ? (
+              <MemoryInspector key={workspaceId} />
+            ) : (
+              <div className="flex items-center justify-center py-12">
+                <p className="text-muted-foreground">No workspace selected</p>
+              </div>
+            )}
+          </TabsContent>
+
           {/* Billing Tab */}
           <TabsContent value="billing" className="mt-6">
             {workspaceId ? (
@@ -6,6 +6,7 @@ import Link from "next/link"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useAgentChat, type AgentMessage } from "@/hooks/use-agent-chat"
 import { dbMessagesToAgentMessages } from "@/lib/message-mapper"
+import { AgentChangesSheet } from "@/components/agents/agent-changes-sheet"
 import {
   PromptInput,
   PromptInputTextarea,
@@ -182,6 +183,7 @@ export default function AgentChatPage() {
   const {
     messages,
     sendMessage,
+    respondToApproval,
     stopGeneration,
     status,
     error,
@@ -684,6 +686,12 @@ export default function AgentChatPage() {
           </div>
 
           <div className="flex items-center gap-2">
+            {(selectedConversationId || hookConversationId) && (
+              <AgentChangesSheet
+                changesUrl={`/api/agent-conversations/${selectedConversationId || hookConversationId}/changes`}
+              />
+            )}
+
             <Sheet open={isInfoOpen} onOpenChange={setIsInfoOpen}>
               <SheetTrigger asChild>
                 <Button variant="ghost" size="icon-sm">
@@ -902,6 +910,7 @@ export default function AgentChatPage() {
                     messages={messages}
                     status={status}
                     handleRetry={handleRetry}
+                    onApprovalResponse={respondToApproval}
                   />
                 ))}
 
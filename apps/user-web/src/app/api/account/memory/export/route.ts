@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getSession } from "@dreamteam/auth/session"
+import { getWorkspaceContext } from "@/lib/workspace-auth"
+import { getAuditContext } from "@/lib/audit"
+import { createRequestAuditLogger } from "@/lib/audit-logger"
+import { exportUserMemory } from "@/lib/agent-memory"
+
+// GET /api/account/memory/export - Download everything agents remember about the user as JSON
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { workspaceId } = await getWorkspaceContext(session.id)
+    if (!workspaceId) {
+      return NextResponse.json({ error: "No workspace selected" }, { status: 400 })
+    }
+
+    const memoryExport = await exportUserMemory(workspaceId, session.id)
+
+    await createRequestAuditLogger({
+      ...getAuditContext(request),
+      actorType: "user",
+      actorId: session.id,
+    }).log({
+      action: "memory_exported",
+      resourceType: "user",
+      resourceId: session.id,
+      workspaceId,
+      metadata: {
+        facts: memoryExport.facts.length,
+        summaries: memoryExport.summaries.length,
+        episodes: memoryExport.episodes.length,
+      },
+    })
+
+    const date = memoryExport.exported_at.slice(0, 10)
+    return new NextResponse(JSON.stringify(memoryExport, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="agent-memory-${date}.json"`,
+      },
+    })
+  } catch (error) {
+    console.error("[account/memory/export] Error:", error)
+    return NextResponse.json({ error: "Failed to export memory" }, { status: 500 })
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getSession } from "@dreamteam/auth/session"
+import { getWorkspaceContext } from "@/lib/workspace-auth"
+import { getAuditContext } from "@/lib/audit"
+import { createRequestAuditLogger } from "@/lib/audit-logger"
+import {
+  canManageFact,
+  deleteFact,
+  getFact,
+  updateFact,
+  type MemoryFact,
+  type MemoryFactType,
+} from "@/lib/agent-memory"
+
+const FACT_TYPES: MemoryFactType[] = ["preference", "context", "knowledge", "relationship"]
+
+type FactAccess =
+  | { error: NextResponse; fact?: never; userId?: never; workspaceId?: never }
+  | { error?: never; fact: MemoryFact; userId: string; workspaceId: string }
+
+async function getManageableFact(factId: string): Promise<FactAccess> {
+  const session = await getSession()
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  const { workspaceId, role } = await getWorkspaceContext(session.id)
+  if (!workspaceId || !role) {
+    return { error: NextResponse.json({ error: "No workspace selected" }, { status: 400 }) }
+  }
+
+  const fact = await getFact(factId)
+  if (!fact || fact.workspace_id !== workspaceId) {
+    return { error: NextResponse.json({ error: "Fact not found" }, { status: 404 }) }
+  }
+
+  if (!canManageFact(fact, session.id, role)) {
+    return {
+      error: NextResponse.json(
+        { error: "Only workspace admins can change shared memories" },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { fact, userId: session.id, workspaceId }
+}
+
+// PATCH /api/account/memory/facts/[id] - Correct a fact
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const access = await getManageableFact(id)
+    if (access.error) return access.error
+
+    const body = await request.json()
+    const updates: Partial<Pick<MemoryFact, "content" | "fact_type" | "importance">> = {}
+
+    if (body.content !== undefined) {
+      if (typeof body.content !== "string" || !body.content.trim()) {
+        return NextResponse.json({ error: "content cannot be empty" }, { status: 400 })
+      }
+      updates.content = body.content.trim()
+    }
+
+    if (body.fact_type !== undefined) {
+      if (!FACT_TYPES.includes(body.fact_type)) {
+        return NextResponse.json(
+          { error: `fact_type must be one of: ${FACT_TYPES.join(", ")}` },
+          { status: 400 }
+        )
+      }
+      updates.fact_type = body.fact_type
+    }
+
+    if (body.importance !== undefined) {
+      if (typeof body.importance !== "number" || body.importance < 0 || body.importance > 1) {
+        return NextResponse.json({ error: "importance must be between 0 and 1" }, { status: 400 })
+      }
+      updates.importance = body.importance
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+
+    const fact = await updateFact(id, updates)
+
+    await createRequestAuditLogger({
+      ...getAuditContext(request),
+      actorType: "user",
+      actorId: access.userId,
+    }).log({
+      action: "memory_fact_updated",
+      resourceType: "agent_memory_fact",
+      resourceId: id,
+      workspaceId: access.workspaceId,
+      agentId: access.fact.agent_id || undefined,
+      metadata: {
+        scope: access.fact.scope,
+        fields: Object.keys(updates),
+      },
+    })
+
+    return NextResponse.json({ fact })
+  } catch (error) {
+    console.error("[account/memory/facts] Update error:", error)
+    return NextResponse.json({ error: "Failed to update fact" }, { status: 500 })
+  }
+}
+
+// DELETE /api/account/memory/facts/[id] - Delete a fact
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const access = await getManageableFact(id)
+    if (access.error) return access.error
+
+    await deleteFact(id)
+
+    await createRequestAuditLogger({
+      ...getAuditContext(request),
+      actorType: "user",
+      actorId: access.userId,
+    }).log({
+      action: "memory_fact_deleted",
+      resourceType: "agent_memory_fact",
+      resourceId: id,
+      workspaceId: access.workspaceId,
+      agentId: access.fact.agent_id || undefined,
+      metadata: { scope: access.fact.scope },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[account/memory/facts] Delete error:", error)
+    return NextResponse.json({ error: "Failed to delete fact" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getSession } from "@dreamteam/auth/session"
+import { getWorkspaceContext } from "@/lib/workspace-auth"
+import { getAuditContext } from "@/lib/audit"
+import { createRequestAuditLogger } from "@/lib/audit-logger"
+import { forgetUser } from "@/lib/agent-memory"
+
+// POST /api/account/memory/forget - Purge the user from every agent's memory
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { workspaceId } = await getWorkspaceContext(session.id)
+    const removed = await forgetUser(session.id)
+
+    await createRequestAuditLogger({
+      ...getAuditContext(request),
+      actorType: "user",
+      actorId: session.id,
+    }).log({
+      action: "memory_forgotten",
+      resourceType: "user",
+      resourceId: session.id,
+      workspaceId: workspaceId || undefined,
+      metadata: { ...removed },
+    })
+
+    return NextResponse.json({ success: true, removed })
+  } catch (error) {
+    console.error("[account/memory/forget] Error:", error)
+    return NextResponse.json({ error: "Failed to forget memory" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getSession } from "@dreamteam/auth/session"
+import { getWorkspaceContext } from "@/lib/workspace-auth"
+import { listUserMemory } from "@/lib/agent-memory"
+
+// GET /api/account/memory - What agents remember about the current user and workspace
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { workspaceId, role } = await getWorkspaceContext(session.id)
+    if (!workspaceId || !role) {
+      return NextResponse.json({ error: "No workspace selected" }, { status: 400 })
+    }
+
+    const memory = await listUserMemory(workspaceId, session.id, role)
+
+    return NextResponse.json(memory)
+  } catch (error) {
+    console.error("[account/memory] Error:", error)
+    return NextResponse.json({ error: "Failed to load memory" }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@dreamteam/database/server"
+import { getSession } from "@dreamteam/auth/session"
+import { listAgentChanges, revertAgentChanges } from "@/lib/agent-changes"
+
+async function getOwnedConversation(conversationId: string, userId: string) {
+  const supabase = createAdminClient()
+  const { data } = await supabase
+    .from("agent_conversations")
+    .select("id")
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .single()
+  return data
+}
+
+// GET /api/agent-conversations/[id]/changes - List data changes the agent made in this conversation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: conversationId } = await params
+    if (!(await getOwnedConversation(conversationId, session.id))) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    const changes = await listAgentChanges(createAdminClient(), { conversationId })
+    return NextResponse.json({ changes })
+  } catch (error) {
+    console.error("Error in GET /api/agent-conversations/[id]/changes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/agent-conversations/[id]/changes - Revert changes
+// Body: { change_ids?: string[], force?: boolean } - without change_ids the whole run is undone
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: conversationId } = await params
+    if (!(await getOwnedConversation(conversationId, session.id))) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { change_ids, force } = body as { change_ids?: string[]; force?: boolean }
+    if (change_ids !== undefined && !Array.isArray(change_ids)) {
+      return NextResponse.json({ error: "change_ids must be an array" }, { status: 400 })
+    }
+
+    const results = await revertAgentChanges(createAdminClient(), { conversationId }, {
+      userId: session.id,
+      changeIds: change_ids,
+      force: force === true,
+    })
+
+    return NextResponse.json({
+      results,
+      reverted: results.filter((r) => r.status === "reverted").length,
+      conflicts: results.filter((r) => r.status === "conflict").length,
+      failed: results.filter((r) => r.status === "failed").length,
+    })
+  } catch (error) {
+    console.error("Error in POST /api/agent-conversations/[id]/changes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@dreamteam/database/server"
+import { getSession } from "@dreamteam/auth/session"
+import { listAgentChanges, revertAgentChanges } from "@/lib/agent-changes"
+
+// Verify the user is a member of the workspace the execution's agent is hired in
+async function canAccessExecution(executionId: string, userId: string): Promise<boolean> {
+  const supabase = createAdminClient()
+
+  const { data: execution } = await supabase
+    .from("agent_schedule_executions")
+    .select("id, agent_id")
+    .eq("id", executionId)
+    .single()
+
+  if (!execution) return false
+
+  const { data: hiredAgent } = await supabase
+    .from("agents")
+    .select("workspace_id")
+    .eq("ai_agent_id", execution.agent_id)
+    .single()
+
+  if (!hiredAgent) return false
+
+  const { data: membership } = await supabase
+    .from("workspace_members")
+    .select("id")
+    .eq("workspace_id", hiredAgent.workspace_id)
+    .eq("profile_id", userId)
+    .single()
+
+  return !!membership
+}
+
+// GET /api/agents/activity/[id]/changes - List data changes made by a scheduled execution
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: executionId } = await params
+    if (!(await canAccessExecution(executionId, session.id))) {
+      return NextResponse.json({ error: "Execution not found" }, { status: 404 })
+    }
+
+    const changes = await listAgentChanges(createAdminClient(), { executionId })
+    return NextResponse.json({ changes })
+  } catch (error) {
+    console.error("Error in GET /api/agents/activity/[id]/changes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/agents/activity/[id]/changes - Revert changes
+// Body: { change_ids?: string[], force?: boolean } - without change_ids the whole run is undone
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: executionId } = await params
+    if (!(await canAccessExecution(executionId, session.id))) {
+      return NextResponse.json({ error: "Execution not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { change_ids, force } = body as { change_ids?: string[]; force?: boolean }
+    if (change_ids !== undefined && !Array.isArray(change_ids)) {
+      return NextResponse.json({ error: "change_ids must be an array" }, { status: 400 })
+    }
+
+    const results = await revertAgentChanges(createAdminClient(), { executionId }, {
+      userId: session.id,
+      changeIds: change_ids,
+      force: force === true,
+    })
+
+    return NextResponse.json({
+      results,
+      reverted: results.filter((r) => r.status === "reverted").length,
+      conflicts: results.filter((r) => r.status === "conflict").length,
+      failed: results.filter((r) => r.status === "failed").length,
+    })
+  } catch (error) {
+    console.error("Error in POST /api/agents/activity/[id]/changes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase-server"
 import { getSession } from "@/lib/session"
 import { getCurrentWorkspaceId } from "@/lib/workspace-auth"
+import { triggerContactCreated, type Lead } from "@/lib/workflow-trigger-service"
 
 export async function GET(request: NextRequest) {
   try {
@@ -79,7 +80,7 @@ export async function POST(request: NextRequest) {
     // Verify the lead belongs to the user and workspace
     const { data: lead, error: leadError } = await supabase
       .from("leads")
-      .select("id")
+      .select("id, name, status, notes, user_id, workspace_id, created_at")
       .eq("id", lead_id)
       .eq("user_id", session.id)
       .eq("workspace_id", workspaceId)
@@ -108,6 +109,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    // Trigger contact_created workflows (non-blocking)
+    triggerContactCreated(data, lead as Lead).catch((err) => {
+      console.error("Error triggering contact_created workflows:", err)
+    })
+
     return NextResponse.json(data, { status: 201 })
   } catch (error) {
     console.error("Error in contacts POST:", error)
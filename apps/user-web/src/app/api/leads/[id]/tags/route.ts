@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase-server"
 import { getSession } from "@/lib/session"
+import { triggerTagAdded, type Lead } from "@/lib/workflow-trigger-service"
 
 interface RouteContext {
   params: Promise<{ id: string }>
@@ -87,7 +88,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
     // Verify lead ownership
     const { data: lead, error: leadError } = await supabase
       .from("leads")
-      .select("id")
+      .select("id, name, status, notes, user_id, workspace_id, created_at")
       .eq("id", leadId)
       .eq("user_id", session.id)
       .single()
@@ -120,6 +121,14 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    // Trigger tag_added workflows (non-blocking)
+    const tag = data?.tag as LeadTag | null | undefined
+    if (tag) {
+      triggerTagAdded(tag, lead as Lead, session.id).catch((err) => {
+        console.error("Error triggering tag_added workflows:", err)
+      })
+    }
+
     return NextResponse.json(data?.tag, { status: 201 })
   } catch (error) {
     console.error("Error in lead tags POST:", error)
@@ -197,7 +206,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     // Verify lead ownership
     const { data: lead, error: leadError } = await supabase
       .from("leads")
-      .select("id")
+      .select("id, name, status, notes, user_id, workspace_id, created_at")
       .eq("id", leadId)
       .eq("user_id", session.id)
       .single()
@@ -206,6 +215,13 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Lead not found" }, { status: 404 })
     }
 
+    // Remember the current tags so only newly added ones trigger workflows
+    const { data: existing } = await supabase
+      .from("lead_tag_assignments")
+      .select("tag_id")
+      .eq("lead_id", leadId)
+    const previousTagIds = new Set((existing || []).map((a: { tag_id: string }) => a.tag_id))
+
     // Delete all existing assignments
     const { error: deleteError } = await supabase
       .from("lead_tag_assignments")
@@ -249,6 +265,14 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
     const tags = data?.map((assignment: TagAssignment) => assignment.tag).filter(Boolean) || []
 
+    // Trigger tag_added workflows for tags that weren't on the lead before (non-blocking)
+    for (const tag of tags as LeadTag[]) {
+      if (previousTagIds.has(tag.id)) continue
+      triggerTagAdded(tag, lead as Lead, session.id).catch((err) => {
+        console.error("Error triggering tag_added workflows:", err)
+      })
+    }
+
     return NextResponse.json(tags)
   } catch (error) {
     console.error("Error in lead tags PUT:", error)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase-server"
 import { getAuthContext, isApiKeyAuth } from "@/lib/api-auth"
 import { fireWebhooks } from "@/lib/make-webhooks"
+import { triggerContactCreated, type Lead } from "@/lib/workflow-trigger-service"
 
 /**
  * GET /api/make/contacts
@@ -75,7 +76,7 @@ export async function POST(request: NextRequest) {
     // Verify the lead belongs to this workspace
     const { data: lead, error: leadError } = await supabase
       .from("leads")
-      .select("id, workspace_id")
+      .select("id, name, status, notes, user_id, workspace_id, created_at")
       .eq("id", lead_id)
       .eq("workspace_id", auth.workspaceId)
       .single()
@@ -107,6 +108,11 @@ export async function POST(request: NextRequest) {
     // Fire webhook
     await fireWebhooks("contact.created", { ...data, lead_id }, auth.workspaceId)
 
+    // Trigger contact_created workflows (non-blocking)
+    triggerContactCreated(data, lead as Lead).catch((err) => {
+      console.error("Error triggering contact_created workflows:", err)
+    })
+
     return NextResponse.json(data, { status: 201 })
   } catch (error) {
     console.error("Error in contacts POST:", error)
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@dreamteam/database/server'
 import { verifyWebhookSignature } from '@/lib/nylas'
 import { logNylasEvent } from '@/lib/audit'
+import { getJoinedField } from '@/lib/supabase-utils'
+import { triggerEmailReceived, type Contact, type Lead } from '@/lib/workflow-trigger-service'
 
 /**
  * Extract grant_id from various webhook payload formats.
@@ -53,6 +55,79 @@ function extractObjectId(data: Record<string, unknown>): string | null {
   return null
 }
 
+/**
+ * Extract the message object from a message.* webhook payload.
+ */
+function extractMessageObject(data: Record<string, unknown>): Record<string, unknown> | null {
+  const object = data.object as Record<string, unknown> | undefined
+  if (object && typeof object === 'object') {
+    return object
+  }
+
+  if (data.data && typeof data.data === 'object') {
+    const nestedObject = (data.data as Record<string, unknown>).object as Record<string, unknown> | undefined
+    if (nestedObject && typeof nestedObject === 'object') {
+      return nestedObject
+    }
+  }
+
+  return null
+}
+
+/**
+ * Fire email_received workflows when a known contact emails a connected mailbox.
+ * Messages sent from the mailbox itself and senders that aren't contacts are ignored.
+ */
+async function runEmailReceivedWorkflows(
+  supabase: ReturnType<typeof createAdminClient>,
+  message: Record<string, unknown>,
+  grant: { id: string; workspace_id: string; user_id: string; email: string | null }
+): Promise<void> {
+  const from = (message.from as Array<{ email?: string }> | undefined)?.[0]?.email
+  if (!from || from.toLowerCase() === grant.email?.toLowerCase()) {
+    return
+  }
+
+  const { data: contact } = await supabase
+    .from('contacts')
+    .select('id, first_name, last_name, email, phone, lead:leads(id, name, status, notes, user_id, workspace_id, created_at)')
+    .eq('workspace_id', grant.workspace_id)
+    .ilike('email', from)
+    .limit(1)
+    .maybeSingle()
+
+  if (!contact) {
+    return
+  }
+
+  // Contacts belong to a single lead, so the join is an object
+  const lead = getJoinedField<string>(contact.lead, 'id') ? (contact.lead as unknown as Lead) : null
+
+  const contactData: Contact = {
+    id: contact.id,
+    first_name: contact.first_name,
+    last_name: contact.last_name,
+    email: contact.email,
+    phone: contact.phone,
+  }
+
+  await triggerEmailReceived(
+    {
+      id: typeof message.id === 'string' ? message.id : '',
+      channel: 'email',
+      from,
+      to: grant.email || '',
+      subject: typeof message.subject === 'string' ? message.subject : undefined,
+      body: typeof message.snippet === 'string' ? message.snippet : '',
+      grant_id: grant.id,
+    },
+    lead,
+    contactData,
+    grant.user_id,
+    grant.workspace_id
+  )
+}
+
 /**
  * POST /api/nylas/webhook
  *
@@ -198,7 +273,7 @@ export async function POST(request: NextRequest) {
         if (grantId) {
           const { data: grant } = await supabase
             .from('nylas_grants')
-            .select('id, workspace_id, user_id')
+            .select('id, workspace_id, user_id, email')
             .eq('grant_id', grantId)
             .single()
 
@@ -217,6 +292,16 @@ export async function POST(request: NextRequest) {
               request,
               { webhookType: type, messageId: objectId }
             )
+
+            // New inbound mail can start email_received workflows
+            const message = type === 'message.created' ? extractMessageObject(data) : null
+            if (message) {
+              try {
+                await runEmailReceivedWorkflows(supabase, message, grant)
+              } catch (error) {
+                console.error('[Nylas Webhook] Error triggering email_received workflows:', error)
+              }
+            }
           }
         }
         break
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@dreamteam/database/server"
+import { getSession } from "@dreamteam/auth/session"
+import type { AISpendBudget, AISpendBudgetsResponse } from "@/types/team-settings"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+async function getMemberRole(supabase: AdminClient, workspaceId: string, profileId: string) {
+  const { data: membership } = await supabase
+    .from("workspace_members")
+    .select("role")
+    .eq("workspace_id", workspaceId)
+    .eq("profile_id", profileId)
+    .single()
+
+  return (membership?.role as string | undefined) || null
+}
+
+function startOfMonth(): string {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+}
+
+// GET /api/team/ai-budgets - List AI spend budgets with this month's spend
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+
+    const { searchParams } = new URL(request.url)
+    const workspaceId = searchParams.get("workspaceId")
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Workspace ID required" }, { status: 400 })
+    }
+
+    if (!(await getMemberRole(supabase, workspaceId, session.id))) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      )
+    }
+
+    const [budgetsResult, spendResult, agentsResult] = await Promise.all([
+      supabase
+        .from("ai_spend_budgets")
+        .select("id, workspace_id, agent_id, monthly_limit_usd, soft_limit_percent, hard_limit")
+        .eq("workspace_id", workspaceId),
+      supabase.rpc("get_ai_spend", { p_workspace_id: workspaceId, p_since: startOfMonth() }),
+      supabase
+        .from("agents")
+        .select("name, ai_agent_id")
+        .eq("workspace_id", workspaceId)
+        .eq("is_active", true)
+        .not("ai_agent_id", "is", null)
+        .order("name"),
+    ])
+
+    if (budgetsResult.error || spendResult.error) {
+      const error = budgetsResult.error || spendResult.error
+      console.error("Error fetching AI budgets:", error)
+      return NextResponse.json({ error: error!.message }, { status: 500 })
+    }
+
+    const spend = (spendResult.data || []) as { agent_id: string | null; cost_usd: number | string }[]
+    const spentBy = (agentId: string | null) =>
+      spend
+        .filter((row) => agentId === null || row.agent_id === agentId)
+        .reduce((sum, row) => sum + Number(row.cost_usd), 0)
+
+    return NextResponse.json<AISpendBudgetsResponse>({
+      budgets: ((budgetsResult.data || []) as Omit<AISpendBudget, "spent_usd">[]).map((budget) => ({
+        ...budget,
+        monthly_limit_usd: Number(budget.monthly_limit_usd),
+        spent_usd: spentBy(budget.agent_id),
+      })),
+      agents: ((agentsResult.data || []) as { name: string; ai_agent_id: string }[]).map((agent) => ({
+        id: agent.ai_agent_id,
+        name: agent.name,
+      })),
+      workspace_spent_usd: spentBy(null),
+    })
+  } catch (error) {
+    console.error("Error in GET /api/team/ai-budgets:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// PUT /api/team/ai-budgets - Create or update the budget for the workspace or one agent
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+
+    const body = await request.json()
+    const { workspaceId, agentId, monthlyLimitUsd, softLimitPercent, hardLimit } = body
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Workspace ID required" }, { status: 400 })
+    }
+
+    const role = await getMemberRole(supabase, workspaceId, session.id)
+    if (role !== "owner" && role !== "admin") {
+      return NextResponse.json(
+        { error: "Only owners and admins can manage AI budgets" },
+        { status: 403 }
+      )
+    }
+
+    if (typeof monthlyLimitUsd !== "number" || !Number.isFinite(monthlyLimitUsd) || monthlyLimitUsd <= 0) {
+      return NextResponse.json({ error: "Monthly limit must be a positive amount" }, { status: 400 })
+    }
+    if (
+      softLimitPercent !== undefined &&
+      (!Number.isInteger(softLimitPercent) || softLimitPercent < 1 || softLimitPercent > 100)
+    ) {
+      return NextResponse.json({ error: "Warning threshold must be between 1 and 100 percent" }, { status: 400 })
+    }
+    if (hardLimit !== undefined && typeof hardLimit !== "boolean") {
+      return NextResponse.json({ error: "hardLimit must be a boolean" }, { status: 400 })
+    }
+
+    const values = {
+      monthly_limit_usd: Math.round(monthlyLimitUsd * 100) / 100,
+      ...(softLimitPercent !== undefined && { soft_limit_percent: softLimitPercent }),
+      ...(hardLimit !== undefined && { hard_limit: hardLimit }),
+    }
+
+    // Budgets are unique per workspace + agent, with a null agent for the workspace budget
+    let existingQuery = supabase
+      .from("ai_spend_budgets")
+      .select("id")
+      .eq("workspace_id", workspaceId)
+    existingQuery = agentId ? existingQuery.eq("agent_id", agentId) : existingQuery.is("agent_id", null)
+    const { data: existing } = await existingQuery.maybeSingle()
+
+    const { data: budget, error } = existing
+      ? await supabase
+          .from("ai_spend_budgets")
+          .update(values)
+          .eq("id", existing.id)
+          .select("id, workspace_id, agent_id, monthly_limit_usd, soft_limit_percent, hard_limit")
+          .single()
+      : await supabase
+          .from("ai_spend_budgets")
+          .insert({ workspace_id: workspaceId, agent_id: agentId || null, ...values })
+          .select("id, workspace_id, agent_id, monthly_limit_usd, soft_limit_percent, hard_limit")
+          .single()
+
+    if (error) {
+      console.error("Error saving AI budget:", error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(budget, { status: existing ? 200 : 201 })
+  } catch (error) {
+    console.error("Error in PUT /api/team/ai-budgets:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/team/ai-budgets - Remove a budget
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+
+    const { searchParams } = new URL(request.url)
+    const workspaceId = searchParams.get("workspaceId")
+    const budgetId = searchParams.get("id")
+
+    if (!workspaceId || !budgetId) {
+      return NextResponse.json({ error: "Workspace ID and budget ID required" }, { status: 400 })
+    }
+
+    const role = await getMemberRole(supabase, workspaceId, session.id)
+    if (role !== "owner" && role !== "admin") {
+      return NextResponse.json(
+        { error: "Only owners and admins can manage AI budgets" },
+        { status: 403 }
+      )
+    }
+
+    const { error } = await supabase
+      .from("ai_spend_budgets")
+      .delete()
+      .eq("id", budgetId)
+      .eq("workspace_id", workspaceId)
+
+    if (error) {
+      console.error("Error deleting AI budget:", error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error in DELETE /api/team/ai-budgets:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
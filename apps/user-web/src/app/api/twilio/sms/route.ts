@@ -3,6 +3,25 @@ import { createAdminClient } from '@/lib/supabase-server'
 import { validateTwilioWebhook, MessagingResponse } from '@/lib/twilio'
 import { fireWebhooks } from "@/lib/make-webhooks"
 import { getJoinedField } from '@/lib/supabase-utils'
+import { triggerSmsReceived, fetchLead, fetchContact, type InboundMessage } from '@/lib/workflow-trigger-service'
+
+/**
+ * Load the lead/contact the message belongs to and fire sms_received workflows
+ */
+async function runSmsReceivedWorkflows(
+  message: InboundMessage,
+  leadId: string | null,
+  contactId: string | null,
+  userId: string,
+  workspaceId: string | null
+): Promise<void> {
+  const [lead, contact] = await Promise.all([
+    leadId ? fetchLead(leadId) : Promise.resolve(null),
+    contactId ? fetchContact(contactId) : Promise.resolve(null),
+  ])
+
+  await triggerSmsReceived(message, lead, contact, userId, workspaceId || lead?.workspace_id || undefined)
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -29,6 +48,14 @@ export async function POST(request: NextRequest) {
 
     const supabase = createAdminClient()
 
+    const inboundMessage: InboundMessage = {
+      id: MessageSid,
+      channel: 'sms',
+      from: From,
+      to: To,
+      body: Body || '',
+    }
+
     // Collect media URLs (MMS attachments)
     const mediaUrls: string[] = []
     const numMedia = parseInt(NumMedia || '0')
@@ -107,6 +134,12 @@ export async function POST(request: NextRequest) {
           lead_id: thread.lead_id,
         }, smsWorkspaceId)
       }
+
+      // Trigger sms_received workflows (non-blocking)
+      runSmsReceivedWorkflows(inboundMessage, thread.lead_id, thread.contact_id, thread.user_id, smsWorkspaceId)
+        .catch((err) => {
+          console.error('[twilio/sms] Error triggering sms_received workflows:', err)
+        })
     } else {
       // Try to find contact by phone number, scoped to workspace if known
       let contactQuery = supabase
@@ -182,6 +215,12 @@ export async function POST(request: NextRequest) {
             lead_id: contact.lead_id,
           }, contactWebhookWorkspaceId)
         }
+
+        // Trigger sms_received workflows (non-blocking)
+        runSmsReceivedWorkflows(inboundMessage, contact.lead_id, contact.id, userId, contactWebhookWorkspaceId)
+          .catch((err) => {
+            console.error('[twilio/sms] Error triggering sms_received workflows:', err)
+          })
       }
       // If no contact found, we can't associate the message - skip logging
     }
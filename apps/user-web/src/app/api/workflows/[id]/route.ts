@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase-server"
 import { getSession } from "@/lib/session"
 import { getCurrentWorkspaceId } from "@/lib/workspace-auth"
+import { encryptActionSecrets } from "@/lib/workflow-http-request"
+import { publishWorkflowVersion } from "@/lib/workflow-versions"
 
 export async function GET(
   request: NextRequest,
@@ -63,7 +65,7 @@ export async function PATCH(
 
     const { id } = await params
     const body = await request.json()
-    const { name, description, trigger_type, trigger_config, is_active, actions } = body
+    const { name, description, trigger_type, trigger_config, is_active, actions, enrollment_settings } = body
 
     // Validate name if provided
     if (name !== undefined && (typeof name !== "string" || !name.trim())) {
@@ -77,9 +79,14 @@ export async function PATCH(
     if (name !== undefined) updateData.name = name.trim()
     if (description !== undefined) updateData.description = description
     if (trigger_type !== undefined) updateData.trigger_type = trigger_type
-    if (trigger_config !== undefined) updateData.trigger_config = trigger_config
+    if (trigger_config !== undefined) {
+      updateData.trigger_config = trigger_config
+      // Let the time-trigger cron recalculate the next run from the new schedule
+      updateData.next_run_at = null
+    }
     if (is_active !== undefined) updateData.is_active = is_active
-    if (actions !== undefined) updateData.actions = actions
+    if (actions !== undefined) updateData.actions = encryptActionSecrets(actions)
+    if (enrollment_settings !== undefined) updateData.enrollment_settings = enrollment_settings
 
     const { data, error } = await supabase
       .from("workflows")
@@ -95,6 +102,16 @@ export async function PATCH(
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    // Activating a workflow that has never been published publishes its saved draft as version 1
+    if (is_active === true && !data.published_version_id) {
+      const { version, error: publishError } = await publishWorkflowVersion(id, session.id)
+      if (!version) {
+        console.error("Error publishing workflow:", publishError)
+        return NextResponse.json({ error: publishError }, { status: 500 })
+      }
+      return NextResponse.json({ ...data, published_version_id: version.id })
+    }
+
     return NextResponse.json(data)
   } catch (error) {
     const errorId = crypto.randomUUID().slice(0, 8)
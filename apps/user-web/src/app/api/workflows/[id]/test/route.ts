@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase-server"
+import { getSession } from "@/lib/session"
+import { getCurrentWorkspaceId } from "@/lib/workspace-auth"
+import { executeWorkflow, type WorkflowContext } from "@/lib/workflow-executor"
+import { refreshWorkflowContext } from "@/lib/workflow-enrollment"
+import type { WorkflowAction, WorkflowTestRecordType } from "@/types/workflow"
+
+const RECORD_TABLES: Record<WorkflowTestRecordType, string> = {
+  lead: "leads",
+  contact: "contacts",
+  deal: "deals",
+}
+
+/**
+ * Test-run a workflow against a real record or sample data
+ * Every step is evaluated and templated, but no messages are sent and no CRM records change
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const workspaceId = await getCurrentWorkspaceId(session.id)
+    if (!workspaceId) {
+      return NextResponse.json({ error: "No workspace selected" }, { status: 400 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { actions, record, sample } = body as {
+      actions?: WorkflowAction[]
+      record?: { type: WorkflowTestRecordType; id: string }
+      sample?: Pick<WorkflowContext, "lead" | "contact" | "deal" | "call" | "message">
+    }
+
+    const supabase = createAdminClient()
+
+    const { data: workflow, error: workflowError } = await supabase
+      .from("workflows")
+      .select("id, trigger_type, actions, enrollment_settings")
+      .eq("id", id)
+      .eq("user_id", session.id)
+      .eq("workspace_id", workspaceId)
+      .single()
+
+    if (workflowError || !workflow) {
+      return NextResponse.json({ error: "Workflow not found" }, { status: 404 })
+    }
+
+    let context: WorkflowContext = { userId: session.id, workspaceId }
+
+    if (record) {
+      const table = RECORD_TABLES[record.type]
+      if (!table || !record.id) {
+        return NextResponse.json({ error: "Invalid test record" }, { status: 400 })
+      }
+
+      // Only records in the current workspace can be used
+      const { data: found } = await supabase
+        .from(table)
+        .select("id")
+        .eq("id", record.id)
+        .eq("workspace_id", workspaceId)
+        .maybeSingle()
+
+      if (!found) {
+        return NextResponse.json({ error: "Record not found" }, { status: 404 })
+      }
+
+      if (record.type === "lead") {
+        context.leadId = record.id
+        // Use the lead's first contact so contact variables resolve like they would on a real run
+        const { data: contacts } = await supabase
+          .from("contacts")
+          .select("id")
+          .eq("lead_id", record.id)
+          .limit(1)
+        context.contactId = contacts?.[0]?.id
+      } else if (record.type === "contact") {
+        context.contactId = record.id
+      } else {
+        context.dealId = record.id
+      }
+
+      context = await refreshWorkflowContext(context)
+    } else if (sample) {
+      context = {
+        ...context,
+        ...sample,
+        leadId: sample.lead?.id,
+        contactId: sample.contact?.id,
+        dealId: sample.deal?.id,
+      }
+    }
+
+    // Test the builder's unsaved steps when given, otherwise the saved workflow
+    const results = await executeWorkflow(
+      workflow.id,
+      Array.isArray(actions) ? actions : (workflow.actions as WorkflowAction[]) || [],
+      context,
+      workflow.trigger_type,
+      workflow.enrollment_settings,
+      { dryRun: true }
+    )
+
+    return NextResponse.json({ context, results })
+  } catch (error) {
+    const errorId = crypto.randomUUID().slice(0, 8)
+    console.error(`[workflow/test] Error [${errorId}]:`, error)
+    return NextResponse.json({ error: 'Internal server error', errorId }, { status: 500 })
+  }
+}
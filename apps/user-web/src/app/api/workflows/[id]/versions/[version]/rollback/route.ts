@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase-server"
+import { getSession } from "@/lib/session"
+import { getWorkspaceContext, isAdmin } from "@/lib/workspace-auth"
+import { rollbackWorkflowVersion } from "@/lib/workflow-versions"
+
+/**
+ * Publish an earlier version again - workspace admins and owners only
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { workspaceId, role } = await getWorkspaceContext(session.id)
+    if (!workspaceId || !role) {
+      return NextResponse.json({ error: "No workspace selected" }, { status: 400 })
+    }
+    if (!isAdmin(role)) {
+      return NextResponse.json({ error: "Only workspace admins can roll back workflows" }, { status: 403 })
+    }
+
+    const { id: workflowId, version } = await params
+    const versionNumber = parseInt(version, 10)
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 })
+    }
+
+    const supabase = createAdminClient()
+
+    const { data: workflow, error: workflowError } = await supabase
+      .from("workflows")
+      .select("id")
+      .eq("id", workflowId)
+      .eq("workspace_id", workspaceId)
+      .single()
+
+    if (workflowError || !workflow) {
+      return NextResponse.json({ error: "Workflow not found" }, { status: 404 })
+    }
+
+    const { version: restored, error } = await rollbackWorkflowVersion(workflowId, versionNumber, session.id)
+    if (!restored) {
+      return NextResponse.json({ error }, { status: error?.includes("not found") ? 404 : 500 })
+    }
+
+    return NextResponse.json(restored, { status: 201 })
+  } catch (error) {
+    const errorId = crypto.randomUUID().slice(0, 8)
+    console.error(`[workflow/rollback] Error [${errorId}]:`, error)
+    return NextResponse.json({ error: 'Internal server error', errorId }, { status: 500 })
+  }
+}
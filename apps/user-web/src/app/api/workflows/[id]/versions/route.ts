@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase-server"
+import { getSession } from "@/lib/session"
+import { getCurrentWorkspaceId } from "@/lib/workspace-auth"
+import { publishWorkflowVersion } from "@/lib/workflow-versions"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const workspaceId = await getCurrentWorkspaceId(session.id)
+    if (!workspaceId) {
+      return NextResponse.json({ error: "No workspace selected" }, { status: 400 })
+    }
+
+    const { id: workflowId } = await params
+    const supabase = createAdminClient()
+
+    // First verify the workflow belongs to this user and workspace
+    const { data: workflow, error: workflowError } = await supabase
+      .from("workflows")
+      .select("id, published_version_id")
+      .eq("id", workflowId)
+      .eq("user_id", session.id)
+      .eq("workspace_id", workspaceId)
+      .single()
+
+    if (workflowError || !workflow) {
+      return NextResponse.json({ error: "Workflow not found" }, { status: 404 })
+    }
+
+    const { data: versions, error } = await supabase
+      .from("workflow_versions")
+      .select("*")
+      .eq("workflow_id", workflowId)
+      .order("version_number", { ascending: false })
+
+    if (error) {
+      console.error("Error fetching workflow versions:", error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      versions: versions || [],
+      published_version_id: workflow.published_version_id,
+    })
+  } catch (error) {
+    const errorId = crypto.randomUUID().slice(0, 8)
+    console.error(`[workflow/versions] Error [${errorId}]:`, error)
+    return NextResponse.json({ error: 'Internal server error', errorId }, { status: 500 })
+  }
+}
+
+/**
+ * Publish the saved draft as a new version and activate the workflow
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const workspaceId = await getCurrentWorkspaceId(session.id)
+    if (!workspaceId) {
+      return NextResponse.json({ error: "No workspace selected" }, { status: 400 })
+    }
+
+    const { id: workflowId } = await params
+    const supabase = createAdminClient()
+
+    const { data: workflow, error: workflowError } = await supabase
+      .from("workflows")
+      .select("id")
+      .eq("id", workflowId)
+      .eq("user_id", session.id)
+      .eq("workspace_id", workspaceId)
+      .single()
+
+    if (workflowError || !workflow) {
+      return NextResponse.json({ error: "Workflow not found" }, { status: 404 })
+    }
+
+    const { version, error } = await publishWorkflowVersion(workflowId, session.id)
+    if (!version) {
+      console.error("Error publishing workflow:", error)
+      return NextResponse.json({ error }, { status: 500 })
+    }
+
+    const { error: activateError } = await supabase
+      .from("workflows")
+      .update({ is_active: true })
+      .eq("id", workflowId)
+
+    if (activateError) {
+      console.error("Error activating workflow:", activateError)
+      return NextResponse.json({ error: activateError.message }, { status: 500 })
+    }
+
+    return NextResponse.json(version, { status: 201 })
+  } catch (error) {
+    const errorId = crypto.randomUUID().slice(0, 8)
+    console.error(`[workflow/publish] Error [${errorId}]:`, error)
+    return NextResponse.json({ error: 'Internal server error', errorId }, { status: 500 })
+  }
+}
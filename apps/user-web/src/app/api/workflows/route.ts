@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase-server"
 import { getSession } from "@/lib/session"
 import { getCurrentWorkspaceId } from "@/lib/workspace-auth"
+import { encryptActionSecrets } from "@/lib/workflow-http-request"
+import { publishWorkflowVersion } from "@/lib/workflow-versions"
 
 export async function GET() {
   try {
@@ -70,7 +72,7 @@ export async function POST(request: NextRequest) {
         trigger_type,
         trigger_config: trigger_config || {},
         is_active: is_active || false,
-        actions: actions || [],
+        actions: encryptActionSecrets(actions || []),
       })
       .select()
       .single()
@@ -80,6 +82,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    // Workflows created active go live as version 1
+    if (data.is_active) {
+      const { version, error: publishError } = await publishWorkflowVersion(data.id, session.id)
+      if (!version) {
+        console.error("Error publishing workflow:", publishError)
+        return NextResponse.json({ error: publishError }, { status: 500 })
+      }
+      return NextResponse.json({ ...data, published_version_id: version.id }, { status: 201 })
+    }
+
     return NextResponse.json(data, { status: 201 })
   } catch (error) {
     const errorId = crypto.randomUUID().slice(0, 8)
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useRef, useMemo } from "react"
+import { useState, useEffect, useRef, useMemo, useCallback } from "react"
 import { useParams, useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@dreamteam/ui/button"
 import { Input } from "@dreamteam/ui/input"
@@ -14,6 +14,11 @@ import {
   XIcon,
   BotIcon,
   HistoryIcon,
+  RepeatIcon,
+  FlaskConicalIcon,
+  GitCommitIcon,
+  ListIcon,
+  WorkflowIcon,
 } from "lucide-react"
 import {
   DndContext,
@@ -39,7 +44,22 @@ import { ConfigSidePanel } from "@/components/workflows/config-side-panel"
 import { FlowConnector } from "@/components/workflows/flow-connector"
 import { ConditionBranchView } from "@/components/workflows/condition-branch-view"
 import { WorkflowRunsList } from "@/components/workflows/workflow-runs-list"
-import type { Workflow, WorkflowAction, ConditionActionConfig } from "@/types/workflow"
+import { TriggerConfigPanel } from "@/components/workflows/trigger-config-panel"
+import { EnrollmentSettingsPanel } from "@/components/workflows/enrollment-settings-panel"
+import { WorkflowTestPanel } from "@/components/workflows/workflow-test-panel"
+import { WorkflowVersionsList } from "@/components/workflows/workflow-versions-list"
+import { WorkflowGraphCanvas } from "@/components/workflows/workflow-graph-canvas"
+import {
+  addToWorkflowBranch,
+  findWorkflowAction,
+  removeWorkflowAction,
+  replaceWorkflowAction,
+} from "@/lib/workflow-graph"
+import type {
+  Workflow,
+  WorkflowAction,
+  WorkflowEnrollmentSettings,
+} from "@/types/workflow"
 
 // Sortable wrapper for ActionCard
 function SortableActionCard({
@@ -86,8 +106,10 @@ export default function WorkflowBuilderPage() {
   const params = useParams()
   const router = useRouter()
   const searchParams = useSearchParams()
-  const initialTab = searchParams.get('tab') === 'runs' ? 'runs' : 'builder'
+  const tabParam = searchParams.get('tab')
+  const initialTab = tabParam === 'runs' || tabParam === 'versions' ? tabParam : 'builder'
   const [activeTab, setActiveTab] = useState(initialTab)
+  const [builderView, setBuilderView] = useState<"list" | "graph">("list")
 
   const [workflow, setWorkflow] = useState<Workflow | null>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -96,17 +118,30 @@ export default function WorkflowBuilderPage() {
   const [saveError, setSaveError] = useState<string | null>(null)
   const [workflowName, setWorkflowName] = useState("")
   const [actions, setActions] = useState<WorkflowAction[]>([])
+  const [triggerConfig, setTriggerConfig] = useState<Record<string, unknown>>({})
+  const [enrollmentSettings, setEnrollmentSettings] = useState<WorkflowEnrollmentSettings>({})
 
   // Track saved state for dirty detection
-  const lastSavedState = useRef<{ name: string; actions: string }>({ name: "", actions: "[]" })
+  const lastSavedState = useRef<{ name: string; actions: string; triggerConfig: string; enrollmentSettings: string }>({
+    name: "",
+    actions: "[]",
+    triggerConfig: "{}",
+    enrollmentSettings: "{}",
+  })
 
   const isDirty = useMemo(() => {
     const currentActionsJson = JSON.stringify(actions)
-    return workflowName !== lastSavedState.current.name || currentActionsJson !== lastSavedState.current.actions
-  }, [workflowName, actions])
+    return workflowName !== lastSavedState.current.name
+      || currentActionsJson !== lastSavedState.current.actions
+      || JSON.stringify(triggerConfig) !== lastSavedState.current.triggerConfig
+      || JSON.stringify(enrollmentSettings) !== lastSavedState.current.enrollmentSettings
+  }, [workflowName, actions, triggerConfig, enrollmentSettings])
 
   // Selection & dialogs
   const [selectedActionId, setSelectedActionId] = useState<string | null>(null)
+  const [showTriggerConfig, setShowTriggerConfig] = useState(false)
+  const [showEnrollmentSettings, setShowEnrollmentSettings] = useState(false)
+  const [showTestRun, setShowTestRun] = useState(false)
   const [showActionPicker, setShowActionPicker] = useState(false)
 
   // Track context when adding to a condition branch
@@ -116,12 +151,6 @@ export default function WorkflowBuilderPage() {
     branch: "if" | "else"
   } | null>(null)
 
-  // Track if selected action is in a branch (for editing)
-  const [selectedBranchContext, setSelectedBranchContext] = useState<{
-    conditionId: string
-    branch: "if" | "else"
-  } | null>(null)
-
   // DnD sensors - require 8px movement to start drag (allows clicks to work)
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -134,40 +163,45 @@ export default function WorkflowBuilderPage() {
     })
   )
 
-  // Fetch workflow
-  useEffect(() => {
-    async function fetchWorkflow() {
-      try {
-        const res = await fetch(`/api/workflows/${params.id}`)
-        if (!res.ok) {
-          router.push("/sales/workflows")
-          return
-        }
-        const data = await res.json()
-        setWorkflow(data)
-        setWorkflowName(data.name)
-        setActions(data.actions || [])
-        // Initialize saved state for dirty tracking
-        lastSavedState.current = {
-          name: data.name,
-          actions: JSON.stringify(data.actions || [])
-        }
-      } catch (error) {
-        console.error("Error fetching workflow:", error)
+  // Fetch workflow (also reloads the draft after a rollback)
+  const fetchWorkflow = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/workflows/${params.id}`)
+      if (!res.ok) {
         router.push("/sales/workflows")
-      } finally {
-        setIsLoading(false)
+        return
       }
+      const data = await res.json()
+      setWorkflow(data)
+      setWorkflowName(data.name)
+      setActions(data.actions || [])
+      setTriggerConfig(data.trigger_config || {})
+      setEnrollmentSettings(data.enrollment_settings || {})
+      // Initialize saved state for dirty tracking
+      lastSavedState.current = {
+        name: data.name,
+        actions: JSON.stringify(data.actions || []),
+        triggerConfig: JSON.stringify(data.trigger_config || {}),
+        enrollmentSettings: JSON.stringify(data.enrollment_settings || {}),
+      }
+    } catch (error) {
+      console.error("Error fetching workflow:", error)
+      router.push("/sales/workflows")
+    } finally {
+      setIsLoading(false)
     }
-    fetchWorkflow()
   }, [params.id, router])
 
+  useEffect(() => {
+    fetchWorkflow()
+  }, [fetchWorkflow])
+
   // Handle tab change with URL update
   const handleTabChange = (tab: string) => {
     setActiveTab(tab)
-    const url = tab === 'runs'
-      ? `/sales/workflows/${params.id}?tab=runs`
-      : `/sales/workflows/${params.id}`
+    const url = tab === 'builder'
+      ? `/sales/workflows/${params.id}`
+      : `/sales/workflows/${params.id}?tab=${tab}`
     router.replace(url, { scroll: false })
   }
 
@@ -188,100 +222,33 @@ export default function WorkflowBuilderPage() {
   // Add new action (to top-level or to a branch)
   const handleAddAction = (action: WorkflowAction) => {
     if (addToBranchContext) {
-      // Adding to a condition branch
+      // Adding to a condition branch, at any depth
       const { conditionId, branch } = addToBranchContext
-      setActions((prev) =>
-        prev.map((a) => {
-          if (a.id === conditionId && a.type === "condition") {
-            const condConfig = a.config as unknown as ConditionActionConfig
-            const branchKey = branch === "if" ? "if_branch" : "else_branch"
-            const currentBranch = condConfig[branchKey] || []
-            return {
-              ...a,
-              config: {
-                ...condConfig,
-                [branchKey]: [...currentBranch, { ...action, order: currentBranch.length }],
-              },
-            }
-          }
-          return a
-        })
-      )
-      setSelectedActionId(action.id)
-      setSelectedBranchContext(addToBranchContext)
+      setActions((prev) => addToWorkflowBranch(prev, conditionId, branch, action))
       setAddToBranchContext(null)
     } else {
       // Adding to top-level
       setActions((prev) => [...prev, action])
-      setSelectedActionId(action.id)
-      setSelectedBranchContext(null)
     }
+    setSelectedActionId(action.id)
   }
 
   // Save edited action (top-level or in a branch)
   const handleSaveAction = (updatedAction: WorkflowAction) => {
-    if (selectedBranchContext) {
-      // Saving a branch action
-      const { conditionId, branch } = selectedBranchContext
-      setActions((prev) =>
-        prev.map((a) => {
-          if (a.id === conditionId && a.type === "condition") {
-            const condConfig = a.config as unknown as ConditionActionConfig
-            const branchKey = branch === "if" ? "if_branch" : "else_branch"
-            const currentBranch = condConfig[branchKey] || []
-            return {
-              ...a,
-              config: {
-                ...condConfig,
-                [branchKey]: currentBranch.map((ba) =>
-                  ba.id === updatedAction.id ? updatedAction : ba
-                ),
-              },
-            }
-          }
-          return a
-        })
-      )
-    } else {
-      // Saving a top-level action
-      setActions((prev) =>
-        prev.map((a) => (a.id === updatedAction.id ? updatedAction : a))
-      )
-    }
+    setActions((prev) => replaceWorkflowAction(prev, updatedAction))
   }
 
   // Delete action (top-level or in a branch)
   const handleDeleteAction = (actionId: string) => {
-    if (selectedBranchContext) {
-      // Deleting a branch action
-      const { conditionId, branch } = selectedBranchContext
-      setActions((prev) =>
-        prev.map((a) => {
-          if (a.id === conditionId && a.type === "condition") {
-            const condConfig = a.config as unknown as ConditionActionConfig
-            const branchKey = branch === "if" ? "if_branch" : "else_branch"
-            const currentBranch = condConfig[branchKey] || []
-            const filtered = currentBranch.filter((ba) => ba.id !== actionId)
-            return {
-              ...a,
-              config: {
-                ...condConfig,
-                [branchKey]: filtered.map((item, idx) => ({ ...item, order: idx })),
-              },
-            }
-          }
-          return a
-        })
-      )
-    } else {
-      // Deleting a top-level action
-      setActions((prev) => {
-        const filtered = prev.filter((a) => a.id !== actionId)
-        return filtered.map((item, idx) => ({ ...item, order: idx }))
-      })
-    }
+    setActions((prev) => removeWorkflowAction(prev, actionId))
+    setSelectedActionId(null)
+  }
+
+  const handleSelectTrigger = () => {
+    setShowTriggerConfig(true)
+    setShowEnrollmentSettings(false)
+    setShowTestRun(false)
     setSelectedActionId(null)
-    setSelectedBranchContext(null)
   }
 
   // Save workflow
@@ -309,6 +276,8 @@ export default function WorkflowBuilderPage() {
         body: JSON.stringify({
           name: workflowName.trim(),
           actions,
+          trigger_config: triggerConfig,
+          enrollment_settings: enrollmentSettings,
         }),
       })
       if (!res.ok) {
@@ -319,7 +288,9 @@ export default function WorkflowBuilderPage() {
       // Update saved state to clear dirty flag
       lastSavedState.current = {
         name: workflowName,
-        actions: JSON.stringify(actions)
+        actions: JSON.stringify(actions),
+        triggerConfig: JSON.stringify(triggerConfig),
+        enrollmentSettings: JSON.stringify(enrollmentSettings),
       }
       setSaveStatus("saved")
       setTimeout(() => setSaveStatus("idle"), 2000)
@@ -336,7 +307,7 @@ export default function WorkflowBuilderPage() {
     }
   }
 
-  // Activate workflow
+  // Save the draft, then publish it as a new version and activate the workflow
   const handleActivate = async () => {
     if (!workflow) return
 
@@ -348,9 +319,11 @@ export default function WorkflowBuilderPage() {
         body: JSON.stringify({
           name: workflowName,
           actions,
-          is_active: true,
+          trigger_config: triggerConfig,
+          enrollment_settings: enrollmentSettings,
         }),
       })
+      await fetch(`/api/workflows/${workflow.id}/versions`, { method: "POST" })
       router.push("/sales/workflows")
     } catch (error) {
       console.error("Error activating workflow:", error)
@@ -361,26 +334,19 @@ export default function WorkflowBuilderPage() {
 
   // Find selected action (could be top-level or in a branch)
   // NOTE: This must be before early returns to comply with Rules of Hooks
-  const selectedAction = useMemo(() => {
-    if (!selectedActionId) return null
-
-    // First check top-level
-    const topLevel = actions.find((a) => a.id === selectedActionId)
-    if (topLevel) return topLevel
-
-    // Check inside condition branches
-    for (const action of actions) {
-      if (action.type === "condition") {
-        const condConfig = action.config as unknown as ConditionActionConfig
-        const inIfBranch = (condConfig.if_branch || []).find((a) => a.id === selectedActionId)
-        if (inIfBranch) return inIfBranch
-        const inElseBranch = (condConfig.else_branch || []).find((a) => a.id === selectedActionId)
-        if (inElseBranch) return inElseBranch
-      }
-    }
+  const selectedAction = useMemo(
+    () => (selectedActionId ? findWorkflowAction(actions, selectedActionId) : null),
+    [selectedActionId, actions]
+  )
 
-    return null
-  }, [selectedActionId, actions])
+  // Editor state compared against the published version in the Versions tab
+  const draftSnapshot = useMemo(() => ({
+    name: workflowName,
+    trigger_type: workflow?.trigger_type ?? "lead_created",
+    trigger_config: triggerConfig,
+    actions,
+    enrollment_settings: enrollmentSettings,
+  }), [workflowName, workflow?.trigger_type, triggerConfig, actions, enrollmentSettings])
 
   if (isLoading) {
     return (
@@ -412,9 +378,53 @@ export default function WorkflowBuilderPage() {
           <div className="flex items-center gap-2">
             {activeTab === 'builder' && (
               <>
+                <div className="flex items-center rounded-md border p-0.5">
+                  <Button
+                    variant={builderView === "list" ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setBuilderView("list")}
+                  >
+                    <ListIcon className="size-4 mr-1" />
+                    List
+                  </Button>
+                  <Button
+                    variant={builderView === "graph" ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setBuilderView("graph")}
+                  >
+                    <WorkflowIcon className="size-4 mr-1" />
+                    Graph
+                  </Button>
+                </div>
                 <Button variant="ghost" size="icon">
                   <PencilIcon className="size-4" />
                 </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    setShowEnrollmentSettings(true)
+                    setShowTestRun(false)
+                    setShowTriggerConfig(false)
+                    setSelectedActionId(null)
+                  }}
+                >
+                  <RepeatIcon className="size-4 mr-1" />
+                  Enrollment
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    setShowTestRun(true)
+                    setShowEnrollmentSettings(false)
+                    setShowTriggerConfig(false)
+                    setSelectedActionId(null)
+                  }}
+                >
+                  <FlaskConicalIcon className="size-4 mr-1" />
+                  Test
+                </Button>
                 <Button
                   variant="outline"
                   onClick={handleSave}
@@ -452,7 +462,7 @@ export default function WorkflowBuilderPage() {
                   )}
                 </Button>
                 <Button onClick={handleActivate} disabled={isSaving}>
-                  Activate
+                  {workflow.is_active ? "Publish" : "Activate"}
                 </Button>
               </>
             )}
@@ -468,7 +478,7 @@ export default function WorkflowBuilderPage() {
                 onChange={(e) => setWorkflowName(e.target.value)}
                 className="text-2xl font-semibold border-none shadow-none h-auto px-0 focus-visible:ring-0 max-w-md"
                 placeholder="Workflow name"
-                disabled={activeTab === 'runs'}
+                disabled={activeTab !== 'builder'}
               />
               <span className={`inline-block mt-1 px-2 py-0.5 text-xs font-medium rounded ${
                 workflow.is_active
@@ -491,19 +501,46 @@ export default function WorkflowBuilderPage() {
                 <HistoryIcon className="size-4" />
                 Runs
               </TabsTrigger>
+              <TabsTrigger value="versions" className="flex items-center gap-2">
+                <GitCommitIcon className="size-4" />
+                Versions
+              </TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
 
         {/* Tab content */}
-        {activeTab === 'builder' ? (
+        {activeTab === 'builder' && builderView === 'graph' ? (
+          /* Graph canvas */
+          <div className="flex-1 min-h-0">
+            <WorkflowGraphCanvas
+              workflowId={workflow.id}
+              triggerType={workflow.trigger_type}
+              triggerConfig={triggerConfig}
+              actions={actions}
+              selectedActionId={selectedActionId}
+              triggerSelected={showTriggerConfig}
+              onSelectTrigger={handleSelectTrigger}
+              onSelectAction={setSelectedActionId}
+              onChange={setActions}
+              onAddStep={() => setShowActionPicker(true)}
+              onAddToBranch={(conditionId, branch) => {
+                setAddToBranchContext({ conditionId, branch })
+                setShowActionPicker(true)
+              }}
+              onDeleteAction={handleDeleteAction}
+            />
+          </div>
+        ) : activeTab === 'builder' ? (
           /* Flow canvas */
           <div className="flex-1 overflow-auto p-8 bg-gray-50/50">
             <div className="flex flex-col items-center">
               {/* Trigger */}
               <TriggerCard
                 triggerType={workflow.trigger_type}
-                triggerConfig={workflow.trigger_config}
+                triggerConfig={triggerConfig}
+                selected={showTriggerConfig}
+                onClick={handleSelectTrigger}
               />
 
               {/* Connector with inline "+ Add Step" */}
@@ -538,20 +575,15 @@ export default function WorkflowBuilderPage() {
                             selectedActionId={selectedActionId}
                             onSelectCondition={() => {
                               setSelectedActionId(action.id)
-                              setSelectedBranchContext(null)
                             }}
                             onSelectAction={(actionId) => {
                               setSelectedActionId(actionId)
-                              setSelectedBranchContext(null)
                             }}
                             onAddToBranch={(branch) => {
                               setAddToBranchContext({ conditionId: action.id, branch })
                               setShowActionPicker(true)
                             }}
-                            onSelectBranchAction={(actionId, branch) => {
-                              setSelectedActionId(actionId)
-                              setSelectedBranchContext({ conditionId: action.id, branch })
-                            }}
+                            onSelectBranchAction={(actionId) => setSelectedActionId(actionId)}
                           />
                           <FlowConnector />
                         </>
@@ -562,7 +594,6 @@ export default function WorkflowBuilderPage() {
                             selected={selectedActionId === action.id}
                             onClick={() => {
                               setSelectedActionId(action.id)
-                              setSelectedBranchContext(null)
                             }}
                           />
                           <FlowConnector />
@@ -587,6 +618,15 @@ export default function WorkflowBuilderPage() {
               )}
             </div>
           </div>
+        ) : activeTab === 'versions' ? (
+          /* Versions tab */
+          <div className="flex-1 overflow-auto p-6">
+            <WorkflowVersionsList
+              workflowId={workflow.id}
+              draft={draftSnapshot}
+              onRestored={fetchWorkflow}
+            />
+          </div>
         ) : (
           /* Runs tab */
           <div className="flex-1 overflow-auto p-6">
@@ -601,7 +641,6 @@ export default function WorkflowBuilderPage() {
           action={selectedAction}
           onClose={() => {
             setSelectedActionId(null)
-            setSelectedBranchContext(null)
           }}
           onSave={handleSaveAction}
           onDelete={handleDeleteAction}
@@ -610,6 +649,42 @@ export default function WorkflowBuilderPage() {
         />
       )}
 
+      {/* Trigger settings panel - only show in builder tab */}
+      {activeTab === 'builder' && showTriggerConfig && !selectedAction && (
+        <TriggerConfigPanel
+          triggerType={workflow.trigger_type}
+          triggerConfig={triggerConfig}
+          onClose={() => setShowTriggerConfig(false)}
+          onSave={(config) => {
+            setTriggerConfig(config)
+            setShowTriggerConfig(false)
+          }}
+        />
+      )}
+
+      {/* Enrollment settings panel - only show in builder tab */}
+      {activeTab === 'builder' && showEnrollmentSettings && !showTriggerConfig && !selectedAction && (
+        <EnrollmentSettingsPanel
+          triggerType={workflow.trigger_type}
+          settings={enrollmentSettings}
+          onClose={() => setShowEnrollmentSettings(false)}
+          onSave={(settings) => {
+            setEnrollmentSettings(settings)
+            setShowEnrollmentSettings(false)
+          }}
+        />
+      )}
+
+      {/* Test run panel - only show in builder tab */}
+      {activeTab === 'builder' && showTestRun && !showEnrollmentSettings && !showTriggerConfig && !selectedAction && (
+        <WorkflowTestPanel
+          workflowId={workflow.id}
+          triggerType={workflow.trigger_type}
+          actions={actions}
+          onClose={() => setShowTestRun(false)}
+        />
+      )}
+
       {/* Action picker dialog */}
       <ActionPicker
         open={showActionPicker}
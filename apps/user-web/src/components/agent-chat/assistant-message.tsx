@@ -12,6 +12,9 @@ import { cn } from "@/lib/utils"
 import { Copy, RotateCcw, Lightbulb, Brain, Loader2, Check, AlertCircle, Sparkles, ChevronRight, ChevronDown } from "lucide-react"
 import type { AcknowledgmentPart, ReasoningPart, ToolCallPart, TextPart } from "@/hooks/use-agent-chat"
 import { motion, AnimatePresence } from "motion/react"
+import type { GroundingCheckResult } from "@/lib/agent-ws"
+import { ToolApproval } from "./tool-approval"
+import { GroundingIndicator } from "./grounding-indicator"
 
 function formatToolName(toolName: string): string {
   return toolName
@@ -30,6 +33,8 @@ interface AssistantMessageProps {
   isLastMessage: boolean
   status: "streaming" | "connecting" | "idle" | "error"
   handleRetry: () => void
+  onApprovalResponse?: (approvalId: string, approved: boolean) => Promise<void>
+  grounding?: GroundingCheckResult
 }
 
 export function AssistantMessage({
@@ -42,6 +47,8 @@ export function AssistantMessage({
   isLastMessage,
   status,
   handleRetry,
+  onApprovalResponse,
+  grounding,
 }: AssistantMessageProps) {
   const [showDetails, setShowDetails] = useState(false)
   const hasIncompleteWork = toolParts.some((t) => t.state !== "completed" && t.state !== "error") || isStreaming
@@ -177,6 +184,17 @@ export function AssistantMessage({
         </div>
       )}
 
+      {/* Tool calls paused for approval stay visible outside the collapsed work details */}
+      {toolParts
+        .filter((part) => part.approval)
+        .map((part) => (
+          <ToolApproval
+            key={`approval-${part.toolCallId}`}
+            part={part}
+            onRespond={onApprovalResponse}
+          />
+        ))}
+
       {shouldShowTypingIndicator && (
         <Message from="assistant">
           <MessageContent>
@@ -216,6 +234,11 @@ export function AssistantMessage({
           </motion.div>
         ))}
       </AnimatePresence>
+
+      {/* Facts in the response checked against this run's tool results */}
+      {isNotStreaming && grounding && textParts.length > 0 && (
+        <GroundingIndicator grounding={grounding} />
+      )}
     </Fragment>
   )
 }
@@ -327,6 +350,8 @@ function ToolTimelineStep({ part, isLast }: ToolTimelineStepProps) {
   const isError = part.state === "error"
   const isCompleted = part.state === "completed"
   const statusLabel =
+    part.approval?.state === "requested" ? "Awaiting approval" :
+    part.approval && part.approval.state !== "approved" ? "Declined" :
     part.state === "pending" ? "Pending" :
     part.state === "running" ? "Running" :
     part.state === "completed" ? "Completed" : "Error"
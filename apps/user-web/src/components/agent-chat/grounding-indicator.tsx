@@ -0,0 +1,71 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, ChevronDown, ShieldCheck } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { GroundingCheckResult } from "@/lib/agent-ws"
+
+interface GroundingIndicatorProps {
+  grounding: GroundingCheckResult
+}
+
+const claimTypeLabels: Record<GroundingCheckResult["ungroundedClaims"][number]["type"], string> = {
+  amount: "Amount",
+  percentage: "Percentage",
+  number: "Number",
+  date: "Date",
+  id: "ID",
+  email: "Email",
+  name: "Name",
+}
+
+/**
+ * Shows whether the facts in a response were found in the tool results
+ * from the same run
+ */
+export function GroundingIndicator({ grounding }: GroundingIndicatorProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  if (grounding.status === "no_claims") return null
+
+  if (grounding.status === "grounded") {
+    return (
+      <div
+        className="flex items-center gap-1.5 px-1 text-xs text-muted-foreground"
+        title={`${grounding.checkedClaims} facts checked against tool results`}
+      >
+        <ShieldCheck className="size-3.5 text-emerald-600" />
+        Verified against tool results
+      </div>
+    )
+  }
+
+  const missing = grounding.checkedClaims - grounding.groundedClaims
+
+  return (
+    <div className="not-prose max-w-2xl px-1 text-xs">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        aria-expanded={isExpanded}
+        className="flex items-center gap-1.5 text-amber-600 transition-colors hover:text-amber-700"
+      >
+        <AlertTriangle className="size-3.5" />
+        {missing} of {grounding.checkedClaims} {grounding.checkedClaims === 1 ? "fact" : "facts"} not found in tool results
+        <ChevronDown className={cn("size-3.5 transition-transform", isExpanded && "rotate-180")} />
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-1.5 space-y-0.5 border-l-2 border-amber-200 pl-2 text-muted-foreground">
+          {grounding.ungroundedClaims.map((claim, i) => (
+            <li key={`${claim.type}-${i}`}>
+              <span className="font-medium text-foreground/80">{claimTypeLabels[claim.type]}:</span> {claim.text}
+            </li>
+          ))}
+          {missing > grounding.ungroundedClaims.length && (
+            <li>and {missing - grounding.ungroundedClaims.length} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 export { UserMessage } from "./user-message"
 export { AssistantMessage } from "./assistant-message"
 export { SyntheticThinking } from "./synthetic-thinking"
+export { ToolApproval } from "./tool-approval"
+export { GroundingIndicator } from "./grounding-indicator"
 export {
   MessageRenderer,
   SyntheticThinkingRenderer,
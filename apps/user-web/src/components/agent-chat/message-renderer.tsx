@@ -25,6 +25,7 @@ interface MessageRendererProps {
   messages: AgentMessage[]
   status: ChatStatus
   handleRetry: () => void
+  onApprovalResponse?: (approvalId: string, approved: boolean) => Promise<void>
 }
 
 // Type guards for part extraction
@@ -70,6 +71,7 @@ export function MessageRenderer({
   messages,
   status,
   handleRetry,
+  onApprovalResponse,
 }: MessageRendererProps) {
   // Safety check for undefined message
   if (!message) {
@@ -157,6 +159,8 @@ export function MessageRenderer({
         isLastMessage={isLastMessage}
         status={mappedStatus === "streaming" ? "streaming" : "idle"}
         handleRetry={handleRetry}
+        onApprovalResponse={onApprovalResponse}
+        grounding={message.grounding}
       />
     )
   }
@@ -0,0 +1,120 @@
+"use client"
+
+import { useState } from "react"
+import type { ToolUIPart } from "ai"
+import {
+  Confirmation,
+  ConfirmationAccepted,
+  ConfirmationAction,
+  ConfirmationActions,
+  ConfirmationRejected,
+  ConfirmationRequest,
+  ConfirmationTitle,
+} from "@/components/ai-elements/confirmation"
+import { CheckIcon, ShieldAlert, XIcon } from "lucide-react"
+import type { ToolCallPart } from "@/hooks/use-agent-chat"
+
+interface ToolApprovalProps {
+  part: ToolCallPart
+  onRespond?: (approvalId: string, approved: boolean) => void | Promise<void>
+}
+
+const rejectedLabels = {
+  declined: "You declined this action.",
+  timeout: "This action wasn't approved in time and was skipped.",
+  cancelled: "This action was cancelled.",
+}
+
+function formatToolName(toolName: string): string {
+  return toolName.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase())
+}
+
+function formatArgs(args: unknown): [string, string][] {
+  if (!args || typeof args !== "object") return []
+  return Object.entries(args as Record<string, unknown>)
+    .filter(([key, value]) => key !== "workspace_id" && value !== undefined && value !== null)
+    .slice(0, 6)
+    .map(([key, value]) => {
+      const text = typeof value === "string" ? value : JSON.stringify(value)
+      return [key, text.length > 80 ? `${text.slice(0, 80)}…` : text]
+    })
+}
+
+/**
+ * Approve or decline a tool call the agent paused under its approval policy
+ */
+export function ToolApproval({ part, onRespond }: ToolApprovalProps) {
+  const [isResponding, setIsResponding] = useState(false)
+  const approval = part.approval
+  if (!approval) return null
+
+  const state: ToolUIPart["state"] =
+    approval.state === "requested" ? "approval-requested" :
+    approval.state === "approved" ? "approval-responded" : "output-denied"
+
+  const respond = async (approved: boolean) => {
+    setIsResponding(true)
+    try {
+      await onRespond?.(approval.id, approved)
+    } finally {
+      setIsResponding(false)
+    }
+  }
+
+  return (
+    <Confirmation
+      className="not-prose max-w-2xl"
+      state={state}
+      approval={
+        approval.state === "requested"
+          ? { id: approval.id }
+          : { id: approval.id, approved: approval.state === "approved" }
+      }
+    >
+      <ConfirmationTitle>
+        <span className="flex items-center gap-2 font-medium text-foreground">
+          <ShieldAlert className="size-4" />
+          {formatToolName(part.toolName)}
+        </span>
+      </ConfirmationTitle>
+
+      <ConfirmationRequest>
+        <p className="text-sm text-muted-foreground">{approval.reason}</p>
+        {formatArgs(part.args).length > 0 && (
+          <ul className="text-xs text-muted-foreground space-y-0.5">
+            {formatArgs(part.args).map(([key, value]) => (
+              <li key={key}>
+                <span className="font-mono">{key}</span>: {value}
+              </li>
+            ))}
+          </ul>
+        )}
+      </ConfirmationRequest>
+
+      <ConfirmationAccepted>
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          <CheckIcon className="size-4" />
+          You approved this action.
+        </span>
+      </ConfirmationAccepted>
+
+      <ConfirmationRejected>
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          <XIcon className="size-4" />
+          {approval.state === "requested" || approval.state === "approved"
+            ? rejectedLabels.declined
+            : rejectedLabels[approval.state]}
+        </span>
+      </ConfirmationRejected>
+
+      <ConfirmationActions>
+        <ConfirmationAction variant="outline" onClick={() => respond(false)} disabled={isResponding}>
+          Decline
+        </ConfirmationAction>
+        <ConfirmationAction onClick={() => respond(true)} disabled={isResponding}>
+          Approve
+        </ConfirmationAction>
+      </ConfirmationActions>
+    </Confirmation>
+  )
+}
@@ -0,0 +1,345 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Brain, Building2, Download, Loader2, Pencil, Trash2, UserIcon } from "lucide-react"
+import type { MemoryFact, UserMemory } from "@/lib/agent-memory"
+
+type InspectorFact = UserMemory["facts"][number]
+
+const FACT_TYPE_LABELS: Record<MemoryFact["fact_type"], string> = {
+  preference: "Preference",
+  context: "Context",
+  knowledge: "Knowledge",
+  relationship: "Relationship",
+}
+
+function FactRow({
+  fact,
+  onSave,
+  onDelete,
+}: {
+  fact: InspectorFact
+  onSave: (id: string, content: string) => Promise<boolean>
+  onDelete: (id: string) => Promise<void>
+}) {
+  const [editing, setEditing] = useState(false)
+  const [content, setContent] = useState(fact.content)
+  const [busy, setBusy] = useState(false)
+
+  async function handleSave() {
+    setBusy(true)
+    const saved = await onSave(fact.id, content)
+    setBusy(false)
+    if (saved) setEditing(false)
+  }
+
+  async function handleDelete() {
+    setBusy(true)
+    await onDelete(fact.id)
+    setBusy(false)
+  }
+
+  return (
+    <div className="flex items-start gap-3 rounded-md border p-3">
+      <div className="flex-1 space-y-2">
+        {editing ? (
+          <Textarea value={content} onChange={(e) => setContent(e.target.value)} rows={3} />
+        ) : (
+          <p className="text-sm">{fact.content}</p>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="secondary">{FACT_TYPE_LABELS[fact.fact_type]}</Badge>
+          {fact.agent?.name && <span>Learned by {fact.agent.name}</span>}
+          <span>{new Date(fact.created_at).toLocaleDateString()}</span>
+        </div>
+      </div>
+      {fact.can_manage && (
+        <div className="flex shrink-0 gap-1">
+          {editing ? (
+            <>
+              <Button size="sm" onClick={handleSave} disabled={busy || !content.trim()}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setContent(fact.content)
+                  setEditing(false)
+                }}
+              >
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button size="icon" variant="ghost" onClick={() => setEditing(true)} aria-label="Edit memory">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" onClick={handleDelete} disabled={busy} aria-label="Delete memory">
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Shows what agents remember about the user and their business, and lets them
+ * correct or delete it, download it, or have themselves forgotten entirely
+ */
+export function MemoryInspector() {
+  const [memory, setMemory] = useState<UserMemory | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [forgetting, setForgetting] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const fetchMemory = useCallback(async () => {
+    try {
+      const res = await fetch("/api/account/memory")
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to load memory" })
+        return
+      }
+      setMemory(data)
+    } catch {
+      setMessage({ type: "error", text: "Failed to load memory" })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchMemory()
+  }, [fetchMemory])
+
+  async function handleSave(id: string, content: string): Promise<boolean> {
+    const res = await fetch(`/api/account/memory/facts/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setMessage({ type: "error", text: data.error || "Failed to update memory" })
+      return false
+    }
+    setMemory((prev) => prev && {
+      ...prev,
+      facts: prev.facts.map((f) => (f.id === id ? { ...f, content: data.fact.content } : f)),
+    })
+    return true
+  }
+
+  async function handleDelete(id: string) {
+    const res = await fetch(`/api/account/memory/facts/${id}`, { method: "DELETE" })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      setMessage({ type: "error", text: data.error || "Failed to delete memory" })
+      return
+    }
+    setMemory((prev) => prev && { ...prev, facts: prev.facts.filter((f) => f.id !== id) })
+  }
+
+  async function handleExport() {
+    setExporting(true)
+    setMessage(null)
+    try {
+      const res = await fetch("/api/account/memory/export")
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setMessage({ type: "error", text: data.error || "Failed to export memory" })
+        return
+      }
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "agent-memory.json"
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  async function handleForget() {
+    setForgetting(true)
+    setMessage(null)
+    try {
+      const res = await fetch("/api/account/memory/forget", { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to forget memory" })
+        return
+      }
+      const { facts, summaries, episodes } = data.removed
+      setMessage({
+        type: "success",
+        text: `Removed ${facts} facts, ${summaries} summaries and ${episodes} conversations from agent memory`,
+      })
+      await fetchMemory()
+    } finally {
+      setForgetting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const personalFacts = memory?.facts.filter((f) => f.user_id) || []
+  const sharedFacts = memory?.facts.filter((f) => !f.user_id) || []
+
+  const sections = [
+    {
+      key: "personal",
+      title: "About you",
+      description: "Things agents have learned about you from your conversations",
+      icon: UserIcon,
+      facts: personalFacts,
+    },
+    {
+      key: "shared",
+      title: "About your business",
+      description: "Shared with everyone in this workspace. Only admins can change these",
+      icon: Building2,
+      facts: sharedFacts,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Agent Memory</h2>
+          <p className="text-muted-foreground mt-1">
+            See and correct what your agents remember
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={exporting}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export JSON
+        </Button>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+          {message.text}
+        </p>
+      )}
+
+      {sections.map((section) => (
+        <Card key={section.key}>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <section.icon className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>{section.title}</CardTitle>
+              <Badge variant="outline">{section.facts.length}</Badge>
+            </div>
+            <CardDescription>{section.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {section.facts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing remembered yet</p>
+            ) : (
+              section.facts.map((fact) => (
+                <FactRow key={fact.id} fact={fact} onSave={handleSave} onDelete={handleDelete} />
+              ))
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      {memory && memory.summaries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Brain className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>Summaries</CardTitle>
+            </div>
+            <CardDescription>
+              Condensed from the facts above and rebuilt as they change
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {memory.summaries.map((summary) => (
+              <div key={summary.id} className="space-y-1">
+                <p className="text-sm font-medium">{summary.title}</p>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{summary.content}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="rounded-lg border border-destructive/50 p-6">
+        <h3 className="text-lg font-semibold text-destructive">Forget me</h3>
+        <p className="text-sm text-muted-foreground mt-1 mb-4">
+          Permanently remove your conversations from agent memory, along with every fact and
+          summary about you, across all agents and workspaces. Shared facts about your business
+          are kept, and a workspace admin can remove them.
+          {memory ? ` Agents currently hold ${memory.episodes.length} of your recent conversations.` : ""}
+        </p>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={forgetting}>
+              {forgetting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              <Trash2 className="mr-2 h-4 w-4" />
+              Forget me
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Erase yourself from agent memory?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This cannot be undone. Agents will no longer remember anything about you
+                or from your conversations. Export your memory first if you want a copy.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleForget}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Yes, forget me
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  )
+}
@@ -14,7 +14,9 @@ import {
   Play,
   AlertCircle,
   ExternalLink,
+  History,
 } from "lucide-react"
+import { AgentChangesSheet } from "./agent-changes-sheet"
 import type { AgentScheduleExecution, ScheduleExecutionStatus } from "@/lib/types/agents"
 
 interface ActivitySectionProps {
@@ -146,6 +148,18 @@ function ExecutionCard({ execution }: { execution: AgentScheduleExecution }) {
         )}
       </div>
 
+      {(execution.status === "completed" || execution.status === "failed") && (
+        <AgentChangesSheet
+          changesUrl={`/api/agents/activity/${execution.id}/changes`}
+          trigger={
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs gap-1">
+              <History className="size-3" />
+              Changes
+            </Button>
+          }
+        />
+      )}
+
       {execution.error_message && (
         <div className="rounded-md bg-destructive/10 p-2 text-xs text-destructive">
           {execution.error_message}
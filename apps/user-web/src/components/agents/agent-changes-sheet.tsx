@@ -0,0 +1,229 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { History, Loader2, Undo2, AlertTriangle } from "lucide-react"
+import type { AgentChange, RevertResult } from "@/lib/agent-changes"
+
+interface AgentChangesSheetProps {
+  changesUrl: string // /api/agent-conversations/[id]/changes or /api/agents/activity/[id]/changes
+  trigger?: React.ReactNode
+}
+
+const tableLabels: Record<string, string> = {
+  accounts: "account",
+  transactions: "transaction",
+  categories: "category",
+  budgets: "budget",
+  subscriptions: "subscription",
+  recurring_rules: "recurring rule",
+  leads: "lead",
+  contacts: "contact",
+  lead_opportunities: "deal",
+  lead_tasks: "lead task",
+  activities: "activity",
+  projects: "project",
+  tasks: "task",
+  milestones: "milestone",
+  knowledge_pages: "page",
+  knowledge_whiteboards: "whiteboard",
+  goals: "goal",
+  kpi_inputs: "KPI entry",
+}
+
+const operationLabels = {
+  INSERT: "Created",
+  UPDATE: "Updated",
+  DELETE: "Deleted",
+}
+
+const IGNORED_FIELDS = ["id", "created_at", "updated_at"]
+
+function recordName(change: AgentChange): string | null {
+  const row = change.after || change.before || {}
+  const name = row.name ?? row.title ?? row.description ?? row.first_name
+  return typeof name === "string" && name ? name : null
+}
+
+function changedFields(change: AgentChange): { field: string; before: unknown; after: unknown }[] {
+  if (change.operation !== "UPDATE" || !change.before || !change.after) return []
+  return Object.keys(change.after)
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => JSON.stringify(change.before![field]) !== JSON.stringify(change.after![field]))
+    .map((field) => ({ field, before: change.before![field], after: change.after![field] }))
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "empty"
+  const text = typeof value === "string" ? value : JSON.stringify(value)
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text
+}
+
+export function AgentChangesSheet({ changesUrl, trigger }: AgentChangesSheetProps) {
+  const [open, setOpen] = useState(false)
+  const [changes, setChanges] = useState<AgentChange[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<Set<string>>(new Set())
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const fetchChanges = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(changesUrl)
+      if (res.ok) {
+        const data = await res.json()
+        setChanges(data.changes || [])
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [changesUrl])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setConflicts(new Set())
+      setErrors({})
+      fetchChanges()
+    }
+  }
+
+  // Revert one change, or every change in the run when changeId is omitted
+  const revert = async (changeId?: string, force = false) => {
+    setRevertingId(changeId || "all")
+    try {
+      const res = await fetch(changesUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ change_ids: changeId ? [changeId] : undefined, force }),
+      })
+      if (res.ok) {
+        const data = await res.json() as { results: RevertResult[] }
+        const nextConflicts = new Set(conflicts)
+        const nextErrors = { ...errors }
+        for (const result of data.results) {
+          if (result.status === "conflict") nextConflicts.add(result.changeId)
+          else nextConflicts.delete(result.changeId)
+          if (result.status === "failed" && result.error) nextErrors[result.changeId] = result.error
+        }
+        setConflicts(nextConflicts)
+        setErrors(nextErrors)
+      }
+      await fetchChanges()
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  const pendingCount = changes.filter((c) => !c.reverted_at).length
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        {trigger || (
+          <Button variant="ghost" size="icon-sm">
+            <History className="size-4" />
+            <span className="sr-only">Agent changes</span>
+          </Button>
+        )}
+      </SheetTrigger>
+      <SheetContent side="right" className="w-[400px] sm:w-[480px] sm:max-w-[480px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Changes made by the agent</SheetTitle>
+          <SheetDescription>
+            Records the agent created, updated or deleted in this run. Revert a single change or undo them all.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 space-y-3">
+          {isLoading && changes.length === 0 ? (
+            [1, 2, 3].map((i) => <Skeleton key={i} className="h-16 w-full" />)
+          ) : changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              The agent hasn&apos;t changed any data in this run.
+            </p>
+          ) : (
+            changes.map((change) => {
+              const name = recordName(change)
+              const fields = changedFields(change)
+              const isConflict = conflicts.has(change.id)
+              return (
+                <div key={change.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {operationLabels[change.operation]} {tableLabels[change.table_name] || change.table_name}
+                        {name && <span className="text-muted-foreground font-normal"> · {name}</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {change.tool_name} · {new Date(change.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {change.reverted_at ? (
+                      <Badge variant="outline">Reverted</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revert(change.id, isConflict)}
+                        disabled={revertingId !== null}
+                        className="gap-1 shrink-0"
+                      >
+                        {revertingId === change.id ? <Loader2 className="size-3 animate-spin" /> : <Undo2 className="size-3" />}
+                        {isConflict ? "Revert anyway" : "Revert"}
+                      </Button>
+                    )}
+                  </div>
+
+                  {fields.length > 0 && (
+                    <ul className="text-xs text-muted-foreground space-y-0.5">
+                      {fields.slice(0, 5).map(({ field, before, after }) => (
+                        <li key={field}>
+                          <span className="font-mono">{field}</span>: {formatValue(before)} → {formatValue(after)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {isConflict && (
+                    <p className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="size-3" />
+                      This record was changed again since. Reverting will overwrite those changes.
+                    </p>
+                  )}
+                  {errors[change.id] && (
+                    <p className="text-xs text-destructive">{errors[change.id]}</p>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        <SheetFooter>
+          <Button
+            variant="destructive"
+            onClick={() => revert()}
+            disabled={pendingCount === 0 || revertingId !== null}
+            className="gap-2"
+          >
+            {revertingId === "all" ? <Loader2 className="size-4 animate-spin" /> : <Undo2 className="size-4" />}
+            Undo this agent run{pendingCount > 0 && ` (${pendingCount})`}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,303 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@dreamteam/ui/button"
+import { Input } from "@dreamteam/ui/input"
+import { Label } from "@dreamteam/ui/label"
+import { Switch } from "@dreamteam/ui/switch"
+import { Progress } from "@dreamteam/ui/progress"
+import { Badge } from "@dreamteam/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@dreamteam/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@dreamteam/ui/select"
+import { Loader2, Trash2 } from "lucide-react"
+import type { AISpendBudget, AISpendBudgetsResponse } from "@/types/team-settings"
+
+interface AIBudgetsTabProps {
+  workspaceId: string
+  isOwner: boolean
+  isAdmin: boolean
+}
+
+function formatUsd(amount: number) {
+  return `$${amount.toFixed(2)}`
+}
+
+interface BudgetFormProps {
+  budget: AISpendBudget | null
+  canManage: boolean
+  saving: boolean
+  onSave: (values: { monthlyLimitUsd: number; softLimitPercent: number; hardLimit: boolean }) => void
+  onRemove?: () => void
+}
+
+function BudgetForm({ budget, canManage, saving, onSave, onRemove }: BudgetFormProps) {
+  const [limit, setLimit] = useState(budget ? String(budget.monthly_limit_usd) : "")
+  const [softLimit, setSoftLimit] = useState(String(budget?.soft_limit_percent ?? 80))
+  const [hardLimit, setHardLimit] = useState(budget?.hard_limit ?? true)
+
+  const limitValue = Number(limit)
+  const softLimitValue = Number(softLimit)
+  const isValid =
+    limit.trim() !== "" && limitValue > 0 &&
+    Number.isInteger(softLimitValue) && softLimitValue >= 1 && softLimitValue <= 100
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Monthly limit (USD)</Label>
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            placeholder="e.g. 500"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            disabled={!canManage}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Warn at (% of limit)</Label>
+          <Input
+            type="number"
+            min="1"
+            max="100"
+            value={softLimit}
+            onChange={(e) => setSoftLimit(e.target.value)}
+            disabled={!canManage}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label>Hard limit</Label>
+          <p className="text-sm text-muted-foreground">
+            Stop new agent runs once the limit is reached
+          </p>
+        </div>
+        <Switch checked={hardLimit} onCheckedChange={setHardLimit} disabled={!canManage} />
+      </div>
+      {canManage && (
+        <div className="flex justify-end gap-2">
+          {onRemove && (
+            <Button variant="outline" onClick={onRemove} disabled={saving}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => onSave({ monthlyLimitUsd: limitValue, softLimitPercent: softLimitValue, hardLimit })}
+            disabled={!isValid || saving}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {budget ? "Save" : "Set budget"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SpendSummary({ budget }: { budget: AISpendBudget }) {
+  const percent = Math.min((budget.spent_usd / budget.monthly_limit_usd) * 100, 100)
+  const exceeded = budget.spent_usd >= budget.monthly_limit_usd
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          {formatUsd(budget.spent_usd)} of {formatUsd(budget.monthly_limit_usd)} this month
+        </span>
+        {exceeded ? (
+          <Badge variant="destructive">{budget.hard_limit ? "Paused" : "Over budget"}</Badge>
+        ) : percent >= budget.soft_limit_percent ? (
+          <Badge variant="secondary">Near limit</Badge>
+        ) : null}
+      </div>
+      <Progress value={percent} />
+    </div>
+  )
+}
+
+export function AIBudgetsTab({ workspaceId, isOwner, isAdmin }: AIBudgetsTabProps) {
+  const [data, setData] = useState<AISpendBudgetsResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [newAgentId, setNewAgentId] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const canManage = isOwner || isAdmin
+
+  useEffect(() => {
+    fetchBudgets()
+  }, [workspaceId])
+
+  async function fetchBudgets() {
+    try {
+      const res = await fetch(`/api/team/ai-budgets?workspaceId=${workspaceId}`)
+      if (res.ok) {
+        setData(await res.json())
+      }
+    } catch (error) {
+      console.error("Failed to fetch AI budgets:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function saveBudget(
+    agentId: string | null,
+    values: { monthlyLimitUsd: number; softLimitPercent: number; hardLimit: boolean }
+  ) {
+    setSavingKey(agentId || "workspace")
+    setError(null)
+    try {
+      const res = await fetch("/api/team/ai-budgets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceId, agentId, ...values }),
+      })
+
+      if (res.ok) {
+        if (agentId === newAgentId) setNewAgentId("")
+        await fetchBudgets()
+      } else {
+        const body = await res.json().catch(() => null)
+        setError(body?.error || "Failed to save budget")
+      }
+    } catch (error) {
+      console.error("Failed to save AI budget:", error)
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  async function removeBudget(budget: AISpendBudget) {
+    setSavingKey(budget.agent_id || "workspace")
+    try {
+      const res = await fetch(`/api/team/ai-budgets?workspaceId=${workspaceId}&id=${budget.id}`, {
+        method: "DELETE",
+      })
+      if (res.ok) {
+        await fetchBudgets()
+      }
+    } catch (error) {
+      console.error("Failed to remove AI budget:", error)
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const budgets = data?.budgets || []
+  const agents = data?.agents || []
+  const workspaceBudget = budgets.find((b) => !b.agent_id) || null
+  const agentBudgets = budgets.filter((b) => b.agent_id)
+  const agentName = (id: string | null) => agents.find((a) => a.id === id)?.name || "Removed agent"
+  const unbudgetedAgents = agents.filter((a) => !agentBudgets.some((b) => b.agent_id === a.id))
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspace AI Budget</CardTitle>
+          <CardDescription>
+            Monthly limit on what all agents in this workspace spend on AI models. Budgets reset on
+            the 1st of each month (UTC), and a warning is posted to #general when spend reaches the
+            warning threshold. {formatUsd(data?.workspace_spent_usd || 0)} spent so far this month.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {workspaceBudget && <SpendSummary budget={workspaceBudget} />}
+          <BudgetForm
+            key={workspaceBudget?.id || "new-workspace"}
+            budget={workspaceBudget}
+            canManage={canManage}
+            saving={savingKey === "workspace"}
+            onSave={(values) => saveBudget(null, values)}
+            onRemove={workspaceBudget ? () => removeBudget(workspaceBudget) : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Agent Budgets</CardTitle>
+          <CardDescription>
+            Limit individual agents. An agent's runs count against both its own budget and the
+            workspace budget.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {agentBudgets.length === 0 && (
+            <p className="text-sm text-muted-foreground">No agent budgets set.</p>
+          )}
+
+          {agentBudgets.map((budget) => (
+            <div key={budget.id} className="space-y-4 rounded-lg border p-4">
+              <p className="font-medium">{agentName(budget.agent_id)}</p>
+              <SpendSummary budget={budget} />
+              <BudgetForm
+                budget={budget}
+                canManage={canManage}
+                saving={savingKey === budget.agent_id}
+                onSave={(values) => saveBudget(budget.agent_id, values)}
+                onRemove={() => removeBudget(budget)}
+              />
+            </div>
+          ))}
+
+          {canManage && unbudgetedAgents.length > 0 && (
+            <div className="space-y-4 rounded-lg border border-dashed p-4">
+              <div className="space-y-2">
+                <Label>Add a budget for</Label>
+                <Select value={newAgentId} onValueChange={setNewAgentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an agent" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unbudgetedAgents.map((agent) => (
+                      <SelectItem key={agent.id} value={agent.id}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {newAgentId && (
+                <BudgetForm
+                  key={newAgentId}
+                  budget={null}
+                  canManage={canManage}
+                  saving={savingKey === newAgentId}
+                  onSave={(values) => saveBudget(newAgentId, values)}
+                />
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
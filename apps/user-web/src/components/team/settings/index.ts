@@ -4,3 +4,4 @@ export { RolesPermissionsTab } from "./roles-permissions-tab"
 export { FeatureAccessTab } from "./feature-access-tab"
 export { BillingTab } from "./billing-tab"
 export { IntegrationsTab } from "./integrations-tab"
+export { AIBudgetsTab } from "./ai-budgets-tab"
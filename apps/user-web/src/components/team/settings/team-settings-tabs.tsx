@@ -2,13 +2,14 @@
 
 import { useState } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@dreamteam/ui/tabs"
-import { CreditCard, Key, Plug, Settings, Shield, Users, Zap } from "lucide-react"
+import { CreditCard, Key, Plug, Settings, Shield, Users, Wallet, Zap } from "lucide-react"
 import { WorkspaceSettingsTab } from "./workspace-settings-tab"
 import { RolesPermissionsTab } from "./roles-permissions-tab"
 import { FeatureAccessTab } from "./feature-access-tab"
 import { ApiKeysTab } from "./api-keys-tab"
 import { BillingTab } from "./billing-tab"
 import { IntegrationsTab } from "./integrations-tab"
+import { AIBudgetsTab } from "./ai-budgets-tab"
 import {
   TeamMembersCard,
   PendingInvitesCard,
@@ -85,6 +86,10 @@ export function TeamSettingsTabs({
             <Plug className="h-4 w-4" />
             Import
           </TabsTrigger>
+          <TabsTrigger value="ai-budgets" className="data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow-sm">
+            <Wallet className="h-4 w-4" />
+            AI Budgets
+          </TabsTrigger>
           <TabsTrigger value="billing" className="data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow-sm">
             <CreditCard className="h-4 w-4" />
             Billing
@@ -166,6 +171,15 @@ export function TeamSettingsTabs({
           />
         </TabsContent>
 
+        {/* AI Budgets Tab */}
+        <TabsContent value="ai-budgets">
+          <AIBudgetsTab
+            workspaceId={workspaceId}
+            isOwner={isOwner}
+            isAdmin={isAdmin}
+          />
+        </TabsContent>
+
         {/* Billing Tab */}
         <TabsContent value="billing">
           <BillingTab
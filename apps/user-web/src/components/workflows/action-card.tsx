@@ -21,6 +21,8 @@ import {
   CheckCircle2Icon,
   MoveRightIcon,
   ActivityIcon,
+  GlobeIcon,
+  BotIcon,
 } from "lucide-react"
 import {
   Tooltip,
@@ -28,9 +30,9 @@ import {
   TooltipTrigger,
 } from "@dreamteam/ui/tooltip"
 import type { ActionType, WorkflowAction, ConditionActionConfig } from "@/types/workflow"
-import { getActionDefinition, getOperatorDefinition } from "@/types/workflow"
+import { getActionDefinition, summarizeConditionNode } from "@/types/workflow"
 
-const actionIcons: Record<ActionType, React.ReactNode> = {
+export const actionIcons: Record<ActionType, React.ReactNode> = {
   send_sms: <MessageSquareIcon className="size-5" />,
   send_email: <MailIcon className="size-5" />,
   send_notification: <BellIcon className="size-5" />,
@@ -46,6 +48,8 @@ const actionIcons: Record<ActionType, React.ReactNode> = {
   update_deal: <PenSquareIcon className="size-5" />,
   move_deal_stage: <ArrowRightCircleIcon className="size-5" />,
   close_deal: <CheckCircle2Icon className="size-5" />,
+  http_request: <GlobeIcon className="size-5" />,
+  ask_agent: <BotIcon className="size-5" />,
   wait: <ClockIcon className="size-5" />,
   condition: <GitBranchIcon className="size-5" />,
 }
@@ -56,7 +60,7 @@ interface ActionCardProps {
   onClick?: () => void
 }
 
-function getActionSummary(action: WorkflowAction): string | null {
+export function getActionSummary(action: WorkflowAction): string | null {
   const config = action.config
 
   switch (action.type) {
@@ -96,14 +100,9 @@ function getActionSummary(action: WorkflowAction): string | null {
       return null
     case "condition": {
       const condConfig = config as unknown as ConditionActionConfig
-      if (condConfig.condition?.field_path && condConfig.condition?.operator) {
-        const operatorDef = getOperatorDefinition(condConfig.condition.operator)
-        const fieldName = condConfig.condition.field_path.split(".").pop() || condConfig.condition.field_path
-        const operatorLabel = operatorDef?.label.toLowerCase() || condConfig.condition.operator
-        if (operatorDef?.requiresValue && condConfig.condition.value) {
-          return `If ${fieldName} ${operatorLabel} "${condConfig.condition.value}"`
-        }
-        return `If ${fieldName} ${operatorLabel}`
+      const summary = summarizeConditionNode(condConfig.condition)
+      if (summary) {
+        return `If ${summary}`
       }
       return "Conditional branch"
     }
@@ -162,6 +161,21 @@ function getActionSummary(action: WorkflowAction): string | null {
       }
       return "Log activity (not configured)"
     }
+    case "http_request": {
+      const url = config.http_url as string | undefined
+      if (url) {
+        const method = (config.http_method as string | undefined) || "POST"
+        return `${method} ${url.slice(0, 40)}${url.length > 40 ? "..." : ""}`
+      }
+      return "HTTP request (not configured)"
+    }
+    case "ask_agent": {
+      const agentName = config.agent_name as string | undefined
+      if (agentName) {
+        return `Ask ${agentName}`
+      }
+      return "Ask agent (not configured)"
+    }
     default:
       return null
   }
@@ -21,6 +21,8 @@ import {
   CheckCircle2Icon,
   MoveRightIcon,
   ActivityIcon,
+  GlobeIcon,
+  BotIcon,
 } from "lucide-react"
 import {
   Dialog,
@@ -47,6 +49,8 @@ const actionIcons: Record<ActionType, React.ReactNode> = {
   update_deal: <PenSquareIcon className="size-5" />,
   move_deal_stage: <ArrowRightCircleIcon className="size-5" />,
   close_deal: <CheckCircle2Icon className="size-5" />,
+  http_request: <GlobeIcon className="size-5" />,
+  ask_agent: <BotIcon className="size-5" />,
   wait: <ClockIcon className="size-5" />,
   condition: <GitBranchIcon className="size-5" />,
 }
@@ -65,7 +69,7 @@ export function ActionPicker({
   existingActionsCount,
 }: ActionPickerProps) {
   const [searchQuery, setSearchQuery] = useState("")
-  const [selectedCategory, setSelectedCategory] = useState<"all" | "communication" | "crm" | "flow">("all")
+  const [selectedCategory, setSelectedCategory] = useState<"all" | "communication" | "crm" | "integration" | "flow">("all")
 
   const filteredActions = ACTIONS.filter((action) => {
     const matchesCategory = selectedCategory === "all" || action.category === selectedCategory
@@ -91,6 +95,7 @@ export function ActionPicker({
     { id: "all" as const, label: "All" },
     { id: "communication" as const, label: "Communication" },
     { id: "crm" as const, label: "CRM" },
+    { id: "integration" as const, label: "Integration" },
     { id: "flow" as const, label: "Flow" },
   ]
 
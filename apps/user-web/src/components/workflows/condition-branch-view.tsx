@@ -3,7 +3,7 @@
 import { Button } from "@dreamteam/ui/button"
 import { PlusIcon, GitBranchIcon, CheckCircleIcon, XCircleIcon } from "lucide-react"
 import type { WorkflowAction, ConditionActionConfig } from "@/types/workflow"
-import { getOperatorDefinition } from "@/types/workflow"
+import { summarizeConditionNode } from "@/types/workflow"
 import { ActionCard } from "./action-card"
 import { FlowConnector } from "./flow-connector"
 
@@ -29,20 +29,8 @@ export function ConditionBranchView({
   const elseBranch = condConfig.else_branch || []
 
   // Get condition summary for display
-  const getConditionSummary = () => {
-    if (!condConfig.condition?.field_path || !condConfig.condition?.operator) {
-      return "Configure condition"
-    }
-    const operatorDef = getOperatorDefinition(condConfig.condition.operator)
-    const fieldName = condConfig.condition.field_path.split(".").pop() || condConfig.condition.field_path
-    const operatorLabel = operatorDef?.label.toLowerCase() || condConfig.condition.operator
-    if (operatorDef?.requiresValue && condConfig.condition.value) {
-      return `${fieldName} ${operatorLabel} "${condConfig.condition.value}"`
-    }
-    return `${fieldName} ${operatorLabel}`
-  }
-
-  const isConfigured = condConfig.condition?.field_path && condConfig.condition?.operator
+  const conditionSummary = summarizeConditionNode(condConfig.condition)
+  const isConfigured = conditionSummary !== null
 
   return (
     <div className="flex flex-col items-center">
@@ -75,7 +63,7 @@ export function ConditionBranchView({
             <div className="flex items-center gap-2">
               <span className="font-medium">Condition</span>
               <span className="text-sm text-muted-foreground truncate">
-                {getConditionSummary()}
+                {conditionSummary ?? "Configure condition"}
               </span>
             </div>
           </div>
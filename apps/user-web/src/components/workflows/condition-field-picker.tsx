@@ -13,8 +13,11 @@ import {
 import type {
   TriggerType,
   ConditionFieldSource,
-  ConditionFieldDefinition,
+  ConditionFieldType,
   WorkflowAction,
+  HttpResponseMapping,
+  AgentOutputField,
+  AgentOutputFieldType,
 } from "@/types/workflow"
 import { getFieldsForTrigger } from "@/types/workflow"
 
@@ -24,12 +27,46 @@ interface FieldOption {
   label: string           // Display name
   source: ConditionFieldSource
   fieldId?: string        // For custom fields
+  fieldType: ConditionFieldType
+}
+
+export interface ConditionFieldSelection {
+  source: ConditionFieldSource
+  path: string
+  fieldId?: string
+  fieldType?: ConditionFieldType
+}
+
+// Map custom field types onto the condition field types used for operator filtering
+function customFieldConditionType(fieldType: string): ConditionFieldType {
+  switch (fieldType) {
+    case "number":
+      return "number"
+    case "date":
+      return "date"
+    case "checkbox":
+      return "boolean"
+    default:
+      return "string"
+  }
+}
+
+// Map agent answer field types onto condition field types
+function agentFieldConditionType(fieldType: AgentOutputFieldType): ConditionFieldType {
+  switch (fieldType) {
+    case "number":
+      return "number"
+    case "boolean":
+      return "boolean"
+    default:
+      return "string"
+  }
 }
 
 interface ConditionFieldPickerProps {
   triggerType: TriggerType
-  value: { source: ConditionFieldSource; path: string; fieldId?: string } | null
-  onChange: (field: { source: ConditionFieldSource; path: string; fieldId?: string }) => void
+  value: ConditionFieldSelection | null
+  onChange: (field: ConditionFieldSelection) => void
   previousActions?: WorkflowAction[]  // For "previous action" field source
   customFields?: Array<{ id: string; name: string; field_type: string }>
 }
@@ -49,6 +86,7 @@ export function ConditionFieldPicker({
       path: f.path,
       label: f.label,
       source: "trigger",
+      fieldType: f.fieldType,
     }))
   }, [triggerType])
 
@@ -60,6 +98,7 @@ export function ConditionFieldPicker({
       label: cf.name,
       source: "custom_field",
       fieldId: cf.id,
+      fieldType: customFieldConditionType(cf.field_type),
     }))
   }, [customFields])
 
@@ -73,8 +112,46 @@ export function ConditionFieldPicker({
           path: `action.${action.id}.success`,
           label: `${action.type} (#${action.order + 1}) succeeded`,
           source: "previous_action",
+          fieldType: "boolean",
         })
       }
+      // HTTP requests also expose the response status and any mapped response values
+      if (action.type === "http_request") {
+        options.push({
+          value: `previous_action:action.${action.id}.data.status`,
+          path: `action.${action.id}.data.status`,
+          label: `${action.type} (#${action.order + 1}) response status`,
+          source: "previous_action",
+          fieldType: "number",
+        })
+        const mappings = (action.config.http_response_mapping as HttpResponseMapping[] | undefined) || []
+        for (const mapping of mappings) {
+          if (!mapping.key) continue
+          options.push({
+            value: `previous_action:action.${action.id}.data.${mapping.key}`,
+            path: `action.${action.id}.data.${mapping.key}`,
+            label: `${action.type} (#${action.order + 1}) ${mapping.key}`,
+            source: "previous_action",
+            fieldType: "string",
+          })
+        }
+      }
+      // Agent steps expose their answer fields, or the free-text answer
+      if (action.type === "ask_agent") {
+        const fields = ((action.config.output_fields as AgentOutputField[] | undefined) || []).filter((f) => f.key)
+        const answers = fields.length > 0
+          ? fields.map((f) => ({ key: f.key, fieldType: agentFieldConditionType(f.type) }))
+          : [{ key: "answer", fieldType: "string" as const }]
+        for (const answer of answers) {
+          options.push({
+            value: `previous_action:action.${action.id}.data.${answer.key}`,
+            path: `action.${action.id}.data.${answer.key}`,
+            label: `${action.type} (#${action.order + 1}) ${answer.key}`,
+            source: "previous_action",
+            fieldType: answer.fieldType,
+          })
+        }
+      }
     }
     return options
   }, [previousActions])
@@ -103,8 +180,10 @@ export function ConditionFieldPicker({
     const source = parts[0] as ConditionFieldSource
     const path = parts.slice(1, source === "custom_field" ? -1 : undefined).join(":")
     const fieldId = source === "custom_field" ? parts[parts.length - 1] : undefined
+    const option = [...allOptions.trigger, ...allOptions.custom, ...allOptions.previous]
+      .find((opt) => opt.value === compositeValue)
 
-    onChange({ source, path, fieldId })
+    onChange({ source, path, fieldId, fieldType: option?.fieldType })
   }
 
   return (
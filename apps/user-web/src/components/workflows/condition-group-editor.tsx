@@ -0,0 +1,310 @@
+"use client"
+
+import { useId } from "react"
+import { Button } from "@dreamteam/ui/button"
+import { Input } from "@dreamteam/ui/input"
+import { Label } from "@dreamteam/ui/label"
+import { Switch } from "@dreamteam/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@dreamteam/ui/select"
+import { PlusIcon, Trash2Icon, LayersIcon } from "lucide-react"
+import type {
+  TriggerType,
+  WorkflowAction,
+  WorkflowCondition,
+  WorkflowConditionGroup,
+  ConditionNode,
+  ConditionOperator,
+  ConditionGroupMatch,
+} from "@/types/workflow"
+import { getOperatorsForFieldType, isConditionGroup } from "@/types/workflow"
+import { ConditionFieldPicker, type ConditionFieldSelection } from "./condition-field-picker"
+
+// Nested groups deeper than this get unreadable in the side panel
+const MAX_GROUP_DEPTH = 3
+
+const EMPTY_CONDITION: WorkflowCondition = {
+  field_source: "trigger",
+  field_path: "",
+  operator: "equals",
+  value: "",
+}
+
+interface ConditionGroupEditorProps {
+  group: WorkflowConditionGroup
+  onChange: (group: WorkflowConditionGroup) => void
+  onRemove?: () => void
+  triggerType: TriggerType
+  previousActions?: WorkflowAction[]
+  depth?: number
+}
+
+export function ConditionGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  triggerType,
+  previousActions = [],
+  depth = 0,
+}: ConditionGroupEditorProps) {
+  const negateId = useId()
+
+  const updateMember = (index: number, node: ConditionNode) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map((c, i) => (i === index ? node : c)),
+    })
+  }
+
+  const removeMember = (index: number) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.filter((_, i) => i !== index),
+    })
+  }
+
+  const addCondition = () => {
+    onChange({ ...group, conditions: [...group.conditions, { ...EMPTY_CONDITION }] })
+  }
+
+  const addGroup = () => {
+    onChange({
+      ...group,
+      conditions: [
+        ...group.conditions,
+        { match: "any", conditions: [{ ...EMPTY_CONDITION }] },
+      ],
+    })
+  }
+
+  return (
+    <div className={depth > 0 ? "border rounded-lg p-3 space-y-3 bg-muted/30" : "space-y-3"}>
+      {/* Group header: match mode + NOT toggle */}
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.match}
+          onValueChange={(v) => onChange({ ...group, match: v as ConditionGroupMatch })}
+        >
+          <SelectTrigger className="w-28 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All of</SelectItem>
+            <SelectItem value="any">Any of</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground flex-1">
+          {group.match === "all" ? "every condition must match" : "at least one must match"}
+        </span>
+        <div className="flex items-center gap-1.5">
+          <Switch
+            id={negateId}
+            checked={group.negate || false}
+            onCheckedChange={(checked) => onChange({ ...group, negate: checked })}
+          />
+          <Label htmlFor={negateId} className="text-xs">NOT</Label>
+        </div>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="size-8" onClick={onRemove}>
+            <Trash2Icon className="size-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Members */}
+      {group.conditions.map((node, index) => (
+        <div key={index} className="space-y-1">
+          {index > 0 && (
+            <p className="text-xs font-medium text-muted-foreground uppercase">
+              {group.match === "all" ? "and" : "or"}
+            </p>
+          )}
+          {isConditionGroup(node) ? (
+            <ConditionGroupEditor
+              group={node}
+              onChange={(updated) => updateMember(index, updated)}
+              onRemove={() => removeMember(index)}
+              triggerType={triggerType}
+              previousActions={previousActions}
+              depth={depth + 1}
+            />
+          ) : (
+            <ConditionRow
+              condition={node}
+              onChange={(updated) => updateMember(index, updated)}
+              onRemove={group.conditions.length > 1 ? () => removeMember(index) : undefined}
+              triggerType={triggerType}
+              previousActions={previousActions}
+            />
+          )}
+        </div>
+      ))}
+
+      {/* Add buttons */}
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={addCondition}>
+          <PlusIcon className="size-3 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH - 1 && (
+          <Button variant="outline" size="sm" onClick={addGroup}>
+            <LayersIcon className="size-3 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ConditionRowProps {
+  condition: WorkflowCondition
+  onChange: (condition: WorkflowCondition) => void
+  onRemove?: () => void
+  triggerType: TriggerType
+  previousActions: WorkflowAction[]
+}
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+  triggerType,
+  previousActions,
+}: ConditionRowProps) {
+  const caseSensitiveId = useId()
+  const operators = getOperatorsForFieldType(condition.field_type)
+  const selectedOperator = operators.find(
+    (op) => op.operator === condition.operator
+  )
+  const requiresValue = selectedOperator?.requiresValue ?? true
+  const valueType = selectedOperator?.valueType ?? "text"
+
+  const handleFieldChange = (field: ConditionFieldSelection) => {
+    // Keep the operator only if it still applies to the new field's type
+    const validOperators = getOperatorsForFieldType(field.fieldType)
+    const operator = validOperators.some((op) => op.operator === condition.operator)
+      ? condition.operator
+      : validOperators[0]?.operator ?? "equals"
+    onChange({
+      ...condition,
+      field_source: field.source,
+      field_path: field.path,
+      field_id: field.fieldId,
+      field_type: field.fieldType,
+      operator,
+    })
+  }
+
+  // Range bounds are dates for date fields, numbers otherwise
+  const rangeInputType = condition.field_type === "date" ? "date" : "number"
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2 bg-background">
+      <div className="flex items-start gap-2">
+        <div className="flex-1">
+          <ConditionFieldPicker
+            triggerType={triggerType}
+            value={
+              condition.field_path
+                ? {
+                    source: condition.field_source || "trigger",
+                    path: condition.field_path,
+                    fieldId: condition.field_id,
+                  }
+                : null
+            }
+            onChange={handleFieldChange}
+            previousActions={previousActions}
+          />
+        </div>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="size-9 shrink-0" onClick={onRemove}>
+            <Trash2Icon className="size-4" />
+          </Button>
+        )}
+      </div>
+
+      <Select
+        value={condition.operator || ""}
+        onValueChange={(v) => onChange({ ...condition, operator: v as ConditionOperator })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select comparison" />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((op) => (
+            <SelectItem key={op.operator} value={op.operator}>
+              {op.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {requiresValue && valueType === "range" && (
+        <div className="flex items-center gap-2">
+          <Input
+            type={rangeInputType}
+            value={condition.value || ""}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder="From"
+          />
+          <span className="text-xs text-muted-foreground">and</span>
+          <Input
+            type={rangeInputType}
+            value={condition.value_to || ""}
+            onChange={(e) => onChange({ ...condition, value_to: e.target.value })}
+            placeholder="To"
+          />
+        </div>
+      )}
+
+      {requiresValue && valueType === "days" && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            value={condition.value || ""}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder="7"
+            className="w-24"
+          />
+          <span className="text-sm text-muted-foreground">
+            {condition.operator === "within_last_days" ? "days" : "days ago"}
+          </span>
+        </div>
+      )}
+
+      {requiresValue && valueType !== "range" && valueType !== "days" && (
+        <Input
+          type={valueType === "number" ? "number" : valueType === "date" ? "date" : "text"}
+          value={condition.value || ""}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          placeholder={
+            valueType === "list"
+              ? "hot, warm, cold"
+              : valueType === "regex"
+                ? "e.g. ^\\+1"
+                : "Enter value to compare"
+          }
+        />
+      )}
+
+      {selectedOperator?.supportsCaseSensitive && (
+        <div className="flex items-center gap-1.5">
+          <Switch
+            id={caseSensitiveId}
+            checked={condition.case_sensitive || false}
+            onCheckedChange={(checked) => onChange({ ...condition, case_sensitive: checked })}
+          />
+          <Label htmlFor={caseSensitiveId} className="text-xs">Case sensitive</Label>
+        </div>
+      )}
+    </div>
+  )
+}
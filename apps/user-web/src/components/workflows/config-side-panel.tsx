@@ -24,6 +24,7 @@ import {
   AlertDialogTrigger,
 } from "@dreamteam/ui/alert-dialog"
 import { XIcon, InfoIcon, Trash2Icon, Loader2, SearchIcon, PlusIcon, CheckIcon, TrophyIcon, XCircleIcon } from "lucide-react"
+import { useWorkspace } from "@/providers/workspace-provider"
 
 interface NylasGrant {
   id: string
@@ -31,6 +32,12 @@ interface NylasGrant {
   provider: string
 }
 
+// Workspace agent for the "Ask AI Agent" step
+interface WorkspaceAgent {
+  id: string
+  name: string
+}
+
 // Tag type for the selector
 interface LeadTag {
   id: string
@@ -54,11 +61,15 @@ import type {
   WorkflowAction,
   TriggerType,
   ConditionActionConfig,
-  WorkflowCondition,
-  ConditionOperator,
+  WorkflowConditionGroup,
+  HttpRequestMethod,
+  HttpRequestHeader,
+  HttpResponseMapping,
+  AgentOutputField,
+  AgentOutputFieldType,
 } from "@/types/workflow"
-import { getActionDefinition, CONDITION_OPERATORS } from "@/types/workflow"
-import { ConditionFieldPicker } from "./condition-field-picker"
+import { getActionDefinition, toConditionGroup } from "@/types/workflow"
+import { ConditionGroupEditor } from "./condition-group-editor"
 import { PipelineStagePicker } from "./pipeline-stage-picker"
 import { DealSourceSelector, type DealSource } from "./deal-source-selector"
 import { TemplateSelector } from "@/components/email-templates/template-selector"
@@ -95,6 +106,11 @@ export function ConfigSidePanel({
   const [newTagColor, setNewTagColor] = useState(TAG_COLORS[0])
   const [creatingTag, setCreatingTag] = useState(false)
 
+  // Agent-related state
+  const { currentWorkspace } = useWorkspace()
+  const [agents, setAgents] = useState<WorkspaceAgent[]>([])
+  const [loadingAgents, setLoadingAgents] = useState(false)
+
   // Get actions that come before this action (for condition checking)
   const previousActions = action
     ? allActions.filter((a) => a.order < action.order && a.id !== action.id)
@@ -116,6 +132,24 @@ export function ConfigSidePanel({
     }
   }, [])
 
+  // Fetch the workspace's hired agents for the ask_agent action
+  const fetchAgents = useCallback(async () => {
+    if (!currentWorkspace?.id) return
+
+    setLoadingAgents(true)
+    try {
+      const res = await fetch(`/api/agents?workspaceId=${currentWorkspace.id}&hired_only=true`)
+      if (res.ok) {
+        const data = await res.json()
+        setAgents(data.agents || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch agents:', error)
+    } finally {
+      setLoadingAgents(false)
+    }
+  }, [currentWorkspace?.id])
+
   // Fetch tags for tag-related actions
   const fetchTags = useCallback(async () => {
     if (!action || (action.type !== "add_tag" && action.type !== "remove_tag")) return
@@ -188,6 +222,10 @@ export function ConfigSidePanel({
       if (action.type === 'send_email') {
         fetchEmailGrants()
       }
+      // Fetch agents for the ask_agent action
+      if (action.type === 'ask_agent') {
+        fetchAgents()
+      }
       // Fetch tags for tag actions
       if (action.type === 'add_tag' || action.type === 'remove_tag') {
         fetchTags()
@@ -197,7 +235,7 @@ export function ConfigSidePanel({
         setNewTagColor(TAG_COLORS[0])
       }
     }
-  }, [action, fetchEmailGrants, fetchTags])
+  }, [action, fetchEmailGrants, fetchAgents, fetchTags])
 
   if (!action) return null
 
@@ -667,85 +705,38 @@ export function ConfigSidePanel({
 
       case "condition": {
         // Initialize condition config if not present
+        // Legacy single conditions are edited as a one-member "all" group
         const condConfig = config as Partial<ConditionActionConfig>
-        const condition = condConfig.condition || {} as Partial<WorkflowCondition>
+        const conditionGroup = toConditionGroup(condConfig.condition)
+        if (conditionGroup.conditions.length === 0) {
+          conditionGroup.conditions = [
+            { field_source: "trigger", field_path: "", operator: "equals", value: "" },
+          ]
+        }
         const ifBranchCount = (condConfig.if_branch || []).length
         const elseBranchCount = (condConfig.else_branch || []).length
 
-        const updateCondition = (updates: Partial<WorkflowCondition>) => {
+        const updateConditionGroup = (group: WorkflowConditionGroup) => {
           setConfig((prev) => ({
             ...prev,
-            condition: { ...(prev.condition as WorkflowCondition || {}), ...updates },
+            condition: group,
             if_branch: (prev as unknown as ConditionActionConfig).if_branch || [],
             else_branch: (prev as unknown as ConditionActionConfig).else_branch || [],
           }))
         }
 
-        // Get the operator definition to check if value is required
-        const selectedOperator = CONDITION_OPERATORS.find(
-          (op) => op.operator === condition.operator
-        )
-        const requiresValue = selectedOperator?.requiresValue ?? true
-
         return (
           <div className="space-y-4">
-            {/* Field selector */}
             <div className="space-y-2">
-              <Label>Field to check</Label>
-              <ConditionFieldPicker
+              <Label>Run the If branch when</Label>
+              <ConditionGroupEditor
+                group={conditionGroup}
+                onChange={updateConditionGroup}
                 triggerType={triggerType}
-                value={
-                  condition.field_path
-                    ? {
-                        source: condition.field_source || "trigger",
-                        path: condition.field_path,
-                        fieldId: condition.field_id,
-                      }
-                    : null
-                }
-                onChange={(field) =>
-                  updateCondition({
-                    field_source: field.source,
-                    field_path: field.path,
-                    field_id: field.fieldId,
-                  })
-                }
                 previousActions={previousActions}
               />
             </div>
 
-            {/* Operator selector */}
-            <div className="space-y-2">
-              <Label>Condition</Label>
-              <Select
-                value={condition.operator || ""}
-                onValueChange={(v) => updateCondition({ operator: v as ConditionOperator })}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select comparison" />
-                </SelectTrigger>
-                <SelectContent>
-                  {CONDITION_OPERATORS.map((op) => (
-                    <SelectItem key={op.operator} value={op.operator}>
-                      {op.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Value input (only shown if operator requires a value) */}
-            {requiresValue && (
-              <div className="space-y-2">
-                <Label>Value</Label>
-                <Input
-                  value={condition.value || ""}
-                  onChange={(e) => updateCondition({ value: e.target.value })}
-                  placeholder="Enter value to compare"
-                />
-              </div>
-            )}
-
             {/* Branch summary */}
             <div className="mt-4 pt-4 border-t space-y-2">
               <p className="text-sm font-medium">Branches</p>
@@ -1365,6 +1356,327 @@ export function ConfigSidePanel({
           </div>
         )
 
+      case "http_request": {
+        const method = (config.http_method as HttpRequestMethod) || "POST"
+        const headers = (config.http_headers as HttpRequestHeader[]) || []
+        const mappings = (config.http_response_mapping as HttpResponseMapping[]) || []
+
+        const updateHeader = (index: number, updates: Partial<HttpRequestHeader>) => {
+          updateConfig("http_headers", headers.map((h, i) => (i === index ? { ...h, ...updates } : h)))
+        }
+        const updateMapping = (index: number, updates: Partial<HttpResponseMapping>) => {
+          updateConfig("http_response_mapping", mappings.map((m, i) => (i === index ? { ...m, ...updates } : m)))
+        }
+
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="http_url">Request</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={method}
+                  onValueChange={(v) => updateConfig("http_method", v)}
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="GET">GET</SelectItem>
+                    <SelectItem value="POST">POST</SelectItem>
+                    <SelectItem value="PUT">PUT</SelectItem>
+                    <SelectItem value="PATCH">PATCH</SelectItem>
+                    <SelectItem value="DELETE">DELETE</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="http_url"
+                  value={(config.http_url as string) || ""}
+                  onChange={(e) => updateConfig("http_url", e.target.value)}
+                  placeholder="https://api.example.com/leads"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Headers</Label>
+              {headers.map((header, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input
+                      value={header.key}
+                      onChange={(e) => updateHeader(index, { key: e.target.value })}
+                      placeholder="Authorization"
+                      className="flex-1"
+                    />
+                    <Input
+                      type={header.secret ? "password" : "text"}
+                      value={header.value || ""}
+                      onChange={(e) => updateHeader(index, { value: e.target.value })}
+                      placeholder={header.secret && header.encrypted_value ? "Saved" : "Value"}
+                      className="flex-1"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateConfig("http_headers", headers.filter((_, i) => i !== index))}
+                    >
+                      <XIcon className="size-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`http_header_secret_${index}`}
+                      checked={!!header.secret}
+                      onChange={(e) => updateHeader(index, { secret: e.target.checked })}
+                      className="size-4 rounded border-gray-300"
+                    />
+                    <Label htmlFor={`http_header_secret_${index}`} className="font-normal text-xs">
+                      Secret (stored encrypted{header.secret && header.encrypted_value ? ", leave blank to keep" : ""})
+                    </Label>
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateConfig("http_headers", [...headers, { key: "", value: "" }])}
+              >
+                <PlusIcon className="size-4 mr-1" />
+                Add header
+              </Button>
+            </div>
+
+            {method !== "GET" && method !== "DELETE" && (
+              <div className="space-y-2">
+                <Label htmlFor="http_body">JSON Body</Label>
+                <Textarea
+                  id="http_body"
+                  value={(config.http_body as string) || ""}
+                  onChange={(e) => updateConfig("http_body", e.target.value)}
+                  placeholder={'{\n  "name": "{{lead.name}}",\n  "email": "{{contact.email}}"\n}'}
+                  rows={6}
+                  className="font-mono text-xs"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Use {"{{lead.name}}"}, {"{{contact.email}}"}, {"{{deal.value}}"} or {"{{action.<id>.data.<key>}}"} for dynamic content
+                </p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="http_timeout_seconds">Timeout (seconds)</Label>
+                <Input
+                  id="http_timeout_seconds"
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={(config.http_timeout_seconds as number) ?? 10}
+                  onChange={(e) => updateConfig("http_timeout_seconds", parseInt(e.target.value) || undefined)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="http_retries">Retries</Label>
+                <Select
+                  value={String((config.http_retries as number) ?? 0)}
+                  onValueChange={(v) => updateConfig("http_retries", parseInt(v))}
+                >
+                  <SelectTrigger id="http_retries">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">No retries</SelectItem>
+                    <SelectItem value="1">1 retry</SelectItem>
+                    <SelectItem value="2">2 retries</SelectItem>
+                    <SelectItem value="3">3 retries</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Response mapping</Label>
+              <p className="text-xs text-muted-foreground">
+                Save values from the JSON response so later steps and conditions can use them.
+              </p>
+              {mappings.map((mapping, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={mapping.key}
+                    onChange={(e) => updateMapping(index, { key: e.target.value })}
+                    placeholder="Name, e.g. score"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={mapping.path}
+                    onChange={(e) => updateMapping(index, { path: e.target.value })}
+                    placeholder="Path, e.g. result.score"
+                    className="flex-1"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateConfig("http_response_mapping", mappings.filter((_, i) => i !== index))}
+                  >
+                    <XIcon className="size-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateConfig("http_response_mapping", [...mappings, { key: "", path: "" }])}
+              >
+                <PlusIcon className="size-4 mr-1" />
+                Add mapping
+              </Button>
+            </div>
+          </div>
+        )
+      }
+
+      case "ask_agent": {
+        const outputFields = (config.output_fields as AgentOutputField[]) || []
+
+        const updateOutputField = (index: number, updates: Partial<AgentOutputField>) => {
+          updateConfig("output_fields", outputFields.map((f, i) => (i === index ? { ...f, ...updates } : f)))
+        }
+
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Agent</Label>
+              {loadingAgents ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="size-4 animate-spin" />
+                  Loading agents...
+                </div>
+              ) : agents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No agents are available in this workspace.
+                </p>
+              ) : (
+                <Select
+                  value={(config.agent_id as string) || ""}
+                  onValueChange={(v) => {
+                    const agent = agents.find((a) => a.id === v)
+                    setConfig((prev) => ({ ...prev, agent_id: v, agent_name: agent?.name }))
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an agent" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id} value={agent.id}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <p className="text-xs text-muted-foreground">
+                The agent runs with its own instructions and tools.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="agent_prompt">Prompt</Label>
+              <Textarea
+                id="agent_prompt"
+                value={(config.prompt as string) || ""}
+                onChange={(e) => updateConfig("prompt", e.target.value)}
+                placeholder="How likely is {{lead.name}} to buy in the next 30 days?"
+                rows={5}
+              />
+              <p className="text-xs text-muted-foreground">
+                The lead, contact and deal from the trigger are sent along with the prompt.
+              </p>
+            </div>
+
+            {triggerType.startsWith("call_") && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="include_transcript"
+                  checked={(config.include_transcript as boolean) ?? false}
+                  onChange={(e) => updateConfig("include_transcript", e.target.checked)}
+                  className="size-4 rounded border-gray-300"
+                />
+                <Label htmlFor="include_transcript" className="font-normal">
+                  Include the call transcript
+                </Label>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Answer fields</Label>
+              <p className="text-xs text-muted-foreground">
+                Ask for structured values that later conditions can branch on. Without fields, the reply is saved as text.
+              </p>
+              {outputFields.map((field, index) => (
+                <div key={index} className="space-y-2 rounded-lg border p-2">
+                  <div className="flex gap-2">
+                    <Input
+                      value={field.key}
+                      onChange={(e) => updateOutputField(index, { key: e.target.value })}
+                      placeholder="Name, e.g. intent"
+                      className="flex-1"
+                    />
+                    <Select
+                      value={field.type}
+                      onValueChange={(v) => updateOutputField(index, { type: v as AgentOutputFieldType })}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="text">Text</SelectItem>
+                        <SelectItem value="number">Number</SelectItem>
+                        <SelectItem value="boolean">Yes/No</SelectItem>
+                        <SelectItem value="choice">Choice</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateConfig("output_fields", outputFields.filter((_, i) => i !== index))}
+                    >
+                      <XIcon className="size-4" />
+                    </Button>
+                  </div>
+                  {field.type === "choice" && (
+                    <Input
+                      value={(field.options || []).join(", ")}
+                      onChange={(e) =>
+                        updateOutputField(index, {
+                          options: e.target.value.split(",").map((o) => o.trim()),
+                        })
+                      }
+                      placeholder="Options, e.g. high, medium, low"
+                    />
+                  )}
+                  <Input
+                    value={field.description || ""}
+                    onChange={(e) => updateOutputField(index, { description: e.target.value })}
+                    placeholder="Description for the agent (optional)"
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateConfig("output_fields", [...outputFields, { key: "", type: "text" }])}
+              >
+                <PlusIcon className="size-4 mr-1" />
+                Add field
+              </Button>
+            </div>
+          </div>
+        )
+      }
+
       default:
         return (
           <p className="text-muted-foreground">No configuration options for this action.</p>
@@ -0,0 +1,155 @@
+"use client"
+
+import { useState, useEffect, useId } from "react"
+import { Button } from "@dreamteam/ui/button"
+import { Input } from "@dreamteam/ui/input"
+import { Label } from "@dreamteam/ui/label"
+import { Switch } from "@dreamteam/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@dreamteam/ui/select"
+import { XIcon } from "lucide-react"
+import type {
+  TriggerType,
+  ReEntryPolicy,
+  WorkflowConditionGroup,
+  WorkflowEnrollmentSettings,
+} from "@/types/workflow"
+import { ConditionGroupEditor } from "./condition-group-editor"
+
+const EMPTY_GROUP: WorkflowConditionGroup = {
+  match: "all",
+  conditions: [{ field_source: "trigger", field_path: "", operator: "equals", value: "" }],
+}
+
+interface EnrollmentSettingsPanelProps {
+  triggerType: TriggerType
+  settings: WorkflowEnrollmentSettings
+  onClose: () => void
+  onSave: (settings: WorkflowEnrollmentSettings) => void
+}
+
+export function EnrollmentSettingsPanel({
+  triggerType,
+  settings,
+  onClose,
+  onSave,
+}: EnrollmentSettingsPanelProps) {
+  const [draft, setDraft] = useState<WorkflowEnrollmentSettings>(settings)
+  const goalId = useId()
+  const exitId = useId()
+
+  useEffect(() => {
+    setDraft(settings)
+  }, [settings])
+
+  const update = (updates: Partial<WorkflowEnrollmentSettings>) => {
+    setDraft((prev) => ({ ...prev, ...updates }))
+  }
+
+  const reEntry = draft.re_entry || "always"
+
+  return (
+    <div className="w-full md:w-96 fixed inset-y-0 right-0 md:relative md:inset-auto border-l bg-background flex flex-col h-full z-50 shadow-lg md:shadow-none">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-semibold">Enrollment</h3>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <XIcon className="size-4" />
+        </Button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-4 space-y-6">
+        {/* Re-entry */}
+        <div className="space-y-2">
+          <Label>Re-enrollment</Label>
+          <Select
+            value={reEntry}
+            onValueChange={(v) => update({ re_entry: v as ReEntryPolicy })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="always">Every time the trigger fires</SelectItem>
+              <SelectItem value="never">Only once per record</SelectItem>
+              <SelectItem value="after_days">Again after a number of days</SelectItem>
+            </SelectContent>
+          </Select>
+          {reEntry === "after_days" && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={draft.re_entry_days || ""}
+                onChange={(e) => update({ re_entry_days: parseInt(e.target.value) || undefined })}
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">days after the last run</span>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Decides whether a lead or deal that already went through this workflow can start it again.
+          </p>
+        </div>
+
+        {/* Goal */}
+        <div className="space-y-3 pt-4 border-t">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={goalId}>Goal</Label>
+            <Switch
+              id={goalId}
+              checked={!!draft.goal}
+              onCheckedChange={(checked) => update({ goal: checked ? EMPTY_GROUP : undefined })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The run ends as soon as the goal is met, e.g. the deal is won.
+          </p>
+          {draft.goal && (
+            <ConditionGroupEditor
+              group={draft.goal}
+              onChange={(goal) => update({ goal })}
+              triggerType={triggerType}
+            />
+          )}
+        </div>
+
+        {/* Exit criteria */}
+        <div className="space-y-3 pt-4 border-t">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={exitId}>Exit criteria</Label>
+            <Switch
+              id={exitId}
+              checked={!!draft.exit_criteria}
+              onCheckedChange={(checked) => update({ exit_criteria: checked ? EMPTY_GROUP : undefined })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Checked when a run resumes after a Wait step. If met, the remaining steps are skipped.
+          </p>
+          {draft.exit_criteria && (
+            <ConditionGroupEditor
+              group={draft.exit_criteria}
+              onChange={(exit_criteria) => update({ exit_criteria })}
+              triggerType={triggerType}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-end gap-2 px-4 py-3 border-t">
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={() => onSave(draft)}>Done</Button>
+      </div>
+    </div>
+  )
+}
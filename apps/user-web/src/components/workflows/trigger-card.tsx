@@ -16,10 +16,50 @@ import {
   PhoneCallIcon,
   PhoneMissedIcon,
   VoicemailIcon,
+  HourglassIcon,
+  TimerIcon,
+  CalendarClockIcon,
+  SettingsIcon,
+  MessageSquareIcon,
+  MailIcon,
+  ContactIcon,
+  TagIcon,
 } from "lucide-react"
 import { Badge } from "@dreamteam/ui/badge"
 import type { TriggerType } from "@/types/workflow"
-import { getTriggerDefinition } from "@/types/workflow"
+import { getTriggerDefinition, TIME_BASED_TRIGGERS } from "@/types/workflow"
+
+// Summarize trigger settings; null when the trigger has none or they are missing
+function getTriggerConfigSummary(type: TriggerType, config: Record<string, unknown>): string | null {
+  switch (type) {
+    case "lead_inactive":
+      return config.inactive_days ? `No activity for ${config.inactive_days} days` : null
+    case "deal_stage_stale":
+      return config.stale_days ? `In the same stage for ${config.stale_days} days` : null
+    case "task_due_soon": {
+      const days = (config.days_before as number | undefined) ?? 1
+      return days === 1 ? "Task is due tomorrow" : `Task is due within ${days} days`
+    }
+    case "scheduled":
+      return config.cron_expression
+        ? `Each ${config.record_type === "deal" ? "deal" : "lead"} on "${config.cron_expression}"`
+        : null
+    case "sms_received":
+    case "email_received": {
+      const parts: string[] = []
+      if (config.keywords) {
+        parts.push(config.keyword_match === "exact" ? `Message is "${config.keywords}"` : `Contains "${config.keywords}"`)
+      }
+      if (type === "sms_received" && config.to_number) parts.push(`to ${config.to_number}`)
+      if (type === "email_received" && config.grant_id) parts.push("to a specific mailbox")
+      return parts.length > 0 ? parts.join(" ") : null
+    }
+    case "tag_added":
+      return config.tag_name ? `Tag "${config.tag_name}"` : null
+    default:
+      return null
+  }
+}
 
 const triggerIcons: Record<TriggerType, React.ReactNode> = {
   lead_created: <UserPlusIcon className="size-5" />,
@@ -37,29 +77,60 @@ const triggerIcons: Record<TriggerType, React.ReactNode> = {
   call_completed: <PhoneCallIcon className="size-5" />,
   call_missed: <PhoneMissedIcon className="size-5" />,
   voicemail_received: <VoicemailIcon className="size-5" />,
+  lead_inactive: <HourglassIcon className="size-5" />,
+  deal_stage_stale: <TimerIcon className="size-5" />,
+  task_due_soon: <CalendarClockIcon className="size-5" />,
+  scheduled: <CalendarClockIcon className="size-5" />,
+  sms_received: <MessageSquareIcon className="size-5" />,
+  email_received: <MailIcon className="size-5" />,
+  contact_created: <ContactIcon className="size-5" />,
+  tag_added: <TagIcon className="size-5" />,
 }
 
 // Get category badge text
 function getTriggerBadge(type: TriggerType): string {
+  if (TIME_BASED_TRIGGERS.includes(type)) return "TIME"
   if (type.startsWith("lead_")) return "LEAD"
   if (type.startsWith("deal_")) return "DEAL"
   if (type.startsWith("activity_") || type.startsWith("task_")) return "ACTIVITY"
   if (type.startsWith("call_") || type === "voicemail_received") return "CALL"
+  if (type === "sms_received" || type === "email_received") return "MESSAGE"
+  if (type === "contact_created") return "CONTACT"
+  if (type === "tag_added") return "LEAD"
   return "EVENT"
 }
 
 interface TriggerCardProps {
   triggerType: TriggerType
   triggerConfig?: Record<string, unknown>
+  selected?: boolean
+  onClick?: () => void
 }
 
-export function TriggerCard({ triggerType }: TriggerCardProps) {
+export function TriggerCard({ triggerType, triggerConfig = {}, selected, onClick }: TriggerCardProps) {
   const trigger = getTriggerDefinition(triggerType)
   const icon = triggerIcons[triggerType] || <ZapIcon className="size-5" />
   const badgeText = getTriggerBadge(triggerType)
+  const configSummary = getTriggerConfigSummary(triggerType, triggerConfig)
+  const needsConfig = TIME_BASED_TRIGGERS.includes(triggerType) && !configSummary
 
   return (
-    <div className="bg-background border border-border rounded-xl shadow-sm p-4 max-w-md mx-auto">
+    <div
+      role={onClick ? "button" : undefined}
+      tabIndex={onClick ? 0 : undefined}
+      onClick={onClick}
+      onKeyDown={(e) => {
+        if (onClick && (e.key === "Enter" || e.key === " ")) {
+          e.preventDefault()
+          onClick()
+        }
+      }}
+      className={`
+        bg-background border rounded-xl shadow-sm p-4 max-w-md mx-auto
+        ${onClick ? "cursor-pointer transition-all duration-150 outline-none focus-visible:ring-2 focus-visible:ring-sky-500 focus-visible:ring-offset-2" : ""}
+        ${selected ? "border-sky-400 border-2 bg-sky-50/30" : onClick ? "border-border hover:border-sky-300 hover:bg-sky-50/20" : "border-border"}
+      `}
+    >
       <div className="flex items-start gap-3">
         {/* Icon */}
         <div className="size-10 rounded-full bg-cyan-100 flex items-center justify-center text-cyan-600 shrink-0">
@@ -77,7 +148,15 @@ export function TriggerCard({ triggerType }: TriggerCardProps) {
           <p className="text-sm text-muted-foreground">
             {trigger?.description || "When this event occurs"}
           </p>
+          {configSummary && (
+            <p className="text-sm mt-1">{configSummary}</p>
+          )}
         </div>
+        {needsConfig && (
+          <div className="size-6 flex items-center justify-center text-amber-500 shrink-0" title="Configure trigger">
+            <SettingsIcon className="size-5" />
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,467 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@dreamteam/ui/button"
+import { Input } from "@dreamteam/ui/input"
+import { Label } from "@dreamteam/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@dreamteam/ui/select"
+import { XIcon, InfoIcon } from "lucide-react"
+import type {
+  TriggerType,
+  KeywordMatchMode,
+  ScheduledTriggerConfig,
+  ScheduledRecordFilter,
+} from "@/types/workflow"
+import { getTriggerDefinition } from "@/types/workflow"
+import { PipelineStagePicker } from "./pipeline-stage-picker"
+
+const ANY_VALUE = "__any__"
+
+// Common schedules offered as presets; anything else can be typed as a cron expression
+const SCHEDULE_PRESETS = [
+  { value: "0 9 * * *", label: "Every day at 9:00" },
+  { value: "0 9 * * 1", label: "Every Monday at 9:00" },
+  { value: "0 9 1 * *", label: "First day of the month at 9:00" },
+  { value: "0 * * * *", label: "Every hour" },
+]
+
+interface DealPipeline {
+  id: string
+  name: string
+  stages: Array<{ id: string; name: string }>
+}
+
+interface OwnedNumber {
+  id: string
+  phone_number: string
+  friendly_name?: string | null
+}
+
+interface EmailGrant {
+  id: string
+  email: string
+}
+
+interface LeadTagOption {
+  id: string
+  name: string
+}
+
+interface TriggerConfigPanelProps {
+  triggerType: TriggerType
+  triggerConfig: Record<string, unknown>
+  onClose: () => void
+  onSave: (config: Record<string, unknown>) => void
+}
+
+export function TriggerConfigPanel({
+  triggerType,
+  triggerConfig,
+  onClose,
+  onSave,
+}: TriggerConfigPanelProps) {
+  const [config, setConfig] = useState<Record<string, unknown>>(triggerConfig)
+  const [dealPipelines, setDealPipelines] = useState<DealPipeline[]>([])
+  const [ownedNumbers, setOwnedNumbers] = useState<OwnedNumber[]>([])
+  const [emailGrants, setEmailGrants] = useState<EmailGrant[]>([])
+  const [tags, setTags] = useState<LeadTagOption[]>([])
+
+  const definition = getTriggerDefinition(triggerType)
+  const needsDealStages =
+    triggerType === "deal_stage_stale" ||
+    (triggerType === "scheduled" && (config as Partial<ScheduledTriggerConfig>).record_type === "deal")
+
+  useEffect(() => {
+    setConfig(triggerConfig)
+  }, [triggerConfig])
+
+  // Deal stages come from the deal pipelines, not the lead pipelines
+  useEffect(() => {
+    if (!needsDealStages || dealPipelines.length > 0) return
+    fetch("/api/pipelines")
+      .then((res) => (res.ok ? res.json() : { pipelines: [] }))
+      .then((data) => setDealPipelines(data.pipelines || []))
+      .catch((error) => console.error("Failed to fetch deal pipelines:", error))
+  }, [needsDealStages, dealPipelines.length])
+
+  // Options for the inbound message and tag filters
+  useEffect(() => {
+    if (triggerType === "sms_received") {
+      fetch("/api/twilio/numbers/owned")
+        .then((res) => (res.ok ? res.json() : { numbers: [] }))
+        .then((data) => setOwnedNumbers(data.numbers || []))
+        .catch((error) => console.error("Failed to fetch phone numbers:", error))
+    } else if (triggerType === "email_received") {
+      fetch("/api/nylas/grants")
+        .then((res) => (res.ok ? res.json() : { grants: [] }))
+        .then((data) => setEmailGrants(data.grants || []))
+        .catch((error) => console.error("Failed to fetch email grants:", error))
+    } else if (triggerType === "tag_added") {
+      fetch("/api/lead-tags")
+        .then((res) => (res.ok ? res.json() : []))
+        .then((data) => setTags(Array.isArray(data) ? data : []))
+        .catch((error) => console.error("Failed to fetch tags:", error))
+    }
+  }, [triggerType])
+
+  const updateConfig = (key: string, value: unknown) => {
+    setConfig((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const dealStageOptions = dealPipelines.flatMap((p) =>
+    p.stages.map((s) => ({ id: s.id, label: `${p.name} - ${s.name}` }))
+  )
+
+  const renderKeywordFilter = (hint: string) => (
+    <div className="space-y-2">
+      <Label htmlFor="keywords">Keywords</Label>
+      <Input
+        id="keywords"
+        value={(config.keywords as string) || ""}
+        onChange={(e) => updateConfig("keywords", e.target.value || undefined)}
+        placeholder="pricing, demo, call me"
+      />
+      <Select
+        value={(config.keyword_match as KeywordMatchMode) || "contains"}
+        onValueChange={(v) => updateConfig("keyword_match", v)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="contains">Message contains any keyword</SelectItem>
+          <SelectItem value="exact">{hint}</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Comma-separated, not case sensitive. Leave empty to run for every message.
+      </p>
+    </div>
+  )
+
+  const renderForm = () => {
+    switch (triggerType) {
+      case "sms_received":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Sent to</Label>
+              <Select
+                value={(config.to_number as string) || ANY_VALUE}
+                onValueChange={(v) => updateConfig("to_number", v === ANY_VALUE ? undefined : v)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Any of your numbers" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_VALUE}>Any of your numbers</SelectItem>
+                  {ownedNumbers.map((number) => (
+                    <SelectItem key={number.id} value={number.phone_number}>
+                      {number.friendly_name || number.phone_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {renderKeywordFilter("Whole message is a keyword (e.g. YES)")}
+          </div>
+        )
+
+      case "email_received":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Received in</Label>
+              <Select
+                value={(config.grant_id as string) || ANY_VALUE}
+                onValueChange={(v) => updateConfig("grant_id", v === ANY_VALUE ? undefined : v)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Any connected mailbox" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_VALUE}>Any connected mailbox</SelectItem>
+                  {emailGrants.map((grant) => (
+                    <SelectItem key={grant.id} value={grant.id}>
+                      {grant.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {renderKeywordFilter("Subject is a keyword")}
+            <p className="text-xs text-muted-foreground">
+              Only emails from existing contacts start this workflow.
+            </p>
+          </div>
+        )
+
+      case "tag_added":
+        return (
+          <div className="space-y-2">
+            <Label>Tag</Label>
+            <Select
+              value={(config.tag_id as string) || ANY_VALUE}
+              onValueChange={(v) => {
+                const tag = tags.find((t) => t.id === v)
+                setConfig((prev) => ({ ...prev, tag_id: tag?.id, tag_name: tag?.name }))
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Any tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE}>Any tag</SelectItem>
+                {tags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )
+
+      case "lead_inactive":
+        return (
+          <div className="space-y-2">
+            <Label htmlFor="inactive_days">No activity for</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="inactive_days"
+                type="number"
+                min={1}
+                value={(config.inactive_days as number) || ""}
+                onChange={(e) => updateConfig("inactive_days", parseInt(e.target.value) || undefined)}
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">days</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Each lead is enrolled once per quiet period. New activity resets it.
+            </p>
+          </div>
+        )
+
+      case "deal_stage_stale":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stale_days">In the same stage for</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="stale_days"
+                  type="number"
+                  min={1}
+                  value={(config.stale_days as number) || ""}
+                  onChange={(e) => updateConfig("stale_days", parseInt(e.target.value) || undefined)}
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground">days</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Stage</Label>
+              <Select
+                value={(config.stage_id as string) || ANY_VALUE}
+                onValueChange={(v) => updateConfig("stage_id", v === ANY_VALUE ? undefined : v)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Any stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_VALUE}>Any stage</SelectItem>
+                  {dealStageOptions.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>
+                      {stage.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )
+
+      case "task_due_soon":
+        return (
+          <div className="space-y-2">
+            <Label htmlFor="days_before">Task is due within</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="days_before"
+                type="number"
+                min={0}
+                value={(config.days_before as number) ?? 1}
+                onChange={(e) => updateConfig("days_before", parseInt(e.target.value) || 0)}
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">days</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Use 1 to run when a task is due tomorrow.
+            </p>
+          </div>
+        )
+
+      case "scheduled": {
+        const scheduled = config as Partial<ScheduledTriggerConfig>
+        const filter = scheduled.filter || {}
+        const isPreset = SCHEDULE_PRESETS.some((p) => p.value === scheduled.cron_expression)
+
+        const updateFilter = (updates: Partial<ScheduledRecordFilter>) => {
+          updateConfig("filter", { ...filter, ...updates })
+        }
+
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Schedule</Label>
+              <Select
+                value={isPreset ? scheduled.cron_expression : "custom"}
+                onValueChange={(v) => updateConfig("cron_expression", v === "custom" ? "" : v)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a schedule" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.value} value={preset.value}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom (cron expression)</SelectItem>
+                </SelectContent>
+              </Select>
+              {!isPreset && (
+                <Input
+                  value={scheduled.cron_expression || ""}
+                  onChange={(e) => updateConfig("cron_expression", e.target.value)}
+                  placeholder="0 9 * * 1-5"
+                  className="font-mono"
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Input
+                id="timezone"
+                value={scheduled.timezone || ""}
+                onChange={(e) => updateConfig("timezone", e.target.value || undefined)}
+                placeholder="UTC"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Run for each</Label>
+              <Select
+                value={scheduled.record_type || "lead"}
+                onValueChange={(v) => setConfig((prev) => ({ ...prev, record_type: v, filter: {} }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lead">Lead</SelectItem>
+                  <SelectItem value="deal">Deal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3 pt-4 border-t">
+              <p className="text-sm font-medium">Only records matching</p>
+              {scheduled.record_type === "deal" ? (
+                <>
+                  <Select
+                    value={filter.status || ANY_VALUE}
+                    onValueChange={(v) => updateFilter({ status: v === ANY_VALUE ? undefined : v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_VALUE}>Any status</SelectItem>
+                      <SelectItem value="open">Open</SelectItem>
+                      <SelectItem value="won">Won</SelectItem>
+                      <SelectItem value="lost">Lost</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={filter.stage_id || ANY_VALUE}
+                    onValueChange={(v) => updateFilter({ stage_id: v === ANY_VALUE ? undefined : v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any stage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_VALUE}>Any stage</SelectItem>
+                      {dealStageOptions.map((stage) => (
+                        <SelectItem key={stage.id} value={stage.id}>
+                          {stage.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              ) : (
+                <>
+                  <Input
+                    value={filter.status || ""}
+                    onChange={(e) => updateFilter({ status: e.target.value || undefined })}
+                    placeholder="Lead status (any)"
+                  />
+                  <PipelineStagePicker
+                    pipelineId={filter.pipeline_id}
+                    stageId={filter.stage_id}
+                    onPipelineChange={(pipelineId) => updateFilter({ pipeline_id: pipelineId, stage_id: undefined })}
+                    onStageChange={(stageId) => updateFilter({ stage_id: stageId || undefined })}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+        )
+      }
+
+      default:
+        return (
+          <div className="flex items-start gap-2 text-sm text-muted-foreground">
+            <InfoIcon className="size-4 mt-0.5 shrink-0" />
+            <p>This trigger has no settings. It runs every time the event occurs.</p>
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div className="w-full md:w-96 fixed inset-y-0 right-0 md:relative md:inset-auto border-l bg-background flex flex-col h-full z-50 shadow-lg md:shadow-none">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-semibold">{definition?.label || triggerType}</h3>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <XIcon className="size-4" />
+        </Button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-4 space-y-6">
+        <p className="text-sm text-muted-foreground">{definition?.description}</p>
+        {renderForm()}
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-end gap-2 px-4 py-3 border-t">
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={() => onSave(config)}>Done</Button>
+      </div>
+    </div>
+  )
+}
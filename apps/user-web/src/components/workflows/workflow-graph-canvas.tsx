@@ -0,0 +1,354 @@
+"use client"
+
+import { useState, useEffect, useMemo, useCallback, createContext, useContext } from "react"
+import {
+  Handle,
+  Position,
+  type Connection as FlowConnection,
+  type Edge as FlowEdge,
+  type Node as FlowNode,
+  type NodeProps,
+} from "@xyflow/react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@dreamteam/ui/button"
+import { Badge } from "@dreamteam/ui/badge"
+import { Canvas } from "@/components/ai-elements/canvas"
+import { Node, NodeHeader, NodeTitle, NodeDescription, NodeContent } from "@/components/ai-elements/node"
+import { Edge } from "@/components/ai-elements/edge"
+import { Controls } from "@/components/ai-elements/controls"
+import { Connection } from "@/components/ai-elements/connection"
+import { Panel } from "@/components/ai-elements/panel"
+import {
+  PlusIcon,
+  PlayIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  AlertCircleIcon,
+  CheckCircleIcon,
+} from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  buildWorkflowGraph,
+  canConnectWorkflowActions,
+  getLastRunErrors,
+  moveWorkflowAction,
+  TRIGGER_NODE_ID,
+  type WorkflowGraphHandle,
+  type WorkflowGraphNodeData,
+} from "@/lib/workflow-graph"
+import type { TriggerType, WorkflowAction, WorkflowExecution } from "@/types/workflow"
+import { getActionDefinition } from "@/types/workflow"
+import { TriggerCard } from "./trigger-card"
+import { actionIcons, getActionSummary } from "./action-card"
+
+type GraphNode = FlowNode<WorkflowGraphNodeData>
+
+// Node callbacks and trigger details shared with the custom node components
+interface GraphCanvasContextValue {
+  triggerType: TriggerType
+  triggerConfig: Record<string, unknown>
+  triggerSelected: boolean
+  onToggleCollapse: (conditionId: string) => void
+  onAddToBranch: (conditionId: string, branch: "if" | "else") => void
+}
+
+const GraphCanvasContext = createContext<GraphCanvasContextValue | null>(null)
+
+function useGraphCanvas() {
+  const context = useContext(GraphCanvasContext)
+  if (!context) throw new Error("Workflow graph nodes must be rendered inside WorkflowGraphCanvas")
+  return context
+}
+
+function ErrorBadge({ error }: { error: string }) {
+  return (
+    <Badge variant="destructive" className="max-w-full" title={error}>
+      <AlertCircleIcon className="size-3 mr-1 shrink-0" />
+      <span className="truncate">{error}</span>
+    </Badge>
+  )
+}
+
+function TriggerNode() {
+  const { triggerType, triggerConfig, triggerSelected } = useGraphCanvas()
+
+  return (
+    <div className="w-72 [&>div]:max-w-none">
+      <TriggerCard triggerType={triggerType} triggerConfig={triggerConfig} selected={triggerSelected} />
+      <Handle type="source" position={Position.Right} id="next" />
+    </div>
+  )
+}
+
+function ActionNode({ data, selected }: NodeProps<GraphNode>) {
+  const action = data.action!
+  const definition = getActionDefinition(action.type)
+
+  return (
+    <Node
+      handles={{ target: true, source: false }}
+      className={cn("w-72 cursor-pointer", selected && "ring-2 ring-sky-400", data.error && "border-red-300")}
+    >
+      <NodeHeader>
+        <div className="flex items-center gap-2">
+          <div className="size-7 rounded-full bg-cyan-100 flex items-center justify-center text-cyan-600 shrink-0 [&>svg]:size-4">
+            {actionIcons[action.type] || <PlayIcon />}
+          </div>
+          <NodeTitle className="text-sm">{definition?.label || action.type}</NodeTitle>
+        </div>
+      </NodeHeader>
+      <NodeContent className="p-3 space-y-2">
+        <NodeDescription className="truncate">
+          {getActionSummary(action) || "Click to configure"}
+        </NodeDescription>
+        {data.error && <ErrorBadge error={data.error} />}
+      </NodeContent>
+      <Handle type="source" position={Position.Right} id="next" />
+    </Node>
+  )
+}
+
+function ConditionNode({ id, data, selected }: NodeProps<GraphNode>) {
+  const { onToggleCollapse, onAddToBranch } = useGraphCanvas()
+  const action = data.action!
+
+  return (
+    <Node
+      handles={{ target: true, source: false }}
+      className={cn("w-72 cursor-pointer", selected && "ring-2 ring-sky-400", data.error && "border-red-300")}
+    >
+      <NodeHeader>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="nodrag size-7 rounded-full bg-purple-100 flex items-center justify-center text-purple-600 shrink-0"
+            aria-label={data.collapsed ? "Expand branches" : "Collapse branches"}
+            onClick={(e) => {
+              e.stopPropagation()
+              onToggleCollapse(id)
+            }}
+          >
+            {data.collapsed ? <ChevronRightIcon className="size-4" /> : <ChevronDownIcon className="size-4" />}
+          </button>
+          <NodeTitle className="text-sm">Condition</NodeTitle>
+        </div>
+      </NodeHeader>
+      <NodeContent className="p-3 space-y-2">
+        <NodeDescription className="truncate">{getActionSummary(action)}</NodeDescription>
+        {data.error && <ErrorBadge error={data.error} />}
+        {data.collapsed ? (
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary">
+              {data.hiddenCount} hidden step{data.hiddenCount === 1 ? "" : "s"}
+            </Badge>
+            {!!data.hiddenErrorCount && (
+              <Badge variant="destructive">
+                <AlertCircleIcon className="size-3 mr-1" />
+                {data.hiddenErrorCount} failed
+              </Badge>
+            )}
+          </div>
+        ) : (
+          <div className="flex gap-1">
+            {(["if", "else"] as const).map((branch) => (
+              <Button
+                key={branch}
+                variant="ghost"
+                size="sm"
+                className="nodrag h-7 px-2 text-xs"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onAddToBranch(id, branch)
+                }}
+              >
+                <PlusIcon className="size-3 mr-1" />
+                {branch === "if" ? "If True" : "Else"}
+              </Button>
+            ))}
+          </div>
+        )}
+      </NodeContent>
+      {!data.collapsed && (
+        <>
+          <Handle type="source" position={Position.Bottom} id="if" style={{ left: "30%" }} />
+          <Handle type="source" position={Position.Bottom} id="else" style={{ left: "70%" }} />
+        </>
+      )}
+      <Handle type="source" position={Position.Right} id="next" />
+    </Node>
+  )
+}
+
+const nodeTypes = {
+  trigger: TriggerNode,
+  action: ActionNode,
+  condition: ConditionNode,
+}
+
+const edgeTypes = {
+  temporary: Edge.Temporary,
+}
+
+const HANDLE_LABELS: Partial<Record<WorkflowGraphHandle, string>> = {
+  if: "If True",
+  else: "Else",
+}
+
+interface WorkflowGraphCanvasProps {
+  workflowId: string
+  triggerType: TriggerType
+  triggerConfig: Record<string, unknown>
+  actions: WorkflowAction[]
+  selectedActionId: string | null
+  triggerSelected: boolean
+  onSelectTrigger: () => void
+  onSelectAction: (actionId: string) => void
+  onChange: (actions: WorkflowAction[]) => void
+  onAddStep: () => void
+  onAddToBranch: (conditionId: string, branch: "if" | "else") => void
+  onDeleteAction: (actionId: string) => void
+}
+
+export function WorkflowGraphCanvas({
+  workflowId,
+  triggerType,
+  triggerConfig,
+  actions,
+  selectedActionId,
+  triggerSelected,
+  onSelectTrigger,
+  onSelectAction,
+  onChange,
+  onAddStep,
+  onAddToBranch,
+  onDeleteAction,
+}: WorkflowGraphCanvasProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [lastRun, setLastRun] = useState<WorkflowExecution | null>(null)
+
+  // Badge the steps that failed in the most recent run
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/workflows/${workflowId}/executions?limit=1`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setLastRun(data?.executions?.[0] || null)
+      })
+      .catch(() => {
+        if (!cancelled) setLastRun(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [workflowId])
+
+  const errors = useMemo(() => getLastRunErrors(lastRun?.action_results || []), [lastRun])
+
+  const { nodes, edges } = useMemo(() => {
+    const graph = buildWorkflowGraph(actions, { collapsed, errors })
+
+    const flowNodes: GraphNode[] = graph.nodes.map((node) => ({
+      ...node,
+      selected: node.id === TRIGGER_NODE_ID ? triggerSelected : node.id === selectedActionId,
+      deletable: node.id !== TRIGGER_NODE_ID,
+    }))
+
+    const flowEdges: FlowEdge[] = graph.edges.map((edge) => ({
+      ...edge,
+      label: HANDLE_LABELS[edge.sourceHandle],
+      deletable: false,
+      // Dashed when the continuation skips over collapsed branches
+      type: collapsed.has(edge.source) && edge.sourceHandle === "next" ? "temporary" : "default",
+    }))
+
+    return { nodes: flowNodes, edges: flowEdges }
+  }, [actions, collapsed, errors, selectedActionId, triggerSelected])
+
+  const handleToggleCollapse = useCallback((conditionId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(conditionId)) {
+        next.delete(conditionId)
+      } else {
+        next.add(conditionId)
+      }
+      return next
+    })
+  }, [])
+
+  // Dragging a connection onto a step moves that step to follow the source
+  const handleConnect = (connection: FlowConnection) => {
+    const handle = (connection.sourceHandle || "next") as WorkflowGraphHandle
+    const moved = moveWorkflowAction(actions, connection.target, { afterId: connection.source, handle })
+    if (moved !== actions) onChange(moved)
+  }
+
+  const isValidConnection = (connection: FlowConnection | FlowEdge) =>
+    canConnectWorkflowActions(
+      actions,
+      connection.source,
+      connection.target,
+      (connection.sourceHandle || "next") as WorkflowGraphHandle
+    )
+
+  const failedCount = Object.keys(errors).length
+
+  return (
+    <GraphCanvasContext.Provider
+      value={{
+        triggerType,
+        triggerConfig,
+        triggerSelected,
+        onToggleCollapse: handleToggleCollapse,
+        onAddToBranch,
+      }}
+    >
+      <div className="size-full">
+        <Canvas
+          nodes={nodes}
+          edges={edges}
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          connectionLineComponent={Connection}
+          nodesDraggable={false}
+          panOnDrag
+          selectionOnDrag={false}
+          onConnect={handleConnect}
+          isValidConnection={isValidConnection}
+          onNodeClick={(_, node) => {
+            if (node.id === TRIGGER_NODE_ID) {
+              onSelectTrigger()
+            } else {
+              onSelectAction(node.id)
+            }
+          }}
+          onNodesDelete={(deleted) => {
+            deleted.filter((node) => node.id !== TRIGGER_NODE_ID).forEach((node) => onDeleteAction(node.id))
+          }}
+        >
+          <Controls showInteractive={false} />
+          <Panel position="top-left" className="flex items-center gap-2 px-2">
+            <Button variant="outline" size="sm" onClick={onAddStep}>
+              <PlusIcon className="size-4 mr-1" />
+              Add Step
+            </Button>
+            {lastRun && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground pr-1">
+                {failedCount > 0 ? (
+                  <AlertCircleIcon className="size-3.5 text-red-600" />
+                ) : (
+                  <CheckCircleIcon className="size-3.5 text-green-600" />
+                )}
+                Last run {formatDistanceToNow(new Date(lastRun.started_at), { addSuffix: true })}
+                {failedCount > 0 && ` · ${failedCount} step${failedCount === 1 ? "" : "s"} failed`}
+              </span>
+            )}
+          </Panel>
+          <Panel position="bottom-right" className="px-2 py-1 text-xs text-muted-foreground">
+            Drag from a handle onto a step to move it there
+          </Panel>
+        </Canvas>
+      </div>
+    </GraphCanvasContext.Provider>
+  )
+}
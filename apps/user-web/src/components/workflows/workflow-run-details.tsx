@@ -10,7 +10,7 @@ import {
   AlertCircleIcon,
 } from "lucide-react"
 import type { WorkflowExecution, ExecutionResult } from "@/types/workflow"
-import { getActionDefinition, getTriggerDefinition } from "@/types/workflow"
+import { getActionDefinition, getTriggerDefinition, EXIT_REASONS } from "@/types/workflow"
 import * as LucideIcons from "lucide-react"
 
 interface WorkflowRunDetailsProps {
@@ -212,6 +212,18 @@ export function WorkflowRunDetails({ execution }: WorkflowRunDetailsProps) {
         </div>
       )}
 
+      {/* Exit reason */}
+      {execution.exit_reason && (
+        <div className="bg-sky-50 border border-sky-200 rounded p-3">
+          <div className="text-xs text-sky-600 uppercase tracking-wide mb-1">
+            {EXIT_REASONS[execution.exit_reason]?.label || 'Exited early'}
+          </div>
+          <div className="text-sm text-sky-700">
+            {EXIT_REASONS[execution.exit_reason]?.description || execution.exit_reason}
+          </div>
+        </div>
+      )}
+
       {/* Actions timeline */}
       {execution.action_results && execution.action_results.length > 0 && (
         <div>
@@ -19,7 +19,7 @@ import {
 import { useWorkflowRuns } from "@/hooks/use-workflow-runs"
 import { WorkflowRunDetails } from "@/components/workflows/workflow-run-details"
 import type { WorkflowExecution } from "@/types/workflow"
-import { getTriggerDefinition } from "@/types/workflow"
+import { getTriggerDefinition, EXIT_REASONS } from "@/types/workflow"
 
 interface WorkflowRunsListProps {
   workflowId: string
@@ -119,7 +119,8 @@ function RunRow({
         <div className="flex items-center gap-2 w-28">
           {getStatusIcon(execution.status)}
           <Badge variant={getStatusBadgeVariant(execution.status)} className="text-xs">
-            {execution.status === 'completed' ? 'Success' :
+            {execution.exit_reason ? EXIT_REASONS[execution.exit_reason]?.label || execution.exit_reason :
+             execution.status === 'completed' ? 'Success' :
              execution.status === 'failed' ? 'Failed' :
              execution.status === 'running' ? 'Running' :
              execution.status === 'paused' ? 'Paused' :
@@ -0,0 +1,368 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@dreamteam/ui/button"
+import { Input } from "@dreamteam/ui/input"
+import { Label } from "@dreamteam/ui/label"
+import { Badge } from "@dreamteam/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@dreamteam/ui/select"
+import {
+  XIcon,
+  PlayIcon,
+  Loader2Icon,
+  CheckCircleIcon,
+  XCircleIcon,
+  GitBranchIcon,
+} from "lucide-react"
+import type {
+  TriggerType,
+  WorkflowAction,
+  WorkflowTestRecordType,
+  WorkflowTestRun,
+  ExecutionResult,
+} from "@/types/workflow"
+import { getActionDefinition, getTriggerDefinition } from "@/types/workflow"
+
+type TestSource = "sample" | WorkflowTestRecordType
+
+interface TestRecordOption {
+  id: string
+  label: string
+}
+
+// Sample values a test run starts from - editable in the panel
+const DEFAULT_SAMPLE = {
+  lead_name: "Acme Corp",
+  lead_status: "new",
+  contact_first_name: "Jane",
+  contact_last_name: "Doe",
+  contact_email: "jane@example.com",
+  contact_phone: "+15555550123",
+  deal_name: "Acme Corp - Annual Plan",
+  deal_status: "open",
+}
+
+const SAMPLE_FIELDS: Array<{ key: keyof typeof DEFAULT_SAMPLE; label: string }> = [
+  { key: "lead_name", label: "Lead name" },
+  { key: "lead_status", label: "Lead status" },
+  { key: "contact_first_name", label: "Contact first name" },
+  { key: "contact_last_name", label: "Contact last name" },
+  { key: "contact_email", label: "Contact email" },
+  { key: "contact_phone", label: "Contact phone" },
+  { key: "deal_name", label: "Deal name" },
+  { key: "deal_status", label: "Deal status" },
+]
+
+// Default the record type to whatever the trigger fires on
+function defaultSource(triggerType: TriggerType): TestSource {
+  if (triggerType.startsWith("deal_")) return "deal"
+  if (triggerType.startsWith("contact_")) return "contact"
+  if (triggerType.startsWith("lead_")) return "lead"
+  return "sample"
+}
+
+async function fetchRecordOptions(type: WorkflowTestRecordType, search: string): Promise<TestRecordOption[]> {
+  const query = search ? `?search=${encodeURIComponent(search)}` : ""
+
+  if (type === "lead") {
+    const res = await fetch(`/api/leads${query}`)
+    if (!res.ok) return []
+    const data = await res.json()
+    const leads: Array<{ id: string; name: string }> = Array.isArray(data) ? data : data.leads || []
+    return leads.map((l) => ({ id: l.id, label: l.name }))
+  }
+
+  if (type === "contact") {
+    const res = await fetch(`/api/contacts${query}`)
+    if (!res.ok) return []
+    const contacts: Array<{ id: string; first_name: string; last_name?: string; email?: string }> = await res.json()
+    return contacts.map((c) => ({
+      id: c.id,
+      label: [`${c.first_name} ${c.last_name || ""}`.trim(), c.email].filter(Boolean).join(" - "),
+    }))
+  }
+
+  // Deals have no search parameter - filter by name here
+  const res = await fetch("/api/deals")
+  if (!res.ok) return []
+  const { deals }: { deals: Array<{ id: string; name: string }> } = await res.json()
+  const term = search.toLowerCase()
+  return (deals || [])
+    .filter((d) => !term || d.name.toLowerCase().includes(term))
+    .map((d) => ({ id: d.id, label: d.name }))
+}
+
+// Build the sample context sent to the test endpoint
+function buildSample(values: typeof DEFAULT_SAMPLE) {
+  return {
+    lead: { id: "sample-lead", name: values.lead_name, status: values.lead_status },
+    contact: {
+      id: "sample-contact",
+      first_name: values.contact_first_name,
+      last_name: values.contact_last_name,
+      email: values.contact_email,
+      phone: values.contact_phone,
+    },
+    deal: { id: "sample-deal", name: values.deal_name, status: values.deal_status },
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—"
+  if (typeof value === "string") return value
+  return JSON.stringify(value, null, 2)
+}
+
+function TraceStep({ result, index }: { result: ExecutionResult; index: number }) {
+  const definition = getActionDefinition(result.actionType)
+  const { dry_run: _dryRun, ...data } = result.data || {}
+  const isCondition = result.actionType === "condition"
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        {result.success ? (
+          <CheckCircleIcon className="size-4 text-green-600 shrink-0" />
+        ) : (
+          <XCircleIcon className="size-4 text-red-600 shrink-0" />
+        )}
+        <span className="text-sm font-medium">
+          {index + 1}. {definition?.label || result.actionType}
+        </span>
+        {isCondition && result.success && (
+          <Badge variant={data.conditionMet ? "default" : "secondary"} className="ml-auto">
+            <GitBranchIcon className="size-3 mr-1" />
+            {data.branch === "if" ? "If True" : "Else"}
+          </Badge>
+        )}
+      </div>
+
+      {result.error && (
+        <div className="text-sm text-red-600 bg-red-50 px-2 py-1 rounded">
+          {result.error}
+        </div>
+      )}
+
+      {result.actionType === "wait" && (
+        <p className="text-xs text-muted-foreground">
+          Would wait {String(data.duration ?? 1)} {String(data.unit ?? "hours")} before continuing
+        </p>
+      )}
+
+      {!isCondition && result.actionType !== "wait" && Object.keys(data).length > 0 && (
+        <dl className="space-y-1.5">
+          {Object.entries(data).map(([key, value]) => (
+            <div key={key} className="text-xs">
+              <dt className="text-muted-foreground">{key}</dt>
+              <dd className="whitespace-pre-wrap break-words font-mono bg-muted/50 rounded px-1.5 py-1 max-h-40 overflow-auto">
+                {formatValue(value)}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {isCondition && result.success && (
+        <p className="text-xs text-muted-foreground">
+          {data.field
+            ? `${String(data.field)} ${String(data.operator)} ${formatValue(data.expectedValue)} → ${data.conditionMet ? "met" : "not met"}`
+            : `${String(data.conditionCount ?? 0)} conditions (${String(data.match)}) → ${data.conditionMet ? "met" : "not met"}`}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface WorkflowTestPanelProps {
+  workflowId: string
+  triggerType: TriggerType
+  actions: WorkflowAction[]
+  onClose: () => void
+}
+
+export function WorkflowTestPanel({
+  workflowId,
+  triggerType,
+  actions,
+  onClose,
+}: WorkflowTestPanelProps) {
+  const [source, setSource] = useState<TestSource>(() => defaultSource(triggerType))
+  const [sample, setSample] = useState(DEFAULT_SAMPLE)
+  const [search, setSearch] = useState("")
+  const [recordOptions, setRecordOptions] = useState<TestRecordOption[]>([])
+  const [recordId, setRecordId] = useState("")
+  const [isLoadingRecords, setIsLoadingRecords] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [testRun, setTestRun] = useState<WorkflowTestRun | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load matching records whenever the record type or search changes
+  useEffect(() => {
+    if (source === "sample") return
+
+    let cancelled = false
+    setIsLoadingRecords(true)
+    const timeout = setTimeout(() => {
+      fetchRecordOptions(source, search)
+        .then((options) => {
+          if (!cancelled) setRecordOptions(options.slice(0, 20))
+        })
+        .catch(() => {
+          if (!cancelled) setRecordOptions([])
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoadingRecords(false)
+        })
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [source, search])
+
+  const handleRun = async () => {
+    setIsRunning(true)
+    setError(null)
+    setTestRun(null)
+    try {
+      const res = await fetch(`/api/workflows/${workflowId}/test`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          actions,
+          ...(source === "sample"
+            ? { sample: buildSample(sample) }
+            : { record: { type: source, id: recordId } }),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || "Test run failed")
+      }
+      setTestRun(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Test run failed")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const canRun = actions.length > 0 && (source === "sample" || !!recordId)
+
+  return (
+    <div className="w-full md:w-96 fixed inset-y-0 right-0 md:relative md:inset-auto border-l bg-background flex flex-col h-full z-50 shadow-lg md:shadow-none">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-semibold">Test Run</h3>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <XIcon className="size-4" />
+        </Button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-4 space-y-6">
+        <p className="text-xs text-muted-foreground">
+          Walks every step for the {getTriggerDefinition(triggerType)?.label.toLowerCase() || "trigger"} without
+          sending messages, calling agents or changing any records.
+        </p>
+
+        <div className="space-y-2">
+          <Label>Test with</Label>
+          <Select
+            value={source}
+            onValueChange={(v) => {
+              setSource(v as TestSource)
+              setRecordId("")
+              setSearch("")
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sample">Sample data</SelectItem>
+              <SelectItem value="lead">A lead</SelectItem>
+              <SelectItem value="contact">A contact</SelectItem>
+              <SelectItem value="deal">A deal</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {source === "sample" ? (
+          <div className="space-y-3">
+            {SAMPLE_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label className="text-xs">{field.label}</Label>
+                <Input
+                  value={sample[field.key]}
+                  onChange={(e) => setSample((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Input
+              placeholder={`Search ${source}s...`}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <Select value={recordId} onValueChange={setRecordId}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoadingRecords ? "Loading..." : `Select a ${source}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {recordOptions.length === 0 ? (
+                  <SelectItem value="none" disabled>
+                    No {source}s found
+                  </SelectItem>
+                ) : (
+                  recordOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Button className="w-full" onClick={handleRun} disabled={!canRun || isRunning}>
+          {isRunning ? (
+            <Loader2Icon className="size-4 mr-2 animate-spin" />
+          ) : (
+            <PlayIcon className="size-4 mr-2" />
+          )}
+          Run Test
+        </Button>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 px-2 py-1 rounded">
+            {error}
+          </div>
+        )}
+
+        {testRun && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Trace</h4>
+            {testRun.results.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No steps would run.</p>
+            ) : (
+              testRun.results.map((result, index) => (
+                <TraceStep key={`${result.actionId}-${index}`} result={result} index={index} />
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  Loader2Icon,
+  RotateCcwIcon,
+  InboxIcon,
+  PlusIcon,
+  MinusIcon,
+  PencilIcon,
+} from "lucide-react"
+import { useWorkspace } from "@/providers/workspace-provider"
+import { diffWorkflowVersions, type WorkflowSnapshot } from "@/lib/workflow-version-diff"
+import type { WorkflowVersion, WorkflowVersionChange } from "@/types/workflow"
+import { getActionDefinition } from "@/types/workflow"
+
+interface WorkflowVersionsListProps {
+  workflowId: string
+  draft: WorkflowSnapshot      // Current saved draft, compared against the published version
+  onRestored: () => void
+}
+
+// Human-readable location of an action in the version diff
+function describeChange(change: WorkflowVersionChange): string {
+  switch (change.area) {
+    case "name":
+      return "Workflow name"
+    case "trigger":
+      return `Trigger settings${change.fields?.length ? ` (${change.fields.join(", ")})` : ""}`
+    case "enrollment":
+      return `Enrollment rules${change.fields?.length ? ` (${change.fields.join(", ")})` : ""}`
+    default: {
+      const label = change.actionType ? getActionDefinition(change.actionType)?.label || change.actionType : "Step"
+      const branch = change.path?.endsWith(".if_branch")
+        ? " in If True branch"
+        : change.path?.endsWith(".else_branch")
+        ? " in Else branch"
+        : ""
+      const fields = change.kind === "changed" && change.fields?.length ? ` (${change.fields.join(", ")})` : ""
+      return `${label}${branch}${fields}`
+    }
+  }
+}
+
+function ChangeList({ changes }: { changes: WorkflowVersionChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes</p>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {changes.map((change, index) => (
+        <li key={`${change.area}-${change.actionId || ""}-${index}`} className="flex items-center gap-2 text-sm">
+          {change.kind === "added" ? (
+            <PlusIcon className="size-3.5 text-green-600 shrink-0" />
+          ) : change.kind === "removed" ? (
+            <MinusIcon className="size-3.5 text-red-600 shrink-0" />
+          ) : (
+            <PencilIcon className="size-3.5 text-blue-600 shrink-0" />
+          )}
+          <span>{describeChange(change)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function WorkflowVersionsList({ workflowId, draft, onRestored }: WorkflowVersionsListProps) {
+  const { currentWorkspace } = useWorkspace()
+  const [versions, setVersions] = useState<WorkflowVersion[]>([])
+  const [publishedVersionId, setPublishedVersionId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const canRollBack = currentWorkspace?.role === "owner" || currentWorkspace?.role === "admin"
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/workflows/${workflowId}/versions`)
+      if (!res.ok) throw new Error("Failed to load versions")
+      const data = await res.json()
+      setVersions(data.versions || [])
+      setPublishedVersionId(data.published_version_id || null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load versions")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workflowId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  const handleRollback = async (versionNumber: number) => {
+    setRestoringVersion(versionNumber)
+    setError(null)
+    try {
+      const res = await fetch(`/api/workflows/${workflowId}/versions/${versionNumber}/rollback`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Rollback failed")
+      await fetchVersions()
+      onRestored()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Rollback failed")
+    } finally {
+      setRestoringVersion(null)
+    }
+  }
+
+  const publishedVersion = versions.find((v) => v.id === publishedVersionId)
+  const draftChanges = useMemo(
+    () => (publishedVersion ? diffWorkflowVersions(publishedVersion, draft) : []),
+    [publishedVersion, draft]
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2Icon className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <InboxIcon className="size-10 text-muted-foreground mb-3" />
+        <p className="font-medium">No published versions yet</p>
+        <p className="text-sm text-muted-foreground">
+          Each time you publish, a version is saved here so you can compare and roll back.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {draftChanges.length > 0 && (
+        <div className="rounded-md border border-amber-300 bg-amber-50/50 p-4 space-y-2">
+          <p className="text-sm font-medium">Unpublished changes</p>
+          <ChangeList changes={draftChanges} />
+        </div>
+      )}
+
+      <div className="rounded-md border divide-y">
+        {versions.map((version, index) => {
+          const previous = versions[index + 1]
+          const isPublished = version.id === publishedVersionId
+          const isExpanded = expandedId === version.id
+
+          return (
+            <div key={version.id} className="p-4">
+              <div className="flex items-center gap-3">
+                <button
+                  className="flex items-center gap-3 flex-1 text-left"
+                  onClick={() => setExpandedId(isExpanded ? null : version.id)}
+                >
+                  {isExpanded ? (
+                    <ChevronUpIcon className="size-4 text-muted-foreground" />
+                  ) : (
+                    <ChevronDownIcon className="size-4 text-muted-foreground" />
+                  )}
+                  <span className="font-medium">Version {version.version_number}</span>
+                  {isPublished && <Badge>Live</Badge>}
+                  {version.restored_from_version && (
+                    <Badge variant="outline">Restored from v{version.restored_from_version}</Badge>
+                  )}
+                  <span className="text-sm text-muted-foreground">
+                    {formatDistanceToNow(new Date(version.published_at), { addSuffix: true })}
+                  </span>
+                </button>
+
+                {!isPublished && canRollBack && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRollback(version.version_number)}
+                    disabled={restoringVersion !== null}
+                  >
+                    {restoringVersion === version.version_number ? (
+                      <Loader2Icon className="size-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcwIcon className="size-4 mr-1" />
+                    )}
+                    Roll back
+                  </Button>
+                )}
+              </div>
+
+              {isExpanded && (
+                <div className="mt-3 ml-7">
+                  {previous ? (
+                    <>
+                      <p className="text-xs text-muted-foreground mb-2">
+                        Changes since version {previous.version_number}
+                      </p>
+                      <ChangeList changes={diffWorkflowVersions(previous, version)} />
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      First published version with {version.actions.length} step{version.actions.length === 1 ? "" : "s"}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,7 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from "react"
-import type { ServerMessage, ToolCallState } from "@/lib/agent-ws"
+import type { GroundingCheckResult, ServerMessage, ToolCallApproval, ToolCallState } from "@/lib/agent-ws"
 import { getSupabaseClient } from "@/lib/supabase"
 
 // Message part types matching existing UI
@@ -29,6 +29,7 @@ export interface ToolCallPart {
   args: unknown
   result?: unknown
   state: "pending" | "running" | "completed" | "error"
+  approval?: ToolCallApproval
 }
 
 export interface AcknowledgmentPart {
@@ -44,6 +45,7 @@ export interface AgentMessage {
   content: string
   parts: MessagePart[]
   createdAt: Date
+  grounding?: GroundingCheckResult
 }
 
 export type ChatStatus = "idle" | "connecting" | "streaming" | "error"
@@ -70,6 +72,7 @@ export interface UseAgentChatReturn {
     costUsd: number
   } | null
   sendMessage: (content: string) => Promise<void>
+  respondToApproval: (approvalId: string, approved: boolean) => Promise<void>
   stopGeneration: () => void
   clearMessages: () => void
   setMessages: (messages: AgentMessage[]) => void
@@ -156,6 +159,7 @@ export function useAgentChat(options: UseAgentChatOptions): UseAgentChatReturn {
         state: toolCall.status === "completed" ? "completed" :
                toolCall.status === "error" ? "error" :
                toolCall.status === "running" ? "running" : "pending",
+        approval: toolCall.approval,
       })
     }
 
@@ -245,7 +249,9 @@ export function useAgentChat(options: UseAgentChatOptions): UseAgentChatReturn {
         })
 
         if (!response.ok) {
-          throw new Error(`HTTP error: ${response.status}`)
+          // Requests refused before streaming (e.g. a spend limit) explain why in the body
+          const body = await response.json().catch(() => null) as { error?: string } | null
+          throw new Error(body?.error || `HTTP error: ${response.status}`)
         }
 
         if (!response.body) {
@@ -340,6 +346,34 @@ export function useAgentChat(options: UseAgentChatOptions): UseAgentChatReturn {
                 }
                 break
 
+              case "approval_request":
+                if (currentAssistantMessageRef.current) {
+                  const toolCall = currentAssistantMessageRef.current.toolCalls.get(
+                    data.toolCallId
+                  )
+                  if (toolCall) {
+                    toolCall.approval = {
+                      id: data.approvalId,
+                      reason: data.reason,
+                      state: "requested",
+                    }
+                    updateAssistantMessage()
+                  }
+                }
+                break
+
+              case "approval_resolved":
+                if (currentAssistantMessageRef.current) {
+                  const toolCall = currentAssistantMessageRef.current.toolCalls.get(
+                    data.toolCallId
+                  )
+                  if (toolCall?.approval) {
+                    toolCall.approval.state = data.outcome
+                    updateAssistantMessage()
+                  }
+                }
+                break
+
               case "error":
                 isConnectingRef.current = false
                 const err = new Error(data.message)
@@ -354,6 +388,13 @@ export function useAgentChat(options: UseAgentChatOptions): UseAgentChatReturn {
                   outputTokens: data.usage.outputTokens,
                   costUsd: data.usage.costUsd,
                 })
+                if (data.grounding && currentAssistantMessageRef.current) {
+                  const messageId = currentAssistantMessageRef.current.id
+                  const grounding = data.grounding
+                  setMessages((prev) =>
+                    prev.map((msg) => (msg.id === messageId ? { ...msg, grounding } : msg))
+                  )
+                }
                 setStatus("idle")
                 if (process.env.NODE_ENV === "development") {
                   console.log("[useAgentChat] Stream complete, final message:", {
@@ -389,6 +430,34 @@ export function useAgentChat(options: UseAgentChatOptions): UseAgentChatReturn {
     [agentId, workspaceId, conversationId, onConversationCreated, onError, updateAssistantMessage]
   )
 
+  // Answer a tool call the agent paused for approval; the stream resumes once the server receives it
+  const respondToApproval = useCallback(
+    async (approvalId: string, approved: boolean) => {
+      const supabase = getSupabaseClient()
+      const { data: { session } } = await supabase.auth.getSession()
+      const accessToken = session?.access_token
+
+      const response = await fetch(`/api/agent-chat/approvals/${approvalId}`, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        },
+        body: JSON.stringify({ approved }),
+      })
+
+      if (!response.ok) {
+        // The server says whether the approval is unknown, already answered or expired
+        const body = await response.json().catch(() => null)
+        const err = new Error(body?.error || `Failed to respond to approval: ${response.status}`)
+        setError(err)
+        onError?.(err)
+      }
+    },
+    [onError]
+  )
+
   const stopGeneration = useCallback(() => {
     abortControllerRef.current?.abort()
     isConnectingRef.current = false
@@ -420,6 +489,7 @@ export function useAgentChat(options: UseAgentChatOptions): UseAgentChatReturn {
     isStreaming: status === "streaming",
     usage,
     sendMessage,
+    respondToApproval,
     stopGeneration,
     clearMessages,
     setMessages,
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Agent change log
+ *
+ * The MCP server tags writes made by agent tool calls with the conversation or scheduled
+ * execution they belong to, and database triggers save before/after snapshots in
+ * agent_change_log. These helpers list a run's changes and revert them.
+ */
+
+export type AgentChangeOperation = "INSERT" | "UPDATE" | "DELETE"
+
+export interface AgentChange {
+  id: string
+  conversation_id: string | null
+  execution_id: string | null
+  tool_name: string
+  tool_call_id: string | null
+  table_name: string
+  record_id: string
+  operation: AgentChangeOperation
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  reverted_at: string | null
+  created_at: string
+}
+
+export type AgentRun = { conversationId: string } | { executionId: string }
+
+export type RevertStatus = "reverted" | "conflict" | "already_reverted" | "not_found" | "failed"
+
+export interface RevertResult {
+  changeId: string
+  status: RevertStatus
+  error?: string
+}
+
+const CHANGE_SELECT =
+  "id, conversation_id, execution_id, tool_name, tool_call_id, table_name, record_id, operation, before, after, reverted_at, created_at"
+
+/**
+ * List a run's changes, newest first
+ */
+export async function listAgentChanges(
+  supabase: SupabaseClient,
+  run: AgentRun
+): Promise<AgentChange[]> {
+  let query = supabase.from("agent_change_log").select(CHANGE_SELECT)
+  query = "conversationId" in run
+    ? query.eq("conversation_id", run.conversationId)
+    : query.eq("execution_id", run.executionId)
+
+  const { data, error } = await query.order("created_at", { ascending: false })
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (data || []) as AgentChange[]
+}
+
+/**
+ * Revert a run's changes - all of them ("undo this run") or just changeIds
+ * Changes are reverted newest first so each one finds the row as the next change left it.
+ * A change whose row was edited again since is reported as a conflict unless force is set.
+ */
+export async function revertAgentChanges(
+  supabase: SupabaseClient,
+  run: AgentRun,
+  options: { userId: string; changeIds?: string[]; force?: boolean }
+): Promise<RevertResult[]> {
+  const changes = (await listAgentChanges(supabase, run)).filter(
+    (change) => !change.reverted_at && (!options.changeIds || options.changeIds.includes(change.id))
+  )
+
+  const results: RevertResult[] = []
+  for (const change of changes) {
+    const { data, error } = await supabase.rpc("revert_agent_change", {
+      p_change_id: change.id,
+      p_reverted_by: options.userId,
+      p_force: options.force ?? false,
+    })
+
+    if (error) {
+      results.push({ changeId: change.id, status: "failed", error: error.message })
+      continue
+    }
+
+    const outcome = data as { status: RevertStatus; error?: string }
+    results.push({ changeId: change.id, status: outcome.status, error: outcome.error })
+  }
+
+  return results
+}
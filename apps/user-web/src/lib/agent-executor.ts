@@ -1,4 +1,5 @@
-import { generateText, stepCountIs, type LanguageModel } from "ai"
+import { generateText, stepCountIs, Output, type LanguageModel } from "ai"
+import type { z } from "zod"
 import { anthropic } from "@ai-sdk/anthropic"
 import { xai } from "@ai-sdk/xai"
 import { buildAgentTools } from "./agent/tool-registry"
@@ -25,6 +26,33 @@ export interface ExecuteParams {
   customInstructions?: string | null
   /** Business context for agent autonomy */
   businessContext?: BusinessContext | null
+  /** Schema for a structured answer, returned as `output` */
+  outputSchema?: z.ZodType
+}
+
+// Model aliases for convenience
+const MODEL_ALIASES: Record<string, Record<string, string>> = {
+  anthropic: {
+    sonnet: "claude-sonnet-4-20250514",
+    opus: "claude-opus-4-20250514",
+    haiku: "claude-haiku-4-20250514",
+  },
+  xai: {
+    grok: "grok-4-fast",
+    "grok-2": "grok-2-1212",
+    "grok-3": "grok-3",
+    "grok-3-fast": "grok-3-fast",
+    "grok-4": "grok-4",
+    "grok-4-fast": "grok-4-fast",
+    "grok-4.1": "grok-4-fast", // Map grok-4.1 to grok-4-fast
+  },
+}
+
+/**
+ * Resolve a model alias (e.g. "sonnet") to the model ID sent to the provider
+ */
+export function resolveModelName(provider: AIProvider, model: string): string {
+  return MODEL_ALIASES[provider]?.[model] || model
 }
 
 /**
@@ -32,26 +60,7 @@ export interface ExecuteParams {
  * Supports Anthropic and xAI (Grok) providers.
  */
 function getModel(provider: AIProvider, model: string): LanguageModel {
-  // Model aliases for convenience
-  const modelAliases: Record<string, Record<string, string>> = {
-    anthropic: {
-      sonnet: "claude-sonnet-4-20250514",
-      opus: "claude-opus-4-20250514",
-      haiku: "claude-haiku-4-20250514",
-    },
-    xai: {
-      grok: "grok-4-fast",
-      "grok-2": "grok-2-1212",
-      "grok-3": "grok-3",
-      "grok-3-fast": "grok-3-fast",
-      "grok-4": "grok-4",
-      "grok-4-fast": "grok-4-fast",
-      "grok-4.1": "grok-4-fast", // Map grok-4.1 to grok-4-fast
-    },
-  }
-
-  // Resolve model alias if exists
-  const resolvedModel = modelAliases[provider]?.[model] || model
+  const resolvedModel = resolveModelName(provider, model)
 
   switch (provider) {
     case "xai":
@@ -72,7 +81,11 @@ export interface ExecuteResult {
   text: string
   toolCalls: ToolCallRecord[]
   usage: { promptTokens: number; completionTokens: number }
+  /** Model ID the task ran on, after resolving aliases */
+  model: string
   durationMs: number
+  /** Structured answer, when an outputSchema was given */
+  output?: unknown
 }
 
 /**
@@ -109,6 +122,7 @@ export async function executeAgentTask(params: ExecuteParams): Promise<ExecuteRe
       messages: [{ role: "user", content: params.taskPrompt }],
       tools,
       stopWhen: stepCountIs(10),
+      ...(params.outputSchema ? { output: Output.object({ schema: params.outputSchema }) } : {}),
     })
   } catch (err) {
     throw err
@@ -142,16 +156,24 @@ export async function executeAgentTask(params: ExecuteParams): Promise<ExecuteRe
     }
   }
 
-  // Extract usage with safe defaults
-  const usage = result.usage as { promptTokens?: number; completionTokens?: number } | undefined
+  // Extract usage with safe defaults - totalUsage covers every step, and AI SDK 6
+  // reports input/output tokens where older versions used prompt/completion
+  const usage = (result.totalUsage ?? result.usage) as {
+    inputTokens?: number
+    outputTokens?: number
+    promptTokens?: number
+    completionTokens?: number
+  } | undefined
 
   return {
     text: result.text,
     toolCalls,
     usage: {
-      promptTokens: usage?.promptTokens ?? 0,
-      completionTokens: usage?.completionTokens ?? 0,
+      promptTokens: usage?.inputTokens ?? usage?.promptTokens ?? 0,
+      completionTokens: usage?.outputTokens ?? usage?.completionTokens ?? 0,
     },
+    model: resolveModelName(provider, model),
     durationMs: Date.now() - startTime,
+    ...(params.outputSchema ? { output: result.output } : {}),
   }
 }
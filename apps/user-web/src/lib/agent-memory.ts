@@ -0,0 +1,338 @@
+import { createAdminClient } from "@dreamteam/database/server"
+import { isAdmin, type WorkspaceRole } from "@/lib/workspace-auth"
+
+// Agent memory as seen by the people it's about. The admin app owns extraction,
+// consolidation and embedding; this module only reads, edits and removes.
+
+export type MemoryScope = "user" | "workspace" | "agent"
+export type MemoryFactType = "preference" | "context" | "knowledge" | "relationship"
+
+export interface MemoryFact {
+  id: string
+  workspace_id: string
+  scope: MemoryScope
+  user_id: string | null
+  agent_id: string | null
+  fact_type: MemoryFactType
+  content: string
+  confidence: number
+  importance: number
+  is_active: boolean
+  superseded_by: string | null
+  source_episode_id: string | null
+  created_at: string
+  updated_at: string
+  agent?: { id: string; name: string } | null
+}
+
+export interface MemorySummary {
+  id: string
+  workspace_id: string
+  scope: MemoryScope
+  user_id: string | null
+  category: string
+  title: string
+  content: string
+  fact_count: number
+  updated_at: string
+}
+
+export interface MemoryEpisode {
+  id: string
+  workspace_id: string
+  agent_id: string | null
+  episode_type: "conversation" | "scheduled_task" | "tool_execution"
+  started_at: string
+  ended_at: string | null
+  is_processed: boolean
+  created_at: string
+  content?: unknown
+  agent?: { id: string; name: string } | null
+}
+
+export interface UserMemory {
+  facts: Array<MemoryFact & { can_manage: boolean }>
+  summaries: MemorySummary[]
+  episodes: MemoryEpisode[]
+}
+
+export interface MemoryExport {
+  exported_at: string
+  user_id: string
+  workspace_id: string
+  facts: MemoryFact[]
+  summaries: MemorySummary[]
+  episodes: MemoryEpisode[]
+}
+
+export interface ForgetResult {
+  facts: number
+  summaries: number
+  episodes: number
+  detached: number // Shared facts kept but unlinked from the user's conversations
+}
+
+// Embeddings are never returned; they're meaningless outside the vector index
+const FACT_COLUMNS = "id, workspace_id, scope, user_id, agent_id, fact_type, content, confidence, importance, is_active, superseded_by, source_episode_id, created_at, updated_at, agent:ai_agents(id, name)"
+const SUMMARY_COLUMNS = "id, workspace_id, scope, user_id, category, title, content, fact_count, updated_at"
+const EPISODE_COLUMNS = "id, workspace_id, agent_id, episode_type, started_at, ended_at, is_processed, created_at, agent:ai_agents(id, name)"
+
+// Keeps .in() filters well under PostgREST's URL length limit
+const ID_CHUNK_SIZE = 100
+
+/**
+ * Whether a user may edit or delete a fact. Facts about a user are theirs to
+ * manage; shared workspace facts need an admin, and other people's facts are off limits
+ */
+export function canManageFact(
+  fact: Pick<MemoryFact, "user_id">,
+  userId: string,
+  role: WorkspaceRole
+): boolean {
+  if (fact.user_id) return fact.user_id === userId
+  return isAdmin(role)
+}
+
+/**
+ * What agents remember in a workspace about a user and about the business
+ */
+export async function listUserMemory(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<UserMemory> {
+  const supabase = createAdminClient()
+
+  const [facts, summaries, episodes] = await Promise.all([
+    supabase
+      .from("agent_memory_facts")
+      .select(FACT_COLUMNS)
+      .eq("workspace_id", workspaceId)
+      .eq("is_active", true)
+      .or(`user_id.eq.${userId},user_id.is.null`)
+      .order("importance", { ascending: false })
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("agent_memory_summaries")
+      .select(SUMMARY_COLUMNS)
+      .eq("workspace_id", workspaceId)
+      .or(`user_id.eq.${userId},user_id.is.null`)
+      .order("updated_at", { ascending: false }),
+    supabase
+      .from("agent_memory_episodes")
+      .select(EPISODE_COLUMNS)
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId)
+      .order("started_at", { ascending: false })
+      .limit(50),
+  ])
+
+  const error = facts.error || summaries.error || episodes.error
+  if (error) {
+    throw new Error(`Failed to load memory: ${error.message}`)
+  }
+
+  return {
+    facts: ((facts.data || []) as unknown as MemoryFact[]).map((fact) => ({
+      ...fact,
+      can_manage: canManageFact(fact, userId, role),
+    })),
+    summaries: (summaries.data || []) as MemorySummary[],
+    episodes: (episodes.data || []) as unknown as MemoryEpisode[],
+  }
+}
+
+/**
+ * Get a single fact
+ */
+export async function getFact(factId: string): Promise<MemoryFact | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from("agent_memory_facts")
+    .select(FACT_COLUMNS)
+    .eq("id", factId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to get fact: ${error.message}`)
+  }
+
+  return data as unknown as MemoryFact | null
+}
+
+/**
+ * Update a fact. Same semantics as the admin memory service, except that edited
+ * content has its embedding cleared rather than regenerated: the fact stays
+ * findable by keyword and is picked up by the workspace's next re-embed
+ */
+export async function updateFact(
+  factId: string,
+  updates: Partial<Pick<MemoryFact, "content" | "fact_type" | "importance">>
+): Promise<MemoryFact> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from("agent_memory_facts")
+    .update({
+      ...updates,
+      ...(updates.content ? { embedding: null, embedding_model: null } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", factId)
+    .select(FACT_COLUMNS)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update fact: ${error.message}`)
+  }
+
+  return data as unknown as MemoryFact
+}
+
+/**
+ * Hard delete a fact
+ */
+export async function deleteFact(factId: string): Promise<void> {
+  const supabase = createAdminClient()
+
+  const { error } = await supabase
+    .from("agent_memory_facts")
+    .delete()
+    .eq("id", factId)
+
+  if (error) {
+    throw new Error(`Failed to delete fact: ${error.message}`)
+  }
+}
+
+/**
+ * Everything agents remember about a user, in every workspace, plus the
+ * current workspace's shared memory. Episodes include their full transcripts
+ */
+export async function exportUserMemory(workspaceId: string, userId: string): Promise<MemoryExport> {
+  const supabase = createAdminClient()
+  const mineOrShared = `user_id.eq.${userId},and(workspace_id.eq.${workspaceId},user_id.is.null)`
+
+  const [facts, summaries, episodes] = await Promise.all([
+    supabase
+      .from("agent_memory_facts")
+      .select(FACT_COLUMNS)
+      .or(mineOrShared)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("agent_memory_summaries")
+      .select(SUMMARY_COLUMNS)
+      .or(mineOrShared)
+      .order("updated_at", { ascending: true }),
+    supabase
+      .from("agent_memory_episodes")
+      .select(`${EPISODE_COLUMNS}, content`)
+      .eq("user_id", userId)
+      .order("started_at", { ascending: true }),
+  ])
+
+  const error = facts.error || summaries.error || episodes.error
+  if (error) {
+    throw new Error(`Failed to export memory: ${error.message}`)
+  }
+
+  return {
+    exported_at: new Date().toISOString(),
+    user_id: userId,
+    workspace_id: workspaceId,
+    facts: (facts.data || []) as unknown as MemoryFact[],
+    summaries: (summaries.data || []) as MemorySummary[],
+    episodes: (episodes.data || []) as unknown as MemoryEpisode[],
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Purge a user from agent memory across all agents and workspaces: their
+ * episodes, facts and summaries about them, and user-scoped facts learned from
+ * their conversations. Embeddings live on the rows, so they go too. Shared
+ * workspace facts learned from those conversations belong to the business and
+ * only admins may remove them, so they're kept and unlinked from the episodes
+ */
+export async function forgetUser(userId: string): Promise<ForgetResult> {
+  const supabase = createAdminClient()
+
+  const { data: episodes, error: episodesError } = await supabase
+    .from("agent_memory_episodes")
+    .select("id")
+    .eq("user_id", userId)
+
+  if (episodesError) {
+    throw new Error(`Failed to list episodes: ${episodesError.message}`)
+  }
+
+  // Facts go before episodes, which would otherwise null out source_episode_id
+  const { count: ownFactCount, error: ownFactsError } = await supabase
+    .from("agent_memory_facts")
+    .delete({ count: "exact" })
+    .eq("user_id", userId)
+
+  if (ownFactsError) {
+    throw new Error(`Failed to delete facts: ${ownFactsError.message}`)
+  }
+
+  let learnedFactCount = 0
+  let detachedFactCount = 0
+  const episodeIds = (episodes || []).map((e: { id: string }) => e.id)
+
+  for (const ids of chunk(episodeIds, ID_CHUNK_SIZE)) {
+    const { count: learned, error: deleteError } = await supabase
+      .from("agent_memory_facts")
+      .delete({ count: "exact" })
+      .in("source_episode_id", ids)
+      .eq("scope", "user")
+
+    if (deleteError) {
+      throw new Error(`Failed to delete facts: ${deleteError.message}`)
+    }
+    learnedFactCount += learned || 0
+
+    const { count: detached, error: detachError } = await supabase
+      .from("agent_memory_facts")
+      .update({ source_episode_id: null }, { count: "exact" })
+      .in("source_episode_id", ids)
+
+    if (detachError) {
+      throw new Error(`Failed to unlink shared facts: ${detachError.message}`)
+    }
+    detachedFactCount += detached || 0
+  }
+
+  const { count: summaryCount, error: summariesError } = await supabase
+    .from("agent_memory_summaries")
+    .delete({ count: "exact" })
+    .eq("user_id", userId)
+
+  if (summariesError) {
+    throw new Error(`Failed to delete summaries: ${summariesError.message}`)
+  }
+
+  const { count: episodeCount, error: deleteEpisodesError } = await supabase
+    .from("agent_memory_episodes")
+    .delete({ count: "exact" })
+    .eq("user_id", userId)
+
+  if (deleteEpisodesError) {
+    throw new Error(`Failed to delete episodes: ${deleteEpisodesError.message}`)
+  }
+
+  return {
+    facts: (ownFactCount || 0) + learnedFactCount,
+    summaries: summaryCount || 0,
+    episodes: episodeCount || 0,
+    detached: detachedFactCount,
+  }
+}
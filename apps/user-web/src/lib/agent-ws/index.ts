@@ -19,6 +19,8 @@ export {
   type ReasoningMessage,
   type ToolStartMessage,
   type ToolResultMessage,
+  type ApprovalRequestMessage,
+  type ApprovalResolvedMessage,
   type AcknowledgmentMessage,
   type ErrorMessage,
   type DoneMessage,
@@ -33,6 +35,8 @@ export {
   type ConnectionState,
   type StreamingMessage,
   type ToolCallState,
+  type ToolCallApproval,
+  type GroundingCheckResult,
 
   // Helper functions
   isClientMessage,
@@ -99,6 +99,31 @@ export interface ToolResultMessage {
   durationMs: number
 }
 
+/**
+ * Tool call paused until the user approves it
+ * Answer with POST /api/agent-chat/approvals/[approvalId] { approved }
+ */
+export interface ApprovalRequestMessage {
+  type: "approval_request"
+  approvalId: string
+  toolCallId: string
+  toolName: string
+  args: unknown
+  reason: string
+  expiresAt: string
+}
+
+/**
+ * Paused tool call approved, declined, timed out or cancelled
+ */
+export interface ApprovalResolvedMessage {
+  type: "approval_resolved"
+  approvalId: string
+  toolCallId: string
+  approved: boolean
+  outcome: "approved" | "declined" | "timeout" | "cancelled"
+}
+
 /**
  * Error occurred
  */
@@ -120,6 +145,22 @@ export interface DoneMessage {
     costUsd: number
   }
   turnCount: number
+  grounding?: GroundingCheckResult
+}
+
+/**
+ * Facts in a response checked against the tool results from the same run
+ */
+export interface GroundingCheckResult {
+  status: "grounded" | "partially_grounded" | "ungrounded" | "no_claims"
+  checkedClaims: number
+  groundedClaims: number
+  ungroundedClaims: Array<{
+    type: "amount" | "percentage" | "number" | "date" | "id" | "email" | "name"
+    text: string
+    grounded: boolean
+  }>
+  summary: string
 }
 
 /**
@@ -152,6 +193,8 @@ export type ServerMessage =
   | ReasoningMessage
   | ToolStartMessage
   | ToolResultMessage
+  | ApprovalRequestMessage
+  | ApprovalResolvedMessage
   | AcknowledgmentMessage
   | ErrorMessage
   | DoneMessage
@@ -212,6 +255,16 @@ export interface ToolCallState {
   success?: boolean
   durationMs?: number
   status: "pending" | "running" | "completed" | "error"
+  approval?: ToolCallApproval
+}
+
+/**
+ * Approval state of a tool call paused by its approval policy
+ */
+export interface ToolCallApproval {
+  id: string
+  reason: string
+  state: "requested" | "approved" | "declined" | "timeout" | "cancelled"
 }
 
 // ============================================================================
@@ -0,0 +1,120 @@
+import { createAdminClient } from "./supabase-server"
+import { calculateCost } from "@dreamteam/ai-pricing"
+import type { AIProvider } from "./agent-executor"
+
+export type AIUsageSource = "workflow"
+
+interface AIUsageOptions {
+  workspaceId: string
+  source: AIUsageSource
+  sourceId?: string       // e.g. the workflow id
+  agentId?: string        // ai_agents id
+  provider: AIProvider
+  model: string           // Resolved model ID, used to price the call
+  tokensInput: number
+  tokensOutput: number
+  metadata?: Record<string, unknown>
+}
+
+export interface AISpendCheck {
+  allowed: boolean
+  // Why the run was refused - shown to the user as is
+  message?: string
+}
+
+interface HardLimitBudget {
+  agent_id: string | null
+  monthly_limit_usd: number | string
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+/**
+ * Check whether a workspace (and its agent, if given) is still under its hard-limit
+ * AI spend budgets for the month. Same rules as the agent-server's checkSpendBudget,
+ * and fails closed the same way: if the budgets or spend can't be loaded, the step is refused
+ */
+export async function checkAISpendBudget(workspaceId: string, agentId?: string): Promise<AISpendCheck> {
+  try {
+    const supabase = createAdminClient()
+
+    let query = supabase
+      .from("ai_spend_budgets")
+      .select("agent_id, monthly_limit_usd")
+      .eq("workspace_id", workspaceId)
+      .eq("hard_limit", true)
+    query = agentId ? query.or(`agent_id.is.null,agent_id.eq.${agentId}`) : query.is("agent_id", null)
+
+    const { data: budgets, error } = await query
+    if (error) throw error
+    if (!budgets || budgets.length === 0) return { allowed: true }
+
+    const now = new Date()
+    const { data: spend, error: spendError } = await supabase.rpc("get_ai_spend", {
+      p_workspace_id: workspaceId,
+      p_since: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString(),
+    })
+    if (spendError) throw spendError
+
+    const rows = (spend || []) as { agent_id: string | null; cost_usd: number | string }[]
+    const spentBy = (budgetAgentId: string | null) =>
+      rows
+        .filter((row) => budgetAgentId === null || row.agent_id === budgetAgentId)
+        .reduce((sum, row) => sum + Number(row.cost_usd), 0)
+
+    for (const budget of budgets as HardLimitBudget[]) {
+      const limit = Number(budget.monthly_limit_usd)
+      const spent = spentBy(budget.agent_id)
+      if (spent < limit) continue
+
+      return {
+        allowed: false,
+        message:
+          `${budget.agent_id ? "This agent" : "This workspace"} has reached its monthly AI spend limit of ` +
+          `${formatUsd(limit)} (${formatUsd(spent)} spent this month)`,
+      }
+    }
+
+    return { allowed: true }
+  } catch (error) {
+    console.error("[AIUsage] Failed to check spend budgets, refusing run:", error)
+    return {
+      allowed: false,
+      message: "Couldn't check this workspace's AI spend budget, so the step wasn't run. Please try again in a moment.",
+    }
+  }
+}
+
+/**
+ * Record AI token usage against a workspace, priced so it counts towards spend budgets
+ */
+export async function recordAIUsage(options: AIUsageOptions): Promise<void> {
+  try {
+    const supabase = createAdminClient()
+
+    const { error } = await supabase.from("ai_usage_log").insert({
+      workspace_id: options.workspaceId,
+      source: options.source,
+      source_id: options.sourceId || null,
+      agent_id: options.agentId || null,
+      provider: options.provider,
+      model: options.model,
+      tokens_input: options.tokensInput,
+      tokens_output: options.tokensOutput,
+      cost_usd: calculateCost(options.provider, options.model, {
+        inputTokens: options.tokensInput,
+        outputTokens: options.tokensOutput,
+      }),
+      metadata: options.metadata || {},
+    })
+
+    if (error) {
+      console.error("[AIUsage] Failed to record usage:", error)
+    }
+  } catch (error) {
+    // Never throw from usage tracking - the AI call already happened
+    console.error("[AIUsage] Exception recording usage:", error)
+  }
+}
@@ -6,6 +6,7 @@
  */
 
 import type { AgentMessage, MessagePart, TextPart, ReasoningPart, ToolCallPart, AcknowledgmentPart } from "@/hooks/use-agent-chat"
+import type { GroundingCheckResult } from "@/lib/agent-ws"
 
 // Database message type (from agent_messages table)
 export interface DbMessage {
@@ -60,6 +61,7 @@ export function dbMessagesToAgentMessages(dbMessages: DbMessage[]): AgentMessage
         content: msg.content,
         parts: msg.parts,
         createdAt: new Date(msg.created_at),
+        ...(msg.metadata?.grounding ? { grounding: msg.metadata.grounding as GroundingCheckResult } : {}),
       })
       continue
     }
@@ -100,6 +102,9 @@ export function dbMessagesToAgentMessages(dbMessages: DbMessage[]): AgentMessage
             type: "text",
             text: msg.content,
           } as TextPart)
+          if (msg.metadata?.grounding) {
+            currentAssistantMessage.grounding = msg.metadata.grounding as GroundingCheckResult
+          }
           break
 
         case "reasoning":
@@ -71,7 +71,7 @@ export async function processScheduledWorkflows(): Promise<ProcessResult> {
       // Fetch previous results from the execution record
       const { data: execution } = await supabase
         .from('workflow_executions')
-        .select('action_results')
+        .select('action_results, workflow_version_id')
         .eq('id', scheduledAction.execution_id)
         .single()
 
@@ -83,7 +83,8 @@ export async function processScheduledWorkflows(): Promise<ProcessResult> {
         scheduledAction.workflow_id,
         scheduledAction.remaining_actions,
         scheduledAction.workflow_context,
-        previousResults
+        previousResults,
+        execution?.workflow_version_id
       )
 
       const allSucceeded = results.every((r) => r.success)
@@ -0,0 +1,439 @@
+import { Cron } from 'croner'
+import { createAdminClient } from './supabase-server'
+import {
+  runWorkflowForTrigger,
+  fetchLeadPrimaryContact,
+  fetchContact,
+  type Lead,
+  type Deal,
+  type LeadTask,
+  type TriggerContext,
+} from './workflow-trigger-service'
+import { WORKFLOW_WITH_PUBLISHED_VERSION, liveTriggerTypeFilter, withPublishedVersion, type WorkflowWithPublishedVersion } from './workflow-versions'
+import type {
+  Workflow,
+  TriggerType,
+  LeadInactiveTriggerConfig,
+  DealStageStaleTriggerConfig,
+  TaskDueSoonTriggerConfig,
+  ScheduledTriggerConfig,
+} from '@/types/workflow'
+import { TIME_BASED_TRIGGERS } from '@/types/workflow'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Cap per workflow per tick so one large workspace can't time out the cron
+// Also the page size when scanning for records that aren't enrolled yet
+const MAX_RECORDS_PER_WORKFLOW = 100
+
+const LEAD_COLUMNS = 'id, name, status, notes, user_id, workspace_id, created_at, last_activity_at'
+const DEAL_COLUMNS = 'id, name, status, stage_id, profile_id, contact_id, workspace_id, stage_changed_at, created_at'
+
+type AdminSupabaseClient = ReturnType<typeof createAdminClient>
+
+type AdminQuery = ReturnType<ReturnType<AdminSupabaseClient['from']>['select']>
+
+type LeadRow = Lead & { last_activity_at?: string | null; created_at: string }
+type DealRow = Deal & { stage_changed_at?: string | null; created_at: string }
+type LeadTaskRow = LeadTask & { lead: LeadRow | null }
+
+/**
+ * A record that matched a time-based trigger
+ * enrollment_key identifies the occurrence - the same record is only enrolled
+ * once per key, so it isn't re-enrolled on every cron tick
+ */
+interface TriggerCandidate {
+  recordType: 'lead' | 'deal' | 'lead_task'
+  recordId: string
+  enrollmentKey: string
+  buildContext: () => Promise<TriggerContext>
+}
+
+interface ProcessResult {
+  workflows: number
+  enrolled: number
+  skipped: number
+  failed: number
+  errors: string[]
+}
+
+function isDuplicateEnrollmentError(error: { code?: string | null } | null | undefined): boolean {
+  return error?.code === '23505'
+}
+
+/**
+ * Record that a workflow has been started for a record
+ * Returns false when the record was already enrolled for this occurrence
+ */
+async function enrollRecord(
+  supabase: AdminSupabaseClient,
+  workflow: Workflow,
+  candidate: TriggerCandidate
+): Promise<boolean> {
+  const { error } = await supabase.from('workflow_trigger_enrollments').insert({
+    workflow_id: workflow.id,
+    workspace_id: workflow.workspace_id || null,
+    record_type: candidate.recordType,
+    record_id: candidate.recordId,
+    enrollment_key: candidate.enrollmentKey,
+  })
+
+  if (!error) return true
+  if (isDuplicateEnrollmentError(error)) return false
+  throw new Error(`Enrollment failed: ${error.message}`)
+}
+
+/**
+ * Scan a finder's matching records in id order and return up to MAX_RECORDS_PER_WORKFLOW
+ * that aren't enrolled for their current occurrence yet. Enrolled records are skipped
+ * rather than counted against the cap, or the same first page would come back every
+ * tick and later records would never be reached
+ */
+async function collectUnenrolled<Row extends { id: string }>(
+  supabase: AdminSupabaseClient,
+  workflow: Workflow,
+  recordType: TriggerCandidate['recordType'],
+  buildQuery: () => AdminQuery,
+  toCandidate: (row: Row) => TriggerCandidate | null
+): Promise<TriggerCandidate[]> {
+  const candidates: TriggerCandidate[] = []
+  let afterId: string | null = null
+
+  while (candidates.length < MAX_RECORDS_PER_WORKFLOW) {
+    let query = buildQuery()
+    if (afterId) query = query.gt('id', afterId)
+
+    const { data, error } = await query.order('id').limit(MAX_RECORDS_PER_WORKFLOW)
+    if (error) throw new Error(`Failed to fetch ${recordType} records: ${error.message}`)
+
+    const rows = (data || []) as unknown as Row[]
+    if (rows.length === 0) break
+
+    const { data: enrollments, error: enrollmentError } = await supabase
+      .from('workflow_trigger_enrollments')
+      .select('record_id, enrollment_key')
+      .eq('workflow_id', workflow.id)
+      .eq('record_type', recordType)
+      .in('record_id', rows.map((row) => row.id))
+
+    if (enrollmentError) throw new Error(`Failed to fetch enrollments: ${enrollmentError.message}`)
+
+    const enrolled = new Set(
+      ((enrollments || []) as Array<{ record_id: string; enrollment_key: string }>)
+        .map((e) => `${e.record_id}:${e.enrollment_key}`)
+    )
+
+    for (const row of rows) {
+      const candidate = toCandidate(row)
+      if (candidate && !enrolled.has(`${candidate.recordId}:${candidate.enrollmentKey}`)) {
+        candidates.push(candidate)
+        if (candidates.length === MAX_RECORDS_PER_WORKFLOW) break
+      }
+    }
+
+    if (rows.length < MAX_RECORDS_PER_WORKFLOW) break
+    afterId = rows[rows.length - 1].id
+  }
+
+  return candidates
+}
+
+async function leadContext(workflow: Workflow, lead: LeadRow): Promise<TriggerContext> {
+  const contact = await fetchLeadPrimaryContact(lead.id)
+  return {
+    userId: workflow.user_id,
+    workspaceId: workflow.workspace_id,
+    lead,
+    contact: contact || undefined,
+  }
+}
+
+async function dealContext(workflow: Workflow, deal: DealRow): Promise<TriggerContext> {
+  const contact = deal.contact_id ? await fetchContact(deal.contact_id) : null
+  return {
+    userId: workflow.user_id,
+    workspaceId: workflow.workspace_id,
+    deal,
+    contact: contact || undefined,
+  }
+}
+
+/**
+ * Leads with no activity (or, if never active, no activity since creation) for N days
+ */
+async function findInactiveLeads(
+  supabase: AdminSupabaseClient,
+  workflow: Workflow,
+  now: Date
+): Promise<TriggerCandidate[]> {
+  const config = workflow.trigger_config as unknown as LeadInactiveTriggerConfig
+  if (!config.inactive_days || config.inactive_days < 1) return []
+
+  const cutoff = new Date(now.getTime() - config.inactive_days * DAY_MS).toISOString()
+
+  const buildQuery = () => {
+    const query = supabase
+      .from('leads')
+      .select(LEAD_COLUMNS)
+      .or(`last_activity_at.lt.${cutoff},and(last_activity_at.is.null,created_at.lt.${cutoff})`)
+
+    return workflow.workspace_id
+      ? query.eq('workspace_id', workflow.workspace_id)
+      : query.eq('user_id', workflow.user_id)
+  }
+
+  return collectUnenrolled<LeadRow>(supabase, workflow, 'lead', buildQuery, (lead) => ({
+    recordType: 'lead',
+    recordId: lead.id,
+    // New activity changes the key, so the lead can be enrolled again next time it goes quiet
+    enrollmentKey: `inactive:${lead.last_activity_at || lead.created_at}`,
+    buildContext: () => leadContext(workflow, lead),
+  }))
+}
+
+/**
+ * Open deals that have been in their current stage for N days
+ */
+async function findStaleDeals(
+  supabase: AdminSupabaseClient,
+  workflow: Workflow,
+  now: Date
+): Promise<TriggerCandidate[]> {
+  const config = workflow.trigger_config as unknown as DealStageStaleTriggerConfig
+  if (!config.stale_days || config.stale_days < 1) return []
+
+  const cutoff = new Date(now.getTime() - config.stale_days * DAY_MS).toISOString()
+
+  const buildQuery = () => {
+    let query = supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .eq('status', 'open')
+      .lt('stage_changed_at', cutoff)
+
+    if (config.stage_id) {
+      query = query.eq('stage_id', config.stage_id)
+    }
+
+    return workflow.workspace_id
+      ? query.eq('workspace_id', workflow.workspace_id)
+      : query.eq('profile_id', workflow.user_id)
+  }
+
+  return collectUnenrolled<DealRow>(supabase, workflow, 'deal', buildQuery, (deal) => ({
+    recordType: 'deal',
+    recordId: deal.id,
+    enrollmentKey: `stale:${deal.stage_id}:${deal.stage_changed_at}`,
+    buildContext: () => dealContext(workflow, deal),
+  }))
+}
+
+/**
+ * Incomplete lead tasks whose due date falls within the next N days
+ */
+async function findTasksDueSoon(
+  supabase: AdminSupabaseClient,
+  workflow: Workflow,
+  now: Date
+): Promise<TriggerCandidate[]> {
+  const config = workflow.trigger_config as unknown as TaskDueSoonTriggerConfig
+  const daysBefore = config.days_before ?? 1
+  if (daysBefore < 0) return []
+
+  const windowEnd = new Date(now.getTime() + daysBefore * DAY_MS).toISOString()
+
+  const buildQuery = () => {
+    const query = supabase
+      .from('lead_tasks')
+      .select(`id, lead_id, title, description, is_completed, due_date, lead:leads(${LEAD_COLUMNS})`)
+      .eq('is_completed', false)
+      .gte('due_date', now.toISOString())
+      .lte('due_date', windowEnd)
+
+    return workflow.workspace_id ? query.eq('workspace_id', workflow.workspace_id) : query
+  }
+
+  return collectUnenrolled<LeadTaskRow>(supabase, workflow, 'lead_task', buildQuery, (task) => {
+    // Unscoped workflows only see tasks on the owner's leads
+    if (!task.lead || (!workflow.workspace_id && task.lead.user_id !== workflow.user_id)) return null
+
+    return {
+      recordType: 'lead_task',
+      recordId: task.id,
+      enrollmentKey: `due:${task.due_date}`,
+      buildContext: async () => {
+        const { lead, ...leadTask } = task
+        return { ...(await leadContext(workflow, lead as LeadRow)), leadTask }
+      },
+    }
+  })
+}
+
+/**
+ * Calculate the next run of a scheduled workflow after the given time
+ */
+export function getNextScheduledRun(config: ScheduledTriggerConfig, after: Date): Date | null {
+  try {
+    return new Cron(config.cron_expression, { timezone: config.timezone || 'UTC' }).nextRun(after)
+  } catch (error) {
+    console.error('[Time Triggers] Invalid cron expression:', config.cron_expression, error)
+    return null
+  }
+}
+
+/**
+ * Leads or deals matching a scheduled workflow's filter, when its run is due
+ * A run with more matching records than one tick's cap continues on the next tick;
+ * next_run_at only advances once a tick finds the run's records exhausted
+ */
+async function findScheduledRecords(
+  supabase: AdminSupabaseClient,
+  workflow: Workflow,
+  now: Date
+): Promise<TriggerCandidate[]> {
+  const config = workflow.trigger_config as unknown as ScheduledTriggerConfig
+  if (!config.cron_expression) return []
+
+  const nextRun = getNextScheduledRun(config, now)
+
+  // First time we see this workflow: schedule its first run, don't run now
+  if (!workflow.next_run_at) {
+    await supabase
+      .from('workflows')
+      .update({ next_run_at: nextRun?.toISOString() ?? null })
+      .eq('id', workflow.id)
+    return []
+  }
+
+  if (new Date(workflow.next_run_at) > now) return []
+
+  const runKey = `scheduled:${workflow.next_run_at}`
+  const filter = config.filter || {}
+  const isDeal = config.record_type === 'deal'
+
+  const buildQuery = () => {
+    let query = supabase.from(isDeal ? 'deals' : 'leads').select(isDeal ? DEAL_COLUMNS : LEAD_COLUMNS)
+    if (filter.status) query = query.eq('status', filter.status)
+    if (filter.pipeline_id) query = query.eq('pipeline_id', filter.pipeline_id)
+    if (filter.stage_id) query = query.eq('stage_id', filter.stage_id)
+    return workflow.workspace_id
+      ? query.eq('workspace_id', workflow.workspace_id)
+      : query.eq(isDeal ? 'profile_id' : 'user_id', workflow.user_id)
+  }
+
+  const candidates = isDeal
+    ? await collectUnenrolled<DealRow>(supabase, workflow, 'deal', buildQuery, (deal) => ({
+      recordType: 'deal',
+      recordId: deal.id,
+      enrollmentKey: runKey,
+      buildContext: () => dealContext(workflow, deal),
+    }))
+    : await collectUnenrolled<LeadRow>(supabase, workflow, 'lead', buildQuery, (lead) => ({
+      recordType: 'lead',
+      recordId: lead.id,
+      enrollmentKey: runKey,
+      buildContext: () => leadContext(workflow, lead),
+    }))
+
+  if (candidates.length < MAX_RECORDS_PER_WORKFLOW) {
+    // Only the tick whose update matches the run we read may finish it; overlapping
+    // ticks that lose get nothing, as the winner's enrollments cover the same records
+    const { data: advanced, error: updateError } = await supabase
+      .from('workflows')
+      .update({ next_run_at: nextRun?.toISOString() ?? null })
+      .eq('id', workflow.id)
+      .eq('next_run_at', workflow.next_run_at)
+      .select('id')
+
+    if (updateError) throw new Error(`Failed to advance schedule: ${updateError.message}`)
+    if (!advanced || advanced.length === 0) return []
+  }
+
+  return candidates
+}
+
+const CANDIDATE_FINDERS: Record<
+  string,
+  (supabase: AdminSupabaseClient, workflow: Workflow, now: Date) => Promise<TriggerCandidate[]>
+> = {
+  lead_inactive: findInactiveLeads,
+  deal_stage_stale: findStaleDeals,
+  task_due_soon: findTasksDueSoon,
+  scheduled: findScheduledRecords,
+}
+
+/**
+ * Evaluate all active time-based workflows and start runs for matching records
+ * This should be called by a cron job (e.g., every 15 minutes)
+ */
+export async function processTimeBasedTriggers(now: Date = new Date()): Promise<ProcessResult> {
+  const supabase = createAdminClient()
+
+  const result: ProcessResult = {
+    workflows: 0,
+    enrolled: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  }
+
+  const { data: workflows, error: fetchError } = await supabase
+    .from('workflows')
+    .select(WORKFLOW_WITH_PUBLISHED_VERSION)
+    .eq('is_active', true)
+    .or(liveTriggerTypeFilter(TIME_BASED_TRIGGERS))
+
+  if (fetchError) {
+    console.error('[Time Triggers] Error fetching workflows:', fetchError)
+    result.errors.push(`Fetch error: ${fetchError.message}`)
+    return result
+  }
+
+  const timeWorkflows = ((workflows || []) as WorkflowWithPublishedVersion[])
+    .map(withPublishedVersion)
+    .filter((workflow) => TIME_BASED_TRIGGERS.includes(workflow.trigger_type))
+
+  if (timeWorkflows.length === 0) {
+    console.log('[Time Triggers] No time-based workflows to evaluate')
+    return result
+  }
+
+  for (const workflow of timeWorkflows) {
+    result.workflows++
+    const findCandidates = CANDIDATE_FINDERS[workflow.trigger_type]
+    if (!findCandidates) continue
+
+    try {
+      const candidates = await findCandidates(supabase, workflow, now)
+
+      for (const candidate of candidates) {
+        try {
+          const enrolled = await enrollRecord(supabase, workflow, candidate)
+          if (!enrolled) {
+            result.skipped++
+            continue
+          }
+
+          const triggerContext = await candidate.buildContext()
+          await runWorkflowForTrigger(workflow, workflow.trigger_type as TriggerType, triggerContext)
+          result.enrolled++
+        } catch (error) {
+          result.failed++
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+          result.errors.push(`Workflow ${workflow.id} / ${candidate.recordType} ${candidate.recordId}: ${errorMessage}`)
+        }
+      }
+    } catch (error) {
+      result.failed++
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      result.errors.push(`Workflow ${workflow.id}: ${errorMessage}`)
+      console.error(`[Time Triggers] Error evaluating workflow ${workflow.id}:`, error)
+    }
+  }
+
+  console.log(
+    `[Time Triggers] Finished. Workflows: ${result.workflows}, Enrolled: ${result.enrolled}, Skipped: ${result.skipped}, Failed: ${result.failed}`
+  )
+
+  return result
+}
@@ -0,0 +1,239 @@
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from './supabase-server'
+import { executeAgentTask, type AIProvider } from './agent-executor'
+import { resolveWorkspaceAgent } from './workspace-agent'
+import { mapToolNamesToCategories } from './agent-tool-mapping'
+import { checkAISpendBudget, recordAIUsage } from './ai-usage'
+import { renderWorkflowTemplate } from './workflow-template'
+import type { WorkflowContext, ExecutionResult } from './workflow-executor'
+import type { AskAgentActionConfig, AgentOutputField } from '@/types/workflow'
+
+// Context keys passed to the agent alongside the prompt
+const CONTEXT_KEYS = ['lead', 'contact', 'deal', 'call', 'message', 'activity', 'leadTask'] as const
+
+export interface AskAgentOutcome {
+  success: boolean
+  data?: Record<string, unknown>
+  error?: string
+}
+
+interface WorkflowAgent {
+  systemPrompt: string
+  tools: string[]         // Tool categories for buildAgentTools
+  provider: AIProvider
+  model?: string
+  stylePresets?: Record<string, unknown> | null
+  customInstructions?: string | null
+}
+
+/**
+ * Build the schema for the agent's structured answer
+ * Returns null when no output fields are configured, in which case the answer is free text
+ */
+export function buildAgentOutputSchema(fields: AgentOutputField[] | undefined) {
+  const configured = (fields || []).filter(f => f.key?.trim())
+  if (configured.length === 0) return null
+
+  const shape: Record<string, z.ZodType> = {}
+  for (const field of configured) {
+    let schema: z.ZodType
+    switch (field.type) {
+      case 'number':
+        schema = z.number()
+        break
+      case 'boolean':
+        schema = z.boolean()
+        break
+      case 'choice': {
+        const options = (field.options || []).filter(Boolean)
+        schema = options.length > 0 ? z.enum(options as [string, ...string[]]) : z.string()
+        break
+      }
+      default:
+        schema = z.string()
+    }
+    shape[field.key.trim()] = field.description ? schema.describe(field.description) : schema
+  }
+
+  return z.object(shape)
+}
+
+/**
+ * Render the step's prompt and append the trigger record so the agent doesn't have to look it up
+ */
+export function buildAskAgentPrompt(
+  config: AskAgentActionConfig,
+  context: WorkflowContext,
+  previousResults: ExecutionResult[] = [],
+  transcript?: string | null
+): string {
+  const sections = [renderWorkflowTemplate(config.prompt, context, 'text', previousResults)]
+
+  const record: Record<string, unknown> = {}
+  for (const key of CONTEXT_KEYS) {
+    if (context[key]) record[key] = context[key]
+  }
+  if (Object.keys(record).length > 0) {
+    sections.push(`## Workflow Record\n\n\`\`\`json\n${JSON.stringify(record, null, 2)}\n\`\`\``)
+  }
+
+  if (transcript) {
+    sections.push(`## Call Transcript\n\n${transcript}`)
+  }
+
+  if (buildAgentOutputSchema(config.output_fields)) {
+    sections.push('Answer by filling in every requested field. Base each value on the record and your tool results only.')
+  }
+
+  return sections.join('\n\n---\n\n')
+}
+
+/**
+ * Resolve the agent's prompt, model and tool assignments for the workspace
+ * Deployed teams take their tools from ai_agent_tools; legacy hired agents store them locally
+ */
+async function loadWorkflowAgent(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  aiAgentId: string
+): Promise<{ agent: WorkflowAgent | null; error?: string }> {
+  const resolved = await resolveWorkspaceAgent({ workspaceId, aiAgentId, supabase })
+  if (!resolved.isEnabled) {
+    return { agent: null, error: resolved.error || 'Agent is not available in this workspace' }
+  }
+
+  const { data: aiAgent } = await supabase
+    .from('ai_agents')
+    .select('system_prompt, provider, model')
+    .eq('id', aiAgentId)
+    .maybeSingle()
+
+  if (resolved.source === 'deployment' && resolved.deploymentAgent) {
+    const { data: toolRows } = await supabase
+      .from('ai_agent_tools')
+      .select('tool:agent_tools(name)')
+      .eq('agent_id', aiAgentId)
+
+    const toolNames = (toolRows || [])
+      .map(row => (row as { tool?: { name?: string | null } | null }).tool?.name)
+      .filter((name): name is string => !!name)
+
+    return {
+      agent: {
+        systemPrompt: resolved.deploymentAgent.system_prompt || aiAgent?.system_prompt || 'You are a helpful AI assistant.',
+        tools: mapToolNamesToCategories(toolNames),
+        provider: (resolved.deploymentAgent.provider || aiAgent?.provider || 'anthropic') as AIProvider,
+        model: resolved.deploymentAgent.model || aiAgent?.model || undefined,
+      },
+    }
+  }
+
+  const legacy = resolved.legacyAgent
+  if (!legacy) {
+    return { agent: null, error: 'Agent not found in workspace' }
+  }
+
+  return {
+    agent: {
+      systemPrompt: legacy.system_prompt || aiAgent?.system_prompt || 'You are a helpful AI assistant.',
+      tools: legacy.tools || [],
+      provider: (aiAgent?.provider || 'anthropic') as AIProvider,
+      model: aiAgent?.model || undefined,
+      stylePresets: legacy.style_presets,
+      customInstructions: legacy.custom_instructions,
+    },
+  }
+}
+
+/**
+ * Fetch the completed transcription for a call, if there is one
+ */
+async function fetchCallTranscript(supabase: SupabaseClient, communicationId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('call_recordings')
+    .select('transcription')
+    .eq('communication_id', communicationId)
+    .eq('transcription_status', 'completed')
+    .limit(1)
+    .maybeSingle()
+
+  return data?.transcription || null
+}
+
+/**
+ * Run an ask_agent step: send the prompt and trigger record to a workspace agent,
+ * wait for its answer and record what it cost. Refused while a hard spend limit is reached
+ */
+export async function executeAskAgent(
+  config: AskAgentActionConfig,
+  context: WorkflowContext,
+  workflowId: string,
+  previousResults: ExecutionResult[] = []
+): Promise<AskAgentOutcome> {
+  if (!config.agent_id) {
+    return { success: false, error: 'No agent selected' }
+  }
+  if (!config.prompt?.trim()) {
+    return { success: false, error: 'No prompt configured' }
+  }
+  if (!context.workspaceId) {
+    return { success: false, error: 'Workflow has no workspace to run the agent in' }
+  }
+
+  // Workflow agent steps count towards the workspace's AI spend like any other agent run
+  const budget = await checkAISpendBudget(context.workspaceId, config.agent_id)
+  if (!budget.allowed) {
+    return { success: false, error: budget.message }
+  }
+
+  const supabase = createAdminClient()
+
+  const { agent, error } = await loadWorkflowAgent(supabase, context.workspaceId, config.agent_id)
+  if (!agent) {
+    return { success: false, error }
+  }
+
+  const transcript = config.include_transcript && context.call
+    ? await fetchCallTranscript(supabase, context.call.id)
+    : null
+  const outputSchema = buildAgentOutputSchema(config.output_fields)
+
+  const result = await executeAgentTask({
+    taskPrompt: buildAskAgentPrompt(config, context, previousResults, transcript),
+    systemPrompt: agent.systemPrompt,
+    tools: agent.tools,
+    workspaceId: context.workspaceId,
+    supabase,
+    provider: agent.provider,
+    model: agent.model,
+    stylePresets: agent.stylePresets,
+    customInstructions: agent.customInstructions,
+    outputSchema: outputSchema ?? undefined,
+  })
+
+  await recordAIUsage({
+    workspaceId: context.workspaceId,
+    source: 'workflow',
+    sourceId: workflowId,
+    agentId: config.agent_id,
+    provider: agent.provider,
+    model: result.model,
+    tokensInput: result.usage.promptTokens,
+    tokensOutput: result.usage.completionTokens,
+    metadata: { action_type: 'ask_agent', tool_calls: result.toolCalls.length },
+  })
+
+  const answer = outputSchema
+    ? (result.output as Record<string, unknown> | undefined) || {}
+    : { answer: result.text }
+
+  return {
+    success: true,
+    data: {
+      ...answer,
+      tokens_input: result.usage.promptTokens,
+      tokens_output: result.usage.completionTokens,
+    },
+  }
+}
@@ -1,4 +1,5 @@
-import type { WorkflowCondition, ConditionOperator } from '@/types/workflow'
+import type { WorkflowCondition, ConditionOperator, ConditionNode } from '@/types/workflow'
+import { isConditionGroup } from '@/types/workflow'
 import type { WorkflowContext, ExecutionResult } from './workflow-executor'
 
 /**
@@ -102,26 +103,167 @@ function isEmpty(value: unknown): boolean {
   return false
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Limits on user-supplied patterns and the values they're tested against. Length alone
+// doesn't stop catastrophic backtracking - see hasNestedQuantifier - but the input cap
+// keeps the polynomial worst cases that remain (e.g. `.*.*x`) short
+const MAX_REGEX_LENGTH = 200
+const MAX_REGEX_INPUT_LENGTH = 1000
+
+/**
+ * Whether a pattern repeats a group that itself contains a quantifier or alternation,
+ * like `(a+)+` or `(a|ab)*`. Those are what make backtracking exponential, so such
+ * patterns are refused rather than run
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // One entry per open group: whether its contents are quantified or alternated
+  const groups: boolean[] = []
+  let closedGroupIsRisky = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    const afterGroup = closedGroupIsRisky
+    closedGroupIsRisky = false
+
+    if (char === '\\') {
+      i++
+    } else if (char === '[') {
+      // Skip the character class; quantifier characters inside it are literals
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++
+      }
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      closedGroupIsRisky = groups.pop() ?? false
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1] = true
+    } else if (char === '*' || char === '+' || char === '{') {
+      if (afterGroup) return true
+      if (groups.length > 0) groups[groups.length - 1] = true
+    }
+
+    // A risky group stays risky inside the group around it
+    if (char === ')' && closedGroupIsRisky && groups.length > 0) {
+      groups[groups.length - 1] = true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Convert a value to a Date for date comparisons
+ * Accepts Date objects, ISO strings and epoch milliseconds
+ */
+function toDateValue(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Split a comma- or newline-separated list value into trimmed entries
+ */
+function toListValues(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map(v => v.trim())
+    .filter(v => v !== '')
+}
+
+/**
+ * Check whether a value lies within an inclusive range
+ * Numeric when both bounds and the value are numbers, otherwise compared as dates
+ */
+function isBetween(actualValue: unknown, from: string, to: string): boolean {
+  const actualNum = toNumberValue(actualValue)
+  const fromNum = toNumberValue(from)
+  const toNum = toNumberValue(to)
+  if (actualNum !== null && fromNum !== null && toNum !== null) {
+    return actualNum >= fromNum && actualNum <= toNum
+  }
+
+  const actualDate = toDateValue(actualValue)
+  const fromDate = toDateValue(from)
+  const toDate = toDateValue(to)
+  if (!actualDate || !fromDate || !toDate) {
+    return false
+  }
+  return actualDate >= fromDate && actualDate <= toDate
+}
+
+export interface ApplyOperatorOptions {
+  valueTo?: string          // Upper bound for "between"
+  caseSensitive?: boolean   // Text comparisons ignore case unless set
+  now?: Date                // Reference time for relative date operators
+}
+
 /**
  * Apply a comparison operator to actual and expected values
  */
 export function applyOperator(
   actualValue: unknown,
   operator: ConditionOperator,
-  expectedValue: string
+  expectedValue: string,
+  options: ApplyOperatorOptions = {}
 ): boolean {
+  const normalize = (value: string) => (options.caseSensitive ? value : value.toLowerCase())
+
   switch (operator) {
     case 'equals':
-      return toStringValue(actualValue).toLowerCase() === expectedValue.toLowerCase()
+      return normalize(toStringValue(actualValue)) === normalize(expectedValue)
 
     case 'not_equals':
-      return toStringValue(actualValue).toLowerCase() !== expectedValue.toLowerCase()
+      return normalize(toStringValue(actualValue)) !== normalize(expectedValue)
 
     case 'contains':
-      return toStringValue(actualValue).toLowerCase().includes(expectedValue.toLowerCase())
+      return normalize(toStringValue(actualValue)).includes(normalize(expectedValue))
 
     case 'starts_with':
-      return toStringValue(actualValue).toLowerCase().startsWith(expectedValue.toLowerCase())
+      return normalize(toStringValue(actualValue)).startsWith(normalize(expectedValue))
+
+    case 'ends_with':
+      return normalize(toStringValue(actualValue)).endsWith(normalize(expectedValue))
+
+    case 'matches_regex': {
+      if (!expectedValue || expectedValue.length > MAX_REGEX_LENGTH) {
+        return false
+      }
+      if (hasNestedQuantifier(expectedValue)) {
+        console.warn('Condition regex refused, nested quantifiers can backtrack exponentially:', expectedValue)
+        return false
+      }
+      const value = toStringValue(actualValue)
+      if (value.length > MAX_REGEX_INPUT_LENGTH) {
+        return false
+      }
+      try {
+        const pattern = new RegExp(expectedValue, options.caseSensitive ? '' : 'i')
+        return pattern.test(value)
+      } catch {
+        console.warn('Invalid condition regex:', expectedValue)
+        return false
+      }
+    }
+
+    case 'in_list':
+    case 'not_in_list': {
+      const list = toListValues(expectedValue).map(normalize)
+      // Array fields (e.g. tags) match when any element is in the list
+      const actualValues = Array.isArray(actualValue) ? actualValue : [actualValue]
+      const found = actualValues.some(v => list.includes(normalize(toStringValue(v))))
+      return operator === 'in_list' ? found : !found
+    }
 
     case 'greater_than': {
       const actualNum = toNumberValue(actualValue)
@@ -141,6 +283,37 @@ export function applyOperator(
       return actualNum < expectedNum
     }
 
+    case 'between':
+      if (!options.valueTo) {
+        return false
+      }
+      return isBetween(actualValue, expectedValue, options.valueTo)
+
+    case 'is_before':
+    case 'is_after': {
+      const actualDate = toDateValue(actualValue)
+      const expectedDate = toDateValue(expectedValue)
+      if (!actualDate || !expectedDate) {
+        return false
+      }
+      return operator === 'is_before' ? actualDate < expectedDate : actualDate > expectedDate
+    }
+
+    case 'within_last_days':
+    case 'more_than_days_ago': {
+      const actualDate = toDateValue(actualValue)
+      const days = toNumberValue(expectedValue)
+      if (!actualDate || days === null || days < 0) {
+        return false
+      }
+      const now = options.now || new Date()
+      const cutoff = now.getTime() - days * DAY_MS
+      if (operator === 'within_last_days') {
+        return actualDate.getTime() >= cutoff && actualDate.getTime() <= now.getTime()
+      }
+      return actualDate.getTime() < cutoff
+    }
+
     case 'is_empty':
       return isEmpty(actualValue)
 
@@ -170,5 +343,47 @@ export function evaluateCondition(
   const actualValue = getFieldValue(condition, context, previousResults)
 
   // Apply the operator
-  return applyOperator(actualValue, condition.operator, condition.value || '')
+  return applyOperator(actualValue, condition.operator, condition.value || '', {
+    valueTo: condition.value_to,
+    caseSensitive: condition.case_sensitive,
+  })
+}
+
+/**
+ * Check whether a condition node is fully configured.
+ * A group is configured when it has at least one member and every member is configured.
+ */
+export function isConditionNodeConfigured(node: ConditionNode | null | undefined): boolean {
+  if (!node) return false
+  if (isConditionGroup(node)) {
+    return node.conditions.length > 0 && node.conditions.every(isConditionNodeConfigured)
+  }
+  return Boolean(node.field_source && node.field_path && node.operator)
+}
+
+/**
+ * Evaluate a condition node (single condition or nested group)
+ * Groups use all (AND) / any (OR) semantics and may be negated (NOT).
+ * An empty group evaluates to false.
+ */
+export function evaluateConditionNode(
+  node: ConditionNode,
+  context: WorkflowContext,
+  previousResults: ExecutionResult[]
+): boolean {
+  if (!isConditionGroup(node)) {
+    return evaluateCondition(node, context, previousResults)
+  }
+
+  if (node.conditions.length === 0) {
+    console.warn('Invalid condition group: no conditions', node)
+    return false
+  }
+
+  const evaluate = (child: ConditionNode) => evaluateConditionNode(child, context, previousResults)
+  const result = node.match === 'any'
+    ? node.conditions.some(evaluate)
+    : node.conditions.every(evaluate)
+
+  return node.negate ? !result : result
 }
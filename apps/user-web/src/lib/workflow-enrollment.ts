@@ -0,0 +1,147 @@
+import { createAdminClient } from './supabase-server'
+import { isConditionNodeConfigured } from './workflow-condition-evaluator'
+import type { WorkflowContext } from './workflow-executor'
+import type { WorkflowConditionGroup, WorkflowEnrollmentSettings } from '@/types/workflow'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface EnrollmentRecord {
+  key: 'dealId' | 'leadId' | 'contactId'  // trigger_context key the record is stored under
+  id: string
+}
+
+/**
+ * Pick the record a run is enrolled for: the deal for deal triggers, otherwise the lead, then the contact
+ */
+export function getEnrollmentRecord(context: WorkflowContext): EnrollmentRecord | null {
+  if (context.dealId) return { key: 'dealId', id: context.dealId }
+  if (context.leadId) return { key: 'leadId', id: context.leadId }
+  if (context.contactId) return { key: 'contactId', id: context.contactId }
+  return null
+}
+
+/**
+ * Decide whether a record may enter a workflow again, given when its last run started
+ */
+export function isReEntryAllowed(
+  settings: WorkflowEnrollmentSettings | null | undefined,
+  lastRunStartedAt: string | null,
+  now: Date = new Date()
+): boolean {
+  const policy = settings?.re_entry || 'always'
+  if (policy === 'always' || !lastRunStartedAt) return true
+  if (policy === 'never') return false
+
+  const days = settings?.re_entry_days || 0
+  return now.getTime() - new Date(lastRunStartedAt).getTime() >= days * DAY_MS
+}
+
+/**
+ * Return the goal/exit condition group only when it has at least one complete condition
+ */
+export function getActiveConditionGroup(
+  group: WorkflowConditionGroup | null | undefined
+): WorkflowConditionGroup | undefined {
+  if (!group || group.conditions.length === 0) return undefined
+  return isConditionNodeConfigured(group) ? group : undefined
+}
+
+/**
+ * Check the workflow's re-entry rule against its run history for the enrolled record
+ */
+export async function checkReEntry(
+  workflowId: string,
+  settings: WorkflowEnrollmentSettings | null | undefined,
+  context: WorkflowContext,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (!settings?.re_entry || settings.re_entry === 'always') return true
+
+  const record = getEnrollmentRecord(context)
+  if (!record) return true
+
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('workflow_executions')
+    .select('started_at')
+    .eq('workflow_id', workflowId)
+    .eq(`trigger_context->>${record.key}`, record.id)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    // Fail open - a missed dedupe is better than silently dropping the run
+    console.error('[Workflows] Error checking re-entry:', error)
+    return true
+  }
+
+  return isReEntryAllowed(settings, data?.started_at ?? null, now)
+}
+
+/**
+ * Fetch a workflow's enrollment settings, from a specific published version when given
+ */
+export async function fetchEnrollmentSettings(
+  workflowId: string,
+  versionId?: string | null
+): Promise<WorkflowEnrollmentSettings> {
+  const supabase = createAdminClient()
+
+  const { data, error } = versionId
+    ? await supabase
+        .from('workflow_versions')
+        .select('enrollment_settings')
+        .eq('id', versionId)
+        .single()
+    : await supabase
+        .from('workflows')
+        .select('enrollment_settings')
+        .eq('id', workflowId)
+        .single()
+
+  if (error || !data) {
+    return {}
+  }
+
+  return (data.enrollment_settings || {}) as WorkflowEnrollmentSettings
+}
+
+/**
+ * Reload the lead, deal and contact in a saved context
+ * The context stored with a paused run is a snapshot from trigger time, so goal and
+ * exit criteria need the current state (e.g. the deal has since been won)
+ */
+export async function refreshWorkflowContext(context: WorkflowContext): Promise<WorkflowContext> {
+  const supabase = createAdminClient()
+  const refreshed: WorkflowContext = { ...context }
+
+  if (context.leadId) {
+    const { data } = await supabase
+      .from('leads')
+      .select('id, name, status, notes, created_at')
+      .eq('id', context.leadId)
+      .single()
+    if (data) refreshed.lead = data
+  }
+
+  if (context.dealId) {
+    const { data } = await supabase
+      .from('deals')
+      .select('id, name, status, stage_id')
+      .eq('id', context.dealId)
+      .single()
+    if (data) refreshed.deal = data
+  }
+
+  if (context.contactId) {
+    const { data } = await supabase
+      .from('contacts')
+      .select('id, first_name, last_name, email, phone')
+      .eq('id', context.contactId)
+      .single()
+    if (data) refreshed.contact = data
+  }
+
+  return refreshed
+}
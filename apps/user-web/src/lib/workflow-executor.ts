@@ -2,8 +2,27 @@ import { formatE164, getTwilioPhoneNumber } from './twilio'
 import { sendSMSWithCredits } from './sms-with-credits'
 import { sendEmail as sendNylasEmail, isNylasConfigured } from './nylas'
 import { createAdminClient } from './supabase-server'
-import type { WorkflowAction, ActionType, TriggerType, ConditionActionConfig } from '@/types/workflow'
-import { evaluateCondition } from './workflow-condition-evaluator'
+import type {
+  WorkflowAction,
+  ActionType,
+  TriggerType,
+  ConditionActionConfig,
+  WorkflowConditionGroup,
+  WorkflowEnrollmentSettings,
+  ExecutionExitReason,
+  HttpRequestActionConfig,
+  AskAgentActionConfig,
+} from '@/types/workflow'
+import { isConditionGroup } from '@/types/workflow'
+import { evaluateConditionNode, isConditionNodeConfigured } from './workflow-condition-evaluator'
+import {
+  checkReEntry,
+  fetchEnrollmentSettings,
+  getActiveConditionGroup,
+  refreshWorkflowContext,
+} from './workflow-enrollment'
+import { executeHttpRequest, previewHttpRequest } from './workflow-http-request'
+import { executeAskAgent, buildAskAgentPrompt } from './workflow-agent-step'
 
 function isConditionActionConfig(config: Record<string, unknown>): boolean {
   return (
@@ -24,6 +43,7 @@ export interface WorkflowContext {
     name: string
     status?: string
     notes?: string
+    created_at?: string
   }
   contact?: {
     id: string
@@ -48,6 +68,7 @@ export interface WorkflowContext {
     id: string
     title: string
     is_completed: boolean
+    due_date?: string
   }
   call?: {
     id: string
@@ -59,6 +80,14 @@ export interface WorkflowContext {
     duration_seconds?: number
     recording_url?: string
   }
+  message?: {
+    id: string
+    channel: 'sms' | 'email'
+    from: string
+    to: string
+    body: string
+    subject?: string
+  }
   customFieldValues?: Record<string, string>  // field_id -> value for custom fields
 }
 
@@ -252,7 +281,8 @@ async function createExecutionRecord(
   workflowId: string,
   userId: string,
   triggerType: TriggerType,
-  context: WorkflowContext
+  context: WorkflowContext,
+  versionId?: string | null
 ): Promise<string | null> {
   const supabase = createAdminClient()
 
@@ -260,6 +290,7 @@ async function createExecutionRecord(
     .from('workflow_executions')
     .insert({
       workflow_id: workflowId,
+      workflow_version_id: versionId || null,
       user_id: userId,
       workspace_id: context.workspaceId || null,
       trigger_type: triggerType,
@@ -292,7 +323,8 @@ async function updateExecutionRecord(
   executionId: string,
   status: 'completed' | 'failed' | 'paused' | 'running',
   results: ExecutionResult[],
-  errorMessage?: string
+  errorMessage?: string,
+  exitReason?: ExecutionExitReason
 ): Promise<void> {
   const supabase = createAdminClient()
 
@@ -303,6 +335,7 @@ async function updateExecutionRecord(
       completed_at: status !== 'paused' ? new Date().toISOString() : null,
       action_results: results,
       error_message: errorMessage,
+      ...(exitReason ? { exit_reason: exitReason } : {}),
     })
     .eq('id', executionId)
 }
@@ -313,7 +346,8 @@ async function updateExecutionRecord(
 export async function executeWorkflowAction(
   action: WorkflowAction,
   context: WorkflowContext,
-  workflowId: string
+  workflowId: string,
+  previousResults: ExecutionResult[] = []
 ): Promise<ExecutionResult> {
   const config = action.config as ActionConfig
   const supabase = createAdminClient()
@@ -1485,6 +1519,46 @@ export async function executeWorkflowAction(
         }
       }
 
+      case 'http_request': {
+        // Config is validated by executeHttpRequest - the shape is set by the config panel
+        const outcome = await executeHttpRequest(
+          action.config as unknown as HttpRequestActionConfig,
+          context,
+          previousResults
+        )
+
+        if (!outcome.success) {
+          console.warn(`[Workflows] HTTP request failed in workflow ${workflowId}: ${outcome.error}`)
+        }
+
+        return {
+          success: outcome.success,
+          actionType: action.type,
+          actionId: action.id,
+          error: outcome.error,
+          data: outcome.data,
+          executedAt,
+        }
+      }
+
+      case 'ask_agent': {
+        const outcome = await executeAskAgent(
+          action.config as unknown as AskAgentActionConfig,
+          context,
+          workflowId,
+          previousResults
+        )
+
+        return {
+          success: outcome.success,
+          actionType: action.type,
+          actionId: action.id,
+          error: outcome.error,
+          data: outcome.data,
+          executedAt,
+        }
+      }
+
       default:
         return {
           success: false,
@@ -1506,6 +1580,202 @@ export async function executeWorkflowAction(
   }
 }
 
+/**
+ * Work out what a single workflow action would do, without sending messages or changing CRM records
+ * Used for test runs - templates are filled in and required values checked exactly as a real run would
+ */
+export async function previewWorkflowAction(
+  action: WorkflowAction,
+  context: WorkflowContext,
+  previousResults: ExecutionResult[] = []
+): Promise<ExecutionResult> {
+  const config = action.config as ActionConfig
+  const executedAt = new Date().toISOString()
+
+  const wouldRun = (data: Record<string, unknown>): ExecutionResult => ({
+    success: true,
+    actionType: action.type,
+    actionId: action.id,
+    data: { dry_run: true, ...data },
+    executedAt,
+  })
+  const wouldFail = (error: string): ExecutionResult => ({
+    success: false,
+    actionType: action.type,
+    actionId: action.id,
+    error,
+    data: { dry_run: true },
+    executedAt,
+  })
+
+  try {
+    switch (action.type) {
+      case 'send_sms': {
+        const phone = getPhoneNumber(config, context)
+        if (!phone) return wouldFail('No phone number available for SMS')
+
+        const message = replaceTemplateVariables(config.message || '', context)
+        if (!message) return wouldFail('No message content provided')
+
+        return wouldRun({ to: formatE164(phone), message })
+      }
+
+      case 'send_email': {
+        const recipientEmail = config.email_to === 'custom' && config.custom_email
+          ? config.custom_email
+          : context.contact?.email || null
+        if (!recipientEmail) return wouldFail('No recipient email available')
+
+        const subject = replaceTemplateVariables(config.subject || config.email_subject || '', context)
+        const body = replaceTemplateVariables(config.body || config.email_body || '', context)
+        if (!subject || !body) return wouldFail('Email subject and body are required')
+
+        return wouldRun({
+          to: recipientEmail,
+          cc: config.email_cc || null,
+          bcc: config.email_bcc || null,
+          subject,
+          body,
+        })
+      }
+
+      case 'update_status': {
+        const newStatus = config.status || config.new_status
+        if (!newStatus) return wouldFail('No new status specified')
+        if (context.leadId) return wouldRun({ leadId: context.leadId, newStatus })
+        if (context.dealId) return wouldRun({ dealId: context.dealId, newStatus })
+        return wouldFail('No lead or deal to update status for')
+      }
+
+      case 'add_note': {
+        const note = replaceTemplateVariables(config.note || config.note_content || '', context)
+        if (!note) return wouldFail('No note content provided')
+        if (!context.contactId && !context.leadId) return wouldFail('No contact found to add note to')
+        return wouldRun({ note, contactId: context.contactId || null, leadId: context.leadId || null })
+      }
+
+      case 'create_task': {
+        const title = replaceTemplateVariables(config.title || config.task_title || '', context)
+        const description = replaceTemplateVariables(config.description || config.task_description || '', context)
+        if (!title) return wouldFail('No task title provided')
+        if (!context.leadId) return wouldFail('No lead to create task for')
+        return wouldRun({ leadId: context.leadId, title, description: description || null, dueDays: config.due_days || null })
+      }
+
+      case 'assign_user': {
+        if (!context.leadId) return wouldFail('No lead to assign')
+        if (config.assignment_type !== 'specific') {
+          return wouldFail(`Assignment type "${config.assignment_type}" is not yet implemented. Use "specific" with an assigned_user_id.`)
+        }
+        if (!config.assigned_user_id) return wouldFail('No assigned_user_id provided for specific assignment')
+        return wouldRun({ leadId: context.leadId, assignedTo: config.assigned_user_id })
+      }
+
+      case 'send_notification': {
+        const title = replaceTemplateVariables(config.title || config.notification_title || '', context)
+        const message = replaceTemplateVariables(config.message || config.notification_message || '', context)
+        if (!title || !message) return wouldFail('Notification title and message are required')
+        return wouldRun({ title, message })
+      }
+
+      case 'move_lead_stage':
+      case 'move_deal_stage': {
+        if (!context.leadId) return wouldFail('No lead found in workflow context')
+        if (!config.pipeline_id || !config.stage_id) return wouldFail('Pipeline and stage are required')
+        return wouldRun({
+          leadId: context.leadId,
+          pipelineId: config.pipeline_id,
+          stageId: config.stage_id,
+          stageName: config.stage_name || null,
+        })
+      }
+
+      case 'create_deal': {
+        if (!context.leadId) return wouldFail('No lead found to create opportunity for')
+        return wouldRun({
+          leadId: context.leadId,
+          name: replaceTemplateVariables(config.name || 'New Opportunity', context),
+          value: config.value ?? null,
+          pipelineId: config.pipeline_id || null,
+          stageId: config.stage_id || null,
+        })
+      }
+
+      case 'update_deal':
+      case 'close_deal': {
+        // Looking up the opportunity is read-only, so test runs resolve it the same way
+        const opportunityId = await resolveOpportunityId(config, context)
+        if (!opportunityId) {
+          return wouldFail(action.type === 'close_deal' ? 'No opportunity found to close' : 'No opportunity found to update')
+        }
+        if (action.type === 'close_deal') {
+          if (!config.outcome) return wouldFail('Outcome (won/lost) is required')
+          return wouldRun({ opportunityId, outcome: config.outcome, closeReason: config.close_reason || null })
+        }
+        return wouldRun({
+          opportunityId,
+          value: config.value ?? null,
+          probability: config.probability ?? null,
+          notes: config.notes || null,
+          notesMode: config.notes ? config.notes_mode || 'append' : null,
+        })
+      }
+
+      case 'add_tag': {
+        if (!context.leadId) return wouldFail('No lead to add tags to')
+        if (!config.tags || config.tags.length === 0) return wouldFail('No tags specified')
+        return wouldRun({ leadId: context.leadId, tags: config.tags.map(t => t.name) })
+      }
+
+      case 'remove_tag': {
+        if (!context.leadId) return wouldFail('No lead to remove tags from')
+        if (config.remove_all) return wouldRun({ leadId: context.leadId, removedAll: true })
+        if (!config.tags || config.tags.length === 0) return wouldFail('No tags specified to remove')
+        return wouldRun({ leadId: context.leadId, tags: config.tags.map(t => t.name) })
+      }
+
+      case 'log_activity': {
+        const activityType = config.activity_type || 'note'
+        if (!context.contactId && !context.leadId) return wouldFail('No contact found to log activity for')
+        return wouldRun({
+          activityType,
+          subject: replaceTemplateVariables(config.activity_subject || `Workflow ${activityType}`, context),
+          description: config.activity_description
+            ? replaceTemplateVariables(config.activity_description, context)
+            : null,
+          completed: config.activity_completed !== false,
+        })
+      }
+
+      case 'http_request': {
+        const outcome = previewHttpRequest(
+          action.config as unknown as HttpRequestActionConfig,
+          context,
+          previousResults
+        )
+        return outcome.success ? wouldRun(outcome.data || {}) : wouldFail(outcome.error || 'Invalid request')
+      }
+
+      case 'ask_agent': {
+        const agentConfig = action.config as unknown as AskAgentActionConfig
+        if (!agentConfig.agent_id) return wouldFail('No agent selected')
+        if (!agentConfig.prompt?.trim()) return wouldFail('No prompt configured')
+        return wouldRun({
+          agent: agentConfig.agent_name || agentConfig.agent_id,
+          prompt: buildAskAgentPrompt(agentConfig, context, previousResults),
+          includeTranscript: !!agentConfig.include_transcript,
+          outputFields: (agentConfig.output_fields || []).map(f => f.key).filter(Boolean),
+        })
+      }
+
+      default:
+        return wouldFail(`Unknown action type: ${action.type}`)
+    }
+  } catch (error) {
+    return wouldFail(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
 /**
  * Calculate scheduled time for a wait action
  */
@@ -1558,13 +1828,15 @@ async function createScheduledAction(
 
 /**
  * Helper to execute actions recursively, handling conditions
- * Returns { results, paused, remainingActions } where paused is true if a wait was encountered
+ * Returns { results, paused, remainingActions } where paused is true if a wait was encountered,
+ * or { results, exitReason } when the workflow goal was met before the next step
  */
 interface ExecuteActionsResult {
   results: ExecutionResult[]
   paused: boolean
   remainingActions?: WorkflowAction[]
   scheduledTime?: Date
+  exitReason?: ExecutionExitReason
 }
 
 async function executeActionsRecursive(
@@ -1573,15 +1845,31 @@ async function executeActionsRecursive(
   workflowId: string,
   previousResults: ExecutionResult[],
   executionId: string | null,
-  updateProgress: (results: ExecutionResult[]) => Promise<void>
+  updateProgress: (results: ExecutionResult[]) => Promise<void>,
+  goal?: WorkflowConditionGroup,
+  dryRun = false
 ): Promise<ExecuteActionsResult> {
   const results: ExecutionResult[] = [...previousResults]
   const sortedActions = [...actions].sort((a, b) => a.order - b.order)
+  // Set once a step may have changed the lead, deal or contact since context was loaded
+  let recordMayHaveChanged = false
 
   for (let i = 0; i < sortedActions.length; i++) {
     const action = sortedActions[i]
     const executedAt = new Date().toISOString()
 
+    // Stop as soon as the workflow goal is met - the remaining steps are no longer needed.
+    // Earlier steps in this run (e.g. an update to the deal) can meet it, so reload the record first
+    if (goal) {
+      if (recordMayHaveChanged && !dryRun) {
+        context = await refreshWorkflowContext(context)
+        recordMayHaveChanged = false
+      }
+      if (evaluateConditionNode(goal, context, results)) {
+        return { results, paused: false, exitReason: 'goal_met' }
+      }
+    }
+
     // Handle wait actions - pause execution
     if (action.type === 'wait') {
       const config = action.config as ActionConfig
@@ -1595,10 +1883,14 @@ async function executeActionsRecursive(
           scheduledFor: scheduledTime.toISOString(),
           duration: config.wait_duration,
           unit: config.wait_unit,
+          ...(dryRun ? { dry_run: true } : {}),
         },
         executedAt,
       })
 
+      // Test runs don't pause - record the wait and carry on with the next step
+      if (dryRun) continue
+
       const remainingActions = sortedActions.slice(i + 1)
       return {
         results,
@@ -1624,8 +1916,8 @@ async function executeActionsRecursive(
       // Safe to cast — shape validated by isConditionActionConfig above
       const condConfig = action.config as unknown as ConditionActionConfig
 
-      // Validate condition is configured
-      if (!condConfig.condition?.field_path || !condConfig.condition?.operator) {
+      // Validate condition is configured (every condition in a group must be complete)
+      if (!isConditionNodeConfigured(condConfig.condition)) {
         results.push({
           success: false,
           actionType: action.type,
@@ -1636,8 +1928,8 @@ async function executeActionsRecursive(
         continue
       }
 
-      // Evaluate the condition
-      const conditionMet = evaluateCondition(condConfig.condition, context, results)
+      // Evaluate the condition (single condition or nested group)
+      const conditionMet = evaluateConditionNode(condConfig.condition, context, results)
 
       // Record the condition evaluation result
       results.push({
@@ -1645,10 +1937,22 @@ async function executeActionsRecursive(
         actionType: action.type,
         actionId: action.id,
         data: {
-          conditionMet,
-          field: condConfig.condition.field_path,
-          operator: condConfig.condition.operator,
-          expectedValue: condConfig.condition.value,
+          ...(isConditionGroup(condConfig.condition)
+            ? {
+                conditionMet,
+                branch: conditionMet ? 'if' : 'else',
+                match: condConfig.condition.match,
+                negate: condConfig.condition.negate || false,
+                conditionCount: condConfig.condition.conditions.length,
+              }
+            : {
+                conditionMet,
+                branch: conditionMet ? 'if' : 'else',
+                field: condConfig.condition.field_path,
+                operator: condConfig.condition.operator,
+                expectedValue: condConfig.condition.value,
+              }),
+          ...(dryRun ? { dry_run: true } : {}),
         },
         executedAt,
       })
@@ -1667,9 +1971,15 @@ async function executeActionsRecursive(
           workflowId,
           results,
           executionId,
-          updateProgress
+          updateProgress,
+          goal,
+          dryRun
         )
 
+        if (branchResult.exitReason) {
+          return branchResult
+        }
+
         // If branch paused on a wait, we need to handle that
         if (branchResult.paused) {
           // The remaining branch actions plus remaining top-level actions
@@ -1687,14 +1997,18 @@ async function executeActionsRecursive(
         // so this avoids double-counting earlier actions.
         results.length = 0
         results.push(...branchResult.results)
+        recordMayHaveChanged = true
       }
 
       continue
     }
 
     // Execute regular action
-    const result = await executeWorkflowAction(action, context, workflowId)
+    const result = dryRun
+      ? await previewWorkflowAction(action, context, results)
+      : await executeWorkflowAction(action, context, workflowId, results)
     results.push(result)
+    recordMayHaveChanged = true
 
     await updateProgress(results)
   }
@@ -1702,6 +2016,13 @@ async function executeActionsRecursive(
   return { results, paused: false }
 }
 
+export interface ExecuteWorkflowOptions {
+  // Walk every step without sending messages, changing CRM records or logging an execution
+  dryRun?: boolean
+  // Published version the actions came from - recorded on the run so resumes keep its rules
+  versionId?: string | null
+}
+
 /**
  * Execute all actions in a workflow with execution logging
  */
@@ -1709,14 +2030,38 @@ export async function executeWorkflow(
   workflowId: string,
   actions: WorkflowAction[],
   context: WorkflowContext,
-  triggerType: TriggerType = 'lead_created'
+  triggerType: TriggerType = 'lead_created',
+  enrollment?: WorkflowEnrollmentSettings,
+  options: ExecuteWorkflowOptions = {}
 ): Promise<ExecutionResult[]> {
+  // Test runs skip re-entry rules and execution records; waits are recorded but not scheduled
+  if (options.dryRun) {
+    const { results } = await executeActionsRecursive(
+      actions,
+      context,
+      workflowId,
+      [],
+      null,
+      async () => {},
+      getActiveConditionGroup(enrollment?.goal),
+      true
+    )
+    return results
+  }
+
+  // Respect the workflow's re-entry rule before starting a new run
+  if (!(await checkReEntry(workflowId, enrollment, context))) {
+    console.log(`[Workflows] Skipping workflow ${workflowId} - record already enrolled (re-entry not allowed)`)
+    return []
+  }
+
   // Create execution record
   const executionId = await createExecutionRecord(
     workflowId,
     context.userId,
     triggerType,
-    context
+    context,
+    options.versionId
   )
 
   // Helper to update progress
@@ -1727,13 +2072,14 @@ export async function executeWorkflow(
   }
 
   // Execute actions recursively (handles conditions and waits)
-  const { results, paused, remainingActions, scheduledTime } = await executeActionsRecursive(
+  const { results, paused, remainingActions, scheduledTime, exitReason } = await executeActionsRecursive(
     actions,
     context,
     workflowId,
     [],
     executionId,
-    updateProgress
+    updateProgress,
+    getActiveConditionGroup(enrollment?.goal)
   )
 
   // Check if we paused for a wait action
@@ -1766,7 +2112,8 @@ export async function executeWorkflow(
       executionId,
       hasError ? 'failed' : 'completed',
       results,
-      hasError ? 'One or more actions failed' : undefined
+      hasError ? 'One or more actions failed' : undefined,
+      exitReason
     )
   }
 
@@ -1782,21 +2129,38 @@ export async function resumeWorkflow(
   workflowId: string,
   remainingActions: WorkflowAction[],
   context: WorkflowContext,
-  previousResults: ExecutionResult[] = []
+  previousResults: ExecutionResult[] = [],
+  versionId?: string | null
 ): Promise<ExecutionResult[]> {
   // Helper to update progress
   const updateProgress = async (results: ExecutionResult[]) => {
     await updateExecutionRecord(executionId, 'running', results)
   }
 
+  // Goal and exit criteria are checked against the record's current state, not the trigger-time snapshot,
+  // but come from the version the run started on
+  const enrollment = await fetchEnrollmentSettings(workflowId, versionId)
+  const goal = getActiveConditionGroup(enrollment.goal)
+  const exitCriteria = getActiveConditionGroup(enrollment.exit_criteria)
+  if (goal || exitCriteria) {
+    context = await refreshWorkflowContext(context)
+  }
+
+  if (exitCriteria && evaluateConditionNode(exitCriteria, context, previousResults)) {
+    await updateExecutionRecord(executionId, 'completed', previousResults, undefined, 'exit_criteria_met')
+    console.log(`[Workflows] Workflow ${workflowId} run ${executionId} exited - exit criteria met`)
+    return previousResults
+  }
+
   // Execute remaining actions recursively (handles conditions and waits)
-  const { results, paused, remainingActions: moreRemaining, scheduledTime } = await executeActionsRecursive(
+  const { results, paused, remainingActions: moreRemaining, scheduledTime, exitReason } = await executeActionsRecursive(
     remainingActions,
     context,
     workflowId,
     previousResults,
     executionId,
-    updateProgress
+    updateProgress,
+    goal
   )
 
   // Check if we paused again for another wait action
@@ -1828,7 +2192,8 @@ export async function resumeWorkflow(
     executionId,
     hasError ? 'failed' : 'completed',
     results,
-    hasError ? 'One or more actions failed' : undefined
+    hasError ? 'One or more actions failed' : undefined,
+    exitReason
   )
 
   return results
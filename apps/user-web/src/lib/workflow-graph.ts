@@ -0,0 +1,299 @@
+import type { WorkflowAction, ConditionActionConfig, ExecutionResult } from '@/types/workflow'
+
+// The graph is always derived from WorkflowAction[] - edits made on the canvas are applied
+// to the action list, so the stored format never changes
+
+export const TRIGGER_NODE_ID = 'trigger'
+
+// Source handles: 'next' continues the current list, 'if'/'else' enter a condition's branches
+export type WorkflowGraphHandle = 'next' | 'if' | 'else'
+
+export type WorkflowGraphNodeData = {
+  action?: WorkflowAction
+  error?: string
+  collapsed?: boolean
+  hiddenCount?: number       // Steps hidden inside a collapsed condition
+  hiddenErrorCount?: number  // Hidden steps that failed in the last run
+}
+
+export interface WorkflowGraphNode {
+  id: string
+  type: 'trigger' | 'action' | 'condition'
+  position: { x: number; y: number }
+  data: WorkflowGraphNodeData
+}
+
+export interface WorkflowGraphEdge {
+  id: string
+  source: string
+  target: string
+  sourceHandle: WorkflowGraphHandle
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowGraphNode[]
+  edges: WorkflowGraphEdge[]
+}
+
+export interface BuildWorkflowGraphOptions {
+  collapsed?: ReadonlySet<string>       // Condition ids whose branches are hidden
+  errors?: Record<string, string>       // Action id -> error from the last run
+}
+
+const COLUMN_WIDTH = 360
+const ROW_HEIGHT = 170
+
+function getBranches(action: WorkflowAction): [WorkflowAction[], WorkflowAction[]] {
+  if (action.type !== 'condition') return [[], []]
+  const config = action.config as unknown as ConditionActionConfig
+  return [config.if_branch || [], config.else_branch || []]
+}
+
+function withBranches(action: WorkflowAction, ifBranch: WorkflowAction[], elseBranch: WorkflowAction[]): WorkflowAction {
+  return {
+    ...action,
+    config: { ...action.config, if_branch: ifBranch, else_branch: elseBranch },
+  }
+}
+
+function reindex(actions: WorkflowAction[]): WorkflowAction[] {
+  return actions.map((action, index) => (action.order === index ? action : { ...action, order: index }))
+}
+
+function collectIds(actions: WorkflowAction[], ids: string[] = []): string[] {
+  for (const action of actions) {
+    ids.push(action.id)
+    const [ifBranch, elseBranch] = getBranches(action)
+    collectIds(ifBranch, ids)
+    collectIds(elseBranch, ids)
+  }
+  return ids
+}
+
+// Apply fn to every action list (top level and branches), keeping unchanged lists by reference
+function mapLists(actions: WorkflowAction[], fn: (list: WorkflowAction[]) => WorkflowAction[]): WorkflowAction[] {
+  const nested = actions.map((action) => {
+    if (action.type !== 'condition') return action
+    const [ifBranch, elseBranch] = getBranches(action)
+    const nextIf = mapLists(ifBranch, fn)
+    const nextElse = mapLists(elseBranch, fn)
+    return nextIf === ifBranch && nextElse === elseBranch ? action : withBranches(action, nextIf, nextElse)
+  })
+  const changed = nested.some((action, index) => action !== actions[index])
+  return fn(changed ? nested : actions)
+}
+
+/**
+ * Find an action anywhere in the workflow, including nested condition branches
+ */
+export function findWorkflowAction(actions: WorkflowAction[], actionId: string): WorkflowAction | null {
+  for (const action of actions) {
+    if (action.id === actionId) return action
+    const [ifBranch, elseBranch] = getBranches(action)
+    const found = findWorkflowAction(ifBranch, actionId) || findWorkflowAction(elseBranch, actionId)
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * Replace an action wherever it sits in the workflow
+ */
+export function replaceWorkflowAction(actions: WorkflowAction[], updated: WorkflowAction): WorkflowAction[] {
+  return mapLists(actions, (list) =>
+    list.some((action) => action.id === updated.id)
+      ? list.map((action) => (action.id === updated.id ? updated : action))
+      : list
+  )
+}
+
+/**
+ * Remove an action (and, for conditions, its branches) wherever it sits in the workflow
+ */
+export function removeWorkflowAction(actions: WorkflowAction[], actionId: string): WorkflowAction[] {
+  return mapLists(actions, (list) =>
+    list.some((action) => action.id === actionId)
+      ? reindex(list.filter((action) => action.id !== actionId))
+      : list
+  )
+}
+
+/**
+ * Append an action to the end of a condition's branch, at any depth
+ */
+export function addToWorkflowBranch(
+  actions: WorkflowAction[],
+  conditionId: string,
+  branch: 'if' | 'else',
+  added: WorkflowAction
+): WorkflowAction[] {
+  return mapLists(actions, (list) =>
+    list.some((action) => action.id === conditionId)
+      ? list.map((action) => {
+          if (action.id !== conditionId || action.type !== 'condition') return action
+          const [ifBranch, elseBranch] = getBranches(action)
+          return branch === 'if'
+            ? withBranches(action, [...ifBranch, { ...added, order: ifBranch.length }], elseBranch)
+            : withBranches(action, ifBranch, [...elseBranch, { ...added, order: elseBranch.length }])
+        })
+      : list
+  )
+}
+
+/**
+ * Whether dragging from a source handle onto a target node describes a valid move
+ * The trigger can't be moved, and a condition can't be moved into its own branches
+ */
+export function canConnectWorkflowActions(
+  actions: WorkflowAction[],
+  sourceId: string,
+  targetId: string,
+  handle: WorkflowGraphHandle
+): boolean {
+  if (targetId === TRIGGER_NODE_ID || sourceId === targetId) return false
+
+  const target = findWorkflowAction(actions, targetId)
+  if (!target) return false
+  if (sourceId === TRIGGER_NODE_ID) return handle === 'next'
+
+  const source = findWorkflowAction(actions, sourceId)
+  if (!source) return false
+  if (handle !== 'next' && source.type !== 'condition') return false
+
+  return !collectIds(getBranches(target).flat()).includes(sourceId)
+}
+
+/**
+ * Move an action so it follows the source of a new connection:
+ * after the source in its list ('next'), or first in one of its branches ('if' / 'else')
+ * Invalid moves return the actions unchanged
+ */
+export function moveWorkflowAction(
+  actions: WorkflowAction[],
+  actionId: string,
+  target: { afterId: string; handle: WorkflowGraphHandle }
+): WorkflowAction[] {
+  if (!canConnectWorkflowActions(actions, target.afterId, actionId, target.handle)) return actions
+
+  const moved = findWorkflowAction(actions, actionId)!
+  const without = removeWorkflowAction(actions, actionId)
+
+  if (target.afterId === TRIGGER_NODE_ID) {
+    return reindex([moved, ...without])
+  }
+
+  if (target.handle === 'next') {
+    return mapLists(without, (list) => {
+      const index = list.findIndex((action) => action.id === target.afterId)
+      if (index === -1) return list
+      return reindex([...list.slice(0, index + 1), moved, ...list.slice(index + 1)])
+    })
+  }
+
+  return mapLists(without, (list) =>
+    list.some((action) => action.id === target.afterId)
+      ? list.map((action) => {
+          if (action.id !== target.afterId) return action
+          const [ifBranch, elseBranch] = getBranches(action)
+          return target.handle === 'if'
+            ? withBranches(action, reindex([moved, ...ifBranch]), elseBranch)
+            : withBranches(action, ifBranch, reindex([moved, ...elseBranch]))
+        })
+      : list
+  )
+}
+
+/**
+ * Errors from a run's action results, keyed by action id
+ */
+export function getLastRunErrors(results: ExecutionResult[]): Record<string, string> {
+  const errors: Record<string, string> = {}
+  for (const result of results) {
+    if (!result.success) {
+      errors[result.actionId] = result.error || 'Step failed'
+    }
+  }
+  return errors
+}
+
+/**
+ * Lay out a workflow left to right: each list runs along a row, and a condition's
+ * If True and Else branches run on the rows below it before the list continues
+ */
+export function buildWorkflowGraph(
+  actions: WorkflowAction[],
+  options: BuildWorkflowGraphOptions = {}
+): WorkflowGraph {
+  const collapsed = options.collapsed || new Set<string>()
+  const errors = options.errors || {}
+  const nodes: WorkflowGraphNode[] = [
+    { id: TRIGGER_NODE_ID, type: 'trigger', position: { x: 0, y: 0 }, data: {} },
+  ]
+  const edges: WorkflowGraphEdge[] = []
+
+  const connect = (source: string, handle: WorkflowGraphHandle, target: string) => {
+    edges.push({ id: `${source}:${handle}->${target}`, source, target, sourceHandle: handle })
+  }
+
+  // Returns the next free column and the number of rows the list used
+  const place = (
+    list: WorkflowAction[],
+    x: number,
+    y: number,
+    from: { id: string; handle: WorkflowGraphHandle }
+  ): { endX: number; rows: number } => {
+    let column = x
+    let rows = list.length > 0 ? 1 : 0
+    let previous = from
+
+    for (const action of list) {
+      connect(previous.id, previous.handle, action.id)
+      previous = { id: action.id, handle: 'next' }
+
+      if (action.type !== 'condition') {
+        nodes.push({
+          id: action.id,
+          type: 'action',
+          position: { x: column, y },
+          data: { action, ...(errors[action.id] ? { error: errors[action.id] } : {}) },
+        })
+        column += COLUMN_WIDTH
+        continue
+      }
+
+      const [ifBranch, elseBranch] = getBranches(action)
+      const isCollapsed = collapsed.has(action.id)
+      const data: WorkflowGraphNodeData = {
+        action,
+        collapsed: isCollapsed,
+        ...(errors[action.id] ? { error: errors[action.id] } : {}),
+      }
+
+      if (isCollapsed) {
+        const hiddenIds = collectIds([...ifBranch, ...elseBranch])
+        data.hiddenCount = hiddenIds.length
+        data.hiddenErrorCount = hiddenIds.filter((id) => errors[id]).length
+        nodes.push({ id: action.id, type: 'condition', position: { x: column, y }, data })
+        column += COLUMN_WIDTH
+        continue
+      }
+
+      nodes.push({ id: action.id, type: 'condition', position: { x: column, y }, data })
+      const ifResult = place(ifBranch, column + COLUMN_WIDTH, y + ROW_HEIGHT, { id: action.id, handle: 'if' })
+      const elseResult = place(
+        elseBranch,
+        column + COLUMN_WIDTH,
+        y + ROW_HEIGHT * (1 + ifResult.rows),
+        { id: action.id, handle: 'else' }
+      )
+      rows = Math.max(rows, 1 + ifResult.rows + elseResult.rows)
+      column = Math.max(column + COLUMN_WIDTH, ifResult.endX, elseResult.endX)
+    }
+
+    return { endX: column, rows }
+  }
+
+  place(actions, COLUMN_WIDTH, 0, { id: TRIGGER_NODE_ID, handle: 'next' })
+
+  return { nodes, edges }
+}
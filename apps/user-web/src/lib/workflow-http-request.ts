@@ -0,0 +1,407 @@
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from 'dns'
+import { Agent, fetch, type Response } from 'undici'
+import { encryptCRMToken, decryptCRMToken } from './crm-encryption'
+import { renderWorkflowTemplate, getNestedValue } from './workflow-template'
+import type { WorkflowContext, ExecutionResult } from './workflow-executor'
+import type {
+  WorkflowAction,
+  ConditionActionConfig,
+  HttpRequestActionConfig,
+  HttpRequestHeader,
+  HttpResponseMapping,
+} from '@/types/workflow'
+
+const DEFAULT_TIMEOUT_SECONDS = 10
+const MAX_TIMEOUT_SECONDS = 30
+const MAX_RETRIES = 3
+const MAX_REDIRECTS = 5
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH']
+const SECRET_MASK = '********'
+const BLOCKED_ADDRESS_ERROR = 'Requests to private or local addresses are not allowed'
+
+export interface HttpRequestOutcome {
+  success: boolean
+  data?: Record<string, unknown>
+  error?: string
+}
+
+interface PreparedHttpRequest {
+  url: URL
+  method: string
+  headers: Record<string, string>
+  body?: string
+}
+
+/**
+ * Reject requests to loopback, private and link-local addresses
+ * This checks literal hostnames/IPs; names are resolved and checked at connect time by lookupPublicAddress
+ */
+export function isBlockedRequestHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true
+  }
+
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' || /^(fc|fd|fe80)/.test(host) || host.startsWith('::ffff:')
+  }
+
+  const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
+  if (!ipv4) return false
+
+  const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  )
+}
+
+class BlockedAddressError extends Error {}
+
+/**
+ * DNS lookup for outgoing requests that fails if the name resolves to any private or local address
+ * The connection is made to the addresses checked here, so a second DNS answer can't point it elsewhere.
+ * Literal IPs skip lookup and are checked by isBlockedRequestHost before sending.
+ */
+export function lookupPublicAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+
+    const blocked = addresses.find(({ address }) => isBlockedRequestHost(address))
+    if (blocked || addresses.length === 0) {
+      return callback(new BlockedAddressError(`${BLOCKED_ADDRESS_ERROR} (${hostname} resolves to ${blocked?.address ?? 'nothing'})`), [])
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+// Every workflow request connects through the checked lookup, redirects included
+const requestDispatcher = new Agent({ connect: { lookup: lookupPublicAddress } })
+
+function getBlockedAddressError(error: unknown): BlockedAddressError | null {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof BlockedAddressError) return current
+  }
+  return null
+}
+
+/**
+ * Copy the mapped values out of a JSON response
+ */
+export function applyResponseMapping(
+  body: unknown,
+  mapping: HttpResponseMapping[] | undefined
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {}
+  for (const { key, path } of mapping || []) {
+    if (!key) continue
+    mapped[key] = path ? getNestedValue(body, path) : body
+  }
+  return mapped
+}
+
+/**
+ * Build request headers, decrypting secret values (or masking them for previews)
+ */
+function buildHeaders(
+  headers: HttpRequestHeader[] | undefined,
+  context: WorkflowContext,
+  previousResults: ExecutionResult[],
+  maskSecrets: boolean
+): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const header of headers || []) {
+    const key = header.key?.trim()
+    if (!key) continue
+
+    // Unsaved secrets still hold their plain value, so mask every secret header in previews
+    if (header.secret && maskSecrets) {
+      result[key] = SECRET_MASK
+      continue
+    }
+
+    if (header.secret && header.encrypted_value) {
+      try {
+        result[key] = decryptCRMToken(header.encrypted_value)
+      } catch {
+        throw new Error(`Could not decrypt secret header "${key}"`)
+      }
+    } else {
+      result[key] = renderWorkflowTemplate(header.value || '', context, 'header', previousResults)
+    }
+  }
+  return result
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Returns why a request may not be sent to url, or null if it may
+ */
+function checkRequestUrl(url: URL): string | null {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Only http and https URLs are supported'
+  }
+  if (isBlockedRequestHost(url.hostname)) {
+    return BLOCKED_ADDRESS_ERROR
+  }
+  return null
+}
+
+/**
+ * Send a request, following redirects only to URLs that pass the same checks as the original
+ * Left to fetch, an allowed host could redirect the request to a private address
+ */
+async function fetchWithCheckedRedirects(
+  url: URL,
+  init: { method: string; headers: Record<string, string>; body?: string; signal: AbortSignal }
+): Promise<{ response?: Response; error?: string }> {
+  let current = url
+  let { method, headers, body } = init
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(current.toString(), {
+      method,
+      headers,
+      body,
+      signal: init.signal,
+      redirect: 'manual',
+      dispatcher: requestDispatcher,
+    })
+    const location = response.headers.get('location')
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+      return { response }
+    }
+
+    if (redirects >= MAX_REDIRECTS) {
+      return { error: `Too many redirects (more than ${MAX_REDIRECTS})` }
+    }
+
+    let next: URL
+    try {
+      next = new URL(location, current)
+    } catch {
+      return { error: 'Redirected to an invalid URL' }
+    }
+    const urlError = checkRequestUrl(next)
+    if (urlError) {
+      return { error: `Redirect refused: ${urlError}` }
+    }
+
+    // Headers may carry secrets meant for the configured host only
+    if (next.origin !== current.origin) {
+      headers = Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() === 'content-type'))
+    }
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      method = 'GET'
+      body = undefined
+    }
+    current = next
+  }
+}
+
+/**
+ * Fill in and validate the URL, headers and body of an http_request action
+ */
+function prepareHttpRequest(
+  config: HttpRequestActionConfig,
+  context: WorkflowContext,
+  previousResults: ExecutionResult[],
+  maskSecrets: boolean
+): { request?: PreparedHttpRequest; error?: string } {
+  if (!config.http_url) {
+    return { error: 'No URL configured' }
+  }
+
+  let url: URL
+  try {
+    url = new URL(renderWorkflowTemplate(config.http_url, context, 'url', previousResults))
+  } catch {
+    return { error: 'Invalid URL' }
+  }
+
+  const urlError = checkRequestUrl(url)
+  if (urlError) {
+    return { error: urlError }
+  }
+
+  const method = config.http_method || 'POST'
+
+  let headers: Record<string, string>
+  try {
+    headers = buildHeaders(config.http_headers, context, previousResults, maskSecrets)
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid headers' }
+  }
+
+  let body: string | undefined
+  if (METHODS_WITH_BODY.includes(method) && config.http_body?.trim()) {
+    body = renderWorkflowTemplate(config.http_body, context, 'json', previousResults)
+    try {
+      JSON.parse(body)
+    } catch {
+      return { error: 'Request body is not valid JSON after filling in variables' }
+    }
+    if (!Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json'
+    }
+  }
+
+  return { request: { url, method, headers, body } }
+}
+
+/**
+ * Describe the request an http_request action would send, without sending it
+ * Secret header values are masked
+ */
+export function previewHttpRequest(
+  config: HttpRequestActionConfig,
+  context: WorkflowContext,
+  previousResults: ExecutionResult[] = []
+): HttpRequestOutcome {
+  const { request, error } = prepareHttpRequest(config, context, previousResults, true)
+  if (!request) {
+    return { success: false, error }
+  }
+
+  return {
+    success: true,
+    data: {
+      method: request.method,
+      url: request.url.toString(),
+      headers: request.headers,
+      body: request.body ?? null,
+    },
+  }
+}
+
+/**
+ * Send the request described by an http_request action
+ * Retries network errors, timeouts, 408, 429 and 5xx responses with exponential backoff (1s, 2s, 4s)
+ */
+export async function executeHttpRequest(
+  config: HttpRequestActionConfig,
+  context: WorkflowContext,
+  previousResults: ExecutionResult[] = []
+): Promise<HttpRequestOutcome> {
+  const { request, error } = prepareHttpRequest(config, context, previousResults, false)
+  if (!request) {
+    return { success: false, error }
+  }
+  const { url, method, headers, body } = request
+
+  const timeoutMs = Math.min(Math.max(config.http_timeout_seconds || DEFAULT_TIMEOUT_SECONDS, 1), MAX_TIMEOUT_SECONDS) * 1000
+  const attempts = Math.min(Math.max(config.http_retries || 0, 0), MAX_RETRIES) + 1
+
+  let lastError = 'Request failed'
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 1000 * Math.pow(2, attempt - 1)))
+    }
+
+    try {
+      const { response, error: redirectError } = await fetchWithCheckedRedirects(url, {
+        method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+      if (!response) {
+        return { success: false, error: redirectError, data: { attempts: attempt + 1 } }
+      }
+
+      const text = await response.text()
+      let parsed: unknown = text
+      try {
+        parsed = text ? JSON.parse(text) : null
+      } catch {
+        // Not JSON - mappings with a path will resolve to undefined
+      }
+
+      if (response.ok) {
+        return {
+          success: true,
+          data: {
+            status: response.status,
+            attempts: attempt + 1,
+            ...applyResponseMapping(parsed, config.http_response_mapping),
+          },
+        }
+      }
+
+      lastError = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`
+      if (!isRetryableStatus(response.status)) {
+        return { success: false, error: lastError, data: { status: response.status, attempts: attempt + 1 } }
+      }
+    } catch (error) {
+      // Resolving to a private address won't change on retry
+      const blocked = getBlockedAddressError(error)
+      if (blocked) {
+        return { success: false, error: blocked.message, data: { attempts: attempt + 1 } }
+      }
+      lastError = error instanceof Error && error.name === 'TimeoutError'
+        ? `Request timed out after ${timeoutMs / 1000}s`
+        : error instanceof Error ? error.message : 'Request failed'
+    }
+  }
+
+  return { success: false, error: `${lastError} (after ${attempts} attempt${attempts === 1 ? '' : 's'})` }
+}
+
+/**
+ * Encrypt new secret header values before a workflow is saved
+ * Walks condition branches so nested http_request actions are covered
+ */
+export function encryptActionSecrets(actions: WorkflowAction[]): WorkflowAction[] {
+  return actions.map((action) => {
+    if (action.type === 'condition') {
+      const config = action.config as unknown as ConditionActionConfig
+      return {
+        ...action,
+        config: {
+          ...action.config,
+          if_branch: encryptActionSecrets(config.if_branch || []),
+          else_branch: encryptActionSecrets(config.else_branch || []),
+        },
+      }
+    }
+
+    if (action.type !== 'http_request') return action
+
+    const headers = (action.config.http_headers || []) as HttpRequestHeader[]
+    return {
+      ...action,
+      config: {
+        ...action.config,
+        http_headers: headers.map((header): HttpRequestHeader => {
+          if (!header.secret) {
+            return { key: header.key, value: header.value }
+          }
+          // A new value replaces the stored secret; otherwise keep the existing ciphertext
+          if (header.value) {
+            return { key: header.key, secret: true, encrypted_value: encryptCRMToken(header.value) }
+          }
+          return { key: header.key, secret: true, encrypted_value: header.encrypted_value }
+        }),
+      },
+    }
+  })
+}
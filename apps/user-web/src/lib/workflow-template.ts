@@ -0,0 +1,78 @@
+import type { WorkflowContext, ExecutionResult } from './workflow-executor'
+
+// Variable names used by SMS/email templates, mapped to their context paths
+const LEGACY_VARIABLES: Record<string, string> = {
+  lead_name: 'lead.name',
+  lead_status: 'lead.status',
+  contact_first_name: 'contact.first_name',
+  contact_last_name: 'contact.last_name',
+  contact_email: 'contact.email',
+  contact_phone: 'contact.phone',
+  deal_name: 'deal.name',
+  deal_status: 'deal.status',
+  deal_value: 'deal.value',
+}
+
+/**
+ * Get a nested property value from an object using dot notation
+ */
+export function getNestedValue(obj: unknown, path: string): unknown {
+  let current: unknown = obj
+  for (const part of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[part]
+  }
+  return current
+}
+
+/**
+ * Resolve a template variable against the context, or against an earlier action's
+ * result for paths like "action.<actionId>.data.fieldName"
+ */
+function resolveVariable(name: string, context: WorkflowContext, previousResults: ExecutionResult[]): unknown {
+  if (name === 'contact_name') {
+    return [context.contact?.first_name, context.contact?.last_name].filter(Boolean).join(' ')
+  }
+
+  const parts = name.split('.')
+  if (parts[0] === 'action' && parts.length >= 3) {
+    const result = previousResults.find(r => r.actionId === parts[1])
+    return result ? getNestedValue(result, parts.slice(2).join('.')) : undefined
+  }
+
+  return getNestedValue(context, LEGACY_VARIABLES[name] || name)
+}
+
+/**
+ * Replace {{lead.name}}-style variables with values from the workflow context
+ * - text: inserted as-is
+ * - json: escaped for use inside a JSON string literal
+ * - url: URI-component encoded
+ * - header: line breaks removed so a value can't inject extra headers
+ */
+export function renderWorkflowTemplate(
+  template: string,
+  context: WorkflowContext,
+  encoding: 'text' | 'json' | 'url' | 'header',
+  previousResults: ExecutionResult[] = []
+): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+    const value = resolveVariable(name, context, previousResults)
+
+    if (value === null || value === undefined) return ''
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+    switch (encoding) {
+      case 'text':
+        return text
+      case 'json':
+        return JSON.stringify(text).slice(1, -1)
+      case 'url':
+        return encodeURIComponent(text)
+      case 'header':
+        return text.replace(/[\r\n]+/g, ' ')
+    }
+  })
+}
@@ -0,0 +1,94 @@
+import type {
+  TriggerType,
+  KeywordMatchMode,
+  SmsReceivedTriggerConfig,
+  EmailReceivedTriggerConfig,
+  TagAddedTriggerConfig,
+} from '@/types/workflow'
+import type { TriggerContext } from './workflow-trigger-service'
+
+/**
+ * Split a comma- or newline-separated keyword list into normalized keywords
+ */
+function parseKeywords(keywords: string | undefined): string[] {
+  if (!keywords) return []
+  return keywords
+    .split(/[,\n]/)
+    .map(k => k.trim().toLowerCase())
+    .filter(k => k.length > 0)
+}
+
+/**
+ * Compare phone numbers by digits only, so "+1 (555) 010-0000" matches "+15550100000"
+ */
+function normalizePhone(phone: string | undefined): string {
+  return (phone || '').replace(/\D/g, '')
+}
+
+/**
+ * Check message text against a keyword filter
+ * An empty keyword list matches every message
+ */
+export function matchesKeywords(
+  text: string | undefined,
+  keywords: string | undefined,
+  mode: KeywordMatchMode = 'contains'
+): boolean {
+  const list = parseKeywords(keywords)
+  if (list.length === 0) return true
+
+  const normalized = (text || '').trim().toLowerCase()
+  if (mode === 'exact') {
+    return list.includes(normalized)
+  }
+  return list.some(keyword => normalized.includes(keyword))
+}
+
+/**
+ * Check whether an event passes a workflow's trigger_config filters
+ * Triggers without filters always match
+ */
+export function matchesTriggerFilters(
+  triggerType: TriggerType,
+  triggerConfig: Record<string, unknown> | null | undefined,
+  triggerContext: TriggerContext
+): boolean {
+  const config = triggerConfig || {}
+
+  switch (triggerType) {
+    case 'sms_received': {
+      const { to_number, keywords, keyword_match } = config as SmsReceivedTriggerConfig
+      const message = triggerContext.message
+      if (!message) return false
+      if (to_number && normalizePhone(to_number) !== normalizePhone(message.to)) {
+        return false
+      }
+      return matchesKeywords(message.body, keywords, keyword_match)
+    }
+
+    case 'email_received': {
+      const { grant_id, keywords, keyword_match } = config as EmailReceivedTriggerConfig
+      const message = triggerContext.message
+      if (!message) return false
+      if (grant_id && grant_id !== message.grant_id) {
+        return false
+      }
+      // Exact matching only makes sense against the subject; contains also searches the preview
+      const text = keyword_match === 'exact'
+        ? message.subject
+        : [message.subject, message.body].filter(Boolean).join('\n')
+      return matchesKeywords(text, keywords, keyword_match)
+    }
+
+    case 'tag_added': {
+      const { tag_id } = config as TagAddedTriggerConfig
+      if (tag_id && tag_id !== triggerContext.tag?.id) {
+        return false
+      }
+      return true
+    }
+
+    default:
+      return true
+  }
+}
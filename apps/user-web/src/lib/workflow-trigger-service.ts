@@ -1,5 +1,7 @@
 import { createAdminClient } from './supabase-server'
-import { executeWorkflow, type WorkflowContext } from './workflow-executor'
+import { executeWorkflow, type WorkflowContext, type ExecutionResult } from './workflow-executor'
+import { matchesTriggerFilters } from './workflow-trigger-filters'
+import { WORKFLOW_WITH_PUBLISHED_VERSION, liveTriggerTypeFilter, withPublishedVersion, type WorkflowWithPublishedVersion } from './workflow-versions'
 import type { Workflow, TriggerType, WorkflowAction } from '@/types/workflow'
 
 export interface Lead {
@@ -9,6 +11,7 @@ export interface Lead {
   notes?: string
   user_id: string
   workspace_id?: string
+  created_at?: string
 }
 
 export interface Contact {
@@ -19,7 +22,7 @@ export interface Contact {
   phone?: string
 }
 
-interface Deal {
+export interface Deal {
   id: string
   name: string
   status?: string
@@ -38,7 +41,7 @@ interface Activity {
   completed_at?: string
 }
 
-interface LeadTask {
+export interface LeadTask {
   id: string
   lead_id: string
   title: string
@@ -60,7 +63,22 @@ export interface Call {
   recording_sid?: string
 }
 
-interface TriggerContext {
+export interface InboundMessage {
+  id: string
+  channel: 'sms' | 'email'
+  from: string
+  to: string
+  body: string
+  subject?: string
+  grant_id?: string  // nylas_grants.id of the receiving mailbox (email only)
+}
+
+export interface LeadTag {
+  id: string
+  name: string
+}
+
+export interface TriggerContext {
   userId: string
   workspaceId?: string
   lead?: Lead
@@ -69,12 +87,15 @@ interface TriggerContext {
   activity?: Activity
   leadTask?: LeadTask
   call?: Call
+  message?: InboundMessage
+  tag?: LeadTag
   previousStatus?: string
   previousStageId?: string
 }
 
 /**
  * Find all active workflows matching a trigger type for a user
+ * Matched on the published trigger; returned workflows carry their published actions, not unpublished draft edits
  */
 async function findMatchingWorkflows(
   triggerType: TriggerType,
@@ -85,9 +106,9 @@ async function findMatchingWorkflows(
 
   let query = supabase
     .from('workflows')
-    .select('*')
+    .select(WORKFLOW_WITH_PUBLISHED_VERSION)
     .eq('user_id', userId)
-    .eq('trigger_type', triggerType)
+    .or(liveTriggerTypeFilter([triggerType]))
     .eq('is_active', true)
 
   if (workspaceId) {
@@ -101,7 +122,9 @@ async function findMatchingWorkflows(
     return []
   }
 
-  return (data || []) as Workflow[]
+  return ((data || []) as WorkflowWithPublishedVersion[])
+    .map(withPublishedVersion)
+    .filter((workflow) => workflow.trigger_type === triggerType)
 }
 
 /**
@@ -122,6 +145,7 @@ function buildWorkflowContext(triggerContext: TriggerContext): WorkflowContext {
       name: triggerContext.lead.name,
       status: triggerContext.lead.status,
       notes: triggerContext.lead.notes,
+      created_at: triggerContext.lead.created_at,
     }
   }
 
@@ -136,6 +160,16 @@ function buildWorkflowContext(triggerContext: TriggerContext): WorkflowContext {
     }
   }
 
+  if (triggerContext.deal) {
+    context.dealId = triggerContext.deal.id
+    context.deal = {
+      id: triggerContext.deal.id,
+      name: triggerContext.deal.name,
+      status: triggerContext.deal.status,
+      stage_id: triggerContext.deal.stage_id,
+    }
+  }
+
   if (triggerContext.activity) {
     context.activity = {
       id: triggerContext.activity.id,
@@ -150,6 +184,7 @@ function buildWorkflowContext(triggerContext: TriggerContext): WorkflowContext {
       id: triggerContext.leadTask.id,
       title: triggerContext.leadTask.title,
       is_completed: triggerContext.leadTask.is_completed,
+      due_date: triggerContext.leadTask.due_date,
     }
   }
 
@@ -166,13 +201,24 @@ function buildWorkflowContext(triggerContext: TriggerContext): WorkflowContext {
     }
   }
 
+  if (triggerContext.message) {
+    context.message = {
+      id: triggerContext.message.id,
+      channel: triggerContext.message.channel,
+      from: triggerContext.message.from,
+      to: triggerContext.message.to,
+      body: triggerContext.message.body,
+      subject: triggerContext.message.subject,
+    }
+  }
+
   return context
 }
 
 /**
  * Fetch the primary contact for a lead
  */
-async function fetchLeadPrimaryContact(leadId: string): Promise<Contact | null> {
+export async function fetchLeadPrimaryContact(leadId: string): Promise<Contact | null> {
   const supabase = createAdminClient()
 
   const { data, error } = await supabase
@@ -193,7 +239,7 @@ async function fetchLeadPrimaryContact(leadId: string): Promise<Contact | null>
 /**
  * Fetch contact by ID
  */
-async function fetchContact(contactId: string): Promise<Contact | null> {
+export async function fetchContact(contactId: string): Promise<Contact | null> {
   const supabase = createAdminClient()
 
   const { data, error } = await supabase
@@ -209,6 +255,25 @@ async function fetchContact(contactId: string): Promise<Contact | null> {
   return data as Contact
 }
 
+/**
+ * Fetch lead by ID
+ */
+export async function fetchLead(leadId: string): Promise<Lead | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('leads')
+    .select('id, name, status, notes, user_id, workspace_id, created_at')
+    .eq('id', leadId)
+    .single()
+
+  if (error || !data) {
+    return null
+  }
+
+  return data as Lead
+}
+
 /**
  * Trigger workflows for a specific event
  * This function is non-blocking - it fires workflows in the background
@@ -226,8 +291,9 @@ export async function triggerWorkflows(
     console.warn(`[Workflows] No workspaceId resolved for ${triggerType} trigger — matching unscoped`)
   }
 
-  // Find all matching active workflows
-  const workflows = await findMatchingWorkflows(triggerType, triggerContext.userId, workspaceId || undefined)
+  // Find all matching active workflows, then drop those whose trigger_config filters don't match
+  const candidates = await findMatchingWorkflows(triggerType, triggerContext.userId, workspaceId || undefined)
+  const workflows = candidates.filter(w => matchesTriggerFilters(triggerType, w.trigger_config, triggerContext))
 
   if (workflows.length === 0) {
     return
@@ -246,7 +312,9 @@ export async function triggerWorkflows(
         workflow.id,
         workflow.actions as WorkflowAction[],
         workflowContext,
-        triggerType
+        triggerType,
+        workflow.enrollment_settings,
+        { versionId: workflow.published_version_id }
       )
         .then((results) => {
           const successCount = results.filter(r => r.success).length
@@ -264,6 +332,25 @@ export async function triggerWorkflows(
   }
 }
 
+/**
+ * Execute a single workflow for a trigger context and wait for it to finish
+ * Used by the time-based trigger processor, which enrolls records one at a time
+ */
+export async function runWorkflowForTrigger(
+  workflow: Workflow,
+  triggerType: TriggerType,
+  triggerContext: TriggerContext
+): Promise<ExecutionResult[]> {
+  return executeWorkflow(
+    workflow.id,
+    workflow.actions as WorkflowAction[],
+    buildWorkflowContext({ ...triggerContext, workspaceId: triggerContext.workspaceId || workflow.workspace_id }),
+    triggerType,
+    workflow.enrollment_settings,
+    { versionId: workflow.published_version_id }
+  )
+}
+
 /**
  * Trigger workflows when a lead is created
  */
@@ -524,3 +611,66 @@ export async function triggerVoicemailReceived(
     call,
   })
 }
+
+/**
+ * Trigger workflows when an inbound SMS is received from a known lead/contact
+ */
+export async function triggerSmsReceived(
+  message: InboundMessage,
+  lead: Lead | null,
+  contact: Contact | null,
+  userId: string,
+  workspaceId?: string
+): Promise<void> {
+  await triggerWorkflows('sms_received', {
+    userId,
+    workspaceId,
+    lead: lead || undefined,
+    contact: contact || undefined,
+    message,
+  })
+}
+
+/**
+ * Trigger workflows when a contact emails a connected mailbox
+ */
+export async function triggerEmailReceived(
+  message: InboundMessage,
+  lead: Lead | null,
+  contact: Contact | null,
+  userId: string,
+  workspaceId?: string
+): Promise<void> {
+  await triggerWorkflows('email_received', {
+    userId,
+    workspaceId,
+    lead: lead || undefined,
+    contact: contact || undefined,
+    message,
+  })
+}
+
+/**
+ * Trigger workflows when a contact is added to a lead
+ */
+export async function triggerContactCreated(contact: Contact, lead: Lead): Promise<void> {
+  await triggerWorkflows('contact_created', {
+    userId: lead.user_id,
+    lead,
+    contact,
+  })
+}
+
+/**
+ * Trigger workflows when a tag is added to a lead
+ */
+export async function triggerTagAdded(tag: LeadTag, lead: Lead, userId: string): Promise<void> {
+  const contact = await fetchLeadPrimaryContact(lead.id)
+
+  await triggerWorkflows('tag_added', {
+    userId,
+    lead,
+    contact: contact || undefined,
+    tag,
+  })
+}
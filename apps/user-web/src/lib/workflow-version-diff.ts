@@ -0,0 +1,137 @@
+import type {
+  WorkflowAction,
+  WorkflowVersion,
+  WorkflowVersionChange,
+  ConditionActionConfig,
+} from '@/types/workflow'
+
+// The parts of a workflow a version freezes
+export type WorkflowSnapshot = Pick<
+  WorkflowVersion,
+  'name' | 'trigger_type' | 'trigger_config' | 'actions' | 'enrollment_settings'
+>
+
+/**
+ * JSON with object keys sorted, so values read back from JSONB compare equal to what was sent
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b)
+}
+
+export function isSameSnapshot(a: WorkflowSnapshot, b: WorkflowSnapshot): boolean {
+  return (
+    a.name === b.name &&
+    a.trigger_type === b.trigger_type &&
+    isSameValue(a.trigger_config || {}, b.trigger_config || {}) &&
+    isSameValue(a.actions || [], b.actions || []) &&
+    isSameValue(a.enrollment_settings || {}, b.enrollment_settings || {})
+  )
+}
+
+interface FlatAction {
+  action: WorkflowAction
+  path?: string
+}
+
+/**
+ * List every action by id, including those nested in condition branches
+ */
+function flattenActions(actions: WorkflowAction[], path?: string): Map<string, FlatAction> {
+  const flat = new Map<string, FlatAction>()
+  for (const action of actions || []) {
+    flat.set(action.id, { action, path })
+    if (action.type === 'condition') {
+      const config = action.config as unknown as ConditionActionConfig
+      for (const [id, entry] of flattenActions(config.if_branch || [], `${action.id}.if_branch`)) flat.set(id, entry)
+      for (const [id, entry] of flattenActions(config.else_branch || [], `${action.id}.else_branch`)) flat.set(id, entry)
+    }
+  }
+  return flat
+}
+
+/**
+ * Config keys that differ between two versions of an action
+ * Condition branches are compared through their own actions, not as part of the condition
+ */
+function changedConfigFields(from: WorkflowAction, to: WorkflowAction): string[] {
+  const ignored = from.type === 'condition' ? ['if_branch', 'else_branch'] : []
+  const keys = new Set([...Object.keys(from.config || {}), ...Object.keys(to.config || {})])
+  return [...keys]
+    .filter(key => !ignored.includes(key))
+    .filter(key => !isSameValue(from.config?.[key], to.config?.[key]))
+    .sort()
+}
+
+/**
+ * Describe what changed between two workflow snapshots
+ */
+export function diffWorkflowVersions(from: WorkflowSnapshot, to: WorkflowSnapshot): WorkflowVersionChange[] {
+  const changes: WorkflowVersionChange[] = []
+
+  if (from.name !== to.name) {
+    changes.push({ kind: 'changed', area: 'name' })
+  }
+
+  if (from.trigger_type !== to.trigger_type || !isSameValue(from.trigger_config || {}, to.trigger_config || {})) {
+    const keys = new Set([...Object.keys(from.trigger_config || {}), ...Object.keys(to.trigger_config || {})])
+    changes.push({
+      kind: 'changed',
+      area: 'trigger',
+      fields: [...keys].filter(key => !isSameValue(from.trigger_config?.[key], to.trigger_config?.[key])).sort(),
+    })
+  }
+
+  if (!isSameValue(from.enrollment_settings || {}, to.enrollment_settings || {})) {
+    const keys = new Set([...Object.keys(from.enrollment_settings || {}), ...Object.keys(to.enrollment_settings || {})])
+    changes.push({
+      kind: 'changed',
+      area: 'enrollment',
+      fields: [...keys]
+        .filter(key => !isSameValue(
+          (from.enrollment_settings as Record<string, unknown> | undefined)?.[key],
+          (to.enrollment_settings as Record<string, unknown> | undefined)?.[key]
+        ))
+        .sort(),
+    })
+  }
+
+  const before = flattenActions(from.actions)
+  const after = flattenActions(to.actions)
+
+  for (const [id, { action, path }] of before) {
+    if (!after.has(id)) {
+      changes.push({ kind: 'removed', area: 'action', actionId: id, actionType: action.type, path })
+    }
+  }
+
+  for (const [id, { action, path }] of after) {
+    const previous = before.get(id)
+    if (!previous) {
+      changes.push({ kind: 'added', area: 'action', actionId: id, actionType: action.type, path })
+      continue
+    }
+
+    const fields = changedConfigFields(previous.action, action)
+    if (previous.path !== path) fields.push('position')
+    else if (previous.action.order !== action.order) fields.push('order')
+
+    if (fields.length > 0) {
+      changes.push({ kind: 'changed', area: 'action', actionId: id, actionType: action.type, path, fields })
+    }
+  }
+
+  return changes
+}
@@ -0,0 +1,180 @@
+import { createAdminClient } from './supabase-server'
+import { isSameSnapshot, type WorkflowSnapshot } from './workflow-version-diff'
+import type { Workflow, WorkflowVersion } from '@/types/workflow'
+
+export type WorkflowWithPublishedVersion = Workflow & { published_version?: WorkflowVersion | null }
+
+// Select for loading workflows together with the version their triggers should run
+export const WORKFLOW_WITH_PUBLISHED_VERSION = '*, published_version:workflow_versions!published_version_id(*)'
+
+/**
+ * PostgREST filter for workflows that may fire on one of triggerTypes
+ * The draft trigger_type only decides for unversioned workflows, so versioned ones are
+ * all fetched and callers match on the published type after withPublishedVersion
+ */
+export function liveTriggerTypeFilter(triggerTypes: readonly string[]): string {
+  return `trigger_type.in.(${triggerTypes.join(',')}),published_version_id.not.is.null`
+}
+
+/**
+ * Swap a workflow's draft trigger, actions and enrollment rules for its published version
+ * Workflows activated before versioning have no published version and run as saved
+ */
+export function withPublishedVersion(workflow: WorkflowWithPublishedVersion): Workflow {
+  const { published_version: version, ...rest } = workflow
+  if (!version) return rest
+
+  return {
+    ...rest,
+    trigger_type: version.trigger_type,
+    trigger_config: version.trigger_config,
+    actions: version.actions,
+    enrollment_settings: version.enrollment_settings,
+  }
+}
+
+async function fetchLatestVersion(workflowId: string): Promise<WorkflowVersion | null> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('workflow_versions')
+    .select('*')
+    .eq('workflow_id', workflowId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return (data as WorkflowVersion | null) || null
+}
+
+async function insertVersion(
+  workflow: Pick<Workflow, 'id' | 'workspace_id'>,
+  snapshot: WorkflowSnapshot,
+  versionNumber: number,
+  userId: string,
+  restoredFromVersion: number | null = null
+): Promise<{ version?: WorkflowVersion; error?: string }> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('workflow_versions')
+    .insert({
+      workflow_id: workflow.id,
+      workspace_id: workflow.workspace_id || null,
+      version_number: versionNumber,
+      name: snapshot.name,
+      trigger_type: snapshot.trigger_type,
+      trigger_config: snapshot.trigger_config || {},
+      actions: snapshot.actions || [],
+      enrollment_settings: snapshot.enrollment_settings || {},
+      restored_from_version: restoredFromVersion,
+      published_by: userId,
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    return { error: `Failed to save workflow version: ${error?.message || 'unknown error'}` }
+  }
+
+  return { version: data as WorkflowVersion }
+}
+
+/**
+ * Publish the workflow's saved draft as a new immutable version and make it live
+ * Publishing an unchanged draft re-uses the latest version instead of creating a duplicate
+ */
+export async function publishWorkflowVersion(
+  workflowId: string,
+  userId: string
+): Promise<{ version?: WorkflowVersion; error?: string }> {
+  const supabase = createAdminClient()
+
+  const { data: workflow, error: workflowError } = await supabase
+    .from('workflows')
+    .select('id, workspace_id, name, trigger_type, trigger_config, actions, enrollment_settings, published_version_id')
+    .eq('id', workflowId)
+    .single()
+
+  if (workflowError || !workflow) {
+    return { error: 'Workflow not found' }
+  }
+
+  const latest = await fetchLatestVersion(workflowId)
+
+  let version = latest
+  if (!latest || !isSameSnapshot(latest, workflow as WorkflowSnapshot)) {
+    const inserted = await insertVersion(workflow, workflow as WorkflowSnapshot, (latest?.version_number || 0) + 1, userId)
+    if (!inserted.version) return { error: inserted.error }
+    version = inserted.version
+  }
+
+  if (workflow.published_version_id !== version!.id) {
+    const { error } = await supabase
+      .from('workflows')
+      .update({ published_version_id: version!.id })
+      .eq('id', workflowId)
+
+    if (error) {
+      return { error: `Failed to publish workflow version: ${error.message}` }
+    }
+  }
+
+  return { version: version! }
+}
+
+/**
+ * Roll a workflow back to an earlier version
+ * The old snapshot is published again as a new version, so history is never rewritten,
+ * and the draft is reset to match it
+ */
+export async function rollbackWorkflowVersion(
+  workflowId: string,
+  versionNumber: number,
+  userId: string
+): Promise<{ version?: WorkflowVersion; error?: string }> {
+  const supabase = createAdminClient()
+
+  const { data: target } = await supabase
+    .from('workflow_versions')
+    .select('*')
+    .eq('workflow_id', workflowId)
+    .eq('version_number', versionNumber)
+    .maybeSingle()
+
+  if (!target) {
+    return { error: `Version ${versionNumber} not found` }
+  }
+
+  const latest = await fetchLatestVersion(workflowId)
+  const restored = target as WorkflowVersion
+
+  const inserted = await insertVersion(
+    { id: workflowId, workspace_id: restored.workspace_id || undefined },
+    restored,
+    (latest?.version_number || 0) + 1,
+    userId,
+    restored.version_number
+  )
+  if (!inserted.version) return { error: inserted.error }
+
+  const { error } = await supabase
+    .from('workflows')
+    .update({
+      name: restored.name,
+      trigger_type: restored.trigger_type,
+      trigger_config: restored.trigger_config,
+      actions: restored.actions,
+      enrollment_settings: restored.enrollment_settings,
+      published_version_id: inserted.version.id,
+      // Let the time-trigger cron recalculate the next run from the restored schedule
+      next_run_at: null,
+    })
+    .eq('id', workflowId)
+
+  if (error) {
+    return { error: `Failed to roll back workflow: ${error.message}` }
+  }
+
+  return { version: inserted.version }
+}
@@ -525,3 +525,27 @@ export interface CreateApiKeyResponse {
   created_at: string
   expires_at: string | null
 }
+
+// Monthly AI spend budget - agent_id null budgets the whole workspace
+export interface AISpendBudget {
+  id: string
+  workspace_id: string
+  agent_id: string | null
+  monthly_limit_usd: number
+  soft_limit_percent: number
+  hard_limit: boolean
+  spent_usd: number // This month so far
+}
+
+// Agents a budget can be set for (ai_agents id and display name)
+export interface AISpendBudgetAgent {
+  id: string
+  name: string
+}
+
+// GET /api/team/ai-budgets response
+export interface AISpendBudgetsResponse {
+  budgets: AISpendBudget[]
+  agents: AISpendBudgetAgent[]
+  workspace_spent_usd: number
+}
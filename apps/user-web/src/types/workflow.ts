@@ -19,6 +19,17 @@ export type TriggerType =
   | "call_completed"
   | "call_missed"
   | "voicemail_received"
+  // Inbound message events
+  | "sms_received"
+  | "email_received"
+  // Contact and tag events
+  | "contact_created"
+  | "tag_added"
+  // Time-based triggers (evaluated by the process-time-triggers cron)
+  | "lead_inactive"
+  | "deal_stage_stale"
+  | "task_due_soon"
+  | "scheduled"
 
 // Action types - what the workflow does
 export type ActionType =
@@ -40,6 +51,9 @@ export type ActionType =
   | "update_deal"
   | "move_deal_stage"
   | "close_deal"
+  // Integration actions
+  | "http_request"
+  | "ask_agent"
   // Flow control actions
   | "wait"
   | "condition"
@@ -50,11 +64,23 @@ export type ConditionOperator =
   | "not_equals"
   | "contains"
   | "starts_with"
+  | "ends_with"
+  | "matches_regex"
+  | "in_list"
+  | "not_in_list"
   | "greater_than"
   | "less_than"
+  | "between"
+  | "is_before"
+  | "is_after"
+  | "within_last_days"
+  | "more_than_days_ago"
   | "is_empty"
   | "is_not_empty"
 
+// Data type of a condition field - decides which operators apply
+export type ConditionFieldType = "string" | "number" | "boolean" | "date"
+
 // Where the condition field value comes from
 export type ConditionFieldSource =
   | "trigger"          // Lead/deal/contact fields from trigger context
@@ -66,17 +92,81 @@ export interface WorkflowCondition {
   field_source: ConditionFieldSource
   field_path: string        // e.g., "lead.status", "contact.email", "action.<id>.success"
   field_id?: string         // UUID for custom fields
+  field_type?: ConditionFieldType  // Type of the chosen field, set by the field picker
   operator: ConditionOperator
-  value: string             // Value to compare against
+  value: string             // Value to compare against (list: comma-separated, days: a number)
+  value_to?: string         // Upper bound for "between"
+  case_sensitive?: boolean  // Text operators compare case-insensitively unless set
 }
 
+// How the members of a condition group are combined
+export type ConditionGroupMatch =
+  | "all"   // Every member must be true (AND)
+  | "any"   // At least one member must be true (OR)
+
+// A group of conditions and/or nested groups
+export interface WorkflowConditionGroup {
+  match: ConditionGroupMatch
+  negate?: boolean                // NOT - inverts the group result
+  conditions: ConditionNode[]
+}
+
+// A node in a condition tree - either a single comparison or a nested group
+export type ConditionNode = WorkflowCondition | WorkflowConditionGroup
+
 // Config structure for condition actions
+// `condition` may be a single comparison (legacy shape) or a condition group
 export interface ConditionActionConfig {
-  condition: WorkflowCondition
+  condition: ConditionNode
   if_branch: WorkflowAction[]   // Actions to run if condition is true
   else_branch: WorkflowAction[] // Actions to run if condition is false
 }
 
+// HTTP request action config
+export type HttpRequestMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+
+export interface HttpRequestHeader {
+  key: string
+  value?: string            // Plain value, or a new secret value before it is saved
+  secret?: boolean          // Stored encrypted; the plain value never leaves the server
+  encrypted_value?: string  // Set by the API when a secret header is saved
+}
+
+// Copies a value from the JSON response into the action result, readable as action.<id>.data.<key>
+export interface HttpResponseMapping {
+  key: string               // e.g. "customer_id"
+  path: string              // Dot path into the response body, e.g. "data.customer.id"
+}
+
+export interface HttpRequestActionConfig {
+  http_method: HttpRequestMethod
+  http_url: string                        // Supports {{lead.name}}-style variables
+  http_headers?: HttpRequestHeader[]
+  http_body?: string                      // JSON template, sent for POST/PUT/PATCH
+  http_timeout_seconds?: number           // Per attempt, defaults to 10
+  http_retries?: number                   // Extra attempts on network errors, 408, 429 and 5xx
+  http_response_mapping?: HttpResponseMapping[]
+}
+
+// Ask agent action config
+export type AgentOutputFieldType = "text" | "number" | "boolean" | "choice"
+
+// A field the agent must fill in, readable as action.<id>.data.<key>
+export interface AgentOutputField {
+  key: string               // e.g. "intent"
+  type: AgentOutputFieldType
+  description?: string      // Guidance for the agent, e.g. "How likely the lead is to buy"
+  options?: string[]        // Allowed values for "choice" fields, e.g. ["high", "medium", "low"]
+}
+
+export interface AskAgentActionConfig {
+  agent_id: string                        // ai_agents id of an agent deployed to the workspace
+  agent_name?: string                     // Shown in the builder
+  prompt: string                          // Supports {{lead.name}}-style variables
+  include_transcript?: boolean            // Add the call transcript for call triggers
+  output_fields?: AgentOutputField[]      // Without fields the answer is stored as data.answer
+}
+
 // Workflow action - a single step in the workflow
 export interface WorkflowAction {
   id: string
@@ -85,6 +175,71 @@ export interface WorkflowAction {
   order: number
 }
 
+// Trigger config for time-based triggers
+export interface LeadInactiveTriggerConfig {
+  inactive_days: number       // Days since the lead's last activity (or creation)
+}
+
+export interface DealStageStaleTriggerConfig {
+  stale_days: number          // Days the deal has been in its current stage
+  stage_id?: string           // Only deals in this stage (any stage when omitted)
+}
+
+export interface TaskDueSoonTriggerConfig {
+  days_before: number         // 1 = task is due tomorrow
+}
+
+// Trigger config for inbound message triggers
+// How keywords are matched against the message text
+export type KeywordMatchMode =
+  | "contains"   // Any keyword appears anywhere in the message
+  | "exact"      // The whole message equals one of the keywords (e.g. "STOP")
+
+export interface SmsReceivedTriggerConfig {
+  to_number?: string              // Only messages sent to this Twilio number (any number when omitted)
+  keywords?: string               // Comma-separated keywords (any message when omitted)
+  keyword_match?: KeywordMatchMode
+}
+
+export interface EmailReceivedTriggerConfig {
+  grant_id?: string               // Only replies to this connected mailbox (nylas_grants.id)
+  keywords?: string               // Matched against the subject and message preview
+  keyword_match?: KeywordMatchMode
+}
+
+export interface TagAddedTriggerConfig {
+  tag_id?: string                 // Only when this tag is added (any tag when omitted)
+  tag_name?: string               // Display name of tag_id for the builder
+}
+
+// Filter applied to the records a scheduled workflow runs over
+export interface ScheduledRecordFilter {
+  status?: string
+  pipeline_id?: string
+  stage_id?: string
+}
+
+export interface ScheduledTriggerConfig {
+  cron_expression: string     // e.g. "0 9 * * 1" - every Monday at 9am
+  timezone?: string           // IANA timezone, defaults to UTC
+  record_type: "lead" | "deal"
+  filter?: ScheduledRecordFilter
+}
+
+// Whether a record that already went through a workflow can be enrolled again
+export type ReEntryPolicy =
+  | "always"       // Every trigger starts a new run (default)
+  | "never"        // A record only ever runs through the workflow once
+  | "after_days"   // Allowed again once re_entry_days have passed since the last run
+
+// Per-workflow enrollment rules
+export interface WorkflowEnrollmentSettings {
+  re_entry?: ReEntryPolicy
+  re_entry_days?: number
+  goal?: WorkflowConditionGroup           // Run ends early once this is met (e.g. deal won)
+  exit_criteria?: WorkflowConditionGroup  // Checked before each step that resumes after a wait
+}
+
 // Complete workflow record
 export interface Workflow {
   id: string
@@ -96,10 +251,39 @@ export interface Workflow {
   trigger_config: Record<string, unknown>
   is_active: boolean
   actions: WorkflowAction[]
+  next_run_at?: string | null   // Next due run for "scheduled" triggers
+  enrollment_settings?: WorkflowEnrollmentSettings
+  published_version_id?: string | null  // Version that triggers run; the fields above are the draft
   created_at: string
   updated_at: string
 }
 
+// Immutable snapshot of a workflow taken each time it is published
+export interface WorkflowVersion {
+  id: string
+  workflow_id: string
+  workspace_id?: string | null
+  version_number: number
+  name: string
+  trigger_type: TriggerType
+  trigger_config: Record<string, unknown>
+  actions: WorkflowAction[]
+  enrollment_settings: WorkflowEnrollmentSettings
+  restored_from_version: number | null
+  published_by: string | null
+  published_at: string
+}
+
+// One difference between two workflow versions, for the version diff view
+export interface WorkflowVersionChange {
+  kind: "added" | "removed" | "changed"
+  area: "name" | "trigger" | "enrollment" | "action"
+  actionId?: string
+  actionType?: ActionType
+  path?: string           // e.g. "if_branch" for actions inside a condition branch
+  fields?: string[]       // Changed config keys, for "changed" actions
+}
+
 // For creating/updating workflows
 export interface WorkflowInput {
   name: string
@@ -108,6 +292,7 @@ export interface WorkflowInput {
   trigger_config?: Record<string, unknown>
   is_active?: boolean
   actions?: WorkflowAction[]
+  enrollment_settings?: WorkflowEnrollmentSettings
 }
 
 // Trigger metadata for UI
@@ -116,7 +301,7 @@ export interface TriggerDefinition {
   label: string
   description: string
   icon: string
-  category: "lead" | "deal" | "activity" | "call"
+  category: "lead" | "deal" | "activity" | "call" | "message" | "time"
 }
 
 // Action metadata for UI
@@ -125,7 +310,7 @@ export interface ActionDefinition {
   label: string
   description: string
   icon: string
-  category: "communication" | "crm" | "flow"
+  category: "communication" | "crm" | "integration" | "flow"
 }
 
 // Trigger definitions
@@ -149,6 +334,25 @@ export const TRIGGERS: TriggerDefinition[] = [
   { type: "call_completed", label: "Call Completed", description: "When a call ends successfully", icon: "PhoneCall", category: "call" },
   { type: "call_missed", label: "Call Missed", description: "When a call is missed or unanswered", icon: "PhoneMissed", category: "call" },
   { type: "voicemail_received", label: "Voicemail Received", description: "When a voicemail recording is ready", icon: "Voicemail", category: "call" },
+  // Inbound message triggers
+  { type: "sms_received", label: "SMS Received", description: "When a lead or contact texts one of your numbers", icon: "MessageSquare", category: "message" },
+  { type: "email_received", label: "Email Reply Received", description: "When a contact emails one of your connected mailboxes", icon: "Mail", category: "message" },
+  // Contact and tag triggers
+  { type: "contact_created", label: "Contact Created", description: "When a contact is added to a lead", icon: "Contact", category: "lead" },
+  { type: "tag_added", label: "Tag Added", description: "When a tag is added to a lead", icon: "Tag", category: "lead" },
+  // Time-based triggers
+  { type: "lead_inactive", label: "Lead Inactive", description: "When a lead has had no activity for a number of days", icon: "Hourglass", category: "time" },
+  { type: "deal_stage_stale", label: "Deal Stuck in Stage", description: "When a deal stays in a stage longer than a number of days", icon: "Timer", category: "time" },
+  { type: "task_due_soon", label: "Task Due Soon", description: "When a lead task's due date is approaching", icon: "CalendarClock", category: "time" },
+  { type: "scheduled", label: "On a Schedule", description: "Run on a schedule for every lead or deal matching a filter", icon: "CalendarClock", category: "time" },
+]
+
+// Trigger types evaluated on a schedule rather than fired by events
+export const TIME_BASED_TRIGGERS: TriggerType[] = [
+  "lead_inactive",
+  "deal_stage_stale",
+  "task_due_soon",
+  "scheduled",
 ]
 
 // Action definitions
@@ -170,6 +374,9 @@ export const ACTIONS: ActionDefinition[] = [
   { type: "update_deal", label: "Update Opportunity", description: "Update opportunity fields", icon: "PenSquare", category: "crm" },
   { type: "move_deal_stage", label: "Move Opportunity Stage", description: "Move opportunity to a different stage", icon: "ArrowRightCircle", category: "crm" },
   { type: "close_deal", label: "Close Opportunity", description: "Mark opportunity as won or lost", icon: "CheckCircle2", category: "crm" },
+  // Integration actions
+  { type: "http_request", label: "HTTP Request", description: "Call an external API or webhook", icon: "Globe", category: "integration" },
+  { type: "ask_agent", label: "Ask AI Agent", description: "Have an AI agent analyze the record and answer", icon: "Bot", category: "integration" },
   // Flow control actions
   { type: "wait", label: "Wait", description: "Pause execution for a period of time", icon: "Clock", category: "flow" },
   { type: "condition", label: "Condition", description: "Branch based on a condition", icon: "GitBranch", category: "flow" },
@@ -191,25 +398,39 @@ export interface ConditionOperatorDefinition {
   label: string
   description: string
   requiresValue: boolean  // false for is_empty, is_not_empty
+  valueType: "text" | "number" | "date" | "days" | "list" | "regex" | "range" | "none"
+  fieldTypes: ConditionFieldType[]  // Field types this operator can be used with
+  supportsCaseSensitive?: boolean
 }
 
+const ALL_FIELD_TYPES: ConditionFieldType[] = ["string", "number", "boolean", "date"]
+
 export const CONDITION_OPERATORS: ConditionOperatorDefinition[] = [
-  { operator: "equals", label: "Equals", description: "Value is exactly equal", requiresValue: true },
-  { operator: "not_equals", label: "Does not equal", description: "Value is not equal", requiresValue: true },
-  { operator: "contains", label: "Contains", description: "Value contains text", requiresValue: true },
-  { operator: "starts_with", label: "Starts with", description: "Value starts with text", requiresValue: true },
-  { operator: "greater_than", label: "Greater than", description: "Value is greater (numeric)", requiresValue: true },
-  { operator: "less_than", label: "Less than", description: "Value is less (numeric)", requiresValue: true },
-  { operator: "is_empty", label: "Is empty", description: "Value is empty or null", requiresValue: false },
-  { operator: "is_not_empty", label: "Is not empty", description: "Value has a value", requiresValue: false },
+  { operator: "equals", label: "Equals", description: "Value is exactly equal", requiresValue: true, valueType: "text", fieldTypes: ["string", "number", "boolean"], supportsCaseSensitive: true },
+  { operator: "not_equals", label: "Does not equal", description: "Value is not equal", requiresValue: true, valueType: "text", fieldTypes: ["string", "number", "boolean"], supportsCaseSensitive: true },
+  { operator: "contains", label: "Contains", description: "Value contains text", requiresValue: true, valueType: "text", fieldTypes: ["string"], supportsCaseSensitive: true },
+  { operator: "starts_with", label: "Starts with", description: "Value starts with text", requiresValue: true, valueType: "text", fieldTypes: ["string"], supportsCaseSensitive: true },
+  { operator: "ends_with", label: "Ends with", description: "Value ends with text", requiresValue: true, valueType: "text", fieldTypes: ["string"], supportsCaseSensitive: true },
+  { operator: "matches_regex", label: "Matches pattern", description: "Value matches a regular expression", requiresValue: true, valueType: "regex", fieldTypes: ["string"], supportsCaseSensitive: true },
+  { operator: "in_list", label: "Is one of", description: "Value is in a comma-separated list", requiresValue: true, valueType: "list", fieldTypes: ["string", "number"], supportsCaseSensitive: true },
+  { operator: "not_in_list", label: "Is not one of", description: "Value is not in a comma-separated list", requiresValue: true, valueType: "list", fieldTypes: ["string", "number"], supportsCaseSensitive: true },
+  { operator: "greater_than", label: "Greater than", description: "Value is greater (numeric)", requiresValue: true, valueType: "number", fieldTypes: ["number"] },
+  { operator: "less_than", label: "Less than", description: "Value is less (numeric)", requiresValue: true, valueType: "number", fieldTypes: ["number"] },
+  { operator: "between", label: "Between", description: "Value is within a range (inclusive)", requiresValue: true, valueType: "range", fieldTypes: ["number", "date"] },
+  { operator: "is_before", label: "Is before", description: "Date is before a given date", requiresValue: true, valueType: "date", fieldTypes: ["date"] },
+  { operator: "is_after", label: "Is after", description: "Date is after a given date", requiresValue: true, valueType: "date", fieldTypes: ["date"] },
+  { operator: "within_last_days", label: "Is within the last", description: "Date is within the last N days", requiresValue: true, valueType: "days", fieldTypes: ["date"] },
+  { operator: "more_than_days_ago", label: "Is more than", description: "Date is more than N days ago", requiresValue: true, valueType: "days", fieldTypes: ["date"] },
+  { operator: "is_empty", label: "Is empty", description: "Value is empty or null", requiresValue: false, valueType: "none", fieldTypes: ALL_FIELD_TYPES },
+  { operator: "is_not_empty", label: "Is not empty", description: "Value has a value", requiresValue: false, valueType: "none", fieldTypes: ALL_FIELD_TYPES },
 ]
 
 // Available trigger fields by category
 export interface ConditionFieldDefinition {
   path: string           // Field path like "lead.status" or "activity.type"
   label: string          // Display label
-  category: "lead" | "contact" | "deal" | "activity"  // activity includes both Activity and LeadTask fields
-  fieldType: "string" | "number" | "boolean"
+  category: "lead" | "contact" | "deal" | "activity" | "message"  // activity includes both Activity and LeadTask fields
+  fieldType: ConditionFieldType
 }
 
 export const TRIGGER_CONDITION_FIELDS: ConditionFieldDefinition[] = [
@@ -221,6 +442,7 @@ export const TRIGGER_CONDITION_FIELDS: ConditionFieldDefinition[] = [
   { path: "lead.city", label: "City", category: "lead", fieldType: "string" },
   { path: "lead.state", label: "State", category: "lead", fieldType: "string" },
   { path: "lead.country", label: "Country", category: "lead", fieldType: "string" },
+  { path: "lead.created_at", label: "Lead Created Date", category: "lead", fieldType: "date" },
   // Contact fields
   { path: "contact.first_name", label: "First Name", category: "contact", fieldType: "string" },
   { path: "contact.last_name", label: "Last Name", category: "contact", fieldType: "string" },
@@ -237,19 +459,85 @@ export const TRIGGER_CONDITION_FIELDS: ConditionFieldDefinition[] = [
   // Lead Task fields (for task_completed trigger)
   { path: "leadTask.title", label: "Task Title", category: "activity", fieldType: "string" },
   { path: "leadTask.is_completed", label: "Task Completed", category: "activity", fieldType: "boolean" },
+  { path: "leadTask.due_date", label: "Task Due Date", category: "activity", fieldType: "date" },
   // Call fields (for call triggers)
   { path: "call.direction", label: "Call Direction", category: "activity", fieldType: "string" },
   { path: "call.status", label: "Call Status", category: "activity", fieldType: "string" },
   { path: "call.duration_seconds", label: "Call Duration (seconds)", category: "activity", fieldType: "number" },
   { path: "call.from_number", label: "From Number", category: "activity", fieldType: "string" },
   { path: "call.to_number", label: "To Number", category: "activity", fieldType: "string" },
+  // Message fields (for sms_received and email_received triggers)
+  { path: "message.body", label: "Message Text", category: "message", fieldType: "string" },
+  { path: "message.subject", label: "Email Subject", category: "message", fieldType: "string" },
+  { path: "message.from", label: "Sender", category: "message", fieldType: "string" },
+  { path: "message.to", label: "Recipient", category: "message", fieldType: "string" },
 ]
 
+// Helper to get the operators that can be used with a field type
+// Unknown field types (e.g. conditions saved before field_type existed) get every operator
+export function getOperatorsForFieldType(fieldType?: ConditionFieldType): ConditionOperatorDefinition[] {
+  if (!fieldType) return CONDITION_OPERATORS
+  return CONDITION_OPERATORS.filter(o => o.fieldTypes.includes(fieldType))
+}
+
+// Helper to distinguish condition groups from single conditions
+export function isConditionGroup(node: ConditionNode | null | undefined): node is WorkflowConditionGroup {
+  return (
+    typeof node === "object" &&
+    node !== null &&
+    Array.isArray((node as WorkflowConditionGroup).conditions)
+  )
+}
+
+// Helper to wrap any condition node in a group (legacy single conditions become an "all" group)
+export function toConditionGroup(node: ConditionNode | null | undefined): WorkflowConditionGroup {
+  if (isConditionGroup(node)) return node
+  if (node && typeof node === "object") {
+    return { match: "all", conditions: [node] }
+  }
+  return { match: "all", conditions: [] }
+}
+
 // Helper to get operator definition
 export function getOperatorDefinition(operator: ConditionOperator): ConditionOperatorDefinition | undefined {
   return CONDITION_OPERATORS.find(o => o.operator === operator)
 }
 
+// Helper to build a short human-readable summary of a condition tree
+// Returns null when the condition (or any member of a group) is not configured
+export function summarizeConditionNode(node: ConditionNode | null | undefined): string | null {
+  if (!node) return null
+
+  if (isConditionGroup(node)) {
+    if (node.conditions.length === 0) return null
+    const parts: string[] = []
+    for (const child of node.conditions) {
+      const summary = summarizeConditionNode(child)
+      if (!summary) return null
+      parts.push(isConditionGroup(child) && child.conditions.length > 1 && !child.negate ? `(${summary})` : summary)
+    }
+    const joined = parts.join(node.match === "any" ? " or " : " and ")
+    return node.negate ? `not (${joined})` : joined
+  }
+
+  if (!node.field_path || !node.operator) return null
+  const operatorDef = getOperatorDefinition(node.operator)
+  const fieldName = node.field_path.split(".").pop() || node.field_path
+  const operatorLabel = operatorDef?.label.toLowerCase() || node.operator
+  if (node.operator === "between" && node.value && node.value_to) {
+    return `${fieldName} between ${node.value} and ${node.value_to}`
+  }
+  if (operatorDef?.valueType === "days" && node.value) {
+    return node.operator === "within_last_days"
+      ? `${fieldName} within the last ${node.value} days`
+      : `${fieldName} more than ${node.value} days ago`
+  }
+  if (operatorDef?.requiresValue && node.value) {
+    return `${fieldName} ${operatorLabel} "${node.value}"`
+  }
+  return `${fieldName} ${operatorLabel}`
+}
+
 // Helper to get fields relevant to a trigger type
 export function getFieldsForTrigger(triggerType: TriggerType): ConditionFieldDefinition[] {
   const triggerDef = getTriggerDefinition(triggerType)
@@ -269,6 +557,29 @@ export function getFieldsForTrigger(triggerType: TriggerType): ConditionFieldDef
       f.category === "lead" || f.category === "contact" || f.category === "activity"
     )
   }
+  // Time triggers run over leads or deals - deal triggers get deal fields, the rest lead fields
+  if (triggerDef.category === "time") {
+    if (triggerType === "deal_stage_stale") {
+      return TRIGGER_CONDITION_FIELDS.filter(f => f.category === "deal" || f.category === "contact")
+    }
+    if (triggerType === "scheduled") {
+      return TRIGGER_CONDITION_FIELDS.filter(f =>
+        f.category === "lead" || f.category === "deal" || f.category === "contact"
+      )
+    }
+    if (triggerType === "task_due_soon") {
+      return TRIGGER_CONDITION_FIELDS.filter(f =>
+        f.category === "lead" || f.category === "contact" || f.path.startsWith("leadTask.")
+      )
+    }
+    return TRIGGER_CONDITION_FIELDS.filter(f => f.category === "lead" || f.category === "contact")
+  }
+  // Message triggers include lead, contact, and message fields
+  if (triggerDef.category === "message") {
+    return TRIGGER_CONDITION_FIELDS.filter(f =>
+      f.category === "lead" || f.category === "contact" || f.category === "message"
+    )
+  }
   // Call triggers include lead, contact, and activity fields (call fields are in activity category)
   if (triggerDef.category === "call") {
     return TRIGGER_CONDITION_FIELDS.filter(f =>
@@ -281,6 +592,14 @@ export function getFieldsForTrigger(triggerType: TriggerType): ConditionFieldDef
 // Execution types for workflow runs
 export type ExecutionStatus = 'running' | 'completed' | 'failed' | 'paused'
 
+// Why a run stopped before reaching the last step
+export type ExecutionExitReason = 'goal_met' | 'exit_criteria_met'
+
+export const EXIT_REASONS: Record<ExecutionExitReason, { label: string; description: string }> = {
+  goal_met: { label: 'Goal met', description: 'The workflow goal was met, so the remaining steps were skipped.' },
+  exit_criteria_met: { label: 'Exited', description: 'The exit criteria were met when the run resumed after a wait.' },
+}
+
 export interface ExecutionResult {
   success: boolean
   actionType: ActionType
@@ -301,4 +620,15 @@ export interface WorkflowExecution {
   completed_at: string | null
   action_results: ExecutionResult[]
   error_message: string | null
+  exit_reason?: ExecutionExitReason | null
+  workflow_version_id?: string | null
+}
+
+// Record a test run is evaluated against - the record is read but never changed
+export type WorkflowTestRecordType = "lead" | "contact" | "deal"
+
+// Result of a test run - results carry data.dry_run and describe what each step would do
+export interface WorkflowTestRun {
+  context: Record<string, unknown>
+  results: ExecutionResult[]
 }
@@ -0,0 +1,53 @@
+-- Time-based workflow triggers (lead_inactive, deal_stage_stale, task_due_soon, scheduled)
+
+-- Track when a deal entered its current stage so stale deals can be detected
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS stage_changed_at TIMESTAMPTZ;
+UPDATE deals SET stage_changed_at = COALESCE(updated_at, created_at) WHERE stage_changed_at IS NULL;
+ALTER TABLE deals ALTER COLUMN stage_changed_at SET DEFAULT NOW();
+CREATE INDEX IF NOT EXISTS idx_deals_stage_changed_at ON deals(stage_changed_at) WHERE status = 'open';
+
+CREATE OR REPLACE FUNCTION update_deals_stage_changed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.stage_id IS DISTINCT FROM OLD.stage_id THEN
+        NEW.stage_changed_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_deals_stage_changed_at ON deals;
+CREATE TRIGGER trigger_deals_stage_changed_at
+    BEFORE UPDATE ON deals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_deals_stage_changed_at();
+
+-- Next due run for workflows with a "scheduled" trigger
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_workflows_next_run_at ON workflows(next_run_at) WHERE is_active = true;
+
+-- Records enrolled by time-based triggers, used to avoid re-enrolling the same
+-- record on every cron tick. enrollment_key identifies the occurrence (e.g. the
+-- lead's last activity timestamp, or the scheduled run time).
+CREATE TABLE IF NOT EXISTS workflow_trigger_enrollments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+    record_type TEXT NOT NULL CHECK (record_type IN ('lead', 'deal', 'lead_task')),
+    record_id UUID NOT NULL,
+    enrollment_key TEXT NOT NULL,
+    enrolled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (workflow_id, record_type, record_id, enrollment_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_trigger_enrollments_workflow_id ON workflow_trigger_enrollments(workflow_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_trigger_enrollments_record ON workflow_trigger_enrollments(record_type, record_id);
+
+-- Only the service role (cron) writes enrollments
+ALTER TABLE workflow_trigger_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view enrollments for their workflows"
+    ON workflow_trigger_enrollments FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM workflows w WHERE w.id = workflow_id AND w.user_id = auth.uid()
+    ));
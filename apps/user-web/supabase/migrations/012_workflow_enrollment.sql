@@ -0,0 +1,14 @@
+-- Workflow enrollment rules: re-entry, goals and exit criteria
+
+-- Per-workflow enrollment settings (re_entry, re_entry_days, goal, exit_criteria)
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS enrollment_settings JSONB NOT NULL DEFAULT '{}';
+
+-- Why a run stopped early ('goal_met' or 'exit_criteria_met'); NULL when it ran to the end
+ALTER TABLE workflow_executions ADD COLUMN IF NOT EXISTS exit_reason TEXT
+    CHECK (exit_reason IN ('goal_met', 'exit_criteria_met'));
+
+-- Re-entry checks look up the most recent run of a workflow for a lead or deal
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_lead_enrollment
+    ON workflow_executions(workflow_id, (trigger_context->>'leadId'), started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_deal_enrollment
+    ON workflow_executions(workflow_id, (trigger_context->>'dealId'), started_at DESC);
@@ -0,0 +1,29 @@
+-- AI token usage per workspace (e.g. "Ask AI Agent" workflow steps)
+
+CREATE TABLE IF NOT EXISTS ai_usage_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+
+    source TEXT NOT NULL,           -- What made the call, e.g. 'workflow'
+    source_id UUID,                 -- e.g. the workflow id
+    agent_id UUID,                  -- ai_agents id, when an agent ran
+    provider TEXT,
+    model TEXT,
+    tokens_input INTEGER NOT NULL DEFAULT 0,
+    tokens_output INTEGER NOT NULL DEFAULT 0,
+    metadata JSONB NOT NULL DEFAULT '{}',
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_workspace_created ON ai_usage_log(workspace_id, created_at DESC);
+
+ALTER TABLE ai_usage_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workspace members can view AI usage"
+    ON ai_usage_log FOR SELECT
+    USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members WHERE profile_id = auth.uid()
+        )
+    );
@@ -0,0 +1,39 @@
+-- Immutable workflow versions: each publish snapshots the trigger, actions and enrollment rules
+
+CREATE TABLE IF NOT EXISTS workflow_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+
+    name TEXT NOT NULL,
+    trigger_type TEXT NOT NULL,
+    trigger_config JSONB NOT NULL DEFAULT '{}',
+    actions JSONB NOT NULL DEFAULT '[]',
+    enrollment_settings JSONB NOT NULL DEFAULT '{}',
+
+    restored_from_version INTEGER,  -- Set when the version was created by a rollback
+    published_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    published_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (workflow_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_versions_workflow ON workflow_versions(workflow_id, version_number DESC);
+
+-- The version triggers run; edits to workflows.actions stay a draft until published
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS published_version_id UUID
+    REFERENCES workflow_versions(id) ON DELETE SET NULL;
+
+-- The version a run started on, so resumed runs keep its rules
+ALTER TABLE workflow_executions ADD COLUMN IF NOT EXISTS workflow_version_id UUID
+    REFERENCES workflow_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE workflow_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the server only; they are never updated or deleted
+CREATE POLICY "Users can view versions of their own workflows"
+    ON workflow_versions FOR SELECT
+    USING (
+        workflow_id IN (SELECT id FROM workflows WHERE user_id = auth.uid())
+    );
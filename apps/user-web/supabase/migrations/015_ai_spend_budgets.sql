@@ -0,0 +1,95 @@
+-- Monthly AI spend budgets per workspace and per agent
+-- agent-server prices every agent run (chat, delegation, scheduled) into ai_usage_log,
+-- warns the workspace at the soft limit and refuses new runs past a hard limit
+
+-- ============================================
+-- 1. COST ON USAGE ROWS
+-- ============================================
+
+ALTER TABLE ai_usage_log
+    ADD COLUMN IF NOT EXISTS tokens_cache_read INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS tokens_cache_write INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_workspace_agent_created
+    ON ai_usage_log(workspace_id, agent_id, created_at DESC);
+
+-- ============================================
+-- 2. BUDGETS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS ai_spend_budgets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    agent_id UUID,                  -- ai_agents id; NULL budgets the whole workspace
+
+    monthly_limit_usd NUMERIC(12, 2) NOT NULL CHECK (monthly_limit_usd > 0),
+    soft_limit_percent INTEGER NOT NULL DEFAULT 80 CHECK (soft_limit_percent BETWEEN 1 AND 100),
+    hard_limit BOOLEAN NOT NULL DEFAULT true,   -- refuse new runs once the limit is reached
+
+    -- First day of the month a warning was last posted, so each is posted once a month
+    warned_period DATE,
+    exceeded_period DATE,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_spend_budgets_workspace
+    ON ai_spend_budgets(workspace_id) WHERE agent_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_spend_budgets_agent
+    ON ai_spend_budgets(workspace_id, agent_id) WHERE agent_id IS NOT NULL;
+
+ALTER TABLE ai_spend_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workspace members can view AI spend budgets"
+    ON ai_spend_budgets FOR SELECT
+    USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members WHERE profile_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Workspace owners and admins can manage AI spend budgets"
+    ON ai_spend_budgets FOR ALL
+    USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE profile_id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    )
+    WITH CHECK (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE profile_id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+CREATE OR REPLACE FUNCTION update_ai_spend_budgets_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_ai_spend_budgets_updated_at
+    BEFORE UPDATE ON ai_spend_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_ai_spend_budgets_updated_at();
+
+-- ============================================
+-- 3. SPEND SO FAR
+-- ============================================
+
+-- Spend per agent since p_since; agent_id is NULL for usage not tied to an agent
+CREATE OR REPLACE FUNCTION get_ai_spend(p_workspace_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (agent_id UUID, cost_usd NUMERIC)
+LANGUAGE sql STABLE
+AS $$
+    SELECT agent_id, COALESCE(SUM(cost_usd), 0)
+    FROM ai_usage_log
+    WHERE workspace_id = p_workspace_id
+      AND created_at >= p_since
+    GROUP BY agent_id;
+$$;
@@ -0,0 +1,193 @@
+/**
+ * AI Model Pricing
+ *
+ * Per-token prices for every model agents can run, shared by agent-server (chat, delegation,
+ * scheduled tasks, evals) and user-web (workflow agent steps) so both price spend against
+ * the same budgets identically. Prices are USD per 1M tokens, as published by each provider.
+ * Cache read/write prices apply to prompt caching; providers without a cache discount leave
+ * them unset and cached tokens are billed as regular input.
+ *
+ * Models are looked up by provider and resolved model ID - callers resolve their own aliases
+ * (e.g. "sonnet") first. Unknown models are billed at their provider's default price and logged.
+ */
+
+export interface ModelPrice {
+  input: number
+  output: number
+  cacheRead?: number
+  cacheWrite?: number
+}
+
+interface ProviderPricing {
+  // Keyed by resolved model ID; also matched as a prefix, so dated snapshots
+  // like "gpt-4o-2024-08-06" use the "gpt-4o" price
+  models: Record<string, ModelPrice>
+  // Price for models missing from the table
+  fallback: ModelPrice
+}
+
+/**
+ * Token usage as reported by the AI SDK (LanguageModelUsage fits this shape)
+ * inputTokens includes cached tokens; the details say how many were cache reads/writes.
+ */
+export interface TokenUsage {
+  inputTokens?: number
+  outputTokens?: number
+  inputTokenDetails?: {
+    cacheReadTokens?: number
+    cacheWriteTokens?: number
+  }
+}
+
+const claudeSonnet: ModelPrice = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }
+const grokFast: ModelPrice = { input: 0.2, output: 0.5, cacheRead: 0.05 }
+const free: ModelPrice = { input: 0, output: 0 }
+
+const pricingRegistry: Record<string, ProviderPricing> = {
+  anthropic: {
+    models: {
+      "claude-sonnet-4": claudeSonnet,
+      "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+      "claude-haiku-4": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+      "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+    },
+    fallback: claudeSonnet,
+  },
+  openai: {
+    models: {
+      "gpt-4-turbo": { input: 10, output: 30 },
+      "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+      "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+      o1: { input: 15, output: 60, cacheRead: 7.5 },
+      "o1-mini": { input: 1.1, output: 4.4, cacheRead: 0.55 },
+      "o1-preview": { input: 15, output: 60, cacheRead: 7.5 },
+    },
+    fallback: { input: 2.5, output: 10, cacheRead: 1.25 },
+  },
+  xai: {
+    models: {
+      "grok-4-0709": { input: 3, output: 15, cacheRead: 0.75 },
+      "grok-4-fast": grokFast,
+      "grok-4-fast-non-reasoning": grokFast,
+      "grok-4-1-fast": grokFast,
+      "grok-4-1-fast-non-reasoning": grokFast,
+      "grok-3": { input: 3, output: 15, cacheRead: 0.75 },
+      "grok-3-fast": { input: 5, output: 25, cacheRead: 1.25 },
+      "grok-2-1212": { input: 2, output: 10 },
+    },
+    fallback: grokFast,
+  },
+  google: {
+    models: {
+      "gemini-2.0-flash": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+      "gemini-1.5-pro": { input: 1.25, output: 5, cacheRead: 0.3125 },
+    },
+    fallback: { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  },
+  groq: {
+    models: {
+      "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+      "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+    },
+    fallback: { input: 0.59, output: 0.79 },
+  },
+  mistral: {
+    models: {
+      "mistral-large-latest": { input: 2, output: 6 },
+      "mistral-small-latest": { input: 0.1, output: 0.3 },
+      "codestral-latest": { input: 0.3, output: 0.9 },
+    },
+    fallback: { input: 2, output: 6 },
+  },
+  together: {
+    models: {
+      "meta-llama/Llama-3.3-70B-Instruct-Turbo": { input: 0.88, output: 0.88 },
+    },
+    fallback: { input: 0.88, output: 0.88 },
+  },
+  fireworks: {
+    models: {
+      "accounts/fireworks/models/llama-v3p3-70b-instruct": { input: 0.9, output: 0.9 },
+    },
+    fallback: { input: 0.9, output: 0.9 },
+  },
+  deepseek: {
+    models: {
+      "deepseek-chat": { input: 0.27, output: 1.1, cacheRead: 0.07 },
+      "deepseek-reasoner": { input: 0.55, output: 2.19, cacheRead: 0.14 },
+    },
+    fallback: { input: 0.27, output: 1.1, cacheRead: 0.07 },
+  },
+  perplexity: {
+    models: {
+      sonar: { input: 1, output: 1 },
+      "sonar-pro": { input: 3, output: 15 },
+      "sonar-reasoning": { input: 1, output: 5 },
+      "sonar-reasoning-pro": { input: 2, output: 8 },
+    },
+    fallback: { input: 1, output: 1 },
+  },
+  // Self-hosted: no per-token charge
+  "openai-compatible": {
+    models: {},
+    fallback: free,
+  },
+}
+
+const warnedUnpricedModels = new Set<string>()
+
+function warnUnpriced(label: string, reason: string) {
+  if (warnedUnpricedModels.has(label)) return
+  warnedUnpricedModels.add(label)
+  console.warn(`[Model Pricing] ${label}: ${reason}`)
+}
+
+/**
+ * Get the price of a model
+ *
+ * @param provider - The AI provider name, e.g. "anthropic"
+ * @param modelId - The resolved model ID, e.g. "claude-sonnet-4-20250514"
+ */
+export function getModelPrice(provider: string, modelId: string): ModelPrice {
+  const pricing = pricingRegistry[provider]
+
+  if (!pricing) {
+    warnUnpriced(`${provider}/${modelId}`, "unknown provider, billing at Sonnet prices")
+    return claudeSonnet
+  }
+
+  const exact = pricing.models[modelId]
+  if (exact) return exact
+
+  // Longest matching prefix, so "gpt-4o-mini-2024-07-18" isn't priced as "gpt-4o"
+  const prefix = Object.keys(pricing.models)
+    .filter((key) => modelId.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  if (prefix) return pricing.models[prefix]
+
+  if (provider !== "openai-compatible") {
+    warnUnpriced(`${provider}/${modelId}`, "no price listed, billing at the provider's default price")
+  }
+  return pricing.fallback
+}
+
+/**
+ * Calculate the cost in USD of a model call from its token usage
+ */
+export function calculateCost(provider: string, modelId: string, usage: TokenUsage): number {
+  const price = getModelPrice(provider, modelId)
+
+  const inputTokens = usage.inputTokens ?? 0
+  const outputTokens = usage.outputTokens ?? 0
+  const cacheReadTokens = usage.inputTokenDetails?.cacheReadTokens ?? 0
+  const cacheWriteTokens = usage.inputTokenDetails?.cacheWriteTokens ?? 0
+  const uncachedTokens = Math.max(inputTokens - cacheReadTokens - cacheWriteTokens, 0)
+
+  const cost =
+    uncachedTokens * price.input +
+    cacheReadTokens * (price.cacheRead ?? price.input) +
+    cacheWriteTokens * (price.cacheWrite ?? price.input) +
+    outputTokens * price.output
+
+  return cost / 1_000_000
+}
@@ -20,6 +20,10 @@ export type AuditAction =
   | 'workflow_scheduled_action_completed'
   | 'workflow_scheduled_action_failed'
   | 'cron_job_triggered'
+  | 'memory_fact_updated'
+  | 'memory_fact_deleted'
+  | 'memory_exported'
+  | 'memory_forgotten'
 
 export type AuditResourceType = 
   | 'agent_schedule'
@@ -27,6 +31,8 @@ export type AuditResourceType =
   | 'workflow_scheduled_action'
   | 'workflow_execution'
   | 'cron_job'
+  | 'agent_memory_fact'
+  | 'user'
 
 export interface AuditLogEntry {
   id: string
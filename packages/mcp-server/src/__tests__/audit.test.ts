@@ -0,0 +1,167 @@
+/**
+ * Tests for the tool-call audit trail
+ *
+ * Tests cover:
+ * - redactArguments: secrets, long strings and large arrays
+ * - describeToolResult: outcomes, error categories and rows affected
+ * - CallTool: every call is timed and written to mcp_tool_calls
+ * - Buffered calls are written before the server stops on a signal
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { getSupabase, validateWorkspaceAccess } from '../auth.js'
+import { createMcpServer } from '../server.js'
+import { describeToolResult, flushToolCallLog, redactArguments } from '../lib/audit.js'
+import { clearPermissionCache } from '../lib/permissions.js'
+import { error, success } from '../types.js'
+import { createSupabaseMock, mockResults } from './mocks/supabase.js'
+import { mockValidAccess } from './mocks/auth.js'
+
+vi.mock('../auth.js', () => ({
+  getSupabase: vi.fn(),
+  validateWorkspaceAccess: vi.fn(),
+}))
+
+const WORKSPACE_ID = '11111111-1111-1111-1111-111111111111'
+const AGENT_ID = '22222222-2222-2222-2222-222222222222'
+const TRANSACTION_ID = '88888888-8888-8888-8888-888888888888'
+
+describe('redactArguments', () => {
+  it('should redact secrets at any depth', () => {
+    expect(redactArguments({
+      name: 'Stripe',
+      api_key: 'sk_live_123',
+      config: { webhook_secret: 'whsec_1', routing_number: '021000021' },
+    })).toEqual({
+      name: 'Stripe',
+      api_key: '[REDACTED]',
+      config: { webhook_secret: '[REDACTED]', routing_number: '[REDACTED]' },
+    })
+  })
+
+  it('should truncate long strings and arrays', () => {
+    const redacted = redactArguments({
+      content: 'x'.repeat(600),
+      ids: Array.from({ length: 25 }, (_, i) => i),
+    }) as { content: string; ids: unknown[] }
+
+    expect(redacted.content).toHaveLength(500 + '... (100 more chars)'.length)
+    expect(redacted.ids).toHaveLength(21)
+    expect(redacted.ids[20]).toBe('... 5 more items')
+  })
+})
+
+describe('describeToolResult', () => {
+  it('should classify errors and denials', () => {
+    expect(describeToolResult(error('Permission denied', 'access_denied'), true)).toMatchObject({
+      outcome: 'denied',
+      error_message: 'Permission denied',
+      error_category: 'access_denied',
+    })
+    expect(describeToolResult(error('Database error: timeout', 'database'), false)).toMatchObject({
+      outcome: 'error',
+      error_category: 'database',
+    })
+  })
+
+  it('should classify validation guidance as invalid', () => {
+    const result = { content: [{ type: 'text' as const, text: JSON.stringify({ valid: false, message: 'Invalid input' }) }] }
+
+    expect(describeToolResult(result, true)).toMatchObject({ outcome: 'invalid', error_category: 'validation' })
+  })
+
+  it('should count rows affected', () => {
+    expect(describeToolResult(success({ accounts: [], count: 3 }), false).rows_affected).toBe(3)
+    expect(describeToolResult(success({ deleted_count: 4 }), true).rows_affected).toBe(4)
+    expect(describeToolResult(success({ id: 'a' }), true).rows_affected).toBe(1)
+    expect(describeToolResult(success({ id: 'a' }), false).rows_affected).toBeNull()
+  })
+})
+
+describe('tool call audit log', () => {
+  let supabaseMock: ReturnType<typeof createSupabaseMock>
+  let client: Client
+
+  // Rows inserted into mcp_tool_calls across all flushes
+  const loggedCalls = () =>
+    vi.mocked(supabaseMock.client.from).mock.results
+      .filter((_, i) => vi.mocked(supabaseMock.client.from).mock.calls[i][0] === 'mcp_tool_calls')
+      .flatMap((result) => result.value.insert.mock.calls.flatMap((call: unknown[]) => call[0]))
+
+  beforeEach(async () => {
+    process.env.MCP_AUDIT_LOG = 'on'
+    process.env.AGENT_ID = AGENT_ID
+    clearPermissionCache()
+    supabaseMock = createSupabaseMock()
+    supabaseMock.setQueryResult('workspace_permissions', mockResults.success([]))
+    vi.mocked(getSupabase).mockReturnValue(supabaseMock.client)
+
+    const server = createMcpServer()
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: 'test-client', version: '1.0.0' })
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(async () => {
+    await client.close()
+    process.env.MCP_AUDIT_LOG = 'off'
+    delete process.env.AGENT_ID
+  })
+
+  it('should record a successful call with its caller and latency', async () => {
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'member')
+    supabaseMock.setQueryResult('accounts', mockResults.success([{ id: 'a' }, { id: 'b' }]))
+
+    await client.callTool({ name: 'account_list', arguments: { workspace_id: WORKSPACE_ID } })
+    await flushToolCallLog()
+
+    expect(loggedCalls()).toEqual([
+      expect.objectContaining({
+        tool_name: 'account_list',
+        workspace_id: WORKSPACE_ID,
+        user_id: null, // USER_ID in the test environment is not a UUID
+        agent_id: AGENT_ID,
+        transport: 'stdio',
+        arguments: { workspace_id: WORKSPACE_ID },
+        outcome: 'success',
+        rows_affected: 2,
+        latency_ms: expect.any(Number),
+      }),
+    ])
+  })
+
+  it('should record denied and invalid calls', async () => {
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'member')
+
+    await client.callTool({ name: 'transaction_delete', arguments: { workspace_id: WORKSPACE_ID, transaction_id: TRANSACTION_ID } })
+    await client.callTool({ name: 'transaction_delete', arguments: { workspace_id: WORKSPACE_ID, transaction_id: 'not-a-uuid' } })
+    await flushToolCallLog()
+
+    expect(loggedCalls().map((row: { outcome: string }) => row.outcome)).toEqual(['denied', 'invalid'])
+  })
+
+  it('should flush buffered calls before exiting on SIGTERM', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never)
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'member')
+
+    await client.callTool({ name: 'account_list', arguments: { workspace_id: WORKSPACE_ID } })
+    expect(loggedCalls()).toHaveLength(0)
+
+    process.emit('SIGTERM')
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(143))
+    expect(loggedCalls()).toEqual([expect.objectContaining({ tool_name: 'account_list' })])
+    exit.mockRestore()
+  })
+
+  it('should not record anything when the audit log is off', async () => {
+    process.env.MCP_AUDIT_LOG = 'off'
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'member')
+
+    await client.callTool({ name: 'account_list', arguments: {} })
+    await flushToolCallLog()
+
+    expect(supabaseMock.client.from).not.toHaveBeenCalledWith('mcp_tool_calls')
+  })
+})
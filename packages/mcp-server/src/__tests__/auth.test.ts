@@ -0,0 +1,60 @@
+/**
+ * Tests for workspace access checks
+ *
+ * Tests cover:
+ * - validateWorkspaceAccess: members, HTTP sessions without a user and the stdio fallback
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { initializeSupabase, validateWorkspaceAccess } from '../auth.js'
+import { runWithContext } from '../lib/context.js'
+import { createSupabaseMock } from './mocks/supabase.js'
+
+const supabaseMock = createSupabaseMock()
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => supabaseMock.client),
+}))
+
+const WORKSPACE_ID = '11111111-1111-1111-1111-111111111111'
+const USER_ID = '33333333-3333-3333-3333-333333333333'
+
+describe('validateWorkspaceAccess', () => {
+  const originalUserId = process.env.USER_ID
+
+  beforeEach(() => {
+    supabaseMock.reset()
+    initializeSupabase('http://localhost', 'service-role-key')
+    supabaseMock.setQueryResult('workspaces', { data: { id: WORKSPACE_ID }, error: null })
+    delete process.env.USER_ID
+  })
+
+  afterEach(() => {
+    process.env.USER_ID = originalUserId
+  })
+
+  it('should return the membership of the session user', async () => {
+    supabaseMock.setQueryResult('profiles', { data: { is_superadmin: false }, error: null })
+    supabaseMock.setQueryResult('workspace_members', { data: { role: 'member', profile_id: USER_ID }, error: null })
+
+    const member = await runWithContext({ workspaceId: WORKSPACE_ID, userId: USER_ID }, () =>
+      validateWorkspaceAccess(WORKSPACE_ID)
+    )
+
+    expect(member).toEqual({ role: 'member', profile_id: USER_ID })
+  })
+
+  it('should deny HTTP sessions without a user', async () => {
+    const member = await runWithContext({ workspaceId: WORKSPACE_ID, apiKeyId: 'key-1' }, () =>
+      validateWorkspaceAccess(WORKSPACE_ID)
+    )
+
+    expect(member).toBeNull()
+  })
+
+  it('should keep service-level access for stdio without a user', async () => {
+    const member = await validateWorkspaceAccess(WORKSPACE_ID)
+
+    expect(member).toEqual({ role: 'admin', profile_id: '00000000-0000-0000-0000-000000000000' })
+  })
+})
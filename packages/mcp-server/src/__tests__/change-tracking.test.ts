@@ -0,0 +1,143 @@
+/**
+ * Tests for agent run change tracking
+ *
+ * Tests cover:
+ * - parseAgentRun: reading the run from a tool call's _meta
+ * - trackedFetch: tagging database requests made while a tool call is tracked
+ * - CallTool: write tools called during an agent run are tracked, reads are not
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { getSupabase, validateWorkspaceAccess } from '../auth.js'
+import { createMcpServer } from '../server.js'
+import {
+  changeTrackingHeaders,
+  parseAgentRun,
+  runWithChangeTracking,
+  trackedFetch,
+} from '../lib/change-tracking.js'
+import { clearPermissionCache } from '../lib/permissions.js'
+import { createSupabaseMock, mockResults } from './mocks/supabase.js'
+import { mockValidAccess } from './mocks/auth.js'
+
+vi.mock('../auth.js', () => ({
+  getSupabase: vi.fn(),
+  validateWorkspaceAccess: vi.fn(),
+}))
+
+const WORKSPACE_ID = '11111111-1111-1111-1111-111111111111'
+const CONVERSATION_ID = '33333333-3333-3333-3333-333333333333'
+const TRANSACTION_ID = '88888888-8888-8888-8888-888888888888'
+
+describe('parseAgentRun', () => {
+  it('should read the conversation or execution and tool call', () => {
+    expect(parseAgentRun({ agentRun: { conversationId: CONVERSATION_ID, toolCallId: 'call_abc-1' } })).toEqual({
+      conversationId: CONVERSATION_ID,
+      executionId: undefined,
+      toolCallId: 'call_abc-1',
+    })
+  })
+
+  it('should ignore calls outside an agent run', () => {
+    expect(parseAgentRun(undefined)).toBeNull()
+    expect(parseAgentRun({ progressToken: 1 })).toBeNull()
+    expect(parseAgentRun({ agentRun: { conversationId: 'not-a-uuid', toolCallId: 'call_1' } })).toBeNull()
+  })
+})
+
+describe('trackedFetch', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockResolvedValue(new Response('[]'))
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should pass requests through untouched outside a tracked call', async () => {
+    const init = { headers: { apikey: 'key' } }
+    await trackedFetch('https://db.example.com/rest/v1/transactions', init)
+
+    expect(fetchMock).toHaveBeenCalledWith('https://db.example.com/rest/v1/transactions', init)
+  })
+
+  it('should add the run headers during a tracked call', async () => {
+    await runWithChangeTracking(
+      { conversationId: CONVERSATION_ID, toolCallId: 'call_1', toolName: 'transaction_update', workspaceId: WORKSPACE_ID, agentId: 'not-a-uuid' },
+      () => trackedFetch('https://db.example.com/rest/v1/transactions', { headers: { apikey: 'key' } })
+    )
+
+    const headers = fetchMock.mock.calls[0][1].headers as Headers
+    expect(headers.get('apikey')).toBe('key')
+    expect(headers.get('x-agent-conversation-id')).toBe(CONVERSATION_ID)
+    expect(headers.get('x-agent-tool-name')).toBe('transaction_update')
+    expect(headers.get('x-agent-tool-call-id')).toBe('call_1')
+    expect(headers.get('x-agent-workspace-id')).toBe(WORKSPACE_ID)
+    expect(headers.has('x-agent-id')).toBe(false)
+    expect(headers.has('x-agent-execution-id')).toBe(false)
+  })
+})
+
+describe('CallTool change tracking', () => {
+  let client: Client
+  let headersSeen: Record<string, string>[]
+
+  beforeEach(async () => {
+    clearPermissionCache()
+    headersSeen = []
+    const supabaseMock = createSupabaseMock()
+    supabaseMock.setQueryResult('workspace_permissions', mockResults.success([]))
+    supabaseMock.setQueryResult('accounts', mockResults.success([]))
+    supabaseMock.setQueryResult('transactions', mockResults.success({ id: TRANSACTION_ID, accounts: { workspace_id: WORKSPACE_ID } }))
+    vi.mocked(getSupabase).mockImplementation(() => {
+      headersSeen.push(changeTrackingHeaders())
+      return supabaseMock.client
+    })
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'admin')
+
+    const server = createMcpServer()
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: 'test-client', version: '1.0.0' })
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should tag database requests made by write tools during an agent run', async () => {
+    await client.callTool({
+      name: 'transaction_delete',
+      arguments: { workspace_id: WORKSPACE_ID, transaction_id: TRANSACTION_ID },
+      _meta: { agentRun: { conversationId: CONVERSATION_ID, toolCallId: 'call_1' } },
+    })
+
+    expect(headersSeen.length).toBeGreaterThan(0)
+    expect(headersSeen.at(-1)).toMatchObject({
+      'x-agent-conversation-id': CONVERSATION_ID,
+      'x-agent-tool-name': 'transaction_delete',
+      'x-agent-tool-call-id': 'call_1',
+      'x-agent-workspace-id': WORKSPACE_ID,
+    })
+  })
+
+  it('should not tag read tools or calls outside an agent run', async () => {
+    await client.callTool({
+      name: 'account_list',
+      arguments: { workspace_id: WORKSPACE_ID },
+      _meta: { agentRun: { conversationId: CONVERSATION_ID } },
+    })
+    await client.callTool({
+      name: 'transaction_delete',
+      arguments: { workspace_id: WORKSPACE_ID, transaction_id: TRANSACTION_ID },
+    })
+
+    expect(headersSeen.length).toBeGreaterThan(0)
+    expect(headersSeen.every((headers) => Object.keys(headers).length === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Tests for the JSON Schema advertised for tool inputs
+ *
+ * Tests cover:
+ * - zodToJsonSchema: enums, nested objects, arrays, defaults, formats, bounds, unions
+ * - convertToMCPTools: snapshot of the advertised schema for every tool
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { z } from 'zod'
+import { zodToJsonSchema, toolInputSchema } from '../lib/json-schema.js'
+import { allTools, convertToMCPTools } from '../registry.js'
+
+describe('zodToJsonSchema', () => {
+  it('should keep string formats and length bounds', () => {
+    expect(zodToJsonSchema(z.string().uuid().describe('The task ID'))).toEqual({
+      type: 'string',
+      format: 'uuid',
+      description: 'The task ID',
+    })
+    expect(zodToJsonSchema(z.string().min(1).max(50))).toEqual({ type: 'string', minLength: 1, maxLength: 50 })
+    expect(zodToJsonSchema(z.string().email())).toEqual({ type: 'string', format: 'email' })
+    expect(zodToJsonSchema(z.string().url())).toEqual({ type: 'string', format: 'uri' })
+    expect(zodToJsonSchema(z.string().regex(/^#[0-9a-f]{6}$/))).toEqual({ type: 'string', pattern: '^#[0-9a-f]{6}$' })
+  })
+
+  it('should keep numeric bounds and integer types', () => {
+    expect(zodToJsonSchema(z.number().int().positive().max(100))).toEqual({
+      type: 'integer',
+      exclusiveMinimum: 0,
+      maximum: 100,
+    })
+    expect(zodToJsonSchema(z.number().nonnegative().multipleOf(0.5))).toEqual({
+      type: 'number',
+      minimum: 0,
+      multipleOf: 0.5,
+    })
+  })
+
+  it('should list enum values and defaults', () => {
+    const schema = z.enum(['daily', 'weekly']).optional().default('weekly').describe('How often')
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'string',
+      enum: ['daily', 'weekly'],
+      default: 'weekly',
+      description: 'How often',
+    })
+  })
+
+  it('should describe nested objects and array items', () => {
+    const schema = z.object({
+      items: z
+        .array(
+          z.object({
+            name: z.string(),
+            quantity: z.number().int().min(1).optional(),
+          })
+        )
+        .min(1),
+      metadata: z.record(z.string()).optional(),
+    })
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              quantity: { type: 'integer', minimum: 1 },
+            },
+            required: ['name'],
+          },
+        },
+        metadata: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+      required: ['items'],
+    })
+  })
+
+  it('should convert unions, literals and nullable values', () => {
+    expect(zodToJsonSchema(z.union([z.literal('a'), z.literal('b')]))).toEqual({ type: 'string', enum: ['a', 'b'] })
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    })
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({ type: ['string', 'null'] })
+    expect(zodToJsonSchema(z.enum(['x', 'y']).nullable())).toEqual({ type: ['string', 'null'], enum: ['x', 'y', null] })
+  })
+
+  it('should see through refinements and transforms', () => {
+    const schema = z.string().trim().min(2).refine((v) => v !== 'no').transform((v) => v.toUpperCase())
+
+    expect(zodToJsonSchema(schema)).toEqual({ type: 'string', minLength: 2 })
+  })
+
+  it('should accept anything for z.any()', () => {
+    expect(zodToJsonSchema(z.array(z.any()))).toEqual({ type: 'array', items: {} })
+  })
+
+  it('should always advertise an object input schema', () => {
+    expect(toolInputSchema(z.object({}))).toEqual({ type: 'object', properties: {} })
+  })
+})
+
+describe('convertToMCPTools', () => {
+  const originalEnabledTools = process.env.ENABLED_TOOLS
+
+  afterEach(() => {
+    if (originalEnabledTools === undefined) {
+      delete process.env.ENABLED_TOOLS
+    } else {
+      process.env.ENABLED_TOOLS = originalEnabledTools
+    }
+  })
+
+  it('should advertise enum values the handlers validate', () => {
+    process.env.ENABLED_TOOLS = 'task_add_dependency,recurring_rule_create'
+    const tools = Object.fromEntries(convertToMCPTools().map((tool) => [tool.name, tool.inputSchema]))
+
+    expect(tools.task_add_dependency.properties.dependency_type).toMatchObject({
+      type: 'string',
+      enum: expect.arrayContaining(['finish_to_start']),
+    })
+    expect(tools.recurring_rule_create.properties.frequency).toMatchObject({
+      type: 'string',
+      enum: ['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly'],
+    })
+    expect(tools.recurring_rule_create.required).toContain('frequency')
+  })
+
+  it('should only mark non-optional fields as required', () => {
+    for (const tool of convertToMCPTools()) {
+      expect(tool.inputSchema.required || []).not.toContain('workspace_id')
+    }
+  })
+
+  it('should match the advertised schema snapshot for every tool', () => {
+    delete process.env.ENABLED_TOOLS
+    const tools = convertToMCPTools()
+
+    expect(tools).toHaveLength(Object.keys(allTools).length)
+    expect(Object.fromEntries(tools.map((tool) => [tool.name, tool.inputSchema]))).toMatchSnapshot()
+  })
+})
@@ -34,6 +34,7 @@ interface MockQueryBuilder {
   like: ReturnType<typeof vi.fn>
   ilike: ReturnType<typeof vi.fn>
   is: ReturnType<typeof vi.fn>
+  not: ReturnType<typeof vi.fn>
   in: ReturnType<typeof vi.fn>
   contains: ReturnType<typeof vi.fn>
   containedBy: ReturnType<typeof vi.fn>
@@ -113,6 +114,10 @@ export function createSupabaseMock(): SupabaseMock {
         filters[`${column}_is`] = value
         return builder
       }),
+      not: vi.fn().mockImplementation((column, operator, value) => {
+        filters[`${column}_not_${operator}`] = value
+        return builder
+      }),
       in: vi.fn().mockImplementation((column, values) => {
         filters[`${column}_in`] = values
         return builder
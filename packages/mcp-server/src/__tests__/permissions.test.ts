@@ -0,0 +1,184 @@
+/**
+ * Tests for role permissions on tool calls
+ *
+ * Tests cover:
+ * - Every tool declares a permission
+ * - checkPermission: owners, default role permissions and workspace overrides
+ * - CallTool: denied calls never reach the handler and explain the missing permission
+ * - CallTool: tools without a workspace_id argument are checked against the context workspace
+ * - Resources: reads go through the same permission check
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { getSupabase, validateWorkspaceAccess } from '../auth.js'
+import { allTools } from '../registry.js'
+import { createMcpServer } from '../server.js'
+import { checkPermission, clearPermissionCache } from '../lib/permissions.js'
+import { createSupabaseMock, mockResults } from './mocks/supabase.js'
+import { mockValidAccess } from './mocks/auth.js'
+
+vi.mock('../auth.js', () => ({
+  getSupabase: vi.fn(),
+  validateWorkspaceAccess: vi.fn(),
+}))
+
+const WORKSPACE_ID = 'test-workspace-id'
+const TRANSACTION_ID = '88888888-8888-8888-8888-888888888888'
+const PROFILE_ID = '33333333-3333-3333-3333-333333333333'
+const GOAL_ID = '99999999-9999-9999-9999-999999999999'
+
+describe('tool permissions', () => {
+  it('should declare a permission for every tool', () => {
+    const missing = Object.entries(allTools)
+      .filter(([, tool]) => !/^[a-z_]+:(read|create|write|delete|run)$/.test(tool.permission))
+      .map(([name]) => name)
+
+    expect(missing).toEqual([])
+  })
+
+  it('should mark destructive tools with delete permissions', () => {
+    expect(allTools.transaction_delete.permission).toBe('transactions:delete')
+    expect(allTools.pipeline_delete.permission).toBe('crm:delete')
+    expect(allTools.phone_number_release.permission).toBe('phone_numbers:delete')
+    expect(allTools.agent_delete.permission).toBe('agents:delete')
+  })
+})
+
+describe('checkPermission', () => {
+  let supabaseMock: ReturnType<typeof createSupabaseMock>
+
+  beforeEach(() => {
+    clearPermissionCache()
+    supabaseMock = createSupabaseMock()
+    vi.mocked(getSupabase).mockReturnValue(supabaseMock.client)
+  })
+
+  it('should apply the default role permissions', async () => {
+    supabaseMock.setQueryResult('workspace_permissions', mockResults.success([]))
+
+    await expect(checkPermission(WORKSPACE_ID, 'member', 'transactions:read')).resolves.toBeNull()
+    await expect(checkPermission(WORKSPACE_ID, 'member', 'transactions:delete')).resolves.toContain('can_delete_transactions')
+    await expect(checkPermission(WORKSPACE_ID, 'admin', 'transactions:delete')).resolves.toBeNull()
+    await expect(checkPermission(WORKSPACE_ID, 'admin', 'phone_numbers:delete')).resolves.toContain('can_manage_integrations')
+  })
+
+  it('should let owners do anything and members use open permissions', async () => {
+    await expect(checkPermission(WORKSPACE_ID, 'owner', 'workspace:write')).resolves.toBeNull()
+    await expect(checkPermission(WORKSPACE_ID, 'member', 'messages:create')).resolves.toBeNull()
+    expect(supabaseMock.client.from).not.toHaveBeenCalled()
+  })
+
+  it('should apply workspace overrides', async () => {
+    supabaseMock.setQueryResult('workspace_permissions', mockResults.success([
+      { permission_key: 'can_delete_transactions', is_enabled: true },
+      { permission_key: 'can_view_leads', is_enabled: false },
+    ]))
+
+    await expect(checkPermission(WORKSPACE_ID, 'member', 'transactions:delete')).resolves.toBeNull()
+    await expect(checkPermission(WORKSPACE_ID, 'member', 'crm:read')).resolves.toContain('can_view_leads')
+    expect(supabaseMock.getLastQuery()?.filters).toMatchObject({ workspace_id: WORKSPACE_ID, role: 'member' })
+  })
+})
+
+describe('authorization on MCP requests', () => {
+  let supabaseMock: ReturnType<typeof createSupabaseMock>
+  let client: Client
+
+  beforeEach(async () => {
+    clearPermissionCache()
+    supabaseMock = createSupabaseMock()
+    supabaseMock.setQueryResult('workspace_permissions', mockResults.success([]))
+    vi.mocked(getSupabase).mockReturnValue(supabaseMock.client)
+
+    const server = createMcpServer()
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: 'test-client', version: '1.0.0' })
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should deny a member deleting a transaction before the handler runs', async () => {
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'member')
+
+    const result = await client.callTool({ name: 'transaction_delete', arguments: { transaction_id: TRANSACTION_ID } })
+    const content = result.content as Array<{ type: string; text: string }>
+    const body = JSON.parse(content[0].text)
+
+    expect(result.isError).toBe(true)
+    expect(body.category).toBe('access_denied')
+    expect(body.error).toContain('member role cannot delete transactions')
+    expect(supabaseMock.client.from).not.toHaveBeenCalledWith('transactions')
+  })
+
+  it('should let an admin delete a transaction', async () => {
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'admin')
+    supabaseMock.setQueryResult('transactions', mockResults.success({ id: TRANSACTION_ID, account: { workspace_id: WORKSPACE_ID } }))
+
+    await client.callTool({ name: 'transaction_delete', arguments: { transaction_id: TRANSACTION_ID } })
+
+    expect(supabaseMock.client.from).toHaveBeenCalledWith('transactions')
+  })
+
+  it('should deny access when the caller is not a workspace member', async () => {
+    vi.mocked(validateWorkspaceAccess).mockResolvedValue(null)
+
+    const result = await client.callTool({ name: 'account_list', arguments: {} })
+    const content = result.content as Array<{ type: string; text: string }>
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(content[0].text).error).toBe('Access denied to workspace')
+  })
+
+  it('should check permissions for tools without a workspace_id argument', async () => {
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'member')
+
+    const result = await client.callTool({
+      name: 'goal_delete',
+      arguments: { profile_id: PROFILE_ID, goal_id: GOAL_ID },
+    })
+    const content = result.content as Array<{ type: string; text: string }>
+    const body = JSON.parse(content[0].text)
+
+    expect(result.isError).toBe(true)
+    expect(body.category).toBe('access_denied')
+    expect(body.error).toContain('member role cannot delete goals')
+    expect(vi.mocked(validateWorkspaceAccess)).toHaveBeenCalledWith(WORKSPACE_ID)
+    expect(supabaseMock.client.from).not.toHaveBeenCalledWith('goals')
+  })
+
+  it('should deny tools when no workspace can be resolved', async () => {
+    const workspaceId = process.env.WORKSPACE_ID
+    delete process.env.WORKSPACE_ID
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'owner')
+
+    try {
+      const result = await client.callTool({
+        name: 'goal_delete',
+        arguments: { profile_id: PROFILE_ID, goal_id: GOAL_ID },
+      })
+      const content = result.content as Array<{ type: string; text: string }>
+      const body = JSON.parse(content[0].text)
+
+      expect(result.isError).toBe(true)
+      expect(body.category).toBe('access_denied')
+      expect(body.error).toContain('workspace_id required')
+      expect(supabaseMock.client.from).not.toHaveBeenCalledWith('goals')
+    } finally {
+      process.env.WORKSPACE_ID = workspaceId
+    }
+  })
+
+  it('should check permissions when reading resources', async () => {
+    mockValidAccess(vi.mocked(validateWorkspaceAccess), 'member')
+    supabaseMock.setQueryResult('workspace_permissions', mockResults.success([
+      { permission_key: 'can_view_analytics', is_enabled: false },
+    ]))
+
+    await expect(client.readResource({ uri: 'dreamteam://finance/profit-loss' })).rejects.toThrow('can_view_analytics')
+  })
+})
@@ -0,0 +1,274 @@
+/**
+ * Tests for MCP resources and prompts
+ *
+ * Tests cover:
+ * - blockNoteToMarkdown / excalidrawToMarkdown: rendering stored knowledge content
+ * - resources: listing, templates, reading pages and reports, subscriptions
+ * - prompts: listing, argument validation and assembled context
+ * - ENABLED_TOOLS: resources and prompts follow the tools they are built on
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js'
+import { getSupabase, validateWorkspaceAccess } from '../auth.js'
+import { createMcpServer } from '../server.js'
+import { blockNoteToMarkdown, excalidrawToMarkdown } from '../lib/markdown.js'
+import { createSupabaseMock, mockResults } from './mocks/supabase.js'
+import { mockValidAccess } from './mocks/auth.js'
+import { mockKnowledgePage, mockKnowledgeWhiteboard } from './fixtures/knowledge.js'
+import { mockDeal, mockActivityList, mockPipeline } from './fixtures/crm.js'
+
+vi.mock('../auth.js', () => ({
+  getSupabase: vi.fn(),
+  validateWorkspaceAccess: vi.fn(),
+}))
+
+const PAGE_ID = '44444444-4444-4444-4444-444444444444'
+const WHITEBOARD_ID = '55555555-5555-5555-5555-555555555555'
+const PIPELINE_ID = '66666666-6666-6666-6666-666666666666'
+const DEAL_ID = '77777777-7777-7777-7777-777777777777'
+
+describe('blockNoteToMarkdown', () => {
+  it('should render headings, inline styles, links and lists', () => {
+    const markdown = blockNoteToMarkdown([
+      { type: 'heading', props: { level: 2 }, content: [{ type: 'text', text: 'Plan' }] },
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Read ' },
+          { type: 'text', text: 'this', styles: { bold: true } },
+          { type: 'text', text: ' and ' },
+          { type: 'link', href: 'https://example.com', content: [{ type: 'text', text: 'that' }] },
+        ],
+      },
+      {
+        type: 'bulletListItem',
+        content: [{ type: 'text', text: 'One' }],
+        children: [{ type: 'bulletListItem', content: [{ type: 'text', text: 'Nested' }] }],
+      },
+      { type: 'bulletListItem', content: [{ type: 'text', text: 'Two' }] },
+      { type: 'numberedListItem', content: [{ type: 'text', text: 'First' }] },
+      { type: 'numberedListItem', content: [{ type: 'text', text: 'Second' }] },
+      { type: 'checkListItem', props: { checked: true }, content: [{ type: 'text', text: 'Done' }] },
+    ])
+
+    expect(markdown).toBe(
+      [
+        '## Plan',
+        '',
+        'Read **this** and [that](https://example.com)',
+        '',
+        '- One',
+        '  - Nested',
+        '- Two',
+        '',
+        '1. First',
+        '2. Second',
+        '',
+        '- [x] Done',
+      ].join('\n')
+    )
+  })
+
+  it('should render tables, code blocks and JSON strings', () => {
+    const markdown = blockNoteToMarkdown(JSON.stringify([
+      {
+        type: 'table',
+        content: {
+          type: 'tableContent',
+          rows: [
+            { cells: [[{ type: 'text', text: 'Name' }], [{ type: 'text', text: 'Value' }]] },
+            { cells: [{ type: 'tableCell', content: [{ type: 'text', text: 'a|b' }] }, [{ type: 'text', text: '1' }]] },
+          ],
+        },
+      },
+      { type: 'codeBlock', props: { language: 'ts' }, content: [{ type: 'text', text: 'const x = 1' }] },
+    ]))
+
+    expect(markdown).toBe(
+      ['| Name | Value |', '| --- | --- |', '| a\\|b | 1 |', '', '```ts', 'const x = 1', '```'].join('\n')
+    )
+  })
+
+  it('should pass plain text through and handle empty content', () => {
+    expect(blockNoteToMarkdown('Just text')).toBe('Just text')
+    expect(blockNoteToMarkdown(null)).toBe('')
+  })
+})
+
+describe('excalidrawToMarkdown', () => {
+  it('should list frames, text in reading order and shapes', () => {
+    const markdown = excalidrawToMarkdown({
+      elements: [
+        { type: 'text', text: 'Database', x: 0, y: 200 },
+        { type: 'text', text: 'API', x: 0, y: 100 },
+        { type: 'text', text: 'Removed', x: 0, y: 0, isDeleted: true },
+        { type: 'frame', name: 'Backend' },
+        { type: 'rectangle' },
+        { type: 'rectangle' },
+        { type: 'arrow' },
+      ],
+    })
+
+    expect(markdown).toBe(
+      ['## Frames', '- Backend', '', '## Text', '- API', '- Database', '', '## Shapes', '- arrow: 1', '- rectangle: 2'].join('\n')
+    )
+    expect(excalidrawToMarkdown({ elements: [] })).toBe('_This whiteboard is empty._')
+  })
+})
+
+describe('MCP resources and prompts', () => {
+  let supabaseMock: ReturnType<typeof createSupabaseMock>
+  let client: Client
+
+  const connect = async () => {
+    const server = createMcpServer()
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: 'test-client', version: '1.0.0' })
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+  }
+
+  beforeEach(async () => {
+    supabaseMock = createSupabaseMock()
+    vi.mocked(getSupabase).mockReturnValue(supabaseMock.client)
+    mockValidAccess(vi.mocked(validateWorkspaceAccess))
+  })
+
+  afterEach(async () => {
+    delete process.env.ENABLED_TOOLS
+    delete process.env.MCP_RESOURCE_POLL_MS
+    await client?.close()
+  })
+
+  it('should advertise resource subscriptions and prompts', async () => {
+    await connect()
+
+    expect(client.getServerCapabilities()).toMatchObject({
+      tools: {},
+      resources: { subscribe: true },
+      prompts: {},
+    })
+  })
+
+  it('should list resources and templates', async () => {
+    supabaseMock.setQueryResult('knowledge_pages', mockResults.success([{ ...mockKnowledgePage, id: PAGE_ID }]))
+    supabaseMock.setQueryResult('knowledge_whiteboards', mockResults.success([{ ...mockKnowledgeWhiteboard, id: WHITEBOARD_ID }]))
+    supabaseMock.setQueryResult('lead_pipelines', mockResults.success([{ ...mockPipeline, id: PIPELINE_ID, stages: [] }]))
+    await connect()
+
+    const { resources } = await client.listResources()
+    expect(resources.map((r) => r.uri)).toEqual([
+      `dreamteam://knowledge/pages/${PAGE_ID}`,
+      `dreamteam://knowledge/whiteboards/${WHITEBOARD_ID}`,
+      'dreamteam://finance/profit-loss',
+      `dreamteam://crm/pipelines/${PIPELINE_ID}/summary`,
+    ])
+    expect(resources[0]).toMatchObject({ name: 'Getting Started Guide', mimeType: 'text/markdown' })
+
+    const { resourceTemplates } = await client.listResourceTemplates()
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toContain('dreamteam://knowledge/pages/{id}')
+  })
+
+  it('should read a knowledge page as Markdown', async () => {
+    supabaseMock.setQueryResult('knowledge_pages', mockResults.success({
+      ...mockKnowledgePage,
+      id: PAGE_ID,
+      categories: [{ category: { name: 'Onboarding' } }],
+      content: [{ type: 'heading', props: { level: 2 }, content: [{ type: 'text', text: 'Welcome!' }] }],
+    }))
+    await connect()
+
+    const { contents } = await client.readResource({ uri: `dreamteam://knowledge/pages/${PAGE_ID}` })
+
+    expect(contents[0].mimeType).toBe('text/markdown')
+    expect(contents[0].text).toContain('# book Getting Started Guide')
+    expect(contents[0].text).toContain('_Categories: Onboarding_')
+    expect(contents[0].text).toContain('## Welcome!')
+  })
+
+  it('should render a profit & loss statement for a date range', async () => {
+    supabaseMock.setQueryResult('accounts', mockResults.success([{ id: 'acc-1' }]))
+    supabaseMock.setQueryResult('transactions', mockResults.success([
+      { amount: 5000, category: { id: 'c1', name: 'Sales', type: 'income' } },
+      { amount: -1200.5, category: { id: 'c2', name: 'Rent', type: 'expense' } },
+    ]))
+    await connect()
+
+    const { contents } = await client.readResource({ uri: 'dreamteam://finance/profit-loss/2024-01-01/2024-01-31' })
+
+    expect(contents[0].text).toContain('# Profit & Loss: 2024-01-01 to 2024-01-31')
+    expect(contents[0].text).toContain('| Sales | $5,000.00 |')
+    expect(contents[0].text).toContain('## Net profit: $3,799.50 (75.99% margin)')
+    expect(supabaseMock.getLastQuery()?.filters).toMatchObject({ date_gte: '2024-01-01', date_lte: '2024-01-31' })
+  })
+
+  it('should surface tool errors and unknown URIs as MCP errors', async () => {
+    supabaseMock.setQueryResult('knowledge_pages', mockResults.notFound())
+    await connect()
+
+    await expect(client.readResource({ uri: `dreamteam://knowledge/pages/${PAGE_ID}` })).rejects.toThrow('Page not found')
+    await expect(client.readResource({ uri: 'dreamteam://unknown/thing' })).rejects.toThrow('Unknown resource')
+  })
+
+  it('should notify subscribers when a resource changes', async () => {
+    process.env.MCP_RESOURCE_POLL_MS = '20'
+    const page = { ...mockKnowledgePage, id: PAGE_ID }
+    supabaseMock.setQueryResult('knowledge_pages', mockResults.success(page))
+    await connect()
+
+    const updated = vi.fn()
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated(notification.params.uri)
+    })
+    await client.subscribeResource({ uri: `dreamteam://knowledge/pages/${PAGE_ID}` })
+
+    // Unchanged content does not notify
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    expect(updated).not.toHaveBeenCalled()
+
+    supabaseMock.setQueryResult('knowledge_pages', mockResults.success({ ...page, title: 'Renamed' }))
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledWith(`dreamteam://knowledge/pages/${PAGE_ID}`))
+    await client.unsubscribeResource({ uri: `dreamteam://knowledge/pages/${PAGE_ID}` })
+  })
+
+  it('should assemble the deal review prompt', async () => {
+    supabaseMock.setQueryResult('lead_opportunities', mockResults.success({ ...mockDeal, id: DEAL_ID }))
+    supabaseMock.setQueryResult('activities', mockResults.success(mockActivityList))
+    await connect()
+
+    const { prompts } = await client.listPrompts()
+    expect(prompts.map((p) => p.name)).toEqual(['weekly_finance_review', 'deal_review', 'pipeline_review'])
+
+    const result = await client.getPrompt({ name: 'deal_review', arguments: { deal_id: DEAL_ID } })
+    expect(result.messages[0].content).toMatchObject({ type: 'text', text: expect.stringContaining(mockDeal.name) })
+    expect(result.messages[1].content).toMatchObject({
+      type: 'resource',
+      resource: { uri: `dreamteam://crm/deals/${DEAL_ID}`, mimeType: 'application/json' },
+    })
+    expect(result.messages).toHaveLength(3)
+  })
+
+  it('should validate prompt arguments', async () => {
+    await connect()
+
+    await expect(client.getPrompt({ name: 'deal_review', arguments: { deal_id: 'nope' } })).rejects.toThrow('Invalid arguments')
+    await expect(client.getPrompt({ name: 'weekly_finance_review', arguments: { week_ending: 'friday' } })).rejects.toThrow('YYYY-MM-DD')
+    await expect(client.getPrompt({ name: 'missing_prompt' })).rejects.toThrow('Unknown prompt')
+  })
+
+  it('should only offer resources and prompts whose tools are enabled', async () => {
+    process.env.ENABLED_TOOLS = 'knowledge_page_list,knowledge_page_get,deal_get,deal_get_activities'
+    supabaseMock.setQueryResult('knowledge_pages', mockResults.success([]))
+    await connect()
+
+    const { resourceTemplates } = await client.listResourceTemplates()
+    expect(resourceTemplates.map((t) => t.name)).toEqual(['knowledge_page'])
+
+    const { prompts } = await client.listPrompts()
+    expect(prompts.map((p) => p.name)).toEqual(['deal_review'])
+
+    await expect(client.readResource({ uri: 'dreamteam://finance/profit-loss' })).rejects.toThrow('Unknown resource')
+  })
+})
@@ -13,6 +13,9 @@ import { vi } from 'vitest'
 process.env.WORKSPACE_ID = 'test-workspace-id'
 process.env.USER_ID = 'test-user-id'
 
+// Tool tests don't write to the tool-call audit log - audit.test.ts turns it back on
+process.env.MCP_AUDIT_LOG = 'off'
+
 // Reset all mocks between tests
 beforeEach(() => {
   vi.clearAllMocks()
@@ -1,5 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
-import { getAuthenticatedUserId } from './lib/context.js'
+import { getAuthenticatedUserId, getRequestContext } from './lib/context.js'
+import { trackedFetch } from './lib/change-tracking.js'
 
 // Supabase client singleton for the MCP server
 let supabaseClient: SupabaseClient | null = null
@@ -14,6 +15,8 @@ export function initializeSupabase(url: string, serviceRoleKey: string): void {
       autoRefreshToken: false,
       persistSession: false,
     },
+    // Tags writes made during an agent run so they can be undone
+    global: { fetch: trackedFetch },
   })
 }
 
@@ -34,13 +37,20 @@ export function getSupabase(): SupabaseClient {
  * Validate that a profile has access to a workspace
  * Returns the workspace member record if valid
  *
- * If no profileId is passed, uses USER_ID from environment (set by agent-server).
+ * If no profileId is passed, uses the HTTP session's user or USER_ID from environment (set by agent-server).
  * This ensures proper per-user authorization when MCP server is spawned for a session.
+ * Only stdio without a user falls back to service-level access; HTTP requests need a user.
  */
 export async function validateWorkspaceAccess(
   workspaceId: string,
   profileId?: string
 ): Promise<{ role: string; profile_id: string } | null> {
+  // HTTP sessions are bound to the workspace they authenticated for
+  const context = getRequestContext()
+  if (context && context.workspaceId !== workspaceId) {
+    return null
+  }
+
   const supabase = getSupabase()
 
   // Use explicitly passed profileId, or fall back to USER_ID from environment
@@ -74,7 +84,13 @@ export async function validateWorkspaceAccess(
     return member
   }
 
-  // No user context (standalone MCP usage without agent-server)
+  // HTTP callers must act as a user - an API key without a creator or a token
+  // without a user gets nothing, rather than the service-level access below
+  if (context) {
+    return null
+  }
+
+  // No user context (standalone stdio MCP usage without agent-server)
   // Just verify workspace exists - this is a fallback for development/testing
   const { data: workspace, error } = await supabase
     .from('workspaces')
@@ -0,0 +1,156 @@
+/**
+ * Streamable HTTP transport.
+ *
+ * Serves MCP at POST/GET/DELETE /mcp. Every request is authenticated (see lib/http-auth.ts),
+ * and runs inside the caller's request context so tools act for that workspace and user.
+ * A session stays bound to the workspace and user that initialized it.
+ */
+
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'node:http'
+import { randomUUID } from 'node:crypto'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { createMcpServer } from './server.js'
+import { runWithContext, type RequestContext } from './lib/context.js'
+import { authenticateRequest } from './lib/http-auth.js'
+
+const MCP_PATH = '/mcp'
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+const SESSION_IDLE_MS = 30 * 60 * 1000
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport
+  context: RequestContext
+  lastSeen: number
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code: number = -32000) {
+    super(message)
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) return
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}),
+  })
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }))
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large')
+    }
+    chunks.push(chunk as Buffer)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    throw new HttpError(400, 'Parse error', -32700)
+  }
+}
+
+// A session may only be used by the workspace and user that started it
+function isSamePrincipal(a: RequestContext, b: RequestContext): boolean {
+  return a.workspaceId === b.workspaceId && (a.userId || null) === (b.userId || null)
+}
+
+/**
+ * Start the HTTP server
+ */
+export async function startHttpServer(port: number): Promise<HttpServer> {
+  const sessions = new Map<string, HttpSession>()
+
+  const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const context = await authenticateRequest(req.headers.authorization)
+    if (!context) {
+      throw new HttpError(401, 'Unauthorized: provide a workspace API key or session token as a Bearer token', -32001)
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined
+    const sessionId = req.headers['mcp-session-id']
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId)
+      if (!session) {
+        throw new HttpError(404, 'Session not found', -32001)
+      }
+      if (!isSamePrincipal(session.context, context)) {
+        throw new HttpError(403, 'Session belongs to a different workspace or user', -32001)
+      }
+
+      session.lastSeen = Date.now()
+      await runWithContext(context, () => session.transport.handleRequest(req, res, body))
+      return
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(400, 'Bad Request: no valid session ID provided')
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, context, lastSeen: Date.now() })
+      },
+    })
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId)
+    }
+
+    const server = createMcpServer()
+    await server.connect(transport)
+    await runWithContext(context, () => transport.handleRequest(req, res, body))
+  }
+
+  const httpServer = createServer((req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname
+
+    if (path === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }))
+      return
+    }
+
+    if (path !== MCP_PATH) {
+      sendJsonRpcError(res, 404, -32000, 'Not found')
+      return
+    }
+
+    handleMcpRequest(req, res).catch((err) => {
+      if (err instanceof HttpError) {
+        sendJsonRpcError(res, err.status, err.code, err.message)
+        return
+      }
+      console.error('[MCP HTTP] Request failed:', err)
+      sendJsonRpcError(res, 500, -32603, 'Internal server error')
+    })
+  })
+
+  // Close sessions nobody has used for a while
+  const cleanupInterval = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS
+    for (const session of sessions.values()) {
+      if (session.lastSeen < cutoff) {
+        session.transport.close().catch(() => {})
+      }
+    }
+  }, 60 * 1000)
+  cleanupInterval.unref()
+  httpServer.on('close', () => {
+    clearInterval(cleanupInterval)
+    for (const session of sessions.values()) {
+      session.transport.close().catch(() => {})
+    }
+  })
+
+  await new Promise<void>((resolve) => httpServer.listen(port, resolve))
+  return httpServer
+}
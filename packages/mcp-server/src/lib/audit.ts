@@ -0,0 +1,192 @@
+/**
+ * Tool-call audit trail.
+ *
+ * The call handler records every tool call - who made it, redacted arguments, outcome,
+ * latency and rows affected - in the mcp_tool_calls table. Rows are buffered and written
+ * in batches so logging never slows down or fails a tool call. Set MCP_AUDIT_LOG=off to disable.
+ */
+
+import { getSupabase } from '../auth.js'
+import { getAgentId, getCallWorkspaceId, getRequestContext, getUserId } from './context.js'
+import type { ToolResult } from '../types.js'
+
+export type ToolCallOutcome = 'success' | 'error' | 'denied' | 'invalid'
+
+export interface ToolCallLogEntry {
+  tool_name: string
+  workspace_id: string | null
+  user_id: string | null
+  agent_id: string | null
+  api_key_id: string | null
+  transport: 'stdio' | 'http'
+  arguments: unknown
+  outcome: ToolCallOutcome
+  error_message: string | null
+  error_category: string | null
+  latency_ms: number
+  rows_affected: number | null
+  created_at: string
+}
+
+const FLUSH_INTERVAL_MS = 2000
+const MAX_BATCH_SIZE = 50
+const MAX_STRING_LENGTH = 500
+const MAX_ARRAY_ITEMS = 20
+const MAX_DEPTH = 4
+// Don't hold up a shutdown for longer than this on a slow database
+const SHUTDOWN_FLUSH_TIMEOUT_MS = 5000
+const SHUTDOWN_SIGNALS = [['SIGTERM', 143], ['SIGINT', 130]] as const
+
+const SECRET_KEY_PATTERN = /pass(word)?|secret|token|api[_-]?key|authorization|credential|ssn|cvv|card_number|account_number|routing_number/i
+const ROW_COUNT_KEYS = ['rows_affected', 'deleted_count', 'updated_count', 'created_count', 'count']
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+let buffer: ToolCallLogEntry[] = []
+let flushTimer: NodeJS.Timeout | null = null
+let exitHookInstalled = false
+
+/**
+ * Redact secrets and truncate large values so arguments are safe and small enough to store
+ */
+export function redactArguments(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length - MAX_STRING_LENGTH} more chars)`
+      : value
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : '[object]'
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => redactArguments(item, depth + 1))
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `... ${value.length - MAX_ARRAY_ITEMS} more items`] : items
+  }
+
+  const redacted: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    redacted[key] = SECRET_KEY_PATTERN.test(key) ? '[REDACTED]' : redactArguments(item, depth + 1)
+  }
+  return redacted
+}
+
+/**
+ * Classify a tool result and pull out its error and row count
+ * Writes that don't report a count are assumed to touch one row
+ */
+export function describeToolResult(
+  result: ToolResult,
+  isWrite: boolean
+): Pick<ToolCallLogEntry, 'outcome' | 'error_message' | 'error_category' | 'rows_affected'> {
+  let payload: unknown = null
+  try {
+    payload = JSON.parse(result.content[0]?.text ?? 'null')
+  } catch {
+    // Non-JSON output - nothing more to extract
+  }
+  const body = payload && typeof payload === 'object' && !Array.isArray(payload) ? (payload as Record<string, unknown>) : {}
+
+  if (result.isError) {
+    const category = typeof body.category === 'string' ? body.category : null
+    return {
+      outcome: category === 'access_denied' ? 'denied' : 'error',
+      error_message: typeof body.error === 'string' ? body.error : null,
+      error_category: category,
+      rows_affected: null,
+    }
+  }
+
+  if (body.valid === false) {
+    return { outcome: 'invalid', error_message: typeof body.message === 'string' ? body.message : null, error_category: 'validation', rows_affected: null }
+  }
+
+  const countKey = ROW_COUNT_KEYS.find((key) => typeof body[key] === 'number')
+  const rows = countKey ? (body[countKey] as number) : Array.isArray(payload) ? payload.length : isWrite ? 1 : null
+  return { outcome: 'success', error_message: null, error_category: null, rows_affected: rows }
+}
+
+function asUuid(value: string | undefined | null): string | null {
+  return value && UUID_PATTERN.test(value) ? value : null
+}
+
+/**
+ * Record a tool call for the current caller
+ * The caller (workspace, user, agent, API key) comes from the request context or environment
+ */
+export function recordToolCall(call: {
+  toolName: string
+  args: unknown
+  latencyMs: number
+  result: Pick<ToolCallLogEntry, 'outcome' | 'error_message' | 'error_category' | 'rows_affected'>
+}): void {
+  if (process.env.MCP_AUDIT_LOG === 'off') return
+
+  const context = getRequestContext()
+
+  buffer.push({
+    tool_name: call.toolName,
+    workspace_id: asUuid(getCallWorkspaceId(call.args)),
+    user_id: asUuid(getUserId()),
+    agent_id: asUuid(getAgentId()),
+    api_key_id: asUuid(context?.apiKeyId),
+    transport: context ? 'http' : 'stdio',
+    arguments: redactArguments(call.args ?? {}),
+    ...call.result,
+    latency_ms: Math.round(call.latencyMs),
+    created_at: new Date().toISOString(),
+  })
+
+  if (buffer.length >= MAX_BATCH_SIZE) {
+    void flushToolCallLog()
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => void flushToolCallLog(), FLUSH_INTERVAL_MS)
+    flushTimer.unref()
+  }
+
+  if (!exitHookInstalled) {
+    exitHookInstalled = true
+    installShutdownFlush()
+  }
+}
+
+/**
+ * Write what's left when the server stops
+ * beforeExit only fires when the event loop drains (e.g. a stdio client hung up). SIGTERM and
+ * SIGINT - how clients and process managers normally stop the server - skip it, so those
+ * flush and then exit with the usual signal exit code.
+ */
+function installShutdownFlush(): void {
+  process.once('beforeExit', () => void flushToolCallLog())
+
+  for (const [signal, exitCode] of SHUTDOWN_SIGNALS) {
+    process.once(signal, () => {
+      const deadline = new Promise<void>((resolve) => setTimeout(resolve, SHUTDOWN_FLUSH_TIMEOUT_MS))
+      void Promise.race([flushToolCallLog(), deadline]).finally(() => process.exit(exitCode))
+    })
+  }
+}
+
+/**
+ * Write buffered tool calls to the audit table
+ */
+export async function flushToolCallLog(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+  if (buffer.length === 0) return
+
+  const batch = buffer
+  buffer = []
+  try {
+    const { error } = await getSupabase().from('mcp_tool_calls').insert(batch)
+    if (error) {
+      console.error(`[MCP Audit] Failed to write ${batch.length} tool calls:`, error.message)
+    }
+  } catch (err) {
+    console.error('[MCP Audit] Failed to write tool calls:', err instanceof Error ? err.message : err)
+  }
+}
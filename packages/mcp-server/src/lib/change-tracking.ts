@@ -0,0 +1,87 @@
+/**
+ * Change tracking for agent runs.
+ *
+ * agent-server tags each tool call with the conversation or scheduled execution it belongs to
+ * (params._meta.agentRun). While a write tool runs, every database request carries that run
+ * as x-agent-* headers; row triggers on the tracked tables read them from PostgREST's
+ * request.headers and save before/after snapshots to agent_change_log, so a run can be undone.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export interface AgentRun {
+  conversationId?: string
+  executionId?: string
+  toolCallId?: string   // Ties changes to the tool call shown in the conversation
+}
+
+export interface TrackedToolCall extends AgentRun {
+  toolName: string
+  workspaceId?: string
+  agentId?: string
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const TOOL_CALL_ID_PATTERN = /^[\w-]{1,100}$/
+
+const trackedCall = new AsyncLocalStorage<TrackedToolCall>()
+
+function asUuid(value: unknown): string | undefined {
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value : undefined
+}
+
+/**
+ * Read the agent run from a tool call's _meta
+ * Returns null unless it names a conversation or execution - IDs that aren't UUIDs are dropped
+ */
+export function parseAgentRun(meta: unknown): AgentRun | null {
+  const run = meta && typeof meta === 'object' ? (meta as { agentRun?: unknown }).agentRun : undefined
+  if (!run || typeof run !== 'object') return null
+
+  const { conversationId, executionId, toolCallId } = run as Record<string, unknown>
+  const parsed: AgentRun = {
+    conversationId: asUuid(conversationId),
+    executionId: asUuid(executionId),
+    toolCallId: typeof toolCallId === 'string' && TOOL_CALL_ID_PATTERN.test(toolCallId) ? toolCallId : undefined,
+  }
+  return parsed.conversationId || parsed.executionId ? parsed : null
+}
+
+/**
+ * Run a write tool with its database changes recorded against an agent run
+ */
+export function runWithChangeTracking<T>(call: TrackedToolCall, fn: () => T): T {
+  return trackedCall.run(call, fn)
+}
+
+/**
+ * Headers that tag database requests with the tool call being tracked, if any
+ */
+export function changeTrackingHeaders(): Record<string, string> {
+  const call = trackedCall.getStore()
+  if (!call) return {}
+
+  const headers: Record<string, string> = { 'x-agent-tool-name': call.toolName }
+  if (call.conversationId) headers['x-agent-conversation-id'] = call.conversationId
+  if (call.executionId) headers['x-agent-execution-id'] = call.executionId
+  if (call.toolCallId) headers['x-agent-tool-call-id'] = call.toolCallId
+  if (asUuid(call.workspaceId)) headers['x-agent-workspace-id'] = call.workspaceId!
+  if (asUuid(call.agentId)) headers['x-agent-id'] = call.agentId!
+  return headers
+}
+
+/**
+ * fetch for the Supabase client - adds the change tracking headers to every request
+ */
+export const trackedFetch: typeof fetch = (input, init) => {
+  const headers = changeTrackingHeaders()
+  if (Object.keys(headers).length === 0) {
+    return fetch(input, init)
+  }
+
+  const merged = new Headers(init?.headers)
+  for (const [name, value] of Object.entries(headers)) {
+    merged.set(name, value)
+  }
+  return fetch(input, { ...init, headers: merged })
+}
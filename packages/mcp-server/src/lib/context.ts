@@ -1,28 +1,81 @@
 /**
- * Runtime context from agent-server environment variables.
- * Set when MCP server is spawned for a specific user/workspace session.
+ * Runtime context for the caller a tool runs on behalf of.
+ *
+ * Over stdio the MCP server is spawned for one user/workspace session and reads
+ * WORKSPACE_ID / USER_ID from its environment. Over HTTP one process serves many
+ * workspaces, so each authenticated session runs its requests inside a request context.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export interface RequestContext {
+  workspaceId: string
+  userId?: string
+  agentId?: string         // The agent making the calls, when a session is opened for one
+  apiKeyId?: string        // Set when the session authenticated with a workspace API key
+  enabledTools?: string[]  // Restricts the advertised tools, like ENABLED_TOOLS over stdio
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>()
+
+/**
+ * Run fn with a request context - tools called inside it act for that workspace and user
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn)
+}
+
 /**
- * Get the workspace ID from environment (set by agent-server)
+ * Get the request context for the current HTTP session, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore()
+}
+
+/**
+ * Get the workspace ID from the request context or environment (set by agent-server)
  */
 export function getWorkspaceId(): string | undefined {
-  return process.env.WORKSPACE_ID
+  const context = getRequestContext()
+  return context ? context.workspaceId : process.env.WORKSPACE_ID
 }
 
 /**
- * Get the authenticated user ID from environment (set by agent-server)
+ * Get the authenticated user ID from the request context or environment (set by agent-server)
  */
 export function getUserId(): string | undefined {
-  return process.env.USER_ID
+  const context = getRequestContext()
+  return context ? context.userId : process.env.USER_ID
+}
+
+/**
+ * Get the calling agent's ID from the request context or environment (set by agent-server)
+ */
+export function getAgentId(): string | undefined {
+  const context = getRequestContext()
+  return context ? context.agentId : process.env.AGENT_ID
+}
+
+/**
+ * Get the workspace a tool call acts on: its workspace_id argument, else the context/env workspace
+ */
+export function getCallWorkspaceId(args: unknown): string | undefined {
+  const input = args && typeof args === 'object' ? (args as { workspace_id?: unknown }) : {}
+  return typeof input.workspace_id === 'string' ? input.workspace_id : getWorkspaceId()
 }
 
 /**
- * Resolve workspace ID: explicit param > env var > error
+ * Resolve workspace ID: explicit param > context/env var > error
  * This allows tools to work both with explicit workspace_id params
  * and with auto-injected context from the agent-server.
+ * HTTP sessions are bound to one workspace, so any other workspace_id is rejected.
  */
 export function resolveWorkspaceId(input: { workspace_id?: string }): string {
+  const context = getRequestContext()
+  if (context && input.workspace_id && input.workspace_id !== context.workspaceId) {
+    throw new Error('workspace_id does not match the authenticated workspace')
+  }
+
   const workspaceId = input.workspace_id || getWorkspaceId()
   if (!workspaceId) {
     throw new Error(
@@ -32,6 +85,27 @@ export function resolveWorkspaceId(input: { workspace_id?: string }): string {
   return workspaceId
 }
 
+/**
+ * Check a user-scoped tool's owner argument (profile_id or user_id) against the caller.
+ * The rows those tools touch belong to a user, not a workspace, so over HTTP the
+ * argument must be the authenticated user - anyone else's id would reach their data.
+ * Returns null when allowed, or a message explaining the denial
+ */
+export function checkToolOwner(ownerParam: 'profile_id' | 'user_id', args: Record<string, unknown>): string | null {
+  const context = getRequestContext()
+  if (!context) {
+    return null
+  }
+
+  if (!context.userId) {
+    return `Access denied: ${ownerParam} tools need a user - authenticate with a user's session token or an API key created by a user`
+  }
+  if (args[ownerParam] !== context.userId) {
+    return `Access denied: ${ownerParam} does not match the authenticated user`
+  }
+  return null
+}
+
 /**
  * Alias for getUserId - clearer name for auth contexts
  */
@@ -0,0 +1,95 @@
+/**
+ * Authentication for HTTP sessions.
+ *
+ * Every request carries `Authorization: Bearer <credential>`, either:
+ * - a workspace API key (sk_live_..., created in Team settings), which acts as the user who created it
+ * - a session token signed with MCP_TOKEN_SECRET (see session-token.ts)
+ */
+
+import { createHash } from 'node:crypto'
+import bcrypt from 'bcryptjs'
+import { getSupabase } from '../auth.js'
+import type { RequestContext } from './context.js'
+import { SESSION_TOKEN_PREFIX, verifySessionToken } from './session-token.js'
+
+const API_KEY_PREFIX = 'sk_live_'
+const API_KEY_LOOKUP_LENGTH = 15 // "sk_live_" + first 7 chars, stored as key_prefix
+
+// bcrypt is deliberately slow - remember verified keys briefly so each request doesn't pay for it
+const API_KEY_CACHE_TTL_MS = 60 * 1000
+const apiKeyCache = new Map<string, { context: RequestContext; expiresAt: number }>()
+
+function cacheKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex')
+}
+
+/**
+ * Validate a workspace API key
+ * Returns the context of the key's workspace and creator, or null if unknown, revoked or expired
+ */
+export async function validateApiKey(apiKey: string): Promise<RequestContext | null> {
+  if (!apiKey.startsWith(API_KEY_PREFIX)) return null
+
+  const hashKey = cacheKey(apiKey)
+  const cached = apiKeyCache.get(hashKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.context
+  }
+  apiKeyCache.delete(hashKey)
+
+  const supabase = getSupabase()
+  const { data: keys, error } = await supabase
+    .from('workspace_api_keys')
+    .select('id, workspace_id, key_hash, created_by, expires_at')
+    .eq('key_prefix', apiKey.substring(0, API_KEY_LOOKUP_LENGTH))
+    .eq('is_revoked', false)
+
+  if (error || !keys?.length) {
+    return null
+  }
+
+  const now = new Date()
+  for (const key of keys) {
+    if (key.expires_at && new Date(key.expires_at) <= now) continue
+    if (!(await bcrypt.compare(apiKey, key.key_hash))) continue
+
+    // Record usage without blocking the request
+    supabase
+      .from('workspace_api_keys')
+      .update({ last_used_at: now.toISOString() })
+      .eq('id', key.id)
+      .then(() => {}, () => {})
+
+    const context: RequestContext = {
+      workspaceId: key.workspace_id,
+      ...(key.created_by ? { userId: key.created_by } : {}),
+      apiKeyId: key.id,
+    }
+    apiKeyCache.set(hashKey, { context, expiresAt: Date.now() + API_KEY_CACHE_TTL_MS })
+    return context
+  }
+
+  return null
+}
+
+/**
+ * Authenticate an HTTP request from its Authorization header
+ */
+export async function authenticateRequest(authorization: string | undefined): Promise<RequestContext | null> {
+  if (!authorization?.startsWith('Bearer ')) return null
+  const credential = authorization.slice('Bearer '.length).trim()
+
+  if (credential.startsWith(SESSION_TOKEN_PREFIX)) {
+    const secret = process.env.MCP_TOKEN_SECRET
+    return secret ? verifySessionToken(credential, secret) : null
+  }
+
+  return validateApiKey(credential)
+}
+
+/**
+ * Clear cached API key verifications (e.g. in tests)
+ */
+export function clearApiKeyCache(): void {
+  apiKeyCache.clear()
+}
@@ -0,0 +1,292 @@
+/**
+ * Zod -> JSON Schema conversion for advertised tool input schemas.
+ * Keeps enum values, nested objects, array items, defaults, formats and
+ * numeric/length bounds so models see the same constraints the handlers validate.
+ */
+
+import { z } from 'zod'
+
+type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  description?: string
+  enum?: unknown[]
+  const?: unknown
+  default?: unknown
+  format?: string
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+  items?: JsonSchema
+  prefixItems?: JsonSchema[]
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  not?: JsonSchema
+}
+
+// Input schema advertised for a tool - MCP requires an object at the top level
+export interface ToolInputSchema extends JsonSchema {
+  type: 'object'
+  properties: Record<string, JsonSchema>
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' }
+  const patterns: string[] = []
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value
+        break
+      case 'max':
+        result.maxLength = check.value
+        break
+      case 'length':
+        result.minLength = check.value
+        result.maxLength = check.value
+        break
+      case 'regex':
+        patterns.push(check.regex.source)
+        break
+      case 'startsWith':
+        patterns.push(`^${escapeRegex(check.value)}`)
+        break
+      case 'endsWith':
+        patterns.push(`${escapeRegex(check.value)}$`)
+        break
+      case 'includes':
+        patterns.push(escapeRegex(check.value))
+        break
+      case 'ip':
+        if (check.version) result.format = check.version === 'v4' ? 'ipv4' : 'ipv6'
+        break
+      default:
+        if (STRING_FORMATS[check.kind]) result.format = STRING_FORMATS[check.kind]
+    }
+  }
+
+  if (patterns.length === 1) {
+    result.pattern = patterns[0]
+  } else if (patterns.length > 1) {
+    // JSON Schema allows a single pattern - require all of them with lookaheads
+    result.pattern = patterns.map((p) => `(?=.*(?:${p}))`).join('')
+  }
+
+  return result
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' }
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer'
+        break
+      case 'min':
+        if (check.inclusive) result.minimum = check.value
+        else result.exclusiveMinimum = check.value
+        break
+      case 'max':
+        if (check.inclusive) result.maximum = check.value
+        else result.exclusiveMaximum = check.value
+        break
+      case 'multipleOf':
+        result.multipleOf = check.value
+        break
+    }
+  }
+
+  return result
+}
+
+function convertObject(schema: z.ZodObject<z.ZodRawShape>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+
+  for (const [key, value] of Object.entries(schema.shape)) {
+    properties[key] = zodToJsonSchema(value as z.ZodTypeAny)
+    if (!(value as z.ZodTypeAny).isOptional()) required.push(key)
+  }
+
+  const result: JsonSchema = { type: 'object', properties }
+  if (required.length > 0) result.required = required
+
+  const catchall = schema._def.catchall as z.ZodTypeAny
+  if (!(catchall instanceof z.ZodNever)) {
+    result.additionalProperties = zodToJsonSchema(catchall)
+  } else if (schema._def.unknownKeys === 'strict') {
+    result.additionalProperties = false
+  } else if (schema._def.unknownKeys === 'passthrough') {
+    result.additionalProperties = true
+  }
+
+  return result
+}
+
+function literalType(value: unknown): JsonSchemaType | undefined {
+  if (value === null) return 'null'
+  if (typeof value === 'string') return 'string'
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'boolean') return 'boolean'
+  return undefined
+}
+
+// Unions of literals and enums become a single enum; anything else becomes anyOf
+function convertUnion(options: z.ZodTypeAny[]): JsonSchema {
+  const values: unknown[] = []
+  const allLiteral = options.every((option) => {
+    if (option instanceof z.ZodLiteral) {
+      values.push(option.value)
+      return true
+    }
+    if (option instanceof z.ZodEnum) {
+      values.push(...option.options)
+      return true
+    }
+    return false
+  })
+
+  if (allLiteral) {
+    const types = [...new Set(values.map(literalType))]
+    if (types.length === 1 && types[0]) return { type: types[0], enum: values }
+    return { enum: values }
+  }
+
+  return { anyOf: options.map(zodToJsonSchema) }
+}
+
+// Allow null alongside an already-converted schema
+function withNull(schema: JsonSchema): JsonSchema {
+  if (schema.type && !schema.anyOf) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    return {
+      ...schema,
+      type: types.includes('null') ? types : [...types, 'null'],
+      ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+    }
+  }
+  const { description, ...rest } = schema
+  return { ...(description ? { description } : {}), anyOf: [rest, { type: 'null' }] }
+}
+
+function convertType(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) return convertString(schema)
+  if (schema instanceof z.ZodNumber) return convertNumber(schema)
+  if (schema instanceof z.ZodBigInt) return { type: 'integer' }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' }
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' }
+  if (schema instanceof z.ZodNull) return { type: 'null' }
+  if (schema instanceof z.ZodNever) return { not: {} }
+  if (schema instanceof z.ZodLiteral) {
+    const type = literalType(schema.value)
+    return type ? { type, const: schema.value } : { const: schema.value }
+  }
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] }
+  if (schema instanceof z.ZodNativeEnum) {
+    // Numeric native enums map values back to names - only keep the real values
+    const enumObject = schema.enum as Record<string, string | number>
+    const values = Object.keys(enumObject)
+      .filter((key) => typeof enumObject[enumObject[key]] !== 'number')
+      .map((key) => enumObject[key])
+    return convertUnion(values.map((value) => z.literal(value)))
+  }
+  if (schema instanceof z.ZodObject) return convertObject(schema)
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) }
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value
+    if (schema._def.exactLength) {
+      result.minItems = schema._def.exactLength.value
+      result.maxItems = schema._def.exactLength.value
+    }
+    return result
+  }
+  if (schema instanceof z.ZodSet) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema._def.valueType), uniqueItems: true }
+    if (schema._def.minSize) result.minItems = schema._def.minSize.value
+    if (schema._def.maxSize) result.maxItems = schema._def.maxSize.value
+    return result
+  }
+  if (schema instanceof z.ZodTuple) {
+    const items = schema.items as z.ZodTypeAny[]
+    const rest = schema._def.rest as z.ZodTypeAny | null
+    return {
+      type: 'array',
+      prefixItems: items.map(zodToJsonSchema),
+      minItems: items.length,
+      ...(rest ? { items: zodToJsonSchema(rest) } : { maxItems: items.length }),
+    }
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) }
+  }
+  if (schema instanceof z.ZodUnion) return convertUnion(schema.options)
+  if (schema instanceof z.ZodDiscriminatedUnion) return { anyOf: schema.options.map(zodToJsonSchema) }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [zodToJsonSchema(schema._def.left), zodToJsonSchema(schema._def.right)] }
+  }
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap())
+  if (schema instanceof z.ZodNullable) return withNull(zodToJsonSchema(schema.unwrap()))
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() }
+  }
+  if (schema instanceof z.ZodCatch) return zodToJsonSchema(schema.removeCatch())
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType())
+  if (schema instanceof z.ZodPipeline) return zodToJsonSchema(schema._def.in)
+  if (schema instanceof z.ZodBranded) return zodToJsonSchema(schema.unwrap())
+  if (schema instanceof z.ZodReadonly) return zodToJsonSchema(schema._def.innerType)
+  if (schema instanceof z.ZodLazy) return zodToJsonSchema(schema.schema)
+  if (schema instanceof z.ZodPromise) return zodToJsonSchema(schema.unwrap())
+
+  // z.any(), z.unknown() and anything without a JSON representation accept any value
+  return {}
+}
+
+/**
+ * Convert a Zod schema to JSON Schema
+ * Descriptions on wrappers (e.g. `.optional().describe()`) take precedence over the inner schema's
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convertType(schema)
+  return schema.description ? { ...result, description: schema.description } : result
+}
+
+/**
+ * Convert a tool's Zod input schema to the object schema advertised over MCP
+ */
+export function toolInputSchema(schema: z.ZodTypeAny): ToolInputSchema {
+  const result = zodToJsonSchema(schema)
+  return {
+    ...result,
+    type: 'object',
+    properties: result.properties || {},
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Markdown renderers for stored knowledge content.
+ *
+ * Pages are stored as BlockNote JSON and whiteboards as Excalidraw scenes. MCP
+ * clients read them as resources, so both are flattened to Markdown here.
+ */
+
+interface StyledText {
+  type: 'text'
+  text: string
+  styles?: Record<string, unknown>
+}
+
+interface InlineLink {
+  type: 'link'
+  href: string
+  content: StyledText[] | string
+}
+
+type InlineContent = StyledText | InlineLink | { type: string; [key: string]: unknown }
+
+interface TableCell {
+  type?: 'tableCell'
+  content: InlineContent[]
+}
+
+interface TableContent {
+  type: 'tableContent'
+  rows: Array<{ cells: Array<InlineContent[] | TableCell> }>
+}
+
+export interface BlockNoteBlock {
+  id?: string
+  type: string
+  props?: Record<string, unknown>
+  content?: InlineContent[] | TableContent | string
+  children?: BlockNoteBlock[]
+}
+
+interface ExcalidrawElement {
+  type: string
+  text?: string
+  name?: string | null
+  x?: number
+  y?: number
+  isDeleted?: boolean
+}
+
+function renderStyledText(node: StyledText): string {
+  const styles = node.styles || {}
+  let text = node.text
+  if (!text.trim()) return text
+  if (styles.code) return `\`${text}\``
+  if (styles.bold) text = `**${text}**`
+  if (styles.italic) text = `*${text}*`
+  if (styles.strike) text = `~~${text}~~`
+  return text
+}
+
+function renderInline(content: BlockNoteBlock['content']): string {
+  if (!content) return ''
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+
+  return content
+    .map((node) => {
+      if (node.type === 'text') return renderStyledText(node as StyledText)
+      if (node.type === 'link') {
+        const link = node as InlineLink
+        return `[${renderInline(link.content) || link.href}](${link.href})`
+      }
+      // Mentions and other custom inline content carry their label in props
+      const props = (node as { props?: Record<string, unknown> }).props
+      return typeof props?.name === 'string' ? `@${props.name}` : ''
+    })
+    .join('')
+}
+
+function renderTable(table: TableContent): string[] {
+  const rows = table.rows.map((row) =>
+    row.cells.map((cell) => {
+      const inline = Array.isArray(cell) ? cell : cell.content
+      return renderInline(inline).replace(/\|/g, '\\|').replace(/\n/g, ' ')
+    })
+  )
+  if (rows.length === 0) return []
+
+  const width = Math.max(...rows.map((r) => r.length))
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill('')]
+  return [
+    `| ${pad(rows[0]).join(' | ')} |`,
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map((r) => `| ${pad(r).join(' | ')} |`),
+  ]
+}
+
+function renderBlocks(blocks: BlockNoteBlock[], indent: string): string[] {
+  const lines: string[] = []
+  let number = 0
+  let previousType: string | null = null
+
+  for (const block of blocks) {
+    const props = block.props || {}
+    const text = block.type === 'table' ? '' : renderInline(block.content)
+    number = block.type === 'numberedListItem' ? number + 1 : 0
+
+    let rendered: string[]
+    let childIndent = indent
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(Math.max(Number(props.level) || 1, 1), 6)
+        rendered = [`${'#'.repeat(level)} ${text}`]
+        break
+      }
+      case 'bulletListItem':
+      case 'toggleListItem':
+        rendered = [`- ${text}`]
+        childIndent = `${indent}  `
+        break
+      case 'numberedListItem':
+        rendered = [`${number}. ${text}`]
+        childIndent = `${indent}   `
+        break
+      case 'checkListItem':
+        rendered = [`- [${props.checked ? 'x' : ' '}] ${text}`]
+        childIndent = `${indent}  `
+        break
+      case 'quote':
+        rendered = text.split('\n').map((line) => `> ${line}`)
+        break
+      case 'codeBlock':
+        rendered = [`\`\`\`${typeof props.language === 'string' ? props.language : ''}`, ...text.split('\n'), '```']
+        break
+      case 'table':
+        rendered = block.content && typeof block.content === 'object' && !Array.isArray(block.content)
+          ? renderTable(block.content)
+          : []
+        break
+      case 'image':
+        rendered = props.url ? [`![${props.caption || props.name || ''}](${props.url})`] : []
+        break
+      case 'video':
+      case 'audio':
+      case 'file':
+        rendered = props.url ? [`[${props.name || props.caption || props.url}](${props.url})`] : []
+        break
+      default:
+        rendered = text ? [text] : []
+    }
+
+    const isListItem = childIndent !== indent
+    // Markdown needs blank lines between blocks, but not between items of the same list
+    if (lines.length > 0 && !(isListItem && previousType === block.type)) {
+      lines.push('')
+    }
+    lines.push(...rendered.map((line) => (line ? `${indent}${line}` : line)))
+
+    if (block.children?.length) {
+      if (!isListItem) lines.push('')
+      lines.push(...renderBlocks(block.children, childIndent))
+    }
+    previousType = block.type
+  }
+
+  return lines
+}
+
+/**
+ * Parse stored page content - BlockNote JSON, a JSON string of it, or plain text
+ */
+function parseBlocks(content: unknown): BlockNoteBlock[] | string {
+  if (typeof content === 'string') {
+    try {
+      return parseBlocks(JSON.parse(content))
+    } catch {
+      return content
+    }
+  }
+  return Array.isArray(content) ? (content as BlockNoteBlock[]) : []
+}
+
+/**
+ * Render BlockNote document content to Markdown
+ */
+export function blockNoteToMarkdown(content: unknown): string {
+  const blocks = parseBlocks(content)
+  if (typeof blocks === 'string') return blocks.trim()
+
+  return renderBlocks(blocks, '')
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Render an Excalidraw scene to Markdown: frames, text in reading order, and a shape tally
+ */
+export function excalidrawToMarkdown(scene: unknown): string {
+  const parsed = typeof scene === 'string' ? safeParse(scene) : scene
+  const elements = ((parsed as { elements?: ExcalidrawElement[] } | null)?.elements || [])
+    .filter((el) => !el.isDeleted)
+
+  const frames = elements.filter((el) => el.type === 'frame' && el.name).map((el) => el.name as string)
+  const texts = elements
+    .filter((el) => el.type === 'text' && el.text?.trim())
+    .sort((a, b) => (a.y ?? 0) - (b.y ?? 0) || (a.x ?? 0) - (b.x ?? 0))
+    .map((el) => el.text!.trim().replace(/\n+/g, ' '))
+
+  const shapeCounts: Record<string, number> = {}
+  for (const el of elements) {
+    if (el.type === 'text' || el.type === 'frame') continue
+    shapeCounts[el.type] = (shapeCounts[el.type] || 0) + 1
+  }
+
+  const sections: string[] = []
+  if (frames.length > 0) {
+    sections.push(['## Frames', ...frames.map((name) => `- ${name}`)].join('\n'))
+  }
+  if (texts.length > 0) {
+    sections.push(['## Text', ...texts.map((text) => `- ${text}`)].join('\n'))
+  }
+  const shapes = Object.entries(shapeCounts).sort(([a], [b]) => a.localeCompare(b))
+  if (shapes.length > 0) {
+    sections.push(['## Shapes', ...shapes.map(([type, count]) => `- ${type}: ${count}`)].join('\n'))
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') : '_This whiteboard is empty._'
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Format a number as a currency amount, e.g. 1234.5 -> "$1,234.50"
+ */
+export function formatMoney(amount: number): string {
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
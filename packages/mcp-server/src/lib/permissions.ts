@@ -0,0 +1,353 @@
+/**
+ * Role permissions for tool calls.
+ *
+ * Every tool declares the permission it needs as `<domain>:<action>`. The rules below
+ * map that to a workspace permission key (the same keys managed under Team settings >
+ * Permissions and stored in workspace_permissions), or to null when any member may do it.
+ * Owners have every permission; admins and members get the workspace's configured
+ * permissions, falling back to the same defaults as /api/team/permissions.
+ */
+
+import { getSupabase, validateWorkspaceAccess } from '../auth.js'
+import { resolveWorkspaceId } from './context.js'
+import { error, type ToolResult } from '../types.js'
+
+export type PermissionKey =
+  | 'can_invite'
+  | 'can_remove_members'
+  | 'can_change_roles'
+  | 'can_manage_product_access'
+  | 'can_edit_workspace'
+  | 'can_manage_integrations'
+  | 'can_manage_billing'
+  | 'can_delete_content'
+  | 'can_export_data'
+  | 'can_import_data'
+  | 'can_view_transactions'
+  | 'can_create_transactions'
+  | 'can_edit_transactions'
+  | 'can_delete_transactions'
+  | 'can_manage_budgets'
+  | 'can_manage_accounts'
+  | 'can_view_leads'
+  | 'can_create_leads'
+  | 'can_edit_leads'
+  | 'can_delete_leads'
+  | 'can_assign_leads'
+  | 'can_manage_deals'
+  | 'can_create_channels'
+  | 'can_delete_channels'
+  | 'can_pin_messages'
+  | 'can_delete_messages'
+  | 'can_manage_documents'
+  | 'can_view_analytics'
+  | 'can_create_reports'
+  | 'can_view_all_data'
+  | 'can_view_projects'
+  | 'can_create_projects'
+  | 'can_edit_projects'
+  | 'can_delete_projects'
+  | 'can_manage_tasks'
+  | 'can_assign_tasks'
+  | 'can_view_knowledge'
+  | 'can_create_pages'
+  | 'can_edit_pages'
+  | 'can_delete_pages'
+  | 'can_manage_categories'
+  | 'can_view_agents'
+  | 'can_create_agents'
+  | 'can_edit_agents'
+  | 'can_delete_agents'
+  | 'can_run_agents'
+
+type PermissionAction = 'read' | 'create' | 'write' | 'delete' | 'run'
+
+// Permission key required for each domain/action - null means any workspace member
+const PERMISSION_RULES = {
+  accounts: {
+    read: 'can_view_transactions',
+    create: 'can_manage_accounts',
+    write: 'can_manage_accounts',
+    delete: 'can_manage_accounts',
+  },
+  // Transactions and the categories, subscriptions and recurring rules that produce them
+  transactions: {
+    read: 'can_view_transactions',
+    create: 'can_create_transactions',
+    write: 'can_edit_transactions',
+    delete: 'can_delete_transactions',
+  },
+  budgets: {
+    read: 'can_view_transactions',
+    create: 'can_manage_budgets',
+    write: 'can_manage_budgets',
+    delete: 'can_manage_budgets',
+  },
+  analytics: {
+    read: 'can_view_analytics',
+  },
+  // Leads, contacts, activities and pipelines
+  crm: {
+    read: 'can_view_leads',
+    create: 'can_create_leads',
+    write: 'can_edit_leads',
+    delete: 'can_delete_leads',
+  },
+  deals: {
+    read: 'can_view_leads',
+    create: 'can_manage_deals',
+    write: 'can_manage_deals',
+    delete: 'can_manage_deals',
+  },
+  workspace: {
+    read: null,
+    write: 'can_edit_workspace',
+  },
+  members: {
+    read: null,
+    create: 'can_invite',
+    write: 'can_change_roles',
+    delete: 'can_remove_members',
+  },
+  channels: {
+    read: null,
+    create: 'can_create_channels',
+    write: null,
+    delete: 'can_delete_channels',
+  },
+  // Members may edit and delete their own messages - the tools check ownership
+  messages: {
+    read: null,
+    create: null,
+    write: null,
+    delete: null,
+  },
+  // Projects, departments and milestones
+  projects: {
+    read: 'can_view_projects',
+    create: 'can_create_projects',
+    write: 'can_edit_projects',
+    delete: 'can_delete_projects',
+  },
+  tasks: {
+    read: 'can_view_projects',
+    create: 'can_manage_tasks',
+    write: 'can_manage_tasks',
+    delete: 'can_manage_tasks',
+  },
+  // Pages, templates and whiteboards
+  knowledge: {
+    read: 'can_view_knowledge',
+    create: 'can_create_pages',
+    write: 'can_edit_pages',
+    delete: 'can_delete_pages',
+  },
+  knowledge_categories: {
+    read: 'can_view_knowledge',
+    create: 'can_manage_categories',
+    write: 'can_manage_categories',
+    delete: 'can_manage_categories',
+  },
+  // Agents, workflows, agent memories and conversations
+  agents: {
+    read: 'can_view_agents',
+    run: 'can_run_agents',
+    create: 'can_create_agents',
+    write: 'can_edit_agents',
+    delete: 'can_delete_agents',
+  },
+  // Goals, KPIs and exit plans
+  goals: {
+    read: 'can_view_analytics',
+    create: 'can_create_reports',
+    write: 'can_create_reports',
+    delete: 'can_delete_content',
+  },
+  // Calls and SMS
+  communications: {
+    read: null,
+    create: null,
+    write: null,
+  },
+  phone_numbers: {
+    read: null,
+    create: 'can_manage_integrations',
+    write: 'can_manage_integrations',
+    delete: 'can_manage_integrations',
+  },
+} as const satisfies Record<string, Partial<Record<PermissionAction, PermissionKey | null>>>
+
+type PermissionDomain = keyof typeof PERMISSION_RULES
+
+/**
+ * Permission a tool requires, e.g. 'transactions:delete'
+ */
+export type ToolPermission = {
+  [D in PermissionDomain]: `${D}:${keyof (typeof PERMISSION_RULES)[D] & string}`
+}[PermissionDomain]
+
+// Defaults for workspaces that have not saved a permission - keep in sync with /api/team/permissions
+const DEFAULT_ADMIN_PERMISSIONS: PermissionKey[] = [
+  'can_invite',
+  'can_remove_members',
+  'can_manage_product_access',
+  'can_delete_content',
+  'can_export_data',
+  'can_view_transactions',
+  'can_create_transactions',
+  'can_edit_transactions',
+  'can_delete_transactions',
+  'can_manage_budgets',
+  'can_manage_accounts',
+  'can_view_leads',
+  'can_create_leads',
+  'can_edit_leads',
+  'can_delete_leads',
+  'can_assign_leads',
+  'can_manage_deals',
+  'can_create_channels',
+  'can_pin_messages',
+  'can_view_analytics',
+  'can_create_reports',
+  'can_view_projects',
+  'can_create_projects',
+  'can_edit_projects',
+  'can_delete_projects',
+  'can_manage_tasks',
+  'can_assign_tasks',
+  'can_view_knowledge',
+  'can_create_pages',
+  'can_edit_pages',
+  'can_delete_pages',
+  'can_manage_categories',
+  'can_view_agents',
+  'can_create_agents',
+  'can_edit_agents',
+  'can_delete_agents',
+  'can_run_agents',
+]
+
+const DEFAULT_MEMBER_PERMISSIONS: PermissionKey[] = [
+  'can_view_transactions',
+  'can_view_leads',
+  'can_create_leads',
+  'can_view_analytics',
+  'can_view_projects',
+  'can_manage_tasks',
+  'can_view_knowledge',
+  'can_create_pages',
+  'can_view_agents',
+  'can_run_agents',
+]
+
+const ACTION_LABELS: Record<PermissionAction, string> = {
+  read: 'view',
+  create: 'create',
+  write: 'change',
+  delete: 'delete',
+  run: 'run',
+}
+
+const CACHE_TTL_MS = 30 * 1000
+const permissionCache = new Map<string, { permissions: Set<PermissionKey>; expiresAt: number }>()
+
+/**
+ * Clear cached role permissions (used by tests)
+ */
+export function clearPermissionCache(): void {
+  permissionCache.clear()
+}
+
+/**
+ * Get the permission keys enabled for a role in a workspace
+ */
+export async function getRolePermissions(workspaceId: string, role: string): Promise<Set<PermissionKey>> {
+  const cacheKey = `${workspaceId}:${role}`
+  const cached = permissionCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions
+  }
+
+  const permissions = new Set(role === 'admin' ? DEFAULT_ADMIN_PERMISSIONS : DEFAULT_MEMBER_PERMISSIONS)
+
+  const { data, error } = await getSupabase()
+    .from('workspace_permissions')
+    .select('permission_key, is_enabled')
+    .eq('workspace_id', workspaceId)
+    .eq('role', role)
+
+  if (error) {
+    // Don't cache a failed lookup - fall back to the defaults for this call only
+    console.error('[MCP] Failed to load workspace permissions:', error.message)
+    return permissions
+  }
+
+  for (const row of (data || []) as Array<{ permission_key: PermissionKey; is_enabled: boolean }>) {
+    if (row.is_enabled) {
+      permissions.add(row.permission_key)
+    } else {
+      permissions.delete(row.permission_key)
+    }
+  }
+
+  permissionCache.set(cacheKey, { permissions, expiresAt: Date.now() + CACHE_TTL_MS })
+  return permissions
+}
+
+/**
+ * Check whether a role may use a tool permission
+ * Returns null when allowed, or a message explaining the denial
+ */
+export async function checkPermission(
+  workspaceId: string,
+  role: string,
+  permission: ToolPermission
+): Promise<string | null> {
+  const [domain, action] = permission.split(':') as [PermissionDomain, PermissionAction]
+  const rules = PERMISSION_RULES[domain] as Partial<Record<PermissionAction, PermissionKey | null>>
+  const required = rules[action]
+
+  if (required === undefined) {
+    return `Permission denied: no permission rule for ${permission}`
+  }
+  if (required === null || role === 'owner') {
+    return null
+  }
+
+  const permissions = await getRolePermissions(workspaceId, role)
+  if (permissions.has(required)) {
+    return null
+  }
+
+  const subject = domain.replace(/_/g, ' ')
+  return (
+    `Permission denied: your ${role} role cannot ${ACTION_LABELS[action]} ${subject} in this workspace ` +
+    `(requires the "${required}" permission). Do not retry - ask a workspace owner to enable it under Team settings > Permissions.`
+  )
+}
+
+/**
+ * Authorize a tool call for the caller's role before its handler runs
+ * Returns null when the call may proceed, or an access_denied result for the model
+ */
+export async function authorizeToolCall(
+  permission: ToolPermission,
+  args: { workspace_id?: string }
+): Promise<ToolResult | null> {
+  let workspaceId: string
+  try {
+    workspaceId = resolveWorkspaceId(args)
+  } catch (err) {
+    // Fail closed - tools without a workspace_id argument (goals, workflows) rely on the
+    // context workspace, and skipping the check here would skip it for them entirely
+    return error(err instanceof Error ? err.message : 'Workspace could not be resolved', 'access_denied')
+  }
+
+  const member = await validateWorkspaceAccess(workspaceId)
+  if (!member) {
+    return error('Access denied to workspace', 'access_denied')
+  }
+
+  const denial = await checkPermission(workspaceId, member.role, permission)
+  return denial ? error(denial, 'access_denied') : null
+}
@@ -0,0 +1,78 @@
+/**
+ * Short-lived signed tokens for HTTP sessions.
+ *
+ * Format: mcp_<base64url(JSON claims)>.<base64url(HMAC-SHA256 of the claims part)>
+ * Tokens are signed with MCP_TOKEN_SECRET by trusted services (e.g. agent-server)
+ * and carry the workspace, user, calling agent and optional tool list a session may use.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import type { RequestContext } from './context.js'
+
+export const SESSION_TOKEN_PREFIX = 'mcp_'
+
+const DEFAULT_TTL_SECONDS = 15 * 60
+
+interface SessionTokenClaims {
+  wid: string       // Workspace ID
+  uid?: string      // User ID
+  aid?: string      // Agent ID, recorded in the tool-call audit log
+  tools?: string[]  // Enabled tool names
+  exp: number       // Expiry (unix seconds)
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+/**
+ * Sign a session token for a workspace/user
+ */
+export function signSessionToken(
+  context: RequestContext,
+  secret: string,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS
+): string {
+  const claims: SessionTokenClaims = {
+    wid: context.workspaceId,
+    ...(context.userId ? { uid: context.userId } : {}),
+    ...(context.agentId ? { aid: context.agentId } : {}),
+    ...(context.enabledTools ? { tools: context.enabledTools } : {}),
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  }
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${SESSION_TOKEN_PREFIX}${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * Returns the request context it grants, or null if invalid or expired
+ */
+export function verifySessionToken(token: string, secret: string): RequestContext | null {
+  if (!token.startsWith(SESSION_TOKEN_PREFIX)) return null
+
+  const [payload, signature] = token.slice(SESSION_TOKEN_PREFIX.length).split('.')
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  let claims: SessionTokenClaims
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    return null
+  }
+
+  if (!claims.wid || typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+    return null
+  }
+
+  return {
+    workspaceId: claims.wid,
+    ...(claims.uid ? { userId: claims.uid } : {}),
+    ...(claims.aid ? { agentId: claims.aid } : {}),
+    ...(Array.isArray(claims.tools) ? { enabledTools: claims.tools } : {}),
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * MCP prompts that pre-assemble workspace context for common reviews.
+ *
+ * Each prompt gathers data through the tool handlers (see resources.ts) and returns
+ * a single user message: the instructions followed by the data as embedded resources.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+} from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import { getEnabledTools, type allTools } from './registry.js'
+import { callToolJson, readResource, RESOURCE_SCHEME } from './resources.js'
+
+type ToolName = keyof typeof allTools
+
+interface PromptArgument {
+  name: string
+  description: string
+  required?: boolean
+}
+
+interface PromptDefinition {
+  title: string
+  description: string
+  arguments: PromptArgument[]
+  argsSchema: z.ZodType<Record<string, string | undefined>>
+  tools: ToolName[]
+  build: (args: Record<string, string | undefined>) => Promise<GetPromptResult>
+}
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format')
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function markdownPart(uri: string, text: string) {
+  return {
+    type: 'resource' as const,
+    resource: { uri, mimeType: 'text/markdown', text },
+  }
+}
+
+function jsonPart(uri: string, data: unknown) {
+  return {
+    type: 'resource' as const,
+    resource: { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+  }
+}
+
+function userMessages(instructions: string, parts: Array<ReturnType<typeof markdownPart>>): GetPromptResult['messages'] {
+  return [
+    { role: 'user', content: { type: 'text', text: instructions } },
+    ...parts.map((part) => ({ role: 'user' as const, content: part })),
+  ]
+}
+
+export const prompts: Record<string, PromptDefinition> = {
+  weekly_finance_review: {
+    title: 'Weekly finance review',
+    description: 'Review the last seven days of income, spending and cash flow',
+    arguments: [
+      { name: 'week_ending', description: 'Last day of the week to review (YYYY-MM-DD, defaults to today)' },
+    ],
+    argsSchema: z.object({ week_ending: dateSchema.optional() }),
+    tools: ['analytics_get_profit_loss', 'analytics_get_spending_by_category', 'analytics_get_cash_flow'],
+    build: async ({ week_ending }) => {
+      const end_date = week_ending || new Date().toISOString().slice(0, 10)
+      const start_date = addDays(end_date, -6)
+      const previous = { start_date: addDays(start_date, -7), end_date: addDays(start_date, -1) }
+
+      const plUri = `${RESOURCE_SCHEME}://finance/profit-loss/${start_date}/${end_date}`
+      const previousPlUri = `${RESOURCE_SCHEME}://finance/profit-loss/${previous.start_date}/${previous.end_date}`
+      const [pl, previousPl, spending, cashFlow] = await Promise.all([
+        readResource(plUri),
+        readResource(previousPlUri),
+        callToolJson('analytics_get_spending_by_category', { start_date, end_date, limit: 10 }),
+        callToolJson('analytics_get_cash_flow', { start_date, end_date }),
+      ])
+
+      return {
+        description: `Finance review for ${start_date} to ${end_date}`,
+        messages: userMessages(
+          [
+            `Review our finances for the week of ${start_date} to ${end_date}.`,
+            'Compare the profit & loss with the previous week, call out the largest spending categories and any unusual movements, ' +
+              'and check whether cash flow is healthy. Finish with up to three concrete actions.',
+          ].join('\n\n'),
+          [
+            markdownPart(plUri, pl),
+            markdownPart(previousPlUri, previousPl),
+            jsonPart(`${RESOURCE_SCHEME}://finance/spending-by-category/${start_date}/${end_date}`, spending),
+            jsonPart(`${RESOURCE_SCHEME}://finance/cash-flow/${start_date}/${end_date}`, cashFlow),
+          ]
+        ),
+      }
+    },
+  },
+
+  deal_review: {
+    title: 'Deal review',
+    description: 'Review a deal with its lead, contact and recent activity',
+    arguments: [{ name: 'deal_id', description: 'The deal to review', required: true }],
+    argsSchema: z.object({ deal_id: z.string().uuid() }),
+    tools: ['deal_get', 'deal_get_activities'],
+    build: async ({ deal_id }) => {
+      const [deal, activities] = await Promise.all([
+        callToolJson('deal_get', { deal_id: deal_id! }),
+        callToolJson('deal_get_activities', { deal_id: deal_id!, limit: 20 }),
+      ])
+      const name = (deal as { name?: string }).name || 'this deal'
+
+      return {
+        description: `Deal review for ${name}`,
+        messages: userMessages(
+          [
+            `Review the deal "${name}".`,
+            'Summarize where it stands, assess whether the stage, value, probability and expected close date are realistic ' +
+              'given the activity history, flag risks such as stalled follow-ups, and recommend the next step.',
+          ].join('\n\n'),
+          [
+            jsonPart(`${RESOURCE_SCHEME}://crm/deals/${deal_id}`, deal),
+            jsonPart(`${RESOURCE_SCHEME}://crm/deals/${deal_id}/activities`, activities),
+          ]
+        ),
+      }
+    },
+  },
+
+  pipeline_review: {
+    title: 'Pipeline review',
+    description: 'Review a sales pipeline and the deal forecast',
+    arguments: [
+      { name: 'pipeline_id', description: 'The pipeline to review', required: true },
+      { name: 'months_ahead', description: 'Months to forecast (1-12, default 3)' },
+    ],
+    argsSchema: z.object({
+      pipeline_id: z.string().uuid(),
+      months_ahead: z.string().regex(/^(?:[1-9]|1[0-2])$/, 'Expected a number from 1 to 12').optional(),
+    }),
+    tools: ['pipeline_get', 'deal_get_value_by_stage', 'deal_get_forecast'],
+    build: async ({ pipeline_id, months_ahead }) => {
+      const summaryUri = `${RESOURCE_SCHEME}://crm/pipelines/${pipeline_id}/summary`
+      const [summary, forecast] = await Promise.all([
+        readResource(summaryUri),
+        callToolJson('deal_get_forecast', { months_ahead: months_ahead ? Number(months_ahead) : undefined }),
+      ])
+
+      return {
+        description: 'Pipeline review',
+        messages: userMessages(
+          'Review this sales pipeline. Point out stages where leads are piling up or thinning out, ' +
+            'compare the weighted forecast with the total pipeline value, and suggest where the team should focus this week.',
+          [markdownPart(summaryUri, summary), jsonPart(`${RESOURCE_SCHEME}://crm/forecast`, forecast)]
+        ),
+      }
+    },
+  },
+}
+
+function getAvailablePrompts(): Array<[string, PromptDefinition]> {
+  const enabledTools = getEnabledTools()
+  return Object.entries(prompts).filter(([, prompt]) => prompt.tools.every((tool) => tool in enabledTools))
+}
+
+/**
+ * Register prompt handlers on a server
+ */
+export function registerPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: getAvailablePrompts().map(([name, prompt]) => ({
+      name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    })),
+  }))
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params
+    const prompt = getAvailablePrompts().find(([promptName]) => promptName === name)?.[1]
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`)
+    }
+
+    const parsed = prompt.argsSchema.safeParse(args || {})
+    if (!parsed.success) {
+      const issues = parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${issues}`)
+    }
+
+    return prompt.build(parsed.data)
+  })
+}
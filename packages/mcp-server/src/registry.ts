@@ -0,0 +1,67 @@
+/**
+ * Tool registry shared by the server entry point and tests
+ */
+
+import { financeTools } from './tools/finance/index.js'
+import { crmTools } from './tools/crm/index.js'
+import { teamTools } from './tools/team/index.js'
+import { projectsTools } from './tools/projects/index.js'
+import { knowledgeTools } from './tools/knowledge/index.js'
+import { communicationsTools } from './tools/communications/index.js'
+import { goalsTools } from './tools/goals/index.js'
+import { agentsTools } from './tools/agents/index.js'
+import { toolInputSchema } from './lib/json-schema.js'
+import { getRequestContext } from './lib/context.js'
+
+// All available tools (master registry)
+export const allTools = {
+  ...financeTools,
+  ...crmTools,
+  ...teamTools,
+  ...projectsTools,
+  ...knowledgeTools,
+  ...communicationsTools,
+  ...goalsTools,
+  ...agentsTools,
+}
+
+// Filter tools based on the HTTP session's tool list or the ENABLED_TOOLS environment variable
+// This dramatically reduces token consumption by only advertising assigned tools
+export function getEnabledTools(): Record<string, typeof allTools[keyof typeof allTools]> {
+  const contextTools = getRequestContext()?.enabledTools
+  const enabledToolsEnv = process.env.ENABLED_TOOLS
+
+  // If no filter specified, return all tools (backwards compatibility)
+  if (!contextTools && !enabledToolsEnv) {
+    return allTools
+  }
+
+  // Parse comma-separated list of tool names
+  const enabledToolNames = contextTools || enabledToolsEnv!.split(',').map(t => t.trim()).filter(Boolean)
+
+  // If empty after parsing, return all tools
+  if (enabledToolNames.length === 0) {
+    return allTools
+  }
+
+  // Filter to only include enabled tools
+  const filtered: Record<string, typeof allTools[keyof typeof allTools]> = {}
+  for (const toolName of enabledToolNames) {
+    if (toolName in allTools) {
+      filtered[toolName] = allTools[toolName as keyof typeof allTools]
+    }
+  }
+
+  return filtered
+}
+
+// Convert our tool definitions to MCP format
+// Uses filtered tools based on ENABLED_TOOLS env var
+export function convertToMCPTools() {
+  const enabledTools = getEnabledTools()
+  return Object.entries(enabledTools).map(([name, tool]) => ({
+    name,
+    description: tool.description,
+    inputSchema: toolInputSchema(tool.inputSchema),
+  }))
+}
@@ -0,0 +1,443 @@
+/**
+ * MCP resources: knowledge pages, whiteboards and reports rendered to Markdown.
+ *
+ * Resources are read through the same tool handlers the agent calls, so they
+ * get the same workspace access checks, and a resource is only available while
+ * the tools it is built on are enabled for the session.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import { createHash } from 'node:crypto'
+import { allTools, getEnabledTools } from './registry.js'
+import { getRequestContext, runWithContext, type RequestContext } from './lib/context.js'
+import { authorizeToolCall } from './lib/permissions.js'
+import { blockNoteToMarkdown, excalidrawToMarkdown, formatMoney } from './lib/markdown.js'
+import type { ToolResult } from './types.js'
+
+export const RESOURCE_SCHEME = 'dreamteam'
+const MARKDOWN = 'text/markdown'
+const DEFAULT_POLL_MS = 60 * 1000
+
+type ToolName = keyof typeof allTools
+type ToolParams<T extends ToolName> = Parameters<(typeof allTools)[T]['handler']>[0]
+
+export interface ResourceListing {
+  uri: string
+  name: string
+  title?: string
+  description?: string
+  mimeType: string
+}
+
+interface ResourceTemplateDefinition {
+  uriTemplate: string
+  name: string
+  title: string
+  description: string
+  pattern: RegExp
+  tools: ToolName[]
+  // Concrete resources clients can discover without knowing IDs
+  list?: () => Promise<ResourceListing[]>
+  read: (params: Record<string, string>) => Promise<string>
+}
+
+/**
+ * Call a tool handler and return its parsed JSON payload, or throw its error as an MCP error
+ */
+export async function callToolJson<T extends ToolName>(name: T, params: ToolParams<T>): Promise<unknown> {
+  if (!(name in getEnabledTools())) {
+    throw new McpError(ErrorCode.InvalidRequest, `Tool ${name} is not enabled for this session`)
+  }
+
+  const tool = allTools[name]
+  const denied = await authorizeToolCall(tool.permission, params as { workspace_id?: string })
+  const handler = tool.handler as (params: ToolParams<T>) => Promise<ToolResult>
+  const result = denied || (await handler(params))
+  const payload = JSON.parse(result.content[0].text) as { error?: string }
+  if (result.isError) {
+    throw new McpError(ErrorCode.InvalidParams, payload.error || `Tool ${name} failed`)
+  }
+  return payload
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function startOfMonth(): string {
+  return `${today().slice(0, 7)}-01`
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+// Knowledge pages
+
+interface KnowledgePage {
+  id: string
+  title: string | null
+  icon?: string | null
+  content?: unknown
+  updated_at?: string
+  parent?: { id: string; title: string } | null
+  categories?: Array<{ category?: { name: string } | null }>
+  last_edited_by_user?: { name: string | null } | null
+}
+
+async function readPage({ id }: Record<string, string>): Promise<string> {
+  const page = (await callToolJson('knowledge_page_get', { page_id: id })) as KnowledgePage
+  const title = `${page.icon ? `${page.icon} ` : ''}${page.title || 'Untitled'}`
+  const categories = (page.categories || [])
+    .map((c) => c.category?.name)
+    .filter(Boolean)
+
+  const meta = [
+    page.parent ? `Parent: ${page.parent.title} (${pageUri(page.parent.id)})` : null,
+    categories.length > 0 ? `Categories: ${categories.join(', ')}` : null,
+    page.last_edited_by_user?.name ? `Last edited by ${page.last_edited_by_user.name}` : null,
+    page.updated_at ? `Updated ${page.updated_at}` : null,
+  ].filter(Boolean)
+
+  const body = blockNoteToMarkdown(page.content)
+  return [`# ${title}`, meta.map((line) => `_${line}_`).join('  \n'), body || '_This page is empty._']
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+export function pageUri(id: string): string {
+  return `${RESOURCE_SCHEME}://knowledge/pages/${id}`
+}
+
+async function listPages(): Promise<ResourceListing[]> {
+  const { pages } = (await callToolJson('knowledge_page_list', { limit: 100 })) as { pages: KnowledgePage[] }
+  return pages.map((page) => ({
+    uri: pageUri(page.id),
+    name: page.title || 'Untitled',
+    description: 'Knowledge page',
+    mimeType: MARKDOWN,
+  }))
+}
+
+// Whiteboards
+
+interface Whiteboard {
+  id: string
+  title: string | null
+  icon?: string | null
+  content?: unknown
+  updated_at?: string
+}
+
+async function readWhiteboard({ id }: Record<string, string>): Promise<string> {
+  const whiteboard = (await callToolJson('knowledge_whiteboard_get', { whiteboard_id: id })) as Whiteboard
+  const title = `${whiteboard.icon ? `${whiteboard.icon} ` : ''}${whiteboard.title || 'Untitled'}`
+  const meta = whiteboard.updated_at ? `_Updated ${whiteboard.updated_at}_` : ''
+  return [`# ${title}`, meta, excalidrawToMarkdown(whiteboard.content)].filter(Boolean).join('\n\n')
+}
+
+async function listWhiteboards(): Promise<ResourceListing[]> {
+  const { whiteboards } = (await callToolJson('knowledge_whiteboard_list', { limit: 100 })) as { whiteboards: Whiteboard[] }
+  return whiteboards.map((whiteboard) => ({
+    uri: `${RESOURCE_SCHEME}://knowledge/whiteboards/${whiteboard.id}`,
+    name: whiteboard.title || 'Untitled',
+    description: 'Whiteboard',
+    mimeType: MARKDOWN,
+  }))
+}
+
+// Finance reports
+
+interface CategoryTotal {
+  name: string
+  total: number
+}
+
+interface ProfitLoss {
+  income: { total: number; categories: CategoryTotal[] }
+  expenses: { total: number; categories: CategoryTotal[] }
+  net_profit: number
+  profit_margin?: number
+}
+
+async function readProfitLoss({ start, end }: Record<string, string>): Promise<string> {
+  const start_date = start || startOfMonth()
+  const end_date = end || today()
+  if (!isDate(start_date) || !isDate(end_date)) {
+    throw new McpError(ErrorCode.InvalidParams, 'Dates must be in YYYY-MM-DD format')
+  }
+
+  const pl = (await callToolJson('analytics_get_profit_loss', { start_date, end_date })) as ProfitLoss
+  const section = (heading: string, data: ProfitLoss['income']) => [
+    `## ${heading}: ${formatMoney(data.total)}`,
+    data.categories.length > 0
+      ? ['| Category | Amount |', '| --- | ---: |', ...data.categories.map((c) => `| ${c.name} | ${formatMoney(c.total)} |`)].join('\n')
+      : '_No categorized transactions._',
+  ].join('\n\n')
+
+  return [
+    `# Profit & Loss: ${start_date} to ${end_date}`,
+    section('Income', pl.income),
+    section('Expenses', pl.expenses),
+    `## Net profit: ${formatMoney(pl.net_profit)}${pl.profit_margin !== undefined ? ` (${pl.profit_margin}% margin)` : ''}`,
+  ].join('\n\n')
+}
+
+// CRM pipelines
+
+interface PipelineStage {
+  id: string
+  name: string
+  is_won?: boolean
+  is_lost?: boolean
+  lead_count?: number
+}
+
+interface Pipeline {
+  id: string
+  name: string
+  description?: string | null
+  stages?: PipelineStage[]
+}
+
+interface DealValueByStage {
+  by_stage: Record<string, { value: number; count: number }>
+  total_value: number
+  active_value: number
+  deal_count: number
+}
+
+async function readPipelineSummary({ id }: Record<string, string>): Promise<string> {
+  const pipeline = (await callToolJson('pipeline_get', { pipeline_id: id })) as Pipeline
+  const dealValues = (await callToolJson('deal_get_value_by_stage', {})) as DealValueByStage
+  const stages = pipeline.stages || []
+  const totalLeads = stages.reduce((sum, stage) => sum + (stage.lead_count || 0), 0)
+
+  const stageRows = stages.map((stage) => {
+    const marker = stage.is_won ? ' (won)' : stage.is_lost ? ' (lost)' : ''
+    return `| ${stage.name}${marker} | ${stage.lead_count || 0} |`
+  })
+
+  const dealRows = Object.entries(dealValues.by_stage)
+    .sort(([, a], [, b]) => b.value - a.value)
+    .map(([stage, { value, count }]) => `| ${stage} | ${count} | ${formatMoney(value)} |`)
+
+  return [
+    `# Pipeline: ${pipeline.name}`,
+    pipeline.description || '',
+    `## Leads by stage (${totalLeads} total)`,
+    stageRows.length > 0 ? ['| Stage | Leads |', '| --- | ---: |', ...stageRows].join('\n') : '_This pipeline has no stages._',
+    // Deals are tracked per workspace rather than per pipeline
+    `## Workspace deals by stage`,
+    dealRows.length > 0
+      ? ['| Stage | Deals | Value |', '| --- | ---: | ---: |', ...dealRows].join('\n')
+      : '_No deals yet._',
+    `Active pipeline value: ${formatMoney(dealValues.active_value)} across ${dealValues.deal_count} deals (${formatMoney(dealValues.total_value)} including closed).`,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+async function listPipelines(): Promise<ResourceListing[]> {
+  const { pipelines } = (await callToolJson('pipeline_list', {})) as { pipelines: Pipeline[] }
+  return pipelines.map((pipeline) => ({
+    uri: `${RESOURCE_SCHEME}://crm/pipelines/${pipeline.id}/summary`,
+    name: `${pipeline.name} summary`,
+    description: 'Leads and deal value by stage',
+    mimeType: MARKDOWN,
+  }))
+}
+
+const UUID = '([0-9a-fA-F-]{36})'
+
+export const resourceTemplates: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://knowledge/pages/{id}`,
+    name: 'knowledge_page',
+    title: 'Knowledge page',
+    description: 'A knowledge page rendered to Markdown',
+    pattern: new RegExp(`^${RESOURCE_SCHEME}://knowledge/pages/${UUID}$`),
+    tools: ['knowledge_page_get'],
+    list: listPages,
+    read: readPage,
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://knowledge/whiteboards/{id}`,
+    name: 'knowledge_whiteboard',
+    title: 'Whiteboard',
+    description: 'The text, frames and shapes on a whiteboard as Markdown',
+    pattern: new RegExp(`^${RESOURCE_SCHEME}://knowledge/whiteboards/${UUID}$`),
+    tools: ['knowledge_whiteboard_get'],
+    list: listWhiteboards,
+    read: readWhiteboard,
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://finance/profit-loss/{start}/{end}`,
+    name: 'profit_loss',
+    title: 'Profit & loss statement',
+    description: 'Income and expenses by category for a date range (YYYY-MM-DD)',
+    pattern: new RegExp(`^${RESOURCE_SCHEME}://finance/profit-loss(?:/([0-9-]+)/([0-9-]+))?$`),
+    tools: ['analytics_get_profit_loss'],
+    list: async () => [{
+      uri: `${RESOURCE_SCHEME}://finance/profit-loss`,
+      name: 'Profit & loss (month to date)',
+      description: 'Income and expenses by category since the start of the month',
+      mimeType: MARKDOWN,
+    }],
+    read: readProfitLoss,
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://crm/pipelines/{id}/summary`,
+    name: 'pipeline_summary',
+    title: 'Pipeline summary',
+    description: 'Leads per stage and deal value by stage for a sales pipeline',
+    pattern: new RegExp(`^${RESOURCE_SCHEME}://crm/pipelines/${UUID}/summary$`),
+    tools: ['pipeline_get', 'deal_get_value_by_stage'],
+    list: listPipelines,
+    read: readPipelineSummary,
+  },
+]
+
+function getAvailableTemplates(): ResourceTemplateDefinition[] {
+  const enabledTools = getEnabledTools()
+  return resourceTemplates.filter((template) => template.tools.every((tool) => tool in enabledTools))
+}
+
+function matchResource(uri: string): { template: ResourceTemplateDefinition; params: Record<string, string> } {
+  for (const template of getAvailableTemplates()) {
+    const match = template.pattern.exec(uri)
+    if (!match) continue
+
+    const names = [...template.uriTemplate.matchAll(/\{(\w+)\}/g)].map((m) => m[1])
+    const params: Record<string, string> = {}
+    names.forEach((name, i) => {
+      if (match[i + 1]) params[name] = match[i + 1]
+    })
+    return { template, params }
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`)
+}
+
+/**
+ * List concrete resources for every available template
+ * A template whose listing fails (e.g. no access) is skipped rather than failing the whole list
+ */
+export async function listResources(): Promise<ResourceListing[]> {
+  const listings = await Promise.all(
+    getAvailableTemplates().map(async (template) => {
+      if (!template.list) return []
+      try {
+        return await template.list()
+      } catch (err) {
+        console.error(`[MCP] Failed to list ${template.name} resources:`, err instanceof Error ? err.message : err)
+        return []
+      }
+    })
+  )
+  return listings.flat()
+}
+
+/**
+ * Read a resource as Markdown
+ */
+export async function readResource(uri: string): Promise<string> {
+  const { template, params } = matchResource(uri)
+  return template.read(params)
+}
+
+function fingerprint(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+/**
+ * Register resource handlers on a server
+ *
+ * Subscriptions are polled: each subscribed resource is re-rendered on an interval
+ * (MCP_RESOURCE_POLL_MS, default 60s) and the client is notified when the output changes.
+ * This catches edits made in the web app as well as through tools.
+ */
+export function registerResourceHandlers(server: Server): void {
+  const subscriptions = new Map<string, { context?: RequestContext; fingerprint: string | null }>()
+  const pollMs = parseInt(process.env.MCP_RESOURCE_POLL_MS || String(DEFAULT_POLL_MS), 10)
+  let pollTimer: NodeJS.Timeout | null = null
+  let polling = false
+
+  const poll = async () => {
+    if (polling) return
+    polling = true
+    try {
+      for (const [uri, subscription] of subscriptions) {
+        const read = () => readResource(uri)
+        const text = await (subscription.context ? runWithContext(subscription.context, read) : read()).catch(() => null)
+        // A resource that can no longer be read (deleted, access revoked) counts as a change too
+        const next = text === null ? null : fingerprint(text)
+        if (next !== subscription.fingerprint && subscriptions.has(uri)) {
+          subscription.fingerprint = next
+          await server.sendResourceUpdated({ uri }).catch(() => {})
+        }
+      }
+    } finally {
+      polling = false
+    }
+  }
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer)
+    pollTimer = null
+  }
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(),
+  }))
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: getAvailableTemplates().map((template) => ({
+      uriTemplate: template.uriTemplate,
+      name: template.name,
+      title: template.title,
+      description: template.description,
+      mimeType: MARKDOWN,
+    })),
+  }))
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [{ uri: request.params.uri, mimeType: MARKDOWN, text: await readResource(request.params.uri) }],
+  }))
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params
+    // Read once up front so unknown or inaccessible resources are rejected at subscribe time
+    const text = await readResource(uri)
+    subscriptions.set(uri, { context: getRequestContext(), fingerprint: fingerprint(text) })
+
+    if (!pollTimer) {
+      pollTimer = setInterval(() => {
+        poll().catch((err) => console.error('[MCP] Resource poll failed:', err))
+      }, pollMs)
+      pollTimer.unref()
+    }
+    return {}
+  })
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri)
+    if (subscriptions.size === 0) stopPolling()
+    return {}
+  })
+
+  const previousOnClose = server.onclose
+  server.onclose = () => {
+    stopPolling()
+    subscriptions.clear()
+    previousOnClose?.()
+  }
+}
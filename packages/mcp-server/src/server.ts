@@ -0,0 +1,172 @@
+/**
+ * MCP server factory shared by the stdio and HTTP transports
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import { error, type ToolDefinition, type ToolResult } from './types.js'
+import { getEnabledTools, convertToMCPTools } from './registry.js'
+import { authorizeToolCall } from './lib/permissions.js'
+import { describeToolResult, recordToolCall } from './lib/audit.js'
+import { parseAgentRun, runWithChangeTracking } from './lib/change-tracking.js'
+import { checkToolOwner, getAgentId, getCallWorkspaceId } from './lib/context.js'
+import { registerResourceHandlers } from './resources.js'
+import { registerPromptHandlers } from './prompts.js'
+
+// Server metadata
+export const SERVER_NAME = 'financebro-mcp'
+export const SERVER_VERSION = '0.0.3'
+
+/**
+ * Create an MCP server with the tool, resource and prompt handlers registered
+ * Each transport connection needs its own server instance
+ */
+export function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  )
+
+  // Handle list tools request
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: convertToMCPTools(),
+    }
+  })
+
+  // Handle tool call request
+  // Uses filtered tools to ensure only enabled tools can be called
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params
+
+    const enabledTools = getEnabledTools()
+    const tool = enabledTools[name]
+    if (!tool) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({ error: `Unknown tool: ${name}` }),
+          },
+        ],
+        isError: true,
+      }
+    }
+
+    // Writes made during an agent run are recorded so the run can be undone
+    const isWrite = !tool.permission.endsWith(':read')
+    const run = isWrite ? parseAgentRun(request.params._meta) : null
+
+    // Time the call and record it in the audit trail, whatever the outcome
+    const startedAt = performance.now()
+    const result = run
+      ? await runWithChangeTracking(
+          { ...run, toolName: name, workspaceId: getCallWorkspaceId(args), agentId: getAgentId() },
+          () => runTool(tool, args)
+        )
+      : await runTool(tool, args)
+    recordToolCall({
+      toolName: name,
+      args,
+      latencyMs: performance.now() - startedAt,
+      result: describeToolResult(result, isWrite),
+    })
+    return result
+  })
+
+  registerResourceHandlers(server)
+  registerPromptHandlers(server)
+
+  return server
+}
+
+/**
+ * Validate arguments, check permissions and run a tool's handler
+ * Failures are returned as results for the model rather than thrown
+ */
+async function runTool(tool: ToolDefinition, args: unknown): Promise<ToolResult> {
+  try {
+    // Validate input
+    const validatedArgs = tool.inputSchema.parse(args)
+
+    // User-scoped tools may only act for the authenticated caller
+    if (tool.ownerParam) {
+      const mismatch = checkToolOwner(tool.ownerParam, validatedArgs as Record<string, unknown>)
+      if (mismatch) {
+        return error(mismatch, 'access_denied')
+      }
+    }
+
+    // Check the caller's role allows this tool
+    const denied = await authorizeToolCall(tool.permission, validatedArgs as { workspace_id?: string })
+    if (denied) {
+      return denied
+    }
+
+    // Call the handler
+    const result = await tool.handler(validatedArgs as never)
+    return result
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      // Return graceful success with validation guidance instead of error
+      const validationIssues = err.errors.map((e) => {
+        const issue: Record<string, unknown> = {
+          field: e.path.join('.'),
+          message: e.message,
+        }
+        
+        // Add helpful context for enum errors
+        if (e.code === 'invalid_enum_value' && 'options' in e) {
+          issue.valid_options = e.options
+          issue.received = 'received' in e ? e.received : undefined
+        }
+        
+        // Add context for array size errors
+        if (e.code === 'too_small' && 'minimum' in e) {
+          issue.minimum_required = e.minimum
+        }
+        
+        return issue
+      })
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              message: 'Invalid input provided. Please check the validation details below.',
+              valid: false,
+              validation_issues: validationIssues,
+            }),
+          },
+        ],
+        isError: false, // Return as success with validation guidance
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            error: err instanceof Error ? err.message : 'Unknown error',
+          }),
+        },
+      ],
+      isError: true,
+    }
+  }
+}
@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for agents
@@ -16,6 +17,7 @@ export const agentTools = {
     inputSchema: workspaceIdSchema.merge(paginationSchema).extend({
       is_active: z.boolean().optional().describe('Filter by active status'),
     }),
+    permission: 'agents:read',
     handler: agentList,
   },
 
@@ -24,6 +26,7 @@ export const agentTools = {
     inputSchema: workspaceIdSchema.extend({
       agent_id: z.string().uuid().describe('The agent ID'),
     }),
+    permission: 'agents:read',
     handler: agentGet,
   },
 
@@ -37,6 +40,7 @@ export const agentTools = {
       tools: z.array(z.string()).optional().describe('List of tool names the agent can use'),
       skill_ids: z.array(z.string().uuid()).optional().describe('Skill IDs to assign to agent'),
     }),
+    permission: 'agents:create',
     handler: agentCreate,
   },
 
@@ -51,6 +55,7 @@ export const agentTools = {
       tools: z.array(z.string()).optional().describe('List of tool names'),
       is_active: z.boolean().optional().describe('Active status'),
     }),
+    permission: 'agents:write',
     handler: agentUpdate,
   },
 
@@ -59,6 +64,7 @@ export const agentTools = {
     inputSchema: workspaceIdSchema.extend({
       agent_id: z.string().uuid().describe('The agent ID to delete'),
     }),
+    permission: 'agents:delete',
     handler: agentDelete,
   },
 
@@ -68,6 +74,7 @@ export const agentTools = {
       agent_id: z.string().uuid().describe('The agent ID'),
       skill_id: z.string().uuid().describe('The skill ID to add'),
     }),
+    permission: 'agents:write',
     handler: agentAddSkill,
   },
 
@@ -77,6 +84,7 @@ export const agentTools = {
       agent_id: z.string().uuid().describe('The agent ID'),
       skill_id: z.string().uuid().describe('The skill ID to remove'),
     }),
+    permission: 'agents:write',
     handler: agentRemoveSkill,
   },
 
@@ -85,9 +93,10 @@ export const agentTools = {
     inputSchema: workspaceIdSchema.extend({
       agent_id: z.string().uuid().describe('The agent ID'),
     }),
+    permission: 'agents:read',
     handler: agentGetSkills,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
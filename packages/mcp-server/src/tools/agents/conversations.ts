@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for agent conversations
@@ -16,6 +17,7 @@ export const agentConversationTools = {
     inputSchema: workspaceIdSchema.merge(paginationSchema).extend({
       agent_id: z.string().uuid().optional().describe('Filter by agent ID'),
     }),
+    permission: 'agents:read',
     handler: conversationList,
   },
 
@@ -24,6 +26,7 @@ export const agentConversationTools = {
     inputSchema: workspaceIdSchema.extend({
       conversation_id: z.string().uuid().describe('The conversation ID'),
     }),
+    permission: 'agents:read',
     handler: conversationGet,
   },
 
@@ -33,6 +36,7 @@ export const agentConversationTools = {
       agent_id: z.string().uuid().describe('The agent ID to converse with'),
       title: z.string().optional().describe('Conversation title'),
     }),
+    permission: 'agents:run',
     handler: conversationCreate,
   },
 
@@ -42,6 +46,7 @@ export const agentConversationTools = {
       conversation_id: z.string().uuid().describe('The conversation ID'),
       content: z.string().min(1).describe('Message content'),
     }),
+    permission: 'agents:run',
     handler: conversationSendMessage,
   },
 
@@ -50,9 +55,10 @@ export const agentConversationTools = {
     inputSchema: workspaceIdSchema.extend({
       conversation_id: z.string().uuid().describe('The conversation ID to delete'),
     }),
+    permission: 'agents:run',
     handler: conversationDelete,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for agent memories
@@ -16,6 +17,7 @@ export const agentMemoryTools = {
     inputSchema: workspaceIdSchema.extend({
       agent_id: z.string().uuid().describe('The agent ID'),
     }).merge(paginationSchema),
+    permission: 'agents:read',
     handler: memoryList,
   },
 
@@ -26,6 +28,7 @@ export const agentMemoryTools = {
       path: z.string().min(1).describe('Memory path/key (e.g., "user_preferences", "conversation_context")'),
       content: z.string().describe('Memory content (markdown format)'),
     }),
+    permission: 'agents:run',
     handler: memoryCreate,
   },
 
@@ -36,6 +39,7 @@ export const agentMemoryTools = {
       memory_id: z.string().uuid().describe('The memory ID'),
       content: z.string().describe('Updated memory content'),
     }),
+    permission: 'agents:run',
     handler: memoryUpdate,
   },
 
@@ -45,6 +49,7 @@ export const agentMemoryTools = {
       agent_id: z.string().uuid().describe('The agent ID'),
       memory_id: z.string().uuid().describe('The memory ID to delete'),
     }),
+    permission: 'agents:write',
     handler: memoryDelete,
   },
 
@@ -54,9 +59,10 @@ export const agentMemoryTools = {
       agent_id: z.string().uuid().describe('The agent ID'),
       query: z.string().min(1).describe('Search query'),
     }),
+    permission: 'agents:read',
     handler: memorySearch,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Helper to verify agent access
 async function verifyAgentAccess(
@@ -5,6 +5,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // User ID schema for user-scoped tools (workflows are per-user)
@@ -30,6 +31,8 @@ export const workflowTools = {
     inputSchema: userIdSchema.merge(paginationSchema).extend({
       is_active: z.boolean().optional().describe('Filter by active status'),
     }),
+    permission: 'agents:read',
+    ownerParam: 'user_id',
     handler: workflowList,
   },
 
@@ -38,6 +41,8 @@ export const workflowTools = {
     inputSchema: userIdSchema.extend({
       workflow_id: z.string().uuid().describe('The workflow ID'),
     }),
+    permission: 'agents:read',
+    ownerParam: 'user_id',
     handler: workflowGet,
   },
 
@@ -51,6 +56,8 @@ export const workflowTools = {
       actions: z.array(z.any()).describe('Array of action configurations'),
       is_active: z.boolean().default(true).describe('Whether workflow is active'),
     }),
+    permission: 'agents:create',
+    ownerParam: 'user_id',
     handler: workflowCreate,
   },
 
@@ -65,6 +72,8 @@ export const workflowTools = {
       actions: z.array(z.any()).optional().describe('Array of action configurations'),
       is_active: z.boolean().optional().describe('Whether workflow is active'),
     }),
+    permission: 'agents:write',
+    ownerParam: 'user_id',
     handler: workflowUpdate,
   },
 
@@ -73,6 +82,8 @@ export const workflowTools = {
     inputSchema: userIdSchema.extend({
       workflow_id: z.string().uuid().describe('The workflow ID to delete'),
     }),
+    permission: 'agents:delete',
+    ownerParam: 'user_id',
     handler: workflowDelete,
   },
 
@@ -82,6 +93,8 @@ export const workflowTools = {
       workflow_id: z.string().uuid().describe('The workflow ID to execute'),
       input: z.any().optional().describe('Optional input data for the workflow'),
     }),
+    permission: 'agents:run',
+    ownerParam: 'user_id',
     handler: workflowExecute,
   },
 
@@ -90,6 +103,8 @@ export const workflowTools = {
     inputSchema: userIdSchema.merge(paginationSchema).extend({
       workflow_id: z.string().uuid().describe('The workflow ID'),
     }),
+    permission: 'agents:read',
+    ownerParam: 'user_id',
     handler: workflowGetExecutions,
   },
 
@@ -98,6 +113,8 @@ export const workflowTools = {
     inputSchema: userIdSchema.extend({
       workflow_id: z.string().uuid().describe('The workflow ID to enable'),
     }),
+    permission: 'agents:write',
+    ownerParam: 'user_id',
     handler: workflowEnable,
   },
 
@@ -106,9 +123,11 @@ export const workflowTools = {
     inputSchema: userIdSchema.extend({
       workflow_id: z.string().uuid().describe('The workflow ID to disable'),
     }),
+    permission: 'agents:write',
+    ownerParam: 'user_id',
     handler: workflowDisable,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Workspace ID schema for workspace-scoped tools
@@ -26,6 +27,7 @@ export const callTools = {
       lead_id: z.string().uuid().optional().describe('Associated lead ID'),
       contact_id: z.string().uuid().optional().describe('Associated contact ID'),
     }),
+    permission: 'communications:create',
     handler: callInitiate,
   },
 
@@ -34,6 +36,7 @@ export const callTools = {
     inputSchema: workspaceIdSchema.extend({
       call_id: z.string().uuid().describe('The call ID'),
     }),
+    permission: 'communications:read',
     handler: callGet,
   },
 
@@ -43,6 +46,7 @@ export const callTools = {
       direction: z.enum(['inbound', 'outbound']).optional().describe('Filter by call direction'),
       status: callStatusSchema.optional().describe('Filter by call status'),
     }),
+    permission: 'communications:read',
     handler: callList,
   },
 
@@ -51,6 +55,7 @@ export const callTools = {
     inputSchema: workspaceIdSchema.extend({
       call_id: z.string().uuid().describe('The call ID'),
     }),
+    permission: 'communications:read',
     handler: callGetRecording,
   },
 
@@ -59,9 +64,10 @@ export const callTools = {
     inputSchema: workspaceIdSchema.extend({
       call_id: z.string().uuid().describe('The call ID to end'),
     }),
+    permission: 'communications:write',
     handler: callEnd,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
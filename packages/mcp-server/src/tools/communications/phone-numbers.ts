@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Workspace ID schema for workspace-scoped tools
@@ -18,6 +19,7 @@ export const phoneNumberTools = {
   phone_number_list: {
     description: 'List all phone numbers for a user',
     inputSchema: workspaceIdSchema.merge(paginationSchema),
+    permission: 'phone_numbers:read',
     handler: phoneNumberList,
   },
 
@@ -27,6 +29,7 @@ export const phoneNumberTools = {
       area_code: z.string().optional().describe('Preferred area code'),
       country: z.string().default('US').describe('Country code (default: US)'),
     }),
+    permission: 'phone_numbers:create',
     handler: phoneNumberProvision,
   },
 
@@ -35,6 +38,7 @@ export const phoneNumberTools = {
     inputSchema: workspaceIdSchema.extend({
       phone_number_id: z.string().uuid().describe('The phone number ID to release'),
     }),
+    permission: 'phone_numbers:delete',
     handler: phoneNumberRelease,
   },
 
@@ -43,9 +47,10 @@ export const phoneNumberTools = {
     inputSchema: workspaceIdSchema.extend({
       phone_number_id: z.string().uuid().describe('The phone number ID to set as default'),
     }),
+    permission: 'phone_numbers:write',
     handler: phoneNumberSetDefault,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
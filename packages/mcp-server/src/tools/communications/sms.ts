@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Workspace ID schema for workspace-scoped tools
@@ -27,6 +28,7 @@ export const smsTools = {
       lead_id: z.string().uuid().optional().describe('Associated lead ID'),
       contact_id: z.string().uuid().optional().describe('Associated contact ID'),
     }),
+    permission: 'communications:create',
     handler: smsSend,
   },
 
@@ -36,6 +38,7 @@ export const smsTools = {
       phone_number: z.string().optional().describe('Filter by phone number'),
       direction: directionSchema.describe('Filter by direction (inbound/outbound)'),
     }),
+    permission: 'communications:read',
     handler: smsList,
   },
 
@@ -44,12 +47,14 @@ export const smsTools = {
     inputSchema: workspaceIdSchema.extend({
       phone_number: z.string().describe('The phone number to get conversation with'),
     }),
+    permission: 'communications:read',
     handler: smsGetConversation,
   },
 
   sms_get_threads: {
     description: 'List all SMS conversation threads',
     inputSchema: workspaceIdSchema.merge(paginationSchema),
+    permission: 'communications:read',
     handler: smsGetThreads,
   },
 
@@ -58,9 +63,10 @@ export const smsTools = {
     inputSchema: workspaceIdSchema.extend({
       phone_number: z.string().describe('The phone number of the thread to mark as read'),
     }),
+    permission: 'communications:write',
     handler: smsMarkThreadRead,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
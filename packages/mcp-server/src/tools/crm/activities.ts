@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Activity type schema
@@ -22,6 +23,7 @@ export const activityTools = {
       deal_id: z.string().uuid().optional().describe('Filter by deal ID'),
       is_completed: z.boolean().optional().describe('Filter by completion status'),
     }),
+    permission: 'crm:read',
     handler: activityList,
   },
 
@@ -30,6 +32,7 @@ export const activityTools = {
     inputSchema: workspaceIdSchema.extend({
       activity_id: z.string().uuid().describe('The activity ID'),
     }),
+    permission: 'crm:read',
     handler: activityGet,
   },
 
@@ -43,6 +46,7 @@ export const activityTools = {
       deal_id: z.string().uuid().optional().describe('Associated deal ID'),
       due_date: z.string().optional().describe('Due date (ISO format)'),
     }),
+    permission: 'crm:create',
     handler: activityCreate,
   },
 
@@ -54,6 +58,7 @@ export const activityTools = {
       description: z.string().optional().describe('Activity description'),
       due_date: z.string().optional().describe('Due date'),
     }),
+    permission: 'crm:write',
     handler: activityUpdate,
   },
 
@@ -62,6 +67,7 @@ export const activityTools = {
     inputSchema: workspaceIdSchema.extend({
       activity_id: z.string().uuid().describe('The activity ID to delete'),
     }),
+    permission: 'crm:delete',
     handler: activityDelete,
   },
 
@@ -70,6 +76,7 @@ export const activityTools = {
     inputSchema: workspaceIdSchema.extend({
       activity_id: z.string().uuid().describe('The activity ID'),
     }),
+    permission: 'crm:write',
     handler: activityMarkComplete,
   },
 
@@ -82,6 +89,7 @@ export const activityTools = {
       deal_id: z.string().uuid().optional().describe('Related deal'),
       duration_minutes: z.number().int().positive().optional().describe('Call duration in minutes'),
     }),
+    permission: 'crm:create',
     handler: activityLogCall,
   },
 
@@ -93,6 +101,7 @@ export const activityTools = {
       contact_id: z.string().uuid().optional().describe('Email recipient contact'),
       deal_id: z.string().uuid().optional().describe('Related deal'),
     }),
+    permission: 'crm:create',
     handler: activityLogEmail,
   },
 
@@ -105,6 +114,7 @@ export const activityTools = {
       deal_id: z.string().uuid().optional().describe('Related deal'),
       meeting_date: z.string().optional().describe('Meeting date/time (ISO format)'),
     }),
+    permission: 'crm:create',
     handler: activityLogMeeting,
   },
 
@@ -113,6 +123,7 @@ export const activityTools = {
     inputSchema: workspaceIdSchema.extend({
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'crm:read',
     handler: activityGetOverdue,
   },
 
@@ -122,9 +133,10 @@ export const activityTools = {
       days_ahead: z.number().int().positive().max(30).optional().describe('Days ahead to look (default 7)'),
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'crm:read',
     handler: activityGetUpcoming,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for contacts
@@ -17,6 +18,7 @@ export const contactTools = {
       lead_id: z.string().uuid().optional().describe('Filter by lead ID'),
       search: z.string().optional().describe('Search by name or email'),
     }),
+    permission: 'crm:read',
     handler: contactList,
   },
 
@@ -25,6 +27,7 @@ export const contactTools = {
     inputSchema: workspaceIdSchema.extend({
       contact_id: z.string().uuid().describe('The contact ID'),
     }),
+    permission: 'crm:read',
     handler: contactGet,
   },
 
@@ -39,6 +42,7 @@ export const contactTools = {
       lead_id: z.string().uuid().optional().describe('Associated lead ID'),
       notes: z.string().optional().describe('Notes about the contact'),
     }),
+    permission: 'crm:create',
     handler: contactCreate,
   },
 
@@ -54,6 +58,7 @@ export const contactTools = {
       lead_id: z.string().uuid().optional().describe('Associated lead ID'),
       notes: z.string().optional().describe('Notes about the contact'),
     }),
+    permission: 'crm:write',
     handler: contactUpdate,
   },
 
@@ -62,6 +67,7 @@ export const contactTools = {
     inputSchema: workspaceIdSchema.extend({
       contact_id: z.string().uuid().describe('The contact ID to delete'),
     }),
+    permission: 'crm:delete',
     handler: contactDelete,
   },
 
@@ -71,6 +77,7 @@ export const contactTools = {
       query: z.string().min(1).describe('Search query'),
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'crm:read',
     handler: contactSearch,
   },
 
@@ -80,6 +87,7 @@ export const contactTools = {
       contact_id: z.string().uuid().describe('The contact ID'),
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'crm:read',
     handler: contactGetActivities,
   },
 
@@ -88,6 +96,7 @@ export const contactTools = {
     inputSchema: workspaceIdSchema.extend({
       contact_id: z.string().uuid().describe('The contact ID'),
     }),
+    permission: 'crm:read',
     handler: contactGetDeals,
   },
 
@@ -96,6 +105,7 @@ export const contactTools = {
     inputSchema: workspaceIdSchema.extend({
       lead_id: z.string().uuid().describe('The lead ID'),
     }),
+    permission: 'crm:read',
     handler: contactGetByLead,
   },
 
@@ -104,9 +114,10 @@ export const contactTools = {
     inputSchema: workspaceIdSchema.extend({
       email: z.string().email().describe('Email address to search for'),
     }),
+    permission: 'crm:read',
     handler: contactGetByEmail,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Deal stage schema (maps to lead_opportunities.stage)
@@ -25,6 +26,7 @@ export const dealTools = {
       stage: dealStageSchema.optional().describe('Filter by stage'),
       contact_id: z.string().uuid().optional().describe('Filter by contact ID'),
     }),
+    permission: 'deals:read',
     handler: dealList,
   },
 
@@ -33,6 +35,7 @@ export const dealTools = {
     inputSchema: workspaceIdSchema.extend({
       deal_id: z.string().uuid().describe('The deal ID'),
     }),
+    permission: 'deals:read',
     handler: dealGet,
   },
 
@@ -48,6 +51,7 @@ export const dealTools = {
       contact_id: z.string().uuid().optional().describe('Primary contact ID'),
       notes: z.string().optional().describe('Notes'),
     }),
+    permission: 'deals:create',
     handler: dealCreate,
   },
 
@@ -63,6 +67,7 @@ export const dealTools = {
       contact_id: z.string().uuid().optional().describe('Primary contact ID'),
       notes: z.string().optional().describe('Notes'),
     }),
+    permission: 'deals:write',
     handler: dealUpdate,
   },
 
@@ -71,6 +76,7 @@ export const dealTools = {
     inputSchema: workspaceIdSchema.extend({
       deal_id: z.string().uuid().describe('The deal ID to delete'),
     }),
+    permission: 'deals:delete',
     handler: dealDelete,
   },
 
@@ -80,6 +86,7 @@ export const dealTools = {
       deal_id: z.string().uuid().describe('The deal ID'),
       stage: dealStageSchema.describe('New stage'),
     }),
+    permission: 'deals:write',
     handler: dealMoveStage,
   },
 
@@ -89,6 +96,7 @@ export const dealTools = {
       deal_id: z.string().uuid().describe('The deal ID'),
       closed_date: z.string().optional().describe('Close date (YYYY-MM-DD)'),
     }),
+    permission: 'deals:write',
     handler: dealMarkWon,
   },
 
@@ -98,6 +106,7 @@ export const dealTools = {
       deal_id: z.string().uuid().describe('The deal ID'),
       reason: z.string().optional().describe('Reason for loss'),
     }),
+    permission: 'deals:write',
     handler: dealMarkLost,
   },
 
@@ -107,6 +116,7 @@ export const dealTools = {
       deal_id: z.string().uuid().describe('The deal ID'),
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'deals:read',
     handler: dealGetActivities,
   },
 
@@ -115,6 +125,7 @@ export const dealTools = {
     inputSchema: workspaceIdSchema.extend({
       lead_id: z.string().uuid().optional().describe('Filter by lead ID'),
     }),
+    permission: 'deals:read',
     handler: dealGetValueByStage,
   },
 
@@ -123,9 +134,10 @@ export const dealTools = {
     inputSchema: workspaceIdSchema.extend({
       months_ahead: z.number().int().positive().max(12).optional().describe('Months to forecast (default 3)'),
     }),
+    permission: 'deals:read',
     handler: dealGetForecast,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Lead status schema
@@ -21,6 +22,7 @@ export const leadTools = {
       pipeline_id: z.string().uuid().optional().describe('Filter by pipeline ID'),
       stage_id: z.string().uuid().optional().describe('Filter by stage ID'),
     }),
+    permission: 'crm:read',
     handler: leadList,
   },
 
@@ -29,6 +31,7 @@ export const leadTools = {
     inputSchema: workspaceIdSchema.extend({
       lead_id: z.string().uuid().describe('The lead ID'),
     }),
+    permission: 'crm:read',
     handler: leadGet,
   },
 
@@ -43,6 +46,7 @@ export const leadTools = {
       pipeline_id: z.string().uuid().optional().describe('Pipeline ID'),
       stage_id: z.string().uuid().optional().describe('Initial stage ID'),
     }),
+    permission: 'crm:create',
     handler: leadCreate,
   },
 
@@ -58,6 +62,7 @@ export const leadTools = {
       pipeline_id: z.string().uuid().optional().describe('Pipeline ID'),
       stage_id: z.string().uuid().optional().describe('Stage ID'),
     }),
+    permission: 'crm:write',
     handler: leadUpdate,
   },
 
@@ -66,6 +71,7 @@ export const leadTools = {
     inputSchema: workspaceIdSchema.extend({
       lead_id: z.string().uuid().describe('The lead ID to delete'),
     }),
+    permission: 'crm:delete',
     handler: leadDelete,
   },
 
@@ -75,6 +81,7 @@ export const leadTools = {
       lead_id: z.string().uuid().describe('The lead ID'),
       status: leadStatusSchema.describe('New status'),
     }),
+    permission: 'crm:write',
     handler: leadChangeStatus,
   },
 
@@ -84,6 +91,7 @@ export const leadTools = {
       lead_id: z.string().uuid().describe('The lead ID'),
       stage_id: z.string().uuid().describe('New stage ID'),
     }),
+    permission: 'crm:write',
     handler: leadMoveStage,
   },
 
@@ -95,6 +103,7 @@ export const leadTools = {
       description: z.string().optional().describe('Task description'),
       due_date: z.string().optional().describe('Due date (ISO format)'),
     }),
+    permission: 'crm:create',
     handler: leadAddTask,
   },
 
@@ -104,6 +113,7 @@ export const leadTools = {
       lead_id: z.string().uuid().describe('The lead ID'),
       task_id: z.string().uuid().describe('The task ID'),
     }),
+    permission: 'crm:write',
     handler: leadCompleteTask,
   },
 
@@ -113,6 +123,7 @@ export const leadTools = {
       lead_id: z.string().uuid().describe('The lead ID'),
       is_completed: z.boolean().optional().describe('Filter by completion status'),
     }),
+    permission: 'crm:read',
     handler: leadGetTasks,
   },
 
@@ -121,6 +132,7 @@ export const leadTools = {
     inputSchema: workspaceIdSchema.extend({
       lead_id: z.string().uuid().describe('The lead ID'),
     }),
+    permission: 'crm:read',
     handler: leadGetOpportunities,
   },
 
@@ -129,9 +141,10 @@ export const leadTools = {
     inputSchema: workspaceIdSchema.extend({
       lead_id: z.string().uuid().describe('The lead ID'),
     }),
+    permission: 'crm:read',
     handler: leadGetContacts,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
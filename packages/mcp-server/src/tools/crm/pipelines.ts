@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for pipelines
@@ -13,6 +14,7 @@ export const pipelineTools = {
   pipeline_list: {
     description: 'List all lead pipelines',
     inputSchema: workspaceIdSchema,
+    permission: 'crm:read',
     handler: pipelineList,
   },
 
@@ -21,6 +23,7 @@ export const pipelineTools = {
     inputSchema: workspaceIdSchema.extend({
       pipeline_id: z.string().uuid().describe('The pipeline ID'),
     }),
+    permission: 'crm:read',
     handler: pipelineGet,
   },
 
@@ -31,6 +34,7 @@ export const pipelineTools = {
       description: z.string().optional().describe('Pipeline description'),
       is_default: z.boolean().optional().describe('Set as default pipeline'),
     }),
+    permission: 'crm:create',
     handler: pipelineCreate,
   },
 
@@ -42,6 +46,7 @@ export const pipelineTools = {
       description: z.string().optional().describe('Pipeline description'),
       is_default: z.boolean().optional().describe('Set as default pipeline'),
     }),
+    permission: 'crm:write',
     handler: pipelineUpdate,
   },
 
@@ -50,6 +55,7 @@ export const pipelineTools = {
     inputSchema: workspaceIdSchema.extend({
       pipeline_id: z.string().uuid().describe('The pipeline ID to delete'),
     }),
+    permission: 'crm:delete',
     handler: pipelineDelete,
   },
 
@@ -63,6 +69,7 @@ export const pipelineTools = {
       is_won: z.boolean().optional().describe('Mark as won stage'),
       is_lost: z.boolean().optional().describe('Mark as lost stage'),
     }),
+    permission: 'crm:write',
     handler: pipelineAddStage,
   },
 
@@ -76,6 +83,7 @@ export const pipelineTools = {
       is_won: z.boolean().optional().describe('Mark as won stage'),
       is_lost: z.boolean().optional().describe('Mark as lost stage'),
     }),
+    permission: 'crm:write',
     handler: pipelineUpdateStage,
   },
 
@@ -84,6 +92,7 @@ export const pipelineTools = {
     inputSchema: workspaceIdSchema.extend({
       stage_id: z.string().uuid().describe('The stage ID to delete'),
     }),
+    permission: 'crm:delete',
     handler: pipelineDeleteStage,
   },
 
@@ -93,9 +102,10 @@ export const pipelineTools = {
       pipeline_id: z.string().uuid().describe('The pipeline ID'),
       stage_ids: z.array(z.string().uuid()).describe('Ordered array of stage IDs'),
     }),
+    permission: 'crm:write',
     handler: pipelineReorderStages,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
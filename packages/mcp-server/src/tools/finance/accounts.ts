@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for accounts
@@ -17,6 +18,7 @@ export const accountTools = {
       type: accountTypeSchema.optional().describe('Filter by account type'),
       is_active: z.boolean().optional().describe('Filter by active status'),
     }),
+    permission: 'accounts:read',
     handler: accountList,
   },
 
@@ -25,6 +27,7 @@ export const accountTools = {
     inputSchema: workspaceIdSchema.extend({
       account_id: z.string().uuid().describe('The account ID'),
     }),
+    permission: 'accounts:read',
     handler: accountGet,
   },
 
@@ -37,6 +40,7 @@ export const accountTools = {
       institution: z.string().optional().describe('Financial institution name'),
       currency: z.string().optional().default('USD').describe('Currency code'),
     }),
+    permission: 'accounts:create',
     handler: accountCreate,
   },
 
@@ -49,6 +53,7 @@ export const accountTools = {
       institution: z.string().optional().describe('New institution name'),
       is_active: z.boolean().optional().describe('Active status'),
     }),
+    permission: 'accounts:write',
     handler: accountUpdate,
   },
 
@@ -57,6 +62,7 @@ export const accountTools = {
     inputSchema: workspaceIdSchema.extend({
       account_id: z.string().uuid().describe('The account ID to delete'),
     }),
+    permission: 'accounts:delete',
     handler: accountDelete,
   },
 
@@ -65,6 +71,7 @@ export const accountTools = {
     inputSchema: workspaceIdSchema.extend({
       account_id: z.string().uuid().describe('The account ID'),
     }),
+    permission: 'accounts:read',
     handler: accountGetBalance,
   },
 
@@ -73,6 +80,7 @@ export const accountTools = {
     inputSchema: workspaceIdSchema.extend({
       type: accountTypeSchema.describe('Account type to filter by'),
     }),
+    permission: 'accounts:read',
     handler: accountListByType,
   },
 
@@ -84,9 +92,10 @@ export const accountTools = {
         .optional()
         .describe('How to group the totals'),
     }),
+    permission: 'accounts:read',
     handler: accountGetTotals,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Calendar event colors
@@ -26,6 +27,7 @@ export const analyticsTools = {
       end_date: z.string().describe('End date (YYYY-MM-DD)'),
       group_by: z.enum(['day', 'week', 'month']).optional().describe('How to group results'),
     }),
+    permission: 'analytics:read',
     handler: analyticsGetIncomeVsExpense,
   },
 
@@ -34,12 +36,14 @@ export const analyticsTools = {
     inputSchema: workspaceIdSchema.merge(dateRangeSchema).extend({
       limit: z.number().int().positive().optional().default(10).describe('Number of top categories'),
     }),
+    permission: 'analytics:read',
     handler: analyticsGetSpendingByCategory,
   },
 
   analytics_get_net_worth: {
     description: 'Calculate total net worth across all accounts',
     inputSchema: workspaceIdSchema,
+    permission: 'analytics:read',
     handler: analyticsGetNetWorth,
   },
 
@@ -49,6 +53,7 @@ export const analyticsTools = {
       start_date: z.string().describe('Start date (YYYY-MM-DD)'),
       end_date: z.string().describe('End date (YYYY-MM-DD)'),
     }),
+    permission: 'analytics:read',
     handler: analyticsGetCashFlow,
   },
 
@@ -57,6 +62,7 @@ export const analyticsTools = {
     inputSchema: workspaceIdSchema.extend({
       months: z.number().int().positive().optional().default(6).describe('Number of months to analyze'),
     }),
+    permission: 'analytics:read',
     handler: analyticsGetTrends,
   },
 
@@ -66,6 +72,7 @@ export const analyticsTools = {
       start_date: z.string().describe('Start date (YYYY-MM-DD)'),
       end_date: z.string().describe('End date (YYYY-MM-DD)'),
     }),
+    permission: 'analytics:read',
     handler: analyticsGetProfitLoss,
   },
 
@@ -74,6 +81,7 @@ export const analyticsTools = {
     inputSchema: workspaceIdSchema.extend({
       months_ahead: z.number().int().positive().optional().default(3).describe('Months to project ahead'),
     }),
+    permission: 'analytics:read',
     handler: analyticsProjectCashFlow,
   },
 
@@ -83,9 +91,10 @@ export const analyticsTools = {
       start_date: z.string().describe('Start date (YYYY-MM-DD)'),
       end_date: z.string().describe('End date (YYYY-MM-DD)'),
     }),
+    permission: 'analytics:read',
     handler: analyticsGetCalendarEvents,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
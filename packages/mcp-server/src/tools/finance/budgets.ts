@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for budgets
@@ -16,6 +17,7 @@ export const budgetTools = {
     inputSchema: workspaceIdSchema.extend({
       is_active: z.boolean().optional().describe('Filter by active status'),
     }),
+    permission: 'budgets:read',
     handler: budgetList,
   },
 
@@ -24,6 +26,7 @@ export const budgetTools = {
     inputSchema: workspaceIdSchema.extend({
       budget_id: z.string().uuid().describe('The budget ID'),
     }),
+    permission: 'budgets:read',
     handler: budgetGet,
   },
 
@@ -36,6 +39,7 @@ export const budgetTools = {
       start_date: z.string().optional().describe('Budget start date (YYYY-MM-DD), defaults to today'),
       rollover: z.boolean().optional().default(false).describe('Rollover unused amount to next period'),
     }),
+    permission: 'budgets:create',
     handler: budgetCreate,
   },
 
@@ -48,6 +52,7 @@ export const budgetTools = {
       rollover: z.boolean().optional().describe('Rollover setting'),
       is_active: z.boolean().optional().describe('Active status'),
     }),
+    permission: 'budgets:write',
     handler: budgetUpdate,
   },
 
@@ -56,6 +61,7 @@ export const budgetTools = {
     inputSchema: workspaceIdSchema.extend({
       budget_id: z.string().uuid().describe('The budget ID to delete'),
     }),
+    permission: 'budgets:delete',
     handler: budgetDelete,
   },
 
@@ -64,18 +70,21 @@ export const budgetTools = {
     inputSchema: workspaceIdSchema.extend({
       budget_id: z.string().uuid().describe('The budget ID'),
     }),
+    permission: 'budgets:read',
     handler: budgetGetStatus,
   },
 
   budget_list_over_limit: {
     description: 'List all budgets that are over their limit',
     inputSchema: workspaceIdSchema,
+    permission: 'budgets:read',
     handler: budgetListOverLimit,
   },
 
   budget_list_with_spending: {
     description: 'List all budgets with their current spending amounts',
     inputSchema: workspaceIdSchema,
+    permission: 'budgets:read',
     handler: budgetListWithSpending,
   },
 
@@ -85,6 +94,7 @@ export const budgetTools = {
       budget_id: z.string().uuid().describe('The budget ID'),
       threshold_percent: z.number().min(1).max(200).describe('Alert threshold as percentage (e.g., 80 for 80%)'),
     }),
+    permission: 'budgets:write',
     handler: budgetAddAlert,
   },
 
@@ -94,15 +104,17 @@ export const budgetTools = {
       budget_id: z.string().uuid().describe('The budget ID'),
       threshold_percent: z.number().describe('Threshold to remove'),
     }),
+    permission: 'budgets:write',
     handler: budgetRemoveAlert,
   },
 
   budget_get_alerts_triggered: {
     description: 'Get all triggered budget alerts',
     inputSchema: workspaceIdSchema,
+    permission: 'budgets:read',
     handler: budgetGetAlertsTriggered,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Helper function to get current period dates
 function getBudgetPeriodDates(period: string, startDate: string): { start: string; end: string } {
@@ -8,6 +8,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for categories
@@ -18,6 +19,7 @@ export const categoryTools = {
       type: categoryTypeSchema.optional().describe('Filter by category type (income or expense)'),
       include_system: z.boolean().optional().default(true).describe('Include system categories'),
     }),
+    permission: 'transactions:read',
     handler: categoryList,
   },
 
@@ -26,6 +28,7 @@ export const categoryTools = {
     inputSchema: workspaceIdSchema.extend({
       category_id: z.string().uuid().describe('The category ID'),
     }),
+    permission: 'transactions:read',
     handler: categoryGet,
   },
 
@@ -38,6 +41,7 @@ export const categoryTools = {
       color: z.string().optional().describe('Color hex code'),
       parent_id: z.string().uuid().optional().describe('Parent category ID for subcategories'),
     }),
+    permission: 'transactions:create',
     handler: categoryCreate,
   },
 
@@ -49,6 +53,7 @@ export const categoryTools = {
       icon: z.string().optional().describe('New icon'),
       color: z.string().optional().describe('New color'),
     }),
+    permission: 'transactions:write',
     handler: categoryUpdate,
   },
 
@@ -57,6 +62,7 @@ export const categoryTools = {
     inputSchema: workspaceIdSchema.extend({
       category_id: z.string().uuid().describe('The category ID to delete'),
     }),
+    permission: 'transactions:delete',
     handler: categoryDelete,
   },
 
@@ -65,15 +71,17 @@ export const categoryTools = {
     inputSchema: workspaceIdSchema.merge(dateRangeSchema).extend({
       category_id: z.string().uuid().describe('The category ID'),
     }),
+    permission: 'transactions:read',
     handler: categoryGetSpending,
   },
 
   category_list_with_totals: {
     description: 'List all categories with their spending totals',
     inputSchema: workspaceIdSchema.merge(dateRangeSchema),
+    permission: 'transactions:read',
     handler: categoryListWithTotals,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
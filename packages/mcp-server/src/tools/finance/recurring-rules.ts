@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for recurring rules
@@ -16,6 +17,7 @@ export const recurringRuleTools = {
     inputSchema: workspaceIdSchema.extend({
       is_active: z.boolean().optional().describe('Filter by active status'),
     }),
+    permission: 'transactions:read',
     handler: recurringRuleList,
   },
 
@@ -24,6 +26,7 @@ export const recurringRuleTools = {
     inputSchema: workspaceIdSchema.extend({
       rule_id: z.string().uuid().describe('The recurring rule ID'),
     }),
+    permission: 'transactions:read',
     handler: recurringRuleGet,
   },
 
@@ -38,6 +41,7 @@ export const recurringRuleTools = {
       category_id: z.string().uuid().optional().describe('Category ID'),
       end_date: z.string().optional().describe('End date for recurrence (YYYY-MM-DD)'),
     }),
+    permission: 'transactions:create',
     handler: recurringRuleCreate,
   },
 
@@ -53,6 +57,7 @@ export const recurringRuleTools = {
       end_date: z.string().optional().describe('New end date'),
       is_active: z.boolean().optional().describe('Active status'),
     }),
+    permission: 'transactions:write',
     handler: recurringRuleUpdate,
   },
 
@@ -61,6 +66,7 @@ export const recurringRuleTools = {
     inputSchema: workspaceIdSchema.extend({
       rule_id: z.string().uuid().describe('The recurring rule ID to delete'),
     }),
+    permission: 'transactions:delete',
     handler: recurringRuleDelete,
   },
 
@@ -69,6 +75,7 @@ export const recurringRuleTools = {
     inputSchema: workspaceIdSchema.extend({
       rule_id: z.string().uuid().describe('The recurring rule ID'),
     }),
+    permission: 'transactions:write',
     handler: recurringRuleSkipNext,
   },
 
@@ -77,9 +84,10 @@ export const recurringRuleTools = {
     inputSchema: workspaceIdSchema.extend({
       up_to_date: z.string().describe('Generate transactions up to this date (YYYY-MM-DD)'),
     }),
+    permission: 'transactions:create',
     handler: recurringRuleGenerateTransactions,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Helper to calculate next date based on frequency
 function calculateNextDate(currentDate: string, frequency: string): string {
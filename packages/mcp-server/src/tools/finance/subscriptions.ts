@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Frequency to monthly multiplier
@@ -26,6 +27,7 @@ export const subscriptionTools = {
     inputSchema: workspaceIdSchema.extend({
       is_active: z.boolean().optional().describe('Filter by active status'),
     }),
+    permission: 'transactions:read',
     handler: subscriptionList,
   },
 
@@ -34,6 +36,7 @@ export const subscriptionTools = {
     inputSchema: workspaceIdSchema.extend({
       subscription_id: z.string().uuid().describe('The subscription ID'),
     }),
+    permission: 'transactions:read',
     handler: subscriptionGet,
   },
 
@@ -48,6 +51,7 @@ export const subscriptionTools = {
       reminder_days_before: z.number().int().min(0).optional().default(3).describe('Days before renewal to remind'),
       notes: z.string().optional().describe('Additional notes'),
     }),
+    permission: 'transactions:create',
     handler: subscriptionCreate,
   },
 
@@ -64,6 +68,7 @@ export const subscriptionTools = {
       is_active: z.boolean().optional().describe('Active status'),
       notes: z.string().optional().describe('New notes'),
     }),
+    permission: 'transactions:write',
     handler: subscriptionUpdate,
   },
 
@@ -72,6 +77,7 @@ export const subscriptionTools = {
     inputSchema: workspaceIdSchema.extend({
       subscription_id: z.string().uuid().describe('The subscription ID to delete'),
     }),
+    permission: 'transactions:delete',
     handler: subscriptionDelete,
   },
 
@@ -80,18 +86,21 @@ export const subscriptionTools = {
     inputSchema: workspaceIdSchema.extend({
       days_ahead: z.number().int().positive().optional().default(7).describe('Days to look ahead'),
     }),
+    permission: 'transactions:read',
     handler: subscriptionGetUpcoming,
   },
 
   subscription_get_summary: {
     description: 'Get summary of all subscriptions (total monthly cost, count, upcoming)',
     inputSchema: workspaceIdSchema,
+    permission: 'transactions:read',
     handler: subscriptionGetSummary,
   },
 
   subscription_detect_from_transactions: {
     description: 'Auto-detect potential subscriptions from recurring transaction patterns',
     inputSchema: workspaceIdSchema,
+    permission: 'transactions:read',
     handler: subscriptionDetectFromTransactions,
   },
 
@@ -100,9 +109,10 @@ export const subscriptionTools = {
     inputSchema: workspaceIdSchema.extend({
       subscription_id: z.string().uuid().describe('The subscription ID'),
     }),
+    permission: 'transactions:write',
     handler: subscriptionMarkCanceled,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
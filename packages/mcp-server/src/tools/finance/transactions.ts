@@ -8,6 +8,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
   type ErrorCategory,
 } from '../../types.js'
 
@@ -26,6 +27,7 @@ export const transactionTools = {
         category_id: z.string().uuid().optional().describe('Filter by category'),
         type: z.enum(['income', 'expense']).optional().describe('Filter by transaction type'),
       }),
+    permission: 'transactions:read',
     handler: transactionList,
   },
 
@@ -34,6 +36,7 @@ export const transactionTools = {
     inputSchema: workspaceIdSchema.extend({
       transaction_id: z.string().uuid().describe('The transaction ID'),
     }),
+    permission: 'transactions:read',
     handler: transactionGet,
   },
 
@@ -47,6 +50,7 @@ export const transactionTools = {
       category_id: z.string().uuid().optional().describe('Category ID'),
       notes: z.string().optional().describe('Additional notes'),
     }),
+    permission: 'transactions:create',
     handler: transactionCreate,
   },
 
@@ -60,6 +64,7 @@ export const transactionTools = {
       category_id: z.string().uuid().optional().describe('New category'),
       notes: z.string().optional().describe('New notes'),
     }),
+    permission: 'transactions:write',
     handler: transactionUpdate,
   },
 
@@ -68,6 +73,7 @@ export const transactionTools = {
     inputSchema: workspaceIdSchema.extend({
       transaction_id: z.string().uuid().describe('The transaction ID to delete'),
     }),
+    permission: 'transactions:delete',
     handler: transactionDelete,
   },
 
@@ -80,6 +86,7 @@ export const transactionTools = {
       date: z.string().describe('Transfer date (YYYY-MM-DD)'),
       description: z.string().optional().describe('Transfer description'),
     }),
+    permission: 'transactions:create',
     handler: transactionCreateTransfer,
   },
 
@@ -89,6 +96,7 @@ export const transactionTools = {
       transaction_ids: z.array(z.string().uuid()).min(1).describe('Array of transaction IDs'),
       category_id: z.string().uuid().describe('Category to assign'),
     }),
+    permission: 'transactions:write',
     handler: transactionBulkCategorize,
   },
 
@@ -98,6 +106,7 @@ export const transactionTools = {
       query: z.string().min(1).describe('Search query'),
       limit: z.number().int().positive().max(100).optional().default(50).describe('Max results'),
     }),
+    permission: 'transactions:read',
     handler: transactionSearch,
   },
 
@@ -108,6 +117,7 @@ export const transactionTools = {
       end_date: z.string().describe('End date (YYYY-MM-DD)'),
       account_id: z.string().uuid().optional().describe('Filter by account'),
     }),
+    permission: 'transactions:read',
     handler: transactionGetByDateRange,
   },
 
@@ -116,6 +126,7 @@ export const transactionTools = {
     inputSchema: workspaceIdSchema.extend({
       limit: z.number().int().positive().max(100).optional().default(50).describe('Max results'),
     }),
+    permission: 'transactions:read',
     handler: transactionGetUncategorized,
   },
 
@@ -124,6 +135,7 @@ export const transactionTools = {
     inputSchema: workspaceIdSchema.extend({
       limit: z.number().int().positive().max(100).optional().default(10).describe('Number of transactions'),
     }),
+    permission: 'transactions:read',
     handler: transactionGetRecent,
   },
 
@@ -132,9 +144,10 @@ export const transactionTools = {
     inputSchema: workspaceIdSchema.extend({
       days_window: z.number().int().positive().optional().default(7).describe('Days to look back for duplicates'),
     }),
+    permission: 'transactions:read',
     handler: transactionGetDuplicates,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
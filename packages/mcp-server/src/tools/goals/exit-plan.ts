@@ -4,6 +4,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Profile ID schema for user-scoped tools
@@ -19,6 +20,8 @@ export const exitPlanTools = {
   exit_plan_get: {
     description: 'Get the exit plan for a user (each user has one exit plan)',
     inputSchema: profileIdSchema,
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: exitPlanGet,
   },
 
@@ -30,6 +33,8 @@ export const exitPlanTools = {
       exit_type: exitTypeSchema.describe('Type of exit (acquisition, ipo, merger, liquidation, other)'),
       notes: z.string().optional().describe('Additional notes'),
     }),
+    permission: 'goals:create',
+    ownerParam: 'profile_id',
     handler: exitPlanCreate,
   },
 
@@ -44,21 +49,27 @@ export const exitPlanTools = {
       exit_type: exitTypeSchema.describe('Type of exit'),
       notes: z.string().optional().describe('Additional notes'),
     }),
+    permission: 'goals:write',
+    ownerParam: 'profile_id',
     handler: exitPlanUpdate,
   },
 
   exit_plan_delete: {
     description: 'Delete the exit plan',
     inputSchema: profileIdSchema,
+    permission: 'goals:delete',
+    ownerParam: 'profile_id',
     handler: exitPlanDelete,
   },
 
   exit_plan_get_scenarios: {
     description: 'Get exit scenarios based on current metrics',
     inputSchema: profileIdSchema,
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: exitPlanGetScenarios,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -5,6 +5,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Profile ID schema for user-scoped tools
@@ -22,6 +23,8 @@ export const goalTools = {
     inputSchema: profileIdSchema.merge(paginationSchema).extend({
       type: goalTypeSchema.optional().describe('Filter by goal type'),
     }),
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: goalList,
   },
 
@@ -30,6 +33,8 @@ export const goalTools = {
     inputSchema: profileIdSchema.extend({
       goal_id: z.string().uuid().describe('The goal ID'),
     }),
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: goalGet,
   },
 
@@ -42,6 +47,8 @@ export const goalTools = {
       target_date: z.string().describe('Target date (YYYY-MM-DD)'),
       description: z.string().optional().describe('Goal description'),
     }),
+    permission: 'goals:create',
+    ownerParam: 'profile_id',
     handler: goalCreate,
   },
 
@@ -54,6 +61,8 @@ export const goalTools = {
       target_date: z.string().optional().describe('Target date'),
       description: z.string().optional().describe('Goal description'),
     }),
+    permission: 'goals:write',
+    ownerParam: 'profile_id',
     handler: goalUpdate,
   },
 
@@ -62,6 +71,8 @@ export const goalTools = {
     inputSchema: profileIdSchema.extend({
       goal_id: z.string().uuid().describe('The goal ID to delete'),
     }),
+    permission: 'goals:delete',
+    ownerParam: 'profile_id',
     handler: goalDelete,
   },
 
@@ -70,6 +81,8 @@ export const goalTools = {
     inputSchema: profileIdSchema.extend({
       goal_id: z.string().uuid().describe('The goal ID'),
     }),
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: goalGetProgress,
   },
 
@@ -79,9 +92,11 @@ export const goalTools = {
       goal_id: z.string().uuid().describe('The goal ID'),
       current_amount: z.number().describe('Current amount achieved'),
     }),
+    permission: 'goals:write',
+    ownerParam: 'profile_id',
     handler: goalUpdateProgress,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
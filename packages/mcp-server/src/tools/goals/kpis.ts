@@ -5,6 +5,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Profile ID schema for user-scoped tools
@@ -23,6 +24,8 @@ export const kpiTools = {
       industry: industrySchema.describe('Filter by industry type'),
       period: z.string().optional().describe('Filter by period (YYYY-MM format)'),
     }),
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: kpiList,
   },
 
@@ -31,6 +34,8 @@ export const kpiTools = {
     inputSchema: profileIdSchema.extend({
       kpi_id: z.string().uuid().describe('The KPI input ID'),
     }),
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: kpiGet,
   },
 
@@ -54,6 +59,8 @@ export const kpiTools = {
       employee_count: z.number().int().optional().describe('Total employees (Service)'),
       utilization_target: z.number().optional().describe('Target utilization percentage (Service)'),
     }),
+    permission: 'goals:create',
+    ownerParam: 'profile_id',
     handler: kpiRecord,
   },
 
@@ -73,6 +80,8 @@ export const kpiTools = {
       employee_count: z.number().int().optional().describe('Employee count'),
       utilization_target: z.number().optional().describe('Utilization target'),
     }),
+    permission: 'goals:write',
+    ownerParam: 'profile_id',
     handler: kpiUpdate,
   },
 
@@ -81,6 +90,8 @@ export const kpiTools = {
     inputSchema: profileIdSchema.extend({
       kpi_id: z.string().uuid().describe('The KPI input ID to delete'),
     }),
+    permission: 'goals:delete',
+    ownerParam: 'profile_id',
     handler: kpiDelete,
   },
 
@@ -90,27 +101,35 @@ export const kpiTools = {
       metric_name: z.string().describe('The metric to track (e.g., revenue, customer_count)'),
       periods: z.number().int().positive().default(6).describe('Number of periods to include'),
     }),
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: kpiGetTrends,
   },
 
   kpi_get_saas_metrics: {
     description: 'Get calculated SaaS metrics (MRR, churn rate, LTV/CAC ratio)',
     inputSchema: profileIdSchema,
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: kpiGetSaasMetrics,
   },
 
   kpi_get_retail_metrics: {
     description: 'Get calculated Retail metrics (inventory turnover, avg sale value)',
     inputSchema: profileIdSchema,
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: kpiGetRetailMetrics,
   },
 
   kpi_get_service_metrics: {
     description: 'Get calculated Service metrics (utilization rate, revenue per employee)',
     inputSchema: profileIdSchema,
+    permission: 'goals:read',
+    ownerParam: 'profile_id',
     handler: kpiGetServiceMetrics,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
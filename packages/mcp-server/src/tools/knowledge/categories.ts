@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for knowledge categories
@@ -13,6 +14,7 @@ export const knowledgeCategoryTools = {
   knowledge_category_list: {
     description: 'List all knowledge categories in a workspace',
     inputSchema: workspaceIdSchema,
+    permission: 'knowledge_categories:read',
     handler: categoryList,
   },
 
@@ -21,6 +23,7 @@ export const knowledgeCategoryTools = {
     inputSchema: workspaceIdSchema.extend({
       category_id: z.string().uuid().describe('The category ID'),
     }),
+    permission: 'knowledge_categories:read',
     handler: categoryGet,
   },
 
@@ -32,6 +35,7 @@ export const knowledgeCategoryTools = {
       color: z.string().optional().describe('Color hex code'),
       icon: z.string().optional().describe('Lucide icon name'),
     }),
+    permission: 'knowledge_categories:create',
     handler: categoryCreate,
   },
 
@@ -44,6 +48,7 @@ export const knowledgeCategoryTools = {
       icon: z.string().optional().describe('Lucide icon name'),
       position: z.number().int().nonnegative().optional().describe('Display position'),
     }),
+    permission: 'knowledge_categories:write',
     handler: categoryUpdate,
   },
 
@@ -52,9 +57,10 @@ export const knowledgeCategoryTools = {
     inputSchema: workspaceIdSchema.extend({
       category_id: z.string().uuid().describe('The category ID to delete'),
     }),
+    permission: 'knowledge_categories:delete',
     handler: categoryDelete,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for knowledge pages
@@ -17,6 +18,7 @@ export const knowledgePageTools = {
       parent_id: z.string().uuid().optional().describe('Filter by parent page'),
       is_archived: z.boolean().optional().describe('Include archived pages'),
     }),
+    permission: 'knowledge:read',
     handler: pageList,
   },
 
@@ -25,6 +27,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The page ID'),
     }),
+    permission: 'knowledge:read',
     handler: pageGet,
   },
 
@@ -37,6 +40,7 @@ export const knowledgePageTools = {
       icon: z.string().optional().describe('Page icon'),
       cover_image: z.string().optional().describe('Cover image URL'),
     }),
+    permission: 'knowledge:create',
     handler: pageCreate,
   },
 
@@ -49,6 +53,7 @@ export const knowledgePageTools = {
       icon: z.string().optional().describe('Page icon'),
       cover_image: z.string().optional().describe('Cover image URL'),
     }),
+    permission: 'knowledge:write',
     handler: pageUpdate,
   },
 
@@ -57,6 +62,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The page ID to delete'),
     }),
+    permission: 'knowledge:delete',
     handler: pageDelete,
   },
 
@@ -65,6 +71,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The page ID to archive'),
     }),
+    permission: 'knowledge:write',
     handler: pageArchive,
   },
 
@@ -73,6 +80,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The page ID to restore'),
     }),
+    permission: 'knowledge:write',
     handler: pageRestore,
   },
 
@@ -82,6 +90,7 @@ export const knowledgePageTools = {
       page_id: z.string().uuid().describe('The page ID to move'),
       parent_id: z.string().uuid().optional().describe('New parent page ID (null for root)'),
     }),
+    permission: 'knowledge:write',
     handler: pageMove,
   },
 
@@ -90,6 +99,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The page ID to duplicate'),
     }),
+    permission: 'knowledge:create',
     handler: pageDuplicate,
   },
 
@@ -98,6 +108,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The page ID to favorite'),
     }),
+    permission: 'knowledge:write',
     handler: pageFavorite,
   },
 
@@ -106,6 +117,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The page ID to unfavorite'),
     }),
+    permission: 'knowledge:write',
     handler: pageUnfavorite,
   },
 
@@ -115,6 +127,7 @@ export const knowledgePageTools = {
       query: z.string().min(1).describe('Search query'),
       limit: z.number().int().positive().max(50).optional().describe('Maximum results'),
     }),
+    permission: 'knowledge:read',
     handler: pageSearch,
   },
 
@@ -123,6 +136,7 @@ export const knowledgePageTools = {
     inputSchema: workspaceIdSchema.extend({
       page_id: z.string().uuid().describe('The parent page ID'),
     }),
+    permission: 'knowledge:read',
     handler: pageGetChildren,
   },
 
@@ -132,6 +146,7 @@ export const knowledgePageTools = {
       parent_id: z.string().uuid().optional().describe('Parent page ID (null for root)'),
       page_ids: z.array(z.string().uuid()).describe('Ordered list of page IDs'),
     }),
+    permission: 'knowledge:write',
     handler: pageReorder,
   },
 
@@ -141,6 +156,7 @@ export const knowledgePageTools = {
       page_id: z.string().uuid().describe('The page ID'),
       category_id: z.string().uuid().describe('The category ID to add'),
     }),
+    permission: 'knowledge:write',
     handler: pageAddCategory,
   },
 
@@ -150,9 +166,10 @@ export const knowledgePageTools = {
       page_id: z.string().uuid().describe('The page ID'),
       category_id: z.string().uuid().describe('The category ID to remove'),
     }),
+    permission: 'knowledge:write',
     handler: pageRemoveCategory,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for knowledge templates
@@ -16,6 +17,7 @@ export const knowledgeTemplateTools = {
       include_system: z.boolean().optional().describe('Include system templates'),
       category: z.string().optional().describe('Filter by category'),
     }),
+    permission: 'knowledge:read',
     handler: templateList,
   },
 
@@ -24,6 +26,7 @@ export const knowledgeTemplateTools = {
     inputSchema: workspaceIdSchema.extend({
       template_id: z.string().uuid().describe('The template ID'),
     }),
+    permission: 'knowledge:read',
     handler: templateGet,
   },
 
@@ -36,6 +39,7 @@ export const knowledgeTemplateTools = {
       category: z.string().optional().describe('Template category'),
       content: z.any().describe('Template content (BlockNote JSON)'),
     }),
+    permission: 'knowledge:create',
     handler: templateCreate,
   },
 
@@ -49,6 +53,7 @@ export const knowledgeTemplateTools = {
       category: z.string().optional().describe('Template category'),
       content: z.any().optional().describe('Template content'),
     }),
+    permission: 'knowledge:write',
     handler: templateUpdate,
   },
 
@@ -57,6 +62,7 @@ export const knowledgeTemplateTools = {
     inputSchema: workspaceIdSchema.extend({
       template_id: z.string().uuid().describe('The template ID to delete'),
     }),
+    permission: 'knowledge:delete',
     handler: templateDelete,
   },
 
@@ -67,9 +73,10 @@ export const knowledgeTemplateTools = {
       title: z.string().min(1).describe('Title for the new page'),
       parent_id: z.string().uuid().optional().describe('Parent page ID'),
     }),
+    permission: 'knowledge:create',
     handler: templateUse,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
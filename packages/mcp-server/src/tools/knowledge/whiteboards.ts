@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for knowledge whiteboards
@@ -16,6 +17,7 @@ export const knowledgeWhiteboardTools = {
     inputSchema: workspaceIdSchema.merge(paginationSchema).extend({
       is_archived: z.boolean().optional().describe('Include archived whiteboards'),
     }),
+    permission: 'knowledge:read',
     handler: whiteboardList,
   },
 
@@ -24,6 +26,7 @@ export const knowledgeWhiteboardTools = {
     inputSchema: workspaceIdSchema.extend({
       whiteboard_id: z.string().uuid().describe('The whiteboard ID'),
     }),
+    permission: 'knowledge:read',
     handler: whiteboardGet,
   },
 
@@ -34,6 +37,7 @@ export const knowledgeWhiteboardTools = {
       icon: z.string().optional().describe('Whiteboard icon'),
       content: z.any().optional().describe('Excalidraw scene data'),
     }),
+    permission: 'knowledge:create',
     handler: whiteboardCreate,
   },
 
@@ -46,6 +50,7 @@ export const knowledgeWhiteboardTools = {
       content: z.any().optional().describe('Excalidraw scene data'),
       thumbnail: z.string().optional().describe('Base64 thumbnail preview'),
     }),
+    permission: 'knowledge:write',
     handler: whiteboardUpdate,
   },
 
@@ -54,6 +59,7 @@ export const knowledgeWhiteboardTools = {
     inputSchema: workspaceIdSchema.extend({
       whiteboard_id: z.string().uuid().describe('The whiteboard ID to delete'),
     }),
+    permission: 'knowledge:delete',
     handler: whiteboardDelete,
   },
 
@@ -62,6 +68,7 @@ export const knowledgeWhiteboardTools = {
     inputSchema: workspaceIdSchema.extend({
       whiteboard_id: z.string().uuid().describe('The whiteboard ID to archive'),
     }),
+    permission: 'knowledge:write',
     handler: whiteboardArchive,
   },
 
@@ -70,6 +77,7 @@ export const knowledgeWhiteboardTools = {
     inputSchema: workspaceIdSchema.extend({
       whiteboard_id: z.string().uuid().describe('The whiteboard ID to restore'),
     }),
+    permission: 'knowledge:write',
     handler: whiteboardRestore,
   },
 
@@ -78,6 +86,7 @@ export const knowledgeWhiteboardTools = {
     inputSchema: workspaceIdSchema.extend({
       whiteboard_id: z.string().uuid().describe('The whiteboard ID to favorite'),
     }),
+    permission: 'knowledge:write',
     handler: whiteboardFavorite,
   },
 
@@ -86,9 +95,10 @@ export const knowledgeWhiteboardTools = {
     inputSchema: workspaceIdSchema.extend({
       whiteboard_id: z.string().uuid().describe('The whiteboard ID to unfavorite'),
     }),
+    permission: 'knowledge:write',
     handler: whiteboardUnfavorite,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
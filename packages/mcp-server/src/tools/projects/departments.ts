@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for departments
@@ -13,6 +14,7 @@ export const departmentTools = {
   department_list: {
     description: 'List all departments in a workspace',
     inputSchema: workspaceIdSchema,
+    permission: 'projects:read',
     handler: departmentList,
   },
 
@@ -21,6 +23,7 @@ export const departmentTools = {
     inputSchema: workspaceIdSchema.extend({
       department_id: z.string().uuid().describe('The department ID'),
     }),
+    permission: 'projects:read',
     handler: departmentGet,
   },
 
@@ -32,6 +35,7 @@ export const departmentTools = {
       color: z.string().optional().describe('Color hex code (e.g., #6366f1)'),
       icon: z.string().optional().describe('Icon name (e.g., building-2)'),
     }),
+    permission: 'projects:create',
     handler: departmentCreate,
   },
 
@@ -45,6 +49,7 @@ export const departmentTools = {
       icon: z.string().optional().describe('Icon name'),
       position: z.number().int().nonnegative().optional().describe('Display position'),
     }),
+    permission: 'projects:write',
     handler: departmentUpdate,
   },
 
@@ -53,9 +58,10 @@ export const departmentTools = {
     inputSchema: workspaceIdSchema.extend({
       department_id: z.string().uuid().describe('The department ID to delete'),
     }),
+    permission: 'projects:delete',
     handler: departmentDelete,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Milestone status enum
@@ -19,6 +20,7 @@ export const milestoneTools = {
       project_id: z.string().uuid().describe('The project ID'),
       status: milestoneStatusSchema.optional().describe('Filter by status'),
     }),
+    permission: 'projects:read',
     handler: milestoneList,
   },
 
@@ -27,6 +29,7 @@ export const milestoneTools = {
     inputSchema: workspaceIdSchema.extend({
       milestone_id: z.string().uuid().describe('The milestone ID'),
     }),
+    permission: 'projects:read',
     handler: milestoneGet,
   },
 
@@ -38,6 +41,7 @@ export const milestoneTools = {
       description: z.string().optional().describe('Milestone description'),
       target_date: z.string().describe('Target date (YYYY-MM-DD)'),
     }),
+    permission: 'projects:create',
     handler: milestoneCreate,
   },
 
@@ -50,6 +54,7 @@ export const milestoneTools = {
       target_date: z.string().optional().describe('Target date (YYYY-MM-DD)'),
       status: milestoneStatusSchema.optional().describe('Milestone status'),
     }),
+    permission: 'projects:write',
     handler: milestoneUpdate,
   },
 
@@ -58,6 +63,7 @@ export const milestoneTools = {
     inputSchema: workspaceIdSchema.extend({
       milestone_id: z.string().uuid().describe('The milestone ID to delete'),
     }),
+    permission: 'projects:delete',
     handler: milestoneDelete,
   },
 
@@ -67,6 +73,7 @@ export const milestoneTools = {
       milestone_id: z.string().uuid().describe('The milestone ID'),
       task_id: z.string().uuid().describe('The task ID to add'),
     }),
+    permission: 'projects:write',
     handler: milestoneAddTask,
   },
 
@@ -76,6 +83,7 @@ export const milestoneTools = {
       milestone_id: z.string().uuid().describe('The milestone ID'),
       task_id: z.string().uuid().describe('The task ID to remove'),
     }),
+    permission: 'projects:write',
     handler: milestoneRemoveTask,
   },
 
@@ -84,9 +92,10 @@ export const milestoneTools = {
     inputSchema: workspaceIdSchema.extend({
       milestone_id: z.string().uuid().describe('The milestone ID'),
     }),
+    permission: 'projects:read',
     handler: milestoneGetProgress,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Helper to verify milestone access
 async function getMilestoneWithProject(
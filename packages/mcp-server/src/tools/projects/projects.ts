@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Project status enum
@@ -24,6 +25,7 @@ export const projectTools = {
       department_id: z.string().uuid().optional().describe('Filter by department'),
       owner_id: z.string().uuid().optional().describe('Filter by owner'),
     }),
+    permission: 'projects:read',
     handler: projectList,
   },
 
@@ -32,6 +34,7 @@ export const projectTools = {
     inputSchema: workspaceIdSchema.extend({
       project_id: z.string().uuid().describe('The project ID'),
     }),
+    permission: 'projects:read',
     handler: projectGet,
   },
 
@@ -49,6 +52,7 @@ export const projectTools = {
       budget: z.number().positive().optional().describe('Project budget'),
       department_id: z.string().uuid().optional().describe('Department ID'),
     }),
+    permission: 'projects:create',
     handler: projectCreate,
   },
 
@@ -68,6 +72,7 @@ export const projectTools = {
       budget: z.number().positive().optional().describe('Project budget'),
       department_id: z.string().uuid().optional().describe('Department ID'),
     }),
+    permission: 'projects:write',
     handler: projectUpdate,
   },
 
@@ -76,6 +81,7 @@ export const projectTools = {
     inputSchema: workspaceIdSchema.extend({
       project_id: z.string().uuid().describe('The project ID to delete'),
     }),
+    permission: 'projects:delete',
     handler: projectDelete,
   },
 
@@ -84,6 +90,7 @@ export const projectTools = {
     inputSchema: workspaceIdSchema.extend({
       project_id: z.string().uuid().describe('The project ID to archive'),
     }),
+    permission: 'projects:write',
     handler: projectArchive,
   },
 
@@ -95,6 +102,7 @@ export const projectTools = {
       role: z.enum(['owner', 'admin', 'member', 'viewer']).optional().describe('Member role'),
       hours_per_week: z.number().positive().optional().describe('Expected hours per week'),
     }),
+    permission: 'projects:write',
     handler: projectAddMember,
   },
 
@@ -104,6 +112,7 @@ export const projectTools = {
       project_id: z.string().uuid().describe('The project ID'),
       user_id: z.string().uuid().describe('The user ID to remove'),
     }),
+    permission: 'projects:write',
     handler: projectRemoveMember,
   },
 
@@ -112,6 +121,7 @@ export const projectTools = {
     inputSchema: workspaceIdSchema.extend({
       project_id: z.string().uuid().describe('The project ID'),
     }),
+    permission: 'projects:read',
     handler: projectGetMembers,
   },
 
@@ -120,6 +130,7 @@ export const projectTools = {
     inputSchema: workspaceIdSchema.extend({
       project_id: z.string().uuid().describe('The project ID'),
     }),
+    permission: 'projects:read',
     handler: projectGetProgress,
   },
 
@@ -129,9 +140,10 @@ export const projectTools = {
       project_id: z.string().uuid().describe('The project ID'),
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'projects:read',
     handler: projectGetActivity,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
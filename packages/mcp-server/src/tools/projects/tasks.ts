@@ -7,6 +7,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Task status enum
@@ -29,6 +30,7 @@ export const taskTools = {
       priority: taskPrioritySchema.optional().describe('Filter by priority'),
       milestone_id: z.string().uuid().optional().describe('Filter by milestone'),
     }),
+    permission: 'tasks:read',
     handler: taskList,
   },
 
@@ -37,6 +39,7 @@ export const taskTools = {
     inputSchema: workspaceIdSchema.extend({
       task_id: z.string().uuid().describe('The task ID'),
     }),
+    permission: 'tasks:read',
     handler: taskGet,
   },
 
@@ -53,6 +56,7 @@ export const taskTools = {
       estimated_hours: z.number().positive().optional().describe('Estimated hours'),
       parent_id: z.string().uuid().optional().describe('Parent task ID for subtasks'),
     }),
+    permission: 'tasks:create',
     handler: taskCreate,
   },
 
@@ -69,6 +73,7 @@ export const taskTools = {
       estimated_hours: z.number().positive().optional().describe('Estimated hours'),
       actual_hours: z.number().nonnegative().optional().describe('Actual hours worked'),
     }),
+    permission: 'tasks:write',
     handler: taskUpdate,
   },
 
@@ -77,6 +82,7 @@ export const taskTools = {
     inputSchema: workspaceIdSchema.extend({
       task_id: z.string().uuid().describe('The task ID to delete'),
     }),
+    permission: 'tasks:delete',
     handler: taskDelete,
   },
 
@@ -86,6 +92,7 @@ export const taskTools = {
       task_id: z.string().uuid().describe('The task ID'),
       assignee_id: z.string().uuid().describe('The user ID to assign'),
     }),
+    permission: 'tasks:write',
     handler: taskAssign,
   },
 
@@ -95,6 +102,7 @@ export const taskTools = {
       task_id: z.string().uuid().describe('The task ID'),
       assignee_id: z.string().uuid().describe('The user ID to remove'),
     }),
+    permission: 'tasks:write',
     handler: taskUnassign,
   },
 
@@ -104,6 +112,7 @@ export const taskTools = {
       task_id: z.string().uuid().describe('The task ID'),
       status: taskStatusSchema.describe('New status'),
     }),
+    permission: 'tasks:write',
     handler: taskChangeStatus,
   },
 
@@ -114,6 +123,7 @@ export const taskTools = {
       depends_on_task_id: z.string().uuid().describe('The task this depends on'),
       dependency_type: dependencyTypeSchema.optional().describe('Type of dependency'),
     }),
+    permission: 'tasks:write',
     handler: taskAddDependency,
   },
 
@@ -123,6 +133,7 @@ export const taskTools = {
       task_id: z.string().uuid().describe('The task ID'),
       depends_on_task_id: z.string().uuid().describe('The dependency task to remove'),
     }),
+    permission: 'tasks:write',
     handler: taskRemoveDependency,
   },
 
@@ -132,6 +143,7 @@ export const taskTools = {
       task_id: z.string().uuid().describe('The task ID'),
       label_id: z.string().uuid().describe('The label ID to add'),
     }),
+    permission: 'tasks:write',
     handler: taskAddLabel,
   },
 
@@ -141,6 +153,7 @@ export const taskTools = {
       task_id: z.string().uuid().describe('The task ID'),
       label_id: z.string().uuid().describe('The label ID to remove'),
     }),
+    permission: 'tasks:write',
     handler: taskRemoveLabel,
   },
 
@@ -151,6 +164,7 @@ export const taskTools = {
       content: z.string().min(1).describe('Comment content'),
       parent_id: z.string().uuid().optional().describe('Parent comment ID for replies'),
     }),
+    permission: 'tasks:create',
     handler: taskAddComment,
   },
 
@@ -159,6 +173,7 @@ export const taskTools = {
     inputSchema: workspaceIdSchema.extend({
       task_id: z.string().uuid().describe('The task ID'),
     }),
+    permission: 'tasks:read',
     handler: taskGetComments,
   },
 
@@ -168,6 +183,7 @@ export const taskTools = {
       status: taskStatusSchema.optional().describe('Filter by status'),
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'tasks:read',
     handler: taskGetMyTasks,
   },
 
@@ -176,9 +192,10 @@ export const taskTools = {
     inputSchema: workspaceIdSchema.extend({
       project_id: z.string().uuid().optional().describe('Filter by project'),
     }),
+    permission: 'tasks:read',
     handler: taskGetOverdue,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Helper to get project workspace
 async function getTaskProject(supabase: ReturnType<typeof getSupabase>, taskId: string, workspaceId: string) {
@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Notification preference schema
@@ -18,6 +19,7 @@ export const channelTools = {
     inputSchema: workspaceIdSchema.extend({
       include_private: z.boolean().optional().describe('Include private channels the user is a member of'),
     }),
+    permission: 'channels:read',
     handler: channelList,
   },
 
@@ -26,6 +28,7 @@ export const channelTools = {
     inputSchema: workspaceIdSchema.extend({
       channel_id: z.string().uuid().describe('The channel ID'),
     }),
+    permission: 'channels:read',
     handler: channelGet,
   },
 
@@ -36,6 +39,7 @@ export const channelTools = {
       description: z.string().optional().describe('Channel description'),
       is_private: z.boolean().optional().describe('Make this a private channel'),
     }),
+    permission: 'channels:create',
     handler: channelCreate,
   },
 
@@ -46,6 +50,7 @@ export const channelTools = {
       name: z.string().min(1).max(100).optional().describe('Channel name'),
       description: z.string().optional().describe('Channel description'),
     }),
+    permission: 'channels:write',
     handler: channelUpdate,
   },
 
@@ -54,6 +59,7 @@ export const channelTools = {
     inputSchema: workspaceIdSchema.extend({
       channel_id: z.string().uuid().describe('The channel ID to delete'),
     }),
+    permission: 'channels:delete',
     handler: channelDelete,
   },
 
@@ -62,6 +68,7 @@ export const channelTools = {
     inputSchema: workspaceIdSchema.extend({
       channel_id: z.string().uuid().describe('The channel ID to join'),
     }),
+    permission: 'channels:read',
     handler: channelJoin,
   },
 
@@ -70,6 +77,7 @@ export const channelTools = {
     inputSchema: workspaceIdSchema.extend({
       channel_id: z.string().uuid().describe('The channel ID to leave'),
     }),
+    permission: 'channels:read',
     handler: channelLeave,
   },
 
@@ -79,6 +87,7 @@ export const channelTools = {
       channel_id: z.string().uuid().describe('The channel ID'),
       member_id: z.string().uuid().describe('The workspace member ID to add'),
     }),
+    permission: 'channels:write',
     handler: channelAddMember,
   },
 
@@ -88,6 +97,7 @@ export const channelTools = {
       channel_id: z.string().uuid().describe('The channel ID'),
       member_id: z.string().uuid().describe('The workspace member ID to remove'),
     }),
+    permission: 'channels:write',
     handler: channelRemoveMember,
   },
 
@@ -96,6 +106,7 @@ export const channelTools = {
     inputSchema: workspaceIdSchema.extend({
       channel_id: z.string().uuid().describe('The channel ID'),
     }),
+    permission: 'channels:read',
     handler: channelGetMembers,
   },
 
@@ -105,9 +116,10 @@ export const channelTools = {
       channel_id: z.string().uuid().describe('The channel ID'),
       notifications: notificationPreferenceSchema.describe('Notification preference'),
     }),
+    permission: 'channels:read',
     handler: channelSetNotifications,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
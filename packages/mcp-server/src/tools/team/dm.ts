@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for direct messages
@@ -13,6 +14,7 @@ export const dmTools = {
   dm_list_conversations: {
     description: 'List all DM conversations for the current user',
     inputSchema: workspaceIdSchema,
+    permission: 'messages:read',
     handler: dmListConversations,
   },
 
@@ -21,6 +23,7 @@ export const dmTools = {
     inputSchema: workspaceIdSchema.extend({
       conversation_id: z.string().uuid().describe('The conversation ID'),
     }),
+    permission: 'messages:read',
     handler: dmGetConversation,
   },
 
@@ -29,6 +32,7 @@ export const dmTools = {
     inputSchema: workspaceIdSchema.extend({
       participant_ids: z.array(z.string().uuid()).min(1).describe('Profile IDs of participants'),
     }),
+    permission: 'messages:create',
     handler: dmCreateConversation,
   },
 
@@ -37,6 +41,7 @@ export const dmTools = {
     inputSchema: workspaceIdSchema.extend({
       participant_id: z.string().uuid().describe('Profile ID of the other participant'),
     }),
+    permission: 'messages:create',
     handler: dmGetOrCreate,
   },
 
@@ -45,6 +50,7 @@ export const dmTools = {
     inputSchema: workspaceIdSchema.extend({
       conversation_id: z.string().uuid().describe('The conversation ID to archive'),
     }),
+    permission: 'messages:write',
     handler: dmArchiveConversation,
   },
 
@@ -53,15 +59,17 @@ export const dmTools = {
     inputSchema: workspaceIdSchema.extend({
       conversation_id: z.string().uuid().describe('The conversation ID'),
     }),
+    permission: 'messages:write',
     handler: dmMarkRead,
   },
 
   dm_get_unread_count: {
     description: 'Get the count of unread DM conversations',
     inputSchema: workspaceIdSchema,
+    permission: 'messages:read',
     handler: dmGetUnreadCount,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
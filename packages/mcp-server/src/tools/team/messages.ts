@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Tool definitions for messages
@@ -19,6 +20,7 @@ export const messageTools = {
       before: z.string().optional().describe('Return messages before this timestamp'),
       after: z.string().optional().describe('Return messages after this timestamp'),
     }),
+    permission: 'messages:read',
     handler: messageList,
   },
 
@@ -27,6 +29,7 @@ export const messageTools = {
     inputSchema: workspaceIdSchema.extend({
       message_id: z.string().uuid().describe('The message ID'),
     }),
+    permission: 'messages:read',
     handler: messageGet,
   },
 
@@ -38,6 +41,7 @@ export const messageTools = {
       content: z.string().min(1).describe('Message content'),
       parent_id: z.string().uuid().optional().describe('Parent message ID for threading'),
     }),
+    permission: 'messages:create',
     handler: messageSend,
   },
 
@@ -47,6 +51,7 @@ export const messageTools = {
       message_id: z.string().uuid().describe('The message ID'),
       content: z.string().min(1).describe('New message content'),
     }),
+    permission: 'messages:write',
     handler: messageUpdate,
   },
 
@@ -55,6 +60,7 @@ export const messageTools = {
     inputSchema: workspaceIdSchema.extend({
       message_id: z.string().uuid().describe('The message ID to delete'),
     }),
+    permission: 'messages:delete',
     handler: messageDelete,
   },
 
@@ -64,6 +70,7 @@ export const messageTools = {
       parent_message_id: z.string().uuid().describe('The parent message ID'),
       content: z.string().min(1).describe('Reply content'),
     }),
+    permission: 'messages:create',
     handler: messageReply,
   },
 
@@ -73,6 +80,7 @@ export const messageTools = {
       message_id: z.string().uuid().describe('The message ID'),
       emoji: z.string().min(1).max(50).describe('Emoji to add'),
     }),
+    permission: 'messages:write',
     handler: messageAddReaction,
   },
 
@@ -82,6 +90,7 @@ export const messageTools = {
       message_id: z.string().uuid().describe('The message ID'),
       emoji: z.string().min(1).max(50).describe('Emoji to remove'),
     }),
+    permission: 'messages:write',
     handler: messageRemoveReaction,
   },
 
@@ -93,6 +102,7 @@ export const messageTools = {
       sender_id: z.string().uuid().optional().describe('Filter by sender'),
       limit: z.number().int().positive().max(100).optional().describe('Maximum results'),
     }),
+    permission: 'messages:read',
     handler: messageSearch,
   },
 
@@ -101,6 +111,7 @@ export const messageTools = {
     inputSchema: workspaceIdSchema.extend({
       parent_message_id: z.string().uuid().describe('The parent message ID'),
     }),
+    permission: 'messages:read',
     handler: messageGetThread,
   },
 
@@ -109,6 +120,7 @@ export const messageTools = {
     inputSchema: workspaceIdSchema.extend({
       message_id: z.string().uuid().describe('The message ID to pin'),
     }),
+    permission: 'messages:write',
     handler: messagePin,
   },
 
@@ -117,9 +129,10 @@ export const messageTools = {
     inputSchema: workspaceIdSchema.extend({
       message_id: z.string().uuid().describe('The message ID to unpin'),
     }),
+    permission: 'messages:write',
     handler: messageUnpin,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -6,6 +6,7 @@ import {
   success,
   error,
   type ToolResult,
+  type ToolDefinition,
 } from '../../types.js'
 
 // Member role schema
@@ -19,6 +20,7 @@ export const workspaceTools = {
   workspace_get: {
     description: 'Get workspace details',
     inputSchema: workspaceIdSchema,
+    permission: 'workspace:read',
     handler: workspaceGet,
   },
 
@@ -29,6 +31,7 @@ export const workspaceTools = {
       avatar_url: z.string().url().optional().describe('Workspace avatar URL'),
       description: z.string().optional().describe('Workspace description'),
     }),
+    permission: 'workspace:write',
     handler: workspaceUpdate,
   },
 
@@ -37,6 +40,7 @@ export const workspaceTools = {
     inputSchema: workspaceIdSchema.extend({
       role: memberRoleSchema.optional().describe('Filter by role'),
     }),
+    permission: 'members:read',
     handler: workspaceMemberList,
   },
 
@@ -45,6 +49,7 @@ export const workspaceTools = {
     inputSchema: workspaceIdSchema.extend({
       member_id: z.string().uuid().describe('The member ID'),
     }),
+    permission: 'members:read',
     handler: workspaceMemberGet,
   },
 
@@ -54,6 +59,7 @@ export const workspaceTools = {
       email: z.string().email().describe('Email address to invite'),
       role: memberRoleSchema.optional().describe('Role for the new member'),
     }),
+    permission: 'members:create',
     handler: workspaceMemberInvite,
   },
 
@@ -63,6 +69,7 @@ export const workspaceTools = {
       member_id: z.string().uuid().describe('The member ID'),
       role: memberRoleSchema.describe('New role'),
     }),
+    permission: 'members:write',
     handler: workspaceMemberUpdateRole,
   },
 
@@ -71,6 +78,7 @@ export const workspaceTools = {
     inputSchema: workspaceIdSchema.extend({
       member_id: z.string().uuid().describe('The member ID to remove'),
     }),
+    permission: 'members:delete',
     handler: workspaceMemberRemove,
   },
 
@@ -81,9 +89,10 @@ export const workspaceTools = {
       status: memberStatusSchema.describe('New status'),
       status_text: z.string().max(100).optional().describe('Custom status text'),
     }),
+    permission: 'members:write',
     handler: workspaceMemberSetStatus,
   },
-}
+} satisfies Record<string, ToolDefinition>
 
 // Handler implementations
 
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import type { ToolPermission } from './lib/permissions.js'
 
 // Common schemas for tool parameters
 export const workspaceIdSchema = z.object({
@@ -56,6 +57,15 @@ export interface ToolResult {
   [key: string]: unknown // Allow additional properties for MCP compatibility
 }
 
+// Tool definition shape shared by every tool module
+export interface ToolDefinition {
+  description: string
+  inputSchema: z.ZodTypeAny
+  permission: ToolPermission // Checked against the caller's role before the handler runs
+  ownerParam?: 'profile_id' | 'user_id' // User-scoped tools: over HTTP this argument must be the caller
+  handler: (params: never) => Promise<ToolResult>
+}
+
 // Helper to create successful tool result
 export function success(data: unknown): ToolResult {
   return {